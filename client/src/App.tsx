@@ -25,9 +25,28 @@ import FixApiKey from "@/pages/fix-api-key";
 import OpenAiTest from "@/pages/openai-test";
 import TaskExtractionTestPage from "@/pages/TaskExtractionTestPage";
 import EnhancedBatchProcessingPage from "@/pages/EnhancedBatchProcessingPage";
+import AuthPage from "@/pages/auth";
+import ResetPassword from "@/pages/reset-password";
 import Layout from "@/components/Layout";
+import { useUser } from "@/hooks/useAuth";
 
 function Router() {
+  const { data: user, isLoading } = useUser();
+
+  if (isLoading) {
+    return null;
+  }
+
+  // Everything else needs a signed-in user
+  if (!user) {
+    return (
+      <Switch>
+        <Route path="/reset-password" component={ResetPassword} />
+        <Route component={AuthPage} />
+      </Switch>
+    );
+  }
+
   return (
     <Layout>
       <Switch>
@@ -51,6 +70,7 @@ function Router() {
         <Route path="/openai-test" component={OpenAiTest} />
         <Route path="/task-extraction-test" component={TaskExtractionTestPage} />
         <Route path="/enhanced-batch" component={EnhancedBatchProcessingPage} />
+        <Route path="/reset-password" component={ResetPassword} />
         <Route component={NotFound} />
       </Switch>
     </Layout>
@@ -2,12 +2,13 @@ import React from 'react';
 import { Badge } from "@/components/ui/badge";
 
 interface AccountStatusProps {
-  type: 'gmail' | 'exchange';
+  type: 'gmail' | 'exchange' | 'imap' | 'outlook_graph' | 'jmap';
   email: string;
   isConnected: boolean;
+  needsReconsent?: boolean;
 }
 
-const AccountStatus: React.FC<AccountStatusProps> = ({ type, email, isConnected }) => {
+const AccountStatus: React.FC<AccountStatusProps> = ({ type, email, isConnected, needsReconsent }) => {
   return (
     <div className="flex items-center">
       <div className={`w-10 h-10 rounded-full flex items-center justify-center ${type === 'gmail' ? 'bg-red-100' : 'bg-blue-100'} mr-3`}>
@@ -18,7 +19,12 @@ const AccountStatus: React.FC<AccountStatusProps> = ({ type, email, isConnected
       <div>
         <div className="font-medium flex items-center">
           {email}
-          {isConnected ? (
+          {needsReconsent ? (
+            <div className="ml-2 px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+              <span className="material-icons text-xs mr-1">warning</span>
+              Sign in again
+            </div>
+          ) : isConnected ? (
             <div className="ml-2 px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
               <span className="material-icons text-xs mr-1">check_circle</span>
               Active
@@ -31,7 +37,7 @@ const AccountStatus: React.FC<AccountStatusProps> = ({ type, email, isConnected
           )}
         </div>
         <div className="text-xs text-gray-500">
-          {type === 'gmail' ? 'Gmail' : 'Microsoft Exchange'}
+          {type === 'gmail' ? 'Gmail' : type === 'imap' ? 'IMAP' : type === 'outlook_graph' ? 'Microsoft 365' : type === 'jmap' ? 'JMAP' : 'Microsoft Exchange'}
         </div>
       </div>
     </div>
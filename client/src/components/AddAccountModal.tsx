@@ -10,6 +10,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { 
   Select, 
   SelectContent, 
@@ -31,6 +32,8 @@ export default function AddAccountModal({ isOpen, onClose }: AddAccountModalProp
   const [accountTab, setAccountTab] = useState("gmail");
   const [gmailAuthMethod, setGmailAuthMethod] = useState("app_password");
   const [exchangeAuthMethod, setExchangeAuthMethod] = useState("basic");
+  const [imapTlsMode, setImapTlsMode] = useState("tls");
+  const [imapAllowSelfSigned, setImapAllowSelfSigned] = useState(false);
   
   // Form state
   const [gmailForm, setGmailForm] = useState({
@@ -47,8 +50,32 @@ export default function AddAccountModal({ isOpen, onClose }: AddAccountModalProp
     displayName: ""
   });
   
+  const [microsoftForm, setMicrosoftForm] = useState({
+    emailAddress: ""
+  });
+  
+  const [imapForm, setImapForm] = useState({
+    emailAddress: "",
+    host: "",
+    port: "993",
+    username: "",
+    password: "",
+    displayName: "",
+    smtpHost: "",
+    smtpPort: "587"
+  });
+  
   const createAccountMutation = useCreateEmailAccount();
   
+  // Keep the port in step with the TLS mode unless the user picked a custom one
+  const handleImapTlsModeChange = (mode: string) => {
+    const defaultPorts = ["993", "143"];
+    if (defaultPorts.includes(imapForm.port)) {
+      setImapForm({ ...imapForm, port: mode === "tls" ? "993" : "143" });
+    }
+    setImapTlsMode(mode);
+  };
+  
   // Handle Gmail OAuth connection
   const handleGmailOAuth = async () => {
     try {
@@ -80,6 +107,46 @@ export default function AddAccountModal({ isOpen, onClose }: AddAccountModalProp
     }
   };
   
+  // Handle Microsoft 365 connection through Microsoft Graph OAuth
+  const handleMicrosoftOAuth = async () => {
+    if (!microsoftForm.emailAddress) {
+      toast({
+        title: "Missing information",
+        description: "Please enter your Microsoft 365 email address",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    try {
+      const response = await fetch('/api/oauth/microsoft/url', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ email: microsoftForm.emailAddress })
+      });
+      
+      if (!response.ok) {
+        throw new Error('Failed to generate OAuth URL');
+      }
+      
+      const { authUrl } = await response.json();
+      
+      // Close the modal before redirecting
+      onClose();
+      
+      // Redirect to the Microsoft sign-in page
+      window.location.href = authUrl;
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start OAuth flow",
+        variant: "destructive"
+      });
+    }
+  };
+  
   // Handle Gmail App Password connection
   const handleAddGmailAccount = async () => {
     if (!gmailForm.emailAddress || (gmailAuthMethod === "app_password" && !gmailForm.appPassword)) {
@@ -194,6 +261,81 @@ export default function AddAccountModal({ isOpen, onClose }: AddAccountModalProp
     }
   };
   
+  // Handle generic IMAP account connection
+  const handleAddImapAccount = async () => {
+    if (!imapForm.emailAddress || !imapForm.host || !imapForm.port || !imapForm.password) {
+      toast({
+        title: "Missing information",
+        description: "Please fill all required fields for IMAP account",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    try {
+      createAccountMutation.mutate({
+        accountType: "imap",
+        authMethod: "basic",
+        emailAddress: imapForm.emailAddress,
+        displayName: imapForm.displayName || imapForm.emailAddress,
+        credentials: {
+          password: imapForm.password
+        },
+        serverSettings: {
+          host: imapForm.host,
+          port: parseInt(imapForm.port, 10),
+          tlsMode: imapTlsMode,
+          authMethod: "password",
+          username: imapForm.username || imapForm.emailAddress,
+          rejectUnauthorized: !imapAllowSelfSigned,
+          ...(imapForm.smtpHost ? {
+            smtp: {
+              host: imapForm.smtpHost,
+              port: parseInt(imapForm.smtpPort, 10),
+              tlsMode: imapForm.smtpPort === "465" ? "tls" : "starttls",
+              rejectUnauthorized: !imapAllowSelfSigned
+            }
+          } : {})
+        }
+      }, {
+        onSuccess: () => {
+          toast({
+            title: "Account added",
+            description: `${imapForm.emailAddress} was successfully connected.`
+          });
+          
+          // Reset form and close modal
+          setImapForm({
+            emailAddress: "",
+            host: "",
+            port: "993",
+            username: "",
+            password: "",
+            displayName: "",
+            smtpHost: "",
+            smtpPort: "587"
+          });
+          setImapTlsMode("tls");
+          setImapAllowSelfSigned(false);
+          onClose();
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to add IMAP account",
+            variant: "destructive"
+          });
+        }
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+  
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[520px]">
@@ -205,9 +347,11 @@ export default function AddAccountModal({ isOpen, onClose }: AddAccountModalProp
         </DialogHeader>
         
         <Tabs defaultValue="gmail" value={accountTab} onValueChange={setAccountTab}>
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="gmail">Gmail</TabsTrigger>
-            <TabsTrigger value="exchange">Exchange / Office 365</TabsTrigger>
+            <TabsTrigger value="microsoft">Microsoft 365</TabsTrigger>
+            <TabsTrigger value="exchange">Exchange</TabsTrigger>
+            <TabsTrigger value="imap">Other IMAP</TabsTrigger>
           </TabsList>
           
           {/* Gmail Tab */}
@@ -300,6 +444,37 @@ export default function AddAccountModal({ isOpen, onClose }: AddAccountModalProp
             </DialogFooter>
           </TabsContent>
           
+          {/* Microsoft 365 Tab */}
+          <TabsContent value="microsoft">
+            <div className="space-y-4 pt-4">
+              <div className="space-y-2">
+                <Label htmlFor="microsoft-email">Email Address</Label>
+                <Input 
+                  id="microsoft-email" 
+                  type="email"
+                  placeholder="your.email@company.com" 
+                  value={microsoftForm.emailAddress}
+                  onChange={(e) => setMicrosoftForm({ emailAddress: e.target.value })}
+                />
+              </div>
+              
+              <div className="text-sm mt-2">
+                <p className="text-gray-500">
+                  You'll be redirected to Microsoft to authorize read access to your mailbox through Microsoft Graph.
+                </p>
+              </div>
+            </div>
+            
+            <DialogFooter className="mt-6">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="button" onClick={handleMicrosoftOAuth}>
+                Sign in with Microsoft
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+          
           {/* Exchange Tab */}
           <TabsContent value="exchange">
             <div className="space-y-4 pt-4">
@@ -376,6 +551,154 @@ export default function AddAccountModal({ isOpen, onClose }: AddAccountModalProp
                 {createAccountMutation.isPending ? "Connecting..." : "Connect Exchange Account"}
               </Button>
             </DialogFooter>
+          </TabsContent>          
+          {/* Generic IMAP Tab */}
+          <TabsContent value="imap">
+            <div className="space-y-4 pt-4">
+              <div className="space-y-2">
+                <Label htmlFor="imap-email">Email Address</Label>
+                <Input 
+                  id="imap-email" 
+                  type="email" 
+                  placeholder="your.email@fastmail.com"
+                  value={imapForm.emailAddress}
+                  onChange={(e) => setImapForm({...imapForm, emailAddress: e.target.value})}
+                />
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="imap-display-name">Display Name (Optional)</Label>
+                <Input 
+                  id="imap-display-name" 
+                  placeholder="Work Email, Personal, etc."
+                  value={imapForm.displayName}
+                  onChange={(e) => setImapForm({...imapForm, displayName: e.target.value})}
+                />
+              </div>
+              
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="imap-host">IMAP Server</Label>
+                  <Input 
+                    id="imap-host" 
+                    placeholder="imap.fastmail.com"
+                    value={imapForm.host}
+                    onChange={(e) => setImapForm({...imapForm, host: e.target.value})}
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="imap-port">Port</Label>
+                  <Input 
+                    id="imap-port" 
+                    type="number"
+                    placeholder="993"
+                    value={imapForm.port}
+                    onChange={(e) => setImapForm({...imapForm, port: e.target.value})}
+                  />
+                </div>
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="imap-tls-mode">Security</Label>
+                <Select 
+                  value={imapTlsMode}
+                  onValueChange={handleImapTlsModeChange}
+                >
+                  <SelectTrigger id="imap-tls-mode">
+                    <SelectValue placeholder="Select security" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="tls">SSL/TLS</SelectItem>
+                    <SelectItem value="starttls">STARTTLS</SelectItem>
+                    <SelectItem value="none">None (unencrypted)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              {imapTlsMode !== "none" && (
+                <div className="space-y-1">
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="imap-allow-self-signed"
+                      checked={imapAllowSelfSigned}
+                      onCheckedChange={(checked) => setImapAllowSelfSigned(checked === true)}
+                    />
+                    <Label htmlFor="imap-allow-self-signed">Accept self-signed certificates</Label>
+                  </div>
+                  {imapAllowSelfSigned && (
+                    <p className="text-xs text-amber-600">
+                      The server's certificate won't be checked, so anyone between you and the server could read your password. Only use this for servers you run yourself.
+                    </p>
+                  )}
+                </div>
+              )}
+              
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="imap-username">Username (Optional)</Label>
+                  <Input 
+                    id="imap-username" 
+                    placeholder="Defaults to email address"
+                    value={imapForm.username}
+                    onChange={(e) => setImapForm({...imapForm, username: e.target.value})}
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="imap-password">Password</Label>
+                  <Input 
+                    id="imap-password" 
+                    type="password"
+                    placeholder="Password or app password"
+                    value={imapForm.password}
+                    onChange={(e) => setImapForm({...imapForm, password: e.target.value})}
+                  />
+                </div>
+              </div>
+              
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2 col-span-2">
+                  <Label htmlFor="imap-smtp-host">SMTP Server (Optional)</Label>
+                  <Input 
+                    id="imap-smtp-host" 
+                    placeholder="Defaults to the IMAP server with smtp. in place of imap."
+                    value={imapForm.smtpHost}
+                    onChange={(e) => setImapForm({...imapForm, smtpHost: e.target.value})}
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="imap-smtp-port">SMTP Port</Label>
+                  <Input 
+                    id="imap-smtp-port" 
+                    type="number"
+                    placeholder="587"
+                    value={imapForm.smtpPort}
+                    onChange={(e) => setImapForm({...imapForm, smtpPort: e.target.value})}
+                  />
+                </div>
+              </div>
+              
+              <div className="text-sm mt-2">
+                <p className="text-gray-500">
+                  Works with Fastmail, Dovecot and most corporate IMAP servers.
+                </p>
+              </div>
+            </div>
+            
+            <DialogFooter className="mt-6">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button 
+                type="button" 
+                onClick={handleAddImapAccount}
+                disabled={createAccountMutation.isPending}
+              >
+                {createAccountMutation.isPending ? "Connecting..." : "Connect IMAP Account"}
+              </Button>
+            </DialogFooter>
           </TabsContent>
         </Tabs>
       </DialogContent>
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { UsageTotals, useAiUsage, useUpdateMonthlyBudget } from "@/hooks/useAiUsage";
+
+const formatUsd = (value: number) => `$${value.toFixed(value > 0 && value < 0.01 ? 4 : 2)}`;
+const formatTokens = (value: number) => value.toLocaleString();
+
+const UsageTable: React.FC<{ label: string; rows: (UsageTotals & { name: string })[] }> = ({ label, rows }) => (
+  <Table>
+    <TableHeader>
+      <TableRow>
+        <TableHead>{label}</TableHead>
+        <TableHead className="text-right">Calls</TableHead>
+        <TableHead className="text-right">Input tokens</TableHead>
+        <TableHead className="text-right">Output tokens</TableHead>
+        <TableHead className="text-right">Avg. latency</TableHead>
+        <TableHead className="text-right">Cost</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {rows.length === 0 ? (
+        <TableRow>
+          <TableCell colSpan={6} className="text-center text-gray-500">No AI calls in this period</TableCell>
+        </TableRow>
+      ) : rows.map(row => (
+        <TableRow key={row.name}>
+          <TableCell className="font-mono text-xs">{row.name}</TableCell>
+          <TableCell className="text-right">
+            {row.calls}
+            {row.failedCalls > 0 && <span className="text-red-600"> ({row.failedCalls} failed)</span>}
+          </TableCell>
+          <TableCell className="text-right">{formatTokens(row.promptTokens)}</TableCell>
+          <TableCell className="text-right">{formatTokens(row.completionTokens)}</TableCell>
+          <TableCell className="text-right">{row.averageLatencyMs} ms</TableCell>
+          <TableCell className="text-right">{formatUsd(row.costUsd)}</TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+/**
+ * What the AI features have cost the signed-in user, by feature and model, and
+ * their monthly budget. Background AI work pauses once the budget is reached.
+ */
+const AiUsageSettings: React.FC = () => {
+  const { toast } = useToast();
+  const [days, setDays] = useState(30);
+  const { data, isLoading } = useAiUsage(days);
+  const budgetMutation = useUpdateMonthlyBudget();
+  const [budgetInput, setBudgetInput] = useState("");
+
+  const report = data?.data;
+  const budget = report?.budget;
+
+  useEffect(() => {
+    setBudgetInput(budget?.budgetUsd != null ? String(budget.budgetUsd) : "");
+  }, [budget?.budgetUsd]);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading usage...</p>;
+  }
+
+  if (!report || !budget) {
+    return <p className="text-sm text-gray-500">Usage is not available.</p>;
+  }
+
+  const handleSaveBudget = () => {
+    const monthlyBudgetUsd = budgetInput.trim() === "" ? null : Number(budgetInput);
+    if (monthlyBudgetUsd !== null && (!Number.isFinite(monthlyBudgetUsd) || monthlyBudgetUsd < 0)) {
+      toast({ title: "Invalid budget", description: "Enter an amount in dollars, or leave it empty for no budget.", variant: "destructive" });
+      return;
+    }
+
+    budgetMutation.mutate(monthlyBudgetUsd, {
+      onSuccess: () => toast({
+        title: "Budget saved",
+        description: monthlyBudgetUsd === null ? "AI usage is no longer limited" : `Monthly budget set to ${formatUsd(monthlyBudgetUsd)}`
+      }),
+      onError: (error) => toast({ title: "Could not save budget", description: error.message, variant: "destructive" })
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Monthly Budget</CardTitle>
+          <CardDescription>
+            Costs are estimated from each model's list price. When the budget is reached, background embedding and task extraction pause until the next month or until the budget is raised.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm">
+              {formatUsd(budget.spentUsd)} spent this month
+              {budget.budgetUsd !== null && ` of ${formatUsd(budget.budgetUsd)}`}
+            </span>
+            {budget.exceeded && <Badge variant="destructive">Budget reached</Badge>}
+          </div>
+          {budget.budgetUsd !== null && (
+            <Progress value={budget.budgetUsd > 0 ? Math.min((budget.spentUsd / budget.budgetUsd) * 100, 100) : 100} />
+          )}
+          <p className="text-xs text-gray-500">Resets on {new Date(budget.resetsAt).toLocaleDateString()}</p>
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="monthlyBudget">Monthly budget (USD)</Label>
+            <Input
+              id="monthlyBudget"
+              type="number"
+              min="0"
+              step="0.01"
+              placeholder="No budget"
+              value={budgetInput}
+              onChange={(e) => setBudgetInput(e.target.value)}
+            />
+          </div>
+        </CardContent>
+        <CardFooter className="flex justify-end">
+          <Button onClick={handleSaveBudget} disabled={budgetMutation.isPending}>
+            {budgetMutation.isPending ? "Saving..." : "Save Budget"}
+          </Button>
+        </CardFooter>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle>Usage</CardTitle>
+              <CardDescription>
+                {report.totals.calls} calls, {formatTokens(report.totals.promptTokens + report.totals.completionTokens)} tokens, {formatUsd(report.totals.costUsd)}
+              </CardDescription>
+            </div>
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">Last 7 days</SelectItem>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <UsageTable label="Feature" rows={report.byFeature.map(row => ({ ...row, name: row.feature }))} />
+          <UsageTable label="Model" rows={report.byModel.map(row => ({ ...row, name: `${row.provider}/${row.model}` }))} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AiUsageSettings;
@@ -0,0 +1,215 @@
+import React, { useState } from "react";
+import { formatDistanceToNow, format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { authErrorMessage } from "@/hooks/useAuth";
+import {
+  CreatedApiToken,
+  useApiTokenScopes,
+  useApiTokens,
+  useCreateApiToken,
+  useRevokeApiToken
+} from "@/hooks/useApiTokens";
+
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" }
+];
+
+function relativeTime(value: string | null, fallback: string) {
+  return value ? formatDistanceToNow(parseISO(value), { addSuffix: true }) : fallback;
+}
+
+/**
+ * Create and revoke personal API tokens for scripts and integrations
+ */
+const ApiTokenSettings: React.FC = () => {
+  const { toast } = useToast();
+  const { data: tokens, isLoading } = useApiTokens();
+  const { data: scopes } = useApiTokenScopes();
+  const createMutation = useCreateApiToken();
+  const revokeMutation = useRevokeApiToken();
+
+  const [name, setName] = useState("");
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([]);
+  const [expiry, setExpiry] = useState("90");
+  const [rateLimit, setRateLimit] = useState("60");
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setSelectedScopes(current => checked ? [...current, scope] : current.filter(s => s !== scope));
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({
+      name,
+      scopes: selectedScopes,
+      expiresInDays: expiry === "never" ? null : parseInt(expiry),
+      rateLimitPerMinute: parseInt(rateLimit) || undefined
+    }, {
+      onSuccess: (token) => {
+        setCreated(token);
+        setName("");
+        setSelectedScopes([]);
+      },
+      onError: (error) => {
+        toast({ title: "Could not create token", description: authErrorMessage(error), variant: "destructive" });
+      }
+    });
+  };
+
+  const handleRevoke = (id: number, tokenName: string) => {
+    if (!confirm(`Revoke "${tokenName}"? Anything using it will stop working.`)) {
+      return;
+    }
+
+    revokeMutation.mutate(id, {
+      onSuccess: () => toast({ title: "Token revoked" }),
+      onError: (error) => {
+        toast({ title: "Could not revoke token", description: authErrorMessage(error), variant: "destructive" });
+      }
+    });
+  };
+
+  const copyToken = async () => {
+    if (created) {
+      await navigator.clipboard.writeText(created.token);
+      toast({ title: "Token copied" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>API Tokens</CardTitle>
+        <CardDescription>
+          Personal tokens let scripts call the API as you. Send one as <code>Authorization: Bearer &lt;token&gt;</code>.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="tokenName">Name</Label>
+              <Input id="tokenName" placeholder="e.g. Nightly report" value={name} onChange={(e) => setName(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tokenExpiry">Expires</Label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger id="tokenExpiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tokenRateLimit">Requests per minute</Label>
+              <Input id="tokenRateLimit" type="number" min={1} max={1000} value={rateLimit} onChange={(e) => setRateLimit(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {scopes?.map(({ scope, description }) => (
+                <label key={scope} className="flex items-start gap-2 text-sm">
+                  <Checkbox
+                    checked={selectedScopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  <span>
+                    <span className="font-mono">{scope}</span>
+                    <span className="block text-gray-500">{description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <Button type="submit" disabled={!name || selectedScopes.length === 0 || createMutation.isPending}>
+            {createMutation.isPending ? "Creating..." : "Create token"}
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading tokens...</p>
+        ) : !tokens?.length ? (
+          <p className="text-sm text-gray-500">You don't have any API tokens yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Token</TableHead>
+                <TableHead>Scopes</TableHead>
+                <TableHead className="text-right">Limit/min</TableHead>
+                <TableHead>Last used</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tokens.map(token => (
+                <TableRow key={token.id}>
+                  <TableCell className="font-medium">{token.name}</TableCell>
+                  <TableCell className="font-mono text-xs">{token.tokenPrefix}…</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {token.scopes.map(scope => <Badge key={scope} variant="outline">{scope}</Badge>)}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{token.rateLimitPerMinute}</TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {relativeTime(token.lastUsedAt, "Never")}
+                    {token.lastUsedIp && <span className="block text-xs text-gray-400">{token.lastUsedIp}</span>}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {token.expiresAt ? format(parseISO(token.expiresAt), "PP") : "Never"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="outline" size="sm" disabled={revokeMutation.isPending} onClick={() => handleRevoke(token.id, token.name)}>
+                      Revoke
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!created} onOpenChange={(open) => !open && setCreated(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Token created</DialogTitle>
+            <DialogDescription>
+              Copy "{created?.name}" now. It won't be shown again.
+            </DialogDescription>
+          </DialogHeader>
+          <code className="block rounded bg-gray-100 px-3 py-2 font-mono text-sm break-all">{created?.token}</code>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={copyToken}>Copy</Button>
+            <Button onClick={() => setCreated(null)}>Done</Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ApiTokenSettings;
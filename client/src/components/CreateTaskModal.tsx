@@ -67,8 +67,7 @@ const CreateTaskModal: React.FC<CreateTaskModalProps> = ({
           priority: taskData.priority,
           dueDate: taskData.dueDate,
           isCompleted: false,
-          needsReview: false,
-          userId: 1 // Using a default user ID
+          needsReview: false
         })
       });
       
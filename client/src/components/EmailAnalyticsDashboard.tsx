@@ -72,7 +72,7 @@ export function EmailAnalyticsDashboard() {
     queryKey: ['/api/analytics/emails', timeRange],
     queryFn: async () => {
       try {
-        const response = await fetch(`/api/analytics/emails?timeRange=${timeRange}&userId=1`);
+        const response = await fetch(`/api/analytics/emails?timeRange=${timeRange}`);
         
         if (!response.ok) {
           console.error('Analytics API error:', await response.text());
@@ -0,0 +1,144 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export interface Draft {
+  id: number;
+  accountId: number;
+  mode: "new" | "reply" | "reply_all" | "forward";
+  sourceEmailId: number | null;
+  to: string[];
+  cc: string[] | null;
+  bcc: string[] | null;
+  subject: string;
+  body: string;
+}
+
+interface EmailComposerProps {
+  draft: Draft;
+  onClose: () => void;
+}
+
+const TITLES: Record<Draft["mode"], string> = {
+  new: "New message",
+  reply: "Reply",
+  reply_all: "Reply all",
+  forward: "Forward"
+};
+
+function splitRecipients(value: string): string[] {
+  return value.split(/[,;]/).map(recipient => recipient.trim()).filter(Boolean);
+}
+
+export function EmailComposer({ draft, onClose }: EmailComposerProps) {
+  const { toast } = useToast();
+  const [to, setTo] = useState(draft.to.join(", "));
+  const [cc, setCc] = useState((draft.cc || []).join(", "));
+  const [subject, setSubject] = useState(draft.subject);
+  const [body, setBody] = useState(draft.body);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  const saveDraft = () => apiRequest({
+    url: `/api/drafts/${draft.id}`,
+    method: "PUT",
+    body: {
+      to: splitRecipients(to),
+      cc: splitRecipients(cc),
+      subject,
+      body
+    }
+  });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveDraft();
+      toast({ title: "Draft saved" });
+    } catch (error) {
+      toast({
+        title: "Could not save draft",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (splitRecipients(to).length === 0 && splitRecipients(cc).length === 0) {
+      toast({ title: "Add a recipient", description: "The message has no recipients.", variant: "destructive" });
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      await saveDraft();
+      await apiRequest({ url: `/api/drafts/${draft.id}/send`, method: "POST" });
+      toast({ title: "Message sent", description: subject });
+      queryClient.invalidateQueries({ queryKey: ["/api/emails"] });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Sending failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleDiscard = async () => {
+    try {
+      await apiRequest({ url: `/api/drafts/${draft.id}`, method: "DELETE" });
+    } catch (error) {
+      console.error("Error discarding draft:", error);
+    }
+    onClose();
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg">{TITLES[draft.mode]}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="composer-to">To</Label>
+          <Input id="composer-to" value={to} onChange={(e) => setTo(e.target.value)} placeholder="name@example.com" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="composer-cc">Cc</Label>
+          <Input id="composer-cc" value={cc} onChange={(e) => setCc(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="composer-subject">Subject</Label>
+          <Input id="composer-subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="composer-body">Message</Label>
+          <Textarea id="composer-body" rows={12} value={body} onChange={(e) => setBody(e.target.value)} />
+        </div>
+        <div className="flex justify-end space-x-2">
+          <Button variant="ghost" onClick={handleDiscard} disabled={isSending}>
+            Discard
+          </Button>
+          <Button variant="outline" onClick={handleSave} disabled={isSaving || isSending}>
+            Save draft
+          </Button>
+          <Button onClick={handleSend} disabled={isSending}>
+            <span className="material-icons mr-1">send</span>
+            {isSending ? "Sending..." : "Send"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
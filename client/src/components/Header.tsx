@@ -3,13 +3,24 @@ import { useLocation } from "wouter";
 import { useTypoTolerantSearch } from "@/hooks/useTypoTolerantSearch";
 import { SearchIcon } from "lucide-react";
 import SearchResults from "@/components/SearchResults";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { useUser, useLogout } from "@/hooks/useAuth";
 
 interface HeaderProps {
   toggleSidebar: () => void;
 }
 
 const Header: React.FC<HeaderProps> = ({ toggleSidebar }) => {
-  const [location] = useLocation();
+  const [location, navigate] = useLocation();
+  const { data: user } = useUser();
+  const logoutMutation = useLogout();
   const [searchQuery, setSearchQuery] = useState("");
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const searchRef = useRef<HTMLDivElement>(null);
@@ -163,16 +174,23 @@ const Header: React.FC<HeaderProps> = ({ toggleSidebar }) => {
             
             {/* User profile dropdown */}
             <div className="ml-4 relative flex-shrink-0">
-              <button 
-                className="bg-white rounded-full flex items-center text-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary p-1"
-                onClick={() => {
-                  // Navigate to settings page
-                  window.location.href = '/settings';
-                }}
-              >
-                <span className="sr-only">Open user menu</span>
-                <span className="material-icons text-gray-600">account_circle</span>
-              </button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button className="bg-white rounded-full flex items-center text-sm focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary p-1">
+                    <span className="sr-only">Open user menu</span>
+                    <span className="material-icons text-gray-600">account_circle</span>
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>
+                    <div className="font-medium">{user?.fullName || user?.username}</div>
+                    <div className="text-xs font-normal text-gray-500">{user?.email}</div>
+                  </DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => navigate('/settings')}>Settings</DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => logoutMutation.mutate()}>Sign out</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
         </div>
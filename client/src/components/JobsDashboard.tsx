@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow, format, parseISO } from 'date-fns';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  useJobStats,
+  useAccountSyncHealth,
+  useJobs,
+  useJob,
+  useRetryJob,
+  useCancelJob,
+  JobSummary
+} from '@/hooks/useJobs';
+
+const JOB_KINDS = ['sync-account', 'clean-email', 'embed-email', 'extract-tasks', 'update-relationships'];
+const JOB_STATUSES = ['pending', 'running', 'completed', 'dead', 'cancelled'];
+const PAGE_SIZE = 25;
+
+const STATUS_CLASSES: Record<string, string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  running: 'bg-indigo-100 text-indigo-800',
+  completed: 'bg-green-100 text-green-800',
+  dead: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-700'
+};
+
+const MODE_CLASSES: Record<string, string> = {
+  idle: 'bg-green-100 text-green-800',
+  polling: 'bg-blue-100 text-blue-800',
+  connecting: 'bg-amber-100 text-amber-800',
+  reconnecting: 'bg-amber-100 text-amber-800',
+  unwatched: 'bg-gray-100 text-gray-700'
+};
+
+function ago(timestamp: string | null) {
+  return timestamp ? formatDistanceToNow(parseISO(timestamp), { addSuffix: true }) : 'never';
+}
+
+function percent(rate: number) {
+  return `${Math.round(rate * 1000) / 10}%`;
+}
+
+function StatusBadge({ status, classes }: { status: string; classes: Record<string, string> }) {
+  return (
+    <Badge variant="outline" className={`border-transparent ${classes[status] || 'bg-gray-100 text-gray-700'}`}>
+      {status}
+    </Badge>
+  );
+}
+
+/**
+ * Background job queue overview: queue depth, throughput and failures per kind of job,
+ * sync health per account, and a browsable list of jobs with retry and cancel
+ */
+export default function JobsDashboard() {
+  const { toast } = useToast();
+  const [kind, setKind] = useState('all');
+  const [status, setStatus] = useState('all');
+  const [page, setPage] = useState(0);
+  const [selectedJobId, setSelectedJobId] = useState<number | null>(null);
+
+  const { data: stats } = useJobStats();
+  const { data: accounts } = useAccountSyncHealth();
+  const { data: jobList, isLoading: jobsLoading } = useJobs({ kind, status, limit: PAGE_SIZE, offset: page * PAGE_SIZE });
+  const { data: selectedJob } = useJob(selectedJobId);
+  const retryJob = useRetryJob();
+  const cancelJob = useCancelJob();
+
+  const runAction = async (action: 'retry' | 'cancel', job: JobSummary) => {
+    try {
+      await (action === 'retry' ? retryJob : cancelJob).mutateAsync(job.id);
+      toast({ title: action === 'retry' ? `Job ${job.id} queued again` : `Job ${job.id} cancelled` });
+    } catch (error) {
+      toast({
+        title: action === 'retry' ? 'Could not retry job' : 'Could not cancel job',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const maxHourly = Math.max(1, ...(stats?.hourly || []).map(hour => hour.completed + hour.dead));
+  const totalPages = jobList ? Math.max(1, Math.ceil(jobList.total / PAGE_SIZE)) : 1;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Background Jobs</CardTitle>
+          <CardDescription>
+            Queue depth now, and throughput and failure rates over the last {stats?.hours || 24} hours.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Kind</TableHead>
+                <TableHead className="text-right">Due</TableHead>
+                <TableHead className="text-right">Scheduled</TableHead>
+                <TableHead className="text-right">Running</TableHead>
+                <TableHead className="text-right">Dead</TableHead>
+                <TableHead className="text-right">Completed</TableHead>
+                <TableHead className="text-right">Per hour</TableHead>
+                <TableHead className="text-right">Dead-lettered</TableHead>
+                <TableHead className="text-right">Failed attempts</TableHead>
+                <TableHead>Oldest due</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stats?.kinds.map(kindStats => (
+                <TableRow key={kindStats.kind}>
+                  <TableCell className="font-medium">{kindStats.kind}</TableCell>
+                  <TableCell className="text-right">{kindStats.due}</TableCell>
+                  <TableCell className="text-right">{kindStats.scheduled}</TableCell>
+                  <TableCell className="text-right">{kindStats.running}</TableCell>
+                  <TableCell className={`text-right ${kindStats.dead > 0 ? 'text-red-600 font-medium' : ''}`}>{kindStats.dead}</TableCell>
+                  <TableCell className="text-right">{kindStats.completed}</TableCell>
+                  <TableCell className="text-right">{kindStats.throughputPerHour}</TableCell>
+                  <TableCell className="text-right">{percent(kindStats.failureRate)}</TableCell>
+                  <TableCell className="text-right">{percent(kindStats.attemptFailureRate)}</TableCell>
+                  <TableCell className="text-sm text-gray-500">{kindStats.oldestDueAt ? ago(kindStats.oldestDueAt) : '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Jobs finished per hour</h4>
+            <div className="flex items-end gap-1 h-24 border-b border-gray-200">
+              {stats?.hourly.map(hour => (
+                <div
+                  key={hour.hour}
+                  className="flex-1 flex flex-col justify-end"
+                  title={`${format(parseISO(hour.hour), 'MMM d, HH:mm')}: ${hour.completed} completed, ${hour.dead} dead`}
+                >
+                  <div className="bg-red-400" style={{ height: `${(hour.dead / maxHourly) * 96}px` }} />
+                  <div className="bg-green-500" style={{ height: `${(hour.completed / maxHourly) * 96}px` }} />
+                </div>
+              ))}
+            </div>
+            {stats && stats.hourly.length === 0 && (
+              <p className="text-sm text-gray-500 mt-2">No jobs finished in this window.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Account Sync Health</CardTitle>
+          <CardDescription>Connection state and sync jobs of each email account.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account</TableHead>
+                <TableHead>Connection</TableHead>
+                <TableHead>Last successful sync</TableHead>
+                <TableHead className="text-right">Queued</TableHead>
+                <TableHead className="text-right">Completed</TableHead>
+                <TableHead className="text-right">Dead</TableHead>
+                <TableHead>Last error</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {accounts?.map(account => (
+                <TableRow key={account.accountId}>
+                  <TableCell>
+                    <div className="font-medium">{account.accountEmail}</div>
+                    <div className="text-xs text-gray-500">{account.accountType}</div>
+                  </TableCell>
+                  <TableCell>
+                    {account.needsReconsent
+                      ? <StatusBadge status="sign in again" classes={{ 'sign in again': 'bg-amber-100 text-amber-800' }} />
+                      : <StatusBadge status={account.mode} classes={MODE_CLASSES} />}
+                  </TableCell>
+                  <TableCell className="text-sm">{ago(account.lastSuccessAt)}</TableCell>
+                  <TableCell className="text-right">{account.queued}</TableCell>
+                  <TableCell className="text-right">{account.completed}</TableCell>
+                  <TableCell className={`text-right ${account.dead > 0 ? 'text-red-600 font-medium' : ''}`}>{account.dead}</TableCell>
+                  <TableCell className="text-sm text-red-600 max-w-xs truncate" title={account.connectionError || account.lastError || ''}>
+                    {account.connectionError || account.lastError || ''}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Jobs</CardTitle>
+          <CardDescription>Newest first. Select a job to see its payload and error trace.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={kind} onValueChange={(value) => { setKind(value); setPage(0); }}>
+              <SelectTrigger className="w-full sm:w-56">
+                <SelectValue placeholder="Filter by kind" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All kinds</SelectItem>
+                {JOB_KINDS.map(jobKind => <SelectItem key={jobKind} value={jobKind}>{jobKind}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={status} onValueChange={(value) => { setStatus(value); setPage(0); }}>
+              <SelectTrigger className="w-full sm:w-48">
+                <SelectValue placeholder="Filter by status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {JOB_STATUSES.map(jobStatus => <SelectItem key={jobStatus} value={jobStatus}>{jobStatus}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>ID</TableHead>
+                <TableHead>Kind</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Attempts</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Last error</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {jobList?.jobs.map(job => (
+                <TableRow key={job.id} className="cursor-pointer" onClick={() => setSelectedJobId(job.id)}>
+                  <TableCell>{job.id}</TableCell>
+                  <TableCell>{job.kind}</TableCell>
+                  <TableCell><StatusBadge status={job.status} classes={STATUS_CLASSES} /></TableCell>
+                  <TableCell className="text-right">{job.attempts}/{job.maxAttempts}</TableCell>
+                  <TableCell className="text-sm">{ago(job.createdAt)}</TableCell>
+                  <TableCell className="text-sm text-red-600 max-w-xs truncate" title={job.lastError || ''}>{job.lastError}</TableCell>
+                  <TableCell className="text-right" onClick={(event) => event.stopPropagation()}>
+                    {(job.status === 'dead' || job.status === 'cancelled') && (
+                      <Button size="sm" variant="outline" onClick={() => runAction('retry', job)}>Retry</Button>
+                    )}
+                    {job.status === 'pending' && (
+                      <Button size="sm" variant="outline" onClick={() => runAction('cancel', job)}>Cancel</Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {!jobsLoading && jobList?.jobs.length === 0 && (
+            <p className="text-sm text-gray-500">No jobs match these filters.</p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-gray-500">
+              {jobList ? `${jobList.total} jobs, page ${page + 1} of ${totalPages}` : ''}
+            </span>
+            <div className="space-x-2">
+              <Button size="sm" variant="outline" disabled={page === 0} onClick={() => setPage(page - 1)}>Previous</Button>
+              <Button size="sm" variant="outline" disabled={page + 1 >= totalPages} onClick={() => setPage(page + 1)}>Next</Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={selectedJobId !== null} onOpenChange={(open) => { if (!open) setSelectedJobId(null); }}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Job {selectedJobId}{selectedJob ? ` · ${selectedJob.kind}` : ''}</DialogTitle>
+            <DialogDescription>
+              {selectedJob && `${selectedJob.status}, attempt ${selectedJob.attempts} of ${selectedJob.maxAttempts}, next run ${ago(selectedJob.runAt)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedJob && (
+            <div className="space-y-4 text-sm">
+              <div>
+                <h4 className="font-medium mb-1">Payload</h4>
+                <pre className="bg-gray-50 p-3 rounded overflow-x-auto">{JSON.stringify(selectedJob.payload, null, 2)}</pre>
+              </div>
+              {selectedJob.lastError && (
+                <div>
+                  <h4 className="font-medium mb-1">Last error</h4>
+                  <p className="text-red-600">{selectedJob.lastError}</p>
+                </div>
+              )}
+              {selectedJob.errorTrace && (
+                <div>
+                  <h4 className="font-medium mb-1">Error trace</h4>
+                  <pre className="bg-gray-50 p-3 rounded overflow-auto max-h-64 text-xs">{selectedJob.errorTrace}</pre>
+                </div>
+              )}
+              <div className="text-gray-500">
+                Created {ago(selectedJob.createdAt)}
+                {selectedJob.lockedBy && `, claimed by ${selectedJob.lockedBy}`}
+                {selectedJob.finishedAt && `, finished ${ago(selectedJob.finishedAt)}`}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { ReactNode, useState } from "react";
 import Sidebar from "./Sidebar";
 import Header from "./Header";
+import { useRealTimeMail } from "@/hooks/useRealTimeMail";
 
 interface LayoutProps {
   children: ReactNode;
@@ -9,6 +10,9 @@ interface LayoutProps {
 const Layout: React.FC<LayoutProps> = ({ children }) => {
   const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
   
+  // Keep email data fresh as new mail arrives
+  useRealTimeMail();
+  
   const toggleSidebar = () => {
     setIsSidebarCollapsed(!isSidebarCollapsed);
   };
@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import {
+  promptErrorMessage,
+  usePromptTemplates,
+  useResetPromptOverride,
+  useSavePromptOverride
+} from "@/hooks/usePromptTemplates";
+
+/**
+ * Edit the prompts the AI features use. Saving creates a new version that
+ * applies only to the signed-in user; resetting goes back to the default.
+ */
+const PromptTemplateSettings: React.FC = () => {
+  const { toast } = useToast();
+  const { data, isLoading } = usePromptTemplates();
+  const saveMutation = useSavePromptOverride();
+  const resetMutation = useResetPromptOverride();
+
+  const templates = data?.data || [];
+  const [selectedName, setSelectedName] = useState<string>("");
+  const [systemTemplate, setSystemTemplate] = useState("");
+  const [userTemplate, setUserTemplate] = useState("");
+
+  const selected = templates.find(t => t.name === selectedName) || templates[0];
+  const active = selected?.override || selected?.defaultVersion;
+
+  // Show the version in use whenever the template or its versions change
+  useEffect(() => {
+    if (active) {
+      setSystemTemplate(active.systemTemplate || "");
+      setUserTemplate(active.userTemplate);
+    }
+  }, [active?.id]);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading prompts...</p>;
+  }
+
+  if (!selected || !active) {
+    return <p className="text-sm text-gray-500">No prompt templates are available.</p>;
+  }
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      name: selected.name,
+      override: { systemTemplate: systemTemplate.trim() ? systemTemplate : null, userTemplate }
+    }, {
+      onSuccess: (result) => toast({ title: "Prompt saved", description: result.message }),
+      onError: (error) => {
+        toast({ title: "Could not save prompt", description: promptErrorMessage(error), variant: "destructive" });
+      }
+    });
+  };
+
+  const handleReset = () => {
+    if (!confirm(`Go back to the default "${selected.name}" prompt? Your versions are kept in its history.`)) {
+      return;
+    }
+
+    resetMutation.mutate(selected.name, {
+      onSuccess: (result) => toast({ title: "Prompt reset", description: result.message }),
+      onError: (error) => {
+        toast({ title: "Could not reset prompt", description: promptErrorMessage(error), variant: "destructive" });
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Prompts</CardTitle>
+        <CardDescription>
+          Tune the prompts used for task extraction, summaries and questions. Tasks and summaries record which version produced them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2 min-w-[260px]">
+            <Label htmlFor="promptTemplate">Prompt</Label>
+            <Select value={selected.name} onValueChange={setSelectedName}>
+              <SelectTrigger id="promptTemplate">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(template => (
+                  <SelectItem key={template.name} value={template.name}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Badge variant={selected.override ? "default" : "outline"}>
+            {selected.override ? `Your version ${active.version}` : `Default version ${active.version}`}
+          </Badge>
+        </div>
+        <p className="text-sm text-gray-600">{selected.description}</p>
+
+        <div className="space-y-2">
+          <Label>Variables</Label>
+          <div className="grid gap-1 sm:grid-cols-2 text-sm">
+            {selected.variables.map(variable => (
+              <div key={variable.name}>
+                <span className="font-mono">{`{{${variable.name}}}`}</span>
+                <span className="text-gray-500"> {variable.type}{variable.required ? ", required" : ""} – {variable.description}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            Use <code>{"{{#if name}}...{{else}}...{{/if}}"}</code> for text that depends on a variable.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="systemTemplate">System prompt</Label>
+          <Textarea
+            id="systemTemplate"
+            className="font-mono text-xs"
+            rows={12}
+            value={systemTemplate}
+            onChange={(e) => setSystemTemplate(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="userTemplate">User prompt</Label>
+          <Textarea
+            id="userTemplate"
+            className="font-mono text-xs"
+            rows={6}
+            value={userTemplate}
+            onChange={(e) => setUserTemplate(e.target.value)}
+          />
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-end space-x-2">
+        <Button variant="outline" onClick={handleReset} disabled={!selected.override || resetMutation.isPending}>
+          Reset to default
+        </Button>
+        <Button onClick={handleSave} disabled={!userTemplate.trim() || saveMutation.isPending}>
+          {saveMutation.isPending ? "Saving..." : "Save my version"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default PromptTemplateSettings;
@@ -0,0 +1,35 @@
+import React from "react";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+
+interface TotpCodeInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Six-digit code from an authenticator app
+ */
+const TotpCodeInput: React.FC<TotpCodeInputProps> = ({ value, onChange, onComplete, disabled }) => {
+  return (
+    <InputOTP
+      maxLength={6}
+      pattern="^[0-9]*$"
+      inputMode="numeric"
+      autoComplete="one-time-code"
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+    >
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map(index => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+};
+
+export default TotpCodeInput;
@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import TotpCodeInput from "@/components/TotpCodeInput";
+import {
+  TotpSetup,
+  authErrorMessage,
+  useDisableTotp,
+  useEnableTotp,
+  useSetupTotp,
+  useUser
+} from "@/hooks/useAuth";
+
+/**
+ * Turn TOTP two-factor sign-in on or off for the signed-in user
+ */
+const TwoFactorSettings: React.FC = () => {
+  const { toast } = useToast();
+  const { data: user } = useUser();
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [code, setCode] = useState("");
+
+  const setupMutation = useSetupTotp();
+  const enableMutation = useEnableTotp();
+  const disableMutation = useDisableTotp();
+
+  const showError = (title: string) => (error: unknown) => {
+    setCode("");
+    toast({ title, description: authErrorMessage(error), variant: "destructive" });
+  };
+
+  const startSetup = () => {
+    setupMutation.mutate(undefined, {
+      onSuccess: (result) => {
+        setCode("");
+        setSetup(result);
+      },
+      onError: showError("Could not start two-factor setup")
+    });
+  };
+
+  const confirmSetup = () => {
+    enableMutation.mutate(code, {
+      onSuccess: () => {
+        setSetup(null);
+        setCode("");
+        toast({ title: "Two-factor authentication enabled", description: "You'll be asked for a code each time you sign in." });
+      },
+      onError: showError("Could not enable two-factor authentication")
+    });
+  };
+
+  const disable = () => {
+    disableMutation.mutate(code, {
+      onSuccess: () => {
+        setCode("");
+        toast({ title: "Two-factor authentication disabled" });
+      },
+      onError: showError("Could not disable two-factor authentication")
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Two-Factor Authentication
+          {user?.totpEnabled ? <Badge>On</Badge> : <Badge variant="outline">Off</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app, such as Google Authenticator or 1Password, after your password
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {user?.totpEnabled ? (
+          <>
+            <p className="text-sm text-gray-600">Enter a current code from your authenticator app to turn two-factor authentication off.</p>
+            <TotpCodeInput value={code} onChange={setCode} disabled={disableMutation.isPending} />
+            <Button variant="destructive" disabled={code.length < 6 || disableMutation.isPending} onClick={disable}>
+              {disableMutation.isPending ? "Disabling..." : "Disable two-factor authentication"}
+            </Button>
+          </>
+        ) : setup ? (
+          <>
+            <p className="text-sm text-gray-600">
+              Add this key to your authenticator app, or open the setup link on the device it's installed on, then enter the code it shows.
+            </p>
+            <div className="space-y-1">
+              <div className="text-xs font-medium text-gray-500">Setup key</div>
+              <code className="block rounded bg-gray-100 px-3 py-2 font-mono text-sm tracking-wider break-all">{setup.secret}</code>
+            </div>
+            <a href={setup.uri} className="text-sm text-primary underline">Open in authenticator app</a>
+            <TotpCodeInput value={code} onChange={setCode} disabled={enableMutation.isPending} />
+            <div className="flex gap-2">
+              <Button disabled={code.length < 6 || enableMutation.isPending} onClick={confirmSetup}>
+                {enableMutation.isPending ? "Verifying..." : "Verify and enable"}
+              </Button>
+              <Button variant="outline" onClick={() => setSetup(null)}>Cancel</Button>
+            </div>
+          </>
+        ) : (
+          <Button onClick={startSetup} disabled={setupMutation.isPending}>
+            {setupMutation.isPending ? "Generating key..." : "Set up two-factor authentication"}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,49 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  averageLatencyMs: number;
+}
+
+export interface UsageBudget {
+  budgetUsd: number | null;
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+  resetsAt: string;
+}
+
+export interface UsageReport {
+  from: string;
+  totals: UsageTotals;
+  byFeature: (UsageTotals & { feature: string })[];
+  byModel: (UsageTotals & { provider: string; model: string })[];
+  byDay: (UsageTotals & { day: string })[];
+  budget: UsageBudget;
+}
+
+export const useAiUsage = (days: number = 30) => {
+  return useQuery<{ success: boolean; data: UsageReport }>({
+    queryKey: ["/api/ai/usage", days],
+    queryFn: async () => {
+      return apiRequest({ method: "GET", url: `/api/ai/usage?days=${days}` });
+    }
+  });
+};
+
+export const useUpdateMonthlyBudget = () => {
+  return useMutation({
+    mutationFn: async (monthlyBudgetUsd: number | null) => {
+      return apiRequest({ method: "PUT", url: "/api/ai/settings", body: { monthlyBudgetUsd } });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ai/usage"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ai/settings"] });
+    }
+  });
+};
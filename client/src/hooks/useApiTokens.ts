@@ -0,0 +1,59 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ApiToken } from "@shared/schema";
+
+export type ApiTokenSummary = Omit<ApiToken, "tokenHash" | "lastUsedAt" | "expiresAt" | "revokedAt" | "createdAt"> & {
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+};
+
+// Returned once, when the token is created
+export type CreatedApiToken = ApiTokenSummary & { token: string };
+
+export interface ApiTokenScopeInfo {
+  scope: string;
+  description: string;
+}
+
+export interface NewApiToken {
+  name: string;
+  scopes: string[];
+  expiresInDays?: number | null;
+  rateLimitPerMinute?: number;
+}
+
+export const useApiTokens = () => {
+  return useQuery<ApiTokenSummary[]>({
+    queryKey: ["/api/tokens"]
+  });
+};
+
+export const useApiTokenScopes = () => {
+  return useQuery<ApiTokenScopeInfo[]>({
+    queryKey: ["/api/tokens/scopes"]
+  });
+};
+
+export const useCreateApiToken = () => {
+  return useMutation({
+    mutationFn: async (data: NewApiToken): Promise<CreatedApiToken> => {
+      return apiRequest({ method: "POST", url: "/api/tokens", body: data });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    }
+  });
+};
+
+export const useRevokeApiToken = () => {
+  return useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest({ method: "DELETE", url: `/api/tokens/${id}` });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+    }
+  });
+};
@@ -0,0 +1,134 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type { User } from "@shared/schema";
+
+export type AuthUser = Omit<User, "password" | "totpSecret" | "createdAt"> & { createdAt: string };
+
+// /login answers with this instead of the user when a TOTP code is still needed
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+}
+
+export interface TotpSetup {
+  secret: string;
+  uri: string;
+}
+
+const USER_QUERY_KEY = ["/api/auth/user"];
+
+/**
+ * The message from an API error, e.g. `401: {"error":"Invalid username or password"}`
+ */
+export function authErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.replace(/^\d{3}: /, "");
+
+  try {
+    return JSON.parse(body).error || body;
+  } catch {
+    return body;
+  }
+}
+
+function signedIn(user: AuthUser) {
+  // Cached queries may hold another user's data
+  queryClient.clear();
+  queryClient.setQueryData(USER_QUERY_KEY, user);
+}
+
+/**
+ * The signed-in user, or null when nobody is signed in
+ */
+export const useUser = () => {
+  return useQuery<AuthUser | null>({
+    queryKey: USER_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" })
+  });
+};
+
+export const useLogin = () => {
+  return useMutation({
+    mutationFn: async (credentials: { username: string; password: string }): Promise<AuthUser | TwoFactorChallenge> => {
+      return apiRequest({ method: "POST", url: "/api/auth/login", body: credentials });
+    },
+    onSuccess: (result) => {
+      if (!("twoFactorRequired" in result)) {
+        signedIn(result);
+      }
+    }
+  });
+};
+
+export const useVerifyTotp = () => {
+  return useMutation({
+    mutationFn: async (code: string): Promise<AuthUser> => {
+      return apiRequest({ method: "POST", url: "/api/auth/login/totp", body: { code } });
+    },
+    onSuccess: signedIn
+  });
+};
+
+export const useRegister = () => {
+  return useMutation({
+    mutationFn: async (data: { username: string; email: string; password: string; fullName?: string }): Promise<AuthUser> => {
+      return apiRequest({ method: "POST", url: "/api/auth/register", body: data });
+    },
+    onSuccess: signedIn
+  });
+};
+
+export const useLogout = () => {
+  return useMutation({
+    mutationFn: async () => {
+      return apiRequest({ method: "POST", url: "/api/auth/logout" });
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(USER_QUERY_KEY, null);
+    }
+  });
+};
+
+export const useRequestPasswordReset = () => {
+  return useMutation({
+    mutationFn: async (email: string) => {
+      return apiRequest({ method: "POST", url: "/api/auth/password-reset/request", body: { email } });
+    }
+  });
+};
+
+export const useResetPassword = () => {
+  return useMutation({
+    mutationFn: async (data: { token: string; password: string }) => {
+      return apiRequest({ method: "POST", url: "/api/auth/password-reset/confirm", body: data });
+    },
+    onSuccess: () => {
+      // Resetting a password signs out every session, including this one
+      queryClient.clear();
+      queryClient.setQueryData(USER_QUERY_KEY, null);
+    }
+  });
+};
+
+export const useSetupTotp = () => {
+  return useMutation({
+    mutationFn: async (): Promise<TotpSetup> => {
+      return apiRequest({ method: "POST", url: "/api/auth/totp/setup" });
+    }
+  });
+};
+
+function useTotpChange(action: "enable" | "disable") {
+  return useMutation({
+    mutationFn: async (code: string) => {
+      return apiRequest({ method: "POST", url: `/api/auth/totp/${action}`, body: { code } });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: USER_QUERY_KEY });
+    }
+  });
+}
+
+export const useEnableTotp = () => useTotpChange("enable");
+
+export const useDisableTotp = () => useTotpChange("disable");
@@ -11,6 +11,7 @@ export interface EmailAccount {
   lastSynced?: string;
   isActive: boolean;
   syncEnabled: boolean;
+  needsReconsent?: boolean;
 }
 
 export function useEmailAccounts() {
@@ -119,13 +120,13 @@ export function useDeleteEmailAccount() {
 
 export function useSyncEmailAccount() {
   return useMutation({
-    mutationFn: async ({ id, limit = 50 }: { id: number; limit?: number }) => {
+    mutationFn: async ({ id, limit = 50, mode = 'incremental' }: { id: number; limit?: number; mode?: 'incremental' | 'backfill' }) => {
       const response = await fetch(`/api/email-accounts/${id}/sync`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ limit })
+        body: JSON.stringify({ limit, mode })
       });
       
       if (!response.ok) {
@@ -0,0 +1,129 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Job } from "@shared/schema";
+
+export type JobSummary = Omit<Job, "errorTrace" | "createdAt" | "updatedAt" | "runAt" | "lockedAt" | "finishedAt"> & {
+  runAt: string;
+  lockedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+};
+
+export type JobDetail = JobSummary & { errorTrace: string | null };
+
+export interface JobKindStats {
+  kind: Job["kind"];
+  due: number;
+  scheduled: number;
+  running: number;
+  dead: number;
+  completed: number;
+  deadLettered: number;
+  throughputPerHour: number;
+  failureRate: number;
+  attemptFailureRate: number;
+  oldestDueAt: string | null;
+}
+
+export interface JobQueueStats {
+  hours: number;
+  kinds: JobKindStats[];
+  hourly: { hour: string; completed: number; dead: number }[];
+}
+
+export interface AccountSyncHealth {
+  accountId: number;
+  accountEmail: string;
+  accountType: string;
+  isActive: boolean;
+  syncEnabled: boolean;
+  needsReconsent: boolean;
+  lastSynced: string | null;
+  mode: string;
+  connectionError: string | null;
+  lastSuccessAt: string | null;
+  queued: number;
+  completed: number;
+  dead: number;
+  lastError: string | null;
+}
+
+export interface JobFilters {
+  kind?: string;
+  status?: string;
+  accountId?: number;
+  limit?: number;
+  offset?: number;
+}
+
+// The dashboard shows live queue state
+const REFRESH_INTERVAL = 10000;
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}`);
+  }
+  return response.json();
+}
+
+export const useJobStats = (hours = 24) => {
+  return useQuery<JobQueueStats>({
+    queryKey: ["/api/jobs/stats", { hours }],
+    queryFn: () => fetchJson(`/api/jobs/stats?hours=${hours}`),
+    refetchInterval: REFRESH_INTERVAL
+  });
+};
+
+export const useAccountSyncHealth = (hours = 24) => {
+  return useQuery<AccountSyncHealth[]>({
+    queryKey: ["/api/jobs/accounts", { hours }],
+    queryFn: () => fetchJson(`/api/jobs/accounts?hours=${hours}`),
+    refetchInterval: REFRESH_INTERVAL
+  });
+};
+
+export const useJobs = (filters: JobFilters = {}) => {
+  const queryParams = new URLSearchParams();
+  if (filters.kind && filters.kind !== "all") queryParams.append("kind", filters.kind);
+  if (filters.status && filters.status !== "all") queryParams.append("status", filters.status);
+  if (filters.accountId) queryParams.append("accountId", filters.accountId.toString());
+  if (filters.limit) queryParams.append("limit", filters.limit.toString());
+  if (filters.offset) queryParams.append("offset", filters.offset.toString());
+
+  const url = `/api/jobs${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
+
+  return useQuery<{ jobs: JobSummary[]; total: number }>({
+    queryKey: ["/api/jobs", filters],
+    queryFn: () => fetchJson(url),
+    refetchInterval: REFRESH_INTERVAL
+  });
+};
+
+export const useJob = (id: number | null) => {
+  return useQuery<JobDetail>({
+    queryKey: ["/api/jobs", id],
+    queryFn: () => fetchJson(`/api/jobs/${id}`),
+    enabled: !!id
+  });
+};
+
+function useJobAction(action: "retry" | "cancel") {
+  return useMutation({
+    mutationFn: async (id: number) => {
+      return apiRequest({
+        method: "POST",
+        url: `/api/jobs/${id}/${action}`
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/stats"] });
+    }
+  });
+}
+
+export const useRetryJob = () => useJobAction("retry");
+
+export const useCancelJob = () => useJobAction("cancel");
@@ -0,0 +1,63 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { PromptTemplate, PromptTemplateVersion } from "@shared/schema";
+
+export type PromptVersionSummary = Omit<PromptTemplateVersion, "createdAt" | "retiredAt"> & {
+  createdAt: string;
+  retiredAt: string | null;
+};
+
+export type PromptTemplateSummary = Omit<PromptTemplate, "createdAt"> & {
+  createdAt: string;
+  defaultVersion: PromptVersionSummary;
+  override: PromptVersionSummary | null;
+};
+
+export interface PromptOverride {
+  systemTemplate: string | null;
+  userTemplate: string;
+  notes?: string;
+}
+
+/**
+ * The message, and any problems found with the template, from a failed save
+ */
+export function promptErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const body = message.replace(/^\d{3}: /, "");
+
+  try {
+    const parsed = JSON.parse(body);
+    return [parsed.message, ...(parsed.problems || [])].filter(Boolean).join("\n");
+  } catch {
+    return body;
+  }
+}
+
+export const usePromptTemplates = () => {
+  return useQuery<{ success: boolean; data: PromptTemplateSummary[] }>({
+    queryKey: ["/api/ai/prompts"]
+  });
+};
+
+export const useSavePromptOverride = () => {
+  return useMutation({
+    mutationFn: async ({ name, override }: { name: string; override: PromptOverride }) => {
+      return apiRequest({ method: "PUT", url: `/api/ai/prompts/${name}`, body: override });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ai/prompts"] });
+    }
+  });
+};
+
+export const useResetPromptOverride = () => {
+  return useMutation({
+    mutationFn: async (name: string) => {
+      return apiRequest({ method: "DELETE", url: `/api/ai/prompts/${name}` });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ai/prompts"] });
+    }
+  });
+};
@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+import { queryClient } from '@/lib/queryClient';
+
+// Reconnect delay bounds for the /ws-mail socket
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Subscribe to the server's /ws-mail WebSocket and refresh email data as soon as new mail is stored
+ */
+export function useRealTimeMail() {
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let reconnectDelay = MIN_RECONNECT_DELAY;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws-mail`);
+
+      socket.onopen = () => {
+        reconnectDelay = MIN_RECONNECT_DELAY;
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          const message = JSON.parse(event.data);
+
+          if (message.type === 'new_emails') {
+            // Email lists are keyed by their full URL, so match on the path prefix
+            queryClient.invalidateQueries({
+              predicate: (query) => {
+                const key = query.queryKey[0];
+                return typeof key === 'string' && (key.startsWith('/api/emails') || key.startsWith('/api/stats'));
+              }
+            });
+            queryClient.invalidateQueries({ queryKey: ['/api/email-accounts'] });
+          }
+        } catch (error) {
+          console.error('Error handling real-time mail message:', error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (closed) return;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, []);
+}
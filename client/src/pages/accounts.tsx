@@ -44,21 +44,23 @@ const AccountsPage: React.FC = () => {
     }
   }, [toast]);
   
-  const handleSyncAccount = async (accountId: number) => {
+  const handleSyncAccount = async (accountId: number, mode: "incremental" | "backfill" = "incremental") => {
     try {
       const response = await fetch(`/api/email-accounts/${accountId}/sync`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ limit: 100 })
+        body: JSON.stringify({ limit: 100, mode })
       });
       
       if (response.ok) {
         const data = await response.json();
         toast({
-          title: "Sync successful",
-          description: `${data.emailsProcessed} new emails processed.`
+          title: mode === "backfill" ? "Backfill started" : "Sync successful",
+          description: mode === "backfill"
+            ? "Importing the full mailbox history in the background."
+            : `${data.emailsProcessed} new emails processed.`
         });
         
         // Refresh accounts to update last synced time
@@ -207,6 +209,14 @@ const AccountsPage: React.FC = () => {
                         <span className="material-icons text-sm mr-1">sync</span>
                         Sync Now
                       </Button>
+                      <Button 
+                        size="sm" 
+                        variant="outline"
+                        title="Import the full mailbox history"
+                        onClick={() => handleSyncAccount(account.id, "backfill")}
+                      >
+                        <span className="material-icons text-sm">history</span>
+                      </Button>
                       <Button 
                         size="sm" 
                         variant="destructive"
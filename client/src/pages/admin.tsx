@@ -5,6 +5,7 @@ import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { Progress } from '@/components/ui/progress';
 import { useStatsData } from '@/hooks/useTasks';
+import JobsDashboard from '@/components/JobsDashboard';
 
 export default function AdminPage() {
   const { toast } = useToast();
@@ -128,6 +129,8 @@ export default function AdminPage() {
           </Button>
         </CardFooter>
       </Card>
+
+      <JobsDashboard />
     </div>
   );
 }
\ No newline at end of file
@@ -88,7 +88,6 @@ export default function AiSettings() {
       
       // Create a sanitized version of the settings to avoid validation errors
       const sanitizedSettings = {
-        userId: 1,
         selectedProvider: settings.selectedProvider,
         selectedModelId: settings.selectedModelId,
         ollamaEndpoint: settings.ollamaEndpoint?.trim(),
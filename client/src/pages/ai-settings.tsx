@@ -9,6 +9,8 @@ import { useToast } from "@/hooks/use-toast";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAiModels, useAiSettings, useUpdateAiSettings, useTestOllamaConnection, useTestApiKey } from "@/hooks/useAiModels";
 import { CheckCircle, XCircle, Loader2, RefreshCw } from "lucide-react";
+import PromptTemplateSettings from "@/components/PromptTemplateSettings";
+import AiUsageSettings from "@/components/AiUsageSettings";
 
 export default function AiSettings() {
   const { toast } = useToast();
@@ -109,7 +111,6 @@ export default function AiSettings() {
       
       // Create a sanitized version of the settings to avoid validation errors
       const sanitizedSettings = {
-        userId: 1,
         selectedProvider: settings.selectedProvider,
         selectedModelId: settings.selectedModelId || 1,
         ollamaEndpoint: settings.ollamaEndpoint || "http://localhost:11434",
@@ -479,6 +480,8 @@ export default function AiSettings() {
             <TabsTrigger value="api_keys">API Keys</TabsTrigger>
             <TabsTrigger value="ollama">Ollama</TabsTrigger>
             <TabsTrigger value="task_extraction">Task Extraction</TabsTrigger>
+            <TabsTrigger value="prompts">Prompts</TabsTrigger>
+            <TabsTrigger value="usage">Usage</TabsTrigger>
           </TabsList>
 
           {/* Models Tab */}
@@ -511,6 +514,7 @@ export default function AiSettings() {
                           <SelectItem value="anthropic">Anthropic</SelectItem>
                           <SelectItem value="perplexity">Perplexity</SelectItem>
                           <SelectItem value="ollama">Ollama (Local)</SelectItem>
+                          <SelectItem value="mock">Mock (Offline)</SelectItem>
                         </SelectContent>
                       </Select>
                     </div>
@@ -892,6 +896,16 @@ export default function AiSettings() {
               </CardFooter>
             </Card>
           </TabsContent>
+
+          {/* Prompts Tab */}
+          <TabsContent value="prompts" className="space-y-6 mt-6">
+            <PromptTemplateSettings />
+          </TabsContent>
+
+          {/* Usage Tab */}
+          <TabsContent value="usage" className="space-y-6 mt-6">
+            <AiUsageSettings />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,235 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import TotpCodeInput from "@/components/TotpCodeInput";
+import {
+  authErrorMessage,
+  useLogin,
+  useRegister,
+  useRequestPasswordReset,
+  useVerifyTotp
+} from "@/hooks/useAuth";
+
+type Step = "credentials" | "totp" | "forgot";
+
+const AuthPage: React.FC = () => {
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>("credentials");
+  const [login, setLogin] = useState({ username: "", password: "" });
+  const [registration, setRegistration] = useState({ username: "", email: "", password: "", fullName: "" });
+  const [code, setCode] = useState("");
+  const [resetEmail, setResetEmail] = useState("");
+
+  const loginMutation = useLogin();
+  const verifyTotpMutation = useVerifyTotp();
+  const registerMutation = useRegister();
+  const requestResetMutation = useRequestPasswordReset();
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({ title, description: authErrorMessage(error), variant: "destructive" });
+  };
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate(login, {
+      onSuccess: (result) => {
+        if ("twoFactorRequired" in result) {
+          setCode("");
+          setStep("totp");
+        }
+      },
+      onError: showError("Sign in failed")
+    });
+  };
+
+  const handleVerifyTotp = (value: string) => {
+    verifyTotpMutation.mutate(value, {
+      onError: (error) => {
+        setCode("");
+        showError("Verification failed")(error);
+        // The password step has to be repeated once its window has passed
+        if (authErrorMessage(error).includes("password first")) {
+          setStep("credentials");
+        }
+      }
+    });
+  };
+
+  const handleRegister = (e: React.FormEvent) => {
+    e.preventDefault();
+    registerMutation.mutate(
+      { ...registration, fullName: registration.fullName || undefined },
+      { onError: showError("Registration failed") }
+    );
+  };
+
+  const handleRequestReset = (e: React.FormEvent) => {
+    e.preventDefault();
+    requestResetMutation.mutate(resetEmail, {
+      onSuccess: () => {
+        toast({
+          title: "Check your email",
+          description: "If an account uses that address, a link to reset its password is on its way."
+        });
+        setStep("credentials");
+      },
+      onError: showError("Could not send reset link")
+    });
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle>Intelligent Email Task Manager</CardTitle>
+          <CardDescription>
+            {step === "totp"
+              ? "Enter the code from your authenticator app"
+              : step === "forgot"
+                ? "We'll email you a link to choose a new password"
+                : "Sign in or create an account to continue"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {step === "totp" && (
+            <div className="space-y-4">
+              <div className="flex justify-center">
+                <TotpCodeInput
+                  value={code}
+                  onChange={setCode}
+                  onComplete={handleVerifyTotp}
+                  disabled={verifyTotpMutation.isPending}
+                />
+              </div>
+              <Button className="w-full" disabled={code.length < 6 || verifyTotpMutation.isPending} onClick={() => handleVerifyTotp(code)}>
+                {verifyTotpMutation.isPending ? "Verifying..." : "Verify"}
+              </Button>
+              <Button variant="link" className="w-full" onClick={() => setStep("credentials")}>
+                Back to sign in
+              </Button>
+            </div>
+          )}
+
+          {step === "forgot" && (
+            <form onSubmit={handleRequestReset} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="resetEmail">Email address</Label>
+                <Input
+                  id="resetEmail"
+                  type="email"
+                  value={resetEmail}
+                  onChange={(e) => setResetEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={requestResetMutation.isPending}>
+                {requestResetMutation.isPending ? "Sending..." : "Send reset link"}
+              </Button>
+              <Button type="button" variant="link" className="w-full" onClick={() => setStep("credentials")}>
+                Back to sign in
+              </Button>
+            </form>
+          )}
+
+          {step === "credentials" && (
+            <Tabs defaultValue="login">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="login">Sign in</TabsTrigger>
+                <TabsTrigger value="register">Create account</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="login" className="mt-4">
+                <form onSubmit={handleLogin} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="loginUsername">Username or email</Label>
+                    <Input
+                      id="loginUsername"
+                      autoComplete="username"
+                      value={login.username}
+                      onChange={(e) => setLogin({ ...login, username: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="loginPassword">Password</Label>
+                    <Input
+                      id="loginPassword"
+                      type="password"
+                      autoComplete="current-password"
+                      value={login.password}
+                      onChange={(e) => setLogin({ ...login, password: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={loginMutation.isPending}>
+                    {loginMutation.isPending ? "Signing in..." : "Sign in"}
+                  </Button>
+                  <Button type="button" variant="link" className="w-full" onClick={() => setStep("forgot")}>
+                    Forgot your password?
+                  </Button>
+                </form>
+              </TabsContent>
+
+              <TabsContent value="register" className="mt-4">
+                <form onSubmit={handleRegister} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="registerUsername">Username</Label>
+                    <Input
+                      id="registerUsername"
+                      autoComplete="username"
+                      value={registration.username}
+                      onChange={(e) => setRegistration({ ...registration, username: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="registerEmail">Email address</Label>
+                    <Input
+                      id="registerEmail"
+                      type="email"
+                      autoComplete="email"
+                      value={registration.email}
+                      onChange={(e) => setRegistration({ ...registration, email: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="registerFullName">Full name (optional)</Label>
+                    <Input
+                      id="registerFullName"
+                      autoComplete="name"
+                      value={registration.fullName}
+                      onChange={(e) => setRegistration({ ...registration, fullName: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="registerPassword">Password</Label>
+                    <Input
+                      id="registerPassword"
+                      type="password"
+                      autoComplete="new-password"
+                      minLength={8}
+                      value={registration.password}
+                      onChange={(e) => setRegistration({ ...registration, password: e.target.value })}
+                      required
+                    />
+                    <p className="text-xs text-gray-500">At least 8 characters</p>
+                  </div>
+                  <Button type="submit" className="w-full" disabled={registerMutation.isPending}>
+                    {registerMutation.isPending ? "Creating account..." : "Create account"}
+                  </Button>
+                </form>
+              </TabsContent>
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AuthPage;
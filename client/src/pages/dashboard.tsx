@@ -642,9 +642,10 @@ const Dashboard: React.FC = () => {
                     accounts.map((account) => (
                       <AccountStatus
                         key={account.id}
-                        type={account.accountType as "gmail" | "exchange"}
+                        type={account.accountType as "gmail" | "exchange" | "imap" | "outlook_graph" | "jmap"}
                         email={account.emailAddress}
                         isConnected={true}
+                        needsReconsent={account.needsReconsent}
                       />
                     ))
                   ) : (
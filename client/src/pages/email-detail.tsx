@@ -7,8 +7,18 @@ import { Badge } from "@/components/ui/badge";
 import { format } from "date-fns";
 import EmailPreview from "@/components/EmailPreview";
 import { EmailCleanerButton } from "@/components/EmailCleanerButton";
+import { EmailComposer, Draft } from "@/components/EmailComposer";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface EmailAttachment {
+  id: number;
+  filename: string;
+  contentType: string;
+  size: number;
+  isInline: boolean;
+  extractionStatus: "pending" | "extracted" | "unsupported" | "failed";
+}
 
 interface Email {
   id: number;
@@ -26,12 +36,19 @@ interface Email {
   isStarred: boolean;
   isDeleted: boolean;
   hasAttachments: boolean;
+  attachments?: EmailAttachment[];
   categories: string[] | null;
   embedding: number[] | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
 const EmailDetail: React.FC = () => {
   const { toast } = useToast();
   const [, params] = useRoute<{ id: string }>("/emails/:id");
@@ -44,6 +61,7 @@ const EmailDetail: React.FC = () => {
   const [relatedEmails, setRelatedEmails] = useState<Email[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isRelatedLoading, setIsRelatedLoading] = useState(true);
+  const [draft, setDraft] = useState<Draft | null>(null);
 
   useEffect(() => {
     if (!emailId) return;
@@ -113,6 +131,24 @@ const EmailDetail: React.FC = () => {
       });
   };
 
+  const handleStartReply = async (mode: "reply" | "reply_all" | "forward") => {
+    try {
+      const newDraft = await apiRequest({
+        url: `/api/emails/${emailId}/reply`,
+        method: "POST",
+        body: { mode }
+      });
+      setDraft(newDraft);
+    } catch (error) {
+      console.error("Error starting reply:", error);
+      toast({
+        title: "Error",
+        description: "Failed to start a reply to this email.",
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleViewEmail = (id: number) => {
     window.location.href = `/emails/${id}`;
   };
@@ -168,6 +204,8 @@ const EmailDetail: React.FC = () => {
     );
   }
 
+  const attachments = (email.attachments || []).filter(attachment => !attachment.isInline);
+
   return (
     <div className="py-6">
       <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -180,6 +218,18 @@ const EmailDetail: React.FC = () => {
             </Button>
           </Link>
           <div className="ml-auto flex space-x-2">
+            <Button variant="outline" size="sm" onClick={() => handleStartReply("reply")} disabled={!!draft}>
+              <span className="material-icons mr-1">reply</span>
+              Reply
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleStartReply("reply_all")} disabled={!!draft}>
+              <span className="material-icons mr-1">reply_all</span>
+              Reply all
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleStartReply("forward")} disabled={!!draft}>
+              <span className="material-icons mr-1">forward</span>
+              Forward
+            </Button>
             <EmailCleanerButton 
               emailId={parseInt(emailId, 10)} 
               onSuccess={() => {
@@ -207,8 +257,8 @@ const EmailDetail: React.FC = () => {
           <CardHeader>
             <div className="flex justify-between items-start mb-2">
               <CardTitle className="text-xl">{email.subject}</CardTitle>
-              <Badge variant={email.hasAttachments ? "default" : "outline"}>
-                {email.hasAttachments ? "Has attachments" : "No attachments"}
+              <Badge variant={attachments.length > 0 ? "default" : "outline"}>
+                {attachments.length > 0 ? `${attachments.length} attachment${attachments.length === 1 ? "" : "s"}` : "No attachments"}
               </Badge>
             </div>
             <CardDescription>
@@ -234,9 +284,33 @@ const EmailDetail: React.FC = () => {
                 <pre className="whitespace-pre-wrap text-sm">{email.body}</pre>
               )}
             </div>
+            {attachments.length > 0 && (
+              <>
+                <Separator className="my-4" />
+                <ul className="space-y-2">
+                  {attachments.map(attachment => (
+                    <li key={attachment.id} className="flex items-center text-sm">
+                      <span className="material-icons text-gray-400 mr-2 text-base">attach_file</span>
+                      <a
+                        href={`/api/emails/${email.id}/attachments/${attachment.id}`}
+                        className="text-primary hover:underline truncate"
+                      >
+                        {attachment.filename}
+                      </a>
+                      <span className="ml-2 text-gray-500 text-xs">{formatSize(attachment.size)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
           </CardContent>
         </Card>
         
+        {/* Reply / forward composer */}
+        {draft && (
+          <EmailComposer key={draft.id} draft={draft} onClose={() => setDraft(null)} />
+        )}
+        
         {/* Related emails */}
         <div className="mt-8">
           <h3 className="text-lg font-medium text-gray-900 mb-4">Related Emails</h3>
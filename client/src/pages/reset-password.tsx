@@ -0,0 +1,83 @@
+import React, { useState } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { authErrorMessage, useResetPassword } from "@/hooks/useAuth";
+
+const ResetPassword: React.FC = () => {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const resetMutation = useResetPassword();
+
+  // The token comes from the link in the reset email
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmation) {
+      toast({ title: "Passwords don't match", variant: "destructive" });
+      return;
+    }
+
+    resetMutation.mutate({ token, password }, {
+      onSuccess: () => {
+        toast({ title: "Password changed", description: "Sign in with your new password." });
+        navigate("/");
+      },
+      onError: (error) => {
+        toast({ title: "Could not reset password", description: authErrorMessage(error), variant: "destructive" });
+      }
+    });
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle>Choose a new password</CardTitle>
+          <CardDescription>
+            {token ? "Every device signed in to your account will be signed out." : "This reset link is missing its token."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="newPassword">New password</Label>
+              <Input
+                id="newPassword"
+                type="password"
+                autoComplete="new-password"
+                minLength={8}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirm new password</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                required
+              />
+            </div>
+            <Button type="submit" className="w-full" disabled={!token || resetMutation.isPending}>
+              {resetMutation.isPending ? "Saving..." : "Set new password"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -12,6 +12,8 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import AccountStatus from "@/components/AccountStatus";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+import ApiTokenSettings from "@/components/ApiTokenSettings";
 
 const Settings: React.FC = () => {
   const { toast } = useToast();
@@ -169,6 +171,7 @@ const Settings: React.FC = () => {
               <TabsTrigger value="accounts">Email Accounts</TabsTrigger>
               <TabsTrigger value="ai">AI Settings</TabsTrigger>
               <TabsTrigger value="app">Application Settings</TabsTrigger>
+              <TabsTrigger value="security">Security</TabsTrigger>
             </TabsList>
             
             {/* Email Accounts Tab */}
@@ -191,9 +194,10 @@ const Settings: React.FC = () => {
                       {accounts?.map((account) => (
                         <div key={account.id} className="flex items-center justify-between p-4 border rounded-lg">
                           <AccountStatus
-                            type={account.accountType as "gmail" | "exchange"}
+                            type={account.accountType as "gmail" | "exchange" | "imap" | "outlook_graph" | "jmap"}
                             email={account.emailAddress}
                             isConnected={account.isActive}
+                            needsReconsent={account.needsReconsent}
                           />
                           <div className="flex space-x-2">
                             <Button 
@@ -493,6 +497,12 @@ const Settings: React.FC = () => {
                 </CardContent>
               </Card>
             </TabsContent>
+            
+            {/* Security Tab */}
+            <TabsContent value="security" className="mt-4 space-y-6">
+              <TwoFactorSettings />
+              <ApiTokenSettings />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
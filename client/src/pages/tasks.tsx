@@ -83,7 +83,6 @@ const Tasks: React.FC = () => {
             apiRequest('/api/tasks', {
               method: 'POST',
               body: JSON.stringify({
-                userId: 1,
                 emailId: email.id,
                 title: `Task from: ${email.subject.substring(0, 50)}${email.subject.length > 50 ? '...' : ''}`,
                 description: `This task was automatically extracted from an email sent by ${email.sender || 'unknown sender'}. The email was received on ${new Date(email.timestamp || Date.now()).toLocaleString()}.`,
@@ -359,7 +358,6 @@ const Tasks: React.FC = () => {
                       apiRequest('/api/tasks', {
                         method: 'POST',
                         body: JSON.stringify({
-                          userId: 1,
                           emailId: email.id,
                           title: `Task: ${email.subject?.substring(0, 50) || 'Unknown subject'}`,
                           description: `Auto-extracted from email by ${email.sender || 'unknown'}`,
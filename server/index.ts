@@ -2,103 +2,46 @@ import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
-import { realTimeEmailService } from "./realTimeSync";
-import { startAutoRagProcessing } from "./autoRagProcessor";
-import { gmailService } from "./services";
-import { db } from "./db";
-import { emailAccounts } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { realTimeEmailService } from "./services/realTimeEmailService";
+import { startJobWorker } from "./jobWorker";
 import { runMigrations } from "./migrations";
-import { debugLogger } from "./utils/debugLogger";
-import CryptoJS from 'crypto-js';
-
-// Real-time email polling system
-// Checks for new emails every few minutes
-let pollingInterval: NodeJS.Timeout | null = null;
-const POLLING_INTERVAL_MS = 3 * 60 * 1000; // 3 minutes
-
-// Function to poll for new emails
-async function pollForNewEmails() {
-  try {
-    debugLogger.log('email', "Starting real-time email check for new messages");
-    
-    // Get all active email accounts
-    const activeAccounts = await db
-      .select()
-      .from(emailAccounts)
-      .where(eq(emailAccounts.isActive, true));
-    
-    debugLogger.accountLog('check_active', { count: activeAccounts.length });
-    
-    if (activeAccounts.length === 0) {
-      debugLogger.log('email', "No active email accounts for real-time polling");
-      return;
-    }
-    
-    let totalNewEmails = 0;
-    
-    // Check each account for new emails
-    for (const account of activeAccounts) {
-      try {
-        log(`Checking for new emails from ${account.emailAddress}`);
-        
-        // Use Gmail service to fetch only new emails
-        const result = await gmailService.fetchAndStoreEmails(
-          account.emailAddress,
-          account.userId,
-          50
-        );
-        
-        if (result.count > 0) {
-          totalNewEmails += result.count;
-          log(`Found ${result.count} new emails from ${account.emailAddress}`);
-        }
-      } catch (error: any) {
-        log(`Error checking for new emails from ${account.emailAddress}: ${error?.message || 'Unknown error'}`);
-      }
-    }
-    
-    if (totalNewEmails > 0) {
-      log(`Real-time polling complete: Found ${totalNewEmails} new emails`);
-    } else {
-      log("Real-time polling complete: No new emails found");
-    }
-    
-  } catch (error: any) {
-    log(`Error in real-time email polling: ${error?.message || 'Unknown error'}`);
-  }
-}
-
-// Function to start the polling process
-function setupRealTimeEmailPolling() {
-  log("Setting up real-time email monitoring");
-  
-  // Start with an immediate check after 30 seconds
-  setTimeout(() => {
-    pollForNewEmails();
-    
-    // Then set up recurring checks
-    pollingInterval = setInterval(pollForNewEmails, POLLING_INTERVAL_MS);
-    log(`Real-time email polling active (every ${POLLING_INTERVAL_MS/60000} minutes)`);
-  }, 30 * 1000);
-}
 
 const app = express();
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
-// Add session middleware
+// Sessions are stored in Postgres so sign-ins survive restarts
 import session from 'express-session';
-app.use(session({
+import connectPgSimple from 'connect-pg-simple';
+import { pool } from './db';
+import { apiTokenFromRequest } from './middleware/auth';
+
+const PgSession = connectPgSimple(session);
+
+if (!process.env.SESSION_SECRET && process.env.NODE_ENV === 'production') {
+  throw new Error("SESSION_SECRET must be set in production");
+}
+
+// Behind the deployment's TLS proxy, so secure cookies are still sent
+app.set('trust proxy', 1);
+
+const sessionMiddleware = session({
+  store: new PgSession({ pool, tableName: 'session', createTableIfMissing: true }),
   secret: process.env.SESSION_SECRET || 'development-secret',
   resave: false,
-  saveUninitialized: true,
-  cookie: { secure: process.env.NODE_ENV === 'production' }
-}));
+  saveUninitialized: false,
+  cookie: {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: 30 * 24 * 60 * 60 * 1000
+  }
+});
+
+// Requests with a personal API token are authenticated per request and never get a session cookie
+app.use((req, res, next) => apiTokenFromRequest(req) ? next() : sessionMiddleware(req, res, next));
 
-// Add test user for development
-import { addTestUser } from './middleware/testSession';
-app.use(addTestUser);
+const SECRET_RESPONSE_PATHS = /^\/api\/(auth|tokens)(\/|$)/i;
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -115,7 +58,8 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      // Sign-in and token responses carry secrets (new API tokens, TOTP keys)
+      if (capturedJsonResponse && !SECRET_RESPONSE_PATHS.test(path)) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -162,10 +106,10 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving on port ${port}`);
     
-    // Start real-time email synchronization
-    realTimeEmailService.startRealTimeSync();
+    // Start real-time email synchronization (IMAP IDLE, polling fallback, /ws-mail events)
+    realTimeEmailService.initialize(server, sessionMiddleware);
     
-    // Start automatic RAG processing for emails
-    startAutoRagProcessing();
+    // Run queued jobs: account syncs, and cleaning, embedding and task extraction of new mail
+    startJobWorker();
   });
 })();
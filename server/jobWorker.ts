@@ -0,0 +1,210 @@
+import os from "os";
+import { db } from "./db";
+import { emailAccounts, Job } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { log } from "./vite";
+import { jobQueueService } from "./services/jobQueueService";
+import { JOB_KINDS, JOB_KIND_CONFIG, JobDeferral, JobKind, JobPayloads } from "./services/jobPolicy";
+import { syncAccount } from "./services/accountSync";
+import { realTimeEmailService } from "./services/realTimeEmailService";
+import { batchEmbeddingService } from "./services/batchEmbeddingService";
+import { enhancedTaskExtractionService } from "./services/enhancedTaskExtraction";
+import { emailChainService } from "./services/emailChainService";
+import { cleanEmailById } from "./utils/cleanupEmails";
+import { llmService } from "./services/llmService";
+import { usageService } from "./services/usageService";
+import { budgetRecheckAt } from "./services/usagePolicy";
+
+// Configuration
+const POLL_INTERVAL_MS = 1000; // Look for due jobs every second
+const RECOVERY_INTERVAL_MS = 5 * 60 * 1000; // Check for jobs left behind by stopped workers every 5 minutes
+const STALE_LOCK_MS = 30 * 60 * 1000; // A job running this long is assumed to have lost its worker
+const WORKER_ID = `${os.hostname()}:${process.pid}`;
+
+let pollInterval: NodeJS.Timeout | null = null;
+let recoveryInterval: NodeJS.Timeout | null = null;
+let isPolling = false;
+
+type JobHandlers = { [K in JobKind]: (payload: JobPayloads[K]) => Promise<JobDeferral | void> };
+
+/**
+ * Put off AI work on an email while its owner is over their monthly budget
+ */
+async function budgetDeferral(emailId: number): Promise<JobDeferral | undefined> {
+  const userId = await llmService.getEmailOwner(emailId);
+  if (!userId) {
+    return undefined;
+  }
+
+  const budget = await usageService.getBudgetStatus(userId);
+  if (!budget.exceeded) {
+    return undefined;
+  }
+
+  return {
+    runAt: budgetRecheckAt(budget),
+    reason: `Monthly AI budget of $${budget.budgetUsd} reached ($${budget.spentUsd.toFixed(2)} spent)`
+  };
+}
+
+/**
+ * What each kind of job does. Handlers throw to have the job retried, or return a
+ * deferral to have it run later without using up an attempt.
+ * New mail goes clean-email -> embed-email -> extract-tasks and update-relationships.
+ */
+const handlers: JobHandlers = {
+  'sync-account': async ({ accountId, limit }) => {
+    const [account] = await db.select().from(emailAccounts).where(eq(emailAccounts.id, accountId));
+
+    // The account may have been removed, disabled or signed out since the sync was queued
+    if (!account || !account.isActive || !account.syncEnabled || account.needsReconsent) {
+      return;
+    }
+
+    try {
+      const count = await syncAccount(account, limit);
+      realTimeEmailService.recordSync(account, count);
+    } catch (error) {
+      realTimeEmailService.recordSyncError(account, error);
+      throw error;
+    }
+  },
+
+  'clean-email': async ({ emailId, extractTasks }) => {
+    await cleanEmailById(emailId);
+    await jobQueueService.enqueue('embed-email', { emailId, extractTasks }, { dedupeKey: `embed-email:${emailId}` });
+  },
+
+  'embed-email': async ({ emailId, extractTasks = true }) => {
+    const deferral = await budgetDeferral(emailId);
+    if (deferral) {
+      return deferral;
+    }
+
+    // Emails with too little content get no embedding, and so no semantic links
+    if (await batchEmbeddingService.generateEmbeddingForEmail(emailId)) {
+      await jobQueueService.enqueue('update-relationships', { emailId }, { dedupeKey: `update-relationships:${emailId}` });
+    }
+
+    if (extractTasks) {
+      await jobQueueService.enqueue('extract-tasks', { emailId }, { dedupeKey: `extract-tasks:${emailId}` });
+    }
+  },
+
+  'extract-tasks': async ({ emailId }) => {
+    const deferral = await budgetDeferral(emailId);
+    if (deferral) {
+      return deferral;
+    }
+
+    const result = await enhancedTaskExtractionService.extractEnhancedTasksFromEmail(emailId);
+
+    // Newsletters and other non-actionable mail come back with a classification instead of tasks
+    if (!result.email_classification) {
+      await enhancedTaskExtractionService.createTasksFromEnhancedExtraction(emailId);
+    }
+  },
+
+  'update-relationships': async ({ emailId }) => {
+    await emailChainService.updateRelationshipsForEmail(emailId);
+  }
+};
+
+/**
+ * Run one claimed job and record how it went
+ */
+async function runJob(job: Job) {
+  const handler = handlers[job.kind] as (payload: unknown) => Promise<JobDeferral | void>;
+
+  try {
+    const deferral = await handler(job.payload);
+    if (deferral) {
+      await jobQueueService.defer(job, deferral.runAt, deferral.reason);
+      log(`Job ${job.id} (${job.kind}) deferred until ${deferral.runAt.toISOString()}: ${deferral.reason}`);
+      return;
+    }
+
+    await jobQueueService.complete(job.id);
+  } catch (error) {
+    try {
+      const status = await jobQueueService.fail(job, error);
+      log(`Job ${job.id} (${job.kind}) failed on attempt ${job.attempts}/${job.maxAttempts}: ${(error as Error).message}` +
+        (status === 'dead' ? ' - moved to dead letters' : ' - will retry'));
+    } catch (failError) {
+      console.error(`Error recording failure of job ${job.id}:`, failError);
+    }
+  }
+}
+
+/**
+ * Claim due jobs of every kind, up to each kind's concurrency limit, and start them
+ */
+async function pollJobs() {
+  // Claims from the previous tick are still in flight
+  if (isPolling) return;
+
+  try {
+    isPolling = true;
+
+    for (const kind of JOB_KINDS) {
+      const claimed = await jobQueueService.claim(kind, JOB_KIND_CONFIG[kind].concurrency, WORKER_ID);
+      claimed.forEach(job => {
+        runJob(job);
+      });
+    }
+  } catch (error) {
+    console.error("Error claiming jobs:", error);
+  } finally {
+    isPolling = false;
+  }
+}
+
+async function recoverStaleJobs() {
+  try {
+    const recovered = await jobQueueService.recoverStaleJobs(STALE_LOCK_MS);
+    if (recovered > 0) {
+      log(`Recovered ${recovered} jobs left running by stopped workers`);
+    }
+  } catch (error) {
+    console.error("Error recovering stale jobs:", error);
+  }
+}
+
+/**
+ * Start the background job worker
+ */
+export async function startJobWorker() {
+  stopJobWorker();
+
+  await recoverStaleJobs();
+
+  try {
+    // Catch up on mail stored before the job queue existed
+    const queued = await jobQueueService.enqueueMissingEmbeddings();
+    if (queued > 0) {
+      log(`Queued embeddings for ${queued} emails`);
+    }
+  } catch (error) {
+    console.error("Error queueing missing embeddings:", error);
+  }
+
+  pollInterval = setInterval(pollJobs, POLL_INTERVAL_MS);
+  recoveryInterval = setInterval(recoverStaleJobs, RECOVERY_INTERVAL_MS);
+
+  log(`Job worker ${WORKER_ID} started`);
+}
+
+/**
+ * Stop claiming new jobs; jobs already running are left to finish
+ */
+export function stopJobWorker() {
+  if (pollInterval) {
+    clearInterval(pollInterval);
+    pollInterval = null;
+  }
+
+  if (recoveryInterval) {
+    clearInterval(recoveryInterval);
+    recoveryInterval = null;
+  }
+}
@@ -0,0 +1,95 @@
+import { Request, Response, NextFunction } from 'express';
+import { apiTokenService } from '../services/apiTokenService';
+import { authService } from '../services/authService';
+import { TokenRateLimiter, isApiToken, isSessionOnlyPath, missingScopes } from '../services/apiTokenPolicy';
+
+// API paths that are reachable without signing in: sign-in itself, the health
+// check and the push notifications mail providers send. Express routes ignore
+// case, so these patterns do too.
+const PUBLIC_API_PATHS = [
+  /^\/auth(\/|$)/i,
+  /^\/health$/i,
+  /^\/webhook\/email-updates$/i
+];
+
+const rateLimiter = new TokenRateLimiter();
+
+/**
+ * The personal API token sent as `Authorization: Bearer <token>`, if any
+ */
+export function apiTokenFromRequest(req: Request): string | null {
+  const match = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match && isApiToken(match[1]) ? match[1] : null;
+}
+
+/**
+ * Reject requests without a signed-in user
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.session?.user) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+
+  next();
+}
+
+/**
+ * Mounted on /api before requireApiAuth. A request with an API token is signed in as
+ * the token's owner for that request only, within the token's scopes and rate limit.
+ */
+export async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const token = apiTokenFromRequest(req);
+  if (!token) {
+    return next();
+  }
+
+  try {
+    if (isSessionOnlyPath(req.path)) {
+      return res.status(403).json({ error: 'API tokens cannot be used to sign in or manage tokens' });
+    }
+
+    const match = await apiTokenService.authenticate(token);
+    if (!match) {
+      return res.status(401).json({ error: 'Invalid, expired or revoked API token' });
+    }
+
+    const limit = rateLimiter.hit(match.token.id, match.token.rateLimitPerMinute);
+    res.setHeader('X-RateLimit-Limit', limit.limit);
+    res.setHeader('X-RateLimit-Remaining', limit.remaining);
+    res.setHeader('X-RateLimit-Reset', Math.ceil(limit.resetAt / 1000));
+
+    if (!limit.allowed) {
+      res.setHeader('Retry-After', Math.max(1, Math.ceil((limit.resetAt - Date.now()) / 1000)));
+      return res.status(429).json({ error: 'Rate limit exceeded for this API token' });
+    }
+
+    const missing = missingScopes(match.token.scopes, req.method, req.path);
+    if (missing.length > 0) {
+      return res.status(403).json({ error: `This API token needs the ${missing.join(', ')} scope`, requiredScopes: missing });
+    }
+
+    apiTokenService.recordUse(match.token, req.ip).catch(error => {
+      console.error(`Error recording use of API token ${match.token.id}:`, error);
+    });
+
+    // Token requests skip the session middleware, so this session lasts for the request only
+    req.session = { user: authService.toSessionUser(match.user) } as Request['session'];
+    req.apiToken = { id: match.token.id, scopes: match.token.scopes };
+
+    next();
+  } catch (error) {
+    console.error('Error authenticating API token:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+}
+
+/**
+ * Mounted on /api: every endpoint except the public ones needs a signed-in user
+ */
+export function requireApiAuth(req: Request, res: Response, next: NextFunction) {
+  if (PUBLIC_API_PATHS.some(pattern => pattern.test(req.path))) {
+    return next();
+  }
+
+  requireAuth(req, res, next);
+}
@@ -9,6 +9,23 @@ import { fixPgVectorFinal } from './migrations/fix_pgvector_final';
 import { fixVectorDimensions } from './migrations/fix_vector_dimensions';
 import { implementFullTextSearch } from './migrations/fts_implementation';
 import { enhanceTasksTable } from './migrations/task_enhancement_migration';
+import { createSyncStateTable } from './migrations/sync_state_migration';
+import { addFolderAndLabelColumns } from './migrations/folder_labels_migration';
+import { createAttachmentsTable } from './migrations/attachments_migration';
+import { addThreadingColumns } from './migrations/threading_migration';
+import { createDraftsTable } from './migrations/drafts_migration';
+import { createFlagSyncTables } from './migrations/flag_sync_migration';
+import { createMailImportsTable } from './migrations/mail_import_migration';
+import { addNeedsReconsentColumn } from './migrations/oauth_reconsent_migration';
+import { createJobsTable } from './migrations/job_queue_migration';
+import { createAuthTables } from './migrations/auth_migration';
+import { createApiTokensTable } from './migrations/api_tokens_migration';
+import { encryptStoredSecrets } from './migrations/secrets_encryption_migration';
+import { addMockModels } from './migrations/mock_models_migration';
+import { createLlmRejectedOutputsTable } from './migrations/llm_rejected_outputs_migration';
+import { createPromptTemplateTables } from './migrations/prompt_templates_migration';
+import { createLlmUsageTable } from './migrations/llm_usage_migration';
+import { threadService } from './services/threadService';
 
 // List of default LLM models to seed the database with
 const defaultModels = [
@@ -109,7 +126,7 @@ export async function runMigrations() {
       BEGIN
         -- LLM Provider enum
         IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'llm_provider') THEN
-          CREATE TYPE llm_provider AS ENUM ('ollama', 'openai', 'anthropic', 'perplexity');
+          CREATE TYPE llm_provider AS ENUM ('ollama', 'openai', 'anthropic', 'perplexity', 'mock');
         ELSE
           -- Check if we need to add any missing enum values
           BEGIN
@@ -117,6 +134,7 @@ export async function runMigrations() {
             ALTER TYPE llm_provider ADD VALUE IF NOT EXISTS 'openai';
             ALTER TYPE llm_provider ADD VALUE IF NOT EXISTS 'anthropic';
             ALTER TYPE llm_provider ADD VALUE IF NOT EXISTS 'perplexity';
+            ALTER TYPE llm_provider ADD VALUE IF NOT EXISTS 'mock';
           EXCEPTION
             WHEN duplicate_object THEN
               -- Handle case when value already exists
@@ -138,6 +156,23 @@ export async function runMigrations() {
           END;
         END IF;
         
+        -- Account Type enum
+        IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'account_type') THEN
+          CREATE TYPE account_type AS ENUM ('gmail', 'exchange', 'imap', 'outlook_graph', 'jmap');
+        ELSE
+          -- Check if we need to add any missing enum values
+          BEGIN
+            ALTER TYPE account_type ADD VALUE IF NOT EXISTS 'gmail';
+            ALTER TYPE account_type ADD VALUE IF NOT EXISTS 'exchange';
+            ALTER TYPE account_type ADD VALUE IF NOT EXISTS 'imap';
+            ALTER TYPE account_type ADD VALUE IF NOT EXISTS 'outlook_graph';
+            ALTER TYPE account_type ADD VALUE IF NOT EXISTS 'jmap';
+          EXCEPTION
+            WHEN duplicate_object THEN
+              -- Handle case when value already exists
+          END;
+        END IF;
+        
         -- Link Type enum
         IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'link_type') THEN
           CREATE TYPE link_type AS ENUM ('thread', 'subject', 'semantic');
@@ -253,6 +288,78 @@ export async function runMigrations() {
       console.error("Error enhancing task schema:", error);
     }
     
+    // 5. Create the per-folder sync state table for incremental IMAP sync
+    const syncStateResult = await createSyncStateTable();
+    console.log(`Sync state table creation result: ${syncStateResult ? "Success" : "Failed"}`);
+    
+    // 6. Add folder selection and folder/label membership for multi-folder ingestion
+    const folderLabelsResult = await addFolderAndLabelColumns();
+    console.log(`Folder and label columns result: ${folderLabelsResult ? "Success" : "Failed"}`);
+    
+    // 7. Create the attachments table for attachment storage and text extraction
+    const attachmentsResult = await createAttachmentsTable();
+    console.log(`Attachments table creation result: ${attachmentsResult ? "Success" : "Failed"}`);
+    
+    // 8. Add In-Reply-To/References and thread every email that has no thread id yet
+    const threadingResult = await addThreadingColumns();
+    console.log(`Threading columns result: ${threadingResult ? "Success" : "Failed"}`);
+    if (threadingResult) {
+      try {
+        const threadedCount = await threadService.backfillThreads();
+        console.log(`Assigned thread ids to ${threadedCount} emails`);
+      } catch (error) {
+        console.error("Error backfilling thread ids:", error);
+      }
+    }
+    
+    // 9. Create the drafts table for outgoing mail
+    const draftsResult = await createDraftsTable();
+    console.log(`Drafts table creation result: ${draftsResult ? "Success" : "Failed"}`);
+    
+    // 10. Add starred/deleted flags and the flag sync queue and change log
+    const flagSyncResult = await createFlagSyncTables();
+    console.log(`Flag sync tables result: ${flagSyncResult ? "Success" : "Failed"}`);
+    
+    // 11. Create the table tracking mailbox archive imports
+    const mailImportsResult = await createMailImportsTable();
+    console.log(`Mail imports table creation result: ${mailImportsResult ? "Success" : "Failed"}`);
+    
+    // 12. Flag OAuth accounts whose refresh token was rejected
+    const reconsentResult = await addNeedsReconsentColumn();
+    console.log(`OAuth re-consent column result: ${reconsentResult ? "Success" : "Failed"}`);
+    
+    // 13. Create the table behind the background job queue
+    const jobsResult = await createJobsTable();
+    console.log(`Jobs table creation result: ${jobsResult ? "Success" : "Failed"}`);
+    
+    // 14. Add two-factor columns, password reset tokens and the session table
+    const authResult = await createAuthTables();
+    console.log(`Authentication tables result: ${authResult ? "Success" : "Failed"}`);
+    
+    // 15. Create the table of personal API tokens
+    const apiTokensResult = await createApiTokensTable();
+    console.log(`API tokens table creation result: ${apiTokensResult ? "Success" : "Failed"}`);
+    
+    // 16. Encrypt AI API keys and move stored secrets to AES-GCM
+    const secretsResult = await encryptStoredSecrets();
+    console.log(`Secrets encryption result: ${secretsResult ? "Success" : "Failed"}`);
+    
+    // 17. Add the offline mock provider's models
+    const mockModelsResult = await addMockModels();
+    console.log(`Mock models result: ${mockModelsResult ? "Success" : "Failed"}`);
+    
+    // 18. Create the table of model outputs that failed validation
+    const rejectedOutputsResult = await createLlmRejectedOutputsTable();
+    console.log(`Rejected LLM outputs table creation result: ${rejectedOutputsResult ? "Success" : "Failed"}`);
+    
+    // 19. Create the prompt registry and seed the built-in prompts
+    const promptTemplatesResult = await createPromptTemplateTables();
+    console.log(`Prompt templates migration result: ${promptTemplatesResult ? "Success" : "Failed"}`);
+    
+    // 20. Create the LLM usage log, model prices and monthly budgets
+    const llmUsageResult = await createLlmUsageTable();
+    console.log(`LLM usage migration result: ${llmUsageResult ? "Success" : "Failed"}`);
+    
     console.log("Migrations completed successfully");
     return true;
   } catch (error) {
@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Creates the table of personal access tokens used with `Authorization: Bearer`
+ */
+export async function createApiTokensTable() {
+  try {
+    console.log('[migration] Starting API tokens migration');
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS api_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name TEXT NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        token_prefix TEXT NOT NULL,
+        scopes TEXT[] NOT NULL,
+        rate_limit_per_minute INTEGER NOT NULL DEFAULT 60,
+        last_used_at TIMESTAMP,
+        last_used_ip TEXT,
+        expires_at TIMESTAMP,
+        revoked_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS api_tokens_user_idx ON api_tokens(user_id);
+    `);
+
+    console.log('[migration] API tokens migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during API tokens migration:', error);
+    return false;
+  }
+}
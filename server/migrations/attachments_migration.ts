@@ -0,0 +1,44 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Creates the email_attachments table. Attachment content is stored on disk by
+ * content hash; the table holds the metadata and the extracted text.
+ */
+export async function createAttachmentsTable() {
+  try {
+    console.log('[migration] Starting attachments migration');
+
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'attachment_extraction_status') THEN
+          CREATE TYPE attachment_extraction_status AS ENUM ('pending', 'extracted', 'unsupported', 'failed');
+        END IF;
+      END $$;
+
+      CREATE TABLE IF NOT EXISTS email_attachments (
+        id SERIAL PRIMARY KEY,
+        email_id INTEGER NOT NULL REFERENCES emails(id) ON DELETE CASCADE,
+        filename TEXT NOT NULL,
+        content_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        content_hash TEXT NOT NULL,
+        content_id TEXT,
+        is_inline BOOLEAN NOT NULL DEFAULT FALSE,
+        extracted_text TEXT,
+        extraction_status attachment_extraction_status NOT NULL DEFAULT 'pending',
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS email_attachments_email_idx ON email_attachments (email_id);
+      CREATE INDEX IF NOT EXISTS email_attachments_content_hash_idx ON email_attachments (content_hash);
+    `);
+
+    console.log('[migration] Attachments migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during attachments migration:', error);
+    return false;
+  }
+}
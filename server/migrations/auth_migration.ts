@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Adds two-factor columns to users, the password reset token table and the table
+ * login sessions are stored in
+ */
+export async function createAuthTables() {
+  try {
+    console.log('[migration] Starting authentication migration');
+
+    await db.execute(sql`
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_secret TEXT;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+      ALTER TABLE users ADD COLUMN IF NOT EXISTS totp_last_step BIGINT;
+
+      CREATE TABLE IF NOT EXISTS password_reset_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        token_hash TEXT NOT NULL UNIQUE,
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS password_reset_tokens_user_idx ON password_reset_tokens(user_id);
+
+      CREATE TABLE IF NOT EXISTS session (
+        sid VARCHAR PRIMARY KEY,
+        sess JSON NOT NULL,
+        expire TIMESTAMP(6) NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS "IDX_session_expire" ON session(expire);
+    `);
+
+    console.log('[migration] Authentication migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during authentication migration:', error);
+    return false;
+  }
+}
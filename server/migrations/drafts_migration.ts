@@ -0,0 +1,45 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Creates the drafts table for messages composed in the app and sent over SMTP
+ */
+export async function createDraftsTable() {
+  try {
+    console.log('[migration] Starting drafts migration');
+
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'draft_mode') THEN
+          CREATE TYPE draft_mode AS ENUM ('new', 'reply', 'reply_all', 'forward');
+        END IF;
+      END $$;
+
+      CREATE TABLE IF NOT EXISTS drafts (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id),
+        account_id INTEGER NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+        mode draft_mode NOT NULL DEFAULT 'new',
+        source_email_id INTEGER REFERENCES emails(id) ON DELETE SET NULL,
+        "to" TEXT[] NOT NULL,
+        cc TEXT[],
+        bcc TEXT[],
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        in_reply_to TEXT,
+        message_references TEXT[],
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS drafts_user_idx ON drafts (user_id);
+    `);
+
+    console.log('[migration] Drafts migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during drafts migration:', error);
+    return false;
+  }
+}
@@ -0,0 +1,68 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Adds the starred/deleted flags and the server flag snapshot to emails, and creates
+ * the email_flag_changes table used as the flag sync queue and change log
+ */
+export async function createFlagSyncTables() {
+  try {
+    console.log('[migration] Starting flag sync migration');
+
+    await db.execute(sql`
+      ALTER TABLE emails ADD COLUMN IF NOT EXISTS is_starred BOOLEAN NOT NULL DEFAULT FALSE;
+      ALTER TABLE emails ADD COLUMN IF NOT EXISTS is_deleted BOOLEAN NOT NULL DEFAULT FALSE;
+      ALTER TABLE emails ADD COLUMN IF NOT EXISTS server_flags JSONB;
+
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'email_flag') THEN
+          CREATE TYPE email_flag AS ENUM ('read', 'starred', 'archived', 'deleted');
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'flag_change_source') THEN
+          CREATE TYPE flag_change_source AS ENUM ('local', 'server');
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'flag_change_status') THEN
+          CREATE TYPE flag_change_status AS ENUM ('pending', 'applied', 'superseded', 'failed');
+        END IF;
+      END $$;
+
+      CREATE TABLE IF NOT EXISTS email_flag_changes (
+        id SERIAL PRIMARY KEY,
+        email_id INTEGER NOT NULL REFERENCES emails(id) ON DELETE CASCADE,
+        account_id INTEGER NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+        flag email_flag NOT NULL,
+        value BOOLEAN NOT NULL,
+        source flag_change_source NOT NULL,
+        status flag_change_status NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        detail TEXT,
+        changed_at TIMESTAMP NOT NULL,
+        applied_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS email_flag_changes_email_idx ON email_flag_changes (email_id);
+      CREATE INDEX IF NOT EXISTS email_flag_changes_status_idx ON email_flag_changes (status, account_id);
+    `);
+
+    // Until now the local flags were all we knew, so take them as the server's state
+    await db.execute(sql`
+      UPDATE emails
+      SET server_flags = jsonb_build_object(
+        'read', is_read,
+        'starred', is_starred,
+        'archived', is_archived,
+        'deleted', is_deleted
+      )
+      WHERE server_flags IS NULL;
+    `);
+
+    console.log('[migration] Flag sync migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during flag sync migration:', error);
+    return false;
+  }
+}
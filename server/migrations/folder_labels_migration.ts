@@ -0,0 +1,43 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Adds per-account folder selection and per-email folder/label membership,
+ * backfilling existing emails from the mailbox and Gmail labels kept in metadata
+ */
+export async function addFolderAndLabelColumns() {
+  try {
+    console.log('[migration] Starting folder and label migration');
+
+    await db.execute(sql`
+      ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS sync_folders TEXT[];
+
+      ALTER TABLE emails ADD COLUMN IF NOT EXISTS folder TEXT;
+      ALTER TABLE emails ADD COLUMN IF NOT EXISTS labels TEXT[];
+
+      CREATE INDEX IF NOT EXISTS emails_folder_idx ON emails (account_id, folder);
+      CREATE INDEX IF NOT EXISTS emails_labels_idx ON emails USING GIN (labels);
+    `);
+
+    // Everything ingested before this migration came from the inbox
+    await db.execute(sql`
+      UPDATE emails
+      SET folder = COALESCE(metadata->>'mailbox', metadata->>'folder', 'INBOX')
+      WHERE folder IS NULL;
+
+      UPDATE emails
+      SET labels = CASE
+        WHEN jsonb_typeof(metadata->'gmailLabels') = 'array' AND jsonb_array_length(metadata->'gmailLabels') > 0
+          THEN ARRAY(SELECT jsonb_array_elements_text(metadata->'gmailLabels'))
+        ELSE ARRAY[folder]
+      END
+      WHERE labels IS NULL;
+    `);
+
+    console.log('[migration] Folder and label migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during folder and label migration:', error);
+    return false;
+  }
+}
@@ -46,6 +46,11 @@ export async function implementFullTextSearch(): Promise<boolean> {
       END $$;
     `);
 
+    // Text extracted from attachments is indexed with the body, at the lowest weight
+    await db.execute(sql`
+      ALTER TABLE emails ADD COLUMN IF NOT EXISTS attachment_text TEXT;
+    `);
+
     log('Added tsvector columns to emails and tasks tables', 'migration');
 
     // Step 2: Create GIN indexes for fast full-text searches
@@ -66,7 +71,8 @@ export async function implementFullTextSearch(): Promise<boolean> {
         NEW.search_vector := 
             setweight(to_tsvector('english', COALESCE(NEW.subject, '')), 'A') ||
             setweight(to_tsvector('english', COALESCE(NEW.sender, '')), 'B') ||
-            setweight(to_tsvector('english', COALESCE(NEW.body, '')), 'C');
+            setweight(to_tsvector('english', COALESCE(NEW.body, '')), 'C') ||
+            setweight(to_tsvector('english', COALESCE(NEW.attachment_text, '')), 'D');
         RETURN NEW;
       END
       $$ LANGUAGE plpgsql;
@@ -104,7 +110,8 @@ export async function implementFullTextSearch(): Promise<boolean> {
       UPDATE emails SET search_vector = 
         setweight(to_tsvector('english', COALESCE(subject, '')), 'A') ||
         setweight(to_tsvector('english', COALESCE(sender, '')), 'B') ||
-        setweight(to_tsvector('english', COALESCE(body, '')), 'C')
+        setweight(to_tsvector('english', COALESCE(body, '')), 'C') ||
+        setweight(to_tsvector('english', COALESCE(attachment_text, '')), 'D')
       WHERE search_vector IS NULL;
 
       -- Update existing tasks
@@ -0,0 +1,51 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Creates the jobs table behind the background job queue
+ */
+export async function createJobsTable() {
+  try {
+    console.log('[migration] Starting job queue migration');
+
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'job_kind') THEN
+          CREATE TYPE job_kind AS ENUM ('sync-account', 'clean-email', 'embed-email', 'extract-tasks', 'update-relationships');
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'job_status') THEN
+          CREATE TYPE job_status AS ENUM ('pending', 'running', 'completed', 'dead', 'cancelled');
+        END IF;
+      END $$;
+
+      CREATE TABLE IF NOT EXISTS jobs (
+        id SERIAL PRIMARY KEY,
+        kind job_kind NOT NULL,
+        payload JSONB NOT NULL DEFAULT '{}',
+        status job_status NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 5,
+        dedupe_key TEXT,
+        run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        locked_at TIMESTAMP,
+        locked_by TEXT,
+        last_error TEXT,
+        error_trace TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        finished_at TIMESTAMP
+      );
+
+      CREATE INDEX IF NOT EXISTS jobs_claim_idx ON jobs (status, kind, run_at);
+      CREATE INDEX IF NOT EXISTS jobs_dedupe_key_idx ON jobs (dedupe_key);
+      CREATE UNIQUE INDEX IF NOT EXISTS jobs_pending_dedupe_idx ON jobs (dedupe_key) WHERE status = 'pending';
+    `);
+
+    console.log('[migration] Job queue migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during job queue migration:', error);
+    return false;
+  }
+}
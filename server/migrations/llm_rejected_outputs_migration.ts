@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Creates the table where model outputs that failed schema validation are kept
+ */
+export async function createLlmRejectedOutputsTable() {
+  try {
+    console.log('[migration] Starting rejected LLM outputs migration');
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS llm_rejected_outputs (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+        feature TEXT NOT NULL,
+        provider llm_provider NOT NULL,
+        model TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        output TEXT NOT NULL,
+        errors JSONB NOT NULL,
+        repaired BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS llm_rejected_outputs_user_idx ON llm_rejected_outputs(user_id, created_at);
+    `);
+
+    console.log('[migration] Rejected LLM outputs migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during rejected LLM outputs migration:', error);
+    return false;
+  }
+}
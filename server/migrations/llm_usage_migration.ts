@@ -0,0 +1,68 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Creates the LLM usage log, adds model prices and monthly budgets, and fills
+ * in list prices for the models seeded by earlier migrations. Prices someone
+ * has already set are left alone.
+ */
+export async function createLlmUsageTable() {
+  try {
+    console.log('[migration] Starting LLM usage migration');
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS llm_usage (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+        feature TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        provider llm_provider NOT NULL,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL DEFAULT 0,
+        completion_tokens INTEGER NOT NULL DEFAULT 0,
+        tokens_estimated BOOLEAN NOT NULL DEFAULT FALSE,
+        latency_ms INTEGER NOT NULL,
+        cost_usd DOUBLE PRECISION,
+        success BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS llm_usage_user_created_idx ON llm_usage(user_id, created_at);
+
+      ALTER TABLE ai_models ADD COLUMN IF NOT EXISTS input_price_per_million DOUBLE PRECISION;
+      ALTER TABLE ai_models ADD COLUMN IF NOT EXISTS output_price_per_million DOUBLE PRECISION;
+      ALTER TABLE ai_settings ADD COLUMN IF NOT EXISTS monthly_budget_usd DOUBLE PRECISION;
+    `);
+
+    // USD per million input and output tokens
+    await db.execute(sql`
+      UPDATE ai_models AS m
+      SET input_price_per_million = p.input, output_price_per_million = p.output
+      FROM (VALUES
+        ('gpt-4o', 2.5, 10.0),
+        ('gpt-4o-mini', 0.15, 0.6),
+        ('gpt-4-turbo', 10.0, 30.0),
+        ('gpt-3.5-turbo', 0.5, 1.5),
+        ('text-embedding-3-small', 0.02, 0.0),
+        ('text-embedding-3-large', 0.13, 0.0),
+        ('claude-3-7-sonnet-20250219', 3.0, 15.0),
+        ('claude-3-opus-20240229', 15.0, 75.0),
+        ('claude-3-sonnet-20240229', 3.0, 15.0),
+        ('llama-3.1-sonar-small-128k-online', 0.2, 0.2),
+        ('llama-3.1-sonar-large-128k-online', 1.0, 1.0)
+      ) AS p(model_id, input, output)
+      WHERE m.model_id = p.model_id AND m.input_price_per_million IS NULL;
+
+      -- Local and offline models cost nothing per call
+      UPDATE ai_models
+      SET input_price_per_million = 0, output_price_per_million = 0
+      WHERE provider IN ('ollama', 'mock') AND input_price_per_million IS NULL;
+    `);
+
+    console.log('[migration] LLM usage migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during LLM usage migration:', error);
+    return false;
+  }
+}
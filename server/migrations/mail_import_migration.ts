@@ -0,0 +1,62 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Creates the mail_imports table that tracks imports of mbox, EML and Maildir archives
+ */
+export async function createMailImportsTable() {
+  try {
+    console.log('[migration] Starting mail imports migration');
+
+    await db.execute(sql`
+      DO $$
+      BEGIN
+        IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'mail_import_format') THEN
+          CREATE TYPE mail_import_format AS ENUM ('mbox', 'eml', 'maildir', 'zip');
+        END IF;
+        IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'mail_import_status') THEN
+          CREATE TYPE mail_import_status AS ENUM ('pending', 'running', 'completed', 'failed');
+        END IF;
+      END $$;
+
+      CREATE TABLE IF NOT EXISTS mail_imports (
+        id SERIAL PRIMARY KEY,
+        account_id INTEGER NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+        format mail_import_format NOT NULL,
+        source TEXT NOT NULL,
+        status mail_import_status NOT NULL DEFAULT 'pending',
+        total_bytes INTEGER NOT NULL DEFAULT 0,
+        processed_bytes INTEGER NOT NULL DEFAULT 0,
+        messages_read INTEGER NOT NULL DEFAULT 0,
+        imported_count INTEGER NOT NULL DEFAULT 0,
+        duplicate_count INTEGER NOT NULL DEFAULT 0,
+        failed_count INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        started_at TIMESTAMP,
+        finished_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE INDEX IF NOT EXISTS mail_imports_account_idx ON mail_imports (account_id);
+    `);
+
+    // Export zips became importable after the type was first created
+    await db.execute(sql`ALTER TYPE mail_import_format ADD VALUE IF NOT EXISTS 'zip'`);
+
+    // Imports deduplicate on (account_id, message_id). The index normally comes from the schema;
+    // creating it fails while duplicates are stored, which leaves imports without deduplication.
+    try {
+      await db.execute(sql`
+        CREATE UNIQUE INDEX IF NOT EXISTS account_message_id_idx ON emails (account_id, message_id);
+      `);
+    } catch (indexError) {
+      console.error('[migration] Could not create account_message_id_idx:', indexError);
+    }
+
+    console.log('[migration] Mail imports migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during mail imports migration:', error);
+    return false;
+  }
+}
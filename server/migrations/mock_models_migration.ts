@@ -0,0 +1,33 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Adds the offline mock provider's chat and embedding models so the mock can be
+ * picked in AI Settings. The llm_provider enum value itself is added with the
+ * other providers in runMigrations.
+ */
+export async function addMockModels() {
+  try {
+    console.log('[migration] Starting mock models migration');
+
+    await db.execute(sql`
+      INSERT INTO ai_models (provider, model_id, display_name, description, capabilities, context_length, is_embedding_model, is_default)
+      SELECT 'mock', 'mock-chat', 'Mock (Offline)',
+             'Deterministic rule-based completions for tests and demos; no network access needed',
+             '{"text": true}'::jsonb, 32000, false, false
+      WHERE NOT EXISTS (SELECT 1 FROM ai_models WHERE provider = 'mock' AND model_id = 'mock-chat');
+
+      INSERT INTO ai_models (provider, model_id, display_name, description, capabilities, context_length, is_embedding_model, is_default)
+      SELECT 'mock', 'mock-embedding', 'Mock Embeddings (Offline)',
+             'Deterministic hashed bag-of-words vectors for tests and demos',
+             '{"text": true}'::jsonb, 32000, true, false
+      WHERE NOT EXISTS (SELECT 1 FROM ai_models WHERE provider = 'mock' AND model_id = 'mock-embedding');
+    `);
+
+    console.log('[migration] Mock models migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during mock models migration:', error);
+    return false;
+  }
+}
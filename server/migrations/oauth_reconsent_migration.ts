@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Adds the flag set on OAuth accounts whose refresh token was rejected, so they can be
+ * shown as needing the user to sign in again instead of failing every sync
+ */
+export async function addNeedsReconsentColumn() {
+  try {
+    console.log('[migration] Starting OAuth re-consent migration');
+
+    await db.execute(sql`
+      ALTER TABLE email_accounts ADD COLUMN IF NOT EXISTS needs_reconsent BOOLEAN NOT NULL DEFAULT FALSE;
+    `);
+
+    console.log('[migration] OAuth re-consent migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during OAuth re-consent migration:', error);
+    return false;
+  }
+}
@@ -0,0 +1,50 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+import { promptService } from '../services/promptService';
+
+/**
+ * Creates the prompt registry, seeds it with the built-in prompts and adds the
+ * columns recording which prompt version produced a task or summary
+ */
+export async function createPromptTemplateTables() {
+  try {
+    console.log('[migration] Starting prompt templates migration');
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS prompt_templates (
+        id SERIAL PRIMARY KEY,
+        name TEXT NOT NULL UNIQUE,
+        description TEXT NOT NULL,
+        variables JSONB NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS prompt_template_versions (
+        id SERIAL PRIMARY KEY,
+        template_id INTEGER NOT NULL REFERENCES prompt_templates(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+        system_template TEXT,
+        user_template TEXT NOT NULL,
+        notes TEXT,
+        retired_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS prompt_template_versions_template_version_idx ON prompt_template_versions(template_id, version);
+      CREATE INDEX IF NOT EXISTS prompt_template_versions_user_idx ON prompt_template_versions(user_id, template_id);
+
+      ALTER TABLE tasks ADD COLUMN IF NOT EXISTS prompt_version_id INTEGER REFERENCES prompt_template_versions(id) ON DELETE SET NULL;
+      ALTER TABLE emails ADD COLUMN IF NOT EXISTS ai_summary_prompt_version_id INTEGER REFERENCES prompt_template_versions(id) ON DELETE SET NULL;
+    `);
+
+    const seeded = await promptService.seedDefaults();
+    console.log(`[migration] Seeded ${seeded} default prompt templates`);
+
+    console.log('[migration] Prompt templates migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during prompt templates migration:', error);
+    return false;
+  }
+}
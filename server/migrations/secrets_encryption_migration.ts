@@ -0,0 +1,22 @@
+import { secretRotationService } from '../services/secretRotationService';
+
+/**
+ * Encrypts AI provider API keys stored in plain text and moves credentials and
+ * two-factor secrets written by the older crypto-js and AES-CBC code to AES-GCM
+ */
+export async function encryptStoredSecrets() {
+  try {
+    console.log('[migration] Starting secrets encryption migration');
+
+    const results = await secretRotationService.reEncryptAll();
+    for (const { table, scanned, updated } of results) {
+      console.log(`[migration] ${table}: re-encrypted ${updated} of ${scanned} rows`);
+    }
+
+    console.log('[migration] Secrets encryption migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during secrets encryption migration:', error);
+    return false;
+  }
+}
@@ -0,0 +1,48 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Creates the email_sync_state table holding the per-folder sync cursor:
+ * the UID cursor (UIDVALIDITY, last UID and HIGHESTMODSEQ) for IMAP accounts
+ * and an opaque sync token for other providers
+ */
+export async function createSyncStateTable() {
+  try {
+    console.log('[migration] Starting sync state migration');
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS email_sync_state (
+        id SERIAL PRIMARY KEY,
+        account_id INTEGER NOT NULL REFERENCES email_accounts(id) ON DELETE CASCADE,
+        folder TEXT NOT NULL,
+        uid_validity BIGINT,
+        last_uid BIGINT NOT NULL DEFAULT 0,
+        highest_modseq TEXT,
+        sync_token TEXT,
+        last_synced_at TIMESTAMP,
+        backfill_completed_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      );
+
+      CREATE UNIQUE INDEX IF NOT EXISTS email_sync_state_account_folder_idx
+        ON email_sync_state (account_id, folder);
+    `);
+
+    // Opaque provider cursor (EWS SyncState) for accounts that don't sync over IMAP
+    await db.execute(sql`
+      ALTER TABLE email_sync_state ADD COLUMN IF NOT EXISTS sync_token TEXT;
+    `);
+
+    // Messages that couldn't be parsed, fetched again on the next sync
+    await db.execute(sql`
+      ALTER TABLE email_sync_state ADD COLUMN IF NOT EXISTS failed_uids JSONB NOT NULL DEFAULT '[]'::jsonb;
+    `);
+
+    console.log('[migration] Sync state migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during sync state migration:', error);
+    return false;
+  }
+}
@@ -0,0 +1,41 @@
+import { db } from '../db';
+import { sql } from 'drizzle-orm';
+
+/**
+ * Adds the In-Reply-To and References columns used for header-based threading,
+ * filling them for Exchange mail from the headers kept in metadata
+ */
+export async function addThreadingColumns() {
+  try {
+    console.log('[migration] Starting threading migration');
+
+    await db.execute(sql`
+      ALTER TABLE emails ADD COLUMN IF NOT EXISTS in_reply_to TEXT;
+      ALTER TABLE emails ADD COLUMN IF NOT EXISTS message_references TEXT[];
+
+      CREATE INDEX IF NOT EXISTS emails_thread_id_idx ON emails (thread_id);
+      CREATE INDEX IF NOT EXISTS emails_account_message_id_idx ON emails (account_id, message_id);
+      CREATE INDEX IF NOT EXISTS emails_in_reply_to_idx ON emails (in_reply_to);
+      CREATE INDEX IF NOT EXISTS emails_message_references_idx ON emails USING GIN (message_references);
+    `);
+
+    // EWS ingestion kept the raw In-Reply-To and References values in metadata
+    await db.execute(sql`
+      UPDATE emails
+      SET in_reply_to = substring(metadata->>'inReplyTo' from '<[^<>[:space:]]+>')
+      WHERE in_reply_to IS NULL AND metadata->>'inReplyTo' IS NOT NULL;
+
+      UPDATE emails
+      SET message_references = ARRAY(
+        SELECT m[1] FROM regexp_matches(metadata->>'references', '(<[^<>[:space:]]+>)', 'g') AS m
+      )
+      WHERE message_references IS NULL AND metadata->>'references' IS NOT NULL;
+    `);
+
+    console.log('[migration] Threading migration completed successfully');
+    return true;
+  } catch (error) {
+    console.error('[migration] Error during threading migration:', error);
+    return false;
+  }
+}
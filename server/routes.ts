@@ -2,15 +2,21 @@ import express, { type Express, Request, Response, NextFunction } from "express"
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { z } from "zod";
-import { insertUserSchema, insertEmailAccountSchema, insertTaskSchema, emails, tasks } from "@shared/schema";
+import { insertUserSchema, insertEmailAccountSchema, insertTaskSchema, emails, emailAccounts, tasks } from "@shared/schema";
 import { emailService, gmailService, realTimeEmailService, aiService, aiModelService, emailChainService, adaptationLearningService } from "./services";
 import { db } from "./db";
-import { sql, desc, eq, and, or, like } from "drizzle-orm";
+import { sql, desc, eq, and, or, like, inArray, isNull } from "drizzle-orm";
 import { pool } from "./db";
 import { log } from "./vite";
 import testRoutes from "./routes/test";
+import authRoutes from './routes/auth';
+import oauthRoutes from './routes/oauth';
+import apiTokensRoutes from './routes/apiTokens';
 import emailAccountsRoutes from './routes/emailAccounts';
 import emailsRoutes from './routes/emails';
+import threadsRoutes from './routes/threads';
+import draftsRoutes from './routes/drafts';
+import jobsRoutes from './routes/jobs';
 import tasksRoutes from './routes/tasks';
 import statsRoutes from './routes/stats';
 import webhookRoutes from './routes/webhook';
@@ -21,12 +27,10 @@ import adaptationLearningRoutes from './routes/adaptationLearning';
 import globalSearchRoutes from './routes/global-search';
 import simpleWorkingSearchRoutes from './routes/simple-working-search';
 import testEmailRelationshipsRoutes from './routes/test-email-relationships';
-import fixEmbeddingsRoutes from './routes/fix-embeddings';
 import testEndpointsRoutes from './routes/test-endpoints';
 import typoTolerantSearchRoutes from './routes/typo-tolerant-search';
 import embeddingRoutes from './routes/embedding';
 import analyticsRoutes from './routes/analytics';
-import testVectorRouter from './routes/test-vector';
 import testTaskEmbeddingsRoutes from './routes/test-task-embeddings';
 import ollamaTestRoutes from './routes/ollama-test';
 import fixApiKeyRoutes from './routes/fix-api-key';
@@ -41,6 +45,7 @@ import cleanEmailsApiRoutes from './routes/clean-emails-api';
 import enhancedTaskExtractionRoutes from './routes/enhanced-task-extraction';
 import enhancedBatchProcessingRoutes from './routes/enhanced-batch-processing';
 import { createVectorIndexes } from './migrations/vector_indexes';
+import { authenticateApiToken, requireApiAuth } from './middleware/auth';
 
 // Helper function for task extraction explanation
 function generateTaskExtractionExplanation(subject: string, sender: string, classification: string[], isNonActionable: boolean): string {
@@ -55,17 +60,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create API router
   const apiRouter = express.Router();
   
+  // Requests with a personal API token are signed in as its owner, within the token's scopes
+  app.use("/api", authenticateApiToken);
+  
+  // Every API endpoint except sign-in, the health check and provider webhooks needs a signed-in user
+  app.use("/api", requireApiAuth);
+  
   // Apply API routes to the /api path prefix
   app.use("/api", apiRouter);
   
   // Register all routes
   
+  // Register authentication routes for sign-in, password resets and two-factor setup
+  apiRouter.use('/auth', authRoutes);
+  
+  // Register personal API token routes for scripts and integrations
+  apiRouter.use('/tokens', apiTokensRoutes);
+  
+  // Register OAuth routes for connecting Gmail and Microsoft 365 accounts
+  apiRouter.use('/oauth', oauthRoutes);
+  
   // Register email accounts routes
   apiRouter.use('/email-accounts', emailAccountsRoutes);
   
   // Register emails routes for all email operations
   apiRouter.use('/emails', emailsRoutes);
   
+  // Register thread routes for conversation views
+  apiRouter.use('/threads', threadsRoutes);
+  
+  // Register draft routes for composing and sending mail
+  apiRouter.use('/drafts', draftsRoutes);
+  
+  // Register job routes for inspecting and managing the background job queue
+  apiRouter.use('/jobs', jobsRoutes);
+  
   // Register tasks routes for all task operations
   apiRouter.use('/tasks', tasksRoutes);
   
@@ -93,9 +122,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register adaptation learning routes
   apiRouter.use('/adaptation', adaptationLearningRoutes);
   
-  // Register fix-embeddings routes for fixing vector database issues
-  apiRouter.use('/fix-embeddings', fixEmbeddingsRoutes);
-  
   // Register fix-api-key routes for API key validation workarounds
   apiRouter.use('/fix-api-key', fixApiKeyRoutes);
   
@@ -114,9 +140,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Register analytics routes for business intelligence insights
   apiRouter.use('/analytics', analyticsRoutes);
   
-  // Register test-vector routes for vector embedding testing
-  apiRouter.use('/test-vector', testVectorRouter);
-  
   // Register Ollama test routes for local LLM integration
   apiRouter.use('/ollama', ollamaTestRoutes);
 
@@ -171,11 +194,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const result = await pool.query(`
         SELECT id, title, description, priority, status, due_date as "dueDate", created_at as "createdAt"
         FROM tasks 
-        WHERE user_id = 1
+        WHERE user_id = $2
         AND (title ILIKE $1 OR description ILIKE $1)
         ORDER BY created_at DESC 
         LIMIT 20
-      `, [searchPattern]);
+      `, [searchPattern, req.session.user!.id]);
       
       console.log(`✅ WORKING TASK RESULTS: Found ${result.rows.length} tasks for "${query}"`);
       return res.json(result.rows);
@@ -199,11 +222,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         SELECT e.id, e.subject, e.sender, e.timestamp as "date"
         FROM emails e
         JOIN email_accounts ea ON e.account_id = ea.id
-        WHERE ea.user_id = 1
+        WHERE ea.user_id = $2
         AND (e.subject ILIKE $1 OR e.sender ILIKE $1 OR e.body ILIKE $1)
         ORDER BY e.timestamp DESC 
         LIMIT 20
-      `, [searchPattern]);
+      `, [searchPattern, req.session.user!.id]);
       
       console.log(`✅ WORKING EMAIL RESULTS: Found ${result.rows.length} emails for "${query}"`);
       return res.json(result.rows);
@@ -228,11 +251,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const result = await pool.query(`
         SELECT id, title, description, priority, status, due_date as "dueDate", created_at as "createdAt"
         FROM tasks 
-        WHERE user_id = 1
+        WHERE user_id = $2
         AND (title ILIKE $1 OR description ILIKE $1)
         ORDER BY created_at DESC 
         LIMIT 20
-      `, [searchPattern]);
+      `, [searchPattern, req.session.user!.id]);
       
       console.log(`✅ CLEAN TASK RESULTS: Found ${result.rows.length} tasks for "${query}"`);
       return res.json(result.rows);
@@ -257,11 +280,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         SELECT e.id, e.subject, e.sender, e.timestamp as "date"
         FROM emails e
         JOIN email_accounts ea ON e.account_id = ea.id
-        WHERE ea.user_id = 1
+        WHERE ea.user_id = $2
         AND (e.subject ILIKE $1 OR e.sender ILIKE $1 OR e.body ILIKE $1)
         ORDER BY e.timestamp DESC 
         LIMIT 20
-      `, [searchPattern]);
+      `, [searchPattern, req.session.user!.id]);
       
       console.log(`✅ CLEAN EMAIL RESULTS: Found ${result.rows.length} emails for "${query}"`);
       return res.json(result.rows);
@@ -289,10 +312,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const result = await pool.query(`
         SELECT e.id, e.subject, e.sender, e.timestamp as date
         FROM emails e
-        WHERE e.subject ILIKE $1 OR e.body ILIKE $1 OR e.sender ILIKE $1
+        JOIN email_accounts ea ON e.account_id = ea.id
+        WHERE ea.user_id = $2
+        AND (e.subject ILIKE $1 OR e.body ILIKE $1 OR e.sender ILIKE $1)
         ORDER BY e.timestamp DESC 
         LIMIT 20
-      `, [pattern]);
+      `, [pattern, req.session.user!.id]);
 
       console.log(`EMAIL SEARCH FOUND: ${result.rows.length} results for "${query}"`);
       res.json(result.rows);
@@ -316,10 +341,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const result = await pool.query(`
         SELECT t.id, t.title, t.description, t.priority, t.status, t.due_date as "dueDate"
         FROM tasks t
-        WHERE t.title ILIKE $1 OR t.description ILIKE $1
+        WHERE t.user_id = $2
+        AND (t.title ILIKE $1 OR t.description ILIKE $1)
         ORDER BY t.created_at DESC 
         LIMIT 20
-      `, [pattern]);
+      `, [pattern, req.session.user!.id]);
 
       console.log(`TASK SEARCH FOUND: ${result.rows.length} results for "${query}"`);
       res.json(result.rows);
@@ -332,7 +358,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   apiRouter.get('/search/tasks', async (req: Request, res: Response) => {
     try {
       const query = req.query.query as string;
-      const userId = parseInt(req.query.userId as string) || 1;
+      const userId = req.session.user!.id;
       
       if (!query || query.length < 2) {
         return res.json([]);
@@ -508,8 +534,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid email ID" });
       }
       
+      const userId = req.session.user!.id;
+      if (!(await storage.getEmail(userId, emailId))) {
+        return res.status(404).json({ error: "Email not found" });
+      }
+      
       // Get detailed related emails with relationship information
-      const relatedEmails = await emailChainService.findRelatedEmails(emailId);
+      const relatedEmails = await emailChainService.findRelatedEmails(userId, emailId);
       
       return res.json({
         relatedEmails,
@@ -526,28 +557,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Route to update email relationships
+  // Route to update email relationships in the user's accounts, or in one of them
   apiRouter.post("/emails/update-relationships", async (req: Request, res: Response) => {
     try {
+      const userId = req.session.user!.id;
       const { accountId, limit = 100, recentOnly = true } = req.body;
       
-      console.log(`Starting email relationship update: accountId=${accountId || 'all'}, limit=${limit}, recentOnly=${recentOnly}`);
+      if (accountId && !(await storage.getEmailAccount(userId, parseInt(accountId, 10)))) {
+        return res.status(404).json({ error: "Account not found" });
+      }
+      
+      const accountIds = accountId
+        ? [parseInt(accountId, 10)]
+        : (await storage.getEmailAccounts(userId)).map(account => account.id);
+      
+      console.log(`Starting email relationship update: accounts=${accountIds.join(',')}, limit=${limit}, recentOnly=${recentOnly}`);
       
       // Get stats before updating
-      const statsBefore = await emailChainService.getRelationshipStats();
+      const statsBefore = await emailChainService.getRelationshipStats(userId);
       console.log("Relationship stats before update:", statsBefore);
       
       // Process email relationships
-      const relationshipsCount = await emailChainService.updateEmailRelationships(
-        accountId ? parseInt(accountId, 10) : undefined,
-        limit,
-        recentOnly
-      );
+      let relationshipsCount = 0;
+      for (const id of accountIds) {
+        relationshipsCount += await emailChainService.updateEmailRelationships(id, limit, recentOnly);
+      }
       
       console.log(`Completed email relationship update. Added ${relationshipsCount} relationships.`);
       
       // Get stats about relationships after update
-      const statsAfter = await emailChainService.getRelationshipStats();
+      const statsAfter = await emailChainService.getRelationshipStats(userId);
       
       return res.json({
         success: true,
@@ -703,19 +742,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log("Task extraction request received:", { limit, daysBack, unprocessedOnly });
       
-      // Get emails to process
-      let query = db.select().from(emails);
+      const userId = req.session.user!.id;
+      
+      // Get the user's emails to process
+      const conditions = [
+        inArray(emails.accountId, db.select({ id: emailAccounts.id }).from(emailAccounts).where(eq(emailAccounts.userId, userId)))
+      ];
       
       if (unprocessedOnly) {
-        query = query.where(isNull(emails.processedForTasks));
+        conditions.push(isNull(emails.processedForTasks));
       }
       
       if (daysBack) {
         const cutoffDate = new Date();
         cutoffDate.setDate(cutoffDate.getDate() - parseInt(daysBack.toString()));
-        query = query.where(sql`${emails.timestamp} >= ${cutoffDate.toISOString()}`);
+        conditions.push(sql`${emails.timestamp} >= ${cutoffDate.toISOString()}`);
       }
       
+      const query = db.select().from(emails).where(and(...conditions));
+      
       const recentEmails = await query
         .orderBy(desc(emails.timestamp))
         .limit(parseInt(limit.toString()));
@@ -737,7 +782,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Create a sample task for demonstration
         if (email.subject) {
           const result = await db.insert(tasks).values({
-            userId: 1,
+            userId,
             emailId: email.id,
             title: `Task from: ${email.subject.substring(0, 50)}${email.subject.length > 50 ? '...' : ''}`,
             description: `This task was extracted from email sent by ${email.sender || 'unknown'}.`,
@@ -27,6 +27,9 @@ router.post('/process-feedback/:userId', async (req: Request, res: Response) =>
     
     if (isNaN(userId)) {
       return res.status(400).json({ error: 'Invalid user ID' });
+    }    
+    if (userId !== req.session.user!.id) {
+      return res.status(403).json({ error: 'Not allowed for another user' });
     }
     
     const result = await adaptationLearningService.processUserFeedback(userId);
@@ -46,6 +49,9 @@ router.get('/suggested-rules/:userId', async (req: Request, res: Response) => {
     
     if (isNaN(userId)) {
       return res.status(400).json({ error: 'Invalid user ID' });
+    }    
+    if (userId !== req.session.user!.id) {
+      return res.status(403).json({ error: 'Not allowed for another user' });
     }
     
     const rules = await adaptationLearningService.getSuggestedRules(userId);
@@ -72,7 +78,10 @@ router.put('/rule/:ruleId', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid status. Must be "accepted" or "declined"' });
     }
     
-    const result = await adaptationLearningService.updateRuleStatus(ruleId, status);
+    const result = await adaptationLearningService.updateRuleStatus(req.session.user!.id, ruleId, status);
+    if (!result) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
     return res.status(200).json({ success: result });
   } catch (error) {
     log(`Error updating rule status: ${error.message}`, "error");
@@ -89,6 +98,9 @@ router.post('/reset-profile/:userId', async (req: Request, res: Response) => {
     
     if (isNaN(userId)) {
       return res.status(400).json({ error: 'Invalid user ID' });
+    }    
+    if (userId !== req.session.user!.id) {
+      return res.status(403).json({ error: 'Not allowed for another user' });
     }
     
     const result = await adaptationLearningService.resetUserProfile(userId);
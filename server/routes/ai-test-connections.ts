@@ -1,6 +1,6 @@
 import { Request, Response } from "express";
 import { AiService } from "../services/aiService";
-import { AiModelService } from "../services/aiModelService";
+import { storage } from "../storage";
 import { OpenAI } from "openai";
 import { Anthropic } from "@anthropic-ai/sdk";
 
@@ -12,11 +12,10 @@ import { Anthropic } from "@anthropic-ai/sdk";
 export async function testAllConnections(req: Request, res: Response) {
   const results = [];
   const aiService = new AiService();
-  const aiModelService = new AiModelService();
   
   try {
     // Get current AI settings
-    const settings = await aiModelService.getAiSettings(1); // Default user ID 1
+    const settings = await storage.getAiSettings(req.session.user!.id);
     
     if (!settings) {
       return res.status(500).json({
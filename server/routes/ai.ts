@@ -1,9 +1,17 @@
 import { Request, Response, Router } from 'express';
+import { z } from 'zod';
 import { db } from '../db';
-import { aiSettings, aiModels, emails, emailAccounts } from '../../shared/schema';
+import { aiModels, emails, emailAccounts } from '../../shared/schema';
 import { eq, desc, ne, sql, exists, and, or, ilike } from 'drizzle-orm';
+import { inUserAccounts, storage } from '../storage';
+import { AiApiKeyField, maskAiApiKeys } from '../utils/aiApiKeys';
+import { isMaskedSecret } from '../utils/encryption';
 import { OpenAI } from 'openai';
 import { Anthropic } from '@anthropic-ai/sdk';
+import { aiService } from '../services/aiService';
+import { llmService } from '../services/llmService';
+import { promptService } from '../services/promptService';
+import { usageService } from '../services/usageService';
 
 // Create AI router
 const aiRouter = Router();
@@ -41,15 +49,14 @@ aiRouter.get('/models', async (req: Request, res: Response) => {
 // AI Settings endpoint
 aiRouter.get('/settings', async (req: Request, res: Response) => {
   try {
-    // Using a hardcoded userId=1 for demo purposes
-    const userId = 1;
-    const settings = await db.select().from(aiSettings).where(eq(aiSettings.userId, userId)).limit(1);
+    const userId = req.session.user!.id;
+    const settings = await storage.getAiSettings(userId);
     
-    if (!settings || settings.length === 0) {
+    if (!settings) {
       // Create default settings if none exist
       const defaultSettings = {
         userId,
-        selectedProvider: 'openai',
+        selectedProvider: 'openai' as const,
         selectedModelId: 1, // Default to GPT-4o
         openaiApiKey: process.env.OPENAI_API_KEY || '',
         anthropicApiKey: '',
@@ -59,18 +66,18 @@ aiRouter.get('/settings', async (req: Request, res: Response) => {
         confidenceThreshold: 70
       };
       
-      const [newSettings] = await db.insert(aiSettings).values(defaultSettings).returning();
+      const newSettings = await storage.updateAiSettings(userId, defaultSettings);
       
       return res.json({ 
         success: true, 
-        data: newSettings,
+        data: maskAiApiKeys(newSettings),
         message: 'Default AI settings created'
       });
     }
     
     return res.json({ 
       success: true, 
-      data: settings[0],
+      data: maskAiApiKeys(settings),
       message: 'AI settings retrieved successfully'
     });
   } catch (error) {
@@ -85,7 +92,7 @@ aiRouter.get('/settings', async (req: Request, res: Response) => {
 // Update AI Settings endpoint
 aiRouter.put('/settings', async (req: Request, res: Response) => {
   try {
-    const userId = 1; // Hardcoded for demo
+    const userId = req.session.user!.id;
     const {
       selectedProvider,
       selectedModelId,
@@ -94,9 +101,19 @@ aiRouter.put('/settings', async (req: Request, res: Response) => {
       perplexityApiKey,
       ollamaEndpoint,
       autoExtractTasks,
-      confidenceThreshold
+      confidenceThreshold,
+      monthlyBudgetUsd
     } = req.body;
     
+    // A budget in USD, or null for no budget
+    if (monthlyBudgetUsd !== undefined && monthlyBudgetUsd !== null &&
+        (typeof monthlyBudgetUsd !== 'number' || !Number.isFinite(monthlyBudgetUsd) || monthlyBudgetUsd < 0)) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'The monthly budget must be a number of dollars, 0 or more'
+      });
+    }
+    
     // Update only the provided fields
     const updateData: any = {};
     if (selectedProvider !== undefined) updateData.selectedProvider = selectedProvider;
@@ -107,26 +124,21 @@ aiRouter.put('/settings', async (req: Request, res: Response) => {
     if (ollamaEndpoint !== undefined) updateData.ollamaEndpoint = ollamaEndpoint;
     if (autoExtractTasks !== undefined) updateData.autoExtractTasks = autoExtractTasks;
     if (confidenceThreshold !== undefined) updateData.confidenceThreshold = confidenceThreshold;
+    if (monthlyBudgetUsd !== undefined) updateData.monthlyBudgetUsd = monthlyBudgetUsd;
     
-    // Add updatedAt timestamp
-    updateData.updatedAt = new Date();
-    
-    const [updatedSettings] = await db
-      .update(aiSettings)
-      .set(updateData)
-      .where(eq(aiSettings.userId, userId))
-      .returning();
-    
-    if (!updatedSettings) {
+    if (!await storage.getAiSettings(userId)) {
       return res.status(404).json({ 
         success: false, 
         message: 'AI settings not found'
       });
     }
     
+    // Keys are encrypted on write; masked keys echoed back by the client are left unchanged
+    const updatedSettings = await storage.updateAiSettings(userId, updateData);
+    
     return res.json({ 
       success: true, 
-      data: updatedSettings,
+      data: maskAiApiKeys(updatedSettings),
       message: 'AI settings updated successfully'
     });
   } catch (error) {
@@ -138,6 +150,179 @@ aiRouter.put('/settings', async (req: Request, res: Response) => {
   }
 });
 
+const promptOverrideSchema = z.object({
+  systemTemplate: z.string().max(20000).nullable().default(null),
+  userTemplate: z.string().trim().min(1, 'The user prompt is required').max(20000),
+  notes: z.string().max(500).nullish()
+});
+
+// The prompt templates, with the defaults and the user's overrides
+aiRouter.get('/prompts', async (req: Request, res: Response) => {
+  try {
+    return res.json({ 
+      success: true, 
+      data: await promptService.list(req.session.user!.id)
+    });
+  } catch (error) {
+    console.error('Error fetching prompt templates:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Failed to retrieve prompt templates'
+    });
+  }
+});
+
+// Every version of a prompt the user can see, newest first
+aiRouter.get('/prompts/:name/versions', async (req: Request, res: Response) => {
+  try {
+    const versions = await promptService.history(req.session.user!.id, req.params.name);
+    
+    if (!versions) {
+      return res.status(404).json({ 
+        success: false, 
+        message: 'Prompt template not found'
+      });
+    }
+    
+    return res.json({ 
+      success: true, 
+      data: versions
+    });
+  } catch (error) {
+    console.error('Error fetching prompt versions:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Failed to retrieve prompt versions'
+    });
+  }
+});
+
+// Save the user's own version of a prompt
+aiRouter.put('/prompts/:name', async (req: Request, res: Response) => {
+  try {
+    const fields = promptOverrideSchema.safeParse(req.body);
+    if (!fields.success) {
+      return res.status(400).json({ 
+        success: false, 
+        message: fields.error.errors[0].message
+      });
+    }
+    
+    const saved = await promptService.saveOverride(req.session.user!.id, req.params.name, fields.data);
+    
+    if (!saved) {
+      return res.status(404).json({ 
+        success: false, 
+        message: 'Prompt template not found'
+      });
+    }
+    
+    if (!saved.version) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'The prompt has problems',
+        problems: saved.problems
+      });
+    }
+    
+    return res.json({ 
+      success: true, 
+      data: saved.version,
+      message: `Saved as version ${saved.version.version}`
+    });
+  } catch (error) {
+    console.error('Error saving prompt override:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Failed to save prompt'
+    });
+  }
+});
+
+// Go back to the default version of a prompt
+aiRouter.delete('/prompts/:name', async (req: Request, res: Response) => {
+  try {
+    const reset = await promptService.resetOverride(req.session.user!.id, req.params.name);
+    
+    return res.json({ 
+      success: true, 
+      message: reset ? 'Using the default prompt again' : 'Already using the default prompt'
+    });
+  } catch (error) {
+    console.error('Error resetting prompt override:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Failed to reset prompt'
+    });
+  }
+});
+
+// Summarize an email and keep the summary on it
+aiRouter.post('/emails/:id/summary', async (req: Request, res: Response) => {
+  try {
+    const emailId = parseInt(req.params.id);
+    const email = await storage.getEmail(req.session.user!.id, emailId);
+    
+    if (!email) {
+      return res.status(404).json({ 
+        success: false, 
+        message: 'Email not found'
+      });
+    }
+    
+    const { summary, promptVersionId } = await aiService.summarizeEmail(emailId);
+    
+    return res.json({ 
+      success: true, 
+      data: { summary, promptVersionId }
+    });
+  } catch (error) {
+    console.error('Error summarizing email:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Failed to summarize email'
+    });
+  }
+});
+
+// Model outputs that failed schema validation, newest first
+aiRouter.get('/rejected-outputs', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const rejected = await llmService.getRejectedOutputs(req.session.user!.id, limit);
+    
+    return res.json({ 
+      success: true, 
+      data: rejected
+    });
+  } catch (error) {
+    console.error('Error fetching rejected AI outputs:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Failed to retrieve rejected AI outputs'
+    });
+  }
+});
+
+// The user's AI usage and cost over the last `days` days, with their monthly budget
+aiRouter.get('/usage', async (req: Request, res: Response) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+    const report = await usageService.getReport(req.session.user!.id, days);
+    
+    return res.json({ 
+      success: true, 
+      data: report
+    });
+  } catch (error) {
+    console.error('Error fetching AI usage:', error);
+    return res.status(500).json({ 
+      success: false, 
+      message: 'Failed to retrieve AI usage'
+    });
+  }
+});
+
 // Task Extraction Analysis endpoint
 aiRouter.post('/task-extraction', async (req: Request, res: Response) => {
   try {
@@ -148,9 +333,10 @@ aiRouter.post('/task-extraction', async (req: Request, res: Response) => {
     const recentEmails = await db
       .select()
       .from(emails)
-      .where(
+      .where(and(
+        inUserAccounts(req.session.user!.id),
         ne(emails.subject, '') // Exclude empty subjects
-      )
+      ))
       .orderBy(desc(emails.timestamp))
       .limit(50); // Get more than we need to find variety
     
@@ -179,7 +365,7 @@ aiRouter.post('/task-extraction', async (req: Request, res: Response) => {
     console.log(`Analyzing ${uniqueSubjectEmails.length} emails for task extraction`);
     
     // Get the current AI settings to use the appropriate model
-    const [settings] = await db.select().from(aiSettings).where(eq(aiSettings.userId, 1)).limit(1);
+    const settings = await storage.getAiSettings(req.session.user!.id);
     
     if (!settings) {
       return res.status(500).json({
@@ -188,11 +374,6 @@ aiRouter.post('/task-extraction', async (req: Request, res: Response) => {
       });
     }
     
-    // Initialize OpenAI client with the API key from settings
-    const openai = new OpenAI({ 
-      apiKey: settings.openaiApiKey || process.env.OPENAI_API_KEY 
-    });
-    
     // Process each email
     const results = [];
     
@@ -368,7 +549,14 @@ aiRouter.post('/task-extraction', async (req: Request, res: Response) => {
 
 // Test OpenAI API Key
 aiRouter.post('/test-api-key', async (req: Request, res: Response) => {
-  const { provider, apiKey } = req.body;
+  const { provider } = req.body;
+  let { apiKey } = req.body;
+  
+  // A masked key means the one already saved for this provider
+  if (isMaskedSecret(apiKey)) {
+    const settings = await storage.getAiSettings(req.session.user!.id).catch(() => undefined);
+    apiKey = settings?.[`${provider}ApiKey` as AiApiKeyField];
+  }
   
   if (!provider || !apiKey) {
     return res.status(400).json({
@@ -674,32 +862,19 @@ aiRouter.post('/ask', async (req: Request, res: Response) => {
       });
     }
 
-    // Get user's AI settings
-    const userId = 1;
-    const settings = await db.select().from(aiSettings).where(eq(aiSettings.userId, userId)).limit(1);
-    const userSettings = settings[0];
+    const userId = req.session.user!.id;
     
     // Use text search to find relevant emails (bypassing vector embedding issues)
     console.log(`Using text search for question: "${question}"`);
     
-    // Initialize OpenAI client for response generation
-    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-    
     // Try vector search first, fall back to text search if needed
     let emailResults;
     
     try {
       // Generate embedding for the question to enable semantic search
-      const embeddingResponse = await openai.embeddings.create({
-        input: question,
-        model: "text-embedding-ada-002"
-      });
-      
-      const questionEmbedding = embeddingResponse.data[0].embedding;
-      
-      // Convert 1536-dim OpenAI embedding to 768-dim for database compatibility
-      const convertedEmbedding = questionEmbedding.slice(0, 768);
-      const embeddingString = `[${convertedEmbedding.join(',')}]`;
+      // Same model and 768-dim fitting as the stored email embeddings
+      const questionEmbedding = await aiService.generateEmbedding(question, { userId, feature: 'email-question' });
+      const embeddingString = `[${questionEmbedding.join(',')}]`;
       
       console.log(`Using vector search for question: "${question}"`);
       
@@ -806,15 +981,15 @@ aiRouter.post('/ask', async (req: Request, res: Response) => {
         
         ${context}`;
 
-        // Use user's configured AI model dynamically
-        const { dynamicAiService } = await import('../services/dynamicAiService');
-        
-        const response = await dynamicAiService.generateCompletion(userId, [
-          { role: "user", content: analysisPrompt }
-        ], {
-          systemPrompt: "You are a helpful assistant analyzing email content. Always try to provide useful information based on the available emails, even if you can't answer the exact question.",
+        // Use user's configured AI model
+        const response = await llmService.chat(userId, {
+          messages: [
+            { role: "system", content: "You are a helpful assistant analyzing email content. Always try to provide useful information based on the available emails, even if you can't answer the exact question." },
+            { role: "user", content: analysisPrompt }
+          ],
           maxTokens: 1000,
-          temperature: 0.3
+          temperature: 0.3,
+          feature: 'email-question'
         });
         
         console.log(`🤖 Email AI response using: ${response.provider} - ${response.model}`);
@@ -851,16 +1026,14 @@ aiRouter.post('/ask', async (req: Request, res: Response) => {
       context += `Body: ${truncatedBody}\n\n`;
     });
     
-    // Use user's configured AI model dynamically
+    // Use user's configured AI model
     try {
-      const { dynamicAiService } = await import('../services/dynamicAiService');
-      
-      const aiResponse = await dynamicAiService.generateCompletion(userId, [
-        { role: "user", content: context + "\n\nQuestion: " + question }
-      ], {
-        systemPrompt: "You are an email assistant. Answer questions based ONLY on the provided email context. Be concise and specific.",
+      const prompt = await promptService.render(userId, 'email-question', { context, question });
+      const aiResponse = await llmService.chat(userId, {
+        messages: prompt.messages,
         maxTokens: 1024,
-        temperature: 0.7
+        temperature: 0.7,
+        feature: 'email-question'
       });
       
       console.log(`🤖 Email AI using: ${aiResponse.provider} - ${aiResponse.model} for user ${userId}`);
@@ -875,10 +1048,11 @@ aiRouter.post('/ask', async (req: Request, res: Response) => {
           date: email.timestamp
         })),
         model: aiResponse.model,
-        provider: aiResponse.provider
+        provider: aiResponse.provider,
+        promptVersionId: prompt.promptVersionId
       });
     } catch (aiError) {
-      console.error('Error with dynamic AI service:', aiError);
+      console.error('Error generating AI response:', aiError);
       return res.status(500).json({
         success: false,
         message: 'Failed to generate AI response using configured model'
@@ -2,18 +2,11 @@ import { Router, Request, Response } from 'express';
 import { db } from '../db';
 import { emails, tasks } from '@shared/schema';
 import { sql, and, eq, count, desc, gt } from 'drizzle-orm';
-import OpenAI from 'openai';
+import { llmService } from '../services/llmService';
+import { businessInsightsSchema, emailAnalyticsSchema, emailTrendsSchema, topicAnalysisSchema } from '../services/llmSchemas';
 
 const router = Router();
 
-// Initialize OpenAI with the API key from environment variables
-let openai: OpenAI;
-try {
-  openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-} catch (error) {
-  console.error('Error initializing OpenAI:', error);
-}
-
 /**
  * Get email analytics data including:
  * - Volume statistics
@@ -24,14 +17,8 @@ try {
  */
 router.get('/emails', async (req: Request, res: Response) => {
   try {
-    // Get the authenticated user ID from the request session
-    // For now, we're using the userId from query params, but in production
-    // this should come from the authenticated session
-    const { timeRange = 'month', userId } = req.query;
-    
-    if (!userId) {
-      return res.status(400).json({ error: 'userId is required' });
-    }
+    const { timeRange = 'month' } = req.query;
+    const userId = req.session.user!.id;
     
     // Calculate the start date based on the time range
     const startDate = getStartDateFromRange(timeRange as string);
@@ -156,11 +143,11 @@ router.get('/emails', async (req: Request, res: Response) => {
     if (topicDistribution.rows.length < 3 || sentimentByCategory.rows.length < 2) {
       console.log('Insufficient pre-processed AI data in database, using complete AI analysis');
       // Fallback to AI analysis for everything
-      complexAnalytics = await analyzeEmailsWithAI(sampleEmails);
+      complexAnalytics = await analyzeEmailsWithAI(sampleEmails, userId);
     } else {
       console.log('Using pre-processed AI data from database, only getting trends from AI');
       // Just get trending phrases and request types from AI
-      complexAnalytics = await analyzeEmailsForTrends(sampleEmails);
+      complexAnalytics = await analyzeEmailsForTrends(sampleEmails, userId);
     }
     
     // If AI analysis fails or returns empty data, indicate that in the response
@@ -213,7 +200,8 @@ router.get('/emails', async (req: Request, res: Response) => {
 // Drill-down endpoint to get raw data behind analytics
 router.get('/analytics/drilldown', async (req: Request, res: Response) => {
   try {
-    const { userId = 1, category, type, timeRange = 'month' } = req.query;
+    const { category, type, timeRange = 'month' } = req.query;
+    const userId = req.session.user!.id;
     
     // Calculate date range
     const now = new Date();
@@ -244,13 +232,15 @@ router.get('/analytics/drilldown', async (req: Request, res: Response) => {
             sender ILIKE ANY($2)
           )
           AND created_at >= $3
+          AND account_id IN (SELECT id FROM email_accounts WHERE user_id = $4)
           ORDER BY created_at DESC 
           LIMIT 100
         `;
         params = [
           '%security%',
           ['%fortinet%', '%kaspersky%', '%proofpoint%', '%adguard%'],
-          startDate.toISOString()
+          startDate.toISOString(),
+          userId
         ];
       } else {
         // For other topics, search by keyword
@@ -262,10 +252,12 @@ router.get('/analytics/drilldown', async (req: Request, res: Response) => {
           FROM emails 
           WHERE (subject ILIKE $1 OR body ILIKE $1)
           AND created_at >= $2
+        AND account_id IN (SELECT id FROM email_accounts WHERE user_id = $3)
+          AND account_id IN (SELECT id FROM email_accounts WHERE user_id = $3)
           ORDER BY created_at DESC 
           LIMIT 100
         `;
-        params = [`%${category}%`, startDate.toISOString()];
+        params = [`%${category}%`, startDate.toISOString(), userId];
       }
     } else if (type === 'sender' && category) {
       // Get emails from a specific sender
@@ -277,10 +269,11 @@ router.get('/analytics/drilldown', async (req: Request, res: Response) => {
         FROM emails 
         WHERE sender ILIKE $1
         AND created_at >= $2
+        AND account_id IN (SELECT id FROM email_accounts WHERE user_id = $3)
         ORDER BY created_at DESC 
         LIMIT 100
       `;
-      params = [`%${category}%`, startDate.toISOString()];
+      params = [`%${category}%`, startDate.toISOString(), userId];
     } else if (type === 'phrase' && category) {
       // Get emails containing a specific trending phrase
       query = `
@@ -291,10 +284,11 @@ router.get('/analytics/drilldown', async (req: Request, res: Response) => {
         FROM emails 
         WHERE (subject ILIKE $1 OR body ILIKE $1)
         AND created_at >= $2
+        AND account_id IN (SELECT id FROM email_accounts WHERE user_id = $3)
         ORDER BY created_at DESC 
         LIMIT 50
       `;
-      params = [`%${category}%`, startDate.toISOString()];
+      params = [`%${category}%`, startDate.toISOString(), userId];
     } else {
       return res.status(400).json({ error: 'Invalid drill-down parameters' });
     }
@@ -320,11 +314,8 @@ router.get('/analytics/drilldown', async (req: Request, res: Response) => {
  */
 router.get('/emails/spikes', async (req: Request, res: Response) => {
   try {
-    const { timeRange = 'month', userId } = req.query;
-    
-    if (!userId) {
-      return res.status(400).json({ error: 'userId is required' });
-    }
+    const { timeRange = 'month' } = req.query;
+    const userId = req.session.user!.id;
     
     // Calculate the start date based on the time range
     const startDate = getStartDateFromRange(timeRange as string);
@@ -364,11 +355,8 @@ router.get('/emails/spikes', async (req: Request, res: Response) => {
  */
 router.get('/emails/topics', async (req: Request, res: Response) => {
   try {
-    const { timeRange = 'month', userId } = req.query;
-    
-    if (!userId) {
-      return res.status(400).json({ error: 'userId is required' });
-    }
+    const { timeRange = 'month' } = req.query;
+    const userId = req.session.user!.id;
     
     // Calculate the start date based on the time range
     const startDate = getStartDateFromRange(timeRange as string);
@@ -389,7 +377,7 @@ router.get('/emails/topics', async (req: Request, res: Response) => {
     `);
     
     // Perform detailed topic analysis
-    const topicAnalysis = await analyzeTopicsWithAI(sampleEmails);
+    const topicAnalysis = await analyzeTopicsWithAI(sampleEmails, userId);
     
     return res.json({
       timeRange,
@@ -410,11 +398,8 @@ router.get('/emails/topics', async (req: Request, res: Response) => {
  */
 router.get('/emails/business-insights', async (req: Request, res: Response) => {
   try {
-    const { timeRange = 'month', userId } = req.query;
-    
-    if (!userId) {
-      return res.status(400).json({ error: 'userId is required' });
-    }
+    const { timeRange = 'month' } = req.query;
+    const userId = req.session.user!.id;
     
     // Calculate the start date based on the time range
     const startDate = getStartDateFromRange(timeRange as string);
@@ -435,7 +420,7 @@ router.get('/emails/business-insights', async (req: Request, res: Response) => {
     `);
     
     // Extract business intelligence from emails
-    const businessInsights = await extractBusinessInsightsWithAI(sampleEmails);
+    const businessInsights = await extractBusinessInsightsWithAI(sampleEmails, userId);
     
     return res.json({
       timeRange,
@@ -505,14 +490,11 @@ function detectSpikes(dailyCounts: any[]): any[] {
 }
 
 // Helper function for complete email analysis with AI
-async function analyzeEmailsWithAI(emailsResult: any, userId: number = 1): Promise<any> {
+async function analyzeEmailsWithAI(emailsResult: any, userId: number): Promise<any> {
   // Convert query result to array of emails
   const emails = emailsResult.rows || [];
   
   try {
-    // Import dynamic AI service
-    const { dynamicAiService } = await import('../services/dynamicAiService');
-    
     // Prepare email content for analysis
     const emailContent = emails.map(email => 
       `Subject: ${email.subject || 'No Subject'}\nFrom: ${email.sender || 'Unknown'}\nBody: ${email.bodyText?.substring(0, 200) || 'No content'}...`
@@ -539,19 +521,16 @@ async function analyzeEmailsWithAI(emailsResult: any, userId: number = 1): Promi
       ${emailContent}
     `;
     
-    // Use user's configured AI model dynamically
-    const response = await dynamicAiService.generateCompletion(userId, [
-      { role: "user", content: prompt }
-    ], {
-      systemPrompt: "You are an AI assistant specialized in business email analytics.",
-      temperature: 0.5,
-      responseFormat: { type: "json_object" }
-    });
-    
-    console.log(`📊 Analytics generated using: ${response.provider} - ${response.model}`);
+    // Use user's configured AI model
+    const { data: analyticsData, result } = await llmService.chatStructured(userId, {
+      messages: [
+        { role: "system", content: "You are an AI assistant specialized in business email analytics." },
+        { role: "user", content: prompt }
+      ],
+      temperature: 0.5
+    }, { schema: emailAnalyticsSchema, feature: 'email-analytics' });
     
-    // Parse the JSON response
-    const analyticsData = JSON.parse(response.content);
+    console.log(`📊 Analytics generated using: ${result.provider} - ${result.model}`);
     return analyticsData;
     
   } catch (error) {
@@ -568,16 +547,9 @@ async function analyzeEmailsWithAI(emailsResult: any, userId: number = 1): Promi
 
 // Helper function for targeted analysis - only get trending phrases and request types
 // This is more cost-effective when we already have topic and sentiment data
-async function analyzeEmailsForTrends(emailsResult: any): Promise<any> {
+async function analyzeEmailsForTrends(emailsResult: any, userId: number): Promise<any> {
   // Convert query result to array of emails
   const emails = emailsResult.rows || [];
-  if (!openai) {
-    console.log('OpenAI client not initialized, returning empty data');
-    return {
-      trendingPhrases: [],
-      requestTypes: []
-    };
-  }
   
   try {
     // Prepare email content for analysis
@@ -585,7 +557,7 @@ async function analyzeEmailsForTrends(emailsResult: any): Promise<any> {
       `Subject: ${email.subject || 'No Subject'}\nFrom: ${email.sender || 'Unknown'}\nBody: ${email.bodyText?.substring(0, 200) || 'No content'}...`
     ).join('\n\n');
     
-    // Use GPT-4 for targeted analysis - only trends and request types
+    // Targeted analysis - only trends and request types
     const prompt = `
       Analyze the following set of ${emails.length} emails and extract ONLY these two insights:
       1. Trending Keywords: Extract most frequently used important phrases or keywords
@@ -603,18 +575,14 @@ async function analyzeEmailsForTrends(emailsResult: any): Promise<any> {
       ${emailContent}
     `;
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
+    const { data: analyticsData } = await llmService.chatStructured(userId, {
       messages: [
         { role: "system", content: "You are an AI assistant specialized in business email analytics." },
         { role: "user", content: prompt }
       ],
-      temperature: 0.5,
-      response_format: { type: "json_object" }
-    });
+      temperature: 0.5
+    }, { schema: emailTrendsSchema, feature: 'email-trends' });
     
-    // Parse the JSON response
-    const analyticsData = JSON.parse(response.choices[0].message.content);
     return analyticsData;
     
   } catch (error) {
@@ -629,13 +597,9 @@ async function analyzeEmailsForTrends(emailsResult: any): Promise<any> {
 }
 
 // Helper function to analyze topics in more detail
-async function analyzeTopicsWithAI(emailsResult: any): Promise<any> {
+async function analyzeTopicsWithAI(emailsResult: any, userId: number): Promise<any> {
   // Convert query result to array of emails
   const emails = emailsResult.rows || [];
-  if (!openai) {
-    console.log('OpenAI client not initialized, returning mock data');
-    return getMockTopicData();
-  }
   
   try {
     // Prepare email content for analysis
@@ -643,7 +607,7 @@ async function analyzeTopicsWithAI(emailsResult: any): Promise<any> {
       `Subject: ${email.subject || 'No Subject'}\nFrom: ${email.sender || 'Unknown'}\nBody: ${email.bodyText?.substring(0, 200) || 'No content'}...`
     ).join('\n\n');
     
-    // Use GPT-4 to analyze email topics
+    // Analyze email topics
     const prompt = `
       Analyze the following set of ${emails.length} emails and provide detailed topic analysis:
       1. Main Topics: Identify the primary topics discussed
@@ -665,18 +629,14 @@ async function analyzeTopicsWithAI(emailsResult: any): Promise<any> {
       ${emailContent}
     `;
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const { data: topicData } = await llmService.chatStructured(userId, {
       messages: [
         { role: "system", content: "You are an AI assistant specialized in topic analysis of business communications." },
         { role: "user", content: prompt }
       ],
-      temperature: 0.5,
-      response_format: { type: "json_object" }
-    });
+      temperature: 0.5
+    }, { schema: topicAnalysisSchema, feature: 'topic-analysis' });
     
-    // Parse the JSON response
-    const topicData = JSON.parse(response.choices[0].message.content);
     return topicData;
     
   } catch (error) {
@@ -687,13 +647,9 @@ async function analyzeTopicsWithAI(emailsResult: any): Promise<any> {
 }
 
 // Helper function to extract business insights
-async function extractBusinessInsightsWithAI(emailsResult: any): Promise<any> {
+async function extractBusinessInsightsWithAI(emailsResult: any, userId: number): Promise<any> {
   // Convert query result to array of emails
   const emails = emailsResult.rows || [];
-  if (!openai) {
-    console.log('OpenAI client not initialized, returning mock data');
-    return getMockBusinessInsights();
-  }
   
   try {
     // Prepare email content for analysis
@@ -701,7 +657,7 @@ async function extractBusinessInsightsWithAI(emailsResult: any): Promise<any> {
       `Subject: ${email.subject || 'No Subject'}\nFrom: ${email.sender || 'Unknown'}\nBody: ${email.bodyText?.substring(0, 200) || 'No content'}...`
     ).join('\n\n');
     
-    // Use GPT-4 to extract business insights
+    // Extract business insights
     const prompt = `
       You are a business intelligence analyst. Extract valuable business insights from the following ${emails.length} emails.
       Analyze patterns, identify business opportunities, risks, client needs, and team efficiency metrics.
@@ -735,18 +691,14 @@ async function extractBusinessInsightsWithAI(emailsResult: any): Promise<any> {
       ${emailContent}
     `;
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const { data: insightsData } = await llmService.chatStructured(userId, {
       messages: [
         { role: "system", content: "You are an AI assistant specialized in business intelligence and analytics." },
         { role: "user", content: prompt }
       ],
-      temperature: 0.5,
-      response_format: { type: "json_object" }
-    });
+      temperature: 0.5
+    }, { schema: businessInsightsSchema, feature: 'business-insights' });
     
-    // Parse the JSON response
-    const insightsData = JSON.parse(response.choices[0].message.content);
     return insightsData;
     
   } catch (error) {
@@ -0,0 +1,74 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { apiTokenService } from '../services/apiTokenService';
+import { API_TOKEN_SCOPES, API_TOKEN_SCOPE_NAMES, ApiTokenScope } from '../services/apiTokenPolicy';
+
+const router = Router();
+
+// Bounds for the per-token limit a user can choose
+const MAX_RATE_LIMIT_PER_MINUTE = 1000;
+const MAX_EXPIRY_DAYS = 366;
+
+const newTokenSchema = z.object({
+  name: z.string().trim().min(1, 'A name is required').max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPE_NAMES as [ApiTokenScope, ...ApiTokenScope[]])).min(1, 'Choose at least one scope'),
+  // Omit for a token that doesn't expire
+  expiresInDays: z.number().int().min(1).max(MAX_EXPIRY_DAYS).optional().nullable(),
+  rateLimitPerMinute: z.number().int().min(1).max(MAX_RATE_LIMIT_PER_MINUTE).optional()
+});
+
+// The scopes a token can be given, with what each allows
+router.get('/scopes', (req: Request, res: Response) => {
+  res.json(API_TOKEN_SCOPE_NAMES.map(scope => ({ scope, description: API_TOKEN_SCOPES[scope] })));
+});
+
+// The signed-in user's active tokens
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    res.json(await apiTokenService.list(req.session.user!.id));
+  } catch (error) {
+    console.error('Error listing API tokens:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Create a token; the response is the only time the token itself is shown
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const fields = newTokenSchema.safeParse(req.body);
+    if (!fields.success) {
+      return res.status(400).json({ error: fields.error.errors[0].message, details: fields.error.format() });
+    }
+
+    const { name, scopes, expiresInDays, rateLimitPerMinute } = fields.data;
+    const { token, apiToken } = await apiTokenService.create(req.session.user!.id, {
+      name,
+      scopes: Array.from(new Set(scopes)),
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      rateLimitPerMinute
+    });
+
+    res.status(201).json({ ...apiToken, token });
+  } catch (error) {
+    console.error('Error creating API token:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Revoke a token; requests using it are rejected from then on
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const revoked = await apiTokenService.revoke(req.session.user!.id, parseInt(req.params.id));
+
+    if (!revoked) {
+      return res.status(404).json({ error: 'API token not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking API token:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+export default router;
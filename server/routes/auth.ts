@@ -0,0 +1,310 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { authService } from '../services/authService';
+import { LOGIN_FAILURE_LIMITS, LoginAttemptLimiter, MAX_TWO_FACTOR_ATTEMPTS } from '../services/loginPolicy';
+import { requireAuth } from '../middleware/auth';
+import { MIN_PASSWORD_LENGTH } from '../utils/passwords';
+import type { User } from '@shared/schema';
+
+const router = Router();
+
+const loginLimiter = new LoginAttemptLimiter();
+
+// How long after a correct password the TOTP code can still be entered
+const TWO_FACTOR_WINDOW_MS = 5 * 60 * 1000;
+
+const passwordSchema = z.string().min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`).max(200);
+
+const registrationSchema = z.object({
+  username: z.string().trim().min(3).max(50).regex(/^[A-Za-z0-9_.-]+$/, 'Username may only contain letters, digits, dots, dashes and underscores'),
+  email: z.string().trim().email(),
+  password: passwordSchema,
+  fullName: z.string().trim().max(200).optional().nullable()
+});
+
+const loginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1)
+});
+
+const codeSchema = z.object({ code: z.string().trim().min(1) });
+
+/**
+ * Start a new session for the user, so a session id set before sign-in can't be reused
+ */
+function signIn(req: Request, user: User): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate(error => {
+      if (error) {
+        return reject(error);
+      }
+
+      req.session.user = authService.toSessionUser(user);
+      req.session.save(saveError => saveError ? reject(saveError) : resolve());
+    });
+  });
+}
+
+/**
+ * Answer 429 when any of the keys has had too many failed attempts. Returns whether
+ * the request was refused.
+ */
+function refuseIfBlocked(res: Response, checks: [key: string, limit: number][]): boolean {
+  for (const [key, limit] of checks) {
+    const block = loginLimiter.check(key, limit);
+    if (block.blocked) {
+      res.setHeader('Retry-After', Math.max(1, block.retryAfterSeconds));
+      res.status(429).json({ error: 'Too many failed sign-in attempts. Try again later.' });
+      return true;
+    }
+  }
+  return false;
+}
+
+async function currentUser(req: Request): Promise<User | undefined> {
+  return storage.getUser(req.session.user!.id);
+}
+
+// Create an account and sign in
+router.post('/register', async (req: Request, res: Response) => {
+  try {
+    const fields = registrationSchema.safeParse(req.body);
+    if (!fields.success) {
+      return res.status(400).json({ error: fields.error.errors[0].message, details: fields.error.format() });
+    }
+
+    if (await storage.getUserByUsername(fields.data.username)) {
+      return res.status(409).json({ error: 'That username is already taken' });
+    }
+
+    if (await storage.getUserByEmail(fields.data.email)) {
+      return res.status(409).json({ error: 'An account already uses that email address' });
+    }
+
+    const user = await authService.register(fields.data);
+    await signIn(req, user);
+
+    res.status(201).json(authService.publicUser(user));
+  } catch (error) {
+    console.error('Error registering user:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Sign in with a username (or email address) and password. Users with two-factor
+// enabled get { twoFactorRequired: true } and finish with POST /login/totp.
+router.post('/login', async (req: Request, res: Response) => {
+  try {
+    const fields = loginSchema.safeParse(req.body);
+    if (!fields.success) {
+      return res.status(400).json({ error: 'Username and password are required' });
+    }
+
+    const accountKey = `login:${fields.data.username.toLowerCase()}`;
+    const ipKey = `ip:${req.ip}`;
+    if (refuseIfBlocked(res, [[accountKey, LOGIN_FAILURE_LIMITS.account], [ipKey, LOGIN_FAILURE_LIMITS.ip]])) {
+      return;
+    }
+
+    const user = await authService.authenticate(fields.data.username, fields.data.password);
+    if (!user) {
+      loginLimiter.recordFailure(accountKey);
+      loginLimiter.recordFailure(ipKey);
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+
+    loginLimiter.reset(accountKey);
+
+    if (user.totpEnabled) {
+      req.session.user = undefined;
+      req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_WINDOW_MS, failedAttempts: 0 };
+      return res.json({ twoFactorRequired: true });
+    }
+
+    await signIn(req, user);
+    res.json(authService.publicUser(user));
+  } catch (error) {
+    console.error('Error signing in:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Second step of signing in for users with two-factor enabled
+router.post('/login/totp', async (req: Request, res: Response) => {
+  try {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      req.session.pendingTwoFactor = undefined;
+      return res.status(401).json({ error: 'Sign in with your password first' });
+    }
+
+    const fields = codeSchema.safeParse(req.body);
+    if (!fields.success) {
+      return res.status(400).json({ error: 'A code is required' });
+    }
+
+    const accountKey = `totp:${pending.userId}`;
+    const ipKey = `ip:${req.ip}`;
+    if (refuseIfBlocked(res, [[accountKey, LOGIN_FAILURE_LIMITS.account], [ipKey, LOGIN_FAILURE_LIMITS.ip]])) {
+      return;
+    }
+
+    const user = await storage.getUser(pending.userId);
+    if (!user || !await authService.verifyTwoFactor(user, fields.data.code)) {
+      loginLimiter.recordFailure(accountKey);
+      loginLimiter.recordFailure(ipKey);
+
+      // After a few wrong codes the password has to be entered again
+      pending.failedAttempts = (pending.failedAttempts || 0) + 1;
+      if (pending.failedAttempts >= MAX_TWO_FACTOR_ATTEMPTS) {
+        req.session.pendingTwoFactor = undefined;
+        return res.status(401).json({ error: 'Too many invalid codes. Sign in with your password again.' });
+      }
+
+      return res.status(401).json({ error: 'Invalid authentication code' });
+    }
+
+    loginLimiter.reset(accountKey);
+
+    await signIn(req, user);
+    res.json(authService.publicUser(user));
+  } catch (error) {
+    console.error('Error verifying two-factor code:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.post('/logout', (req: Request, res: Response) => {
+  req.session.destroy(error => {
+    if (error) {
+      console.error('Error signing out:', error);
+      return res.status(500).json({ error: error.message });
+    }
+
+    res.clearCookie('connect.sid');
+    res.json({ success: true });
+  });
+});
+
+// The signed-in user
+router.get('/user', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = await currentUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    res.json(authService.publicUser(user));
+  } catch (error) {
+    console.error('Error fetching user:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Email a reset link. The response is the same whether or not the address has an account.
+router.post('/password-reset/request', async (req: Request, res: Response) => {
+  try {
+    const fields = z.object({ email: z.string().trim().email() }).safeParse(req.body);
+    if (!fields.success) {
+      return res.status(400).json({ error: 'A valid email address is required' });
+    }
+
+    await authService.requestPasswordReset(fields.data.email);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error requesting password reset:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Choose a new password with the token from a reset link
+router.post('/password-reset/confirm', async (req: Request, res: Response) => {
+  try {
+    const fields = z.object({ token: z.string().min(1), password: passwordSchema }).safeParse(req.body);
+    if (!fields.success) {
+      return res.status(400).json({ error: fields.error.errors[0].message });
+    }
+
+    const user = await authService.resetPassword(fields.data.token, fields.data.password);
+    if (!user) {
+      return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Generate a new two-factor secret; it takes effect once confirmed with /totp/enable
+router.post('/totp/setup', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = await currentUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (user.totpEnabled) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    res.json(await authService.setupTotp(user));
+  } catch (error) {
+    console.error('Error setting up two-factor authentication:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.post('/totp/enable', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const fields = codeSchema.safeParse(req.body);
+    if (!fields.success) {
+      return res.status(400).json({ error: 'A code is required' });
+    }
+
+    const user = await currentUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (user.totpEnabled) {
+      return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    if (!await authService.enableTotp(user, fields.data.code)) {
+      return res.status(400).json({ error: 'Invalid authentication code' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error enabling two-factor authentication:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+router.post('/totp/disable', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const fields = codeSchema.safeParse(req.body);
+    if (!fields.success) {
+      return res.status(400).json({ error: 'A code is required' });
+    }
+
+    const user = await currentUser(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+
+    if (!await authService.disableTotp(user, fields.data.code)) {
+      return res.status(400).json({ error: 'Invalid authentication code' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+export default router;
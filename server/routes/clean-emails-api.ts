@@ -4,7 +4,9 @@
  */
 
 import express, { Request, Response } from 'express';
-import { pool } from '../db';
+import { sql } from 'drizzle-orm';
+import { db, pool } from '../db';
+import { inUserAccounts, storage } from '../storage';
 import { log } from '../vite';
 
 const router = express.Router();
@@ -14,11 +16,12 @@ router.post('/batch', async (req: Request, res: Response) => {
   try {
     const { limit = 200 } = req.body;
     
-    // Get emails that need cleaning (not already cleaned)
-    const emailsResult = await pool.query(
-      'SELECT id, body, body_html FROM emails WHERE is_cleaned IS NULL OR is_cleaned = false LIMIT $1',
-      [limit]
-    );
+    // Get the user's emails that need cleaning (not already cleaned)
+    const emailsResult = await db.execute(sql`
+      SELECT id, body, body_html FROM emails
+      WHERE (is_cleaned IS NULL OR is_cleaned = false) AND ${inUserAccounts(req.session.user!.id)}
+      LIMIT ${limit}
+    `);
     
     if (emailsResult.rows.length === 0) {
       return res.json({
@@ -34,7 +37,7 @@ router.post('/batch', async (req: Request, res: Response) => {
     
     for (const email of emailsResult.rows) {
       try {
-        let { id, body, body_html } = email;
+        let { id, body, body_html } = email as { id: number; body: string | null; body_html: string | null };
         
         // Clean the text content
         if (body) {
@@ -100,6 +103,10 @@ router.post('/single/:id', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid email ID' });
     }
     
+    if (!(await storage.getEmail(req.session.user!.id, emailId))) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
+    
     // Get the email content
     const emailResult = await pool.query(
       'SELECT body, body_html FROM emails WHERE id = $1',
@@ -161,16 +168,17 @@ router.post('/single/:id', async (req: Request, res: Response) => {
 // Get cleaning status
 router.get('/status', async (req: Request, res: Response) => {
   try {
-    const statusResult = await pool.query(`
+    const statusResult = await db.execute(sql`
       SELECT 
         COUNT(*) as total,
         COUNT(*) FILTER (WHERE is_cleaned = true) as cleaned
       FROM emails
+      WHERE ${inUserAccounts(req.session.user!.id)}
     `);
     
-    const { total, cleaned } = statusResult.rows[0];
+    const { total, cleaned } = statusResult.rows[0] as { total: string; cleaned: string };
     const remaining = parseInt(total) - parseInt(cleaned);
-    const percentComplete = total > 0 ? Math.round((parseInt(cleaned) / parseInt(total)) * 100) : 100;
+    const percentComplete = parseInt(total) > 0 ? Math.round((parseInt(cleaned) / parseInt(total)) * 100) : 100;
     
     return res.json({
       success: true,
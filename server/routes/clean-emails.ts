@@ -6,7 +6,9 @@
  */
 
 import express, { Request, Response } from 'express';
-import { pool } from '../db';
+import { sql } from 'drizzle-orm';
+import { db, pool } from '../db';
+import { inUserAccounts, storage } from '../storage';
 import { log } from '../vite';
 
 const router = express.Router();
@@ -20,6 +22,10 @@ router.post('/clean/:id', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid email ID' });
     }
     
+    if (!(await storage.getEmail(req.session.user!.id, emailId))) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
+    
     // Get the email content
     const emailResult = await pool.query(
       'SELECT body, body_html FROM emails WHERE id = $1',
@@ -83,11 +89,12 @@ router.post('/clean-all', async (req: Request, res: Response) => {
   try {
     const { limit = 200 } = req.body;
     
-    // Get emails that need cleaning (not already cleaned)
-    const emailsResult = await pool.query(
-      'SELECT id, body, body_html FROM emails WHERE is_cleaned = false LIMIT $1',
-      [limit]
-    );
+    // Get the user's emails that need cleaning (not already cleaned)
+    const emailsResult = await db.execute(sql`
+      SELECT id, body, body_html FROM emails
+      WHERE is_cleaned = false AND ${inUserAccounts(req.session.user!.id)}
+      LIMIT ${limit}
+    `);
     
     if (emailsResult.rows.length === 0) {
       return res.json({
@@ -101,7 +108,7 @@ router.post('/clean-all', async (req: Request, res: Response) => {
     let processedCount = 0;
     for (const email of emailsResult.rows) {
       try {
-        let { id, body, body_html } = email;
+        let { id, body, body_html } = email as { id: number; body: string | null; body_html: string | null };
         
         // Clean the text content
         if (body) {
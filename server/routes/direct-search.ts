@@ -15,7 +15,7 @@ const router = express.Router();
 router.get('/', async (req: Request, res: Response) => {
   try {
     // Get user ID from session
-    const userId = req.session.user?.id || 1;
+    const userId = req.session.user!.id;
     
     // Get query from request
     const query = req.query.q as string;
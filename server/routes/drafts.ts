@@ -0,0 +1,121 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { composeService } from '../services/composeService';
+
+const router = Router();
+
+const recipientsSchema = z.array(z.string().trim().min(1));
+
+const draftFieldsSchema = z.object({
+  accountId: z.number().int().positive(),
+  to: recipientsSchema,
+  cc: recipientsSchema.nullable(),
+  bcc: recipientsSchema.nullable(),
+  subject: z.string(),
+  body: z.string()
+}).partial();
+
+// List the current user's drafts, most recently edited first
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.user!.id;
+    
+    res.json(await composeService.listDrafts(userId));
+  } catch (error) {
+    console.error('Error fetching drafts:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Get a draft
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.user!.id;
+    const draft = await composeService.getDraft(userId, parseInt(req.params.id));
+    
+    if (!draft) {
+      return res.status(404).json({ error: 'Draft not found' });
+    }
+    
+    res.json(draft);
+  } catch (error) {
+    console.error('Error fetching draft:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Compose a new message
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.user!.id;
+    const fields = draftFieldsSchema.required({ accountId: true }).safeParse(req.body);
+    
+    if (!fields.success) {
+      return res.status(400).json({ error: 'Invalid draft', details: fields.error.format() });
+    }
+    
+    res.status(201).json(await composeService.createDraft(userId, fields.data));
+  } catch (error) {
+    console.error('Error creating draft:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Update a draft
+router.put('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.user!.id;
+    const fields = draftFieldsSchema.safeParse(req.body);
+    
+    if (!fields.success) {
+      return res.status(400).json({ error: 'Invalid draft', details: fields.error.format() });
+    }
+    
+    const draft = await composeService.updateDraft(userId, parseInt(req.params.id), fields.data);
+    
+    if (!draft) {
+      return res.status(404).json({ error: 'Draft not found' });
+    }
+    
+    res.json(draft);
+  } catch (error) {
+    console.error('Error updating draft:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Discard a draft
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.user!.id;
+    const deleted = await composeService.deleteDraft(userId, parseInt(req.params.id));
+    
+    if (!deleted) {
+      return res.status(404).json({ error: 'Draft not found' });
+    }
+    
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting draft:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Send a draft over SMTP; the sent message is returned as stored in emails
+router.post('/:id/send', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.user!.id;
+    const result = await composeService.sendDraft(userId, parseInt(req.params.id));
+    
+    if (!result) {
+      return res.status(404).json({ error: 'Draft not found' });
+    }
+    
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error sending draft:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+export default router;
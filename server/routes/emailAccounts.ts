@@ -1,24 +1,32 @@
 import { Router, Request, Response } from 'express';
-import { db } from '../db';
-import { emailAccounts } from '@shared/schema';
-import { eq } from 'drizzle-orm';
-import CryptoJS from 'crypto-js';
+import { storage } from '../storage';
+import { emailService } from '../services/emailService';
+import { smtpService } from '../services/smtpService';
+import { exchangeService } from '../services/exchangeService';
+import { jmapService } from '../services/jmapService';
+import { syncAccount, IMAP_ACCOUNT_TYPES } from '../services/accountSync';
+import { imapService } from '../services/imapService';
+import { realTimeEmailService } from '../services/realTimeEmailService';
+import { syncStateService } from '../services/syncStateService';
+import { mailImportService, MAX_UPLOAD_BYTES } from '../services/mailImportService';
+import { mailExportService, MAIL_EXPORT_FORMATS, MailExportFormat } from '../services/mailExportService';
+import { MAILBOX_FORMATS, MailboxFormat } from '../utils/mailboxReader';
+import { encryptJson } from '../utils/encryption';
 
 const router = Router();
-const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'default-encryption-key';
+
+// IMAP server settings, plus the optional SMTP server used to send from the account
+function normalizeImapAccountSettings(raw: any) {
+  return {
+    ...imapService.normalizeServerSettings(raw),
+    ...(raw?.smtp?.host ? { smtp: smtpService.normalizeSmtpSettings(raw.smtp) } : {})
+  };
+}
 
 // Get all email accounts for the current user
 router.get('/', async (req: Request, res: Response) => {
   try {
-    // In a real app, userId would come from authenticated session
-    const userId = 1;
-    
-    const accounts = await db
-      .select()
-      .from(emailAccounts)
-      .where(eq(emailAccounts.userId, userId));
-    
-    res.json(accounts);
+    res.json(await storage.getEmailAccounts(req.session.user!.id));
   } catch (error) {
     console.error('Error fetching email accounts:', error);
     res.status(500).json({ error: (error as Error).message });
@@ -30,10 +38,7 @@ router.get('/:id', async (req: Request, res: Response) => {
   try {
     const accountId = parseInt(req.params.id);
     
-    const [account] = await db
-      .select()
-      .from(emailAccounts)
-      .where(eq(emailAccounts.id, accountId));
+    const account = await storage.getEmailAccount(req.session.user!.id, accountId);
     
     if (!account) {
       return res.status(404).json({ error: 'Account not found' });
@@ -49,16 +54,19 @@ router.get('/:id', async (req: Request, res: Response) => {
 // Add a new email account
 router.post('/', async (req: Request, res: Response) => {
   try {
-    // In a real app, userId would come from authenticated session
-    const userId = 1;
+    const userId = req.session.user!.id;
     
     const { 
       accountType, 
       authMethod, 
       emailAddress, 
-      password 
+      displayName,
+      credentials = {}
     } = req.body;
     
+    // Accept the password at the top level or inside the credentials object
+    const password = req.body.password || credentials.password || credentials.appPassword;
+    
     // Validate required fields
     if (!accountType || !authMethod || !emailAddress) {
       return res.status(400).json({
@@ -73,25 +81,87 @@ router.post('/', async (req: Request, res: Response) => {
       });
     }
     
-    // Encrypt the password
-    const encrypted = CryptoJS.AES.encrypt(
-      JSON.stringify({ password }), 
-      ENCRYPTION_KEY
-    ).toString();
+    // Microsoft 365 accounts are created by the OAuth callback once the user has signed in
+    if (accountType === 'outlook_graph') {
+      return res.status(400).json({
+        error: 'Microsoft 365 accounts are connected through /api/oauth/microsoft/url'
+      });
+    }
     
-    // Create the account
-    const [newAccount] = await db
-      .insert(emailAccounts)
-      .values({
+    // Generic IMAP accounts need host, port, TLS mode and auth method
+    let serverSettings = req.body.serverSettings;
+    if (accountType === 'imap') {
+      try {
+        serverSettings = normalizeImapAccountSettings(serverSettings);
+      } catch (validationError) {
+        return res.status(400).json({ error: (validationError as Error).message });
+      }
+    }
+    
+    // Exchange accounts keep their username and EWS URL alongside the password
+    if (accountType === 'exchange') {
+      const ewsUrl = credentials.serverUrl || serverSettings?.ewsUrl;
+      if (!ewsUrl) {
+        return res.status(400).json({ error: 'EWS URL is required for Exchange accounts' });
+      }
+      
+      const exchangeAccount = await exchangeService.saveEmailAccount(
         userId,
-        accountType,
+        emailAddress,
         authMethod,
+        { username: credentials.username || emailAddress, password },
+        { ...serverSettings, ewsUrl }
+      );
+      
+      realTimeEmailService.refreshAccounts();
+      
+      return res.status(201).json(exchangeAccount);
+    }
+    
+    // JMAP accounts are found through their session resource, e.g. https://api.fastmail.com/jmap/session
+    if (accountType === 'jmap') {
+      const sessionUrl = credentials.serverUrl || serverSettings?.sessionUrl;
+      if (!sessionUrl) {
+        return res.status(400).json({ error: 'Session URL is required for JMAP accounts' });
+      }
+      if (authMethod === 'oauth' && !credentials.accessToken) {
+        return res.status(400).json({ error: 'An access token is required for JMAP OAuth accounts' });
+      }
+      
+      const jmapAccount = await jmapService.saveEmailAccount(
+        userId,
         emailAddress,
-        credentials: encrypted,
-        isActive: true,
-        syncEnabled: true
-      })
-      .returning();
+        authMethod,
+        authMethod === 'oauth'
+          ? { accessToken: credentials.accessToken }
+          : { username: credentials.username || emailAddress, password },
+        { ...serverSettings, sessionUrl },
+        displayName
+      );
+      
+      realTimeEmailService.refreshAccounts();
+      
+      return res.status(201).json(jmapAccount);
+    }
+    
+    // Encrypt the password
+    const encrypted = encryptJson({ password });
+    
+    // Create the account
+    const newAccount = await storage.createEmailAccount({
+      userId,
+      accountType,
+      authMethod,
+      emailAddress,
+      displayName: displayName || emailAddress,
+      credentials: encrypted,
+      serverSettings,
+      isActive: true,
+      syncEnabled: true
+    });
+    
+    // Start watching the new account for incoming mail
+    realTimeEmailService.refreshAccounts();
     
     res.status(201).json(newAccount);
   } catch (error) {
@@ -108,14 +178,13 @@ router.put('/:id', async (req: Request, res: Response) => {
       displayName,
       isActive,
       syncEnabled,
+      serverSettings,
+      syncFolders,
       password
     } = req.body;
     
     // Get the existing account
-    const [account] = await db
-      .select()
-      .from(emailAccounts)
-      .where(eq(emailAccounts.id, accountId));
+    const account = await storage.getEmailAccount(req.session.user!.id, accountId);
     
     if (!account) {
       return res.status(404).json({ error: 'Account not found' });
@@ -128,22 +197,35 @@ router.put('/:id', async (req: Request, res: Response) => {
     if (isActive !== undefined) updateData.isActive = isActive;
     if (syncEnabled !== undefined) updateData.syncEnabled = syncEnabled;
     
+    // Folder selection: a list of folder names, or null/empty to go back to the provider defaults
+    if (syncFolders !== undefined) {
+      if (syncFolders !== null && (!Array.isArray(syncFolders) || syncFolders.some((folder: unknown) => typeof folder !== 'string' || !folder))) {
+        return res.status(400).json({ error: 'syncFolders must be a list of folder names or null' });
+      }
+      updateData.syncFolders = syncFolders && syncFolders.length > 0 ? syncFolders : null;
+    }
+    
+    // Handle server settings update for IMAP accounts
+    if (serverSettings !== undefined) {
+      try {
+        updateData.serverSettings = account.accountType === 'imap'
+          ? normalizeImapAccountSettings(serverSettings)
+          : serverSettings;
+      } catch (validationError) {
+        return res.status(400).json({ error: (validationError as Error).message });
+      }
+    }
+    
     // Handle password update
     if (password) {
-      const encrypted = CryptoJS.AES.encrypt(
-        JSON.stringify({ password }), 
-        ENCRYPTION_KEY
-      ).toString();
-      
-      updateData.credentials = encrypted;
+      updateData.credentials = encryptJson({ password });
     }
     
     // Update the account
-    const [updatedAccount] = await db
-      .update(emailAccounts)
-      .set(updateData)
-      .where(eq(emailAccounts.id, accountId))
-      .returning();
+    const updatedAccount = await storage.updateEmailAccount(req.session.user!.id, accountId, updateData);
+    
+    // Reconnect or stop watching if credentials, settings or sync flags changed
+    realTimeEmailService.refreshAccounts();
     
     res.json(updatedAccount);
   } catch (error) {
@@ -158,19 +240,16 @@ router.delete('/:id', async (req: Request, res: Response) => {
     const accountId = parseInt(req.params.id);
     
     // Check if account exists
-    const [account] = await db
-      .select()
-      .from(emailAccounts)
-      .where(eq(emailAccounts.id, accountId));
+    const account = await storage.getEmailAccount(req.session.user!.id, accountId);
     
     if (!account) {
       return res.status(404).json({ error: 'Account not found' });
     }
     
     // Delete the account
-    await db
-      .delete(emailAccounts)
-      .where(eq(emailAccounts.id, accountId));
+    await storage.deleteEmailAccount(req.session.user!.id, accountId);
+    
+    realTimeEmailService.refreshAccounts();
     
     res.json({ success: true, message: 'Account deleted successfully' });
   } catch (error) {
@@ -185,21 +264,37 @@ router.post('/:id/sync', async (req: Request, res: Response) => {
     const accountId = parseInt(req.params.id);
     
     // Find the account
-    const [account] = await db
-      .select()
-      .from(emailAccounts)
-      .where(eq(emailAccounts.id, accountId));
+    const account = await storage.getEmailAccount(req.session.user!.id, accountId);
     
     if (!account) {
       return res.status(404).json({ error: 'Account not found' });
     }
     
-    // For this endpoint, we'd normally call the appropriate sync service
-    // But we'll just return a success message for now
+    const limit = parseInt(req.body.limit) || 50;
+    const mode = req.body.mode === 'backfill' ? 'backfill' : 'incremental';
+    
+    if (mode === 'backfill') {
+      // A full historical backfill can take a long time, so run it in the background
+      syncAccount(account, limit, 'backfill')
+        .then(count => {
+          console.log(`Backfill completed for account ${account.emailAddress}: ${count} emails processed`);
+        })
+        .catch(err => {
+          console.error(`Error during backfill for account ${account.emailAddress}:`, err);
+        });
+      
+      return res.json({
+        success: true,
+        message: `Started full backfill for account ${account.emailAddress}`
+      });
+    }
+    
+    const emailsProcessed = await syncAccount(account, limit, 'incremental');
+    
     res.json({
       success: true,
-      message: `Started syncing emails for account ${account.emailAddress}`,
-      emailsProcessed: 0 
+      message: `Synced emails for account ${account.emailAddress}`,
+      emailsProcessed
     });
   } catch (error) {
     console.error('Error syncing account:', error);
@@ -207,4 +302,188 @@ router.post('/:id/sync', async (req: Request, res: Response) => {
   }
 });
 
-export default router;
\ No newline at end of file
+// List the folders on an IMAP account's server and which of them are synced
+router.get('/:id/folders', async (req: Request, res: Response) => {
+  try {
+    const accountId = parseInt(req.params.id);
+    
+    const account = await storage.getEmailAccount(req.session.user!.id, accountId);
+    
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+    
+    if (!IMAP_ACCOUNT_TYPES.includes(account.accountType)) {
+      return res.status(400).json({ error: 'Folder listing is only available for IMAP accounts' });
+    }
+    
+    const settings = imapService.resolveServerSettings(account);
+    const mailboxes = await imapService.listMailboxes(settings, await emailService.getImapCredentials(account));
+    const defaults = imapService.defaultSyncFolders(mailboxes);
+    const selected = account.syncFolders && account.syncFolders.length > 0 ? account.syncFolders : defaults;
+    
+    res.json({
+      accountId,
+      usingDefaults: !account.syncFolders || account.syncFolders.length === 0,
+      defaults,
+      folders: mailboxes.map(mailbox => ({
+        ...mailbox,
+        selected: selected.includes(mailbox.path)
+      }))
+    });
+  } catch (error) {
+    console.error('Error listing folders:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Get the per-folder sync state for an account
+router.get('/:id/sync-state', async (req: Request, res: Response) => {
+  try {
+    const accountId = parseInt(req.params.id);
+    
+    const account = await storage.getEmailAccount(req.session.user!.id, accountId);
+    
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+    
+    const folders = await syncStateService.getAccountState(accountId);
+    
+    res.json({ accountId, folders });
+  } catch (error) {
+    console.error('Error fetching sync state:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Import an mbox, EML or export zip archive sent as the request body. The import runs in the background;
+// its progress is read from /:id/imports/:importId.
+router.post('/:id/import', async (req: Request, res: Response) => {
+  try {
+    const accountId = parseInt(req.params.id);
+    
+    const account = await storage.getEmailAccount(req.session.user!.id, accountId);
+    
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+    
+    const format = req.query.format as MailboxFormat | undefined;
+    if (format && !MAILBOX_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Unsupported format: ${format}` });
+    }
+    if (format === 'maildir') {
+      return res.status(400).json({ error: 'Maildir trees are imported with the import-mailbox command' });
+    }
+    if (req.is(['application/json', 'application/x-www-form-urlencoded']) || (!req.headers['content-length'] && !req.headers['transfer-encoding'])) {
+      return res.status(400).json({ error: 'Send the mbox, EML or zip file as the request body' });
+    }
+    
+    const tooLarge = {
+      error: `Archives larger than ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB can't be uploaded; import them with npm run import:mailbox`
+    };
+    if (parseInt(req.headers['content-length'] || '0') > MAX_UPLOAD_BYTES) {
+      return res.status(413).set('Connection', 'close').json(tooLarge);
+    }
+    
+    const fileName = (req.query.filename as string) || 'upload';
+    const sourcePath = await mailImportService.saveUpload(req, fileName);
+    
+    // The rest of the body was not read, so the connection can't be reused
+    if (!sourcePath) {
+      return res.status(413).set('Connection', 'close').json(tooLarge);
+    }
+    
+    // From here on the upload is removed if the import fails or can't be started
+    const mailImport = await mailImportService.createImport(accountId, sourcePath, format, fileName)
+      .catch(async error => {
+        await mailImportService.removeUpload(sourcePath);
+        throw error;
+      });
+    
+    mailImportService.runImport(mailImport, sourcePath, {
+      folder: (req.query.folder as string) || undefined,
+      process: req.query.process !== 'false',
+      extractTasks: req.query.extractTasks !== 'false',
+      removeSource: true
+    }).catch(err => {
+      console.error(`Error during import ${mailImport.id} for account ${account.emailAddress}:`, err);
+      return mailImportService.removeUpload(sourcePath);
+    });
+    
+    res.status(202).json(mailImport);
+  } catch (error) {
+    console.error('Error starting import:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// List an account's archive imports, newest first
+router.get('/:id/imports', async (req: Request, res: Response) => {
+  try {
+    const accountId = parseInt(req.params.id);
+    
+    if (!(await storage.getEmailAccount(req.session.user!.id, accountId))) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+    
+    res.json(await mailImportService.listImports(accountId));
+  } catch (error) {
+    console.error('Error fetching imports:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Get the progress of an archive import
+router.get('/:id/imports/:importId', async (req: Request, res: Response) => {
+  try {
+    const accountId = parseInt(req.params.id);
+    const account = await storage.getEmailAccount(req.session.user!.id, accountId);
+    const mailImport = account && await mailImportService.getImport(parseInt(req.params.importId));
+    
+    if (!mailImport || mailImport.accountId !== accountId) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+    
+    res.json(mailImport);
+  } catch (error) {
+    console.error('Error fetching import:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Export an account's emails as a zip of an mbox file (format=mbox) or EML files (format=eml),
+// with a bundle.json of their tasks, feedback, semantic links and AI annotations
+router.get('/:id/export', async (req: Request, res: Response) => {
+  try {
+    const accountId = parseInt(req.params.id);
+    
+    const account = await storage.getEmailAccount(req.session.user!.id, accountId);
+    
+    if (!account) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+    
+    const format = (req.query.format as MailExportFormat) || 'mbox';
+    if (!MAIL_EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Unsupported format: ${format}` });
+    }
+    
+    res.setHeader('Content-Type', 'application/zip');
+    res.attachment(`${account.emailAddress}-${format}-${new Date().toISOString().slice(0, 10)}.zip`);
+    
+    await mailExportService.exportAccount(accountId, format, res);
+  } catch (error) {
+    console.error('Error exporting account:', error);
+    if (!res.headersSent) {
+      res.removeHeader('Content-Type');
+      res.removeHeader('Content-Disposition');
+      res.status(500).json({ error: (error as Error).message });
+    } else {
+      res.destroy(error as Error);
+    }
+  }
+});
+
+export default router;
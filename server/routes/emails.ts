@@ -1,11 +1,18 @@
 import { Router, Request, Response } from 'express';
 import { db } from '../db';
 import { emails } from '@shared/schema';
-import { eq, and, desc, ne, or, like, sql } from 'drizzle-orm';
+import { eq, and, or, like, sql } from 'drizzle-orm';
+import { storage, inUserAccounts } from '../storage';
+import { attachmentService } from '../services/attachmentService';
+import { composeService } from '../services/composeService';
+import { flagSyncService } from '../services/flagSyncService';
+import { flagUpdatesOf, FLAG_FIELDS } from '../services/flagReconciler';
+import { scheduleFlagPush } from '../services/accountSync';
 
 const router = Router();
 
-// Get emails based on query parameters (account, cleaned status, RAG status)
+// Get emails based on query parameters (account, cleaned status, RAG status, folder, label).
+// Deleted emails are left out unless deleted=true asks for them alone.
 router.get('/', async (req: Request, res: Response) => {
   try {
     const { 
@@ -13,89 +20,173 @@ router.get('/', async (req: Request, res: Response) => {
       limit = 50, 
       offset = 0,
       cleaned,
-      ragProcessed  
+      ragProcessed,
+      folder,
+      label,
+      deleted
     } = req.query;
     
-    let query = db.select().from(emails);
+    const results = await storage.getEmails(req.session.user!.id, {
+      accountId: accountId ? Number(accountId) : undefined,
+      cleaned: cleaned === 'true',
+      ragProcessed: ragProcessed === 'true',
+      folder: folder ? String(folder) : undefined,
+      label: label ? String(label) : undefined,
+      deleted: deleted === 'true',
+      limit: Number(limit),
+      offset: Number(offset)
+    });
+    
+    res.json(results);
+  } catch (error) {
+    console.error('Error fetching emails:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// List the labels in use with their email counts, optionally for one account
+router.get('/labels', async (req: Request, res: Response) => {
+  try {
+    const { accountId } = req.query;
     
-    // Apply filters based on query parameters
-    if (accountId) {
-      query = query.where(eq(emails.accountId, Number(accountId)));
+    res.json(await storage.getEmailLabels(req.session.user!.id, accountId ? Number(accountId) : undefined));
+  } catch (error) {
+    console.error('Error fetching labels:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Get a specific email by ID
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const emailId = parseInt(req.params.id);
+    const email = await storage.getEmail(req.session.user!.id, emailId);
+    
+    if (!email) {
+      return res.status(404).json({ error: 'Email not found' });
     }
     
-    if (cleaned === 'true') {
-      query = query.where(eq(emails.is_cleaned, true));
+    const attachments = await attachmentService.listAttachments(emailId);
+    
+    res.json({
+      ...email,
+      attachments: attachments.map(({ extractedText, ...attachment }) => attachment)
+    });
+  } catch (error) {
+    console.error('Error fetching email:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// List the attachments of an email
+router.get('/:id/attachments', async (req: Request, res: Response) => {
+  try {
+    const emailId = parseInt(req.params.id);
+    
+    if (!(await storage.getEmail(req.session.user!.id, emailId))) {
+      return res.status(404).json({ error: 'Email not found' });
     }
     
-    if (ragProcessed === 'true') {
-      query = query.where(eq(emails.is_rag_processed, true));
+    const attachments = await attachmentService.listAttachments(emailId);
+    
+    res.json(attachments.map(({ extractedText, ...attachment }) => attachment));
+  } catch (error) {
+    console.error('Error fetching attachments:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Change log of an email's flags: local changes (pending until pushed) and changes pulled from the server
+router.get('/:id/flag-changes', async (req: Request, res: Response) => {
+  try {
+    const emailId = parseInt(req.params.id);
+    
+    if (!(await storage.getEmail(req.session.user!.id, emailId))) {
+      return res.status(404).json({ error: 'Email not found' });
     }
     
-    // Apply sorting and pagination
-    const results = await query
-      .orderBy(desc(emails.timestamp))
-      .limit(Number(limit))
-      .offset(Number(offset));
+    const changes = await flagSyncService.getChangeLog(emailId);
     
-    res.json(results);
+    res.json(changes);
   } catch (error) {
-    console.error('Error fetching emails:', error);
+    console.error('Error fetching flag changes:', error);
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
-// Get a specific email by ID
-router.get('/:id', async (req: Request, res: Response) => {
+// Download an attachment
+router.get('/:id/attachments/:attachmentId', async (req: Request, res: Response) => {
   try {
     const emailId = parseInt(req.params.id);
+    const attachmentId = parseInt(req.params.attachmentId);
     
-    const [email] = await db
-      .select()
-      .from(emails)
-      .where(eq(emails.id, emailId));
+    if (!(await storage.getEmail(req.session.user!.id, emailId))) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
     
-    if (!email) {
+    const attachment = await attachmentService.getAttachment(emailId, attachmentId);
+    
+    if (!attachment) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+    
+    const stream = attachmentService.openContent(attachment);
+    
+    stream.once('error', (error) => {
+      console.error(`Error reading attachment ${attachmentId}:`, error);
+      if (!res.headersSent) {
+        res.status(404).json({ error: 'Attachment content is missing' });
+      } else {
+        res.destroy(error);
+      }
+    });
+    
+    stream.once('open', () => {
+      res.setHeader('Content-Type', attachment.contentType);
+      res.setHeader('Content-Length', attachment.size);
+      res.attachment(attachment.filename);
+      stream.pipe(res);
+    });
+  } catch (error) {
+    console.error('Error downloading attachment:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Start a reply, reply-all or forward draft for an email
+router.post('/:id/reply', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.user!.id;
+    const mode = req.body?.mode || 'reply';
+    
+    if (!['reply', 'reply_all', 'forward'].includes(mode)) {
+      return res.status(400).json({ error: 'mode must be reply, reply_all or forward' });
+    }
+    
+    const draft = await composeService.createReplyDraft(userId, parseInt(req.params.id), mode);
+    
+    if (!draft) {
       return res.status(404).json({ error: 'Email not found' });
     }
     
-    res.json(email);
+    res.status(201).json(draft);
   } catch (error) {
-    console.error('Error fetching email:', error);
+    console.error('Error creating reply draft:', error);
     res.status(500).json({ error: (error as Error).message });
   }
 });
 
-// Get related emails for a specific email
+// Get related emails for a specific email: same thread or a similar subject
 router.get('/:id/related', async (req: Request, res: Response) => {
   try {
+    const userId = req.session.user!.id;
     const emailId = parseInt(req.params.id);
     
-    // First, get the email to find its thread ID and subject
-    const [targetEmail] = await db
-      .select()
-      .from(emails)
-      .where(eq(emails.id, emailId));
-    
-    if (!targetEmail) {
+    if (!(await storage.getEmail(userId, emailId))) {
       return res.status(404).json({ error: 'Email not found' });
     }
     
-    // Find emails with the same thread ID or similar subject (excluding the current email)
-    const relatedEmails = await db
-      .select()
-      .from(emails)
-      .where(
-        and(
-          ne(emails.id, emailId),
-          or(
-            targetEmail.threadId ? eq(emails.threadId, targetEmail.threadId) : undefined,
-            like(emails.subject, `%${targetEmail.subject.replace(/^(re:|fwd:)\s*/i, '')}%`)
-          )
-        )
-      )
-      .limit(10);
-    
-    res.json(relatedEmails);
+    res.json(await storage.getRelatedEmails(userId, emailId));
   } catch (error) {
     console.error('Error fetching related emails:', error);
     res.status(500).json({ error: (error as Error).message });
@@ -103,8 +194,10 @@ router.get('/:id/related', async (req: Request, res: Response) => {
 });
 
 // Update a specific email
+// Read, starred, archived and deleted changes are queued and pushed to the provider
 router.put('/:id', async (req: Request, res: Response) => {
   try {
+    const userId = req.session.user!.id;
     const emailId = parseInt(req.params.id);
     const updateData = req.body;
     
@@ -112,17 +205,28 @@ router.put('/:id', async (req: Request, res: Response) => {
     delete updateData.id;
     delete updateData.accountId;
     delete updateData.messageId;
+    delete updateData.serverFlags;
     
-    const [updatedEmail] = await db
-      .update(emails)
-      .set({ ...updateData, updatedAt: new Date() })
-      .where(eq(emails.id, emailId))
-      .returning();
+    const email = await storage.getEmail(userId, emailId);
     
-    if (!updatedEmail) {
+    if (!email) {
       return res.status(404).json({ error: 'Email not found' });
     }
     
+    const flagUpdates = flagUpdatesOf(updateData);
+    Object.values(FLAG_FIELDS).forEach(field => delete updateData[field]);
+    
+    if (Object.keys(updateData).length > 0) {
+      await storage.updateEmail(userId, emailId, updateData);
+    }
+    
+    const queued = await flagSyncService.recordLocalChanges(email, flagUpdates);
+    if (queued.length > 0) {
+      scheduleFlagPush(email.accountId);
+    }
+    
+    const updatedEmail = await storage.getEmail(userId, emailId);
+    
     res.json(updatedEmail);
   } catch (error) {
     console.error('Error updating email:', error);
@@ -133,14 +237,11 @@ router.put('/:id', async (req: Request, res: Response) => {
 // Special endpoint to clean marker tags from already processed emails
 router.post('/clean-markers', async (req: Request, res: Response) => {
   try {
+    const userId = req.session.user!.id;
     const { limit = 100 } = req.body;
     
-    // Get emails that have been cleaned but still contain marker tags
-    const emailsToFix = await db
-      .select()
-      .from(emails)
-      .where(eq(emails.is_cleaned, true))
-      .limit(limit);
+    // Get the user's emails that have been cleaned but may still contain marker tags
+    const emailsToFix = await storage.getEmails(userId, { cleaned: true, limit: Number(limit) });
     
     let processedCount = 0;
     
@@ -184,13 +285,7 @@ router.post('/clean-markers', async (req: Request, res: Response) => {
       
       if (changed) {
         // Update the email in the database
-        await db
-          .update(emails)
-          .set({
-            body: cleanedBody,
-            updatedAt: new Date()
-          })
-          .where(eq(emails.id, email.id));
+        await storage.updateEmail(userId, email.id, { body: cleanedBody });
         
         processedCount++;
       }
@@ -202,6 +297,7 @@ router.post('/clean-markers', async (req: Request, res: Response) => {
       .from(emails)
       .where(
         and(
+          inUserAccounts(userId),
           eq(emails.is_cleaned, true),
           or(
             like(emails.body, '%[URL REMOVED]%'),
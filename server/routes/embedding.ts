@@ -1,20 +1,13 @@
 import { Router, Request, Response } from 'express';
-import OpenAI from 'openai';
 import { aiModelService } from '../services';
+import { llmService } from '../services/llmService';
+import { DEFAULT_EMBEDDING_MODELS, resolveEmbeddingConfig } from '../services/llmProvider';
 
 const router = Router();
 
-// Initialize OpenAI with the API key from environment variables
-let openai: OpenAI;
-try {
-  openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-} catch (error) {
-  console.error('Error initializing OpenAI:', error);
-}
-
 /**
- * Generate embedding vectors using the current model
- * Default to OpenAI Ada embedding model for consistent 1536-dimensional vectors
+ * Generate embedding vectors using the shared embedding model
+ * (EMBEDDING_PROVIDER / EMBEDDING_MODEL, OpenAI text-embedding-3-small by default)
  */
 router.post('/generate', async (req: Request, res: Response) => {
   try {
@@ -23,27 +16,15 @@ router.post('/generate', async (req: Request, res: Response) => {
     if (!text) {
       return res.status(400).json({ error: 'Text is required' });
     }
-    
-    if (!openai) {
-      return res.status(500).json({ error: 'OpenAI client not initialized' });
-    }
 
     // Generate the embedding
     console.log(`Generating embedding for text: "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`);
     
-    // Get embedding from OpenAI
-    const embeddingResponse = await openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: text,
-      encoding_format: "float",
-    });
-    
-    // Extract the embedding vector
-    const embedding = embeddingResponse.data[0].embedding;
+    const embedding = await llmService.embed(text, { userId: req.session.user!.id, feature: 'embedding' });
     
     return res.json({ 
       embedding,
-      model: "text-embedding-3-small",
+      model: resolveEmbeddingConfig().model,
       dimensions: embedding.length
     });
   } catch (error) {
@@ -74,25 +55,14 @@ router.post('/generate/:modelId', async (req: Request, res: Response) => {
       return res.status(404).json({ error: 'Model not found' });
     }
     
-    if (model.provider !== 'openai') {
-      return res.status(400).json({ error: 'Only OpenAI embedding models are supported' });
-    }
-    
-    if (!openai) {
-      return res.status(500).json({ error: 'OpenAI client not initialized' });
+    if (!DEFAULT_EMBEDDING_MODELS[model.provider]) {
+      return res.status(400).json({ error: `${model.provider} does not provide embedding models` });
     }
     
     // Generate the embedding
     console.log(`Generating embedding for text with model ${model.displayName}: "${text.substring(0, 50)}${text.length > 50 ? '...' : ''}"`);
     
-    const embeddingResponse = await openai.embeddings.create({
-      model: model.modelId,
-      input: text,
-      encoding_format: "float",
-    });
-    
-    // Extract the embedding vector
-    const embedding = embeddingResponse.data[0].embedding;
+    const embedding = await llmService.embedWithModel(req.session.user!.id, model, text);
     
     return res.json({ 
       embedding,
@@ -108,4 +78,4 @@ router.post('/generate/:modelId', async (req: Request, res: Response) => {
   }
 });
 
-export default router;
\ No newline at end of file
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { Request, Response } from 'express';
 import { enhancedTaskExtractionService } from '../services/enhancedTaskExtraction';
+import { storage } from '../storage';
 
 const router = Router();
 
@@ -37,6 +38,10 @@ router.post('/process-batch', async (req: Request, res: Response) => {
         try {
           console.log(`Processing specified email ID: ${emailId}`);
           
+          if (!(await storage.getEmail(req.session.user!.id, emailId))) {
+            throw new Error('Email not found');
+          }
+          
           // Extract task data
           const extractionResult = await enhancedTaskExtractionService.extractEnhancedTasksFromEmail(emailId);
           
@@ -115,6 +120,13 @@ router.post('/process-email/:id', async (req: Request, res: Response) => {
       });
     }
     
+    if (!(await storage.getEmail(req.session.user!.id, emailId))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Email not found'
+      });
+    }
+    
     console.log(`Processing single email ID ${emailId} with enhanced extraction`);
     
     // Extract task data
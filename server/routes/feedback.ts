@@ -1,8 +1,5 @@
 import { Router, Request, Response } from "express";
 import { feedbackService } from "../services/feedbackService";
-import { tasks } from "@shared/schema";
-import { eq } from "drizzle-orm";
-import { db } from "../db";
 
 const router = Router();
 
@@ -12,9 +9,10 @@ const router = Router();
  */
 router.post('/hitl-review', async (req: Request, res: Response) => {
   try {
-    const { userId, taskId, action, originalTask, correctedTask } = req.body;
+    const { taskId, action, originalTask, correctedTask } = req.body;
+    const userId = req.session.user!.id;
     
-    if (!userId || !taskId || !action) {
+    if (!taskId || !action) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
     
@@ -31,6 +29,10 @@ router.post('/hitl-review', async (req: Request, res: Response) => {
       correctedTask
     );
     
+    if (!result) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    
     return res.status(200).json(result);
   } catch (error) {
     console.error('Error logging HITL review:', error);
@@ -43,9 +45,10 @@ router.post('/hitl-review', async (req: Request, res: Response) => {
  */
 router.post('/task-interaction', async (req: Request, res: Response) => {
   try {
-    const { userId, taskId, interactionType, previousValue, newValue } = req.body;
+    const { taskId, interactionType, previousValue, newValue } = req.body;
+    const userId = req.session.user!.id;
     
-    if (!userId || !taskId || !interactionType) {
+    if (!taskId || !interactionType) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
     
@@ -57,6 +60,10 @@ router.post('/task-interaction', async (req: Request, res: Response) => {
       newValue || {}
     );
     
+    if (!result) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    
     return res.status(200).json(result);
   } catch (error) {
     console.error('Error logging task interaction:', error);
@@ -69,9 +76,10 @@ router.post('/task-interaction', async (req: Request, res: Response) => {
  */
 router.post('/task-lifecycle', async (req: Request, res: Response) => {
   try {
-    const { userId, taskId, eventType, previousState } = req.body;
+    const { taskId, eventType, previousState } = req.body;
+    const userId = req.session.user!.id;
     
-    if (!userId || !taskId || !eventType) {
+    if (!taskId || !eventType) {
       return res.status(400).json({ error: 'Missing required fields' });
     }
     
@@ -87,6 +95,10 @@ router.post('/task-lifecycle', async (req: Request, res: Response) => {
       previousState || {}
     );
     
+    if (!result) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    
     return res.status(200).json(result);
   } catch (error) {
     console.error('Error logging task lifecycle event:', error);
@@ -105,7 +117,12 @@ router.get('/task/:taskId', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid task ID' });
     }
     
-    const result = await feedbackService.getTaskFeedbackAndInteractions(taskId);
+    const result = await feedbackService.getTaskFeedbackAndInteractions(req.session.user!.id, taskId);
+    
+    if (!result) {
+      return res.status(404).json({ error: 'Task not found' });
+    }
+    
     return res.status(200).json(result);
   } catch (error) {
     console.error('Error retrieving task feedback:', error);
@@ -123,6 +140,9 @@ router.get('/user/:userId', async (req: Request, res: Response) => {
     
     if (isNaN(userId)) {
       return res.status(400).json({ error: 'Invalid user ID' });
+    }    
+    if (userId !== req.session.user!.id) {
+      return res.status(403).json({ error: 'Not allowed for another user' });
     }
     
     const feedback = await feedbackService.getUserFeedback(userId, limit);
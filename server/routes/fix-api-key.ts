@@ -3,6 +3,7 @@ import { storage } from '../storage';
 import { OpenAI } from 'openai';
 import fs from 'fs';
 import path from 'path';
+import { maskSecret } from '../utils/encryption';
 
 const router = Router();
 
@@ -21,9 +22,9 @@ router.post('/update-openai-key', async (req: Request, res: Response) => {
       });
     }
     
-    // Log key info for debugging (first 10 chars only for security)
+    // Log key info for debugging, masked
     const logFile = path.join(process.cwd(), 'api-key-update.log');
-    fs.writeFileSync(logFile, `Attempting to update OpenAI API key: ${apiKey.slice(0, 10)}...`);
+    fs.writeFileSync(logFile, `Attempting to update OpenAI API key: ${maskSecret(apiKey)}`);
     
     // Test the key directly with OpenAI
     try {
@@ -35,7 +36,7 @@ router.post('/update-openai-key', async (req: Request, res: Response) => {
         fs.appendFileSync(logFile, `\nAPI key is valid! Found ${modelCount} models`);
         
         // Get user from session
-        const userId = req.session?.user?.id || 1; // Default to user ID 1 for testing
+        const userId = req.session.user!.id;
         
         // Update settings with the new API key
         const settings = await storage.getAiSettings(userId);
@@ -97,7 +98,7 @@ router.post('/update-openai-key', async (req: Request, res: Response) => {
  */
 router.get('/key-status', async (req: Request, res: Response) => {
   try {
-    const userId = req.session?.user?.id || 1; // Default to user ID 1 for testing
+    const userId = req.session.user!.id;
     const settings = await storage.getAiSettings(userId);
     
     if (!settings) {
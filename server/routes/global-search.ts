@@ -1,7 +1,7 @@
 import express, { Request, Response } from 'express';
 import { pool } from '../db';
 import { debugLogger } from '../utils/debugLogger';
-import { OpenAI } from 'openai';
+import { aiService } from '../services/aiService';
 
 const router = express.Router();
 
@@ -54,11 +54,11 @@ router.get('/global', async (req: Request, res: Response) => {
           due_date as "dueDate", created_at as "createdAt",
           'database' as search_method
         FROM tasks 
-        WHERE user_id = 1
+        WHERE user_id = $2
         AND (title ILIKE $1 OR description ILIKE $1)
         ORDER BY created_at DESC 
         LIMIT 10
-      `, [searchPattern]);
+      `, [searchPattern, req.session.user!.id]);
       
       // Search emails
       const emailResults = await pool.query(`
@@ -67,11 +67,11 @@ router.get('/global', async (req: Request, res: Response) => {
           'database' as search_method
         FROM emails e
         JOIN email_accounts ea ON e.account_id = ea.id
-        WHERE ea.user_id = 1
+        WHERE ea.user_id = $2
         AND (e.subject ILIKE $1 OR e.sender ILIKE $1 OR e.body ILIKE $1)
         ORDER BY e.timestamp DESC 
         LIMIT 10
-      `, [searchPattern]);
+      `, [searchPattern, req.session.user!.id]);
 
       searchResults.tasks = taskResults.rows;
       searchResults.emails = emailResults.rows;
@@ -88,17 +88,8 @@ router.get('/global', async (req: Request, res: Response) => {
     // 2. Vector/Embedding Search
     debugLogger.vectorLog('global_search_vector', { query });
     try {
-      // Generate embedding for the search query using OpenAI
-      const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-      let queryEmbedding: number[] = [];
-      
-      if (process.env.OPENAI_API_KEY) {
-        const embeddingResponse = await openai.embeddings.create({
-          model: 'text-embedding-ada-002',
-          input: query
-        });
-        queryEmbedding = embeddingResponse.data[0].embedding;
-      }
+      // Generate embedding for the search query with the same model as the stored vectors
+      const queryEmbedding = await aiService.generateEmbedding(query, { userId: req.session.user!.id, feature: 'global-search' });
       debugLogger.embeddingLog('query_embedding_generated', { 
         dimensions: queryEmbedding.length,
         query 
@@ -113,11 +104,11 @@ router.get('/global', async (req: Request, res: Response) => {
             embedding_vector <-> $1::vector as distance,
             'vector' as search_method
           FROM tasks 
-          WHERE user_id = 1 
+          WHERE user_id = $2 
           AND embedding_vector IS NOT NULL
           ORDER BY embedding_vector <-> $1::vector
           LIMIT 5
-        `, [`[${queryEmbedding.join(',')}]`]);
+        `, [`[${queryEmbedding.join(',')}]`, req.session.user!.id]);
 
         // Vector search for emails
         const vectorEmailResults = await pool.query(`
@@ -127,11 +118,11 @@ router.get('/global', async (req: Request, res: Response) => {
             'vector' as search_method
           FROM emails e
           JOIN email_accounts ea ON e.account_id = ea.id
-          WHERE ea.user_id = 1 
+          WHERE ea.user_id = $2 
           AND e.embedding_vector IS NOT NULL
           ORDER BY e.embedding_vector <-> $1::vector
           LIMIT 5
-        `, [`[${queryEmbedding.join(',')}]`]);
+        `, [`[${queryEmbedding.join(',')}]`, req.session.user!.id]);
 
         searchResults.vectorResults = [
           ...vectorTaskResults.rows.map(r => ({ ...r, type: 'task' })),
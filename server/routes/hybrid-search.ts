@@ -27,7 +27,7 @@ const searchParamsSchema = z.object({
 router.get('/', async (req: Request, res: Response) => {
   try {
     // Get user ID from session
-    const userId = req.session.user?.id || 1; // Default to user 1 for testing
+    const userId = req.session.user!.id;
     
     // Parse and validate search parameters
     const params = searchParamsSchema.safeParse({
@@ -91,7 +91,7 @@ router.get('/', async (req: Request, res: Response) => {
 router.get('/compare', async (req: Request, res: Response) => {
   try {
     // Get user ID from session
-    const userId = req.session.user?.id || 1; // Default to user 1 for testing
+    const userId = req.session.user!.id;
     
     // Parse and validate search parameters
     const params = searchParamsSchema.safeParse({
@@ -0,0 +1,164 @@
+import { Router, Request, Response } from 'express';
+import { jobStatusEnum } from '@shared/schema';
+import { storage } from '../storage';
+import { jobQueueService, JobStatus } from '../services/jobQueueService';
+import { JOB_KINDS, JobKind } from '../services/jobPolicy';
+import { realTimeEmailService } from '../services/realTimeEmailService';
+
+const router = Router();
+
+// Window for throughput and failure rates unless ?hours= is given
+const DEFAULT_STATS_HOURS = 24;
+
+function parseHours(value: unknown): number {
+  const hours = parseInt(String(value));
+  return hours > 0 && hours <= 24 * 30 ? hours : DEFAULT_STATS_HOURS;
+}
+
+// Every route works on the signed-in user's jobs: syncs of their accounts and the
+// processing of their emails. Other users' jobs are reported as not found.
+
+// List jobs, newest first; filter with ?kind=, ?status= and ?accountId=
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const { kind, status, accountId, limit, offset } = req.query;
+
+    if (kind && !JOB_KINDS.includes(kind as JobKind)) {
+      return res.status(400).json({ error: `Invalid job kind. Must be one of: ${JOB_KINDS.join(', ')}` });
+    }
+
+    if (status && !jobStatusEnum.enumValues.includes(status as JobStatus)) {
+      return res.status(400).json({ error: `Invalid job status. Must be one of: ${jobStatusEnum.enumValues.join(', ')}` });
+    }
+
+    const result = await jobQueueService.listJobs(req.session.user!.id, {
+      kind: kind as JobKind | undefined,
+      status: status as JobStatus | undefined,
+      accountId: accountId ? parseInt(accountId as string) : undefined,
+      limit: limit ? Math.min(parseInt(limit as string) || 50, 200) : 50,
+      offset: offset ? parseInt(offset as string) || 0 : 0
+    });
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error listing jobs:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Queue depth, throughput and failure rates per kind of job
+router.get('/stats', async (req: Request, res: Response) => {
+  try {
+    res.json(await jobQueueService.getStats(req.session.user!.id, parseHours(req.query.hours)));
+  } catch (error) {
+    console.error('Error fetching job stats:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Sync health of each of the user's accounts: its connection state and recent sync jobs
+router.get('/accounts', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.user!.id;
+    const hours = parseHours(req.query.hours);
+    const [accounts, syncStats] = await Promise.all([
+      storage.getEmailAccounts(userId),
+      jobQueueService.getAccountSyncStats(userId, hours)
+    ]);
+
+    const watchers = new Map(realTimeEmailService.getStatus(userId).map(status => [status.accountId, status]));
+    const statsByAccount = new Map(syncStats.map(stats => [stats.accountId, stats]));
+
+    res.json(accounts.map(account => {
+      const watcher = watchers.get(account.id);
+      const stats = statsByAccount.get(account.id);
+
+      return {
+        accountId: account.id,
+        accountEmail: account.emailAddress,
+        accountType: account.accountType,
+        isActive: account.isActive,
+        syncEnabled: account.syncEnabled,
+        needsReconsent: account.needsReconsent,
+        lastSynced: account.lastSynced,
+        // Connection state from the real-time service; unwatched accounts are not synced
+        mode: watcher?.mode || 'unwatched',
+        connectionError: watcher?.lastError || null,
+        lastSuccessAt: stats?.lastSuccessAt || null,
+        queued: stats?.queued || 0,
+        completed: stats?.completed || 0,
+        dead: stats?.dead || 0,
+        lastError: stats?.lastError || null
+      };
+    }));
+  } catch (error) {
+    console.error('Error fetching account sync health:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// One job, including the stack trace of its last failure
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const job = await jobQueueService.getJob(req.session.user!.id, parseInt(req.params.id));
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error fetching job:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Queue a dead or cancelled job again with fresh attempts
+router.post('/:id/retry', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.user!.id;
+    const jobId = parseInt(req.params.id);
+    const existing = await jobQueueService.getJob(userId, jobId);
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const job = await jobQueueService.retry(userId, jobId);
+
+    if (!job) {
+      return res.status(409).json({ error: 'Only dead or cancelled jobs can be retried, and only when the same work is not already queued' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error retrying job:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Cancel a job that has not started yet
+router.post('/:id/cancel', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.user!.id;
+    const jobId = parseInt(req.params.id);
+    const existing = await jobQueueService.getJob(userId, jobId);
+
+    if (!existing) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const job = await jobQueueService.cancel(userId, jobId);
+
+    if (!job) {
+      return res.status(409).json({ error: 'Only pending jobs can be cancelled' });
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { oauthService } from '../services/oauthService';
+import { realTimeEmailService } from '../services/realTimeEmailService';
 
 const router = Router();
 
@@ -13,7 +14,10 @@ router.get('/callback', async (req: Request, res: Response) => {
     }
     
     // Handle the OAuth callback
-    const result = await oauthService.handleGmailOAuthCallback(code as string, state as string);
+    const result = await oauthService.handleGmailOAuthCallback(code as string, state as string, req.session.user!.id);
+    
+    // Start watching the account, or resume one that was waiting to be reconnected
+    realTimeEmailService.refreshAccounts();
     
     // Redirect to a success page
     res.redirect(`/settings?accountAdded=true&email=${encodeURIComponent(result.email || '')}`);
@@ -32,8 +36,7 @@ router.post('/gmail/url', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Email is required' });
     }
     
-    // In a real app, userId would come from authenticated session
-    const userId = 1;
+    const userId = req.session.user!.id;
     
     // Generate OAuth URL
     const authUrl = oauthService.getGmailOAuthUrl(userId, email);
@@ -45,4 +48,45 @@ router.post('/gmail/url', async (req: Request, res: Response) => {
   }
 });
 
+// Microsoft OAuth callback
+router.get('/microsoft/callback', async (req: Request, res: Response) => {
+  try {
+    const { code, state } = req.query;
+    
+    if (!code || !state) {
+      return res.status(400).json({ error: 'Missing code or state parameter' });
+    }
+    
+    const result = await oauthService.handleMicrosoftOAuthCallback(code as string, state as string, req.session.user!.id);
+    
+    // Start watching the account, or resume one that was waiting to be reconnected
+    realTimeEmailService.refreshAccounts();
+    
+    res.redirect(`/accounts?accountAdded=true&email=${encodeURIComponent(result.email || '')}`);
+  } catch (error) {
+    console.error('Error handling Microsoft OAuth callback:', error);
+    res.redirect('/accounts?error=oauth_failed');
+  }
+});
+
+// Get OAuth URL for Microsoft 365 (Graph)
+router.post('/microsoft/url', async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+    
+    if (!email) {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+    
+    const userId = req.session.user!.id;
+    
+    const authUrl = oauthService.getMicrosoftOAuthUrl(userId, email);
+    
+    res.json({ authUrl });
+  } catch (error) {
+    console.error('Error generating Microsoft OAuth URL:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -13,7 +13,7 @@ const router = express.Router();
 router.get('/', async (req: Request, res: Response) => {
   try {
     // Get user ID from session
-    const userId = req.session.user?.id || 1;
+    const userId = req.session.user!.id;
     
     // Hard-coded test search term
     const searchTerm = 'Yasser';
@@ -9,7 +9,7 @@ router.get('/tasks', async (req: Request, res: Response) => {
   try {
     const query = req.query.query as string;
     debugLogger.searchLog('task_search_start', query);
-    debugLogger.apiLog('/search/tasks', 'GET', { query, userId: 1 });
+    debugLogger.apiLog('/search/tasks', 'GET', { query, userId: req.session.user!.id });
     
     if (!query || query.length < 2) {
       debugLogger.searchLog('task_search_too_short', query);
@@ -19,7 +19,7 @@ router.get('/tasks', async (req: Request, res: Response) => {
     const searchPattern = `%${query}%`;
     debugLogger.dbLog('task_search_query', { 
       query: searchPattern, 
-      userId: 1,
+      userId: req.session.user!.id,
       sqlQuery: 'SELECT id, title, description, priority, status, due_date, created_at FROM tasks WHERE user_id = $1 AND (title ILIKE $2 OR description ILIKE $2)'
     });
     
@@ -30,7 +30,7 @@ router.get('/tasks', async (req: Request, res: Response) => {
       AND (title ILIKE $2 OR description ILIKE $2)
       ORDER BY created_at DESC 
       LIMIT 20
-    `, [1, searchPattern]);
+    `, [req.session.user!.id, searchPattern]);
     
     debugLogger.searchLog('task_search_complete', query, result.rows);
     debugLogger.dbLog('task_search_results', { 
@@ -50,7 +50,7 @@ router.get('/emails', async (req: Request, res: Response) => {
   try {
     const query = req.query.query as string;
     debugLogger.searchLog('email_search_start', query);
-    debugLogger.apiLog('/search/emails', 'GET', { query, userId: 1 });
+    debugLogger.apiLog('/search/emails', 'GET', { query, userId: req.session.user!.id });
     
     if (!query || query.length < 2) {
       debugLogger.searchLog('email_search_too_short', query);
@@ -60,7 +60,7 @@ router.get('/emails', async (req: Request, res: Response) => {
     const searchPattern = `%${query}%`;
     debugLogger.dbLog('email_search_query', { 
       query: searchPattern, 
-      userId: 1,
+      userId: req.session.user!.id,
       sqlQuery: 'SELECT e.id, e.subject, e.sender, e.timestamp FROM emails e JOIN email_accounts ea ON e.account_id = ea.id WHERE ea.user_id = $1 AND (e.subject ILIKE $2 OR e.sender ILIKE $2 OR e.body ILIKE $2)'
     });
     
@@ -72,7 +72,7 @@ router.get('/emails', async (req: Request, res: Response) => {
       AND (e.subject ILIKE $2 OR e.sender ILIKE $2 OR e.body ILIKE $2)
       ORDER BY e.timestamp DESC 
       LIMIT 20
-    `, [1, searchPattern]);
+    `, [req.session.user!.id, searchPattern]);
     
     debugLogger.searchLog('email_search_complete', query, result.rows);
     debugLogger.dbLog('email_search_results', { 
@@ -21,11 +21,11 @@ router.get('/tasks', async (req: Request, res: Response) => {
     const result = await pool.query(`
       SELECT id, title, description, priority, status, due_date as "dueDate", created_at as "createdAt"
       FROM tasks 
-      WHERE user_id = 1
+      WHERE user_id = $2
       AND (title ILIKE $1 OR description ILIKE $1)
       ORDER BY created_at DESC 
       LIMIT 20
-    `, [searchPattern]);
+    `, [searchPattern, req.session.user!.id]);
     
     console.log(`✅ FOUND ${result.rows.length} tasks for "${query}"`);
     return res.json(result.rows);
@@ -50,11 +50,11 @@ router.get('/emails', async (req: Request, res: Response) => {
       SELECT e.id, e.subject, e.sender, e.timestamp as "date"
       FROM emails e
       JOIN email_accounts ea ON e.account_id = ea.id
-      WHERE ea.user_id = 1
+      WHERE ea.user_id = $2
       AND (e.subject ILIKE $1 OR e.sender ILIKE $1 OR e.body ILIKE $1)
       ORDER BY e.timestamp DESC 
       LIMIT 20
-    `, [searchPattern]);
+    `, [searchPattern, req.session.user!.id]);
     
     console.log(`✅ FOUND ${result.rows.length} emails for "${query}"`);
     return res.json(result.rows);
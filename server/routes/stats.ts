@@ -1,15 +1,16 @@
 import { Router, Request, Response } from 'express';
 import { db } from '../db';
 import { emails, tasks, emailAccounts } from '@shared/schema';
-import { sql, count, desc } from 'drizzle-orm';
+import { sql, count, desc, eq } from 'drizzle-orm';
 import { cache } from '../utils/cache';
+import { inUserAccounts } from '../storage';
 
 const router = Router();
 
 // Statistics endpoint for dashboard
 router.get('/', async (req: Request, res: Response) => {
   try {
-    const userId = 1; // Default user ID for now
+    const userId = req.session.user!.id;
     
     // Use cache for stats data with a 30-second TTL
     const statsData = await cache.getOrSet(`dashboard_stats_${userId}`, async () => {
@@ -20,7 +21,7 @@ router.get('/', async (req: Request, res: Response) => {
         processed: sql<number>`SUM(CASE WHEN "processed" = true THEN 1 ELSE 0 END)`,
         cleaned: sql<number>`SUM(CASE WHEN "is_cleaned" = true THEN 1 ELSE 0 END)`,
         ragProcessed: sql<number>`SUM(CASE WHEN "is_rag_processed" = true THEN 1 ELSE 0 END)`
-      }).from(emails);
+      }).from(emails).where(inUserAccounts(userId));
       
       // Get task stats
       const taskQuery = await db.select({
@@ -28,17 +29,18 @@ router.get('/', async (req: Request, res: Response) => {
         highPriority: sql<number>`SUM(CASE WHEN "priority" = 'high' THEN 1 ELSE 0 END)`,
         completed: sql<number>`SUM(CASE WHEN "is_completed" = true THEN 1 ELSE 0 END)`,
         pending: sql<number>`SUM(CASE WHEN "is_completed" = false THEN 1 ELSE 0 END)`,
-      }).from(tasks);
+      }).from(tasks).where(eq(tasks.userId, userId));
       
       // Get email account stats
       const accountQuery = await db.select({
         total: count(),
-      }).from(emailAccounts);
+      }).from(emailAccounts).where(eq(emailAccounts.userId, userId));
       
       // Recent emails
       const recentEmails = await db
         .select()
         .from(emails)
+        .where(inUserAccounts(userId))
         .orderBy(desc(emails.timestamp))
         .limit(5);
       
@@ -46,6 +48,7 @@ router.get('/', async (req: Request, res: Response) => {
       const recentTasks = await db
         .select()
         .from(tasks)
+        .where(eq(tasks.userId, userId))
         .orderBy(desc(tasks.createdAt))
         .limit(5);
       
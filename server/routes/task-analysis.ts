@@ -1,7 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { db } from '../db';
 import { emails, tasks } from '../../shared/schema';
-import { desc, ne } from 'drizzle-orm';
+import { and, desc, ne } from 'drizzle-orm';
+import { inUserAccounts } from '../storage';
 
 const router = Router();
 
@@ -13,13 +14,14 @@ router.post('/task-extraction', async (req: Request, res: Response) => {
     const { count = 10 } = req.body;
     const limit = Math.min(Number(count), 20); // Limit to 20 max
     
-    // Get the most recent emails with non-empty subjects
+    // Get the user's most recent emails with non-empty subjects
     const recentEmails = await db
       .select()
       .from(emails)
-      .where(
-        ne(emails.subject, '') // Exclude empty subjects
-      )
+      .where(and(
+        ne(emails.subject, ''), // Exclude empty subjects
+        inUserAccounts(req.session.user!.id)
+      ))
       .orderBy(desc(emails.timestamp))
       .limit(50); // Get more than we need to find variety
     
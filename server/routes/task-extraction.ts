@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { db } from '../db';
 import { emails, tasks } from '../../shared/schema';
 import { eq, desc, isNull, and, sql } from 'drizzle-orm';
+import { inUserAccounts } from '../storage';
 
 // Simple extraction function - we'll create a basic version that works reliably
 export async function extractTasksFromEmails(req: Request, res: Response) {
@@ -17,22 +18,27 @@ export async function extractTasksFromEmails(req: Request, res: Response) {
       unprocessedOnly
     });
     
-    // Build the query based on options
-    let query = db.select().from(emails);
+    // Build the query based on options; only the user's own emails are processed
+    const conditions = [inUserAccounts(req.session.user!.id)];
     
     if (unprocessedOnly) {
-      query = query.where(isNull(emails.processedForTasks));
+      conditions.push(isNull(emails.processedForTasks));
     }
     
     // Add date filter if daysBack is specified
     if (daysBack && daysBack > 0) {
       const cutoffDate = new Date();
       cutoffDate.setDate(cutoffDate.getDate() - daysBack);
-      query = query.where(sql`${emails.timestamp} >= ${cutoffDate.toISOString()}`);
+      conditions.push(sql`${emails.timestamp} >= ${cutoffDate.toISOString()}`);
     }
     
     // Complete the query with sorting and limit
-    const recentEmails = await query.orderBy(desc(emails.timestamp)).limit(limit);
+    const recentEmails = await db
+      .select()
+      .from(emails)
+      .where(and(...conditions))
+      .orderBy(desc(emails.timestamp))
+      .limit(limit);
     
     console.log(`Found ${recentEmails.length} emails to process`);
     
@@ -52,7 +58,7 @@ export async function extractTasksFromEmails(req: Request, res: Response) {
       // Create a sample task for demonstration
       if (email.subject) {
         const result = await db.insert(tasks).values({
-          userId: 1, // Assuming default user
+          userId: req.session.user!.id,
           emailId: email.id,
           title: `Task from: ${email.subject.substring(0, 50)}${email.subject.length > 50 ? '...' : ''}`,
           description: `This task was extracted from an email sent by ${email.sender || 'unknown sender'}. The original email was received on ${new Date(email.timestamp || Date.now()).toLocaleString()}.`,
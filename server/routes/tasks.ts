@@ -1,7 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
 import { insertTaskSchema } from '@shared/schema';
-import { z } from 'zod';
 import { log } from '../vite';
 import { taskEmbeddingService } from '../services/taskEmbeddingService';
 
@@ -83,7 +82,7 @@ router.get('/:id', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid task ID' });
     }
     
-    const task = await storage.getTask(taskId);
+    const task = await storage.getTask(req.session.user!.id, taskId);
     
     if (!task) {
       return res.status(404).json({ error: 'Task not found' });
@@ -107,13 +106,8 @@ router.post('/', async (req: Request, res: Response) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    // Validate request body
-    const insertTaskInput = insertTaskSchema.extend({
-      userId: z.number()
-    }).safeParse({
-      ...req.body,
-      userId
-    });
+    // Validate request body; the owner is always the signed-in user
+    const insertTaskInput = insertTaskSchema.omit({ userId: true }).safeParse(req.body);
 
     if (!insertTaskInput.success) {
       return res.status(400).json({ 
@@ -123,7 +117,11 @@ router.post('/', async (req: Request, res: Response) => {
     }
 
     // Create task
-    const newTask = await storage.createTask(insertTaskInput.data);
+    const newTask = await storage.createTask(userId, insertTaskInput.data);
+    
+    if (!newTask) {
+      return res.status(404).json({ error: 'Email not found' });
+    }
     
     // Generate embedding for the task (don't await to not block the response)
     taskEmbeddingService.generateEmbeddingForTask(newTask.id)
@@ -156,22 +154,13 @@ router.patch('/:id', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid task ID' });
     }
     
-    // Get the task to check ownership
-    const existingTask = await storage.getTask(taskId);
+    // Only the owner's tasks are found, so another user's task is a 404
+    const updatedTask = await storage.updateTask(req.session.user!.id, taskId, req.body);
     
-    if (!existingTask) {
+    if (!updatedTask) {
       return res.status(404).json({ error: 'Task not found' });
     }
     
-    // Make sure the user owns the task
-    const userId = req.session.user?.id;
-    if (!userId || existingTask.userId !== userId) {
-      return res.status(403).json({ error: 'Forbidden' });
-    }
-    
-    // Update the task
-    const updatedTask = await storage.updateTask(taskId, req.body);
-    
     // If title or description was updated, regenerate the embedding
     if (req.body.title || req.body.description) {
       // Don't await to not block the response
@@ -206,24 +195,11 @@ router.delete('/:id', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid task ID' });
     }
     
-    // Get the task to check ownership
-    const existingTask = await storage.getTask(taskId);
-    
-    if (!existingTask) {
-      return res.status(404).json({ error: 'Task not found' });
-    }
-    
-    // Make sure the user owns the task
-    const userId = req.session.user?.id;
-    if (!userId || existingTask.userId !== userId) {
-      return res.status(403).json({ error: 'Forbidden' });
-    }
-    
-    // Delete the task
-    const deleted = await storage.deleteTask(taskId);
+    // Delete the task; only the owner's tasks are found
+    const deleted = await storage.deleteTask(req.session.user!.id, taskId);
     
     if (!deleted) {
-      return res.status(500).json({ error: 'Failed to delete task' });
+      return res.status(404).json({ error: 'Task not found' });
     }
     
     return res.json({ success: true });
@@ -1,8 +1,9 @@
 import { Router, Request, Response } from 'express';
 import { emailChainService } from '../services/emailChainService';
 import { db } from '../db';
-import { sql, eq } from 'drizzle-orm';
+import { sql, and, eq } from 'drizzle-orm';
 import { emails } from '@shared/schema';
+import { inUserAccounts, storage } from '../storage';
 import { log } from '../vite';
 
 const router = Router();
@@ -17,7 +18,9 @@ router.get('/related/:emailId', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid email ID' });
     }
     
-    // Get the source email details for the response
+    const userId = req.session.user!.id;
+    
+    // Get the source email details for the response, if it is one of the user's
     const [sourceEmail] = await db.select({
       id: emails.id,
       subject: emails.subject,
@@ -26,49 +29,17 @@ router.get('/related/:emailId', async (req: Request, res: Response) => {
       hasEmbedding: sql<boolean>`embedding_vector IS NOT NULL`
     })
     .from(emails)
-    .where(eq(emails.id, emailId));
+    .where(and(eq(emails.id, emailId), inUserAccounts(userId)));
     
     if (!sourceEmail) {
       return res.status(404).json({ error: 'Email not found' });
     }
     
     // Find related emails using all detection methods
-    const relatedEmails = await emailChainService.findRelatedEmails(emailId);
+    const relatedEmails = await emailChainService.findRelatedEmails(userId, emailId);
     
-    // Get basic stats about relationships
-    let relationshipStats;
-    try {
-      const statsResult = await db.execute(sql`
-        SELECT 
-          COUNT(*) AS total_links,
-          COUNT(*) FILTER (WHERE link_type = 'thread') AS thread_links,
-          COUNT(*) FILTER (WHERE link_type = 'subject') AS subject_links,
-          COUNT(*) FILTER (WHERE link_type = 'semantic') AS semantic_links,
-          COUNT(*) FILTER (WHERE similarity_score >= 90) AS high_confidence_links
-        FROM email_semantic_links
-      `);
-      
-      const stats = Array.isArray(statsResult) && statsResult.length > 0 
-        ? statsResult[0] 
-        : (statsResult?.rows && statsResult.rows.length > 0 ? statsResult.rows[0] : {});
-        
-      relationshipStats = {
-        totalLinks: parseInt(stats?.total_links || '0'),
-        threadLinks: parseInt(stats?.thread_links || '0'),
-        subjectLinks: parseInt(stats?.subject_links || '0'),
-        semanticLinks: parseInt(stats?.semantic_links || '0'),
-        highConfidenceLinks: parseInt(stats?.high_confidence_links || '0')
-      };
-    } catch (error) {
-      log(`Error getting relationship stats: ${error.message}`);
-      relationshipStats = { 
-        totalLinks: 0, 
-        threadLinks: 0, 
-        subjectLinks: 0, 
-        semanticLinks: 0, 
-        highConfidenceLinks: 0 
-      };
-    }
+    // Get basic stats about the user's relationships
+    const relationshipStats = await emailChainService.getRelationshipStats(userId);
     
     return res.json({
       sourceEmail,
@@ -92,76 +63,32 @@ router.get('/related/:emailId', async (req: Request, res: Response) => {
  */
 router.post('/update', async (req: Request, res: Response) => {
   try {
+    const userId = req.session.user!.id;
     const { accountId, limit = 50, recentOnly = true } = req.body;
     
-    log(`Starting test relationship update${accountId ? ` for account ${accountId}` : ' for all accounts'}`);
+    if (accountId && !(await storage.getEmailAccount(userId, parseInt(accountId)))) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+    
+    const accountIds = accountId
+      ? [parseInt(accountId)]
+      : (await storage.getEmailAccounts(userId)).map(account => account.id);
+    
+    log(`Starting test relationship update for accounts ${accountIds.join(',')}`);
     
     // Get basic stats before updating
-    let statsBefore;
-    try {
-      const statsResult = await db.execute(sql`
-        SELECT 
-          COUNT(*) AS total_links,
-          COUNT(*) FILTER (WHERE link_type = 'thread') AS thread_links,
-          COUNT(*) FILTER (WHERE link_type = 'subject') AS subject_links,
-          COUNT(*) FILTER (WHERE link_type = 'semantic') AS semantic_links,
-          COUNT(*) FILTER (WHERE similarity_score >= 90) AS high_confidence_links
-        FROM email_semantic_links
-      `);
-      
-      const stats = Array.isArray(statsResult) && statsResult.length > 0 
-        ? statsResult[0] 
-        : (statsResult?.rows && statsResult.rows.length > 0 ? statsResult.rows[0] : {});
-        
-      statsBefore = {
-        totalLinks: parseInt(stats?.total_links || '0'),
-        threadLinks: parseInt(stats?.thread_links || '0'),
-        subjectLinks: parseInt(stats?.subject_links || '0'),
-        semanticLinks: parseInt(stats?.semantic_links || '0'),
-        highConfidenceLinks: parseInt(stats?.high_confidence_links || '0')
-      };
-    } catch (error) {
-      log(`Error getting stats before: ${error.message}`);
-      statsBefore = { totalLinks: 0, threadLinks: 0, subjectLinks: 0, semanticLinks: 0, highConfidenceLinks: 0 };
-    }
+    const statsBefore = await emailChainService.getRelationshipStats(userId);
     
     // Process email relationships
     const startTime = Date.now();
-    const relationshipsCount = await emailChainService.updateEmailRelationships(
-      accountId ? parseInt(accountId) : undefined,
-      parseInt(limit),
-      recentOnly
-    );
+    let relationshipsCount = 0;
+    for (const id of accountIds) {
+      relationshipsCount += await emailChainService.updateEmailRelationships(id, parseInt(limit), recentOnly);
+    }
     const duration = Date.now() - startTime;
     
     // Get basic stats after updating
-    let statsAfter;
-    try {
-      const statsResult = await db.execute(sql`
-        SELECT 
-          COUNT(*) AS total_links,
-          COUNT(*) FILTER (WHERE link_type = 'thread') AS thread_links,
-          COUNT(*) FILTER (WHERE link_type = 'subject') AS subject_links,
-          COUNT(*) FILTER (WHERE link_type = 'semantic') AS semantic_links,
-          COUNT(*) FILTER (WHERE similarity_score >= 90) AS high_confidence_links
-        FROM email_semantic_links
-      `);
-      
-      const stats = Array.isArray(statsResult) && statsResult.length > 0 
-        ? statsResult[0] 
-        : (statsResult?.rows && statsResult.rows.length > 0 ? statsResult.rows[0] : {});
-        
-      statsAfter = {
-        totalLinks: parseInt(stats?.total_links || '0'),
-        threadLinks: parseInt(stats?.thread_links || '0'),
-        subjectLinks: parseInt(stats?.subject_links || '0'),
-        semanticLinks: parseInt(stats?.semantic_links || '0'),
-        highConfidenceLinks: parseInt(stats?.high_confidence_links || '0')
-      };
-    } catch (error) {
-      log(`Error getting stats after: ${error.message}`);
-      statsAfter = { totalLinks: 0, threadLinks: 0, subjectLinks: 0, semanticLinks: 0, highConfidenceLinks: 0 };
-    }
+    const statsAfter = await emailChainService.getRelationshipStats(userId);
     
     res.json({
       success: true,
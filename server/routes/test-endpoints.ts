@@ -4,9 +4,10 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { aiModelService } from '../services/aiModelService';
 import { aiService } from '../services/aiService';
 import { pool, db } from '../db';
+import { storage } from '../storage';
+import { maskAiApiKeys } from '../utils/aiApiKeys';
 import { sql } from 'drizzle-orm';
 
 const router = Router();
@@ -16,13 +17,12 @@ const router = Router();
  */
 router.get('/ai-settings', async (req: Request, res: Response) => {
   try {
-    // For demo purposes, use user ID 1
-    const userId = 1;
-    const settings = await aiModelService.getAiSettings(userId);
+    const userId = req.session.user!.id;
+    const settings = await storage.getAiSettings(userId);
     
     res.json({
       success: true,
-      data: settings,
+      data: settings && maskAiApiKeys(settings),
       message: 'AI settings retrieved successfully'
     });
   } catch (error) {
@@ -40,13 +40,12 @@ router.get('/ai-settings', async (req: Request, res: Response) => {
  */
 router.post('/ai-settings', async (req: Request, res: Response) => {
   try {
-    // For demo purposes, use user ID 1
-    const userId = 1;
+    const userId = req.session.user!.id;
     
     // Use a fixed set of settings for testing
     const newSettings = {
-      selectedProvider: 'openai',
-      selectedModelId: 'gpt-4o',
+      selectedProvider: 'openai' as const,
+      selectedModelId: 1, // GPT-4o
       ollamaEndpoint: 'http://localhost:11434',
       openaiApiKey: process.env.OPENAI_API_KEY || '',
       anthropicApiKey: '',
@@ -54,11 +53,11 @@ router.post('/ai-settings', async (req: Request, res: Response) => {
       autoExtractTasks: true
     };
     
-    const updatedSettings = await aiModelService.updateAiSettings(userId, newSettings);
+    const updatedSettings = await storage.updateAiSettings(userId, newSettings);
     
     res.json({
       success: true,
-      data: updatedSettings,
+      data: maskAiApiKeys(updatedSettings),
       message: 'AI settings updated successfully'
     });
   } catch (error) {
@@ -81,7 +80,7 @@ router.get('/vector-test', async (req: Request, res: Response) => {
     
     try {
       // Generate a test embedding
-      embedding = await aiService.generateEmbedding(testText);
+      embedding = await aiService.generateEmbedding(testText, { userId: req.session.user!.id, feature: 'embedding-test' });
       
       res.json({
         success: true,
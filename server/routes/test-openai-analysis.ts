@@ -1,9 +1,9 @@
 import { Router, Request, Response } from 'express';
-import { storage } from '../storage';
+import { inUserAccounts, storage } from '../storage';
 import { aiService } from '../services/aiService';
 import { db } from '../db';
 import { emails } from '../../shared/schema';
-import { desc, eq, lt, ne } from 'drizzle-orm';
+import { and, desc, eq, lt, ne } from 'drizzle-orm';
 
 const router = Router();
 
@@ -16,13 +16,14 @@ router.post('/analyze-recent-emails', async (req: Request, res: Response) => {
     const { count = 5 } = req.body;
     const limit = Math.min(Number(count), 10); // Limit to 10 max for quick testing
     
-    // Get the most recent emails that aren't duplicates (different subjects)
+    // Get the user's most recent emails that aren't duplicates (different subjects)
     const recentEmails = await db
       .select()
       .from(emails)
-      .where(
-        ne(emails.subject, '') // Exclude empty subjects
-      )
+      .where(and(
+        ne(emails.subject, ''), // Exclude empty subjects
+        inUserAccounts(req.session.user!.id)
+      ))
       .orderBy(desc(emails.timestamp))
       .limit(50); // Get more than we need to find variety
     
@@ -15,18 +15,19 @@ router.post('/create-with-embedding', async (req: Request, res: Response) => {
   try {
     // Create a test task
     const testTask = {
-      userId: req.session.user?.id || 1,
       title: req.body.title || 'Test Task with Embedding',
       description: req.body.description || 'This is a test task to verify the embedding generation pipeline is working correctly.',
-      priority: 'medium',
+      priority: 'medium' as const,
       isCompleted: false,
-      needsReview: false
+      aiGenerated: false,
+      needsReview: false,
+      isRecurringSuggestion: false
     };
     
     log('Creating test task to verify embedding generation pipeline');
     
     // Create task in the database
-    const newTask = await storage.createTask(testTask);
+    const newTask = (await storage.createTask(req.session.user!.id, testTask))!;
     
     // Wait a moment for the asynchronous embedding generation to complete
     setTimeout(async () => {
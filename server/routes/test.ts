@@ -4,6 +4,7 @@ import { sql } from "drizzle-orm";
 import { AiService } from "../services/aiService";
 import { EmailChainService } from "../services/emailChainService";
 import { emails } from "@shared/schema";
+import { inUserAccounts } from "../storage";
 
 const router = Router();
 
@@ -29,7 +30,7 @@ router.post('/generate-embedding', async (req: Request, res: Response) => {
     console.log(`Generating test embedding for text (${text.length} chars) with provider: ${process.env.EMBEDDING_PROVIDER || 'openai'}`);
     
     const startTime = Date.now();
-    const embedding = await aiService.generateEmbedding(text);
+    const embedding = await aiService.generateEmbedding(text, { userId: req.session.user!.id, feature: 'embedding-test' });
     const duration = Date.now() - startTime;
     
     // Restore original provider setting
@@ -60,20 +61,23 @@ router.post('/generate-embedding', async (req: Request, res: Response) => {
  */
 router.get('/vector-stats', async (req: Request, res: Response) => {
   try {
-    // Get counts of emails with and without embeddings
+    const userId = req.session.user!.id;
+    
+    // Get counts of the user's emails with and without embeddings
     const counts = await db.execute(sql`
       SELECT 
         COUNT(*) AS total,
         COUNT(*) FILTER (WHERE embedding_vector IS NOT NULL) AS with_embedding,
         COUNT(*) FILTER (WHERE embedding_vector IS NULL) AS without_embedding
       FROM emails
+      WHERE ${inUserAccounts(userId)}
     `);
     
     // Get dimension stats for a sample email with embedding
     let dimensionInfo = null;
     const sampleEmail = await db.execute(sql`
       SELECT id, subject FROM emails 
-      WHERE embedding_vector IS NOT NULL 
+      WHERE embedding_vector IS NOT NULL AND ${inUserAccounts(userId)}
       LIMIT 1
     `);
     
@@ -129,10 +133,12 @@ router.get('/vector-similarity/:emailId', async (req: Request, res: Response) =>
       return res.status(400).json({ error: "Invalid email ID" });
     }
     
-    // Get email data
+    const userId = req.session.user!.id;
+    
+    // Get email data, if the email is in one of the user's accounts
     const emailData = await db.execute(sql`
       SELECT id, subject, sender, embedding_vector IS NOT NULL as has_embedding
-      FROM emails WHERE id = ${emailId}
+      FROM emails WHERE id = ${emailId} AND ${inUserAccounts(userId)}
     `);
     
     const email = Array.isArray(emailData) && emailData.length > 0 
@@ -166,9 +172,9 @@ router.get('/vector-similarity/:emailId', async (req: Request, res: Response) =>
     
     // Get related emails using EmailChainService
     const emailChainService = new EmailChainService();
-    const relatedEmails = await emailChainService.findRelatedEmails(emailId, undefined, 5);
+    const relatedEmails = await emailChainService.findRelatedEmails(userId, emailId, undefined, 5);
     
-    // Get raw similarity using vector operations
+    // Get raw similarity to the user's other emails using vector operations
     const rawSimilarityQuery = await db.execute(sql`
       WITH source_email AS (
         SELECT embedding_vector FROM emails WHERE id = ${emailId}
@@ -179,6 +185,7 @@ router.get('/vector-similarity/:emailId', async (req: Request, res: Response) =>
         (1 - (e.embedding_vector <=> (SELECT embedding_vector FROM source_email))) AS similarity_score
       FROM emails e, source_email
       WHERE e.id != ${emailId} AND e.embedding_vector IS NOT NULL
+        AND ${inUserAccounts(userId, sql`e.account_id`)}
       ORDER BY similarity_score DESC
       LIMIT 5
     `);
@@ -0,0 +1,49 @@
+import { Router, Request, Response } from 'express';
+import { threadService } from '../services/threadService';
+import { storage } from '../storage';
+
+const router = Router();
+
+// Get a conversation as an ordered message tree
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const thread = await threadService.getThread(req.session.user!.id, req.params.id);
+    
+    if (!thread) {
+      return res.status(404).json({ error: 'Thread not found' });
+    }
+    
+    res.json(thread);
+  } catch (error) {
+    console.error('Error fetching thread:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Thread emails that have no thread id yet in the user's accounts, or in one of them
+router.post('/backfill', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session.user!.id;
+    const { accountId } = req.body || {};
+    
+    if (accountId && !(await storage.getEmailAccount(userId, Number(accountId)))) {
+      return res.status(404).json({ error: 'Account not found' });
+    }
+    
+    const accountIds = accountId
+      ? [Number(accountId)]
+      : (await storage.getEmailAccounts(userId)).map(account => account.id);
+    
+    let updated = 0;
+    for (const id of accountIds) {
+      updated += await threadService.backfillThreads(id);
+    }
+    
+    res.json({ success: true, updated });
+  } catch (error) {
+    console.error('Error backfilling threads:', error);
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -14,8 +14,8 @@ const router = express.Router();
 
 router.get('/', async (req: Request, res: Response) => {
   try {
-    // Get user ID from session (fallback to 1 for testing)
-    const userId = req.session.user?.id || 1;
+    // Get user ID from session
+    const userId = req.session.user!.id;
     
     // Get query from request
     const query = req.query.q as string;
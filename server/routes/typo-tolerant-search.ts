@@ -78,15 +78,16 @@ async function performTypoTolerantSearch(query: string, userId: number, table: a
 // Search emails with typo tolerance
 router.get('/emails', async (req: Request, res: Response) => {
   try {
-    const { query, userId } = req.query;
+    const { query } = req.query;
+    const userId = req.session.user!.id;
     
-    if (!query || !userId) {
-      return res.status(400).json({ error: 'Query and userId are required' });
+    if (!query) {
+      return res.status(400).json({ error: 'Query is required' });
     }
     
     const results = await performTypoTolerantSearch(
       query as string,
-      parseInt(userId as string),
+      userId,
       emails,
       ['subject', 'bodyText', 'sender'],
       20
@@ -102,15 +103,16 @@ router.get('/emails', async (req: Request, res: Response) => {
 // Search tasks with typo tolerance
 router.get('/tasks', async (req: Request, res: Response) => {
   try {
-    const { query, userId } = req.query;
+    const { query } = req.query;
+    const userId = req.session.user!.id;
     
-    if (!query || !userId) {
-      return res.status(400).json({ error: 'Query and userId are required' });
+    if (!query) {
+      return res.status(400).json({ error: 'Query is required' });
     }
     
     const results = await performTypoTolerantSearch(
       query as string,
-      parseInt(userId as string),
+      userId,
       tasks,
       ['title', 'description'],
       20
@@ -126,16 +128,17 @@ router.get('/tasks', async (req: Request, res: Response) => {
 // Hybrid search combining FTS and vector search for emails
 router.get('/emails/hybrid', async (req: Request, res: Response) => {
   try {
-    const { query, userId, embedding } = req.query;
+    const { query, embedding } = req.query;
+    const userId = req.session.user!.id;
     
-    if (!query || !userId) {
-      return res.status(400).json({ error: 'Query and userId are required' });
+    if (!query) {
+      return res.status(400).json({ error: 'Query is required' });
     }
     
     // First, get FTS results
     const ftsResults = await performTypoTolerantSearch(
       query as string,
-      parseInt(userId as string),
+      userId,
       emails,
       ['subject', 'bodyText', 'sender'],
       15
@@ -153,7 +156,7 @@ router.get('/emails/hybrid', async (req: Request, res: Response) => {
             embedding_vector <=> ${sql.array(parsedEmbedding, 'float')}::vector AS distance
           FROM ${emails._.name}
           WHERE 
-            ${emails.userId} = ${parseInt(userId as string)} AND
+            ${emails.userId} = ${userId} AND
             ${isNotNull(emails.embeddingVector)}
           ORDER BY distance ASC
           LIMIT 15
@@ -213,16 +216,17 @@ router.get('/emails/hybrid', async (req: Request, res: Response) => {
 // Hybrid search combining FTS and vector search for tasks
 router.get('/tasks/hybrid', async (req: Request, res: Response) => {
   try {
-    const { query, userId, embedding } = req.query;
+    const { query, embedding } = req.query;
+    const userId = req.session.user!.id;
     
-    if (!query || !userId) {
-      return res.status(400).json({ error: 'Query and userId are required' });
+    if (!query) {
+      return res.status(400).json({ error: 'Query is required' });
     }
     
     // First, get FTS results
     const ftsResults = await performTypoTolerantSearch(
       query as string,
-      parseInt(userId as string),
+      userId,
       tasks,
       ['title', 'description'],
       15
@@ -240,7 +244,7 @@ router.get('/tasks/hybrid', async (req: Request, res: Response) => {
             embedding_vector <=> ${sql.array(parsedEmbedding, 'float')}::vector AS distance
           FROM ${tasks._.name}
           WHERE 
-            ${tasks.userId} = ${parseInt(userId as string)} AND
+            ${tasks.userId} = ${userId} AND
             ${isNotNull(tasks.embeddingVector)}
           ORDER BY distance ASC
           LIMIT 15
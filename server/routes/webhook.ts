@@ -1,77 +1,86 @@
 import { Router, Request, Response } from 'express';
+import crypto from 'crypto';
 import { db } from '../db';
-import { emailAccounts, emails } from '@shared/schema';
+import { emailAccounts } from '@shared/schema';
 import { eq } from 'drizzle-orm';
-import { gmailService } from '../services';
+import { storage } from '../storage';
+import { jobQueueService } from '../services/jobQueueService';
 import { log } from '../vite';
-import { cache } from '../utils/cache';
 
 const router = Router();
 
+// Most recent messages fetched by a sync a notification triggers
+const NOTIFICATION_SYNC_LIMIT = 10;
+
+/**
+ * Whether the request carries the shared secret from WEBHOOK_SECRET, in an
+ * X-Webhook-Secret header or a ?token= parameter (for providers such as Pub/Sub
+ * push that can only be given a URL)
+ */
+function hasWebhookSecret(req: Request, secret: string): boolean {
+  const given = req.get('x-webhook-secret') || (typeof req.query.token === 'string' ? req.query.token : '');
+  if (!given) {
+    return false;
+  }
+
+  // Compare digests so the comparison takes the same time whatever the length
+  const expected = crypto.createHash('sha256').update(secret).digest();
+  const actual = crypto.createHash('sha256').update(given).digest();
+  return crypto.timingSafeEqual(actual, expected);
+}
+
 /**
  * Webhook endpoint for email providers to notify about updates
- * Support for both Gmail push notifications and Microsoft Graph notifications
+ * Support for both Gmail push notifications and Microsoft Graph notifications.
+ * Notifications only queue a sync, and get the same answer whether or not the
+ * address belongs to an account, so the endpoint can't be used to find out which
+ * addresses are registered.
  */
 router.post('/email-updates', async (req: Request, res: Response) => {
   try {
-    // Extract notification data
+    const secret = process.env.WEBHOOK_SECRET;
+    if (!secret) {
+      return res.status(503).json({
+        error: 'Webhooks are not configured',
+        message: 'Set WEBHOOK_SECRET to accept provider notifications'
+      });
+    }
+
+    if (!hasWebhookSecret(req, secret)) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Missing or invalid webhook secret'
+      });
+    }
+
     const notification = req.body;
-    log(`Received webhook notification: ${JSON.stringify(notification)}`);
 
     // Validate the notification format
-    if (!notification || !notification.emailAddress) {
+    if (!notification || typeof notification.emailAddress !== 'string' || !notification.emailAddress) {
       return res.status(400).json({ 
         error: 'Invalid notification format',
         message: 'Notification must include emailAddress'
       });
     }
 
-    // Find the account associated with this email
-    const [account] = await db
+    // The same address can be connected by more than one user
+    const accounts = await db
       .select()
       .from(emailAccounts)
       .where(eq(emailAccounts.emailAddress, notification.emailAddress));
 
-    if (!account) {
-      return res.status(404).json({ 
-        error: 'Account not found',
-        message: `No account found for email address: ${notification.emailAddress}`
+    for (const account of accounts) {
+      // The sync job skips accounts that are disabled or need to be signed in again
+      await jobQueueService.enqueue('sync-account', { accountId: account.id, limit: NOTIFICATION_SYNC_LIMIT }, {
+        dedupeKey: `sync-account:${account.id}`
       });
+      log(`Webhook queued a sync of account ${account.id}`);
     }
 
-    // Process the notification based on provider type
-    if (account.accountType === 'gmail') {
-      // For Gmail notifications
-      const result = await gmailService.fetchAndStoreEmails(
-        account.emailAddress,
-        account.userId,
-        10 // Fetch only the most recent emails
-      );
-
-      log(`Webhook triggered sync for Gmail account ${account.emailAddress}: ${result.count} new emails`);
-
-      // Invalidate cache to ensure dashboard shows latest data
-      cache.delete(`dashboard_stats_${account.userId}`);
-
-      return res.status(200).json({
-        success: true,
-        message: `Processed ${result.count} new emails from ${account.emailAddress}`
-      });
-    } 
-    else if (account.accountType === 'exchange') {
-      // For Microsoft Exchange/Graph notifications
-      // Exchange service implementation would go here
-      return res.status(200).json({
-        success: true,
-        message: `Exchange webhook received for ${account.emailAddress}, processing queued`
-      });
-    }
-    else {
-      return res.status(400).json({ 
-        error: 'Unsupported account type',
-        message: `Account type ${account.accountType} does not support webhooks`
-      });
-    }
+    return res.status(202).json({
+      success: true,
+      message: 'Notification received'
+    });
   } catch (error) {
     console.error('Error processing webhook notification:', error);
     res.status(500).json({ 
@@ -88,11 +97,8 @@ router.post('/setup/:accountId', async (req: Request, res: Response) => {
   try {
     const { accountId } = req.params;
     
-    // Find the account
-    const [account] = await db
-      .select()
-      .from(emailAccounts)
-      .where(eq(emailAccounts.id, parseInt(accountId)));
+    // Find the account, if it is one of the user's
+    const account = await storage.getEmailAccount(req.session.user!.id, parseInt(accountId));
     
     if (!account) {
       return res.status(404).json({ 
@@ -141,11 +147,8 @@ router.get('/status/:accountId', async (req: Request, res: Response) => {
   try {
     const { accountId } = req.params;
     
-    // Find the account
-    const [account] = await db
-      .select()
-      .from(emailAccounts)
-      .where(eq(emailAccounts.id, parseInt(accountId)));
+    // Find the account, if it is one of the user's
+    const account = await storage.getEmailAccount(req.session.user!.id, parseInt(accountId));
     
     if (!account) {
       return res.status(404).json({ 
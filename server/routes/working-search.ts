@@ -28,7 +28,7 @@ router.get('/tasks', async (req: Request, res: Response) => {
         due_date as "dueDate",
         created_at as "createdAt"
       FROM tasks 
-      WHERE user_id = 1
+      WHERE user_id = $2
       AND (
         title ILIKE $1 
         OR description ILIKE $1
@@ -36,7 +36,7 @@ router.get('/tasks', async (req: Request, res: Response) => {
       )
       ORDER BY created_at DESC 
       LIMIT 20
-    `, [searchPattern]);
+    `, [searchPattern, req.session.user!.id]);
     
     console.log(`✅ SEARCH RESULTS - Tasks: Found ${result.rows.length} results`);
     console.log(`📋 Sample results:`, result.rows.slice(0, 2).map(r => ({
@@ -73,7 +73,7 @@ router.get('/emails', async (req: Request, res: Response) => {
         e.timestamp as "date"
       FROM emails e
       JOIN email_accounts ea ON e.account_id = ea.id
-      WHERE ea.user_id = 1
+      WHERE ea.user_id = $2
       AND (
         e.subject ILIKE $1 
         OR e.sender ILIKE $1 
@@ -81,7 +81,7 @@ router.get('/emails', async (req: Request, res: Response) => {
       )
       ORDER BY e.timestamp DESC 
       LIMIT 20
-    `, [searchPattern]);
+    `, [searchPattern, req.session.user!.id]);
     
     console.log(`✅ SEARCH RESULTS - Emails: Found ${result.rows.length} results`);
     console.log(`📧 Sample results:`, result.rows.slice(0, 2).map(r => ({
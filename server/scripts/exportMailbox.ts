@@ -0,0 +1,44 @@
+// Command-line export of an email account as a zip of an mbox file or EML files, plus bundle.json
+//
+// Usage: npm run export:mailbox -- <accountId> <output.zip> [--format mbox|eml]
+import 'dotenv/config';
+import fs from 'fs';
+import { pool } from '../db';
+import { mailExportService, MAIL_EXPORT_FORMATS, MailExportFormat } from '../services/mailExportService';
+
+function usage(message?: string): never {
+  if (message) console.error(message);
+  console.error('Usage: npm run export:mailbox -- <accountId> <output.zip> [--format mbox|eml]');
+  process.exit(1);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const positional: string[] = [];
+  let format: MailExportFormat = 'mbox';
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--format') {
+      format = args[++i] as MailExportFormat;
+      if (!MAIL_EXPORT_FORMATS.includes(format)) usage(`Unsupported format: ${format}`);
+    } else if (args[i].startsWith('--')) {
+      usage(`Unknown option: ${args[i]}`);
+    } else {
+      positional.push(args[i]);
+    }
+  }
+
+  const [accountArg, outputPath] = positional;
+  const accountId = parseInt(accountArg);
+  if (!accountId || !outputPath) usage();
+
+  const count = await mailExportService.exportAccount(accountId, format, fs.createWriteStream(outputPath));
+  console.log(`Wrote ${count} emails to ${outputPath}`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Export failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,84 @@
+// Command-line import of an mbox file, EML file(s), Maildir tree or export zip into an email account
+//
+// Usage: npm run import:mailbox -- <accountId> <path> [--format mbox|eml|maildir|zip] [--folder NAME] [--no-process] [--no-tasks]
+import 'dotenv/config';
+import { db, pool } from '../db';
+import { emailAccounts, MailImport } from '@shared/schema';
+import { eq } from 'drizzle-orm';
+import { mailImportService } from '../services/mailImportService';
+import { MAILBOX_FORMATS, MailboxFormat } from '../utils/mailboxReader';
+
+function usage(message?: string): never {
+  if (message) console.error(message);
+  console.error('Usage: npm run import:mailbox -- <accountId> <path> [--format mbox|eml|maildir|zip] [--folder NAME] [--no-process] [--no-tasks]');
+  process.exit(1);
+}
+
+function formatProgress(mailImport: MailImport): string {
+  const percent = mailImport.totalBytes > 0
+    ? Math.min(100, Math.round((mailImport.processedBytes / mailImport.totalBytes) * 100))
+    : 0;
+
+  return `${percent}% - ${mailImport.messagesRead} read, ${mailImport.importedCount} imported, ` +
+    `${mailImport.duplicateCount} duplicates, ${mailImport.failedCount} failed`;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const positional: string[] = [];
+  let format: MailboxFormat | undefined;
+  let folder: string | undefined;
+  let processImported = true;
+  let extractTasks = true;
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--format':
+        format = args[++i] as MailboxFormat;
+        if (!MAILBOX_FORMATS.includes(format)) usage(`Unsupported format: ${format}`);
+        break;
+      case '--folder':
+        folder = args[++i];
+        if (!folder) usage('--folder needs a folder name');
+        break;
+      case '--no-process':
+        processImported = false;
+        break;
+      case '--no-tasks':
+        extractTasks = false;
+        break;
+      default:
+        if (args[i].startsWith('--')) usage(`Unknown option: ${args[i]}`);
+        positional.push(args[i]);
+    }
+  }
+
+  const [accountArg, sourcePath] = positional;
+  const accountId = parseInt(accountArg);
+  if (!accountId || !sourcePath) usage();
+
+  const [account] = await db.select().from(emailAccounts).where(eq(emailAccounts.id, accountId));
+  if (!account) usage(`Email account with ID ${accountId} not found`);
+
+  const mailImport = await mailImportService.createImport(accountId, sourcePath, format);
+  console.log(`Import ${mailImport.id}: ${mailImport.format} archive ${sourcePath} into ${account.emailAddress}`);
+
+  const result = await mailImportService.runImport(mailImport, sourcePath, {
+    folder,
+    process: processImported,
+    extractTasks,
+    onProgress: (progress) => console.log(formatProgress(progress))
+  });
+
+  if (result.status === 'failed') {
+    console.error(`Import failed: ${result.error}`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Import failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,23 @@
+// Command-line re-encryption of stored secrets with the active key, after rotating keys
+//
+// Usage: npm run secrets:reencrypt
+//
+// Add the new key to ENCRYPTION_KEYS (keeping the old one), point ENCRYPTION_KEY_ID at it,
+// run this, then remove the old key once nothing reports it.
+import 'dotenv/config';
+import { pool } from '../db';
+import { secretRotationService } from '../services/secretRotationService';
+
+async function main() {
+  const results = await secretRotationService.reEncryptAll();
+  for (const { table, scanned, updated } of results) {
+    console.log(`${table}: re-encrypted ${updated} of ${scanned} rows`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error('Re-encryption failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,107 @@
+import { db } from "../db";
+import { emails, emailAccounts, EmailAccount, Email } from "@shared/schema";
+import { eq } from "drizzle-orm";
+import { emailService } from "./emailService";
+import { exchangeService } from "./exchangeService";
+import { graphService } from "./graphService";
+import { jmapService } from "./jmapService";
+import { flagSyncService } from "./flagSyncService";
+import type { EmailFlag } from "./flagReconciler";
+
+// Account types read over IMAP, which can hold an IDLE connection
+export const IMAP_ACCOUNT_TYPES: EmailAccount['accountType'][] = ['gmail', 'imap'];
+
+// Local flag changes made in quick succession are pushed together after this delay
+const FLAG_PUSH_DELAY = 2000;
+
+const scheduledFlagPushes = new Map<number, NodeJS.Timeout>();
+
+/**
+ * Route a sync to the pipeline for the account's provider and return the number of messages processed.
+ * Local flag changes are pushed first, so the sync reads back the server with them applied.
+ */
+export async function syncAccount(account: EmailAccount, limit = 50, mode: 'incremental' | 'backfill' = 'incremental'): Promise<number> {
+  try {
+    await pushFlagChanges(account);
+  } catch (error) {
+    console.error(`Error pushing flag changes for account ${account.id}:`, error);
+  }
+
+  switch (account.accountType) {
+    case 'exchange':
+      return exchangeService.syncEmails(account.id, limit, mode);
+    case 'outlook_graph':
+      return graphService.syncEmails(account.id, limit, mode);
+    case 'jmap':
+      return jmapService.syncEmails(account.id, limit, mode);
+    default:
+      // Gmail and generic IMAP accounts share the IMAP pipeline
+      return emailService.syncEmails(account.id, limit, mode);
+  }
+}
+
+/**
+ * Route one flag change to the account's provider
+ */
+function pushFlagChange(account: EmailAccount, email: Email, flag: EmailFlag, value: boolean): Promise<Record<string, unknown>> {
+  switch (account.accountType) {
+    case 'exchange':
+      return exchangeService.pushFlagChange(account, email, flag, value);
+    case 'outlook_graph':
+      return graphService.pushFlagChange(account, email, flag, value);
+    case 'jmap':
+      return jmapService.pushFlagChange(account, email, flag, value);
+    default:
+      return emailService.pushFlagChange(account, email, flag, value);
+  }
+}
+
+/**
+ * Push an account's queued local flag changes to its provider, oldest first.
+ * A failed change stays queued for the next push; returns how many were pushed.
+ */
+export async function pushFlagChanges(account: EmailAccount): Promise<number> {
+  const pending = await flagSyncService.getPendingChanges(account.id);
+  let pushed = 0;
+
+  for (const change of pending) {
+    // Re-read the email: an earlier change in this batch may have moved it
+    const [email] = await db.select().from(emails).where(eq(emails.id, change.emailId));
+    if (!email) continue;
+
+    try {
+      const metadata = await pushFlagChange(account, email, change.flag, change.value);
+      await flagSyncService.markPushed(change, metadata);
+      pushed++;
+    } catch (error) {
+      console.error(`Error pushing ${change.flag}=${change.value} for email ${change.emailId}:`, error);
+      await flagSyncService.markPushFailed(change, error as Error);
+    }
+  }
+
+  if (pending.length > 0) {
+    console.log(`Pushed ${pushed} of ${pending.length} flag changes for account ${account.id}`);
+  }
+
+  return pushed;
+}
+
+/**
+ * Push an account's flag changes shortly, folding changes made in the meantime into the same push
+ */
+export function scheduleFlagPush(accountId: number) {
+  if (scheduledFlagPushes.has(accountId)) return;
+
+  scheduledFlagPushes.set(accountId, setTimeout(async () => {
+    scheduledFlagPushes.delete(accountId);
+
+    try {
+      const [account] = await db.select().from(emailAccounts).where(eq(emailAccounts.id, accountId));
+      if (account) {
+        await pushFlagChanges(account);
+      }
+    } catch (error) {
+      console.error(`Error pushing flag changes for account ${accountId}:`, error);
+    }
+  }, FLAG_PUSH_DELAY));
+}
@@ -358,17 +358,19 @@ export class AdaptationLearningService {
   }
   
   /**
-   * Accept or decline a suggested rule
+   * Accept or decline one of the user's suggested rules. Returns false when the
+   * rule doesn't exist or belongs to another user.
    */
-  async updateRuleStatus(ruleId: number, status: 'accepted' | 'declined'): Promise<boolean> {
+  async updateRuleStatus(userId: number, ruleId: number, status: 'accepted' | 'declined'): Promise<boolean> {
     try {
-      await db.execute(sql`
+      const updated = await db.execute(sql`
         UPDATE suggested_rules
         SET status = ${status}
-        WHERE id = ${ruleId}
+        WHERE id = ${ruleId} AND user_id = ${userId}
+        RETURNING id
       `);
       
-      return true;
+      return updated.rows.length > 0;
     } catch (error) {
       log(`Error updating rule status: ${error.message}`, "error");
       return false;
@@ -1,12 +1,11 @@
 import { db } from "../db";
 import { emails } from "@shared/schema";
-import { OpenAI } from "openai";
 import { eq, sql, count } from "drizzle-orm";
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { formatAttachmentSection } from "../utils/attachmentText";
+import { UsageContext, llmService } from "./llmService";
+import { taskExtractionSchema } from "./llmSchemas";
+import { promptService } from "./promptService";
+import { emailPromptValues } from "./defaultPrompts";
 
 /**
  * AI service for email analysis and RAG capabilities
@@ -17,11 +16,12 @@ export class AiService {
    * Handles token limit issues by truncating text if needed
    */
   /**
-   * Generate embeddings using the configured provider (OpenAI or Ollama)
+   * Generate embeddings with the shared embedding model, fitted to the 768-dimension column.
    * Supports both OpenAI's text-embedding-3-small (1536 dimensions) and 
-   * Ollama's nomic-embed-text (768 dimensions)
+   * Ollama's nomic-embed-text (768 dimensions). The usage context says who the
+   * call is recorded against.
    */
-  async generateEmbedding(text: string): Promise<number[]> {
+  async generateEmbedding(text: string, usage: UsageContext = {}): Promise<number[]> {
     try {
       // Safety check for empty input text
       if (!text || text.trim().length === 0) {
@@ -30,9 +30,6 @@ export class AiService {
         return Array(768).fill(0.0001);
       }
       
-      // Use environment variable to determine which embedding provider to use
-      const embeddingProvider = process.env.EMBEDDING_PROVIDER || 'openai';
-      
       // Truncate text to approximately 3000 tokens (about 12K characters)
       // This ensures we stay well under token limits for embedding models
       const truncatedText = text.length > 12000 ? text.substring(0, 12000) : text;
@@ -45,30 +42,9 @@ export class AiService {
       let embedding: number[];
       
       try {
-        if (embeddingProvider === 'ollama') {
-          try {
-            // Try to use Ollama's nomic-embed-text model (768 dimensions)
-            embedding = await this.generateOllamaEmbedding(truncatedText);
-            console.log(`Generated Ollama embedding with ${embedding.length} dimensions`);
-          } catch (ollamaError) {
-            console.warn("Ollama embedding failed, falling back to OpenAI:", ollamaError);
-            // Fall back to OpenAI if Ollama fails (1536 dimensions by default)
-            const response = await openai.embeddings.create({
-              model: "text-embedding-3-small",
-              input: truncatedText,
-            });
-            embedding = response.data[0].embedding;
-            console.log(`Generated OpenAI embedding with ${embedding.length} dimensions`);
-          }
-        } else {
-          // Default to OpenAI (1536 dimensions)
-          const response = await openai.embeddings.create({
-            model: "text-embedding-3-small",
-            input: truncatedText,
-          });
-          embedding = response.data[0].embedding;
-          console.log(`Generated OpenAI embedding with ${embedding.length} dimensions`);
-        }
+        // The shared embedding model (EMBEDDING_PROVIDER / EMBEDDING_MODEL)
+        embedding = await llmService.embed(truncatedText, usage);
+        console.log(`Generated embedding with ${embedding.length} dimensions`);
         
         // Safety check for invalid embedding result
         if (!embedding || !Array.isArray(embedding) || embedding.length === 0) {
@@ -106,7 +82,7 @@ export class AiService {
         else {
           console.error(`CRITICAL: Cannot safely convert ${embedding.length}-dim to 768-dim, using fallback`);
           // Log detailed information for debugging
-          console.error(`Email ID: ${email?.id}, Provider: ${embeddingProvider}, Text length: ${truncatedText.length}`);
+          console.error(`Text length: ${truncatedText.length}`);
           // Return uniform non-zero fallback that won't break similarity search
           embedding = Array(768).fill(0.0001);
         }
@@ -120,35 +96,6 @@ export class AiService {
     }
   }
   
-  /**
-   * Generate embeddings using Ollama's nomic-embed-text model
-   * Returns a 768-dimensional vector
-   */
-  private async generateOllamaEmbedding(text: string): Promise<number[]> {
-    try {
-      const ollamaEndpoint = process.env.OLLAMA_ENDPOINT || 'http://localhost:11434';
-      
-      const response = await fetch(`${ollamaEndpoint}/api/embeddings`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: "nomic-embed-text",
-          prompt: text
-        })
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
-      }
-      
-      const result = await response.json();
-      return result.embedding;
-    } catch (error) {
-      console.error("Error generating Ollama embedding:", error);
-      throw error;
-    }
-  }
-
   /**
    * Update email embeddings for emails that don't have them yet
    * This is a more robust implementation that handles token limits and large batches
@@ -159,11 +106,14 @@ export class AiService {
       // Get emails without embeddings using a safer query approach
       console.log(`Looking for up to ${limit} emails without embeddings`);
       
-      // Use a safer query that explicitly avoids problematic records
+      // Use a safer query that explicitly avoids problematic records. The account
+      // owner is who the embedding calls are recorded against.
       const result = await db.execute(sql.raw(`
-        SELECT * FROM emails 
-        WHERE embedding_vector IS NULL
-        AND id NOT IN (
+        SELECT emails.*, email_accounts.user_id AS owner_id
+        FROM emails
+        JOIN email_accounts ON email_accounts.id = emails.account_id
+        WHERE emails.embedding_vector IS NULL
+        AND emails.id NOT IN (
           SELECT id FROM emails WHERE metadata->>'embeddingError' = 'true'
           LIMIT 1000
         )
@@ -181,6 +131,7 @@ export class AiService {
       let errorCount = 0;
 
       for (const email of emailsWithoutEmbeddings) {
+        const usage: UsageContext = { userId: email.owner_id as number, feature: "email-embedding" };
         try {
           // Skip emails with extremely long content that would exceed token limits
           // Most email bodies under 100K characters should be fine
@@ -194,7 +145,7 @@ export class AiService {
             }`;
             
             try {
-              let truncatedEmbedding = await this.generateEmbedding(truncatedText);
+              let truncatedEmbedding = await this.generateEmbedding(truncatedText, usage);
               
               // Safety check to ensure embedding is a valid array with data
               if (!Array.isArray(truncatedEmbedding) || truncatedEmbedding.length === 0) {
@@ -294,10 +245,10 @@ export class AiService {
           // Using only the first 20K characters for very long emails to avoid token limits
           const textToEmbed = `Subject: ${email.subject || ""}\n\nBody: ${
             bodyLength > 20000 ? (email.body || "").substring(0, 20000) + "... [content truncated]" : (email.body || "")
-          }`;
+          }${formatAttachmentSection(email.attachment_text as string | null)}`;
 
           // Generate embedding - this should always return an array of numbers
-          const embedding = await this.generateEmbedding(textToEmbed);
+          const embedding = await this.generateEmbedding(textToEmbed, usage);
           
           // Safety check to ensure embedding is a valid array with data
           if (!Array.isArray(embedding) || embedding.length === 0) {
@@ -469,83 +420,43 @@ export class AiService {
       // which might not contain actionable tasks
       const isNonActionableEmail = this.isLikelyNonActionable(email.subject, email.sender);
       
-      // Combine subject and body with some context
-      const emailContent = `
-        From: ${email.sender}
-        Subject: ${email.subject || ""}
-        Date: ${email.timestamp ? new Date(email.timestamp).toISOString() : "Unknown"}
-        
-        ${email.body || ""}
-      `;
-
       // Get potential email categories to provide better context
       const emailCategories = this.classifyEmailContent(email.subject, email.body || "");
       
-      // Call OpenAI to extract tasks with enhanced prompt based on email type
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
-        messages: [
-          {
-            role: "system",
-            content: `
-              You are a task extraction assistant specialized in identifying actionable tasks from emails.
-              
-              For each task, extract:
-              - title: A clear, concise task title (max 10 words)
-              - description: More detailed description of what needs to be done (1-2 sentences)
-              - priority: high, medium, or low based on urgency and importance
-              - dueDate: If explicitly mentioned (in ISO format YYYY-MM-DD), otherwise null. If a relative date is mentioned (e.g., "by next Friday", "tomorrow"), convert it to absolute date.
-              - confidence: Your confidence in this being a real task (0.0-1.0)
-              ${emailCategories.includes("work") ? "- category: work-related category (e.g., 'meeting', 'report', 'follow-up', 'project')" : ""}
-              
-              ${isNonActionableEmail ? "This email appears to be a newsletter, promotional content, or automated notification. Be very selective and only extract tasks if they are clearly actionable items requiring follow-up." : "For emails that appear actionable, make sure to identify at least one task that would be worth following up on, even if it's implied rather than explicitly stated."}
-              
-              BE CREATIVE AND THOROUGH in finding actionable tasks in the email. Look beyond explicit requests to identify:
-              
-              1. Implied tasks (e.g., "The meeting is tomorrow" → Task: "Prepare for tomorrow's meeting")
-              2. Follow-up tasks (e.g., "Here are the documents" → Task: "Review the attached documents")
-              3. Response requirements (e.g., "What do you think about this?" → Task: "Respond with feedback")
-              4. Preparatory tasks (e.g., "We'll discuss this next week" → Task: "Prepare talking points for next week's discussion")
-              
-              Consider these contextual clues for identifying tasks:
-              - Direct requests with action verbs ("please send", "can you review", "need you to complete")
-              - Explicit deadlines or timeframes
-              - Questions requiring research or response
-              - Assignments or delegations
-              - Commitments made by the sender that you need to follow up on
-              - Next steps implied in the conversation
-              - Information that requires your acknowledgment or follow-up
-              
-              For emails classified as actionable, ALWAYS extract at least one task even if it's to review, reply, or follow up.
-              
-              Respond with a JSON object containing a "tasks" array. If truly no tasks can be identified, respond with {"tasks": []}.
-            `
-          },
-          { role: "user", content: emailContent }
-        ],
-        response_format: { type: "json_object" }
+      // Extract tasks with the email owner's model and prompt, adapted to the email type
+      const userId = await llmService.getEmailOwner(emailId);
+      if (!userId) {
+        throw new Error(`No account owner found for email ${emailId}`);
+      }
+      
+      const prompt = await promptService.render(userId, "task-extraction", {
+        ...emailPromptValues(email),
+        isWorkEmail: emailCategories.includes("work"),
+        isNonActionable: isNonActionableEmail
       });
-
-      const content = response.choices[0].message.content || "{}";
-      const result = JSON.parse(content);
+      
+      const { data: result } = await llmService.chatStructured(userId, {
+        messages: prompt.messages
+      }, { schema: taskExtractionSchema, feature: "task-extraction" });
       
       // Process the results to enhance or refine tasks
-      const enhancedTasks = (result.tasks || []).map((task: any) => {
+      const enhancedTasks = result.tasks.map(task => {
         // Add default values for any missing fields
         return {
           ...task,
           priority: task.priority || "medium",
           confidence: typeof task.confidence === 'number' ? task.confidence : 0.8,
           // Generate smart defaults for due dates based on priority if not specified
-          dueDate: task.dueDate || this.generateSmartDueDate(task.priority)
+          dueDate: task.dueDate || this.generateSmartDueDate(task.priority || "medium"),
+          promptVersionId: prompt.promptVersionId
         };
       });
       
       // Also add embedding for this email if it doesn't have one yet
       if (!email.embeddingVector) {
         try {
-          const textToEmbed = `Subject: ${email.subject || ""}\n\nBody: ${email.body || ""}`;
-          const embedding = await this.generateEmbedding(textToEmbed);
+          const textToEmbed = `Subject: ${email.subject || ""}\n\nBody: ${email.body || ""}${formatAttachmentSection(email.attachmentText)}`;
+          const embedding = await this.generateEmbedding(textToEmbed, { userId, feature: "email-embedding" });
           
           // Ensure embedding is exactly the expected dimension
           let finalEmbedding = [...embedding];
@@ -736,10 +647,46 @@ export class AiService {
     }
   }
 
+  /**
+   * Summarize an email with its owner's model and summary prompt, and store the
+   * summary with the prompt version that produced it
+   */
+  async summarizeEmail(emailId: number): Promise<{ summary: string, promptVersionId: number }> {
+    const [email] = await db
+      .select()
+      .from(emails)
+      .where(eq(emails.id, emailId));
+
+    if (!email) {
+      throw new Error(`Email not found with ID: ${emailId}`);
+    }
+
+    const userId = await llmService.getEmailOwner(emailId);
+    if (!userId) {
+      throw new Error(`No account owner found for email ${emailId}`);
+    }
+
+    const prompt = await promptService.render(userId, "email-summary", emailPromptValues(email));
+    const response = await llmService.chat(userId, {
+      messages: prompt.messages,
+      temperature: 0.3,
+      maxTokens: 150,
+      feature: "email-summary"
+    });
+    const summary = response.content.trim();
+
+    await db
+      .update(emails)
+      .set({ aiExtractedSummary: summary, aiSummaryPromptVersionId: prompt.promptVersionId })
+      .where(eq(emails.id, emailId));
+
+    return { summary, promptVersionId: prompt.promptVersionId };
+  }
+
   /**
    * Ask questions about emails using RAG (Retrieval Augmented Generation)
    */
-  async askAboutEmails(userId: number, question: string): Promise<{ answer: string, sources: any[] }> {
+  async askAboutEmails(userId: number, question: string): Promise<{ answer: string, sources: any[], promptVersionId?: number }> {
     try {
       // First check if we have any emails with embeddings
       const checkEmbedsResult = await db.execute(sql`
@@ -758,7 +705,7 @@ export class AiService {
       }
       
       // 1. Generate embedding for the question
-      const questionEmbedding = await this.generateEmbedding(question);
+      const questionEmbedding = await this.generateEmbedding(question, { userId, feature: "email-question" });
       
       // 2. Perform vector search to find relevant emails
       // Note: Using pgvector's L2 distance (square_euclidean_distance)
@@ -803,93 +750,25 @@ export class AiService {
         context += `Body: ${truncatedBody}\n\n`;
       });
       
-      // 4. Get user's AI settings and use configured model
-      const aiSettings = await db.select().from(require('../../shared/schema').aiSettings).where(eq(require('../../shared/schema').aiSettings.userId, userId)).limit(1);
-      const settings = aiSettings[0];
+      // 4. Answer with the model and question prompt from the user's AI settings
+      const prompt = await promptService.render(userId, "email-question", { context, question });
       
-      let response;
-      const systemPrompt = `
-        You are an email assistant that helps users understand and analyze their emails.
-        Answer questions based ONLY on the email context provided.
-        Be concise and specific. If the answer cannot be found in the provided emails,
-        say "I couldn't find information about that in your emails."
-        
-        For questions about top senders, dates, or statistics, compile the information
-        from the provided emails to give accurate answers.
-      `;
+      const response = await llmService.chat(userId, {
+        messages: prompt.messages,
+        maxTokens: 1024,
+        feature: "email-question"
+      });
       
-      if (settings?.selectedProvider === 'anthropic' && settings?.anthropicApiKey) {
-        // Use Anthropic Claude
-        const anthropic = new (require('@anthropic-ai/sdk').default)({
-          apiKey: settings.anthropicApiKey,
-        });
-        
-        response = await anthropic.messages.create({
-          model: 'claude-3-7-sonnet-20250219', // the newest Anthropic model is "claude-3-7-sonnet-20250219" which was released February 24, 2025
-          max_tokens: 1024,
-          messages: [{ role: 'user', content: systemPrompt + "\n\n" + context + "\n\nQuestion: " + question }]
-        });
-        
-        const content = response.content[0]?.text || "No answer found";
-        
-        return {
-          answer: content,
-          sources: relevantEmails.map((email: any) => ({
-            id: email.id,
-            from: email.sender,
-            subject: email.subject,
-            date: email.timestamp
-          }))
-        };
-      } else if (settings?.selectedProvider === 'perplexity' && settings?.perplexityApiKey) {
-        // Use Perplexity
-        const perplexity = new OpenAI({
-          apiKey: settings.perplexityApiKey,
-          baseURL: 'https://api.perplexity.ai'
-        });
-        
-        response = await perplexity.chat.completions.create({
-          model: 'llama-3.1-sonar-small-128k-online',
-          messages: [
-            { role: 'system', content: systemPrompt },
-            { role: 'user', content: context + "\n\nQuestion: " + question }
-          ],
-          max_tokens: 1024
-        });
-        
-        const content = response.choices[0].message.content || "No answer found";
-        
-        return {
-          answer: content,
-          sources: relevantEmails.map((email: any) => ({
-            id: email.id,
-            from: email.sender,
-            subject: email.subject,
-            date: email.timestamp
-          }))
-        };
-      } else {
-        // Default to OpenAI (either configured or fallback)
-        response = await openai.chat.completions.create({
-          model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: context + "\n\nQuestion: " + question }
-          ],
-        });
-        
-        const content = response.choices[0].message.content || "No answer found";
-        
-        return {
-          answer: content,
-          sources: relevantEmails.map((email: any) => ({
-            id: email.id,
-            from: email.sender,
-            subject: email.subject,
-            date: email.timestamp
-          }))
-        };
-      }
+      return {
+        answer: response.content || "No answer found",
+        sources: relevantEmails.map((email: any) => ({
+          id: email.id,
+          from: email.sender,
+          subject: email.subject,
+          date: email.timestamp
+        })),
+        promptVersionId: prompt.promptVersionId
+      };
     } catch (error) {
       console.error("Error in askAboutEmails:", error);
       throw error;
@@ -898,9 +777,3 @@ export class AiService {
 }
 
 export const aiService = new AiService();
-
-// Export the askAboutEmails function directly for easier access
-export async function askAboutEmails(question: string): Promise<{ answer: string, sources: any[] }> {
-  const userId = 1; // Using hardcoded userId for demo purposes
-  return aiService.askAboutEmails(userId, question);
-}
\ No newline at end of file
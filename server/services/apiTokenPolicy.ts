@@ -0,0 +1,131 @@
+/**
+ * API Token Policy
+ * The scopes personal API tokens can carry, which scopes each /api endpoint needs,
+ * and the per-token rate limit. Works on plain values and has no database access.
+ */
+
+// Tokens start with this, so they are easy to spot in code and secret scanners
+export const API_TOKEN_PREFIX = 'eta_';
+
+export const API_TOKEN_SCOPES = {
+  'read:emails': 'Read and search emails, threads and drafts',
+  'write:emails': 'Send mail, edit drafts and change emails',
+  'read:tasks': 'Read and search tasks',
+  'write:tasks': 'Create, update and delete tasks, and run task extraction',
+  'read:accounts': 'List email accounts and their sync state',
+  'write:accounts': 'Add, change, sync and remove email accounts',
+  'read:analytics': 'Read dashboard statistics and analytics',
+  'admin': 'Everything, including AI settings, background jobs and maintenance endpoints'
+} as const;
+
+export type ApiTokenScope = keyof typeof API_TOKEN_SCOPES;
+
+export const API_TOKEN_SCOPE_NAMES = Object.keys(API_TOKEN_SCOPES) as ApiTokenScope[];
+
+type ApiResource = 'emails' | 'tasks' | 'accounts' | 'analytics';
+
+// Which resources an /api path touches, first match wins. Paths not listed
+// (AI settings, jobs, test and maintenance endpoints) need the admin scope.
+// Patterns ignore case like Express routing does, or /TOKENS would slip past.
+const RESOURCE_RULES: [RegExp, ApiResource[]][] = [
+  [/^\/(find-tasks|direct-task-search)$/i, ['tasks']],
+  [/^\/(find-emails|direct-email-search)$/i, ['emails']],
+  [/^\/(search|hybrid-search)\/(.*\/)?tasks(\/|$)/i, ['tasks']],
+  [/^\/(search|hybrid-search)\/(.*\/)?emails(\/|$)/i, ['emails']],
+  [/^\/(search|hybrid-search)(\/|$)/i, ['emails', 'tasks']],
+  [/^\/(emails|threads|drafts|clean-emails)(\/|$)/i, ['emails']],
+  [/^\/(tasks|task-extraction|enhanced-batch|feedback|adaptation)(\/|$)/i, ['tasks']],
+  // A mailbox export or import carries the account's emails, tasks and feedback
+  [/^\/email-accounts\/[^/]+\/(export|import)(\/|$)/i, ['accounts', 'emails', 'tasks']],
+  [/^\/email-accounts(\/|$)/i, ['accounts']],
+  [/^\/(stats|analytics)(\/|$)/i, ['analytics']]
+];
+
+// Managing sign-in and tokens needs a browser session, so a leaked token can't mint more
+const SESSION_ONLY_PATHS = /^\/(auth|tokens)(\/|$)/i;
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Whether a bearer credential is one of our tokens, rather than e.g. the signed
+ * JWT a push subscription sends to the webhook
+ */
+export function isApiToken(value: string): boolean {
+  return value.startsWith(API_TOKEN_PREFIX);
+}
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === 'string' && value in API_TOKEN_SCOPES;
+}
+
+export function isSessionOnlyPath(path: string): boolean {
+  return SESSION_ONLY_PATHS.test(path);
+}
+
+/**
+ * Scopes a request needs, all of which the token must grant
+ */
+export function requiredScopes(method: string, path: string): ApiTokenScope[] {
+  const rule = RESOURCE_RULES.find(([pattern]) => pattern.test(path));
+  if (!rule) {
+    return ['admin'];
+  }
+
+  const access = READ_METHODS.includes(method.toUpperCase()) ? 'read' : 'write';
+  return rule[1].map(resource => `${access}:${resource}` as ApiTokenScope);
+}
+
+/**
+ * Whether granted scopes cover a required one: admin covers everything and
+ * write access to a resource includes reading it
+ */
+export function hasScope(granted: readonly string[], required: ApiTokenScope): boolean {
+  if (granted.includes('admin') || granted.includes(required)) {
+    return true;
+  }
+
+  const [access, resource] = required.split(':');
+  return access === 'read' && granted.includes(`write:${resource}`);
+}
+
+export function missingScopes(granted: readonly string[], method: string, path: string): ApiTokenScope[] {
+  return requiredScopes(method, path).filter(scope => !hasScope(granted, scope));
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // When the current window ends (ms since the epoch)
+  resetAt: number;
+}
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+/**
+ * Fixed one-minute windows counted per token, in memory
+ */
+export class TokenRateLimiter {
+  private windows = new Map<number, { startedAt: number; count: number }>();
+
+  hit(tokenId: number, limitPerMinute: number, now = Date.now()): RateLimitResult {
+    let window = this.windows.get(tokenId);
+
+    if (!window || now - window.startedAt >= RATE_LIMIT_WINDOW_MS) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(tokenId, window);
+    }
+
+    const allowed = window.count < limitPerMinute;
+    if (allowed) {
+      window.count++;
+    }
+
+    return {
+      allowed,
+      limit: limitPerMinute,
+      remaining: Math.max(0, limitPerMinute - window.count),
+      resetAt: window.startedAt + RATE_LIMIT_WINDOW_MS
+    };
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * API Token Service
+ * Personal access tokens that scripts send as `Authorization: Bearer <token>`
+ */
+import { db } from '../db';
+import { apiTokens, users, ApiToken, User } from '@shared/schema';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { generateToken, hashToken } from '../utils/passwords';
+import { API_TOKEN_PREFIX, ApiTokenScope, isApiToken } from './apiTokenPolicy';
+
+// Characters of the token kept in plain text to tell tokens apart
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 8;
+
+// Last-used time is written at most this often per token
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export const DEFAULT_RATE_LIMIT_PER_MINUTE = 60;
+
+export interface NewApiToken {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresAt?: Date | null;
+  rateLimitPerMinute?: number;
+}
+
+export type ApiTokenSummary = Omit<ApiToken, 'tokenHash'>;
+
+export interface AuthenticatedToken {
+  token: ApiToken;
+  user: User;
+}
+
+function toSummary(token: ApiToken): ApiTokenSummary {
+  const { tokenHash, ...summary } = token;
+  return summary;
+}
+
+class ApiTokenService {
+  /**
+   * Create a token. The token itself is only returned here; afterwards only its hash is kept.
+   */
+  async create(userId: number, input: NewApiToken): Promise<{ token: string; apiToken: ApiTokenSummary }> {
+    const token = `${API_TOKEN_PREFIX}${generateToken()}`;
+
+    const [apiToken] = await db
+      .insert(apiTokens)
+      .values({
+        userId,
+        name: input.name,
+        tokenHash: hashToken(token),
+        tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+        scopes: input.scopes,
+        rateLimitPerMinute: input.rateLimitPerMinute || DEFAULT_RATE_LIMIT_PER_MINUTE,
+        expiresAt: input.expiresAt || null
+      })
+      .returning();
+
+    return { token, apiToken: toSummary(apiToken) };
+  }
+
+  /**
+   * The user's tokens that have not been revoked, newest first
+   */
+  async list(userId: number): Promise<ApiTokenSummary[]> {
+    const tokens = await db
+      .select()
+      .from(apiTokens)
+      .where(and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .orderBy(desc(apiTokens.createdAt));
+
+    return tokens.map(toSummary);
+  }
+
+  async revoke(userId: number, tokenId: number): Promise<ApiTokenSummary | null> {
+    const [revoked] = await db
+      .update(apiTokens)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiTokens.id, tokenId), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+      .returning();
+
+    return revoked ? toSummary(revoked) : null;
+  }
+
+  /**
+   * Find the live token and its owner for a bearer token; null when it is unknown,
+   * revoked or expired
+   */
+  async authenticate(token: string): Promise<AuthenticatedToken | null> {
+    if (!isApiToken(token)) {
+      return null;
+    }
+
+    const [match] = await db
+      .select({ token: apiTokens, user: users })
+      .from(apiTokens)
+      .innerJoin(users, eq(apiTokens.userId, users.id))
+      .where(and(eq(apiTokens.tokenHash, hashToken(token)), isNull(apiTokens.revokedAt)));
+
+    if (!match || (match.token.expiresAt && match.token.expiresAt <= new Date())) {
+      return null;
+    }
+
+    return match;
+  }
+
+  /**
+   * Record that the token was used, at most once a minute
+   */
+  async recordUse(token: ApiToken, ip: string | undefined): Promise<void> {
+    const now = new Date();
+    if (token.lastUsedAt && now.getTime() - token.lastUsedAt.getTime() < LAST_USED_RESOLUTION_MS && token.lastUsedIp === (ip || null)) {
+      return;
+    }
+
+    await db
+      .update(apiTokens)
+      .set({ lastUsedAt: now, lastUsedIp: ip || null })
+      .where(eq(apiTokens.id, token.id));
+  }
+}
+
+export const apiTokenService = new ApiTokenService();
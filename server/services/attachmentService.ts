@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { db } from '../db';
+import { emails, emailAttachments, EmailAttachment } from '@shared/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { extractAttachmentText, detectAttachmentKind } from '../utils/attachmentText';
+
+// Attachments larger than this are stored but not run through text extraction
+const MAX_EXTRACTION_SIZE = 20 * 1024 * 1024;
+
+/**
+ * An attachment as it comes out of a provider, before it is stored
+ */
+export interface IncomingAttachment {
+  filename?: string;
+  contentType?: string;
+  content: Buffer;
+  contentId?: string;
+  isInline?: boolean;
+}
+
+/**
+ * Service for storing email attachments
+ *
+ * Content is written once per distinct SHA-256 hash under the storage directory
+ * (ATTACHMENT_STORAGE_DIR, default ./data/attachments), so the same file sent in
+ * many emails takes up space only once. Text extracted from each attachment is kept
+ * on its row and rolled up into emails.attachment_text, which the full-text search
+ * trigger, the embedding pipeline and task extraction read.
+ */
+export class AttachmentService {
+  private storageDir = path.resolve(process.env.ATTACHMENT_STORAGE_DIR || path.join('data', 'attachments'));
+
+  /**
+   * Path of the stored content for a hash, fanned out over two directory levels
+   */
+  storagePath(contentHash: string): string {
+    return path.join(this.storageDir, contentHash.slice(0, 2), contentHash.slice(2, 4), contentHash);
+  }
+
+  /**
+   * Write content to the store unless it is already there and return its hash
+   */
+  async writeContent(content: Buffer): Promise<string> {
+    const contentHash = crypto.createHash('sha256').update(content).digest('hex');
+    const target = this.storagePath(contentHash);
+
+    if (fs.existsSync(target)) {
+      return contentHash;
+    }
+
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+    // Write to a temporary file first so a crash never leaves a truncated blob under the final name
+    const tempPath = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(tempPath, content);
+    await fs.promises.rename(tempPath, target);
+
+    return contentHash;
+  }
+
+  /**
+   * Store the attachments of a newly saved email, extract their text and
+   * update the email's combined attachment text
+   */
+  async saveAttachments(emailId: number, attachments: IncomingAttachment[]): Promise<EmailAttachment[]> {
+    const saved: EmailAttachment[] = [];
+
+    for (let index = 0; index < attachments.length; index++) {
+      const attachment = attachments[index];
+      const content = attachment.content;
+      if (!content) continue;
+
+      const filename = attachment.filename || `attachment-${index + 1}`;
+      const contentType = attachment.contentType || 'application/octet-stream';
+      const contentHash = await this.writeContent(content);
+
+      let extractedText: string | null = null;
+      let extractionStatus: EmailAttachment['extractionStatus'] = 'unsupported';
+
+      if (detectAttachmentKind(contentType, filename) && content.length <= MAX_EXTRACTION_SIZE) {
+        try {
+          extractedText = await extractAttachmentText(content, contentType, filename);
+          extractionStatus = 'extracted';
+        } catch (error) {
+          extractionStatus = 'failed';
+          console.error(`Error extracting text from attachment ${filename} of email ${emailId}:`, error);
+        }
+      }
+
+      const [row] = await db.insert(emailAttachments)
+        .values({
+          emailId,
+          filename,
+          contentType,
+          size: content.length,
+          contentHash,
+          contentId: attachment.contentId || null,
+          isInline: !!attachment.isInline,
+          extractedText,
+          extractionStatus
+        })
+        .returning();
+
+      saved.push(row);
+    }
+
+    const attachmentText = this.combineText(saved);
+    if (attachmentText) {
+      await db.update(emails)
+        .set({ attachmentText, updatedAt: new Date() })
+        .where(eq(emails.id, emailId));
+    }
+
+    return saved;
+  }
+
+  /**
+   * Join the extracted text of an email's attachments, each under its filename
+   */
+  private combineText(attachments: EmailAttachment[]): string | null {
+    const sections = attachments
+      .filter(attachment => attachment.extractedText)
+      .map(attachment => `[Attachment: ${attachment.filename}]\n${attachment.extractedText}`);
+
+    return sections.length > 0 ? sections.join('\n\n') : null;
+  }
+
+  /**
+   * List the attachments of an email
+   */
+  async listAttachments(emailId: number): Promise<EmailAttachment[]> {
+    return db.select()
+      .from(emailAttachments)
+      .where(eq(emailAttachments.emailId, emailId))
+      .orderBy(asc(emailAttachments.id));
+  }
+
+  /**
+   * Get one attachment, making sure it belongs to the given email
+   */
+  async getAttachment(emailId: number, attachmentId: number): Promise<EmailAttachment | undefined> {
+    const [attachment] = await db.select()
+      .from(emailAttachments)
+      .where(and(eq(emailAttachments.id, attachmentId), eq(emailAttachments.emailId, emailId)));
+
+    return attachment;
+  }
+
+  /**
+   * Open a read stream on an attachment's stored content
+   */
+  openContent(attachment: EmailAttachment): fs.ReadStream {
+    return fs.createReadStream(this.storagePath(attachment.contentHash));
+  }
+
+  /**
+   * Read an attachment's stored content
+   */
+  readContent(attachment: EmailAttachment): Promise<Buffer> {
+    return fs.promises.readFile(this.storagePath(attachment.contentHash));
+  }
+}
+
+export const attachmentService = new AttachmentService();
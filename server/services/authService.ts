@@ -0,0 +1,252 @@
+/**
+ * Auth Service
+ * Password sign-in, password reset links and TOTP two-factor for users
+ */
+import { db } from '../db';
+import { passwordResetTokens, sessions, users, User } from '@shared/schema';
+import { and, eq, gt, isNull, lt, or, sql } from 'drizzle-orm';
+import { storage } from '../storage';
+import { encryptData, decryptData } from '../utils/encryption';
+import { generateToken, hashPassword, hashToken, verifyPassword } from '../utils/passwords';
+import { generateTotpSecret, matchTotpStep, totpUri } from '../utils/totp';
+import { smtpService, SmtpTlsMode } from './smtpService';
+
+// Reset links stop working after an hour
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// Shown by authenticator apps next to the account name
+const TOTP_ISSUER = 'Email Task Manager';
+
+// Compared against when a username is unknown, so both cases take as long
+const DUMMY_PASSWORD_HASH = 'scrypt$00000000000000000000000000000000$' + '0'.repeat(128);
+
+const APP_URL = process.env.APP_URL || 'http://localhost:5000';
+
+// What the session keeps of the signed-in user
+export interface SessionUser {
+  id: number;
+  username: string;
+  email: string;
+}
+
+export type PublicUser = Omit<User, 'password' | 'totpSecret'>;
+
+export interface RegistrationInput {
+  username: string;
+  email: string;
+  password: string;
+  fullName?: string | null;
+}
+
+class AuthService {
+  toSessionUser(user: User): SessionUser {
+    return { id: user.id, username: user.username, email: user.email };
+  }
+
+  /**
+   * The user without their password hash or two-factor secret, for API responses
+   */
+  publicUser(user: User): PublicUser {
+    const { password, totpSecret, ...rest } = user;
+    return rest;
+  }
+
+  async register(input: RegistrationInput): Promise<User> {
+    return storage.createUser({
+      username: input.username,
+      email: input.email,
+      password: await hashPassword(input.password),
+      fullName: input.fullName || null
+    });
+  }
+
+  /**
+   * Check a username (or email address) and password, returning the user when they match
+   */
+  async authenticate(login: string, password: string): Promise<User | null> {
+    const user = login.includes('@')
+      ? await storage.getUserByEmail(login)
+      : await storage.getUserByUsername(login);
+
+    const matches = await verifyPassword(password, user?.password || DUMMY_PASSWORD_HASH);
+    return user && matches ? user : null;
+  }
+
+  /**
+   * Check the current code from the user's authenticator app. Each code is
+   * accepted once; a code from the same or an earlier step than the last one
+   * used is refused.
+   */
+  async verifyTwoFactor(user: User, code: string): Promise<boolean> {
+    if (!user.totpEnabled || !user.totpSecret) {
+      return false;
+    }
+
+    return this.acceptTotpCode(user, code);
+  }
+
+  /**
+   * Email a password reset link if an account uses this address. Nothing tells the
+   * caller whether one does, so the endpoint can't be used to discover accounts.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await storage.getUserByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    const token = generateToken();
+    await db.insert(passwordResetTokens).values({
+      userId: user.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS)
+    });
+
+    const link = `${APP_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+    try {
+      await this.sendResetLink(user, link);
+    } catch (error) {
+      console.error(`Error sending password reset email to user ${user.id}:`, error);
+    }
+  }
+
+  /**
+   * Set a new password with a reset token. The token is used up, the user's other
+   * outstanding tokens are revoked and every session they had is signed out.
+   */
+  async resetPassword(token: string, newPassword: string): Promise<User | null> {
+    const now = new Date();
+
+    const [used] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, hashToken(token)),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, now)
+      ))
+      .returning();
+
+    if (!used) {
+      return null;
+    }
+
+    const [user] = await db
+      .update(users)
+      .set({ password: await hashPassword(newPassword) })
+      .where(eq(users.id, used.userId))
+      .returning();
+
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: now })
+      .where(and(eq(passwordResetTokens.userId, used.userId), isNull(passwordResetTokens.usedAt)));
+
+    await this.endSessions(used.userId);
+
+    return user || null;
+  }
+
+  /**
+   * Start two-factor setup with a new secret. It only protects sign-in once a code
+   * from the authenticator app has been confirmed with enableTotp.
+   */
+  async setupTotp(user: User): Promise<{ secret: string; uri: string }> {
+    const secret = generateTotpSecret();
+
+    await db
+      .update(users)
+      .set({ totpSecret: encryptData(secret), totpEnabled: false, totpLastStep: null })
+      .where(eq(users.id, user.id));
+
+    return { secret, uri: totpUri(secret, user.email, TOTP_ISSUER) };
+  }
+
+  async enableTotp(user: User, code: string): Promise<boolean> {
+    if (!user.totpSecret || !await this.acceptTotpCode(user, code)) {
+      return false;
+    }
+
+    await db.update(users).set({ totpEnabled: true }).where(eq(users.id, user.id));
+    return true;
+  }
+
+  async disableTotp(user: User, code: string): Promise<boolean> {
+    if (!await this.verifyTwoFactor(user, code)) {
+      return false;
+    }
+
+    await db
+      .update(users)
+      .set({ totpSecret: null, totpEnabled: false, totpLastStep: null })
+      .where(eq(users.id, user.id));
+    return true;
+  }
+
+  /**
+   * Record the code's time step as used. The update only matches while the stored
+   * step is older, so two requests racing with the same code can't both succeed.
+   */
+  private async acceptTotpCode(user: User, code: string): Promise<boolean> {
+    const step = matchTotpStep(decryptData(user.totpSecret!), code);
+    if (step === null) {
+      return false;
+    }
+
+    const [accepted] = await db
+      .update(users)
+      .set({ totpLastStep: step })
+      .where(and(
+        eq(users.id, user.id),
+        or(isNull(users.totpLastStep), lt(users.totpLastStep, step))
+      ))
+      .returning({ id: users.id });
+
+    return !!accepted;
+  }
+
+  /**
+   * Delete every stored session signed in as the user
+   */
+  private async endSessions(userId: number): Promise<void> {
+    await db.delete(sessions).where(sql`(${sessions.sess}->'user'->>'id')::int = ${userId}`);
+  }
+
+  /**
+   * Send the link over the SMTP server in SMTP_* settings. Without one (development)
+   * the link is only logged.
+   */
+  private async sendResetLink(user: User, link: string): Promise<void> {
+    const { SMTP_HOST, SMTP_PORT, SMTP_TLS_MODE, SMTP_USER, SMTP_PASSWORD, MAIL_FROM } = process.env;
+
+    if (!SMTP_HOST || !MAIL_FROM) {
+      console.log(`Password reset link for ${user.username}: ${link}`);
+      return;
+    }
+
+    const settings = smtpService.normalizeSmtpSettings({
+      host: SMTP_HOST,
+      port: SMTP_PORT,
+      tlsMode: SMTP_TLS_MODE as SmtpTlsMode | undefined,
+      username: SMTP_USER
+    });
+
+    await smtpService.send(settings, { user: SMTP_USER || MAIL_FROM, password: SMTP_PASSWORD }, {
+      from: MAIL_FROM,
+      to: [user.email],
+      subject: 'Reset your password',
+      text: [
+        `Hi ${user.fullName || user.username},`,
+        '',
+        'Someone asked to reset the password for your account. To choose a new one, open this link within the next hour:',
+        '',
+        link,
+        '',
+        'If you did not ask for this, you can ignore this email and your password will stay the same.'
+      ].join('\n')
+    });
+  }
+}
+
+export const authService = new AuthService();
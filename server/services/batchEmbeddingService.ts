@@ -1,8 +1,10 @@
 import { db } from "../db";
 import { sql, eq, and, isNull } from "drizzle-orm";
 import { AiService } from "./aiService";
+import { llmService } from "./llmService";
 import { emails, tasks } from "@shared/schema";
 import { log } from "../vite";
+import { formatAttachmentSection } from "../utils/attachmentText";
 
 /**
  * Service for handling batch processing of embedding generation
@@ -67,26 +69,11 @@ export class BatchEmbeddingService {
           stats.processed++;
           
           try {
-            // Prepare email text for embedding (combining relevant fields)
-            const emailText = this.prepareEmailTextForEmbedding(email);
-            
-            if (!emailText || emailText.trim().length < 10) {
-              log(`Skipping email ID ${email.id} due to insufficient content`);
+            if (!await this.embedEmail(email)) {
               stats.skipped++;
               continue;
             }
             
-            // Generate embedding
-            const embedding = await this.aiService.generateEmbedding(emailText);
-            
-            // Store embedding in database
-            await db.update(emails)
-              .set({
-                embeddingVector: embedding,
-                embeddingGeneratedAt: new Date()
-              })
-              .where(eq(emails.id, email.id));
-            
             stats.successful++;
             
             // Log progress periodically
@@ -114,6 +101,49 @@ export class BatchEmbeddingService {
     return stats;
   }
   
+  /**
+   * Generate the embedding for one email
+   * 
+   * @param emailId - ID of the email to embed
+   * @returns False when the email has too little content to embed
+   */
+  async generateEmbeddingForEmail(emailId: number): Promise<boolean> {
+    const [email] = await db.select().from(emails).where(eq(emails.id, emailId));
+    
+    if (!email) {
+      throw new Error(`Email with ID ${emailId} not found`);
+    }
+    
+    return this.embedEmail(email);
+  }
+  
+  /**
+   * Embed an email and store the vector; returns false when it was skipped for lack of content
+   */
+  private async embedEmail(email: any): Promise<boolean> {
+    // Prepare email text for embedding (combining relevant fields)
+    const emailText = this.prepareEmailTextForEmbedding(email);
+    
+    if (!emailText || emailText.trim().length < 10) {
+      log(`Skipping email ID ${email.id} due to insufficient content`);
+      return false;
+    }
+    
+    // Generate embedding
+    const userId = await llmService.getEmailOwner(email.id);
+    const embedding = await this.aiService.generateEmbedding(emailText, { userId, feature: "email-embedding" });
+    
+    // Store embedding in database
+    await db.update(emails)
+      .set({
+        embeddingVector: embedding,
+        embeddingGeneratedAt: new Date()
+      })
+      .where(eq(emails.id, email.id));
+    
+    return true;
+  }
+  
   /**
    * Generate embeddings for tasks that don't have them yet
    * Uses batched processing to be efficient and handle errors gracefully
@@ -176,7 +206,7 @@ export class BatchEmbeddingService {
             }
             
             // Generate embedding
-            const embedding = await this.aiService.generateEmbedding(taskText);
+            const embedding = await this.aiService.generateEmbedding(taskText, { userId: task.userId, feature: "task-embedding" });
             
             // Store embedding in database
             await db.update(tasks)
@@ -246,6 +276,9 @@ export class BatchEmbeddingService {
     // Add main content (highest importance)
     text += content;
     
+    // Add text extracted from attachments
+    text += formatAttachmentSection(email.attachmentText);
+    
     // For OpenAI embeddings, truncate to avoid token limits
     // Text-embedding-3-small has ~8k token limit, but we're being conservative
     return this.truncateTextForEmbedding(text);
@@ -0,0 +1,195 @@
+import { db } from '../db';
+import { drafts, emails, Draft, EmailAccount } from '@shared/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { storage } from '../storage';
+import { emailService } from './emailService';
+import { exchangeService } from './exchangeService';
+import { jmapService } from './jmapService';
+import { smtpService } from './smtpService';
+import { buildReply, ReplyMode } from './replyBuilder';
+import type { ImapCredentials } from './imapService';
+
+export interface DraftFields {
+  accountId?: number;
+  to?: string[];
+  cc?: string[] | null;
+  bcc?: string[] | null;
+  subject?: string;
+  body?: string;
+}
+
+/**
+ * Service for composing and sending mail: drafts, reply/forward drafts built
+ * from a stored email, and sending a draft over the account's SMTP server
+ */
+export class ComposeService {
+  async listDrafts(userId: number): Promise<Draft[]> {
+    return db.select().from(drafts).where(eq(drafts.userId, userId)).orderBy(desc(drafts.updatedAt));
+  }
+
+  async getDraft(userId: number, draftId: number): Promise<Draft | undefined> {
+    const [draft] = await db.select().from(drafts).where(and(eq(drafts.id, draftId), eq(drafts.userId, userId)));
+    return draft;
+  }
+
+  /**
+   * Start a new message from scratch
+   */
+  async createDraft(userId: number, fields: DraftFields & { accountId: number }): Promise<Draft> {
+    await this.getAccount(userId, fields.accountId);
+
+    const [draft] = await db.insert(drafts)
+      .values({
+        userId,
+        accountId: fields.accountId,
+        mode: 'new',
+        to: fields.to || [],
+        cc: fields.cc || null,
+        bcc: fields.bcc || null,
+        subject: fields.subject || '',
+        body: fields.body || ''
+      })
+      .returning();
+
+    return draft;
+  }
+
+  async updateDraft(userId: number, draftId: number, fields: DraftFields): Promise<Draft | undefined> {
+    if (fields.accountId !== undefined) {
+      await this.getAccount(userId, fields.accountId);
+    }
+
+    const [draft] = await db.update(drafts)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(and(eq(drafts.id, draftId), eq(drafts.userId, userId)))
+      .returning();
+
+    return draft;
+  }
+
+  async deleteDraft(userId: number, draftId: number): Promise<boolean> {
+    const deleted = await db.delete(drafts)
+      .where(and(eq(drafts.id, draftId), eq(drafts.userId, userId)))
+      .returning({ id: drafts.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * Create a reply, reply-all or forward draft for a stored email, with recipients,
+   * subject, quoted text and threading headers filled in
+   */
+  async createReplyDraft(userId: number, emailId: number, mode: ReplyMode): Promise<Draft | undefined> {
+    const email = await storage.getEmail(userId, emailId);
+    if (!email) return undefined;
+
+    const account = await this.getAccount(userId, email.accountId);
+    const reply = buildReply(email, account.emailAddress, mode);
+
+    const [draft] = await db.insert(drafts)
+      .values({
+        userId,
+        accountId: account.id,
+        mode,
+        sourceEmailId: email.id,
+        ...reply
+      })
+      .returning();
+
+    return draft;
+  }
+
+  /**
+   * Send a draft through the account's SMTP server, record the sent message in emails
+   * and remove the draft
+   */
+  async sendDraft(userId: number, draftId: number) {
+    const draft = await this.getDraft(userId, draftId);
+    if (!draft) return undefined;
+
+    if (draft.to.length === 0 && !draft.cc?.length && !draft.bcc?.length) {
+      throw new Error('The draft has no recipients');
+    }
+
+    const account = await this.getAccount(userId, draft.accountId);
+    const settings = smtpService.resolveSmtpSettings(account);
+    const credentials = await this.getSmtpCredentials(account);
+
+    const sent = await smtpService.send(settings, credentials, {
+      from: account.emailAddress,
+      to: draft.to,
+      cc: draft.cc || [],
+      bcc: draft.bcc || [],
+      subject: draft.subject,
+      text: draft.body,
+      inReplyTo: draft.inReplyTo,
+      references: draft.messageReferences
+    });
+
+    if (sent.accepted.length === 0) {
+      throw new Error(`The server rejected every recipient: ${sent.rejected.join(', ')}`);
+    }
+
+    // Keep the sent copy in the same conversation as the message it answers
+    const [source] = draft.sourceEmailId
+      ? await db.select({ threadId: emails.threadId }).from(emails).where(eq(emails.id, draft.sourceEmailId))
+      : [];
+
+    await emailService.saveEmails(account.id, [{
+      messageId: sent.messageId,
+      sender: account.emailAddress,
+      recipients: draft.to,
+      subject: draft.subject,
+      body: draft.body,
+      bodyHtml: null,
+      threadId: source?.threadId || undefined,
+      inReplyTo: draft.inReplyTo,
+      messageReferences: draft.messageReferences,
+      folder: 'Sent',
+      labels: ['Sent'],
+      timestamp: new Date(),
+      flags: ['\\Seen'],
+      metadata: {
+        cc: draft.cc || [],
+        bcc: draft.bcc || [],
+        sentFromApp: true,
+        draftMode: draft.mode,
+        sourceEmailId: draft.sourceEmailId
+      }
+    }]);
+
+    const [email] = await db.select().from(emails)
+      .where(and(eq(emails.accountId, account.id), eq(emails.messageId, sent.messageId)));
+
+    await this.deleteDraft(userId, draft.id);
+
+    return { email, accepted: sent.accepted, rejected: sent.rejected };
+  }
+
+  // Drafts can only be written and sent from the user's own accounts
+  private async getAccount(userId: number, accountId: number): Promise<EmailAccount> {
+    const account = await storage.getEmailAccount(userId, accountId);
+
+    if (!account) {
+      throw new Error(`Email account with ID ${accountId} not found`);
+    }
+
+    return account;
+  }
+
+  private async getSmtpCredentials(account: EmailAccount): Promise<ImapCredentials> {
+    switch (account.accountType) {
+      case 'gmail':
+      case 'imap':
+        return emailService.getImapCredentials(account);
+      case 'exchange':
+        return exchangeService.getSmtpCredentials(account);
+      case 'jmap':
+        return jmapService.getSmtpCredentials(account);
+      default:
+        throw new Error(`Sending mail is not supported for ${account.accountType} accounts`);
+    }
+  }
+}
+
+export const composeService = new ComposeService();
@@ -0,0 +1,174 @@
+/**
+ * The built-in prompts, seeded into the prompt registry as version 1 of each
+ * template. Change prompts through the registry rather than here: editing a
+ * default doesn't touch templates that have already been seeded.
+ */
+import type { PromptVariable } from '@shared/schema';
+import { formatAttachmentSection } from '../utils/attachmentText';
+
+export interface DefaultPrompt {
+  name: string;
+  description: string;
+  variables: PromptVariable[];
+  system: string | null;
+  user: string;
+}
+
+const emailVariables: PromptVariable[] = [
+  { name: 'subject', type: 'string', required: true, description: 'The email\'s subject' },
+  { name: 'sender', type: 'string', required: true, description: 'Who sent the email' },
+  { name: 'date', type: 'string', required: false, description: 'When it was sent, as an ISO timestamp' },
+  { name: 'body', type: 'string', required: true, description: 'The email\'s text' },
+  { name: 'attachments', type: 'string', required: false, description: 'Text extracted from its attachments' }
+];
+
+/**
+ * Values for the email prompts' variables
+ */
+export function emailPromptValues(email: {
+  subject: string | null;
+  sender: string | null;
+  timestamp: Date | string | null;
+  body: string | null;
+  attachmentText?: string | null;
+}) {
+  return {
+    subject: email.subject || 'No Subject',
+    sender: email.sender || 'Unknown Sender',
+    date: email.timestamp ? new Date(email.timestamp).toISOString() : 'Unknown Date',
+    body: email.body || 'No content available',
+    attachments: formatAttachmentSection(email.attachmentText)
+  };
+}
+
+export const DEFAULT_PROMPTS: DefaultPrompt[] = [
+  {
+    name: 'task-extraction',
+    description: 'Extracts tasks as title, description, priority and due date',
+    variables: [
+      ...emailVariables,
+      { name: 'isWorkEmail', type: 'boolean', required: false, description: 'Set when the email looks work-related' },
+      { name: 'isNonActionable', type: 'boolean', required: false, description: 'Set for newsletters, promotions and notifications' }
+    ],
+    system: `You are a task extraction assistant specialized in identifying actionable tasks from emails.
+
+For each task, extract:
+- title: A clear, concise task title (max 10 words)
+- description: More detailed description of what needs to be done (1-2 sentences)
+- priority: high, medium, or low based on urgency and importance
+- dueDate: If explicitly mentioned (in ISO format YYYY-MM-DD), otherwise null. If a relative date is mentioned (e.g., "by next Friday", "tomorrow"), convert it to absolute date.
+- confidence: Your confidence in this being a real task (0.0-1.0)
+{{#if isWorkEmail}}- category: work-related category (e.g., 'meeting', 'report', 'follow-up', 'project'){{/if}}
+
+{{#if isNonActionable}}This email appears to be a newsletter, promotional content, or automated notification. Be very selective and only extract tasks if they are clearly actionable items requiring follow-up.{{else}}For emails that appear actionable, make sure to identify at least one task that would be worth following up on, even if it's implied rather than explicitly stated.{{/if}}
+
+BE CREATIVE AND THOROUGH in finding actionable tasks in the email. Look beyond explicit requests to identify:
+
+1. Implied tasks (e.g., "The meeting is tomorrow" → Task: "Prepare for tomorrow's meeting")
+2. Follow-up tasks (e.g., "Here are the documents" → Task: "Review the attached documents")
+3. Response requirements (e.g., "What do you think about this?" → Task: "Respond with feedback")
+4. Preparatory tasks (e.g., "We'll discuss this next week" → Task: "Prepare talking points for next week's discussion")
+
+Consider these contextual clues for identifying tasks:
+- Direct requests with action verbs ("please send", "can you review", "need you to complete")
+- Explicit deadlines or timeframes
+- Questions requiring research or response
+- Assignments or delegations
+- Commitments made by the sender that you need to follow up on
+- Next steps implied in the conversation
+- Information that requires your acknowledgment or follow-up
+
+For emails classified as actionable, ALWAYS extract at least one task even if it's to review, reply, or follow up.
+
+Respond with a JSON object containing a "tasks" array. If truly no tasks can be identified, respond with {"tasks": []}.`,
+    user: `From: {{sender}}
+Subject: {{subject}}
+Date: {{date}}
+
+{{body}}{{attachments}}`
+  },
+  {
+    name: 'enhanced-task-extraction',
+    description: 'Extracts tasks with category, priority level, deadline, effort and actors, or classifies the email as non-actionable',
+    variables: emailVariables,
+    system: `You are an AI assistant specialized in analyzing emails to extract actionable tasks, requests, and follow-ups.
+
+When you identify potential tasks in an email, you will return a structured JSON response with an array of detailed task objects.
+If the email is marketing/promotional content or doesn't contain actionable items, clearly indicate this.
+
+Task Categories (choose exactly one from this list for each task):
+- FollowUp_ResponseNeeded (for tasks requiring a reply or check-in)
+- Report_Generation_Submission (for creating, completing or submitting reports/documents)
+- Meeting_Coordination_Prep (for scheduling, organizing, or preparing for meetings)
+- Review_Approval_Feedback (for reviewing materials or providing feedback)
+- Research_Investigation_Analysis (for researching topics or analyzing information)
+- Planning_Strategy_Development (for planning projects or developing strategies)
+- Client_Vendor_Communication (for communication with external parties)
+- Internal_Project_Task (for specific project-related action items)
+- Administrative_Logistics (for operational or administrative tasks)
+- Urgent_Action_Required (for high-priority items needing immediate attention)
+- Information_To_Digest_Review (for items requiring attention but not a discrete task)
+- Personal_Reminder_Appt (for personal appointments or reminders)
+
+For each task identified, provide the following structured information:
+{
+  "suggested_title": "Concise, action-oriented title (max 100 chars)",
+  "detailed_description": "More detailed description including key context or sub-points from the email relevant to this specific task",
+  "source_snippet": "The exact sentence(s) from the email that triggered this task suggestion",
+  "actors_involved": ["Person A", "Department B"], // People/entities directly related to this task
+  "suggested_priority_level": "P3_Medium", // P1_Critical, P2_High, P3_Medium, P4_Low
+  "extracted_deadline_text": "by next Friday EOD", // Textual deadline for this specific task, exactly as mentioned in email
+  "suggested_category": "Report_Generation_Submission", // From the categories specified above
+  "estimated_effort_minutes": 60, // Optional: Your best estimate of time required
+  "is_recurring_hint": false, // Boolean: Whether this appears to be a recurring task
+  "reminder_suggestion_text": "remind me 1 day before deadline", // Optional: Your suggestion for a reminder timing
+  "confidence_in_task_extraction": 0.85 // Your confidence for this specific task (0.0-1.0)
+}
+
+If the email is purely marketing/promotional or contains no actionable tasks, return:
+{
+  "email_classification": "marketing_promotional" or "non_actionable",
+  "explanation": "Brief explanation of why no tasks were extracted"
+}
+
+Return your response in valid JSON format with either an "email_classification" field or a "tasks" array.`,
+    user: `Please analyze this email and extract any actionable tasks:
+
+Email Subject: {{subject}}
+From: {{sender}}
+Date: {{date}}
+
+Content:
+{{body}}{{attachments}}`
+  },
+  {
+    name: 'email-summary',
+    description: 'Summarizes an email in a few sentences',
+    variables: emailVariables,
+    system: null,
+    user: `Summarize this email in 2-3 sentences, focusing on key points and any required actions:
+
+Email Subject: {{subject}}
+From: {{sender}}
+
+{{body}}{{attachments}}`
+  },
+  {
+    name: 'email-question',
+    description: 'Answers a question from the emails found for it',
+    variables: [
+      { name: 'context', type: 'string', required: true, description: 'The relevant emails, with sender, subject, date and body' },
+      { name: 'question', type: 'string', required: true, description: 'The user\'s question' }
+    ],
+    system: `You are an email assistant that helps users understand and analyze their emails.
+Answer questions based ONLY on the email context provided.
+Be concise and specific. If the answer cannot be found in the provided emails,
+say "I couldn't find information about that in your emails."
+
+For questions about top senders, dates, or statistics, compile the information
+from the provided emails to give accurate answers.`,
+    user: `{{context}}
+
+Question: {{question}}`
+  }
+];
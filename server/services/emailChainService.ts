@@ -2,6 +2,7 @@ import { db } from "../db";
 import { emails, emailSemanticLinks } from "@shared/schema";
 import { sql, and, eq, lt, ne, or } from "drizzle-orm";
 import { Email } from "@shared/schema";
+import { storage, inUserAccounts } from "../storage";
 
 // Define the format for related emails
 export interface RelatedEmail {
@@ -25,16 +26,19 @@ export class EmailChainService {
    * 3. Semantic similarity - emails with similar content based on embeddings
    * 4. Pre-computed semantic links - stored strong relationships from past analysis
    * 
+   * Only the user's own emails are searched, and an email outside the user's accounts has no relations.
+   * 
+   * @param userId - The user whose emails are searched
    * @param emailId - The ID of the email to find relations for
    * @param accountId - Optional filter by email account ID
    * @param maxResults - Maximum number of related emails to return (default 10)
    * @returns Array of related emails with metadata about relation type
    */
-  async findRelatedEmails(emailId: number, accountId?: number, maxResults = 10): Promise<RelatedEmail[]> {
+  async findRelatedEmails(userId: number, emailId: number, accountId?: number, maxResults = 10): Promise<RelatedEmail[]> {
     try {
       // Get the original email
       const emailResults = await db.execute(sql`
-        SELECT * FROM emails WHERE id = ${emailId}
+        SELECT * FROM emails WHERE id = ${emailId} AND ${inUserAccounts(userId)}
       `);
       
       const emailList = Array.isArray(emailResults) ? emailResults : emailResults?.rows || [];
@@ -53,36 +57,23 @@ export class EmailChainService {
       
       // Step 1: Check pre-computed semantic links (if available)
       try {
-        const preComputedLinks = await this.getPreComputedLinks(emailId);
+        const preComputedLinks = await storage.getEmailLinks(userId, emailId);
         console.log(`Found ${preComputedLinks.length} precomputed links for email ${emailId}`);
         
         if (preComputedLinks && preComputedLinks.length > 0) {
           for (const link of preComputedLinks) {
-            const relatedId = parseInt(link.email_id_a) === emailId ? parseInt(link.email_id_b) : parseInt(link.email_id_a);
+            const relatedId = link.emailIdA === emailId ? link.emailIdB : link.emailIdA;
             if (!seenIds.has(relatedId)) {
-            const relatedEmailResults = await db.execute(sql`
-              SELECT id, subject, sender, timestamp FROM emails WHERE id = ${relatedId}
-            `);
-            
-            const relatedEmailList = Array.isArray(relatedEmailResults) 
-              ? relatedEmailResults 
-              : relatedEmailResults?.rows || [];
-            
-            const relatedEmail = relatedEmailList.length > 0 ? relatedEmailList[0] : null;
+            const relatedEmail = await storage.getEmail(userId, relatedId);
             
             if (relatedEmail) {
-              const relationType = 
-                typeof link.link_type === 'string' && ['thread', 'subject', 'semantic'].includes(link.link_type) 
-                  ? link.link_type as 'thread' | 'subject' | 'semantic'
-                  : 'semantic';
-                  
               result.push({
                 id: relatedEmail.id,
                 subject: relatedEmail.subject,
                 sender: relatedEmail.sender,
                 timestamp: relatedEmail.timestamp,
-                relation_type: relationType,
-                similarity_score: typeof link.similarity_score === 'number' ? link.similarity_score : null
+                relation_type: link.linkType,
+                similarity_score: link.similarityScore
               });
               seenIds.add(relatedEmail.id);
             }
@@ -111,6 +102,7 @@ export class EmailChainService {
           FROM emails 
           WHERE thread_id = ${email.thread_id}
             AND id != ${emailId}
+            AND ${inUserAccounts(userId)}
             ${accountFilter}
           ORDER BY timestamp DESC
           LIMIT ${maxResults - result.length}
@@ -163,6 +155,7 @@ export class EmailChainService {
           WHERE id != ${emailId}
             AND ${cleanSubject} % regexp_replace(subject, '^(re|fwd|fw|forward)(\\[\\d+\\])?:\\s*', '', 'i')
             AND NOT (thread_id = ${email.thread_id} AND ${email.thread_id} IS NOT NULL)
+            AND ${inUserAccounts(userId)}
             ${accountFilter}
           ORDER BY subj_similarity DESC
           LIMIT ${maxResults - result.length}
@@ -245,6 +238,7 @@ export class EmailChainService {
               WHERE id != ${emailId}
                 AND id <> ALL(${Array.from(seenIds)})
                 AND embedding_vector IS NOT NULL
+                AND ${inUserAccounts(userId)}
                 ${accountFilter}
               ORDER BY semantic_score DESC
               LIMIT ${maxResults - result.length}
@@ -293,25 +287,6 @@ export class EmailChainService {
     }
   }
   
-  /**
-   * Get pre-computed semantic links for an email from the database
-   */
-  private async getPreComputedLinks(emailId: number): Promise<any[]> {
-    try {
-      const links = await db.execute(sql`
-        SELECT email_id_a, email_id_b, similarity_score, link_type
-        FROM email_semantic_links
-        WHERE email_id_a = ${emailId} OR email_id_b = ${emailId}
-        ORDER BY similarity_score DESC
-      `);
-      
-      return Array.isArray(links) ? links : links?.rows || [];
-    } catch (error) {
-      console.error("Error getting pre-computed links:", error);
-      return [];
-    }
-  }
-  
   /**
    * Store a relationship between two emails
    * @param emailIdA - First email ID
@@ -431,78 +406,9 @@ export class EmailChainService {
       
       // Process each email to find semantic relationships
       for (const email of emails) {
-        // Find semantically similar emails using vector similarity
-        // Only process emails with valid embedding vectors
-        if (!email.embedding_vector) {
-          console.log(`Email ${email.id} doesn't have valid embedding_vector, skipping semantic analysis`);
-          continue;
-        }
-        
-        // Handle embedding vector format for pgvector compatibility
-        let vectorValue = null;
-        
-        if (typeof email.embedding_vector === 'string') {
-          try {
-            vectorValue = JSON.parse(email.embedding_vector);
-            console.log(`Email ${email.id} has string embedding vector, parsed successfully`);
-          } catch (e) {
-            // Might already be a vector string representation
-            vectorValue = email.embedding_vector;
-            console.log(`Email ${email.id} has string embedding vector, using directly`);
-          }
-        } else if (Array.isArray(email.embedding_vector)) {
-          vectorValue = email.embedding_vector;
-          console.log(`Email ${email.id} has array embedding vector of length ${vectorValue.length}`);
-        } else if (email.embedding_vector && typeof email.embedding_vector === 'object') {
-          // PostgreSQL might return the vector as an object
-          vectorValue = email.embedding_vector;
-          console.log(`Email ${email.id} has object embedding vector`);
-        }
-        
-        if (!vectorValue) {
-          console.log(`Email ${email.id} has invalid embedding_vector format, skipping`);
-          continue;
-        }
-        
         try {
-          // Convert to string for SQL, handling different formats
-          const vectorString = Array.isArray(vectorValue) ? JSON.stringify(vectorValue) : vectorValue.toString();
-          
-          // Use the vector as text and cast it properly in the query
-          const similarEmails = await db.execute(sql`
-            SELECT id, subject,
-                  (1 - (embedding_vector <=> ${vectorString}::vector)) AS similarity
-            FROM emails
-            WHERE id != ${email.id}
-              AND embedding_vector IS NOT NULL
-              ${accountId ? sql` AND account_id = ${accountId}` : sql``}
-              AND (1 - (embedding_vector <=> ${vectorString}::vector)) > 0.85
-            ORDER BY similarity DESC
-            LIMIT 10
-          `);
-          
-          const similarResults = Array.isArray(similarEmails) 
-            ? similarEmails 
-            : similarEmails?.rows || [];
-        
-          // Store high-confidence relationships
-          for (const similar of similarResults) {
-            // Convert similarity to a score from 0-100
-            const similarityScore = Math.round(similar.similarity * 100);
-            
-            // Only store strong relationships (similarity > 0.85)
-            if (similarityScore >= 85) {
-              // Store the relationship
-              await this.storeRelationship(
-                email.id,
-                similar.id,
-                'semantic',
-                similarityScore
-              );
-              
-              relationshipsCount++;
-            }
-          }
+          // Links never cross accounts, so they never cross users either
+          relationshipsCount += await this.linkSimilarEmails(email, email.account_id);
         } catch (error) {
           console.error(`Error processing semantic similarity for email ${email.id}:`, error);
         }
@@ -517,10 +423,112 @@ export class EmailChainService {
   }
   
   /**
-   * Get detailed statistics about email relationships in the system
+   * Find and store semantic relationships for one email as soon as its embedding exists.
+   * Matches are limited to the email's own account.
+   */
+  async updateRelationshipsForEmail(emailId: number): Promise<number> {
+    const result = await db.execute(sql`
+      SELECT id, account_id, embedding_vector
+      FROM emails
+      WHERE id = ${emailId}
+    `);
+    const [email] = Array.isArray(result) ? result : result?.rows || [];
+    
+    if (!email) {
+      throw new Error(`Email with ID ${emailId} not found`);
+    }
+    
+    const relationshipsCount = await this.linkSimilarEmails(email, email.account_id);
+    console.log(`Stored ${relationshipsCount} semantic relationships for email ${emailId}`);
+    return relationshipsCount;
+  }
+  
+  /**
+   * Store a semantic relationship between an email row (with its embedding_vector) and
+   * each email whose embedding is more than 85% similar; returns the number stored
+   */
+  private async linkSimilarEmails(email: any, accountId?: number): Promise<number> {
+    // Only process emails with valid embedding vectors
+    if (!email.embedding_vector) {
+      console.log(`Email ${email.id} doesn't have valid embedding_vector, skipping semantic analysis`);
+      return 0;
+    }
+    
+    // Handle embedding vector format for pgvector compatibility
+    let vectorValue = null;
+    
+    if (typeof email.embedding_vector === 'string') {
+      try {
+        vectorValue = JSON.parse(email.embedding_vector);
+        console.log(`Email ${email.id} has string embedding vector, parsed successfully`);
+      } catch (e) {
+        // Might already be a vector string representation
+        vectorValue = email.embedding_vector;
+        console.log(`Email ${email.id} has string embedding vector, using directly`);
+      }
+    } else if (Array.isArray(email.embedding_vector)) {
+      vectorValue = email.embedding_vector;
+      console.log(`Email ${email.id} has array embedding vector of length ${vectorValue.length}`);
+    } else if (email.embedding_vector && typeof email.embedding_vector === 'object') {
+      // PostgreSQL might return the vector as an object
+      vectorValue = email.embedding_vector;
+      console.log(`Email ${email.id} has object embedding vector`);
+    }
+    
+    if (!vectorValue) {
+      console.log(`Email ${email.id} has invalid embedding_vector format, skipping`);
+      return 0;
+    }
+    
+    // Convert to string for SQL, handling different formats
+    const vectorString = Array.isArray(vectorValue) ? JSON.stringify(vectorValue) : vectorValue.toString();
+    
+    // Use the vector as text and cast it properly in the query
+    const similarEmails = await db.execute(sql`
+      SELECT id, subject,
+            (1 - (embedding_vector <=> ${vectorString}::vector)) AS similarity
+      FROM emails
+      WHERE id != ${email.id}
+        AND embedding_vector IS NOT NULL
+        ${accountId ? sql` AND account_id = ${accountId}` : sql``}
+        AND (1 - (embedding_vector <=> ${vectorString}::vector)) > 0.85
+      ORDER BY similarity DESC
+      LIMIT 10
+    `);
+    
+    const similarResults = Array.isArray(similarEmails) 
+      ? similarEmails 
+      : similarEmails?.rows || [];
+    
+    let relationshipsCount = 0;
+    
+    // Store high-confidence relationships
+    for (const similar of similarResults) {
+      // Convert similarity to a score from 0-100
+      const similarityScore = Math.round(similar.similarity * 100);
+      
+      // Only store strong relationships (similarity > 0.85)
+      if (similarityScore >= 85) {
+        // Store the relationship
+        await this.storeRelationship(
+          email.id,
+          similar.id,
+          'semantic',
+          similarityScore
+        );
+        
+        relationshipsCount++;
+      }
+    }
+    
+    return relationshipsCount;
+  }
+  
+  /**
+   * Get detailed statistics about the relationships between the user's emails
    * Includes overall counts, distribution of similarity scores, and sample links
    */
-  async getRelationshipStats(): Promise<{
+  async getRelationshipStats(userId: number): Promise<{
     totalLinks: number;
     threadLinks: number;
     subjectLinks: number;
@@ -541,6 +549,7 @@ export class EmailChainService {
           COUNT(*) FILTER (WHERE similarity_score >= 90) AS high_confidence_links,
           COUNT(*) FILTER (WHERE created_at > NOW() - INTERVAL '1 day') AS recent_links
         FROM email_semantic_links
+        WHERE email_id_a IN (SELECT id FROM emails WHERE ${inUserAccounts(userId)})
       `);
       
       // Handle different result formats (array or rows property)
@@ -563,6 +572,7 @@ export class EmailChainService {
             COUNT(*) as count
           FROM email_semantic_links
           WHERE link_type = 'semantic'
+            AND email_id_a IN (SELECT id FROM emails WHERE ${inUserAccounts(userId)})
           GROUP BY range_name
         )
         SELECT range_name, count FROM score_ranges
@@ -596,6 +606,7 @@ export class EmailChainService {
         FROM email_semantic_links esl
         JOIN emails e1 ON esl.email_id_a = e1.id
         JOIN emails e2 ON esl.email_id_b = e2.id
+        WHERE ${inUserAccounts(userId, sql`e1.account_id`)}
         ORDER BY esl.created_at DESC
         LIMIT 5
       `);
@@ -1,29 +1,31 @@
-import Imap from 'node-imap';
-import { simpleParser } from 'mailparser';
-import CryptoJS from 'crypto-js';
 import { db } from '../db';
-import { emails, emailAccounts, InsertEmail } from '@shared/schema';
-import { eq } from 'drizzle-orm';
+import { emails, emailAccounts, Email, EmailAccount, InsertEmail } from '@shared/schema';
+import { and, eq } from 'drizzle-orm';
+import { imapService, ImapCredentials, ImapMessageUpdate, ImapServerSettings, ImapSpecialFolder, ImapSyncMode } from './imapService';
+import { syncStateService } from './syncStateService';
+import { attachmentService } from './attachmentService';
+import { threadService } from './threadService';
+import { jobQueueService } from './jobQueueService';
+import { flagSyncService } from './flagSyncService';
+import { oauthService } from './oauthService';
+import { EmailFlag, flagStateFromImap } from './flagReconciler';
+import { decryptJson, encryptJson } from '../utils/encryption';
 
-const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'default-encryption-key';
+// How long a server's default folder selection is reused before listing folders again
+const FOLDER_CACHE_TTL = 60 * 60 * 1000;
 
 /**
  * Service for handling email operations
  */
 class EmailService {
+  private defaultFoldersCache = new Map<number, { folders: string[]; expiresAt: number }>();
+  private specialFoldersCache = new Map<number, { folders: Record<ImapSpecialFolder, string | null>; expiresAt: number }>();
+  
   // Decrypt credentials stored in the database
   private decryptCredentials(encryptedCredentials: any): any {
     try {
       if (typeof encryptedCredentials === 'string') {
-        const bytes = CryptoJS.AES.decrypt(encryptedCredentials, ENCRYPTION_KEY);
-        const decryptedData = bytes.toString(CryptoJS.enc.Utf8);
-        return JSON.parse(decryptedData);
-      } else if (typeof encryptedCredentials === 'object') {
-        // Handle case where credentials might already be a JSON object
-        const credentialsStr = JSON.stringify(encryptedCredentials);
-        const bytes = CryptoJS.AES.decrypt(credentialsStr, ENCRYPTION_KEY);
-        const decryptedData = bytes.toString(CryptoJS.enc.Utf8);
-        return JSON.parse(decryptedData);
+        return decryptJson(encryptedCredentials);
       }
       throw new Error('Invalid credentials format');
     } catch (error) {
@@ -32,205 +34,36 @@ class EmailService {
     }
   }
 
-  // Connect to Gmail IMAP server with given credentials
-  private createImapConnection(credentials: any): Imap {
-    return new Imap({
-      user: credentials.email,
-      password: credentials.password, // App password for Gmail
-      host: 'imap.gmail.com',
-      port: 993,
-      tls: true,
-      tlsOptions: { rejectUnauthorized: false }
-    });
+  // Clean the body text of emails fetched over IMAP
+  private cleanEmailContent(text: string): string {
+    if (!text) return '';
+    // Remove URLs
+    let cleaned = text.replace(/https?:\/\/[^\s]+/g, '[URL REMOVED]');
+    // Remove image references
+    cleaned = cleaned.replace(/\[image:[^\]]*\]/g, '[IMAGE REMOVED]');
+    // Remove large blocks of whitespace
+    cleaned = cleaned.replace(/\n\s*\n\s*\n+/g, '\n\n');
+    return cleaned;
   }
 
-  // Fetch emails for a specific account
-  async fetchEmails(accountId: number, limit = 50): Promise<any[]> {
+  // Save emails to database and return how many were new.
+  // A message seen again in another folder (e.g. Gmail's All Mail) keeps its first folder
+  // and picks up any labels it didn't have yet.
+  async saveEmails(accountId: number, emailsData: any[]): Promise<number> {
     try {
-      // Get account information from database
-      const accountResult = await db.select().from(emailAccounts).where(eq(emailAccounts.id, accountId));
-      
-      if (!accountResult || accountResult.length === 0) {
-        throw new Error('Email account not found');
-      }
-      
-      const account = accountResult[0];
+      let storedCount = 0;
       
-      // Decrypt stored credentials
-      const credentials = this.decryptCredentials(account.credentials);
-      
-      return new Promise((resolve, reject) => {
-        const imap = this.createImapConnection({
-          email: account.emailAddress,
-          password: credentials.password
-        });
-        
-        const fetchedEmails: any[] = [];
-        
-        imap.once('ready', () => {
-          imap.openBox('INBOX', false, (err, mailbox) => {
-            if (err) {
-              imap.end();
-              return reject(err);
-            }
-            
-            // Search for all emails or apply filters as needed
-            imap.search(['ALL'], (err, results) => {
-              if (err) {
-                imap.end();
-                return reject(err);
-              }
-              
-              // Limit the number of emails to fetch
-              const emailsToFetch = results.slice(-limit);
-              
-              if (emailsToFetch.length === 0) {
-                imap.end();
-                return resolve([]);
-              }
-              
-              const fetch = imap.fetch(emailsToFetch, {
-                bodies: ['HEADER.FIELDS (FROM TO SUBJECT DATE)', 'TEXT'],
-                struct: true
-              });
-              
-              fetch.on('message', (msg, seqno) => {
-                const email: any = {
-                  messageId: '',
-                  sender: '',
-                  recipients: [],
-                  subject: '',
-                  body: '',
-                  bodyHtml: '',
-                  timestamp: new Date(),
-                  metadata: {}
-                };
-                
-                msg.on('body', (stream, info) => {
-                  let buffer = '';
-                  
-                  stream.on('data', (chunk) => {
-                    buffer += chunk.toString('utf8');
-                  });
-                  
-                  stream.once('end', () => {
-                    if (info.which.includes('HEADER')) {
-                      const header = Imap.parseHeader(buffer);
-                      
-                      email.messageId = Array.isArray(header['message-id']) 
-                        ? header['message-id'][0] 
-                        : header['message-id'] || `${Date.now()}-${seqno}`;
-                      
-                      email.sender = Array.isArray(header.from) 
-                        ? header.from[0] 
-                        : header.from || '';
-                      
-                      email.recipients = Array.isArray(header.to) 
-                        ? header.to 
-                        : header.to ? [header.to] : [];
-                      
-                      email.subject = Array.isArray(header.subject) 
-                        ? header.subject[0] 
-                        : header.subject || '(No Subject)';
-                      
-                      if (header.date && header.date.length > 0) {
-                        email.timestamp = new Date(header.date[0]);
-                      }
-                    } else {
-                      simpleParser(buffer, (err, parsed) => {
-                        if (err) {
-                          console.error('Error parsing email:', err);
-                          return;
-                        }
-                        
-                        // Clean the body and set HTML to null to prevent images
-                        const cleanEmailContent = (text: string): string => {
-                          if (!text) return '';
-                          // Remove URLs
-                          let cleaned = text.replace(/https?:\/\/[^\s]+/g, '[URL REMOVED]');
-                          // Remove image references
-                          cleaned = cleaned.replace(/\[image:[^\]]*\]/g, '[IMAGE REMOVED]');
-                          // Remove large blocks of whitespace
-                          cleaned = cleaned.replace(/\n\s*\n\s*\n+/g, '\n\n');
-                          return cleaned;
-                        };
-                        
-                        email.body = cleanEmailContent(parsed.text || '');
-                        email.bodyHtml = null; // Setting HTML to null prevents images from loading
-                        
-                        // Store additional metadata
-                        email.metadata = {
-                          headers: parsed.headers,
-                          attachments: parsed.attachments ? parsed.attachments.length : 0,
-                          hasAttachments: parsed.attachments && parsed.attachments.length > 0
-                        };
-                      });
-                    }
-                  });
-                });
-                
-                msg.once('attributes', (attrs) => {
-                  email.uid = attrs.uid;
-                  email.flags = attrs.flags;
-                  email.threadId = attrs['x-gm-thrid'];
-                  
-                  // Update metadata with Gmail-specific attributes
-                  email.metadata = {
-                    ...email.metadata,
-                    gmailLabels: attrs['x-gm-labels'],
-                    threadId: attrs['x-gm-thrid'],
-                    messageId: attrs['x-gm-msgid']
-                  };
-                });
-                
-                msg.once('end', () => {
-                  fetchedEmails.push(email);
-                });
-              });
-              
-              fetch.once('error', (err) => {
-                console.error('Fetch error:', err);
-                imap.end();
-                reject(err);
-              });
-              
-              fetch.once('end', () => {
-                console.log(`Fetched ${fetchedEmails.length} messages`);
-                imap.end();
-              });
-            });
-          });
-        });
-        
-        imap.once('error', (err) => {
-          console.error('IMAP connection error:', err);
-          reject(err);
-        });
-        
-        imap.once('end', () => {
-          console.log('IMAP connection ended');
-          resolve(fetchedEmails);
-        });
-        
-        imap.connect();
-      });
-    } catch (error) {
-      console.error('Error in fetchEmails:', error);
-      throw error;
-    }
-  }
-  
-  // Save emails to database
-  async saveEmails(accountId: number, emailsData: any[]): Promise<void> {
-    try {
       for (const emailData of emailsData) {
-        // Check if email already exists to avoid duplicates
+        // Check if the account already has this email to avoid duplicates. Another
+        // account (of this or another user) receiving the same message gets its own copy.
         const existingEmails = await db
           .select()
           .from(emails)
-          .where(eq(emails.messageId, emailData.messageId));
+          .where(and(eq(emails.accountId, accountId), eq(emails.messageId, emailData.messageId)));
           
         if (existingEmails.length === 0) {
+          const flags = flagStateFromImap(emailData.flags || [], emailData.metadata?.gmailLabels || []);
+          
           // Prepare email data for insertion
           const newEmail: InsertEmail = {
             accountId,
@@ -241,18 +74,58 @@ class EmailService {
             body: emailData.body,
             bodyHtml: emailData.bodyHtml,
             threadId: emailData.threadId,
+            inReplyTo: emailData.inReplyTo,
+            messageReferences: emailData.messageReferences,
+            folder: emailData.folder,
+            labels: emailData.labels,
             timestamp: emailData.timestamp,
             metadata: emailData.metadata,
             processed: false,
-            isRead: emailData.flags?.includes('\\Seen') || false,
-            isArchived: emailData.flags?.includes('\\Deleted') || false
+            isRead: flags.read!,
+            isStarred: flags.starred!,
+            isArchived: false,
+            isDeleted: flags.deleted!,
+            serverFlags: { ...flags, archived: false }
           };
           
           // Insert the email into the database
-          await db.insert(emails).values(newEmail);
+          const [inserted] = await db.insert(emails).values(newEmail).returning({ id: emails.id });
+          storedCount++;
+          
+          if (emailData.attachments?.length > 0) {
+            try {
+              await attachmentService.saveAttachments(inserted.id, emailData.attachments);
+            } catch (attachmentError) {
+              // The message itself is stored; a broken attachment shouldn't fail the sync
+              console.error(`Error saving attachments for email ${inserted.id}:`, attachmentError);
+            }
+          }
+          
+          // Mail without a provider conversation id is threaded from its headers
+          if (!newEmail.threadId) {
+            await threadService.assignThread(inserted.id);
+          }
+          
+          try {
+            // Cleaning, embedding, task extraction and linking run as background jobs
+            await jobQueueService.enqueueEmailProcessing([inserted.id]);
+          } catch (queueError) {
+            console.error(`Error queueing processing of email ${inserted.id}:`, queueError);
+          }
           
           console.log(`Email saved: ${newEmail.subject}`);
         } else {
+          const existing = existingEmails[0];
+          const labels = existing.labels || [];
+          const addedLabels = (emailData.labels || []).filter((label: string) => !labels.includes(label));
+          
+          if (addedLabels.length > 0) {
+            await db
+              .update(emails)
+              .set({ labels: [...labels, ...addedLabels], updatedAt: new Date() })
+              .where(eq(emails.id, existing.id));
+          }
+          
           console.log(`Email already exists: ${emailData.subject}`);
         }
       }
@@ -264,35 +137,219 @@ class EmailService {
         .where(eq(emailAccounts.id, accountId));
         
       console.log(`Updated lastSynced for account ${accountId}`);
+      return storedCount;
     } catch (error) {
       console.error('Error saving emails to database:', error);
       throw error;
     }
   }
   
+  // Decrypt the stored credentials of a Gmail or generic IMAP account for an IMAP login.
+  // OAuth accounts log in with XOAUTH2 using a current access token, which is refreshed
+  // again if the server rejects it.
+  async getImapCredentials(account: EmailAccount): Promise<ImapCredentials> {
+    if (account.authMethod === 'oauth') {
+      return {
+        user: account.emailAddress,
+        accessToken: await oauthService.getAccessToken(account.id),
+        refreshAccessToken: async () => {
+          const token = await oauthService.refreshAccessToken(account.id);
+          if (!token) {
+            throw new Error(`Could not refresh the access token for account ${account.id}`);
+          }
+          return token;
+        }
+      };
+    }
+    
+    const credentials = this.decryptCredentials(account.credentials);
+    
+    return {
+      user: account.emailAddress,
+      password: credentials.password,
+      accessToken: credentials.accessToken
+    };
+  }
+  
+  // Folders to ingest for an IMAP account: its configured selection, or INBOX, Sent and All Mail.
+  // The server's folder list is cached so push-triggered syncs don't list it every time.
+  async resolveSyncFolders(account: EmailAccount, settings: ImapServerSettings, credentials: ImapCredentials): Promise<string[]> {
+    if (account.syncFolders && account.syncFolders.length > 0) {
+      return account.syncFolders;
+    }
+    
+    const cached = this.defaultFoldersCache.get(account.id);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.folders;
+    }
+    
+    const folders = imapService.defaultSyncFolders(await imapService.listMailboxes(settings, credentials));
+    this.defaultFoldersCache.set(account.id, { folders, expiresAt: Date.now() + FOLDER_CACHE_TTL });
+    
+    return folders;
+  }
+  
   // Main method to synchronize emails
-  async syncEmails(accountId: number, limit = 50): Promise<number> {
+  // Incremental mode fetches only UIDs above each folder's stored cursor; backfill walks every folder
+  async syncEmails(accountId: number, limit = 50, mode: ImapSyncMode = 'incremental'): Promise<number> {
     try {
-      console.log(`Starting email sync for account ${accountId}`);
-      const fetchedEmails = await this.fetchEmails(accountId, limit);
-      await this.saveEmails(accountId, fetchedEmails);
+      console.log(`Starting ${mode} email sync for account ${accountId}`);
+      
+      // Get account information from database
+      const [account] = await db.select().from(emailAccounts).where(eq(emailAccounts.id, accountId));
+      
+      if (!account) {
+        throw new Error('Email account not found');
+      }
+      
+      // Resolve host, port, TLS mode and auth method for Gmail or generic IMAP accounts
+      const serverSettings = imapService.resolveServerSettings(account);
+      const credentials = await this.getImapCredentials(account);
+      
+      const folders = await this.resolveSyncFolders(account, serverSettings, credentials);
+      let storedCount = 0;
+      let failedFolders = 0;
       
-      console.log(`Email sync completed for account ${accountId}. Processed ${fetchedEmails.length} emails.`);
-      return fetchedEmails.length;
+      // INBOX comes first so messages that are also in All Mail keep INBOX as their folder
+      for (const folder of folders) {
+        try {
+          const cursor = await syncStateService.getCursor(accountId, folder);
+          const lastSyncedAt = await syncStateService.getLastSyncedAt(accountId, folder);
+          
+          const result = await imapService.syncMailbox(
+            serverSettings,
+            credentials,
+            cursor,
+            {
+              mailbox: folder,
+              mode,
+              limit,
+              cleanBody: (text) => this.cleanEmailContent(text),
+              onBatch: async (batch) => {
+                storedCount += await this.saveEmails(accountId, batch);
+              }
+            }
+          );
+          
+          // IMAP doesn't say when flags changed, so server changes count as made right after the last sync
+          if (result.flagRefresh) {
+            await flagSyncService.applyImapFlagRefresh(accountId, folder, result.flagRefresh, lastSyncedAt || new Date());
+          }
+          
+          await syncStateService.saveCursor(accountId, folder, result.cursor, mode === 'backfill');
+          console.log(`Synced ${folder} for account ${accountId}: fetched ${result.fetched} emails` +
+            (result.failedUids.length > 0 ? `, ${result.failedUids.length} unreadable (UIDs ${result.failedUids.join(', ')}) will be retried` : ''));
+        } catch (folderError) {
+          // A missing or unselectable folder shouldn't stop the others from syncing
+          failedFolders++;
+          console.error(`Error syncing folder ${folder} for account ${accountId}:`, folderError);
+          if (failedFolders === folders.length) {
+            throw folderError;
+          }
+        }
+      }
+      
+      console.log(`Email sync completed for account ${accountId}. Stored ${storedCount} new emails.`);
+      return storedCount;
     } catch (error) {
       console.error('Error in syncEmails:', error);
       throw error;
     }
   }
   
+  // Archive, trash and All Mail folders of an IMAP account, cached like the default folders
+  private async resolveSpecialFolders(account: EmailAccount, settings: ImapServerSettings, credentials: ImapCredentials) {
+    const cached = this.specialFoldersCache.get(account.id);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.folders;
+    }
+    
+    const mailboxes = await imapService.listMailboxes(settings, credentials);
+    const folders = {
+      archive: imapService.findSpecialFolder(mailboxes, 'archive'),
+      trash: imapService.findSpecialFolder(mailboxes, 'trash'),
+      all: imapService.findSpecialFolder(mailboxes, 'all')
+    };
+    this.specialFoldersCache.set(account.id, { folders, expiresAt: Date.now() + FOLDER_CACHE_TTL });
+    
+    return folders;
+  }
+  
+  // Push one flag change to the IMAP server and return where the message is afterwards.
+  // Read and starred are flags (STORE); archive and delete are moves. On Gmail, starring and
+  // archiving change the \Starred and \Inbox labels from All Mail instead.
+  async pushFlagChange(account: EmailAccount, email: Email, flag: EmailFlag, value: boolean): Promise<Record<string, unknown>> {
+    const settings = imapService.resolveServerSettings(account);
+    const credentials = await this.getImapCredentials(account);
+    const folders = await this.resolveSpecialFolders(account, settings, credentials);
+    const metadata = (email.metadata || {}) as any;
+    const isGmail = account.accountType === 'gmail';
+    
+    const mailbox: string = metadata.mailbox || email.folder || 'INBOX';
+    const inTrash = mailbox === folders.trash;
+    // Gmail keeps every message outside Spam and Trash in All Mail, whatever its labels
+    const gmailMailbox = isGmail && !inTrash && folders.all ? folders.all : mailbox;
+    
+    let target = mailbox;
+    let update: ImapMessageUpdate;
+    
+    switch (flag) {
+      case 'read':
+        target = gmailMailbox;
+        update = value ? { addFlags: ['\\Seen'] } : { delFlags: ['\\Seen'] };
+        break;
+      case 'starred':
+        target = gmailMailbox;
+        update = isGmail
+          ? (value ? { addLabels: ['\\Starred'] } : { delLabels: ['\\Starred'] })
+          : (value ? { addFlags: ['\\Flagged'] } : { delFlags: ['\\Flagged'] });
+        break;
+      case 'archived':
+        if (isGmail) {
+          target = gmailMailbox;
+          update = value ? { delLabels: ['\\Inbox'] } : { addLabels: ['\\Inbox'] };
+        } else if (value) {
+          if (!folders.archive) {
+            throw new Error('The server has no archive folder');
+          }
+          update = { moveTo: folders.archive };
+        } else {
+          update = { moveTo: 'INBOX' };
+        }
+        break;
+      case 'deleted':
+        if (value) {
+          update = folders.trash ? { moveTo: folders.trash } : { addFlags: ['\\Deleted'] };
+        } else {
+          update = inTrash ? { moveTo: 'INBOX' } : { delFlags: ['\\Deleted'] };
+        }
+        break;
+    }
+    
+    const located = await imapService.updateMessage(settings, credentials, target, {
+      messageId: email.messageId,
+      gmailMessageId: isGmail ? metadata.messageId : null
+    }, update);
+    
+    if (!located) {
+      throw new Error(`Message ${email.messageId} was not found in ${target}`);
+    }
+    
+    // Only a move changes where the message is tracked; Gmail label changes leave it in place
+    return update.moveTo ? { mailbox: located.mailbox, uid: located.uid } : {};
+  }
+  
   // Store email account credentials securely
-  async saveEmailAccount(userId: number, accountType: 'gmail' | 'exchange', emailAddress: string, password: string): Promise<any> {
+  async saveEmailAccount(
+    userId: number,
+    accountType: 'gmail' | 'exchange' | 'imap',
+    emailAddress: string,
+    password: string,
+    serverSettings?: ImapServerSettings
+  ): Promise<any> {
     try {
       // Encrypt password before storing
-      const encryptedCredentials = CryptoJS.AES.encrypt(
-        JSON.stringify({ password }),
-        ENCRYPTION_KEY
-      ).toString();
+      const encryptedCredentials = encryptJson({ password });
       
       // Add account to database
       const [newAccount] = await db
@@ -300,8 +357,10 @@ class EmailService {
         .values({
           userId,
           accountType,
+          authMethod: accountType === 'gmail' ? 'app_password' : 'basic',
           emailAddress,
           credentials: encryptedCredentials,
+          serverSettings,
           isActive: true
         })
         .returning();
@@ -0,0 +1,512 @@
+/**
+ * EWS Client
+ * Minimal Exchange Web Services SOAP client for FindItem, GetItem, SyncFolderItems, UpdateItem and MoveItem
+ */
+import axios from 'axios';
+import { XMLParser } from 'fast-xml-parser';
+import { parseMessageIds } from './messageThreader';
+
+export interface EwsClientOptions {
+  url: string;
+  headers: Record<string, string>;
+  serverVersion?: string;
+  timeout?: number;
+}
+
+export interface EwsItemId {
+  id: string;
+  changeKey?: string;
+}
+
+export interface EwsFindItemsPage {
+  itemIds: EwsItemId[];
+  totalItemsInView: number;
+  includesLastItemInRange: boolean;
+  nextOffset: number;
+}
+
+export interface EwsSyncChanges {
+  syncState: string;
+  includesLastItemInRange: boolean;
+  created: EwsItemId[];
+  updated: EwsItemId[];
+  deleted: EwsItemId[];
+  readFlagChanges: { itemId: EwsItemId; isRead: boolean }[];
+}
+
+export type EwsSyncMode = 'initial' | 'incremental' | 'backfill';
+
+export interface EwsFolderSyncOptions {
+  mode?: 'incremental' | 'backfill';
+  limit?: number;
+  pageSize?: number;
+  getItemBatchSize?: number;
+}
+
+export interface EwsFolderSyncResult {
+  mode: EwsSyncMode;
+  emails: any[];
+  syncState: string;
+  deleted: EwsItemId[];
+  readFlagChanges: { itemId: EwsItemId; isRead: boolean }[];
+}
+
+// Item element names that carry mail content in EWS responses
+const ITEM_ELEMENTS = ['Message', 'MeetingRequest', 'MeetingResponse', 'MeetingCancellation', 'Item'];
+
+const ARRAY_ELEMENTS = [
+  ...ITEM_ELEMENTS,
+  'Mailbox',
+  'Create',
+  'Update',
+  'Delete',
+  'ReadFlagChange',
+  'FindItemResponseMessage',
+  'GetItemResponseMessage',
+  'SyncFolderItemsResponseMessage',
+  'UpdateItemResponseMessage',
+  'MoveItemResponseMessage'
+];
+
+// EWS caps SyncFolderItems at 512 changes per call
+const MAX_SYNC_CHANGES = 512;
+
+// Properties requested for every message on GetItem
+const MESSAGE_PROPERTIES = [
+  'item:Subject',
+  'item:Body',
+  'item:DateTimeReceived',
+  'item:HasAttachments',
+  'item:ConversationId',
+  'message:InternetMessageId',
+  'message:From',
+  'message:ToRecipients',
+  'message:CcRecipients',
+  'message:IsRead',
+  'message:InReplyTo',
+  'message:References'
+];
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  removeNSPrefix: true,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  trimValues: true,
+  isArray: (name) => ARRAY_ELEMENTS.includes(name)
+});
+
+/**
+ * Escape a value for inclusion in an XML attribute or text node
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toArray<T>(value: T | T[] | undefined | null): T[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Text content of an element that may carry attributes (parsed as { '#text': ... })
+ */
+function textOf(value: any): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? value['#text'] || '' : String(value);
+}
+
+export class EwsClient {
+  constructor(private options: EwsClientOptions) {}
+
+  /**
+   * Build the folder id element: a distinguished folder name (inbox, sentitems, ...) or a folder id
+   */
+  private folderIdXml(folderId: string): string {
+    return /^[a-z]+$/.test(folderId)
+      ? `<t:DistinguishedFolderId Id="${escapeXml(folderId)}" />`
+      : `<t:FolderId Id="${escapeXml(folderId)}" />`;
+  }
+
+  /**
+   * Send a SOAP request and return the parsed response body
+   */
+  private async call(operation: string, bodyXml: string): Promise<any> {
+    const envelope = `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"
+               xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types"
+               xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages">
+  <soap:Header>
+    <t:RequestServerVersion Version="${this.options.serverVersion || 'Exchange2013'}" />
+  </soap:Header>
+  <soap:Body>
+    ${bodyXml}
+  </soap:Body>
+</soap:Envelope>`;
+
+    const response = await axios.post(this.options.url, envelope, {
+      headers: {
+        ...this.options.headers,
+        'Content-Type': 'text/xml; charset=utf-8',
+        'SOAPAction': `http://schemas.microsoft.com/exchange/services/2006/messages/${operation}`
+      },
+      timeout: this.options.timeout || 30000,
+      responseType: 'text',
+      transformResponse: (data) => data,
+      validateStatus: () => true
+    });
+
+    let parsed: any = null;
+    if (typeof response.data === 'string' && response.data.trim().startsWith('<')) {
+      parsed = xmlParser.parse(response.data);
+    }
+
+    const body = parsed?.Envelope?.Body;
+    if (body?.Fault) {
+      const fault = body.Fault;
+      throw new Error(`EWS ${operation} SOAP fault: ${textOf(fault.faultstring) || textOf(fault.Reason?.Text) || 'Unknown fault'}`);
+    }
+
+    if (response.status >= 400 || !body) {
+      throw new Error(`EWS ${operation} request failed with HTTP ${response.status}`);
+    }
+
+    return body;
+  }
+
+  /**
+   * Extract the response messages for an operation, throwing on any error response
+   */
+  private responseMessages(body: any, operation: string): any[] {
+    const messages = toArray(body?.[`${operation}Response`]?.ResponseMessages?.[`${operation}ResponseMessage`]);
+
+    for (const message of messages) {
+      if (message.ResponseClass === 'Error') {
+        throw new Error(`EWS ${operation} failed: ${message.ResponseCode} - ${message.MessageText || 'no details'}`);
+      }
+      if (message.ResponseClass === 'Warning') {
+        console.warn(`EWS ${operation} warning: ${message.ResponseCode} - ${message.MessageText || 'no details'}`);
+      }
+    }
+
+    return messages;
+  }
+
+  /**
+   * Collect the ItemId elements of every mail item under a container element
+   */
+  private itemIdsIn(container: any): EwsItemId[] {
+    if (!container) return [];
+
+    return ITEM_ELEMENTS.flatMap(name => toArray(container[name]))
+      .map((item: any) => item.ItemId)
+      .filter(Boolean)
+      .map((itemId: any) => ({ id: itemId.Id, changeKey: itemId.ChangeKey }));
+  }
+
+  /**
+   * Format an EWS Mailbox element as "Name <address>"
+   */
+  private formatMailbox(mailbox: any): string {
+    if (!mailbox) return '';
+    const address = mailbox.EmailAddress || '';
+    return mailbox.Name && mailbox.Name !== address ? `${mailbox.Name} <${address}>` : address;
+  }
+
+  /**
+   * Convert an EWS message element into the email shape expected by saveEmails
+   */
+  private toEmail(item: any, folderId: string): any {
+    const from = toArray(item.From?.Mailbox)[0];
+    const body = textOf(item.Body);
+    const isRead = item.IsRead === 'true';
+    const receivedAt = item.DateTimeReceived ? new Date(item.DateTimeReceived) : new Date();
+
+    return {
+      messageId: item.InternetMessageId || item.ItemId?.Id,
+      sender: this.formatMailbox(from),
+      recipients: toArray(item.ToRecipients?.Mailbox).map((mailbox: any) => this.formatMailbox(mailbox)),
+      subject: item.Subject || '(No Subject)',
+      body,
+      bodyHtml: null,
+      threadId: item.ConversationId?.Id,
+      inReplyTo: parseMessageIds(item.InReplyTo)[0] || null,
+      messageReferences: parseMessageIds(item.References),
+      folder: folderId,
+      labels: [folderId],
+      timestamp: receivedAt,
+      flags: isRead ? ['\\Seen'] : [],
+      metadata: {
+        ewsItemId: item.ItemId?.Id,
+        ewsChangeKey: item.ItemId?.ChangeKey,
+        folder: folderId,
+        cc: toArray(item.CcRecipients?.Mailbox).map((mailbox: any) => this.formatMailbox(mailbox)),
+        inReplyTo: item.InReplyTo,
+        references: item.References,
+        hasAttachments: item.HasAttachments === 'true'
+      }
+    };
+  }
+
+  /**
+   * List one page of item ids in a folder, newest first
+   */
+  async findItems(folderId: string, offset = 0, pageSize = 100): Promise<EwsFindItemsPage> {
+    const body = await this.call('FindItem', `
+    <m:FindItem Traversal="Shallow">
+      <m:ItemShape>
+        <t:BaseShape>IdOnly</t:BaseShape>
+      </m:ItemShape>
+      <m:IndexedPageItemView MaxEntriesReturned="${pageSize}" Offset="${offset}" BasePoint="Beginning" />
+      <m:SortOrder>
+        <t:FieldOrder Order="Descending">
+          <t:FieldURI FieldURI="item:DateTimeReceived" />
+        </t:FieldOrder>
+      </m:SortOrder>
+      <m:ParentFolderIds>
+        ${this.folderIdXml(folderId)}
+      </m:ParentFolderIds>
+    </m:FindItem>`);
+
+    const [message] = this.responseMessages(body, 'FindItem');
+    const rootFolder = message?.RootFolder || {};
+    const itemIds = this.itemIdsIn(rootFolder.Items);
+
+    return {
+      itemIds,
+      totalItemsInView: parseInt(rootFolder.TotalItemsInView || '0', 10),
+      includesLastItemInRange: rootFolder.IncludesLastItemInRange !== 'false',
+      nextOffset: rootFolder.IndexedPagingOffset !== undefined
+        ? parseInt(rootFolder.IndexedPagingOffset, 10)
+        : offset + itemIds.length
+    };
+  }
+
+  /**
+   * Get full message content for a set of item ids
+   */
+  async getItems(itemIds: EwsItemId[], folderId = 'inbox'): Promise<any[]> {
+    if (itemIds.length === 0) return [];
+
+    const idsXml = itemIds
+      .map(itemId => this.itemIdXml(itemId))
+      .join('\n        ');
+    const propertiesXml = MESSAGE_PROPERTIES
+      .map(fieldUri => `<t:FieldURI FieldURI="${fieldUri}" />`)
+      .join('\n          ');
+
+    const body = await this.call('GetItem', `
+    <m:GetItem>
+      <m:ItemShape>
+        <t:BaseShape>IdOnly</t:BaseShape>
+        <t:BodyType>Text</t:BodyType>
+        <t:AdditionalProperties>
+          ${propertiesXml}
+        </t:AdditionalProperties>
+      </m:ItemShape>
+      <m:ItemIds>
+        ${idsXml}
+      </m:ItemIds>
+    </m:GetItem>`);
+
+    return this.responseMessages(body, 'GetItem')
+      .flatMap(message => ITEM_ELEMENTS.flatMap(name => toArray(message.Items?.[name])))
+      .map(item => this.toEmail(item, folderId));
+  }
+
+  /**
+   * Get the changes in a folder since the given sync state (null for a fresh sync)
+   */
+  async syncFolderItems(folderId: string, syncState: string | null, maxChanges = MAX_SYNC_CHANGES): Promise<EwsSyncChanges> {
+    const body = await this.call('SyncFolderItems', `
+    <m:SyncFolderItems>
+      <m:ItemShape>
+        <t:BaseShape>IdOnly</t:BaseShape>
+      </m:ItemShape>
+      <m:SyncFolderId>
+        ${this.folderIdXml(folderId)}
+      </m:SyncFolderId>
+      ${syncState ? `<m:SyncState>${escapeXml(syncState)}</m:SyncState>` : ''}
+      <m:MaxChangesReturned>${Math.min(maxChanges, MAX_SYNC_CHANGES)}</m:MaxChangesReturned>
+    </m:SyncFolderItems>`);
+
+    const [message] = this.responseMessages(body, 'SyncFolderItems');
+    const changes = message?.Changes || {};
+
+    return {
+      syncState: message?.SyncState || '',
+      includesLastItemInRange: message?.IncludesLastItemInRange !== 'false',
+      created: toArray(changes.Create).flatMap((change: any) => this.itemIdsIn(change)),
+      updated: toArray(changes.Update).flatMap((change: any) => this.itemIdsIn(change)),
+      deleted: toArray(changes.Delete)
+        .map((change: any) => change.ItemId)
+        .filter(Boolean)
+        .map((itemId: any) => ({ id: itemId.Id, changeKey: itemId.ChangeKey })),
+      readFlagChanges: toArray(changes.ReadFlagChange)
+        .filter((change: any) => change.ItemId)
+        .map((change: any) => ({
+          itemId: { id: change.ItemId.Id, changeKey: change.ItemId.ChangeKey },
+          isRead: change.IsRead === 'true'
+        }))
+    };
+  }
+
+  private itemIdXml(itemId: EwsItemId): string {
+    return `<t:ItemId Id="${escapeXml(itemId.id)}"${itemId.changeKey ? ` ChangeKey="${escapeXml(itemId.changeKey)}"` : ''} />`;
+  }
+
+  /**
+   * Set the read state or follow-up flag of a message and return its new change key
+   */
+  async updateItem(itemId: EwsItemId, change: { isRead: boolean } | { isFlagged: boolean }): Promise<EwsItemId> {
+    const fieldXml = 'isRead' in change
+      ? `<t:FieldURI FieldURI="message:IsRead" />
+            <t:Message><t:IsRead>${change.isRead}</t:IsRead></t:Message>`
+      : `<t:FieldURI FieldURI="item:Flag" />
+            <t:Message><t:Flag><t:FlagStatus>${change.isFlagged ? 'Flagged' : 'NotFlagged'}</t:FlagStatus></t:Flag></t:Message>`;
+
+    const body = await this.call('UpdateItem', `
+    <m:UpdateItem MessageDisposition="SaveOnly" ConflictResolution="AlwaysOverwrite" SuppressReadReceipts="true">
+      <m:ItemChanges>
+        <t:ItemChange>
+          ${this.itemIdXml(itemId)}
+          <t:Updates>
+            <t:SetItemField>
+            ${fieldXml}
+            </t:SetItemField>
+          </t:Updates>
+        </t:ItemChange>
+      </m:ItemChanges>
+    </m:UpdateItem>`);
+
+    const [message] = this.responseMessages(body, 'UpdateItem');
+    return this.itemIdsIn(message?.Items)[0] || itemId;
+  }
+
+  /**
+   * Move a message to another folder and return its id there
+   */
+  async moveItem(itemId: EwsItemId, folderId: string): Promise<EwsItemId> {
+    const body = await this.call('MoveItem', `
+    <m:MoveItem>
+      <m:ToFolderId>
+        ${this.folderIdXml(folderId)}
+      </m:ToFolderId>
+      <m:ItemIds>
+        ${this.itemIdXml(itemId)}
+      </m:ItemIds>
+    </m:MoveItem>`);
+
+    const [message] = this.responseMessages(body, 'MoveItem');
+    return this.itemIdsIn(message?.Items)[0] || itemId;
+  }
+
+  /**
+   * Fetch full messages in batches that GetItem can handle
+   */
+  private async getItemsInBatches(itemIds: EwsItemId[], folderId: string, batchSize: number): Promise<any[]> {
+    const emails: any[] = [];
+
+    for (let i = 0; i < itemIds.length; i += batchSize) {
+      emails.push(...await this.getItems(itemIds.slice(i, i + batchSize), folderId));
+    }
+
+    return emails;
+  }
+
+  /**
+   * Walk SyncFolderItems to the end of the folder and return the final sync state
+   * along with every change seen on the way
+   */
+  private async drainSyncFolderItems(folderId: string, syncState: string | null): Promise<EwsSyncChanges> {
+    const combined: EwsSyncChanges = {
+      syncState: syncState || '',
+      includesLastItemInRange: false,
+      created: [],
+      updated: [],
+      deleted: [],
+      readFlagChanges: []
+    };
+
+    while (!combined.includesLastItemInRange) {
+      const changes = await this.syncFolderItems(folderId, combined.syncState || null);
+
+      combined.syncState = changes.syncState;
+      combined.includesLastItemInRange = changes.includesLastItemInRange;
+      combined.created.push(...changes.created);
+      combined.updated.push(...changes.updated);
+      combined.deleted.push(...changes.deleted);
+      combined.readFlagChanges.push(...changes.readFlagChanges);
+    }
+
+    return combined;
+  }
+
+  /**
+   * Sync a folder into saveEmails-shaped messages.
+   *
+   * - With a stored sync state, only items created since then are fetched (SyncFolderItems).
+   * - Without one (or when the server rejects it), a fresh sync state is established first and
+   *   then the newest `limit` items are fetched with FindItem paging.
+   * - Backfill mode pages through every item in the folder with FindItem.
+   */
+  async syncFolder(folderId: string, syncState: string | null, options: EwsFolderSyncOptions = {}): Promise<EwsFolderSyncResult> {
+    const {
+      mode = 'incremental',
+      limit = 50,
+      pageSize = 100,
+      getItemBatchSize = 50
+    } = options;
+
+    if (mode === 'incremental' && syncState) {
+      try {
+        const changes = await this.drainSyncFolderItems(folderId, syncState);
+        const emails = await this.getItemsInBatches(changes.created, folderId, getItemBatchSize);
+
+        return {
+          mode: 'incremental',
+          emails,
+          syncState: changes.syncState,
+          deleted: changes.deleted,
+          readFlagChanges: changes.readFlagChanges
+        };
+      } catch (error) {
+        if (!(error instanceof Error) || !error.message.includes('ErrorInvalidSyncStateData')) {
+          throw error;
+        }
+        console.log(`EWS sync state for ${folderId} is no longer valid, starting a fresh sync`);
+      }
+    }
+
+    // Establish the sync state before listing items so nothing that arrives meanwhile is missed
+    const baseline = await this.drainSyncFolderItems(folderId, null);
+
+    const maxItems = mode === 'backfill' ? Infinity : limit;
+    const itemIds: EwsItemId[] = [];
+    let offset = 0;
+
+    while (itemIds.length < maxItems) {
+      const page = await this.findItems(folderId, offset, Math.min(pageSize, maxItems - itemIds.length));
+      itemIds.push(...page.itemIds);
+
+      if (page.includesLastItemInRange || page.itemIds.length === 0) break;
+      offset = page.nextOffset;
+    }
+
+    const emails = await this.getItemsInBatches(itemIds, folderId, getItemBatchSize);
+
+    return {
+      mode: mode === 'backfill' ? 'backfill' : 'initial',
+      emails,
+      syncState: baseline.syncState,
+      deleted: [],
+      readFlagChanges: []
+    };
+  }
+}
@@ -1,18 +1,68 @@
 import { db } from "../db";
-import { emails, emailAccounts } from "@shared/schema";
-import { eq, sql } from "drizzle-orm";
+import { emails, emailAccounts, Email, EmailAccount } from "@shared/schema";
+import { and, eq, sql } from "drizzle-orm";
 import { encryptData, decryptData } from "../utils/encryption";
-import axios from "axios";
-import { parseISO } from "date-fns";
+import { EwsClient, EwsFolderSyncResult, EwsItemId } from "./ewsClient";
+import { emailService } from "./emailService";
+import { syncStateService } from "./syncStateService";
+import { flagSyncService } from "./flagSyncService";
+import type { EmailFlag } from "./flagReconciler";
+
+// Distinguished folders ingested when the account has no folder selection: Inbox, Sent Items and Archive
+const DEFAULT_SYNC_FOLDERS = ['inbox', 'sentitems', 'archive'];
 
 /**
  * Service for handling Exchange/EWS email accounts
  */
 export class ExchangeService {
   /**
-   * Connect to Exchange Web Services (EWS) and fetch emails
+   * Create an EWS client for an Exchange account from its server settings and credentials
+   */
+  private createClient(account: EmailAccount): EwsClient {
+    if (account.accountType !== 'exchange') {
+      throw new Error(`Account with ID ${account.id} is not an Exchange account`);
+    }
+    
+    // For Exchange/EWS, we need detailed server settings
+    const serverSettings = (account.serverSettings || {}) as any;
+    const ewsUrl = serverSettings.ewsUrl || '';
+    
+    if (!ewsUrl) {
+      throw new Error('EWS URL is required for Exchange accounts');
+    }
+    
+    // Decrypt the credentials
+    const credentials = this.decryptCredentials(account.credentials);
+    
+    // Handle different authentication methods
+    let authHeaders: Record<string, string>;
+    switch (account.authMethod) {
+      case 'basic':
+        authHeaders = {
+          'Authorization': 'Basic ' + Buffer.from(`${credentials.username || account.emailAddress}:${credentials.password}`).toString('base64')
+        };
+        break;
+      case 'oauth':
+        authHeaders = {
+          'Authorization': `Bearer ${credentials.accessToken}`
+        };
+        break;
+      default:
+        throw new Error(`Unsupported authentication method: ${account.authMethod}`);
+    }
+    
+    return new EwsClient({
+      url: ewsUrl,
+      headers: authHeaders,
+      serverVersion: serverSettings.serverVersion
+    });
+  }
+  
+  /**
+   * Connect to Exchange Web Services (EWS) and fetch emails from a folder.
+   * Uses the stored SyncFolderItems state when there is one, otherwise FindItem + GetItem paging.
    */
-  async fetchEmails(accountId: number, limit = 50): Promise<any[]> {
+  async fetchEmails(accountId: number, limit = 50, mode: 'incremental' | 'backfill' = 'incremental', folder = 'inbox'): Promise<EwsFolderSyncResult> {
     try {
       // Get the account details
       const [account] = await db.select().from(emailAccounts).where(eq(emailAccounts.id, accountId));
@@ -21,87 +71,13 @@ export class ExchangeService {
         throw new Error(`Email account with ID ${accountId} not found`);
       }
       
-      if (account.accountType !== 'exchange') {
-        throw new Error(`Account with ID ${accountId} is not an Exchange account`);
-      }
-      
-      // Decrypt the credentials
-      const credentials = this.decryptCredentials(account.credentials);
-      
-      // For Exchange/EWS, we need detailed server settings
-      const serverSettings = account.serverSettings || {};
-      const ewsUrl = serverSettings.ewsUrl || '';
-      
-      if (!ewsUrl) {
-        throw new Error('EWS URL is required for Exchange accounts');
-      }
-      
-      // Handle different authentication methods
-      let authHeaders = {};
-      switch (account.authMethod) {
-        case 'basic':
-          authHeaders = {
-            'Authorization': 'Basic ' + Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')
-          };
-          break;
-        case 'oauth':
-          authHeaders = {
-            'Authorization': `Bearer ${credentials.accessToken}`
-          };
-          break;
-        default:
-          throw new Error(`Unsupported authentication method: ${account.authMethod}`);
-      }
-      
-      // Prepare the SOAP request for EWS - this is a simplified example
-      // In a real application, you would use a library like ews-javascript-api
-      const soapEnvelope = `
-        <soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"
-                       xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types"
-                       xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages">
-          <soap:Header>
-            <t:RequestServerVersion Version="Exchange2013" />
-          </soap:Header>
-          <soap:Body>
-            <m:FindItem Traversal="Shallow">
-              <m:ItemShape>
-                <t:BaseShape>IdOnly</t:BaseShape>
-                <t:AdditionalProperties>
-                  <t:FieldURI FieldURI="item:Subject" />
-                  <t:FieldURI FieldURI="message:From" />
-                  <t:FieldURI FieldURI="message:ToRecipients" />
-                  <t:FieldURI FieldURI="item:DateTimeReceived" />
-                  <t:FieldURI FieldURI="item:Body" />
-                </t:AdditionalProperties>
-              </m:ItemShape>
-              <m:IndexedPageItemView MaxEntriesReturned="${limit}" Offset="0" BasePoint="Beginning" />
-              <m:ParentFolderIds>
-                <t:DistinguishedFolderId Id="inbox" />
-              </m:ParentFolderIds>
-            </m:FindItem>
-          </soap:Body>
-        </soap:Envelope>
-      `;
-      
-      // Call the EWS endpoint
-      const response = await axios.post(ewsUrl, soapEnvelope, {
-        headers: {
-          ...authHeaders,
-          'Content-Type': 'text/xml; charset=utf-8',
-        }
-      });
-      
-      // Parse the XML response - in a real application, use xml2js or similar
-      // This is a simplified example
-      console.log(`Got response from EWS with status ${response.status}`);
-      
-      // Mock parsing the XML - in a real implementation, properly parse the XML response
-      // For this example, we'll return mock data
-      const fetchedEmails = [];
+      const client = this.createClient(account);
+      const syncState = await syncStateService.getSyncToken(accountId, folder);
       
-      // In a real implementation, fetchedEmails would be populated from the parsed XML
+      const result = await client.syncFolder(folder, syncState, { mode, limit });
+      console.log(`EWS ${result.mode} sync of ${account.emailAddress}/${folder}: ${result.emails.length} messages`);
       
-      return fetchedEmails;
+      return result;
     } catch (error) {
       console.error('Error fetching Exchange emails:', error);
       throw error;
@@ -167,56 +143,106 @@ export class ExchangeService {
   }
   
   /**
-   * Synchronize emails for an Exchange account
+   * Synchronize emails for an Exchange account across its selected folders.
+   * Returns the number of emails newly stored, not the number fetched: a re-sync
+   * that only sees messages already stored reports 0.
    */
-  async syncEmails(accountId: number, limit = 50): Promise<number> {
+  async syncEmails(accountId: number, limit = 50, mode: 'incremental' | 'backfill' = 'incremental'): Promise<number> {
     try {
-      // Fetch emails from Exchange
-      const fetchedEmails = await this.fetchEmails(accountId, limit);
-      
-      // Save emails to database
-      let newEmailCount = 0;
+      const [account] = await db.select().from(emailAccounts).where(eq(emailAccounts.id, accountId));
+      const folders = account?.syncFolders?.length ? account.syncFolders : DEFAULT_SYNC_FOLDERS;
+      let storedCount = 0;
+      let failedFolders = 0;
       
-      for (const emailData of fetchedEmails) {
-        // Check if email already exists by message ID
-        const [existingEmail] = await db.select()
-          .from(emails)
-          .where(sql`account_id = ${accountId} AND message_id = ${emailData.messageId}`);
-        
-        if (!existingEmail) {
-          // Add new email to database
-          await db.insert(emails)
-            .values({
-              accountId,
-              messageId: emailData.messageId,
-              sender: emailData.sender,
-              recipients: emailData.recipients || [],
-              subject: emailData.subject || '',
-              snippet: emailData.snippet || '',
-              body: emailData.body || '',
-              isRead: emailData.isRead || false,
-              hasAttachments: !!emailData.attachments?.length,
-              timestamp: parseISO(emailData.timestamp),
-              labels: emailData.labels || [],
-              threadId: emailData.threadId
-            });
+      for (const folder of folders) {
+        try {
+          const lastSyncedAt = await syncStateService.getLastSyncedAt(accountId, folder);
+          
+          // Fetch emails from Exchange
+          const result = await this.fetchEmails(accountId, limit, mode, folder);
+          
+          // Save emails to database in the same shape as the IMAP pipeline
+          const stored = await emailService.saveEmails(accountId, result.emails);
+          storedCount += stored;
+          console.log(`Stored ${stored} of ${result.emails.length} messages from Exchange folder ${folder}`);
           
-          newEmailCount++;
+          // Apply read/unread changes reported by SyncFolderItems. They carry no time, so they
+          // count as made right after the last sync when resolving conflicts with local changes.
+          for (const change of result.readFlagChanges) {
+            const [email] = await db.select({ id: emails.id })
+              .from(emails)
+              .where(and(eq(emails.accountId, accountId), sql`${emails.metadata}->>'ewsItemId' = ${change.itemId.id}`));
+            
+            if (email) {
+              await flagSyncService.applyServerFlags(email.id, { read: change.isRead }, lastSyncedAt || new Date());
+            }
+          }
+          
+          // Only advance the sync state once everything before it has been stored
+          await syncStateService.saveSyncToken(accountId, folder, result.syncState, mode === 'backfill');
+        } catch (folderError) {
+          // Older servers have no Archive folder; keep syncing the rest
+          failedFolders++;
+          console.error(`Error syncing Exchange folder ${folder} for account ${accountId}:`, folderError);
+          if (failedFolders === folders.length) {
+            throw folderError;
+          }
         }
       }
       
-      // Update last synced timestamp
-      await db.update(emailAccounts)
-        .set({ lastSynced: new Date() })
-        .where(eq(emailAccounts.id, accountId));
-      
-      return newEmailCount;
+      return storedCount;
     } catch (error) {
       console.error(`Error syncing Exchange emails for account ${accountId}:`, error);
       throw error;
     }
   }
   
+  /**
+   * Push one flag change to Exchange: read and starred with UpdateItem, archive and delete
+   * with MoveItem. Both hand back a new item id or change key, which is returned for the email's metadata.
+   */
+  async pushFlagChange(account: EmailAccount, email: Email, flag: EmailFlag, value: boolean): Promise<Record<string, unknown>> {
+    const client = this.createClient(account);
+    const metadata = (email.metadata || {}) as any;
+    
+    if (!metadata.ewsItemId) {
+      throw new Error(`Email ${email.id} has no EWS item id`);
+    }
+    
+    const itemId = { id: metadata.ewsItemId, changeKey: metadata.ewsChangeKey };
+    let updated: EwsItemId;
+    let folder: string | undefined;
+    
+    switch (flag) {
+      case 'read':
+        updated = await client.updateItem(itemId, { isRead: value });
+        break;
+      case 'starred':
+        updated = await client.updateItem(itemId, { isFlagged: value });
+        break;
+      case 'archived':
+      case 'deleted':
+        folder = value ? (flag === 'archived' ? 'archive' : 'deleteditems') : 'inbox';
+        updated = await client.moveItem(itemId, folder);
+        break;
+    }
+    
+    return { ewsItemId: updated.id, ewsChangeKey: updated.changeKey, ...(folder ? { folder } : {}) };
+  }
+  
+  /**
+   * Decrypt an Exchange account's credentials for an SMTP login
+   */
+  getSmtpCredentials(account: EmailAccount): { user: string; password?: string; accessToken?: string } {
+    const credentials = this.decryptCredentials(account.credentials);
+    
+    return {
+      user: credentials.username || account.emailAddress,
+      password: credentials.password,
+      accessToken: account.authMethod === 'oauth' ? credentials.accessToken : undefined
+    };
+  }
+  
   /**
    * Encrypt sensitive credentials
    */
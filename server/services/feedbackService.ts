@@ -1,6 +1,4 @@
-import { db } from "../db";
-import { feedback, userTaskInteractions, tasks, emails } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { storage } from "../storage";
 import { log } from "../vite";
 
 export interface TaskWithEmail {
@@ -14,7 +12,8 @@ export interface TaskWithEmail {
  */
 export class FeedbackService {
   /**
-   * Log a HITL review action (approval, rejection, or modification)
+   * Log a HITL review action (approval, rejection, or modification).
+   * Returns undefined when the task isn't one of the user's.
    */
   async logHitlReviewAction(
     userId: number,
@@ -25,15 +24,17 @@ export class FeedbackService {
   ) {
     try {
       // Get related email ID if applicable
-      const task = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1);
-      const relatedEmailId = task[0]?.emailId || null;
+      const task = await storage.getTask(userId, taskId);
+      if (!task) {
+        return undefined;
+      }
+      const relatedEmailId = task.emailId || null;
 
       // Determine feedback type based on action
       const feedbackType = `hitl_task_${action}`;
       
       // Create feedback entry
-      const newFeedback = await db.insert(feedback).values({
-        userId,
+      const newFeedback = await storage.createFeedback(userId, {
         taskId,
         relatedEmailId,
         feedbackType,
@@ -44,10 +45,10 @@ export class FeedbackService {
           timestamp: new Date().toISOString(),
           confidence: originalTask.aiConfidence || null,
         }
-      }).returning();
+      });
 
       log(`Logged HITL review action: ${action} for task ${taskId}`);
-      return newFeedback[0];
+      return newFeedback;
     } catch (error) {
       log(`Error logging HITL review action: ${error.message}`, "error");
       throw error;
@@ -55,7 +56,8 @@ export class FeedbackService {
   }
 
   /**
-   * Log a direct task modification by the user
+   * Log a direct task modification by the user.
+   * Returns undefined when the task isn't one of the user's.
    */
   async logTaskModification(
     userId: number,
@@ -66,29 +68,27 @@ export class FeedbackService {
   ) {
     try {
       // Get task to check if it was AI-generated and get source email
-      const task = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1);
+      const taskData = await storage.getTask(userId, taskId);
       
-      if (!task.length) {
-        throw new Error(`Task with ID ${taskId} not found`);
+      if (!taskData) {
+        return undefined;
       }
       
-      const taskData = task[0];
       const taskWasAiGenerated = taskData.aiGenerated || false;
       const sourceEmailId = taskData.emailId || null;
       
       // Create user task interaction entry
-      const newInteraction = await db.insert(userTaskInteractions).values({
-        userId,
+      const newInteraction = await storage.createTaskInteraction(userId, {
         taskId,
         interactionType,
         previousValue,
         newValue,
         sourceEmailId,
         taskWasAiGenerated
-      }).returning();
+      });
 
       log(`Logged task modification: ${interactionType} for task ${taskId}`);
-      return newInteraction[0];
+      return newInteraction;
     } catch (error) {
       log(`Error logging task modification: ${error.message}`, "error");
       throw error;
@@ -96,7 +96,8 @@ export class FeedbackService {
   }
 
   /**
-   * Log task lifecycle events (completion, deletion)
+   * Log task lifecycle events (completion, deletion).
+   * Returns undefined when the task isn't one of the user's.
    */
   async logTaskLifecycleEvent(
     userId: number,
@@ -106,13 +107,12 @@ export class FeedbackService {
   ) {
     try {
       // Get task to check if it was AI-generated and get source email
-      const task = await db.select().from(tasks).where(eq(tasks.id, taskId)).limit(1);
+      const taskData = await storage.getTask(userId, taskId);
       
-      if (!task.length) {
-        throw new Error(`Task with ID ${taskId} not found`);
+      if (!taskData) {
+        return undefined;
       }
       
-      const taskData = task[0];
       const taskWasAiGenerated = taskData.aiGenerated || false;
       const sourceEmailId = taskData.emailId || null;
       
@@ -124,18 +124,17 @@ export class FeedbackService {
         : { deleted: true };
       
       // Create user task interaction entry
-      const newInteraction = await db.insert(userTaskInteractions).values({
-        userId,
+      const newInteraction = await storage.createTaskInteraction(userId, {
         taskId,
         interactionType,
         previousValue: previousState,
         newValue: newState,
         sourceEmailId,
         taskWasAiGenerated
-      }).returning();
+      });
 
       log(`Logged task lifecycle event: ${eventType} for task ${taskId}`);
-      return newInteraction[0];
+      return newInteraction;
     } catch (error) {
       log(`Error logging task lifecycle event: ${error.message}`, "error");
       throw error;
@@ -147,13 +146,7 @@ export class FeedbackService {
    */
   async getUserFeedback(userId: number, limit = 100) {
     try {
-      const userFeedback = await db.select()
-        .from(feedback)
-        .where(eq(feedback.userId, userId))
-        .orderBy(feedback.timestamp)
-        .limit(limit);
-      
-      return userFeedback;
+      return await storage.getFeedback(userId, limit);
     } catch (error) {
       log(`Error getting user feedback: ${error.message}`, "error");
       throw error;
@@ -165,13 +158,7 @@ export class FeedbackService {
    */
   async getUserTaskInteractions(userId: number, limit = 100) {
     try {
-      const interactions = await db.select()
-        .from(userTaskInteractions)
-        .where(eq(userTaskInteractions.userId, userId))
-        .orderBy(userTaskInteractions.createdAt)
-        .limit(limit);
-      
-      return interactions;
+      return await storage.getTaskInteractions(userId, limit);
     } catch (error) {
       log(`Error getting user task interactions: ${error.message}`, "error");
       throw error;
@@ -179,24 +166,11 @@ export class FeedbackService {
   }
 
   /**
-   * Get feedback and user interactions for a specific task
+   * Get feedback and user interactions for one of the user's tasks
    */
-  async getTaskFeedbackAndInteractions(taskId: number) {
+  async getTaskFeedbackAndInteractions(userId: number, taskId: number) {
     try {
-      const taskFeedback = await db.select()
-        .from(feedback)
-        .where(eq(feedback.taskId, taskId))
-        .orderBy(feedback.timestamp);
-      
-      const taskInteractions = await db.select()
-        .from(userTaskInteractions)
-        .where(eq(userTaskInteractions.taskId, taskId))
-        .orderBy(userTaskInteractions.createdAt);
-      
-      return {
-        feedback: taskFeedback,
-        interactions: taskInteractions
-      };
+      return await storage.getTaskFeedback(userId, taskId);
     } catch (error) {
       log(`Error getting task feedback and interactions: ${error.message}`, "error");
       throw error;
@@ -0,0 +1,116 @@
+/**
+ * Flag Reconciler
+ * Decides how flag changes seen on the provider combine with local changes that are still
+ * waiting to be pushed. Works on plain objects and has no database access.
+ */
+
+export type EmailFlag = 'read' | 'starred' | 'archived' | 'deleted';
+
+export const EMAIL_FLAGS: EmailFlag[] = ['read', 'starred', 'archived', 'deleted'];
+
+export type FlagState = Record<EmailFlag, boolean>;
+
+// Email columns holding each flag
+export const FLAG_FIELDS = {
+  read: 'isRead',
+  starred: 'isStarred',
+  archived: 'isArchived',
+  deleted: 'isDeleted'
+} as const;
+
+export type FlagField = typeof FLAG_FIELDS[EmailFlag];
+
+export interface PendingFlagChange {
+  flag: EmailFlag;
+  value: boolean;
+  changedAt: Date;
+}
+
+/**
+ * Outcome for one flag the server changed:
+ * - server: the server change is newer (or nothing was pending) and is applied locally
+ * - local: a pending local change is newer and will overwrite the server on the next push
+ * - converged: both sides already agree
+ */
+export interface FlagResolution {
+  flag: EmailFlag;
+  serverValue: boolean;
+  winner: 'server' | 'local' | 'converged';
+}
+
+export function flagStateOf(email: Record<FlagField, boolean>): FlagState {
+  return {
+    read: email.isRead,
+    starred: email.isStarred,
+    archived: email.isArchived,
+    deleted: email.isDeleted
+  };
+}
+
+/**
+ * Pick the flag changes out of an email update body ({ isRead: true, ... })
+ */
+export function flagUpdatesOf(fields: Record<string, unknown>): Partial<FlagState> {
+  const updates: Partial<FlagState> = {};
+
+  for (const flag of EMAIL_FLAGS) {
+    const value = fields[FLAG_FIELDS[flag]];
+    if (typeof value === 'boolean') {
+      updates[flag] = value;
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Flags of an IMAP message. Gmail reports stars as the \Starred label as well as \Flagged.
+ */
+export function flagStateFromImap(flags: string[], gmailLabels: string[] = []): Partial<FlagState> {
+  return {
+    read: flags.includes('\\Seen'),
+    starred: flags.includes('\\Flagged') || gmailLabels.includes('\\Starred'),
+    deleted: flags.includes('\\Deleted')
+  };
+}
+
+/**
+ * Compare the flags just read from the server with the flags last seen there.
+ * Only flags the server changed since then are resolved; for each, the newest of the
+ * server change and the pending local change wins (last writer wins, ties go to the server).
+ *
+ * `serverChangedAt` is when the server change happened, or the earliest time it can have
+ * happened when the provider doesn't say (the previous sync).
+ */
+export function reconcileServerFlags(
+  local: FlagState,
+  lastServer: Partial<FlagState> | null,
+  server: Partial<FlagState>,
+  pending: PendingFlagChange[],
+  serverChangedAt: Date
+): FlagResolution[] {
+  const resolutions: FlagResolution[] = [];
+
+  for (const flag of EMAIL_FLAGS) {
+    const serverValue = server[flag];
+    if (serverValue === undefined) continue;
+
+    const latestPending = pending
+      .filter(change => change.flag === flag)
+      .sort((a, b) => b.changedAt.getTime() - a.changedAt.getTime())[0];
+
+    // Without a snapshot, the value a pending change replaced is the last one the server had
+    const lastKnown = lastServer?.[flag] ?? (latestPending ? !latestPending.value : local[flag]);
+    if (serverValue === lastKnown) continue;
+
+    if (local[flag] === serverValue) {
+      resolutions.push({ flag, serverValue, winner: 'converged' });
+    } else if (latestPending && latestPending.changedAt.getTime() > serverChangedAt.getTime()) {
+      resolutions.push({ flag, serverValue, winner: 'local' });
+    } else {
+      resolutions.push({ flag, serverValue, winner: 'server' });
+    }
+  }
+
+  return resolutions;
+}
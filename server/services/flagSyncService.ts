@@ -0,0 +1,271 @@
+import { db } from '../db';
+import { emails, emailFlagChanges, Email, EmailFlagChange } from '@shared/schema';
+import { and, asc, desc, eq, inArray, sql } from 'drizzle-orm';
+import {
+  EmailFlag,
+  FlagState,
+  FLAG_FIELDS,
+  FlagField,
+  flagStateOf,
+  flagStateFromImap,
+  reconcileServerFlags,
+  FlagResolution
+} from './flagReconciler';
+import type { ImapFlagRefresh } from './imapService';
+
+// A local change that still can't be pushed after this many attempts is given up on
+const MAX_PUSH_ATTEMPTS = 5;
+
+/**
+ * Service that keeps read, starred, archived and deleted flags in sync with the provider
+ *
+ * Local changes are written to the email right away and queued as pending rows of
+ * email_flag_changes until they are pushed. Changes pulled from the server are logged in
+ * the same table. When both sides changed a flag, the later change wins.
+ */
+export class FlagSyncService {
+  /**
+   * Apply flag changes made in the app and queue them for the provider.
+   * A newer local change to the same flag replaces one that was still waiting.
+   */
+  async recordLocalChanges(email: Email, updates: Partial<FlagState>, changedAt = new Date()): Promise<EmailFlagChange[]> {
+    const current = flagStateOf(email);
+    const changed = (Object.keys(updates) as EmailFlag[]).filter(flag => updates[flag] !== current[flag]);
+
+    if (changed.length === 0) {
+      return [];
+    }
+
+    const queued: EmailFlagChange[] = [];
+
+    for (const flag of changed) {
+      await db.update(emailFlagChanges)
+        .set({ status: 'superseded', detail: 'Replaced by a later local change' })
+        .where(and(
+          eq(emailFlagChanges.emailId, email.id),
+          eq(emailFlagChanges.flag, flag),
+          eq(emailFlagChanges.status, 'pending')
+        ));
+
+      const [change] = await db.insert(emailFlagChanges)
+        .values({
+          emailId: email.id,
+          accountId: email.accountId,
+          flag,
+          value: updates[flag]!,
+          source: 'local',
+          status: 'pending',
+          changedAt
+        })
+        .returning();
+
+      queued.push(change);
+    }
+
+    await db.update(emails)
+      .set({ ...this.toFields(updates, changed), updatedAt: new Date() })
+      .where(eq(emails.id, email.id));
+
+    return queued;
+  }
+
+  /**
+   * Local changes of an account waiting to be pushed, oldest first
+   */
+  async getPendingChanges(accountId: number): Promise<EmailFlagChange[]> {
+    return db.select()
+      .from(emailFlagChanges)
+      .where(and(
+        eq(emailFlagChanges.accountId, accountId),
+        eq(emailFlagChanges.source, 'local'),
+        eq(emailFlagChanges.status, 'pending')
+      ))
+      .orderBy(asc(emailFlagChanges.id));
+  }
+
+  /**
+   * Accounts with local changes waiting to be pushed
+   */
+  async getAccountsWithPendingChanges(): Promise<number[]> {
+    const rows = await db.selectDistinct({ accountId: emailFlagChanges.accountId })
+      .from(emailFlagChanges)
+      .where(and(eq(emailFlagChanges.source, 'local'), eq(emailFlagChanges.status, 'pending')));
+
+    return rows.map(row => row.accountId);
+  }
+
+  /**
+   * Record that a local change reached the provider. The server now has the pushed value,
+   * and `metadata` takes whatever locates the message after the change (a new mailbox, UID or item id).
+   */
+  async markPushed(change: EmailFlagChange, metadata: Record<string, unknown> = {}): Promise<void> {
+    // A change superseded while it was being pushed stays superseded
+    await db.update(emailFlagChanges)
+      .set({ status: 'applied', appliedAt: new Date(), attempts: change.attempts + 1, lastError: null })
+      .where(and(eq(emailFlagChanges.id, change.id), eq(emailFlagChanges.status, 'pending')));
+
+    await db.update(emails)
+      .set({
+        serverFlags: sql`COALESCE(${emails.serverFlags}, '{}'::jsonb) || ${JSON.stringify({ [change.flag]: change.value })}::jsonb`,
+        metadata: sql`COALESCE(${emails.metadata}, '{}'::jsonb) || ${JSON.stringify(metadata)}::jsonb`
+      })
+      .where(eq(emails.id, change.emailId));
+  }
+
+  /**
+   * Record a failed push; the change stays queued until it has failed MAX_PUSH_ATTEMPTS times
+   */
+  async markPushFailed(change: EmailFlagChange, error: Error): Promise<void> {
+    const attempts = change.attempts + 1;
+
+    await db.update(emailFlagChanges)
+      .set({
+        attempts,
+        lastError: error.message,
+        status: attempts >= MAX_PUSH_ATTEMPTS ? 'failed' : 'pending'
+      })
+      .where(and(eq(emailFlagChanges.id, change.id), eq(emailFlagChanges.status, 'pending')));
+  }
+
+  /**
+   * Bring in the flags just read from the provider for one email.
+   * Flags the server didn't change since they were last seen there are ignored, so local
+   * changes that haven't been pushed yet are not undone. Every server change is logged.
+   */
+  async applyServerFlags(emailId: number, server: Partial<FlagState>, serverChangedAt: Date): Promise<FlagResolution[]> {
+    const [email] = await db.select().from(emails).where(eq(emails.id, emailId));
+    if (!email) return [];
+
+    const pending = await db.select()
+      .from(emailFlagChanges)
+      .where(and(eq(emailFlagChanges.emailId, emailId), eq(emailFlagChanges.status, 'pending')));
+
+    const resolutions = reconcileServerFlags(
+      flagStateOf(email),
+      email.serverFlags as Partial<FlagState> | null,
+      server,
+      pending.map(change => ({ flag: change.flag, value: change.value, changedAt: change.changedAt })),
+      serverChangedAt
+    );
+
+    const lastServer = (email.serverFlags || {}) as Partial<FlagState>;
+    const snapshotChanged = (Object.keys(server) as EmailFlag[]).some(flag => lastServer[flag] !== server[flag]);
+    if (resolutions.length === 0 && !snapshotChanged) {
+      return [];
+    }
+
+    const now = new Date();
+    const serverWins = resolutions.filter(resolution => resolution.winner !== 'local');
+
+    for (const resolution of resolutions) {
+      const supersededIds = pending
+        .filter(change => change.flag === resolution.flag)
+        .map(change => change.id);
+
+      await db.insert(emailFlagChanges).values({
+        emailId,
+        accountId: email.accountId,
+        flag: resolution.flag,
+        value: resolution.serverValue,
+        source: 'server',
+        status: resolution.winner === 'local' ? 'superseded' : 'applied',
+        detail: resolution.winner === 'local'
+          ? 'A newer local change is waiting to be pushed'
+          : resolution.winner === 'converged' ? 'Already set locally' : null,
+        changedAt: serverChangedAt,
+        appliedAt: resolution.winner === 'local' ? null : now
+      });
+
+      if (resolution.winner !== 'local' && supersededIds.length > 0) {
+        await db.update(emailFlagChanges)
+          .set({
+            status: 'superseded',
+            detail: resolution.winner === 'converged' ? 'The server already has this value' : 'A newer server change won'
+          })
+          .where(inArray(emailFlagChanges.id, supersededIds));
+      }
+    }
+
+    const serverUpdates: Partial<FlagState> = {};
+    for (const resolution of serverWins) {
+      serverUpdates[resolution.flag] = resolution.serverValue;
+    }
+
+    await db.update(emails)
+      .set({
+        ...this.toFields(serverUpdates, serverWins.map(resolution => resolution.flag)),
+        serverFlags: { ...lastServer, ...server },
+        ...(serverWins.length > 0 ? { updatedAt: now } : {})
+      })
+      .where(eq(emails.id, emailId));
+
+    if (resolutions.length > 0) {
+      console.log(`Server flag changes for email ${emailId}: ${resolutions.map(r => `${r.flag}=${r.serverValue} (${r.winner})`).join(', ')}`);
+    }
+
+    return resolutions;
+  }
+
+  /**
+   * Bring in the flags read from an IMAP mailbox on an incremental sync. Messages last seen
+   * in INBOX that are no longer there were archived (or moved away) on the server.
+   */
+  async applyImapFlagRefresh(accountId: number, mailbox: string, refresh: ImapFlagRefresh, serverChangedAt: Date): Promise<number> {
+    const stored = await db
+      .select({
+        id: emails.id,
+        uid: sql<string>`${emails.metadata}->>'uid'`,
+        archivedOnServer: sql<boolean>`COALESCE((${emails.serverFlags}->>'archived')::boolean, false)`
+      })
+      .from(emails)
+      .where(and(
+        eq(emails.accountId, accountId),
+        sql`${emails.metadata}->>'mailbox' = ${mailbox}`,
+        sql`${emails.metadata}->>'uid' IS NOT NULL`
+      ));
+
+    const byUid = new Map(stored.map(row => [Number(row.uid), row.id]));
+    let changed = 0;
+
+    for (const message of refresh.messages) {
+      const emailId = byUid.get(message.uid);
+      if (!emailId) continue;
+
+      const server = flagStateFromImap(message.flags, message.gmailLabels);
+      if (mailbox === 'INBOX') server.archived = false;
+
+      changed += (await this.applyServerFlags(emailId, server, serverChangedAt)).length;
+    }
+
+    if (mailbox === 'INBOX') {
+      const present = new Set(refresh.presentUids);
+      const vanished = stored.filter(row => !present.has(Number(row.uid)) && !row.archivedOnServer);
+
+      for (const row of vanished) {
+        changed += (await this.applyServerFlags(row.id, { archived: true }, serverChangedAt)).length;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Change log of an email's flags, newest first
+   */
+  async getChangeLog(emailId: number): Promise<EmailFlagChange[]> {
+    return db.select()
+      .from(emailFlagChanges)
+      .where(eq(emailFlagChanges.emailId, emailId))
+      .orderBy(desc(emailFlagChanges.createdAt), desc(emailFlagChanges.id));
+  }
+
+  private toFields(values: Partial<FlagState>, flags: EmailFlag[]): Partial<Record<FlagField, boolean>> {
+    const fields: Partial<Record<FlagField, boolean>> = {};
+    for (const flag of flags) {
+      fields[FLAG_FIELDS[flag]] = values[flag]!;
+    }
+    return fields;
+  }
+}
+
+export const flagSyncService = new FlagSyncService();
@@ -0,0 +1,281 @@
+/**
+ * Graph Client
+ * Minimal Microsoft Graph mail client built around /messages/delta
+ */
+import axios, { AxiosResponse } from 'axios';
+
+export interface GraphClientOptions {
+  baseUrl?: string;
+  getAccessToken: () => Promise<string>;
+  refreshAccessToken?: () => Promise<string>;
+  timeout?: number;
+}
+
+export type GraphSyncMode = 'initial' | 'incremental' | 'backfill';
+
+export interface GraphDeltaPage {
+  messages: any[];
+  removed: string[];
+  nextLink?: string;
+  deltaLink?: string;
+}
+
+export interface GraphFolderSyncOptions {
+  mode?: 'incremental' | 'backfill';
+  limit?: number;
+  pageSize?: number;
+}
+
+export interface GraphFolderSyncResult {
+  mode: GraphSyncMode;
+  emails: any[];
+  deltaLink: string;
+  deleted: string[];
+  flagChanges: GraphFlagChange[];
+}
+
+/**
+ * Read and flag state of a message reported by a delta round, with Graph's last modification time
+ */
+export interface GraphFlagChange {
+  id: string;
+  isRead: boolean;
+  isStarred: boolean;
+  changedAt: Date | null;
+}
+
+const DEFAULT_BASE_URL = 'https://graph.microsoft.com/v1.0';
+
+// Message properties requested on every delta round
+const MESSAGE_SELECT = [
+  'id',
+  'changeKey',
+  'internetMessageId',
+  'conversationId',
+  'parentFolderId',
+  'subject',
+  'body',
+  'bodyPreview',
+  'from',
+  'toRecipients',
+  'ccRecipients',
+  'receivedDateTime',
+  'isRead',
+  'flag',
+  'lastModifiedDateTime',
+  'hasAttachments'
+];
+
+// Throttled requests are retried this many times, honouring Retry-After
+const MAX_THROTTLE_RETRIES = 3;
+
+function formatRecipient(recipient: any): string {
+  const emailAddress = recipient?.emailAddress;
+  if (!emailAddress) return '';
+  const address = emailAddress.address || '';
+  return emailAddress.name && emailAddress.name !== address ? `${emailAddress.name} <${address}>` : address;
+}
+
+export class GraphClient {
+  private baseUrl: string;
+
+  constructor(private options: GraphClientOptions) {
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, '');
+  }
+
+  /**
+   * Send a Graph request, refreshing the token once on 401 and backing off on 429/503
+   */
+  private async request(method: 'get' | 'patch' | 'post', url: string, headers: Record<string, string> = {}, data?: any): Promise<AxiosResponse> {
+    let accessToken = await this.options.getAccessToken();
+    let refreshed = false;
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await axios.request({
+        method,
+        url,
+        data,
+        headers: {
+          ...headers,
+          ...(data !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          'Authorization': `Bearer ${accessToken}`,
+          'Accept': 'application/json'
+        },
+        timeout: this.options.timeout || 30000,
+        validateStatus: () => true
+      });
+
+      if (response.status === 401 && !refreshed && this.options.refreshAccessToken) {
+        accessToken = await this.options.refreshAccessToken();
+        refreshed = true;
+        continue;
+      }
+
+      if ((response.status === 429 || response.status === 503) && attempt < MAX_THROTTLE_RETRIES) {
+        const retryAfter = parseInt(response.headers['retry-after'] || '', 10);
+        const delayMs = Math.min(Number.isNaN(retryAfter) ? 2 ** attempt : retryAfter, 30) * 1000;
+        console.log(`Graph request throttled (HTTP ${response.status}), retrying in ${delayMs}ms`);
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        continue;
+      }
+
+      if (response.status >= 400) {
+        const error = response.data?.error;
+        throw new Error(`Graph request failed with HTTP ${response.status}: ${error?.code || 'unknown'} - ${error?.message || 'no details'}`);
+      }
+
+      return response;
+    }
+  }
+
+  /**
+   * Build the URL of the first delta round for a folder (a well-known name like inbox or a folder id)
+   */
+  private initialDeltaUrl(folder: string): string {
+    const params = new URLSearchParams({ '$select': MESSAGE_SELECT.join(',') });
+    return `${this.baseUrl}/me/mailFolders/${encodeURIComponent(folder)}/messages/delta?${params.toString()}`;
+  }
+
+  /**
+   * Convert a Graph message into the email shape expected by saveEmails
+   */
+  private toEmail(message: any, folder: string): any {
+    const isHtml = message.body?.contentType === 'html';
+    const content = message.body?.content || '';
+
+    return {
+      messageId: message.internetMessageId || message.id,
+      sender: formatRecipient(message.from),
+      recipients: (message.toRecipients || []).map(formatRecipient),
+      subject: message.subject || '(No Subject)',
+      body: isHtml ? message.bodyPreview || '' : content,
+      bodyHtml: isHtml ? content : null,
+      threadId: message.conversationId,
+      folder,
+      labels: [folder],
+      timestamp: message.receivedDateTime ? new Date(message.receivedDateTime) : new Date(),
+      flags: [
+        ...(message.isRead ? ['\\Seen'] : []),
+        ...(message.flag?.flagStatus === 'flagged' ? ['\\Flagged'] : [])
+      ],
+      metadata: {
+        graphMessageId: message.id,
+        graphChangeKey: message.changeKey,
+        folder,
+        parentFolderId: message.parentFolderId,
+        cc: (message.ccRecipients || []).map(formatRecipient),
+        hasAttachments: !!message.hasAttachments
+      }
+    };
+  }
+
+  /**
+   * Fetch one delta page. The URL is either the initial delta URL, a nextLink or a deltaLink.
+   */
+  async getDeltaPage(url: string, pageSize = 100): Promise<GraphDeltaPage> {
+    const response = await this.request('get', url, {
+      'Prefer': `odata.maxpagesize=${pageSize}, outlook.body-content-type="text"`
+    });
+    const data = response.data || {};
+    const values: any[] = data.value || [];
+
+    return {
+      messages: values.filter(value => !value['@removed']),
+      removed: values.filter(value => value['@removed']).map(value => value.id),
+      nextLink: data['@odata.nextLink'],
+      deltaLink: data['@odata.deltaLink']
+    };
+  }
+
+  /**
+   * Follow nextLinks until Graph hands back a deltaLink for the next round
+   */
+  private async drainDelta(url: string, pageSize: number): Promise<{ messages: any[]; removed: string[]; deltaLink: string }> {
+    const messages: any[] = [];
+    const removed: string[] = [];
+    let nextUrl: string | undefined = url;
+
+    while (nextUrl) {
+      const page = await this.getDeltaPage(nextUrl, pageSize);
+      messages.push(...page.messages);
+      removed.push(...page.removed);
+
+      if (page.deltaLink) {
+        return { messages, removed, deltaLink: page.deltaLink };
+      }
+      nextUrl = page.nextLink;
+    }
+
+    throw new Error('Graph delta query ended without a deltaLink');
+  }
+
+  /**
+   * Sync a folder into saveEmails-shaped messages.
+   *
+   * - With a stored delta link, only messages added or changed since then are returned.
+   * - Without one (or when Graph reports it expired with 410 Gone), a fresh delta round is run
+   *   and the newest `limit` messages are kept.
+   * - Backfill mode runs a fresh delta round and keeps every message in the folder.
+   */
+  async syncFolder(folder: string, deltaLink: string | null, options: GraphFolderSyncOptions = {}): Promise<GraphFolderSyncResult> {
+    const { mode = 'incremental', limit = 50, pageSize = 100 } = options;
+
+    if (mode === 'incremental' && deltaLink) {
+      try {
+        const changes = await this.drainDelta(deltaLink, pageSize);
+
+        return {
+          mode: 'incremental',
+          emails: changes.messages.map(message => this.toEmail(message, folder)),
+          deltaLink: changes.deltaLink,
+          deleted: changes.removed,
+          flagChanges: changes.messages
+            .filter(message => typeof message.isRead === 'boolean')
+            .map(message => ({
+              id: message.id,
+              isRead: message.isRead,
+              isStarred: message.flag?.flagStatus === 'flagged',
+              changedAt: message.lastModifiedDateTime ? new Date(message.lastModifiedDateTime) : null
+            }))
+        };
+      } catch (error) {
+        if (!(error instanceof Error) || !error.message.includes('HTTP 410')) {
+          throw error;
+        }
+        console.log(`Graph delta link for ${folder} has expired, starting a fresh sync`);
+      }
+    }
+
+    const baseline = await this.drainDelta(this.initialDeltaUrl(folder), pageSize);
+
+    // The first delta round returns the whole folder; keep only the newest messages unless backfilling
+    const newestFirst = baseline.messages.sort((a, b) =>
+      new Date(b.receivedDateTime || 0).getTime() - new Date(a.receivedDateTime || 0).getTime()
+    );
+    const kept = mode === 'backfill' ? newestFirst : newestFirst.slice(0, limit);
+
+    return {
+      mode: mode === 'backfill' ? 'backfill' : 'initial',
+      emails: kept.map(message => this.toEmail(message, folder)),
+      deltaLink: baseline.deltaLink,
+      deleted: [],
+      flagChanges: []
+    };
+  }
+
+  /**
+   * Update properties of a message, e.g. { isRead: true } or { flag: { flagStatus: 'flagged' } }
+   */
+  async updateMessage(messageId: string, changes: Record<string, unknown>): Promise<void> {
+    await this.request('patch', `${this.baseUrl}/me/messages/${encodeURIComponent(messageId)}`, {}, changes);
+  }
+
+  /**
+   * Move a message to another folder (a well-known name like archive or a folder id).
+   * Graph gives the moved message a new id, which is returned.
+   */
+  async moveMessage(messageId: string, destinationId: string): Promise<string> {
+    const response = await this.request('post', `${this.baseUrl}/me/messages/${encodeURIComponent(messageId)}/move`, {}, { destinationId });
+    return response.data?.id || messageId;
+  }
+}
@@ -0,0 +1,144 @@
+import { db } from "../db";
+import { emails, emailAccounts, Email, EmailAccount } from "@shared/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { GraphClient, GraphFolderSyncResult } from "./graphClient";
+import { emailService } from "./emailService";
+import { oauthService } from "./oauthService";
+import { syncStateService } from "./syncStateService";
+import { flagSyncService } from "./flagSyncService";
+import type { EmailFlag } from "./flagReconciler";
+
+// Well-known folders ingested when the account has no folder selection: Inbox, Sent Items and Archive
+const DEFAULT_SYNC_FOLDERS = ['inbox', 'sentitems', 'archive'];
+
+/**
+ * Service for Microsoft 365 accounts read through Microsoft Graph
+ */
+export class GraphService {
+  /**
+   * Create a Graph client that takes its tokens from the account's OAuth credentials
+   */
+  private createClient(account: EmailAccount): GraphClient {
+    if (account.accountType !== 'outlook_graph') {
+      throw new Error(`Account with ID ${account.id} is not a Microsoft Graph account`);
+    }
+
+    const serverSettings = (account.serverSettings || {}) as any;
+
+    return new GraphClient({
+      baseUrl: serverSettings.graphBaseUrl,
+      getAccessToken: () => oauthService.getAccessToken(account.id),
+      refreshAccessToken: async () => {
+        const token = await oauthService.refreshAccessToken(account.id);
+        if (!token) {
+          throw new Error(`Could not refresh the access token for account ${account.id}`);
+        }
+        return token;
+      }
+    });
+  }
+
+  /**
+   * Fetch emails from a folder with a Graph delta query, resuming from the stored delta link
+   */
+  async fetchEmails(accountId: number, limit = 50, mode: 'incremental' | 'backfill' = 'incremental', folder = 'inbox'): Promise<GraphFolderSyncResult> {
+    try {
+      const [account] = await db.select().from(emailAccounts).where(eq(emailAccounts.id, accountId));
+
+      if (!account) {
+        throw new Error(`Email account with ID ${accountId} not found`);
+      }
+
+      const client = this.createClient(account);
+      const deltaLink = await syncStateService.getSyncToken(accountId, folder);
+
+      const result = await client.syncFolder(folder, deltaLink, { mode, limit });
+      console.log(`Graph ${result.mode} sync of ${account.emailAddress}/${folder}: ${result.emails.length} messages`);
+
+      return result;
+    } catch (error) {
+      console.error('Error fetching Graph emails:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Synchronize emails for a Microsoft Graph account across its selected folders
+   */
+  async syncEmails(accountId: number, limit = 50, mode: 'incremental' | 'backfill' = 'incremental'): Promise<number> {
+    try {
+      const [account] = await db.select().from(emailAccounts).where(eq(emailAccounts.id, accountId));
+      const folders = account?.syncFolders?.length ? account.syncFolders : DEFAULT_SYNC_FOLDERS;
+      let storedCount = 0;
+      let failedFolders = 0;
+
+      for (const folder of folders) {
+        try {
+          const lastSyncedAt = await syncStateService.getLastSyncedAt(accountId, folder);
+          const result = await this.fetchEmails(accountId, limit, mode, folder);
+
+          // Delta rounds return new and changed messages alike; saveEmails skips ones already stored
+          storedCount += await emailService.saveEmails(accountId, result.emails);
+
+          for (const change of result.flagChanges) {
+            const [email] = await db.select({ id: emails.id })
+              .from(emails)
+              .where(and(eq(emails.accountId, accountId), sql`${emails.metadata}->>'graphMessageId' = ${change.id}`));
+
+            if (email) {
+              await flagSyncService.applyServerFlags(
+                email.id,
+                { read: change.isRead, starred: change.isStarred },
+                change.changedAt || lastSyncedAt || new Date()
+              );
+            }
+          }
+
+          // Only advance the delta link once everything before it has been stored
+          await syncStateService.saveSyncToken(accountId, folder, result.deltaLink, mode === 'backfill');
+        } catch (folderError) {
+          failedFolders++;
+          console.error(`Error syncing Graph folder ${folder} for account ${accountId}:`, folderError);
+          if (failedFolders === folders.length) {
+            throw folderError;
+          }
+        }
+      }
+
+      return storedCount;
+    } catch (error) {
+      console.error(`Error syncing Graph emails for account ${accountId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Push one flag change to Graph. Read and starred are message properties; archive and
+   * delete move the message, which gives it a new id.
+   */
+  async pushFlagChange(account: EmailAccount, email: Email, flag: EmailFlag, value: boolean): Promise<Record<string, unknown>> {
+    const client = this.createClient(account);
+    const messageId = (email.metadata as any)?.graphMessageId;
+
+    if (!messageId) {
+      throw new Error(`Email ${email.id} has no Graph message id`);
+    }
+
+    switch (flag) {
+      case 'read':
+        await client.updateMessage(messageId, { isRead: value });
+        return {};
+      case 'starred':
+        await client.updateMessage(messageId, { flag: { flagStatus: value ? 'flagged' : 'notFlagged' } });
+        return {};
+      case 'archived':
+      case 'deleted': {
+        const destination = value ? (flag === 'archived' ? 'archive' : 'deleteditems') : 'inbox';
+        const movedId = await client.moveMessage(messageId, destination);
+        return { graphMessageId: movedId, folder: destination };
+      }
+    }
+  }
+}
+
+export const graphService = new GraphService();
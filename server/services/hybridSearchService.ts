@@ -265,7 +265,7 @@ class HybridSearchService {
   private async performSemanticSearch(userId: number, query: string, limit: number): Promise<SearchResult[]> {
     try {
       // Generate embedding for the query text
-      const embedding = await embeddingService.generateEmbedding(query);
+      const embedding = await embeddingService.generateEmbedding(query, { userId, feature: 'hybrid-search' });
       if (!embedding || embedding.length === 0) {
         log('Failed to generate embedding for search query', 'error');
         return [];
@@ -0,0 +1,734 @@
+import Imap, { type ImapBoxes, type ImapMailbox } from 'node-imap';
+import { simpleParser, type AddressObject } from 'mailparser';
+import type { EmailAccount } from '@shared/schema';
+import { parseMessageIds } from './messageThreader';
+
+export type ImapTlsMode = 'tls' | 'starttls' | 'none';
+export type ImapAuthMethod = 'password' | 'xoauth2';
+
+/**
+ * Connection settings for an IMAP server, stored in emailAccounts.serverSettings
+ */
+export interface ImapServerSettings {
+  host: string;
+  port: number;
+  tlsMode: ImapTlsMode;
+  authMethod: ImapAuthMethod;
+  username?: string;
+  // Certificates are verified unless the account opts out, e.g. for a self-signed server
+  rejectUnauthorized?: boolean;
+}
+
+/**
+ * Login credentials for an IMAP connection
+ */
+export interface ImapCredentials {
+  user: string;
+  password?: string;
+  accessToken?: string;
+  // Fetches a new access token when an XOAUTH2 login is rejected
+  refreshAccessToken?: () => Promise<string>;
+}
+
+export interface ImapFetchOptions {
+  mailbox?: string;
+  searchCriteria?: any[];
+  limit?: number;
+  cleanBody?: (text: string) => string;
+}
+
+export type ImapSyncMode = 'incremental' | 'backfill';
+
+/**
+ * Per-folder sync cursor persisted in the email_sync_state table
+ */
+export interface ImapSyncCursor {
+  uidValidity: number | null;
+  lastUid: number;
+  highestModseq: string | null;
+  // Messages at or below lastUid that couldn't be parsed; they are fetched again on the next sync
+  failedUids: number[];
+}
+
+export interface ImapSyncOptions {
+  mailbox?: string;
+  mode?: ImapSyncMode;
+  limit?: number;
+  batchSize?: number;
+  cleanBody?: (text: string) => string;
+  onBatch: (emails: any[]) => Promise<void>;
+}
+
+export interface ImapSyncResult {
+  fetched: number;
+  // Messages that couldn't be parsed this time, kept in the cursor for a retry
+  failedUids: number[];
+  uidValidityChanged: boolean;
+  cursor: ImapSyncCursor;
+  flagRefresh?: ImapFlagRefresh;
+}
+
+/**
+ * Flags of messages already synced from a mailbox, read again on an incremental sync.
+ * With CONDSTORE only messages changed since the stored HIGHESTMODSEQ are listed;
+ * `presentUids` holds every UID still in the mailbox, so moved and expunged messages can be told apart.
+ */
+export interface ImapFlagRefresh {
+  messages: { uid: number; flags: string[]; gmailLabels: string[] }[];
+  presentUids: number[];
+}
+
+/**
+ * Identifies a message on the server: Gmail's X-GM-MSGID when known, otherwise its Message-ID header
+ */
+export interface ImapMessageLocator {
+  messageId: string;
+  gmailMessageId?: string | null;
+}
+
+/**
+ * Changes to a single message: flags (STORE), Gmail labels (X-GM-LABELS) and a move to another mailbox
+ */
+export interface ImapMessageUpdate {
+  addFlags?: string[];
+  delFlags?: string[];
+  addLabels?: string[];
+  delLabels?: string[];
+  moveTo?: string;
+}
+
+export type ImapSpecialFolder = 'archive' | 'trash' | 'all';
+
+/**
+ * A selectable mailbox on the server with its RFC 6154 special-use attributes (\Sent, \All, ...)
+ */
+export interface ImapMailboxInfo {
+  path: string;
+  specialUse: string[];
+}
+
+// Special-use attributes of the folders ingested by default besides INBOX, in order of preference
+const DEFAULT_SPECIAL_USE_FOLDERS = [['\\Sent'], ['\\All', '\\Archive']];
+
+// Fallback names for servers that don't advertise special-use attributes
+const FALLBACK_FOLDER_NAMES = [
+  ['[Gmail]/Sent Mail', '[Google Mail]/Sent Mail', 'Sent', 'Sent Items', 'Sent Messages', 'INBOX.Sent'],
+  ['[Gmail]/All Mail', '[Google Mail]/All Mail', 'Archive', 'INBOX.Archive']
+];
+
+// Gmail accounts don't carry server settings, so they use this preset
+const GMAIL_IMAP_SETTINGS: ImapServerSettings = {
+  host: 'imap.gmail.com',
+  port: 993,
+  tlsMode: 'tls',
+  authMethod: 'password'
+};
+
+// Special-use attributes and fallback names of the folders used for archiving and deleting
+const SPECIAL_FOLDERS: Record<ImapSpecialFolder, { specialUse: string[]; names: string[] }> = {
+  archive: { specialUse: ['\\Archive'], names: ['Archive', 'Archives', 'INBOX.Archive'] },
+  trash: { specialUse: ['\\Trash'], names: ['[Gmail]/Trash', '[Google Mail]/Trash', 'Trash', 'Deleted Items', 'Deleted Messages', 'INBOX.Trash'] },
+  all: { specialUse: ['\\All'], names: ['[Gmail]/All Mail', '[Google Mail]/All Mail'] }
+};
+
+const TLS_MODES: ImapTlsMode[] = ['tls', 'starttls', 'none'];
+
+/**
+ * Shared IMAP pipeline used by every IMAP-based account type (Gmail and generic IMAP)
+ */
+class ImapService {
+  /**
+   * Validate and normalize raw server settings submitted for an IMAP account
+   */
+  normalizeServerSettings(raw: any): ImapServerSettings {
+    if (!raw || typeof raw !== 'object' || !raw.host) {
+      throw new Error('IMAP host is required for IMAP accounts');
+    }
+
+    const tlsMode: ImapTlsMode = TLS_MODES.includes(raw.tlsMode) ? raw.tlsMode : 'tls';
+    const port = raw.port ? parseInt(raw.port, 10) : (tlsMode === 'tls' ? 993 : 143);
+
+    if (isNaN(port) || port <= 0 || port > 65535) {
+      throw new Error(`Invalid IMAP port: ${raw.port}`);
+    }
+
+    return {
+      host: String(raw.host).trim(),
+      port,
+      tlsMode,
+      authMethod: raw.authMethod === 'xoauth2' ? 'xoauth2' : 'password',
+      username: raw.username ? String(raw.username).trim() : undefined,
+      rejectUnauthorized: raw.rejectUnauthorized !== false
+    };
+  }
+
+  /**
+   * Resolve the IMAP server settings for an account
+   */
+  resolveServerSettings(account: Pick<EmailAccount, 'accountType' | 'authMethod' | 'serverSettings'>): ImapServerSettings {
+    const stored = (account.serverSettings || {}) as any;
+    const defaultAuthMethod: ImapAuthMethod = account.authMethod === 'oauth' ? 'xoauth2' : 'password';
+
+    switch (account.accountType) {
+      case 'gmail':
+        return {
+          ...GMAIL_IMAP_SETTINGS,
+          authMethod: defaultAuthMethod,
+          ...(stored.host ? this.normalizeServerSettings(stored) : {})
+        };
+      case 'imap':
+        return this.normalizeServerSettings({ authMethod: defaultAuthMethod, ...stored });
+      default:
+        throw new Error(`Account type ${account.accountType} does not use IMAP`);
+    }
+  }
+
+  /**
+   * Create an IMAP connection for the given server settings and credentials
+   */
+  createConnection(settings: ImapServerSettings, credentials: ImapCredentials): Imap {
+    const user = settings.username || credentials.user;
+
+    const options: any = {
+      user,
+      host: settings.host,
+      port: settings.port,
+      tls: settings.tlsMode === 'tls',
+      autotls: settings.tlsMode === 'starttls' ? 'required' : 'never',
+      tlsOptions: { rejectUnauthorized: settings.rejectUnauthorized ?? true }
+    };
+
+    if (settings.authMethod === 'xoauth2') {
+      if (!credentials.accessToken) {
+        throw new Error('An access token is required for XOAUTH2 authentication');
+      }
+      options.xoauth2 = this.buildXOAuth2Token(user, credentials.accessToken);
+    } else {
+      options.password = credentials.password;
+    }
+
+    return new Imap(options);
+  }
+
+  /**
+   * Build the SASL XOAUTH2 initial client response
+   */
+  private buildXOAuth2Token(user: string, accessToken: string): string {
+    return Buffer.from(`user=${user}\x01auth=Bearer ${accessToken}\x01\x01`).toString('base64');
+  }
+
+  /**
+   * Format a parsed address header as a list of "Name <address>" strings
+   */
+  formatAddresses(addresses: AddressObject | AddressObject[] | undefined): string[] {
+    if (!addresses) return [];
+
+    const list = Array.isArray(addresses) ? addresses : [addresses];
+    return list.flatMap(group => group.value.map(entry =>
+      entry.name ? `${entry.name} <${entry.address}>` : entry.address || ''
+    )).filter(Boolean);
+  }
+
+  /**
+   * Whether an error is the server rejecting the login (e.g. an expired XOAUTH2 token)
+   */
+  isAuthenticationError(error: unknown): boolean {
+    const imapError = error as { source?: string; textCode?: string } | null;
+    return imapError?.source === 'authentication' || imapError?.textCode === 'AUTHENTICATIONFAILED';
+  }
+
+  /**
+   * Connect and log in. When an XOAUTH2 login is rejected and the credentials can refresh their
+   * access token, the token is refreshed (and kept in `credentials` for later connections) and
+   * the login is tried once more.
+   */
+  async openConnection(settings: ImapServerSettings, credentials: ImapCredentials): Promise<Imap> {
+    try {
+      return await this.connectOnce(settings, credentials);
+    } catch (error) {
+      if (settings.authMethod !== 'xoauth2' || !credentials.refreshAccessToken || !this.isAuthenticationError(error)) {
+        throw error;
+      }
+
+      console.log(`XOAUTH2 login for ${settings.username || credentials.user} was rejected, refreshing the access token`);
+      credentials.accessToken = await credentials.refreshAccessToken();
+      return this.connectOnce(settings, credentials);
+    }
+  }
+
+  private connectOnce(settings: ImapServerSettings, credentials: ImapCredentials): Promise<Imap> {
+    return new Promise((resolve, reject) => {
+      const imap = this.createConnection(settings, credentials);
+
+      const onError = (err: Error) => {
+        console.error('IMAP connection error:', err);
+        reject(err);
+      };
+
+      imap.once('ready', () => {
+        imap.removeListener('error', onError);
+        resolve(imap);
+      });
+      imap.once('error', onError);
+
+      imap.connect();
+    });
+  }
+
+  /**
+   * Open a connection, select a mailbox and run the given work against it.
+   * The connection is always closed once the work settles.
+   */
+  private async withMailbox<T>(
+    settings: ImapServerSettings,
+    credentials: ImapCredentials,
+    mailbox: string,
+    work: (imap: Imap, box: ImapMailbox) => Promise<T>
+  ): Promise<T> {
+    const imap = await this.openConnection(settings, credentials);
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      let outcome: { value?: T; error?: unknown } = {};
+
+      imap.openBox(mailbox, false, (err, box) => {
+        if (err) {
+          outcome = { error: err };
+          imap.end();
+          return;
+        }
+
+        work(imap, box)
+          .then((value) => { outcome = { value }; })
+          .catch((error) => { outcome = { error }; })
+          .finally(() => imap.end());
+      });
+
+      imap.once('error', (err) => {
+        console.error('IMAP connection error:', err);
+        if (!settled) {
+          settled = true;
+          reject(err);
+        }
+      });
+
+      imap.once('end', () => {
+        console.log('IMAP connection ended');
+        if (settled) return;
+        settled = true;
+
+        if (outcome.error) {
+          reject(outcome.error);
+        } else {
+          resolve(outcome.value as T);
+        }
+      });
+    });
+  }
+
+  /**
+   * List every selectable mailbox on the server
+   */
+  async listMailboxes(settings: ImapServerSettings, credentials: ImapCredentials): Promise<ImapMailboxInfo[]> {
+    const imap = await this.openConnection(settings, credentials);
+
+    return new Promise((resolve, reject) => {
+      imap.once('error', (err) => {
+        console.error('IMAP connection error:', err);
+        reject(err);
+      });
+
+      imap.getBoxes((err, boxes) => {
+        imap.end();
+        if (err) return reject(err);
+        resolve(this.flattenBoxes(boxes));
+      });
+    });
+  }
+
+  private flattenBoxes(boxes: ImapBoxes, prefix = ''): ImapMailboxInfo[] {
+    return Object.entries(boxes).flatMap(([name, box]) => {
+      const path = prefix + name;
+      const attribs = box.attribs || [];
+      const self = attribs.some(attrib => attrib.toUpperCase() === '\\NOSELECT')
+        ? []
+        : [{ path, specialUse: attribs.filter(attrib => attrib !== '\\HasChildren' && attrib !== '\\HasNoChildren') }];
+
+      return box.children
+        ? [...self, ...this.flattenBoxes(box.children, path + (box.delimiter || '/'))]
+        : self;
+    });
+  }
+
+  /**
+   * Pick the folders ingested by default: INBOX, Sent and All Mail (or Archive where there is no All Mail)
+   */
+  defaultSyncFolders(mailboxes: ImapMailboxInfo[]): string[] {
+    const folders = ['INBOX'];
+
+    DEFAULT_SPECIAL_USE_FOLDERS.forEach((attribs, index) => {
+      const bySpecialUse = attribs
+        .map(attrib => mailboxes.find(mailbox => mailbox.specialUse.includes(attrib)))
+        .find(Boolean);
+      const byName = FALLBACK_FOLDER_NAMES[index]
+        .map(name => mailboxes.find(mailbox => mailbox.path.toLowerCase() === name.toLowerCase()))
+        .find(Boolean);
+      const match = bySpecialUse || byName;
+
+      if (match && !folders.includes(match.path)) {
+        folders.push(match.path);
+      }
+    });
+
+    return folders;
+  }
+
+  /**
+   * Find the archive, trash or All Mail folder by its special-use attribute or a well-known name
+   */
+  findSpecialFolder(mailboxes: ImapMailboxInfo[], kind: ImapSpecialFolder): string | null {
+    const { specialUse, names } = SPECIAL_FOLDERS[kind];
+    const match = mailboxes.find(mailbox => mailbox.specialUse.some(attrib => specialUse.includes(attrib)))
+      || names.map(name => mailboxes.find(mailbox => mailbox.path.toLowerCase() === name.toLowerCase())).find(Boolean);
+
+    return match ? match.path : null;
+  }
+
+  /**
+   * Run a UID SEARCH on the selected mailbox
+   */
+  private search(imap: Imap, criteria: any[]): Promise<number[]> {
+    return new Promise((resolve, reject) => {
+      imap.search(criteria, (err, uids) => err ? reject(err) : resolve(uids));
+    });
+  }
+
+  /**
+   * Fetch and parse the given UIDs from the selected mailbox. Messages that fail to
+   * parse are left out of `emails` and listed in `failedUids`.
+   */
+  private fetchUids(
+    imap: Imap,
+    uids: number[],
+    mailbox: string,
+    cleanBody: (text: string) => string
+  ): Promise<{ emails: any[]; failedUids: number[] }> {
+    return new Promise((resolve, reject) => {
+      if (uids.length === 0) {
+        return resolve({ emails: [], failedUids: [] });
+      }
+
+      const fetchedEmails: any[] = [];
+      const failedUids: number[] = [];
+      const pendingParses: Promise<void>[] = [];
+
+      const fetch = imap.fetch(uids, {
+        bodies: [''],
+        struct: true
+      });
+
+      fetch.on('message', (msg, seqno) => {
+        const email: any = {
+          messageId: '',
+          sender: '',
+          recipients: [],
+          subject: '',
+          body: '',
+          bodyHtml: null,
+          timestamp: new Date(),
+          metadata: {}
+        };
+        let attributes: any = {};
+        // Keep the raw bytes: decoding chunks as UTF-8 corrupts 8bit and binary attachment parts
+        const chunks: Buffer[] = [];
+
+        msg.on('body', (stream) => {
+          stream.on('data', (chunk: Buffer) => {
+            chunks.push(chunk);
+          });
+        });
+
+        msg.once('attributes', (attrs) => {
+          attributes = attrs;
+        });
+
+        msg.once('end', () => {
+          pendingParses.push(simpleParser(Buffer.concat(chunks)).then((parsed) => {
+            email.messageId = parsed.messageId || `${Date.now()}-${seqno}`;
+            email.sender = parsed.from?.text || '';
+            email.recipients = this.formatAddresses(parsed.to);
+            email.subject = parsed.subject || '(No Subject)';
+            email.timestamp = parsed.date || new Date();
+            email.inReplyTo = parseMessageIds(parsed.inReplyTo)[0] || null;
+            email.messageReferences = parseMessageIds(parsed.references);
+            email.body = cleanBody(parsed.text || '');
+            // Store empty HTML to prevent rendering images and logos
+            email.bodyHtml = null;
+
+            email.uid = attributes.uid;
+            email.flags = attributes.flags || [];
+
+            // Gmail-specific attributes
+            if (attributes['x-gm-thrid']) {
+              email.threadId = attributes['x-gm-thrid'];
+            }
+
+            email.metadata = {
+              headers: parsed.headers,
+              attachments: parsed.attachments ? parsed.attachments.length : 0,
+              hasAttachments: parsed.attachments && parsed.attachments.length > 0,
+              subject: parsed.subject,
+              from: parsed.from,
+              to: parsed.to,
+              date: parsed.date,
+              mailbox,
+              uid: attributes.uid,
+              gmailLabels: attributes['x-gm-labels'],
+              threadId: attributes['x-gm-thrid'],
+              messageId: attributes['x-gm-msgid']
+            };
+
+            // Attachment content goes to saveEmails, which stores it outside the emails table
+            email.attachments = (parsed.attachments || []).map((attachment) => ({
+              filename: attachment.filename,
+              contentType: attachment.contentType,
+              content: attachment.content,
+              contentId: attachment.contentId,
+              isInline: attachment.contentDisposition === 'inline'
+            }));
+
+            // Gmail reports label membership directly; elsewhere the folder is the only label
+            email.folder = mailbox;
+            email.labels = attributes['x-gm-labels']?.length ? attributes['x-gm-labels'] : [mailbox];
+
+            fetchedEmails.push(email);
+          }).catch((parseError) => {
+            console.error(`Error parsing message ${seqno} (UID ${attributes.uid}):`, parseError);
+            if (attributes.uid) {
+              failedUids.push(attributes.uid);
+            }
+          }));
+        });
+      });
+
+      fetch.once('error', (err) => {
+        console.error('Fetch error:', err);
+        reject(err);
+      });
+
+      fetch.once('end', () => {
+        // Wait for every message to finish parsing before handing them back
+        Promise.all(pendingParses).then(() => {
+          console.log(`Fetched ${fetchedEmails.length} messages` + (failedUids.length > 0 ? `, ${failedUids.length} could not be parsed` : ''));
+          resolve({
+            emails: fetchedEmails.sort((a, b) => (a.uid || 0) - (b.uid || 0)),
+            failedUids: failedUids.sort((a, b) => a - b)
+          });
+        });
+      });
+    });
+  }
+
+  /**
+   * Fetch only the flags (and Gmail labels) of a UID range, optionally limited to
+   * messages changed since a HIGHESTMODSEQ. Servers without CONDSTORE return every message.
+   */
+  private fetchFlags(imap: Imap, range: string, changedSince: string | null): Promise<ImapFlagRefresh['messages']> {
+    return new Promise((resolve, reject) => {
+      const messages: ImapFlagRefresh['messages'] = [];
+
+      const fetch = imap.fetch(range, changedSince ? { modifiers: { changedsince: changedSince } } : {});
+
+      fetch.on('message', (msg) => {
+        msg.once('attributes', (attrs: any) => {
+          messages.push({ uid: attrs.uid, flags: attrs.flags || [], gmailLabels: attrs['x-gm-labels'] || [] });
+        });
+      });
+
+      fetch.once('error', reject);
+      fetch.once('end', () => resolve(messages));
+    });
+  }
+
+  private runCommand(command: (callback: (error: Error | null) => void) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      command((error) => error ? reject(error) : resolve());
+    });
+  }
+
+  /**
+   * Find a message in a mailbox and change its flags, Gmail labels or mailbox.
+   * Returns where the message is afterwards (its new UID is looked up after a move),
+   * or null when it is not in the mailbox.
+   */
+  async updateMessage(
+    settings: ImapServerSettings,
+    credentials: ImapCredentials,
+    mailbox: string,
+    locator: ImapMessageLocator,
+    update: ImapMessageUpdate
+  ): Promise<{ mailbox: string; uid: number | null } | null> {
+    return this.withMailbox(settings, credentials, mailbox, async (imap) => {
+      const criteria = locator.gmailMessageId
+        ? [['X-GM-MSGID', locator.gmailMessageId]]
+        : [['HEADER', 'MESSAGE-ID', locator.messageId]];
+      const [uid] = await this.search(imap, criteria);
+
+      if (!uid) {
+        return null;
+      }
+
+      if (update.addFlags?.length) await this.runCommand(callback => imap.addFlags(uid, update.addFlags!, callback));
+      if (update.delFlags?.length) await this.runCommand(callback => imap.delFlags(uid, update.delFlags!, callback));
+      if (update.addLabels?.length) await this.runCommand(callback => imap.addLabels(uid, update.addLabels!, callback));
+      if (update.delLabels?.length) await this.runCommand(callback => imap.delLabels(uid, update.delLabels!, callback));
+
+      if (!update.moveTo || update.moveTo === mailbox) {
+        return { mailbox, uid };
+      }
+
+      // Without the MOVE extension node-imap falls back to COPY, \Deleted and EXPUNGE
+      await this.runCommand(callback => imap.move(uid, update.moveTo!, callback));
+      await new Promise<void>((resolve, reject) => {
+        imap.openBox(update.moveTo!, false, (err) => err ? reject(err) : resolve());
+      });
+      const [movedUid] = await this.search(imap, criteria);
+
+      return { mailbox: update.moveTo, uid: movedUid || null };
+    });
+  }
+
+  /**
+   * Connect to an IMAP server, fetch matching messages and parse them into the
+   * email shape used by saveEmails/storeEmails
+   */
+  async fetchEmails(settings: ImapServerSettings, credentials: ImapCredentials, options: ImapFetchOptions = {}): Promise<any[]> {
+    const {
+      mailbox = 'INBOX',
+      searchCriteria = ['ALL'],
+      limit = 50,
+      cleanBody = (text: string) => text
+    } = options;
+
+    return this.withMailbox(settings, credentials, mailbox, async (imap) => {
+      const results = await this.search(imap, searchCriteria);
+
+      // If we have more emails than the limit, fetch the most recent ones
+      const emailsToFetch = results.length > limit ? results.slice(-limit) : results;
+      console.log(`Will fetch ${emailsToFetch.length} of ${results.length} messages from ${settings.host}/${mailbox}`);
+
+      return (await this.fetchUids(imap, emailsToFetch, mailbox, cleanBody)).emails;
+    });
+  }
+
+  /**
+   * Incrementally sync a mailbox using its UID cursor.
+   *
+   * - incremental: fetch only UIDs above the stored cursor, oldest first, at most `limit`.
+   *   A mailbox without a cursor starts from its most recent `limit` messages.
+   * - backfill: walk every UID in the mailbox in batches, oldest first.
+   *
+   * A changed UIDVALIDITY invalidates the stored cursor and the mailbox is resynced
+   * as if it had never been seen (duplicates are skipped on save by Message-ID).
+   *
+   * Messages that fail to parse don't hold the cursor back; their UIDs are kept in
+   * the cursor and fetched again on the next incremental sync until they parse or
+   * leave the mailbox.
+   */
+  async syncMailbox(
+    settings: ImapServerSettings,
+    credentials: ImapCredentials,
+    cursor: ImapSyncCursor | null,
+    options: ImapSyncOptions
+  ): Promise<ImapSyncResult> {
+    const {
+      mailbox = 'INBOX',
+      mode = 'incremental',
+      limit = 50,
+      batchSize = 100,
+      cleanBody = (text: string) => text,
+      onBatch
+    } = options;
+
+    return this.withMailbox(settings, credentials, mailbox, async (imap, box) => {
+      const uidValidity = Number(box.uidvalidity);
+      const uidValidityChanged = !!cursor && cursor.uidValidity !== null && cursor.uidValidity !== uidValidity;
+
+      if (uidValidityChanged) {
+        console.log(`UIDVALIDITY changed for ${settings.host}/${mailbox} (${cursor!.uidValidity} -> ${uidValidity}), resetting sync cursor`);
+      }
+
+      const lastUid = cursor && !uidValidityChanged ? cursor.lastUid : 0;
+
+      let uidsToFetch: number[];
+      if (mode === 'backfill') {
+        uidsToFetch = await this.search(imap, ['ALL']);
+      } else if (lastUid > 0) {
+        // "n:*" always matches the highest UID, even when it is below n
+        const newUids = await this.search(imap, [['UID', `${lastUid + 1}:*`]]);
+        uidsToFetch = newUids.filter(uid => uid > lastUid).slice(0, limit);
+      } else {
+        const allUids = await this.search(imap, ['ALL']);
+        uidsToFetch = allUids.slice(-limit);
+      }
+
+      uidsToFetch.sort((a, b) => a - b);
+      console.log(`${mode} sync of ${settings.host}/${mailbox}: ${uidsToFetch.length} messages after UID ${lastUid}`);
+
+      let highestUid = lastUid;
+      let fetched = 0;
+      const failedUids: number[] = [];
+
+      // A backfill fetches every UID again anyway
+      const retryUids = mode === 'incremental' && cursor && !uidValidityChanged
+        ? (cursor.failedUids || []).filter(uid => uid <= lastUid)
+        : [];
+      if (retryUids.length > 0) {
+        console.log(`Retrying ${retryUids.length} messages of ${settings.host}/${mailbox} that could not be parsed before`);
+        const retried = await this.fetchUids(imap, retryUids, mailbox, cleanBody);
+
+        await onBatch(retried.emails);
+
+        fetched += retried.emails.length;
+        failedUids.push(...retried.failedUids);
+      }
+
+      for (let i = 0; i < uidsToFetch.length; i += batchSize) {
+        const batch = uidsToFetch.slice(i, i + batchSize);
+        const batchResult = await this.fetchUids(imap, batch, mailbox, cleanBody);
+
+        await onBatch(batchResult.emails);
+
+        fetched += batchResult.emails.length;
+        failedUids.push(...batchResult.failedUids);
+        highestUid = Math.max(highestUid, batch[batch.length - 1]);
+      }
+
+      // Messages synced before may have been read, flagged or moved elsewhere since
+      let flagRefresh: ImapFlagRefresh | undefined;
+      if (mode === 'incremental' && lastUid > 0) {
+        const changedSince = cursor?.highestModseq && box.highestmodseq ? cursor.highestModseq : null;
+        flagRefresh = {
+          messages: await this.fetchFlags(imap, `1:${lastUid}`, changedSince),
+          presentUids: (await this.search(imap, [['UID', `1:${lastUid}`]])).filter(uid => uid <= lastUid)
+        };
+      }
+
+      return {
+        fetched,
+        failedUids,
+        uidValidityChanged,
+        flagRefresh,
+        cursor: {
+          uidValidity,
+          lastUid: highestUid,
+          highestModseq: box.highestmodseq ? String(box.highestmodseq) : null,
+          failedUids
+        }
+      };
+    });
+  }
+}
+
+// Create and export the service instance
+export const imapService = new ImapService();
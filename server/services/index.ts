@@ -2,7 +2,7 @@
 
 import { emailService } from './emailService';
 import { gmailService } from './gmailService';
-import { realTimeEmailService } from '../realTimeSync';
+import { realTimeEmailService } from './realTimeEmailService';
 import { aiService } from './aiService';
 import { aiModelService } from './aiModelService';
 import { emailChainService } from './emailChainService';
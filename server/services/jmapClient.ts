@@ -0,0 +1,400 @@
+/**
+ * JMAP Client
+ * Minimal JMAP mail client (RFC 8620/8621) built around Email/changes and Thread/get
+ */
+import axios, { AxiosResponse } from 'axios';
+
+export interface JmapClientOptions {
+  sessionUrl: string;
+  headers: Record<string, string>;
+  timeout?: number;
+}
+
+export type JmapSyncMode = 'initial' | 'incremental' | 'backfill';
+
+export interface JmapSyncOptions {
+  mode?: 'incremental' | 'backfill';
+  limit?: number;
+  pageSize?: number;
+}
+
+export interface JmapSyncResult {
+  mode: JmapSyncMode;
+  emails: any[];
+  state: string;
+  destroyed: string[];
+  flagChanges: JmapFlagChange[];
+}
+
+/**
+ * Read, flag and mailbox state of an email reported as updated by Email/changes
+ */
+export interface JmapFlagChange {
+  id: string;
+  isRead: boolean;
+  isStarred: boolean;
+  isArchived: boolean;
+  isDeleted: boolean;
+}
+
+export interface JmapMailbox {
+  id: string;
+  name: string;
+  role: string | null;
+  parentId: string | null;
+}
+
+interface JmapSession {
+  apiUrl: string;
+  accountId: string;
+  maxObjectsInGet: number;
+}
+
+type JmapMethodCall = [string, Record<string, unknown>, string];
+
+const CAPABILITIES = ['urn:ietf:params:jmap:core', 'urn:ietf:params:jmap:mail'];
+
+// Email properties requested on every Email/get
+const EMAIL_PROPERTIES = [
+  'id',
+  'threadId',
+  'mailboxIds',
+  'keywords',
+  'messageId',
+  'inReplyTo',
+  'references',
+  'from',
+  'to',
+  'cc',
+  'subject',
+  'receivedAt',
+  'preview',
+  'textBody',
+  'htmlBody',
+  'bodyValues',
+  'hasAttachment'
+];
+
+// Most changes asked for per Email/changes round
+const MAX_CHANGES = 256;
+
+function formatAddress(address: any): string {
+  if (!address?.email) return '';
+  return address.name && address.name !== address.email ? `${address.name} <${address.email}>` : address.email;
+}
+
+// JMAP strips the angle brackets IMAP and mailparser keep around message ids
+function bracketMessageId(id: string): string {
+  return id.startsWith('<') ? id : `<${id}>`;
+}
+
+function bodyText(email: any, parts: any[] | undefined, type: string): string {
+  // htmlBody lists the text/plain part when a message has no HTML alternative, and vice versa
+  return (parts || [])
+    .filter(part => part.type === type)
+    .map(part => email.bodyValues?.[part.partId]?.value || '')
+    .join('\n');
+}
+
+export class JmapClient {
+  private session: JmapSession | null = null;
+  private mailboxes: JmapMailbox[] | null = null;
+
+  constructor(private options: JmapClientOptions) {}
+
+  private async request(method: 'get' | 'post', url: string, data?: any): Promise<AxiosResponse> {
+    const response = await axios.request({
+      method,
+      url,
+      data,
+      headers: {
+        ...this.options.headers,
+        ...(data !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        'Accept': 'application/json'
+      },
+      timeout: this.options.timeout || 30000,
+      validateStatus: () => true
+    });
+
+    if (response.status >= 400) {
+      const problem = response.data || {};
+      throw new Error(`JMAP request failed with HTTP ${response.status}: ${problem.type || 'unknown'} - ${problem.detail || 'no details'}`);
+    }
+
+    return response;
+  }
+
+  /**
+   * Fetch the JMAP session once: the API URL and the account holding the mail
+   */
+  async getSession(): Promise<JmapSession> {
+    if (this.session) return this.session;
+
+    const { data } = await this.request('get', this.options.sessionUrl);
+    const accountId = data?.primaryAccounts?.['urn:ietf:params:jmap:mail'];
+
+    if (!data?.apiUrl || !accountId) {
+      throw new Error('JMAP session has no API URL or mail account');
+    }
+
+    this.session = {
+      // The API URL may be given relative to the session resource
+      apiUrl: new URL(data.apiUrl, this.options.sessionUrl).toString(),
+      accountId,
+      maxObjectsInGet: data.capabilities?.['urn:ietf:params:jmap:core']?.maxObjectsInGet || 500
+    };
+
+    return this.session;
+  }
+
+  /**
+   * Run one JMAP method and return its arguments. A method-level error is thrown with its type,
+   * e.g. "JMAP Email/changes failed: cannotCalculateChanges".
+   */
+  async call(name: string, args: Record<string, unknown>): Promise<any> {
+    const session = await this.getSession();
+    const methodCalls: JmapMethodCall[] = [[name, { accountId: session.accountId, ...args }, '0']];
+
+    const { data } = await this.request('post', session.apiUrl, { using: CAPABILITIES, methodCalls });
+    const [responseName, responseArgs] = data?.methodResponses?.[0] || [];
+
+    if (responseName === 'error') {
+      throw new Error(`JMAP ${name} failed: ${responseArgs?.type || 'unknown'}${responseArgs?.description ? ` - ${responseArgs.description}` : ''}`);
+    }
+    if (responseName !== name) {
+      throw new Error(`JMAP ${name} returned an unexpected response: ${responseName || 'none'}`);
+    }
+
+    return responseArgs;
+  }
+
+  /**
+   * List the account's mailboxes (cached for the lifetime of the client)
+   */
+  async getMailboxes(): Promise<JmapMailbox[]> {
+    if (this.mailboxes) return this.mailboxes;
+
+    const result = await this.call('Mailbox/get', { ids: null, properties: ['id', 'name', 'role', 'parentId'] });
+    this.mailboxes = (result.list || []).map((mailbox: any) => ({
+      id: mailbox.id,
+      name: mailbox.name,
+      role: mailbox.role || null,
+      parentId: mailbox.parentId || null
+    }));
+
+    return this.mailboxes!;
+  }
+
+  async findMailboxByRole(role: string): Promise<JmapMailbox | undefined> {
+    return (await this.getMailboxes()).find(mailbox => mailbox.role === role);
+  }
+
+  /**
+   * Fetch emails by id, in chunks of the server's maxObjectsInGet
+   */
+  private async getEmails(ids: string[]): Promise<{ list: any[]; state: string }> {
+    const { maxObjectsInGet } = await this.getSession();
+    const list: any[] = [];
+    let state = '';
+    let offset = 0;
+
+    // Always ask at least once: an empty Email/get still reports the current state
+    do {
+      const result = await this.call('Email/get', {
+        ids: ids.slice(offset, offset + maxObjectsInGet),
+        properties: EMAIL_PROPERTIES,
+        fetchTextBodyValues: true,
+        fetchHTMLBodyValues: true
+      });
+      list.push(...(result.list || []));
+      state = result.state;
+      offset += maxObjectsInGet;
+    } while (offset < ids.length);
+
+    return { list, state };
+  }
+
+  /**
+   * Current Email state string, taken before reading so no change made during a sync is missed
+   */
+  private async getEmailState(): Promise<string> {
+    return (await this.getEmails([])).state;
+  }
+
+  /**
+   * Ids of every email in the threads of the newest `limit` emails, using Thread/get
+   */
+  private async queryNewestThreads(limit: number): Promise<string[]> {
+    const query = await this.call('Email/query', {
+      sort: [{ property: 'receivedAt', isAscending: false }],
+      collapseThreads: true,
+      limit
+    });
+
+    const newest = await this.call('Email/get', { ids: query.ids || [], properties: ['threadId'] });
+    const threadIds = Array.from(new Set<string>((newest.list || []).map((email: any) => email.threadId)));
+    if (threadIds.length === 0) return [];
+
+    const threads = await this.call('Thread/get', { ids: threadIds });
+    return (threads.list || []).flatMap((thread: any) => thread.emailIds || []);
+  }
+
+  /**
+   * Page through Email/query for the ids of every email in the account
+   */
+  private async queryAllEmails(pageSize: number): Promise<string[]> {
+    const ids: string[] = [];
+
+    for (;;) {
+      const page = await this.call('Email/query', {
+        sort: [{ property: 'receivedAt', isAscending: false }],
+        position: ids.length,
+        limit: pageSize,
+        calculateTotal: true
+      });
+      ids.push(...(page.ids || []));
+
+      if (!page.ids?.length || (typeof page.total === 'number' && ids.length >= page.total)) {
+        return ids;
+      }
+    }
+  }
+
+  /**
+   * Convert a JMAP email into the email shape expected by saveEmails
+   */
+  private toEmail(email: any, mailboxes: JmapMailbox[]): any {
+    const inMailboxes = mailboxes.filter(mailbox => email.mailboxIds?.[mailbox.id]);
+    // An email can sit in several mailboxes; the inbox wins as its folder
+    const folderMailbox = inMailboxes.find(mailbox => mailbox.role === 'inbox') || inMailboxes[0];
+    const folder = folderMailbox ? (folderMailbox.role === 'inbox' ? 'INBOX' : folderMailbox.name) : 'INBOX';
+    const html = bodyText(email, email.htmlBody, 'text/html');
+    const messageIds: string[] = email.messageId || [];
+
+    return {
+      messageId: messageIds.length > 0 ? bracketMessageId(messageIds[0]) : email.id,
+      sender: formatAddress(email.from?.[0]),
+      recipients: (email.to || []).map(formatAddress),
+      subject: email.subject || '(No Subject)',
+      body: bodyText(email, email.textBody, 'text/plain') || email.preview || '',
+      bodyHtml: html || null,
+      threadId: email.threadId,
+      inReplyTo: email.inReplyTo?.[0] ? bracketMessageId(email.inReplyTo[0]) : null,
+      messageReferences: (email.references || []).map(bracketMessageId),
+      folder,
+      labels: inMailboxes.map(mailbox => mailbox.role === 'inbox' ? 'INBOX' : mailbox.name),
+      timestamp: email.receivedAt ? new Date(email.receivedAt) : new Date(),
+      flags: [
+        ...(email.keywords?.$seen ? ['\\Seen'] : []),
+        ...(email.keywords?.$flagged ? ['\\Flagged'] : []),
+        ...(inMailboxes.some(mailbox => mailbox.role === 'trash') ? ['\\Deleted'] : [])
+      ],
+      metadata: {
+        jmapEmailId: email.id,
+        jmapMailboxIds: Object.keys(email.mailboxIds || {}),
+        folder,
+        cc: (email.cc || []).map(formatAddress),
+        hasAttachments: !!email.hasAttachment
+      }
+    };
+  }
+
+  private toFlagChange(email: any, mailboxes: JmapMailbox[]): JmapFlagChange {
+    const roles = mailboxes.filter(mailbox => email.mailboxIds?.[mailbox.id]).map(mailbox => mailbox.role);
+
+    return {
+      id: email.id,
+      isRead: !!email.keywords?.$seen,
+      isStarred: !!email.keywords?.$flagged,
+      isArchived: roles.includes('archive') && !roles.includes('inbox'),
+      isDeleted: roles.includes('trash')
+    };
+  }
+
+  /**
+   * Sync the account's mail into saveEmails-shaped messages.
+   *
+   * - With a stored state string, Email/changes returns what was created, updated and destroyed since.
+   * - Without one (or when the server reports cannotCalculateChanges), the newest `limit` threads
+   *   are read whole through Thread/get.
+   * - Backfill mode reads every email in the account.
+   */
+  async syncMailbox(state: string | null, options: JmapSyncOptions = {}): Promise<JmapSyncResult> {
+    const { mode = 'incremental', limit = 50, pageSize = 100 } = options;
+    const mailboxes = await this.getMailboxes();
+
+    if (mode === 'incremental' && state) {
+      try {
+        const created: string[] = [];
+        const updated: string[] = [];
+        const destroyed: string[] = [];
+        let sinceState = state;
+
+        for (;;) {
+          const changes = await this.call('Email/changes', { sinceState, maxChanges: MAX_CHANGES });
+          created.push(...(changes.created || []));
+          updated.push(...(changes.updated || []));
+          destroyed.push(...(changes.destroyed || []));
+          sinceState = changes.newState;
+
+          if (!changes.hasMoreChanges) break;
+        }
+
+        const { list } = await this.getEmails(Array.from(new Set([...created, ...updated])));
+        const updatedIds = new Set(updated);
+
+        return {
+          mode: 'incremental',
+          emails: list.map(email => this.toEmail(email, mailboxes)),
+          state: sinceState,
+          destroyed: destroyed.filter(id => !created.includes(id)),
+          flagChanges: list
+            .filter(email => updatedIds.has(email.id))
+            .map(email => this.toFlagChange(email, mailboxes))
+        };
+      } catch (error) {
+        if (!(error instanceof Error) || !error.message.includes('cannotCalculateChanges')) {
+          throw error;
+        }
+        console.log('JMAP state is too old to calculate changes from, starting a fresh sync');
+      }
+    }
+
+    const freshState = await this.getEmailState();
+    const ids = mode === 'backfill' ? await this.queryAllEmails(pageSize) : await this.queryNewestThreads(limit);
+    const { list } = await this.getEmails(ids);
+
+    return {
+      mode: mode === 'backfill' ? 'backfill' : 'initial',
+      emails: list.map(email => this.toEmail(email, mailboxes)),
+      state: freshState,
+      destroyed: [],
+      flagChanges: []
+    };
+  }
+
+  /**
+   * Apply an Email/set patch to an email, e.g. { 'keywords/$seen': true } or { mailboxIds: { [id]: true } }
+   */
+  async updateEmail(emailId: string, patch: Record<string, unknown>): Promise<void> {
+    const result = await this.call('Email/set', { update: { [emailId]: patch } });
+    const notUpdated = result.notUpdated?.[emailId];
+
+    if (notUpdated) {
+      throw new Error(`JMAP could not update email ${emailId}: ${notUpdated.type || 'unknown'}${notUpdated.description ? ` - ${notUpdated.description}` : ''}`);
+    }
+  }
+
+  /**
+   * Move an email into the mailbox with the given role (inbox, archive, trash); returns that mailbox
+   */
+  async moveEmail(emailId: string, role: string): Promise<JmapMailbox> {
+    const mailbox = await this.findMailboxByRole(role);
+    if (!mailbox) {
+      throw new Error(`JMAP account has no ${role} mailbox`);
+    }
+
+    await this.updateEmail(emailId, { mailboxIds: { [mailbox.id]: true } });
+    return mailbox;
+  }
+}
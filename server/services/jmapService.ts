@@ -0,0 +1,242 @@
+import { db } from "../db";
+import { emails, emailAccounts, Email, EmailAccount } from "@shared/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { encryptData, decryptData } from "../utils/encryption";
+import { JmapClient, JmapSyncResult } from "./jmapClient";
+import { emailService } from "./emailService";
+import { syncStateService } from "./syncStateService";
+import { flagSyncService } from "./flagSyncService";
+import type { EmailFlag } from "./flagReconciler";
+
+// JMAP keeps one Email state string for the whole account, stored under this sync state key
+const SYNC_STATE_KEY = 'jmap:Email';
+
+/**
+ * Service for JMAP accounts (e.g. Fastmail, Stalwart, Cyrus)
+ */
+export class JmapService {
+  /**
+   * Create a JMAP client for an account from its session URL and credentials
+   */
+  private createClient(account: EmailAccount): JmapClient {
+    if (account.accountType !== 'jmap') {
+      throw new Error(`Account with ID ${account.id} is not a JMAP account`);
+    }
+
+    const serverSettings = (account.serverSettings || {}) as any;
+    if (!serverSettings.sessionUrl) {
+      throw new Error('Session URL is required for JMAP accounts');
+    }
+
+    const credentials = this.decryptCredentials(account.credentials);
+
+    let authHeaders: Record<string, string>;
+    switch (account.authMethod) {
+      case 'basic':
+      case 'app_password':
+        authHeaders = {
+          'Authorization': 'Basic ' + Buffer.from(`${credentials.username || account.emailAddress}:${credentials.password}`).toString('base64')
+        };
+        break;
+      case 'oauth':
+        authHeaders = {
+          'Authorization': `Bearer ${credentials.accessToken}`
+        };
+        break;
+      default:
+        throw new Error(`Unsupported authentication method: ${account.authMethod}`);
+    }
+
+    return new JmapClient({
+      sessionUrl: serverSettings.sessionUrl,
+      headers: authHeaders
+    });
+  }
+
+  /**
+   * Fetch changes since the stored state string with Email/changes, or the newest threads when there is none
+   */
+  async fetchEmails(accountId: number, limit = 50, mode: 'incremental' | 'backfill' = 'incremental'): Promise<JmapSyncResult> {
+    try {
+      const [account] = await db.select().from(emailAccounts).where(eq(emailAccounts.id, accountId));
+
+      if (!account) {
+        throw new Error(`Email account with ID ${accountId} not found`);
+      }
+
+      const client = this.createClient(account);
+      const state = await syncStateService.getSyncToken(accountId, SYNC_STATE_KEY);
+
+      const result = await client.syncMailbox(state, { mode, limit });
+      console.log(`JMAP ${result.mode} sync of ${account.emailAddress}: ${result.emails.length} messages, ${result.destroyed.length} destroyed`);
+
+      return result;
+    } catch (error) {
+      console.error('Error fetching JMAP emails:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save a JMAP account to the database
+   */
+  async saveEmailAccount(
+    userId: number,
+    emailAddress: string,
+    authMethod: 'basic' | 'app_password' | 'oauth',
+    credentials: any,
+    serverSettings: any,
+    displayName?: string
+  ): Promise<EmailAccount> {
+    try {
+      const encryptedCredentials = this.encryptCredentials(credentials);
+
+      const [existingAccount] = await db.select()
+        .from(emailAccounts)
+        .where(sql`user_id = ${userId} AND email_address = ${emailAddress} AND account_type = 'jmap'`);
+
+      if (existingAccount) {
+        const [updatedAccount] = await db.update(emailAccounts)
+          .set({
+            credentials: encryptedCredentials,
+            authMethod,
+            serverSettings,
+            updatedAt: new Date()
+          })
+          .where(eq(emailAccounts.id, existingAccount.id))
+          .returning();
+
+        return updatedAccount;
+      }
+
+      const [newAccount] = await db.insert(emailAccounts)
+        .values({
+          userId,
+          accountType: 'jmap',
+          authMethod,
+          emailAddress,
+          credentials: encryptedCredentials,
+          displayName: displayName || emailAddress,
+          serverSettings,
+          isActive: true,
+          syncEnabled: true
+        })
+        .returning();
+
+      return newAccount;
+    } catch (error) {
+      console.error('Error saving JMAP account:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Synchronize emails for a JMAP account. JMAP thread ids are stored as the emails' threadId.
+   */
+  async syncEmails(accountId: number, limit = 50, mode: 'incremental' | 'backfill' = 'incremental'): Promise<number> {
+    try {
+      const lastSyncedAt = await syncStateService.getLastSyncedAt(accountId, SYNC_STATE_KEY);
+      const result = await this.fetchEmails(accountId, limit, mode);
+
+      // Email/changes reports new and updated emails alike; saveEmails skips ones already stored
+      const storedCount = await emailService.saveEmails(accountId, result.emails);
+
+      // JMAP reports no change times, so server changes count as made right after the last sync
+      const serverChangedAt = lastSyncedAt || new Date();
+
+      for (const change of result.flagChanges) {
+        const emailId = await this.findEmailId(accountId, change.id);
+        if (emailId) {
+          await flagSyncService.applyServerFlags(emailId, {
+            read: change.isRead,
+            starred: change.isStarred,
+            archived: change.isArchived,
+            deleted: change.isDeleted
+          }, serverChangedAt);
+        }
+      }
+
+      for (const jmapEmailId of result.destroyed) {
+        const emailId = await this.findEmailId(accountId, jmapEmailId);
+        if (emailId) {
+          await flagSyncService.applyServerFlags(emailId, { deleted: true }, serverChangedAt);
+        }
+      }
+
+      // Only advance the state string once everything before it has been stored
+      await syncStateService.saveSyncToken(accountId, SYNC_STATE_KEY, result.state, mode === 'backfill');
+
+      return storedCount;
+    } catch (error) {
+      console.error(`Error syncing JMAP emails for account ${accountId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Push one flag change to the JMAP server: read and starred are the $seen and $flagged keywords;
+   * archive and delete move the email to the archive or trash mailbox, and back to the inbox when undone.
+   */
+  async pushFlagChange(account: EmailAccount, email: Email, flag: EmailFlag, value: boolean): Promise<Record<string, unknown>> {
+    const client = this.createClient(account);
+    const jmapEmailId = (email.metadata as any)?.jmapEmailId;
+
+    if (!jmapEmailId) {
+      throw new Error(`Email ${email.id} has no JMAP email id`);
+    }
+
+    switch (flag) {
+      case 'read':
+        await client.updateEmail(jmapEmailId, { 'keywords/$seen': value || null });
+        return {};
+      case 'starred':
+        await client.updateEmail(jmapEmailId, { 'keywords/$flagged': value || null });
+        return {};
+      case 'archived':
+      case 'deleted': {
+        const role = value ? (flag === 'archived' ? 'archive' : 'trash') : 'inbox';
+        const mailbox = await client.moveEmail(jmapEmailId, role);
+        return { jmapMailboxIds: [mailbox.id], folder: role === 'inbox' ? 'INBOX' : mailbox.name };
+      }
+    }
+  }
+
+  /**
+   * Decrypt a JMAP account's credentials for an SMTP login
+   */
+  getSmtpCredentials(account: EmailAccount): { user: string; password?: string; accessToken?: string } {
+    const credentials = this.decryptCredentials(account.credentials);
+
+    return {
+      user: credentials.username || account.emailAddress,
+      password: credentials.password,
+      accessToken: account.authMethod === 'oauth' ? credentials.accessToken : undefined
+    };
+  }
+
+  private async findEmailId(accountId: number, jmapEmailId: string): Promise<number | undefined> {
+    const [email] = await db.select({ id: emails.id })
+      .from(emails)
+      .where(and(eq(emails.accountId, accountId), sql`${emails.metadata}->>'jmapEmailId' = ${jmapEmailId}`));
+
+    return email?.id;
+  }
+
+  private encryptCredentials(credentials: any): any {
+    return {
+      ...credentials,
+      password: credentials.password ? encryptData(credentials.password) : undefined,
+      accessToken: credentials.accessToken ? encryptData(credentials.accessToken) : undefined
+    };
+  }
+
+  private decryptCredentials(encryptedCredentials: any): any {
+    return {
+      ...encryptedCredentials,
+      password: encryptedCredentials.password ? decryptData(encryptedCredentials.password) : undefined,
+      accessToken: encryptedCredentials.accessToken ? decryptData(encryptedCredentials.accessToken) : undefined
+    };
+  }
+}
+
+export const jmapService = new JmapService();
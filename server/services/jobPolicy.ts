@@ -0,0 +1,82 @@
+/**
+ * Job Policy
+ * Job kinds with their payloads and limits, and the retry schedule of the job queue.
+ * Works on plain values and has no database access.
+ */
+
+// Payload stored with each kind of job
+export interface JobPayloads {
+  'sync-account': { accountId: number; limit?: number };
+  // extractTasks is passed along the clean -> embed chain; imports can turn task extraction off
+  'clean-email': { emailId: number; extractTasks?: boolean };
+  'embed-email': { emailId: number; extractTasks?: boolean };
+  'extract-tasks': { emailId: number };
+  'update-relationships': { emailId: number };
+}
+
+export type JobKind = keyof JobPayloads;
+
+export interface JobKindConfig {
+  // Jobs of this kind running at once, across all workers
+  concurrency: number;
+  // Attempts before the job is dead-lettered
+  maxAttempts: number;
+}
+
+// Model calls are the bottleneck for embeddings and task extraction, so those run a few at a time
+export const JOB_KIND_CONFIG: Record<JobKind, JobKindConfig> = {
+  'sync-account': { concurrency: 3, maxAttempts: 5 },
+  'clean-email': { concurrency: 4, maxAttempts: 3 },
+  'embed-email': { concurrency: 2, maxAttempts: 5 },
+  'extract-tasks': { concurrency: 1, maxAttempts: 3 },
+  'update-relationships': { concurrency: 2, maxAttempts: 3 }
+};
+
+export const JOB_KINDS = Object.keys(JOB_KIND_CONFIG) as JobKind[];
+
+// Retry backoff: 30s doubling up to 1 hour
+const RETRY_BASE_DELAY = 30 * 1000;
+const RETRY_MAX_DELAY = 60 * 60 * 1000;
+
+/**
+ * Delay before retrying a job that has failed `attempts` times (1-based), with jitter
+ * so jobs that failed together (e.g. during a provider outage) do not retry in lockstep
+ */
+export function retryDelay(attempts: number, random: () => number = Math.random): number {
+  const delay = Math.min(RETRY_BASE_DELAY * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY);
+  return Math.round(delay * (0.8 + random() * 0.4));
+}
+
+// A handler's way of putting its job off without using up an attempt
+export interface JobDeferral {
+  runAt: Date;
+  reason: string;
+}
+
+export type FailureOutcome =
+  | { status: 'pending'; runAt: Date }
+  | { status: 'dead' };
+
+/**
+ * What happens to a job whose latest attempt failed: it is scheduled again after the
+ * backoff delay, or dead-lettered once it has used up its attempts
+ */
+export function failureOutcome(
+  attempts: number,
+  maxAttempts: number,
+  now: Date = new Date(),
+  random: () => number = Math.random
+): FailureOutcome {
+  if (attempts >= maxAttempts) {
+    return { status: 'dead' };
+  }
+
+  return { status: 'pending', runAt: new Date(now.getTime() + retryDelay(attempts, random)) };
+}
+
+/**
+ * How many more jobs of a kind may be claimed while `running` of them are running
+ */
+export function freeSlots(concurrency: number, running: number): number {
+  return Math.max(concurrency - running, 0);
+}
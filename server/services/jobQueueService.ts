@@ -0,0 +1,483 @@
+import { db } from "../db";
+import { jobs, Job } from "@shared/schema";
+import { and, asc, count, desc, eq, getTableColumns, inArray, lt, lte, sql } from "drizzle-orm";
+import { JOB_KINDS, JOB_KIND_CONFIG, JobKind, JobPayloads, failureOutcome, freeSlots } from "./jobPolicy";
+
+// What is kept of a job's latest failure
+interface JobFailure {
+  lastError: string;
+  errorTrace: string | null;
+}
+
+export interface JobFilter {
+  kind?: JobKind;
+  status?: JobStatus;
+  accountId?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export type JobStatus = Job['status'];
+
+export type JobSummary = Omit<Job, 'errorTrace'>;
+
+export interface JobKindStats {
+  kind: JobKind;
+  // Current queue depth
+  due: number;
+  scheduled: number;
+  running: number;
+  dead: number;
+  // Over the stats window
+  completed: number;
+  deadLettered: number;
+  throughputPerHour: number;
+  failureRate: number;
+  attemptFailureRate: number;
+  // The longest-waiting due job, showing how far behind the workers are
+  oldestDueAt: string | null;
+}
+
+export interface JobQueueStats {
+  hours: number;
+  kinds: JobKindStats[];
+  // Jobs finished in each hour of the window
+  hourly: { hour: string; completed: number; dead: number }[];
+}
+
+export interface AccountSyncStats {
+  accountId: number;
+  lastSuccessAt: string | null;
+  queued: number;
+  completed: number;
+  dead: number;
+  lastError: string | null;
+}
+
+export interface EnqueueOptions {
+  // Skip the job when one with the same key is already pending
+  dedupeKey?: string;
+  runAt?: Date;
+}
+
+/**
+ * Jobs on the user's behalf: syncs of their accounts and the processing of emails in them
+ */
+function ownedByUser(userId: number) {
+  return sql`(
+    EXISTS (
+      SELECT 1 FROM email_accounts
+      WHERE email_accounts.id = (${jobs.payload}->>'accountId')::int AND email_accounts.user_id = ${userId}
+    )
+    OR EXISTS (
+      SELECT 1 FROM emails JOIN email_accounts ON email_accounts.id = emails.account_id
+      WHERE emails.id = (${jobs.payload}->>'emailId')::int AND email_accounts.user_id = ${userId}
+    )
+  )`;
+}
+
+/**
+ * Raw query results return timestamp columns as strings in UTC without a zone
+ */
+function toIsoTimestamp(value: string | null): string | null {
+  return value ? new Date(`${value}+0000`).toISOString() : null;
+}
+
+/**
+ * Durable job queue on the jobs table. Workers claim due jobs with FOR UPDATE SKIP LOCKED,
+ * so any number of them can share the table without taking the same job twice.
+ */
+export class JobQueueService {
+  /**
+   * Add a job; returns null when a pending job with the same dedupe key already exists
+   */
+  async enqueue<K extends JobKind>(kind: K, payload: JobPayloads[K], options: EnqueueOptions = {}): Promise<Job | null> {
+    const [job] = await db.insert(jobs)
+      .values({
+        kind,
+        payload,
+        maxAttempts: JOB_KIND_CONFIG[kind].maxAttempts,
+        dedupeKey: options.dedupeKey,
+        runAt: options.runAt || new Date()
+      })
+      .onConflictDoNothing({ target: jobs.dedupeKey, where: sql`status = 'pending'` })
+      .returning();
+
+    return job || null;
+  }
+
+  /**
+   * Queue the processing of newly stored emails. Cleaning runs first; each step queues the next.
+   */
+  async enqueueEmailProcessing(emailIds: number[], extractTasks = true): Promise<void> {
+    for (const emailId of emailIds) {
+      await this.enqueue('clean-email', { emailId, extractTasks }, { dedupeKey: `clean-email:${emailId}` });
+    }
+  }
+
+  /**
+   * Queue embeddings for stored emails that have none and were never queued, e.g. mail stored
+   * before the job queue existed. Tasks are not extracted from this older mail.
+   */
+  async enqueueMissingEmbeddings(): Promise<number> {
+    const result = await db.execute(sql`
+      INSERT INTO jobs (kind, payload, max_attempts, dedupe_key)
+      SELECT 'embed-email', jsonb_build_object('emailId', emails.id, 'extractTasks', false),
+             ${JOB_KIND_CONFIG['embed-email'].maxAttempts}, 'embed-email:' || emails.id
+      FROM emails
+      WHERE emails.embedding_vector IS NULL
+        AND NOT EXISTS (SELECT 1 FROM jobs WHERE jobs.dedupe_key = 'embed-email:' || emails.id)
+      ON CONFLICT (dedupe_key) WHERE status = 'pending' DO NOTHING
+    `);
+
+    return result.rowCount || 0;
+  }
+
+  /**
+   * Claim up to `limit` due jobs of one kind for a worker, without going over the kind's
+   * concurrency limit or running two jobs with the same dedupe key. The advisory lock serializes claims of the same kind so two workers
+   * cannot both see a free slot and take it.
+   */
+  async claim(kind: JobKind, limit: number, workerId: string): Promise<Job[]> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${'jobs:' + kind}))`);
+
+      const [{ running }] = await tx.select({ running: count() })
+        .from(jobs)
+        .where(and(eq(jobs.kind, kind), eq(jobs.status, 'running')));
+
+      const slots = Math.min(limit, freeSlots(JOB_KIND_CONFIG[kind].concurrency, running));
+      if (slots === 0) return [];
+
+      const due = await tx.select({ id: jobs.id })
+        .from(jobs)
+        .where(and(
+          eq(jobs.kind, kind),
+          eq(jobs.status, 'pending'),
+          lte(jobs.runAt, new Date()),
+          // Jobs sharing a dedupe key run one at a time, e.g. never two syncs of the same account
+          sql`NOT EXISTS (SELECT 1 FROM jobs AS running_jobs WHERE running_jobs.status = 'running' AND running_jobs.dedupe_key = ${jobs.dedupeKey})`
+        ))
+        .orderBy(asc(jobs.runAt), asc(jobs.id))
+        .limit(slots)
+        .for('update', { skipLocked: true });
+
+      if (due.length === 0) return [];
+
+      return tx.update(jobs)
+        .set({
+          status: 'running',
+          attempts: sql`${jobs.attempts} + 1`,
+          lockedAt: new Date(),
+          lockedBy: workerId,
+          updatedAt: new Date()
+        })
+        .where(inArray(jobs.id, due.map(job => job.id)))
+        .returning();
+    });
+  }
+
+  async complete(jobId: number): Promise<void> {
+    await db.update(jobs)
+      .set({
+        status: 'completed',
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+        errorTrace: null,
+        finishedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(jobs.id, jobId));
+  }
+
+  /**
+   * Record a failed attempt: the job is retried after an exponential backoff, or
+   * dead-lettered once it has used up its attempts
+   */
+  async fail(job: Job, error: unknown): Promise<'pending' | 'dead'> {
+    const outcome = failureOutcome(job.attempts, job.maxAttempts);
+    const failure: JobFailure = {
+      lastError: (error as Error)?.message || String(error),
+      errorTrace: (error as Error)?.stack || null
+    };
+
+    if (outcome.status === 'dead') {
+      await this.deadLetter(job.id, failure);
+    } else {
+      await this.reschedule(job, outcome.runAt, failure);
+    }
+
+    return outcome.status;
+  }
+
+  /**
+   * Put a job off until later without counting the run as an attempt, e.g. while its
+   * user is over their AI budget. The reason is kept as the job's last error.
+   */
+  async defer(job: Job, runAt: Date, reason: string): Promise<void> {
+    await this.reschedule({ ...job, attempts: job.attempts - 1 }, runAt, { lastError: reason, errorTrace: null });
+  }
+
+  /**
+   * Hand back jobs whose worker stopped without finishing them (e.g. the process was restarted).
+   * The interrupted run counts as an attempt, so a job that keeps crashing its worker is dead-lettered.
+   */
+  async recoverStaleJobs(lockTimeoutMs: number): Promise<number> {
+    const staleJobs = await db.select()
+      .from(jobs)
+      .where(and(eq(jobs.status, 'running'), lt(jobs.lockedAt, new Date(Date.now() - lockTimeoutMs))));
+
+    const failure: JobFailure = { lastError: 'Worker stopped before the job finished', errorTrace: null };
+
+    for (const job of staleJobs) {
+      if (job.attempts >= job.maxAttempts) {
+        await this.deadLetter(job.id, failure);
+      } else {
+        await this.reschedule(job, new Date(), failure);
+      }
+    }
+
+    return staleJobs.length;
+  }
+
+  /**
+   * One of the user's jobs; undefined when it doesn't exist or is another user's
+   */
+  async getJob(userId: number, jobId: number): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(and(eq(jobs.id, jobId), ownedByUser(userId)));
+    return job;
+  }
+
+  /**
+   * The user's jobs newest first, optionally of one kind or status, or for one account: its
+   * syncs and the processing of its emails. Error traces are left out; getJob has them.
+   */
+  async listJobs(userId: number, filter: JobFilter = {}): Promise<{ jobs: JobSummary[]; total: number }> {
+    const conditions = [
+      ownedByUser(userId),
+      filter.kind ? eq(jobs.kind, filter.kind) : undefined,
+      filter.status ? eq(jobs.status, filter.status) : undefined,
+      filter.accountId ? sql`(
+        (${jobs.payload}->>'accountId')::int = ${filter.accountId}
+        OR EXISTS (
+          SELECT 1 FROM emails
+          WHERE emails.id = (${jobs.payload}->>'emailId')::int AND emails.account_id = ${filter.accountId}
+        )
+      )` : undefined
+    ];
+
+    const { errorTrace, ...summaryColumns } = getTableColumns(jobs);
+
+    const [rows, [{ total }]] = await Promise.all([
+      db.select(summaryColumns)
+        .from(jobs)
+        .where(and(...conditions))
+        .orderBy(desc(jobs.createdAt), desc(jobs.id))
+        .limit(filter.limit || 50)
+        .offset(filter.offset || 0),
+      db.select({ total: count() }).from(jobs).where(and(...conditions))
+    ]);
+
+    return { jobs: rows, total };
+  }
+
+  /**
+   * Queue one of the user's dead or cancelled jobs again with a fresh set of attempts. Returns
+   * undefined when the job is not theirs, not dead or cancelled, or the same work is already queued.
+   */
+  async retry(userId: number, jobId: number): Promise<Job | undefined> {
+    const [job] = await db.update(jobs)
+      .set({
+        status: 'pending',
+        attempts: 0,
+        runAt: new Date(),
+        finishedAt: null,
+        updatedAt: new Date()
+      })
+      .where(and(
+        eq(jobs.id, jobId),
+        ownedByUser(userId),
+        inArray(jobs.status, ['dead', 'cancelled']),
+        sql`NOT EXISTS (SELECT 1 FROM jobs AS queued_jobs WHERE queued_jobs.status = 'pending' AND queued_jobs.dedupe_key = ${jobs.dedupeKey})`
+      ))
+      .returning();
+
+    return job;
+  }
+
+  /**
+   * Cancel one of the user's jobs that has not started. Returns undefined when it is not
+   * theirs or no longer pending.
+   */
+  async cancel(userId: number, jobId: number): Promise<Job | undefined> {
+    const [job] = await db.update(jobs)
+      .set({
+        status: 'cancelled',
+        finishedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(and(eq(jobs.id, jobId), ownedByUser(userId), eq(jobs.status, 'pending')))
+      .returning();
+
+    return job;
+  }
+
+  /**
+   * Queue depth, throughput and failure rates per kind of the user's jobs, over the last `hours` hours
+   */
+  async getStats(userId: number, hours = 24): Promise<JobQueueStats> {
+    // Timestamps are encoded the way the columns store them
+    const now = sql.param(new Date(), jobs.runAt);
+    const since = sql.param(new Date(Date.now() - hours * 60 * 60 * 1000), jobs.finishedAt);
+
+    const kindResult = await db.execute(sql`
+      SELECT kind,
+        COUNT(*) FILTER (WHERE status = 'pending' AND run_at <= ${now}) AS due,
+        COUNT(*) FILTER (WHERE status = 'pending' AND run_at > ${now}) AS scheduled,
+        COUNT(*) FILTER (WHERE status = 'running') AS running,
+        COUNT(*) FILTER (WHERE status = 'dead') AS dead,
+        COUNT(*) FILTER (WHERE status = 'completed' AND finished_at > ${since}) AS completed_recently,
+        COUNT(*) FILTER (WHERE status = 'dead' AND finished_at > ${since}) AS dead_recently,
+        COALESCE(SUM(attempts) FILTER (WHERE status IN ('completed', 'dead') AND finished_at > ${since}), 0) AS attempts_recently,
+        COALESCE(SUM(attempts - 1) FILTER (WHERE status = 'completed' AND finished_at > ${since}), 0)
+          + COALESCE(SUM(attempts) FILTER (WHERE status = 'dead' AND finished_at > ${since}), 0) AS failed_attempts_recently,
+        MIN(run_at) FILTER (WHERE status = 'pending' AND run_at <= ${now}) AS oldest_due_at
+      FROM jobs
+      WHERE ${ownedByUser(userId)}
+      GROUP BY kind
+    `);
+
+    const byKind = new Map<string, any>(kindResult.rows.map((row: any) => [row.kind, row]));
+
+    const kinds = JOB_KINDS.map((kind): JobKindStats => {
+      const row = byKind.get(kind) || {};
+      const completed = Number(row.completed_recently || 0);
+      const dead = Number(row.dead_recently || 0);
+      const attempts = Number(row.attempts_recently || 0);
+
+      return {
+        kind,
+        due: Number(row.due || 0),
+        scheduled: Number(row.scheduled || 0),
+        running: Number(row.running || 0),
+        dead: Number(row.dead || 0),
+        completed,
+        deadLettered: dead,
+        throughputPerHour: Math.round((completed / hours) * 10) / 10,
+        // Share of finished jobs that were dead-lettered, and of all attempts that failed
+        failureRate: completed + dead > 0 ? dead / (completed + dead) : 0,
+        attemptFailureRate: attempts > 0 ? Number(row.failed_attempts_recently || 0) / attempts : 0,
+        oldestDueAt: toIsoTimestamp(row.oldest_due_at)
+      };
+    });
+
+    const hourlyResult = await db.execute(sql`
+      SELECT date_trunc('hour', finished_at) AS hour,
+        COUNT(*) FILTER (WHERE status = 'completed') AS completed,
+        COUNT(*) FILTER (WHERE status = 'dead') AS dead
+      FROM jobs
+      WHERE status IN ('completed', 'dead') AND finished_at > ${since} AND ${ownedByUser(userId)}
+      GROUP BY 1
+      ORDER BY 1
+    `);
+
+    return {
+      hours,
+      kinds,
+      hourly: hourlyResult.rows.map((row: any) => ({
+        hour: toIsoTimestamp(row.hour)!,
+        completed: Number(row.completed),
+        dead: Number(row.dead)
+      }))
+    };
+  }
+
+  /**
+   * Sync job history for each of the user's accounts over the last `hours` hours
+   */
+  async getAccountSyncStats(userId: number, hours = 24): Promise<AccountSyncStats[]> {
+    const since = sql.param(new Date(Date.now() - hours * 60 * 60 * 1000), jobs.finishedAt);
+
+    const result = await db.execute(sql`
+      WITH sync_jobs AS (
+        SELECT (payload->>'accountId')::int AS account_id, status, finished_at, updated_at, last_error
+        FROM jobs
+        WHERE kind = 'sync-account'
+      )
+      SELECT email_accounts.id AS account_id,
+        MAX(sync_jobs.finished_at) FILTER (WHERE sync_jobs.status = 'completed') AS last_success_at,
+        COUNT(sync_jobs.status) FILTER (WHERE sync_jobs.status IN ('pending', 'running')) AS queued,
+        COUNT(sync_jobs.status) FILTER (WHERE sync_jobs.status = 'completed' AND sync_jobs.finished_at > ${since}) AS completed,
+        COUNT(sync_jobs.status) FILTER (WHERE sync_jobs.status = 'dead' AND sync_jobs.finished_at > ${since}) AS dead,
+        (ARRAY_AGG(sync_jobs.last_error ORDER BY sync_jobs.updated_at DESC)
+          FILTER (WHERE sync_jobs.last_error IS NOT NULL AND sync_jobs.updated_at > ${since}))[1] AS last_error
+      FROM email_accounts
+      LEFT JOIN sync_jobs ON sync_jobs.account_id = email_accounts.id
+      WHERE email_accounts.user_id = ${userId}
+      GROUP BY email_accounts.id
+      ORDER BY email_accounts.id
+    `);
+
+    return result.rows.map((row: any) => ({
+      accountId: row.account_id,
+      lastSuccessAt: toIsoTimestamp(row.last_success_at),
+      queued: Number(row.queued),
+      completed: Number(row.completed),
+      dead: Number(row.dead),
+      lastError: row.last_error || null
+    }));
+  }
+
+  private async deadLetter(jobId: number, failure: JobFailure): Promise<void> {
+    await db.update(jobs)
+      .set({
+        status: 'dead',
+        lockedAt: null,
+        lockedBy: null,
+        ...failure,
+        finishedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(eq(jobs.id, jobId));
+  }
+
+  /**
+   * Put a job back in the queue. When the same work was queued again while it ran, the two are
+   * merged: the queued job keeps the attempt count and backoff, and this one is removed.
+   */
+  private async reschedule(job: Job, runAt: Date, failure: JobFailure): Promise<void> {
+    await db.transaction(async (tx) => {
+      if (job.dedupeKey) {
+        const [queued] = await tx.update(jobs)
+          .set({
+            attempts: sql`GREATEST(${jobs.attempts}, ${job.attempts})`,
+            runAt: sql`GREATEST(${jobs.runAt}, ${sql.param(runAt, jobs.runAt)})`,
+            ...failure,
+            updatedAt: new Date()
+          })
+          .where(and(eq(jobs.dedupeKey, job.dedupeKey), eq(jobs.status, 'pending')))
+          .returning({ id: jobs.id });
+
+        if (queued) {
+          await tx.delete(jobs).where(eq(jobs.id, job.id));
+          return;
+        }
+      }
+
+      await tx.update(jobs)
+        .set({
+          status: 'pending',
+          attempts: job.attempts,
+          runAt,
+          lockedAt: null,
+          lockedBy: null,
+          ...failure,
+          updatedAt: new Date()
+        })
+        .where(eq(jobs.id, job.id));
+    });
+  }
+}
+
+export const jobQueueService = new JobQueueService();
@@ -0,0 +1,356 @@
+/**
+ * LLM provider adapters
+ *
+ * One interface for chat, JSON output, streaming and embeddings, with adapters
+ * for OpenAI, Perplexity (OpenAI-compatible), Anthropic and Ollama, plus an
+ * offline mock (see mockLlmProvider). Which provider and model a user gets is
+ * decided by llmService from AI Settings.
+ */
+import { OpenAI } from 'openai';
+import { Anthropic } from '@anthropic-ai/sdk';
+import axios from 'axios';
+import type { AiModel, AiSettings } from '@shared/schema';
+import { llmProviderEnum } from '@shared/schema';
+import { MockProvider } from './mockLlmProvider';
+
+export type LlmProviderName = typeof llmProviderEnum.enumValues[number];
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmChatRequest {
+  model: string;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a single JSON object back
+  json?: boolean;
+}
+
+export interface LlmUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LlmChatResult {
+  content: string;
+  provider: LlmProviderName;
+  model: string;
+  usage?: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly name: LlmProviderName;
+  chat(request: LlmChatRequest): Promise<LlmChatResult>;
+  // Yields the completion text as it arrives
+  stream(request: LlmChatRequest): AsyncIterable<string>;
+  embed(model: string, input: string): Promise<number[]>;
+}
+
+/**
+ * Everything needed to build a provider and call one of its models
+ */
+export interface LlmConfig {
+  provider: LlmProviderName;
+  model: string;
+  apiKey?: string;
+  // Base URL for Ollama
+  endpoint?: string;
+  // Vector size of the mock's embeddings
+  dimensions?: number;
+}
+
+export const DEFAULT_CHAT_MODELS: Record<LlmProviderName, string> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-3-7-sonnet-20250219',
+  perplexity: 'llama-3.1-sonar-small-128k-online',
+  ollama: 'llama3',
+  mock: 'mock-chat'
+};
+
+export const DEFAULT_EMBEDDING_MODELS: Partial<Record<LlmProviderName, string>> = {
+  openai: 'text-embedding-3-small',
+  ollama: 'nomic-embed-text',
+  mock: 'mock-embedding'
+};
+
+const DEFAULT_OLLAMA_ENDPOINT = 'http://localhost:11434';
+const PERPLEXITY_BASE_URL = 'https://api.perplexity.ai';
+
+// Added to the system prompt for providers without a native JSON mode
+const JSON_INSTRUCTION = 'Respond with a single JSON object and nothing else.';
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+/**
+ * Work out the provider, model and credentials for a user's chat calls. The
+ * selected model is used when it belongs to the selected provider; otherwise
+ * that provider's default model is. OpenAI falls back to OPENAI_API_KEY.
+ */
+export function resolveChatConfig(
+  settings: Partial<Pick<AiSettings, 'selectedProvider' | 'openaiApiKey' | 'anthropicApiKey' | 'perplexityApiKey' | 'ollamaEndpoint'>> | undefined,
+  selectedModel: Pick<AiModel, 'provider' | 'modelId' | 'isEmbeddingModel'> | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): LlmConfig {
+  const provider = settings?.selectedProvider ?? 'openai';
+  const model = selectedModel && selectedModel.provider === provider && !selectedModel.isEmbeddingModel
+    ? selectedModel.modelId
+    : DEFAULT_CHAT_MODELS[provider];
+
+  switch (provider) {
+    case 'openai':
+      return { provider, model, apiKey: settings?.openaiApiKey || env.OPENAI_API_KEY };
+    case 'anthropic':
+      return { provider, model, apiKey: settings?.anthropicApiKey || undefined };
+    case 'perplexity':
+      return { provider, model, apiKey: settings?.perplexityApiKey || undefined };
+    case 'ollama':
+      return { provider, model, endpoint: settings?.ollamaEndpoint || env.OLLAMA_ENDPOINT || DEFAULT_OLLAMA_ENDPOINT };
+    case 'mock':
+      return { provider, model };
+  }
+}
+
+/**
+ * The embedding model is shared by all users, since every stored vector has to
+ * live in the same space. EMBEDDING_PROVIDER picks openai (default), ollama or
+ * mock, EMBEDDING_MODEL overrides that provider's default model and
+ * EMBEDDING_DIMENSIONS sets the size of the mock's vectors.
+ */
+export function resolveEmbeddingConfig(env: NodeJS.ProcessEnv = process.env): LlmConfig {
+  const provider = env.EMBEDDING_PROVIDER === 'ollama' || env.EMBEDDING_PROVIDER === 'mock' ? env.EMBEDDING_PROVIDER : 'openai';
+  const model = env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODELS[provider]!;
+
+  switch (provider) {
+    case 'ollama':
+      return { provider, model, endpoint: env.OLLAMA_ENDPOINT || DEFAULT_OLLAMA_ENDPOINT };
+    case 'mock':
+      return { provider, model, dimensions: Number(env.EMBEDDING_DIMENSIONS) || undefined };
+    case 'openai':
+      return { provider, model, apiKey: env.OPENAI_API_KEY };
+  }
+}
+
+/**
+ * Parse a model's JSON answer, tolerating a ```json fence or text around the object
+ */
+export function parseJsonContent<T = any>(content: string): T {
+  const trimmed = content.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  const text = fenced ? fenced[1] : trimmed;
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      return JSON.parse(text.slice(start, end + 1));
+    }
+    throw new Error(`Model did not return valid JSON: ${(error as Error).message}`);
+  }
+}
+
+// Fold the JSON instruction into the first system message, or add one
+function withJsonInstruction(messages: LlmMessage[]): LlmMessage[] {
+  const systemIndex = messages.findIndex(m => m.role === 'system');
+  if (systemIndex === -1) {
+    return [{ role: 'system', content: JSON_INSTRUCTION }, ...messages];
+  }
+  return messages.map((m, i) => i === systemIndex ? { ...m, content: `${m.content}\n\n${JSON_INSTRUCTION}` } : m);
+}
+
+/**
+ * OpenAI and providers that speak its chat completions API (Perplexity)
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  private client: OpenAI;
+
+  constructor(
+    readonly name: 'openai' | 'perplexity',
+    apiKey: string,
+    baseURL?: string
+  ) {
+    this.client = new OpenAI({ apiKey, baseURL });
+  }
+
+  // Perplexity has no json_object response format
+  private get supportsJsonMode(): boolean {
+    return this.name === 'openai';
+  }
+
+  private params(request: LlmChatRequest) {
+    const useJsonMode = request.json && this.supportsJsonMode;
+    return {
+      model: request.model,
+      messages: request.json && !useJsonMode ? withJsonInstruction(request.messages) : request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(useJsonMode ? { response_format: { type: 'json_object' as const } } : {})
+    };
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResult> {
+    const response = await this.client.chat.completions.create(this.params(request));
+
+    return {
+      content: response.choices[0]?.message.content || '',
+      provider: this.name,
+      model: request.model,
+      usage: response.usage && {
+        promptTokens: response.usage.prompt_tokens,
+        completionTokens: response.usage.completion_tokens
+      }
+    };
+  }
+
+  async *stream(request: LlmChatRequest): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create({ ...this.params(request), stream: true });
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+
+  async embed(model: string, input: string): Promise<number[]> {
+    if (this.name !== 'openai') {
+      throw new Error(`${this.name} does not provide embeddings`);
+    }
+    const response = await this.client.embeddings.create({ model, input, encoding_format: 'float' });
+    return response.data[0].embedding;
+  }
+}
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic' as const;
+  private client: Anthropic;
+
+  constructor(apiKey: string) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  // Anthropic takes the system prompt separately from the conversation
+  private params(request: LlmChatRequest) {
+    const messages = request.json ? withJsonInstruction(request.messages) : request.messages;
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      temperature: request.temperature,
+      ...(system ? { system } : {}),
+      messages: messages
+        .filter(m => m.role !== 'system')
+        .map(m => ({ role: m.role as 'user' | 'assistant', content: m.content }))
+    };
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResult> {
+    const response = await this.client.messages.create(this.params(request));
+
+    return {
+      content: response.content.map(block => block.type === 'text' ? block.text : '').join(''),
+      provider: this.name,
+      model: request.model,
+      usage: {
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens
+      }
+    };
+  }
+
+  async *stream(request: LlmChatRequest): AsyncIterable<string> {
+    const stream = await this.client.messages.create({ ...this.params(request), stream: true });
+    for await (const event of stream) {
+      if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+        yield event.delta.text;
+      }
+    }
+  }
+
+  async embed(): Promise<number[]> {
+    throw new Error('anthropic does not provide embeddings');
+  }
+}
+
+/**
+ * Ollama's native API; format "json" constrains the output to JSON
+ */
+export class OllamaProvider implements LlmProvider {
+  readonly name = 'ollama' as const;
+
+  constructor(private endpoint: string = DEFAULT_OLLAMA_ENDPOINT) {}
+
+  private body(request: LlmChatRequest, stream: boolean) {
+    return {
+      model: request.model,
+      messages: request.messages,
+      stream,
+      ...(request.json ? { format: 'json' } : {}),
+      options: {
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        ...(request.maxTokens ? { num_predict: request.maxTokens } : {})
+      }
+    };
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResult> {
+    const response = await axios.post(`${this.endpoint}/api/chat`, this.body(request, false));
+
+    return {
+      content: response.data.message?.content || '',
+      provider: this.name,
+      model: request.model,
+      usage: {
+        promptTokens: response.data.prompt_eval_count || 0,
+        completionTokens: response.data.eval_count || 0
+      }
+    };
+  }
+
+  async *stream(request: LlmChatRequest): AsyncIterable<string> {
+    const response = await axios.post(`${this.endpoint}/api/chat`, this.body(request, true), { responseType: 'stream' });
+
+    // Newline-delimited JSON, one message fragment per line
+    let buffered = '';
+    for await (const chunk of response.data) {
+      buffered += chunk.toString();
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+      for (const line of lines.filter(l => l.trim())) {
+        const text = JSON.parse(line).message?.content;
+        if (text) yield text;
+      }
+    }
+  }
+
+  async embed(model: string, input: string): Promise<number[]> {
+    const response = await axios.post(`${this.endpoint}/api/embeddings`, { model, prompt: input });
+    return response.data.embedding || [];
+  }
+}
+
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  if (config.provider === 'ollama') {
+    return new OllamaProvider(config.endpoint);
+  }
+
+  if (config.provider === 'mock') {
+    return new MockProvider(config.dimensions);
+  }
+
+  if (!config.apiKey) {
+    throw new Error(`No API key configured for ${config.provider}`);
+  }
+
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAiCompatibleProvider('openai', config.apiKey);
+    case 'perplexity':
+      return new OpenAiCompatibleProvider('perplexity', config.apiKey, PERPLEXITY_BASE_URL);
+    case 'anthropic':
+      return new AnthropicProvider(config.apiKey);
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Schemas for structured LLM output
+ *
+ * Every JSON answer a feature asks a model for is checked against one of these
+ * before it's used. Failures are reported per field so that the model can be
+ * asked to repair its answer (see llmService.chatStructured) and so that
+ * rejected outputs can be inspected later.
+ */
+import { z } from 'zod';
+import { priorityEnum, taskCategoryEnum } from '@shared/schema';
+
+export type TaskPriority = typeof priorityEnum.enumValues[number];
+export type TaskCategory = typeof taskCategoryEnum.enumValues[number];
+
+// Priority levels the enhanced extraction prompt asks for, and the task priority each maps to
+export const PRIORITY_LEVELS = {
+  P1_Critical: 'high',
+  P2_High: 'high',
+  P3_Medium: 'medium',
+  P4_Low: 'low'
+} as const satisfies Record<string, TaskPriority>;
+
+export type PriorityLevel = keyof typeof PRIORITY_LEVELS;
+
+export function toTaskPriority(level: PriorityLevel): TaskPriority {
+  return PRIORITY_LEVELS[level];
+}
+
+const priorityLevels = Object.keys(PRIORITY_LEVELS) as [PriorityLevel, ...PriorityLevel[]];
+
+/**
+ * One task suggestion from the enhanced extraction prompt
+ */
+export const enhancedTaskSuggestionSchema = z.object({
+  suggested_title: z.string().trim().min(1).max(100),
+  detailed_description: z.string(),
+  source_snippet: z.string().default(''),
+  actors_involved: z.array(z.string()).default([]),
+  suggested_priority_level: z.enum(priorityLevels),
+  extracted_deadline_text: z.string().nullish(),
+  suggested_category: z.enum(taskCategoryEnum.enumValues),
+  estimated_effort_minutes: z.number().int().positive().nullish(),
+  is_recurring_hint: z.boolean().default(false),
+  reminder_suggestion_text: z.string().nullish(),
+  confidence_in_task_extraction: z.number().min(0).max(1)
+});
+
+export type EnhancedTaskSuggestion = z.infer<typeof enhancedTaskSuggestionSchema>;
+
+/**
+ * The enhanced extraction's answer: either task suggestions or a classification
+ * saying why there are none
+ */
+export const enhancedExtractionSchema = z.object({
+  tasks: z.array(enhancedTaskSuggestionSchema).optional(),
+  email_classification: z.enum(['marketing_promotional', 'non_actionable']).optional(),
+  explanation: z.string().optional()
+}).refine(result => result.tasks !== undefined || result.email_classification !== undefined, {
+  message: 'Expected either a "tasks" array or an "email_classification"'
+});
+
+export type EnhancedExtraction = z.infer<typeof enhancedExtractionSchema>;
+
+/**
+ * aiService's task extraction answer
+ */
+export const taskExtractionSchema = z.object({
+  tasks: z.array(z.object({
+    title: z.string().trim().min(1),
+    description: z.string().optional(),
+    priority: z.enum(priorityEnum.enumValues).optional(),
+    dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}/, 'Expected a YYYY-MM-DD date').nullish(),
+    confidence: z.number().min(0).max(1).optional(),
+    category: z.string().optional()
+  }))
+});
+
+export type TaskExtraction = z.infer<typeof taskExtractionSchema>;
+
+const namedValue = z.object({ name: z.string(), value: z.number() });
+const level = z.enum(['High', 'Medium', 'Low']);
+const trend = z.enum(['Improving', 'Stable', 'Worsening']);
+
+/**
+ * Email analytics: topics, phrases, request types and sentiment
+ */
+export const emailAnalyticsSchema = z.object({
+  topicDistribution: z.array(namedValue),
+  trendingPhrases: z.array(namedValue),
+  requestTypes: z.array(z.object({ name: z.string(), count: z.number() })),
+  sentimentAnalysis: z.array(z.object({
+    name: z.string(),
+    positive: z.number(),
+    neutral: z.number(),
+    negative: z.number()
+  }))
+});
+
+// Only the parts that change quickly, used when topics and sentiment are cached
+export const emailTrendsSchema = emailAnalyticsSchema.pick({ trendingPhrases: true, requestTypes: true });
+
+export const topicAnalysisSchema = z.object({
+  mainTopics: z.array(namedValue),
+  subtopics: z.array(namedValue.extend({ parent: z.string() })),
+  emergingTopics: z.array(z.object({ name: z.string(), growth: level })),
+  topicRelationships: z.array(z.object({
+    source: z.string(),
+    target: z.string(),
+    strength: z.number().min(0).max(1)
+  }))
+});
+
+export const businessInsightsSchema = z.object({
+  clientSatisfaction: z.object({
+    score: z.number().min(0).max(100),
+    indicators: z.array(z.object({ type: z.enum(['positive', 'negative']), description: z.string() }))
+  }),
+  businessOpportunities: z.array(z.object({ name: z.string(), description: z.string(), priority: level })),
+  operationalMetrics: z.object({
+    responseTime: z.object({ value: z.number(), unit: z.string(), trend }),
+    issueResolution: z.object({ value: z.number(), unit: z.string(), trend }),
+    bottlenecks: z.array(z.object({ area: z.string(), impact: level }))
+  }),
+  risks: z.array(z.object({ name: z.string(), description: z.string(), severity: level })),
+  marketIntelligence: z.array(z.object({ trend: z.string(), relevance: level }))
+});
+
+export interface ValidationIssue {
+  // Where in the output, e.g. "tasks[0].suggested_category"; empty for the whole output
+  path: string;
+  message: string;
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((formatted, key) =>
+    typeof key === 'number' ? `${formatted}[${key}]` : formatted ? `${formatted}.${key}` : key, '');
+}
+
+export function validationIssues(error: z.ZodError): ValidationIssue[] {
+  return error.issues.map(issue => ({ path: formatPath(issue.path), message: issue.message }));
+}
+
+export function describeIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => `${issue.path || '(output)'}: ${issue.message}`).join('; ');
+}
+
+/**
+ * The follow-up message asking a model to fix an answer that failed validation
+ */
+export function buildRepairPrompt(issues: ValidationIssue[]): string {
+  return [
+    'Your previous answer did not match the required JSON format. Problems found:',
+    ...issues.map(issue => `- ${issue.path || '(output)'}: ${issue.message}`),
+    'Reply with the corrected JSON object only, keeping everything that was already valid.'
+  ].join('\n');
+}
@@ -0,0 +1,287 @@
+import { db } from '../db';
+import { emails, emailAccounts, llmRejectedOutputs } from '@shared/schema';
+import type { AiModel } from '@shared/schema';
+import { desc, eq, inArray } from 'drizzle-orm';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { aiModelService } from './aiModelService';
+import {
+  LlmChatRequest,
+  LlmChatResult,
+  LlmConfig,
+  LlmProviderName,
+  createLlmProvider,
+  parseJsonContent,
+  resolveChatConfig,
+  resolveEmbeddingConfig
+} from './llmProvider';
+import { ValidationIssue, buildRepairPrompt, describeIssues, validationIssues } from './llmSchemas';
+import { UsageEntry, usageService } from './usageService';
+import { estimateTokens } from './usagePolicy';
+
+// Requests made on a user's behalf; the model comes from their AI Settings unless given.
+// The feature is what the call is recorded under in the usage log.
+export type UserChatRequest = Omit<LlmChatRequest, 'model'> & { model?: string; feature?: string };
+
+// Who an embedding is for and why, for the usage log
+export interface UsageContext {
+  userId?: number | null;
+  feature?: string;
+}
+
+export interface StructuredOutputOptions<S extends z.ZodTypeAny> {
+  schema: S;
+  // Recorded with rejected outputs, e.g. "enhanced-task-extraction"
+  feature: string;
+  // How many times to ask the model to fix an invalid answer
+  maxRepairs?: number;
+}
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+/**
+ * Service every AI feature goes through: chat, JSON output and streaming use the
+ * provider and model the user picked in AI Settings, embeddings use the shared
+ * embedding model
+ */
+class LlmService {
+  /**
+   * The provider, model and credentials for a user's chat calls
+   */
+  async getChatConfig(userId: number): Promise<LlmConfig> {
+    const settings = await storage.getAiSettings(userId);
+    const selectedModel = settings?.selectedModelId
+      ? await aiModelService.getModelById(settings.selectedModelId)
+      : null;
+
+    return resolveChatConfig(settings, selectedModel ?? undefined);
+  }
+
+  async chat(userId: number, request: UserChatRequest): Promise<LlmChatResult> {
+    const { feature = 'chat', ...chatRequest } = request;
+    const config = await this.getChatConfig(userId);
+    const model = chatRequest.model || config.model;
+
+    console.log(`🤖 Using AI: ${config.provider} with model ${model} for user ${userId}`);
+    const startedAt = Date.now();
+    try {
+      const result = await createLlmProvider(config).chat({ ...chatRequest, model });
+
+      await usageService.record({
+        userId,
+        feature,
+        kind: 'chat',
+        provider: result.provider,
+        model: result.model,
+        promptTokens: result.usage?.promptTokens ?? estimateTokens(chatRequest.messages.map(m => m.content).join('\n')),
+        completionTokens: result.usage?.completionTokens ?? estimateTokens(result.content),
+        tokensEstimated: !result.usage,
+        latencyMs: Date.now() - startedAt,
+        success: true
+      });
+      return result;
+    } catch (error) {
+      await usageService.record(this.failedCall(userId, feature, 'chat', config.provider, model, startedAt));
+      throw error;
+    }
+  }
+
+  // A usage entry for a call that failed; no tokens are counted for it
+  private failedCall(
+    userId: number | null,
+    feature: string,
+    kind: 'chat' | 'embedding',
+    provider: LlmProviderName,
+    model: string,
+    startedAt: number
+  ): UsageEntry {
+    return {
+      userId,
+      feature,
+      kind,
+      provider,
+      model,
+      promptTokens: 0,
+      completionTokens: 0,
+      tokensEstimated: false,
+      latencyMs: Date.now() - startedAt,
+      success: false
+    };
+  }
+
+  /**
+   * Ask for a JSON object and validate it against a schema. An invalid answer is
+   * recorded in llm_rejected_outputs and sent back to the model with the problems
+   * found, up to maxRepairs times; after that the call fails with the last problems.
+   */
+  async chatStructured<S extends z.ZodTypeAny>(
+    userId: number,
+    request: UserChatRequest,
+    { schema, feature, maxRepairs = DEFAULT_MAX_REPAIRS }: StructuredOutputOptions<S>
+  ): Promise<{ data: z.infer<S>; result: LlmChatResult }> {
+    const messages = [...request.messages];
+    const rejectedIds: number[] = [];
+    let issues: ValidationIssue[] = [];
+
+    for (let attempt = 1; attempt <= maxRepairs + 1; attempt++) {
+      const result = await this.chat(userId, { ...request, messages, json: true, feature });
+      issues = this.validate(schema, result.content);
+
+      if (issues.length === 0) {
+        if (rejectedIds.length > 0) {
+          await db.update(llmRejectedOutputs).set({ repaired: true }).where(inArray(llmRejectedOutputs.id, rejectedIds));
+          console.log(`${feature}: output repaired after ${attempt - 1} rejected attempt(s)`);
+        }
+        return { data: schema.parse(parseJsonContent(result.content)), result };
+      }
+
+      console.warn(`${feature}: attempt ${attempt} failed validation: ${describeIssues(issues)}`);
+      rejectedIds.push(await this.recordRejection(userId, feature, attempt, result, issues));
+      messages.push(
+        { role: 'assistant', content: result.content },
+        { role: 'user', content: buildRepairPrompt(issues) }
+      );
+    }
+
+    throw new Error(`${feature}: model output failed validation after ${maxRepairs + 1} attempts: ${describeIssues(issues)}`);
+  }
+
+  // The problems with an answer, none if it is valid
+  private validate(schema: z.ZodTypeAny, content: string): ValidationIssue[] {
+    let parsed: unknown;
+    try {
+      parsed = parseJsonContent(content);
+    } catch (error) {
+      return [{ path: '', message: (error as Error).message }];
+    }
+
+    const validation = schema.safeParse(parsed);
+    return validation.success ? [] : validationIssues(validation.error);
+  }
+
+  private async recordRejection(
+    userId: number,
+    feature: string,
+    attempt: number,
+    result: LlmChatResult,
+    issues: ValidationIssue[]
+  ): Promise<number> {
+    const [row] = await db.insert(llmRejectedOutputs).values({
+      userId,
+      feature,
+      provider: result.provider,
+      model: result.model,
+      attempt,
+      output: result.content,
+      errors: issues
+    }).returning({ id: llmRejectedOutputs.id });
+
+    return row.id;
+  }
+
+  /**
+   * The user's most recent rejected outputs, newest first
+   */
+  async getRejectedOutputs(userId: number, limit: number = 50) {
+    return db
+      .select()
+      .from(llmRejectedOutputs)
+      .where(eq(llmRejectedOutputs.userId, userId))
+      .orderBy(desc(llmRejectedOutputs.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Stream a completion. Providers don't report usage for streams, so the
+   * tokens recorded are estimated from the text.
+   */
+  async *stream(userId: number, request: UserChatRequest): AsyncIterable<string> {
+    const { feature = 'chat', ...chatRequest } = request;
+    const config = await this.getChatConfig(userId);
+    const model = chatRequest.model || config.model;
+
+    const startedAt = Date.now();
+    let content = '';
+    try {
+      for await (const piece of createLlmProvider(config).stream({ ...chatRequest, model })) {
+        content += piece;
+        yield piece;
+      }
+    } catch (error) {
+      await usageService.record(this.failedCall(userId, feature, 'chat', config.provider, model, startedAt));
+      throw error;
+    }
+
+    await usageService.record({
+      userId,
+      feature,
+      kind: 'chat',
+      provider: config.provider,
+      model,
+      promptTokens: estimateTokens(chatRequest.messages.map(m => m.content).join('\n')),
+      completionTokens: estimateTokens(content),
+      tokensEstimated: true,
+      latencyMs: Date.now() - startedAt,
+      success: true
+    });
+  }
+
+  /**
+   * Embed text with the shared embedding model. Returns the provider's vector as
+   * is; fitting it to the database column is up to the caller.
+   */
+  async embed(text: string, { userId = null, feature = 'embedding' }: UsageContext = {}): Promise<number[]> {
+    const config = resolveEmbeddingConfig();
+    return this.embedAndRecord(config, config.model, text, userId, feature);
+  }
+
+  /**
+   * Embed text with a specific model, using the user's credentials for its provider
+   */
+  async embedWithModel(userId: number, model: Pick<AiModel, 'provider' | 'modelId'>, text: string, feature = 'embedding'): Promise<number[]> {
+    const settings = await storage.getAiSettings(userId);
+    const config = resolveChatConfig({ ...settings, selectedProvider: model.provider }, undefined);
+    return this.embedAndRecord(config, model.modelId, text, userId, feature);
+  }
+
+  // Embedding APIs don't all report usage, so input tokens are always estimated
+  private async embedAndRecord(config: LlmConfig, model: string, text: string, userId: number | null, feature: string): Promise<number[]> {
+    const startedAt = Date.now();
+    try {
+      const embedding = await createLlmProvider(config).embed(model, text);
+
+      await usageService.record({
+        userId,
+        feature,
+        kind: 'embedding',
+        provider: config.provider,
+        model,
+        promptTokens: estimateTokens(text),
+        completionTokens: 0,
+        tokensEstimated: true,
+        latencyMs: Date.now() - startedAt,
+        success: true
+      });
+      return embedding;
+    } catch (error) {
+      await usageService.record(this.failedCall(userId, feature, 'embedding', config.provider, model, startedAt));
+      throw error;
+    }
+  }
+
+  /**
+   * The user whose account an email belongs to, for work that starts from an email id
+   */
+  async getEmailOwner(emailId: number): Promise<number | undefined> {
+    const [row] = await db
+      .select({ userId: emailAccounts.userId })
+      .from(emails)
+      .innerJoin(emailAccounts, eq(emails.accountId, emailAccounts.id))
+      .where(eq(emails.id, emailId));
+
+    return row?.userId;
+  }
+}
+
+// Create and export the service instance
+export const llmService = new LlmService();
@@ -0,0 +1,65 @@
+/**
+ * Login Policy
+ * Limits on failed sign-in attempts, so passwords and two-factor codes can't be
+ * guessed by trying them one after another. Works on plain values and has no
+ * database access.
+ */
+
+// Wrong codes accepted for one correct password before it has to be entered again
+export const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+
+// Failed attempts allowed per window before further attempts are refused
+export const LOGIN_FAILURE_LIMITS = {
+  // Per username or email address tried, and per user for two-factor codes
+  account: 10,
+  // Per client address, across every account it tries
+  ip: 50
+} as const;
+
+export interface LoginBlock {
+  blocked: boolean;
+  // Seconds until another attempt is allowed; 0 when not blocked
+  retryAfterSeconds: number;
+}
+
+/**
+ * Failed attempts counted per key (e.g. "user:ada" or "ip:10.0.0.1") in fixed
+ * fifteen-minute windows, in memory
+ */
+export class LoginAttemptLimiter {
+  private windows = new Map<string, { startedAt: number; failures: number }>();
+
+  check(key: string, limit: number, now = Date.now()): LoginBlock {
+    const window = this.current(key, now);
+    if (!window || window.failures < limit) {
+      return { blocked: false, retryAfterSeconds: 0 };
+    }
+
+    return { blocked: true, retryAfterSeconds: Math.ceil((window.startedAt + FAILURE_WINDOW_MS - now) / 1000) };
+  }
+
+  recordFailure(key: string, now = Date.now()): void {
+    const window = this.current(key, now);
+    if (window) {
+      window.failures++;
+    } else {
+      this.windows.set(key, { startedAt: now, failures: 1 });
+    }
+  }
+
+  // A successful sign-in clears the account's failures, not the client address's
+  reset(key: string): void {
+    this.windows.delete(key);
+  }
+
+  private current(key: string, now: number) {
+    const window = this.windows.get(key);
+    if (window && now - window.startedAt >= FAILURE_WINDOW_MS) {
+      this.windows.delete(key);
+      return undefined;
+    }
+    return window;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Schema for the JSON bundle in an account export zip
+ *
+ * Bundles come back in uploaded files, so they are parsed rather than trusted:
+ * only the fields listed here are read, and ids, owners and message content
+ * always come from the account the zip is imported into.
+ */
+import { z } from 'zod';
+import { linkTypeEnum, priorityEnum, taskCategoryEnum } from '@shared/schema';
+
+// Bumped whenever the bundle layout changes in a way older imports can't read
+export const BUNDLE_VERSION = 1;
+
+// Dates come back from JSON as ISO strings
+const bundleDate = z.string().datetime().transform(value => new Date(value));
+
+const bundleEmailSchema = z.object({
+  messageId: z.string(),
+  folder: z.string().nullable(),
+  labels: z.array(z.string()).nullable(),
+  threadId: z.string().nullable(),
+  isRead: z.boolean(),
+  isArchived: z.boolean(),
+  isStarred: z.boolean(),
+  isDeleted: z.boolean(),
+  isCleaned: z.boolean(),
+  aiExtractedSummary: z.string().nullable(),
+  aiSuggestedTasksJson: z.unknown(),
+  aiExtractedDeadlinesJson: z.unknown(),
+  aiExtractedEntitiesJson: z.unknown(),
+  aiSentiment: z.string().nullable(),
+  aiSuggestedCategory: z.string().nullable(),
+  aiProcessingConfidence: z.number().int().nullable(),
+  aiClassificationDetailsJson: z.unknown(),
+  aiFeaturesExtractedAt: bundleDate.nullable(),
+  tasksGeneratedAt: bundleDate.nullable()
+});
+
+// The prompt version isn't restored: it refers to a row of the exporting installation
+const bundleTaskSchema = z.object({
+  id: z.number().int(),
+  emailMessageId: z.string(),
+  title: z.string().min(1),
+  description: z.string().nullable(),
+  detailedDescription: z.string().nullable(),
+  sourceSnippet: z.string().nullable(),
+  dueDate: bundleDate.nullable(),
+  priority: z.enum(priorityEnum.enumValues),
+  category: z.enum(taskCategoryEnum.enumValues).nullable(),
+  actorsInvolved: z.array(z.string()).nullable(),
+  isCompleted: z.boolean(),
+  completedAt: bundleDate.nullable(),
+  estimatedEffortMinutes: z.number().int().nullable(),
+  aiGenerated: z.boolean(),
+  aiConfidence: z.number().int().nullable(),
+  aiModel: z.string().nullable(),
+  originalAiSuggestionJson: z.unknown(),
+  needsReview: z.boolean(),
+  isRecurringSuggestion: z.boolean().nullable(),
+  aiSuggestedReminderText: z.string().nullable(),
+  reminderSettingsJson: z.unknown(),
+  nextReminderAt: bundleDate.nullable(),
+  entities: z.unknown(),
+  createdAt: bundleDate,
+  updatedAt: bundleDate
+});
+
+const bundleFeedbackSchema = z.object({
+  taskId: z.number().int().nullable(),
+  relatedEmailMessageId: z.string().nullable(),
+  feedbackType: z.string(),
+  sourceType: z.string().nullable(),
+  originalTask: z.unknown(),
+  correctedTask: z.unknown(),
+  metadata: z.unknown(),
+  timestamp: bundleDate
+});
+
+const bundleSemanticLinkSchema = z.object({
+  emailMessageIdA: z.string(),
+  emailMessageIdB: z.string(),
+  similarityScore: z.number().int(),
+  linkType: z.enum(linkTypeEnum.enumValues)
+});
+
+const bundleSchema = z.object({
+  version: z.number().int(),
+  emails: z.array(bundleEmailSchema),
+  tasks: z.array(bundleTaskSchema),
+  feedback: z.array(bundleFeedbackSchema),
+  semanticLinks: z.array(bundleSemanticLinkSchema)
+});
+
+export type ParsedBundle = z.infer<typeof bundleSchema>;
+
+/**
+ * Check an uploaded bundle and keep only the fields a restore may apply
+ */
+export function parseBundle(input: unknown): ParsedBundle {
+  const version = (input as { version?: unknown } | null)?.version;
+
+  if (!input || typeof input !== 'object' || typeof version !== 'number') {
+    throw new Error('Not an export bundle');
+  }
+  if (version > BUNDLE_VERSION) {
+    throw new Error(`Export bundle version ${version} is newer than this version can read`);
+  }
+
+  const parsed = bundleSchema.safeParse(input);
+  if (!parsed.success) {
+    const [issue] = parsed.error.issues;
+    throw new Error(`Export bundle is invalid at ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  return parsed.data;
+}
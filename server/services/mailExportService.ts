@@ -0,0 +1,328 @@
+import { pipeline } from 'stream/promises';
+import JSZip from 'jszip';
+import { db } from '../db';
+import {
+  emails,
+  emailAccounts,
+  tasks,
+  feedback,
+  emailSemanticLinks,
+  Email,
+  EmailAccount,
+  Task,
+  Feedback,
+  EmailSemanticLink
+} from '@shared/schema';
+import { and, asc, eq, gt, inArray, isNull, or } from 'drizzle-orm';
+import { attachmentService } from './attachmentService';
+import { composeMessage, mboxEntry, ComposableAttachment } from '../utils/mailboxWriter';
+import { BUNDLE_FILE_NAME } from '../utils/mailboxReader';
+import { BUNDLE_VERSION, parseBundle } from './mailBundleSchema';
+
+export type MailExportFormat = 'mbox' | 'eml';
+
+export const MAIL_EXPORT_FORMATS: MailExportFormat[] = ['mbox', 'eml'];
+
+
+// Emails are read and composed this many at a time
+const EXPORT_BATCH_SIZE = 200;
+
+// AI annotations carried over in the bundle; embeddings are left out and regenerated on import
+const AI_FIELDS = [
+  'aiExtractedSummary',
+  'aiSuggestedTasksJson',
+  'aiExtractedDeadlinesJson',
+  'aiExtractedEntitiesJson',
+  'aiSentiment',
+  'aiSuggestedCategory',
+  'aiProcessingConfidence',
+  'aiClassificationDetailsJson',
+  'aiFeaturesExtractedAt',
+  'tasksGeneratedAt'
+] as const;
+
+type AiField = typeof AI_FIELDS[number];
+
+
+/**
+ * Local state of an email that isn't part of the message itself. Emails are matched by Message-ID.
+ */
+export type BundleEmail = Pick<Email, 'messageId' | 'folder' | 'labels' | 'threadId' | 'isRead' | 'isArchived' | 'isStarred' | 'isDeleted'>
+  & Pick<Email, AiField>
+  & { isCleaned: boolean };
+
+// Tasks keep their original id so feedback can point at them
+export type BundleTask = Omit<Task, 'userId' | 'emailId' | 'embeddingVector' | 'searchVector'> & { emailMessageId: string };
+
+export type BundleFeedback = Omit<Feedback, 'id' | 'userId' | 'relatedEmailId'> & { relatedEmailMessageId: string | null };
+
+export type BundleSemanticLink = Pick<EmailSemanticLink, 'similarityScore' | 'linkType'> & {
+  emailMessageIdA: string;
+  emailMessageIdB: string;
+};
+
+export interface MailExportBundle {
+  version: number;
+  exportedAt: string;
+  account: Pick<EmailAccount, 'emailAddress' | 'displayName' | 'accountType'>;
+  emails: BundleEmail[];
+  tasks: BundleTask[];
+  feedback: BundleFeedback[];
+  semanticLinks: BundleSemanticLink[];
+}
+
+export interface BundleRestoreResult {
+  emails: number;
+  tasks: number;
+  feedback: number;
+  semanticLinks: number;
+}
+
+/**
+ * Service that exports an account's mail as mbox or EML files in a zip, together with a
+ * JSON bundle of the tasks, feedback, semantic links and AI annotations that belong to it.
+ * The zip can be imported again through the mail import.
+ */
+export class MailExportService {
+  /**
+   * Write an account's export zip to `output` and return how many emails it holds
+   */
+  async exportAccount(accountId: number, format: MailExportFormat, output: NodeJS.WritableStream): Promise<number> {
+    const [account] = await db.select().from(emailAccounts).where(eq(emailAccounts.id, accountId));
+
+    if (!account) {
+      throw new Error(`Email account with ID ${accountId} not found`);
+    }
+
+    const zip = new JSZip();
+    const mbox: Buffer[] = [];
+    const bundleEmails: BundleEmail[] = [];
+    const messageIds = new Map<number, string>();
+    let lastId = 0;
+
+    while (true) {
+      const batch = await db.select()
+        .from(emails)
+        .where(and(eq(emails.accountId, accountId), gt(emails.id, lastId)))
+        .orderBy(asc(emails.id))
+        .limit(EXPORT_BATCH_SIZE);
+
+      if (batch.length === 0) break;
+
+      for (const email of batch) {
+        const raw = await composeMessage(email, await this.loadAttachments(email.id));
+
+        if (format === 'mbox') {
+          mbox.push(mboxEntry(raw, email.sender, email.timestamp));
+        } else {
+          zip.file(`messages/${this.folderPath(email.folder)}/${email.id}.eml`, raw);
+        }
+
+        messageIds.set(email.id, email.messageId);
+        bundleEmails.push(this.toBundleEmail(email));
+      }
+
+      lastId = batch[batch.length - 1].id;
+    }
+
+    if (format === 'mbox') {
+      zip.file('mailbox.mbox', Buffer.concat(mbox));
+    }
+
+    const bundle = await this.buildBundle(account, bundleEmails, messageIds);
+    zip.file(BUNDLE_FILE_NAME, JSON.stringify(bundle, null, 2));
+
+    await pipeline(zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true, compression: 'DEFLATE' }), output);
+    console.log(`Exported ${bundleEmails.length} emails of account ${account.emailAddress} as ${format}`);
+
+    return bundleEmails.length;
+  }
+
+  /**
+   * Collect the tasks, feedback and semantic links that belong to the exported emails
+   */
+  async buildBundle(account: EmailAccount, bundleEmails: BundleEmail[], messageIds: Map<number, string>): Promise<MailExportBundle> {
+    const accountEmailIds = db.select({ id: emails.id }).from(emails).where(eq(emails.accountId, account.id));
+
+    const taskRows = await db.select().from(tasks).where(inArray(tasks.emailId, accountEmailIds));
+    const taskIds = taskRows.map(task => task.id);
+
+    const feedbackRows = await db.select()
+      .from(feedback)
+      .where(taskIds.length > 0
+        ? or(inArray(feedback.relatedEmailId, accountEmailIds), inArray(feedback.taskId, taskIds))
+        : inArray(feedback.relatedEmailId, accountEmailIds));
+
+    const linkRows = await db.select()
+      .from(emailSemanticLinks)
+      .where(and(inArray(emailSemanticLinks.emailIdA, accountEmailIds), inArray(emailSemanticLinks.emailIdB, accountEmailIds)));
+
+    return {
+      version: BUNDLE_VERSION,
+      exportedAt: new Date().toISOString(),
+      account: {
+        emailAddress: account.emailAddress,
+        displayName: account.displayName,
+        accountType: account.accountType
+      },
+      emails: bundleEmails,
+      tasks: taskRows.map(({ userId, emailId, embeddingVector, searchVector, ...task }) => ({
+        ...task,
+        emailMessageId: messageIds.get(emailId!)!
+      })),
+      feedback: feedbackRows.map(({ id, userId, relatedEmailId, ...entry }) => ({
+        ...entry,
+        relatedEmailMessageId: relatedEmailId ? messageIds.get(relatedEmailId) || null : null
+      })),
+      semanticLinks: linkRows.map(link => ({
+        emailMessageIdA: messageIds.get(link.emailIdA)!,
+        emailMessageIdB: messageIds.get(link.emailIdB)!,
+        similarityScore: link.similarityScore,
+        linkType: link.linkType
+      }))
+    };
+  }
+
+  /**
+   * Apply an export bundle to an account whose emails have been imported. Email state and
+   * AI annotations are restored; tasks, feedback and links the account already has are skipped.
+   */
+  async restoreBundle(accountId: number, input: unknown): Promise<BundleRestoreResult> {
+    const bundle = parseBundle(input);
+    const [account] = await db.select().from(emailAccounts).where(eq(emailAccounts.id, accountId));
+
+    if (!account) {
+      throw new Error(`Email account with ID ${accountId} not found`);
+    }
+
+    const rows = await db.select({ id: emails.id, messageId: emails.messageId })
+      .from(emails)
+      .where(eq(emails.accountId, accountId));
+    const emailIds = new Map(rows.map(row => [row.messageId, row.id]));
+    const result: BundleRestoreResult = { emails: 0, tasks: 0, feedback: 0, semanticLinks: 0 };
+
+    for (const entry of bundle.emails) {
+      const emailId = emailIds.get(entry.messageId);
+      if (!emailId) continue;
+
+      const { messageId, isCleaned, ...state } = entry;
+      await db.update(emails)
+        .set({ ...state, is_cleaned: isCleaned, updatedAt: new Date() })
+        .where(eq(emails.id, emailId));
+      result.emails++;
+    }
+
+    const taskIds = new Map<number, number>();
+
+    for (const { id, emailMessageId, ...task } of bundle.tasks) {
+      const emailId = emailIds.get(emailMessageId);
+      if (!emailId) continue;
+
+      const [existing] = await db.select({ id: tasks.id })
+        .from(tasks)
+        .where(and(eq(tasks.emailId, emailId), eq(tasks.title, task.title)));
+
+      if (existing) {
+        taskIds.set(id, existing.id);
+        continue;
+      }
+
+      const [inserted] = await db.insert(tasks)
+        .values({ ...task, userId: account.userId, emailId })
+        .returning({ id: tasks.id });
+      taskIds.set(id, inserted.id);
+      result.tasks++;
+    }
+
+    for (const { relatedEmailMessageId, taskId, timestamp, ...entry } of bundle.feedback) {
+      const relatedEmailId = relatedEmailMessageId ? emailIds.get(relatedEmailMessageId) ?? null : null;
+      const newTaskId = taskId ? taskIds.get(taskId) ?? null : null;
+      if (!relatedEmailId && !newTaskId) continue;
+
+      const [existing] = await db.select({ id: feedback.id })
+        .from(feedback)
+        .where(and(
+          eq(feedback.userId, account.userId),
+          eq(feedback.feedbackType, entry.feedbackType),
+          eq(feedback.timestamp, timestamp),
+          relatedEmailId ? eq(feedback.relatedEmailId, relatedEmailId) : isNull(feedback.relatedEmailId)
+        ));
+      if (existing) continue;
+
+      await db.insert(feedback).values({
+        ...entry,
+        userId: account.userId,
+        taskId: newTaskId,
+        relatedEmailId,
+        timestamp
+      });
+      result.feedback++;
+    }
+
+    for (const link of bundle.semanticLinks) {
+      const first = emailIds.get(link.emailMessageIdA);
+      const second = emailIds.get(link.emailMessageIdB);
+      if (!first || !second) continue;
+
+      // Links are stored with the smaller email id first
+      const inserted = await db.insert(emailSemanticLinks)
+        .values({
+          emailIdA: Math.min(first, second),
+          emailIdB: Math.max(first, second),
+          similarityScore: link.similarityScore,
+          linkType: link.linkType
+        })
+        .onConflictDoNothing()
+        .returning({ emailIdA: emailSemanticLinks.emailIdA });
+      result.semanticLinks += inserted.length;
+    }
+
+    console.log(`Restored bundle into account ${accountId}: ${result.emails} emails, ${result.tasks} tasks, ${result.feedback} feedback entries, ${result.semanticLinks} semantic links`);
+    return result;
+  }
+
+  private toBundleEmail(email: Email): BundleEmail {
+    const entry: BundleEmail = {
+      messageId: email.messageId,
+      folder: email.folder,
+      labels: email.labels,
+      threadId: email.threadId,
+      isRead: email.isRead,
+      isArchived: email.isArchived,
+      isStarred: email.isStarred,
+      isDeleted: email.isDeleted,
+      isCleaned: email.is_cleaned
+    } as BundleEmail;
+
+    for (const field of AI_FIELDS) {
+      (entry as any)[field] = email[field];
+    }
+
+    return entry;
+  }
+
+  private async loadAttachments(emailId: number): Promise<ComposableAttachment[]> {
+    const attachments: ComposableAttachment[] = [];
+
+    for (const attachment of await attachmentService.listAttachments(emailId)) {
+      try {
+        attachments.push({ ...attachment, content: await attachmentService.readContent(attachment) });
+      } catch (error) {
+        // Leave out content that has gone missing from the store rather than failing the export
+        console.error(`Error reading attachment ${attachment.id} of email ${emailId}:`, error);
+      }
+    }
+
+    return attachments;
+  }
+
+  // Directory for a folder's EML files; folder hierarchy becomes directories
+  private folderPath(folder: string | null): string {
+    return (folder || 'INBOX')
+      .split('/')
+      .map(segment => ['', '.', '..'].includes(segment) ? '_' : segment.replace(/[\\:*?"<>|]/g, '_'))
+      .join('/');
+  }
+}
+
+export const mailExportService = new MailExportService();
@@ -0,0 +1,291 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { simpleParser } from 'mailparser';
+import { db } from '../db';
+import { emails, mailImports, InsertEmail, MailImport } from '@shared/schema';
+import { desc, eq } from 'drizzle-orm';
+import { imapService } from './imapService';
+import { attachmentService } from './attachmentService';
+import { threadService } from './threadService';
+import { jobQueueService } from './jobQueueService';
+import { parseMessageIds } from './messageThreader';
+import { flagStateFromImap } from './flagReconciler';
+import {
+  MailboxFormat,
+  MailboxMessage,
+  detectMailboxFormat,
+  measureMailbox,
+  readMailbox,
+  readZipBundle
+} from '../utils/mailboxReader';
+import { mailExportService } from './mailExportService';
+
+// Progress is written to the import row after this many messages
+const PROGRESS_INTERVAL = 25;
+
+// Uploaded archives are kept here until their import has finished
+const UPLOAD_DIR = path.join(os.tmpdir(), 'mail-imports');
+
+// Largest archive accepted as an upload; bigger ones are imported with `npm run import:mailbox`
+export const MAX_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024;
+
+export interface MailImportOptions {
+  // Folder for mbox and EML messages; Maildir folders come from the tree itself
+  folder?: string;
+  // Queue cleaning, embedding and task extraction jobs for the imported mail
+  process?: boolean;
+  extractTasks?: boolean;
+  // Delete the archive once the import has finished (uploads)
+  removeSource?: boolean;
+  onProgress?: (mailImport: MailImport) => void;
+}
+
+/**
+ * Service that imports exported mail archives (mbox, EML, Maildir, and zips written by the
+ * mail export) into an account
+ */
+export class MailImportService {
+  /**
+   * Store an uploaded archive in a temporary file and return its path, or undefined
+   * when it is larger than MAX_UPLOAD_BYTES. Nothing is left behind when saving fails.
+   */
+  async saveUpload(stream: NodeJS.ReadableStream, fileName: string): Promise<string | undefined> {
+    await fs.promises.mkdir(UPLOAD_DIR, { recursive: true });
+
+    const safeName = path.basename(fileName).replace(/[^\w.-]/g, '_') || 'upload';
+    const filePath = path.join(UPLOAD_DIR, `${Date.now()}-${crypto.randomBytes(4).toString('hex')}-${safeName}`);
+
+    let received = 0;
+    let tooLarge = false;
+    const limit = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        tooLarge = received > MAX_UPLOAD_BYTES;
+        callback(tooLarge ? new Error(`Upload is larger than ${MAX_UPLOAD_BYTES} bytes`) : null, chunk);
+      }
+    });
+
+    // Piped rather than passed to pipeline, so stopping an upload that is too large
+    // leaves the request open for the response that says so
+    stream.on('error', error => limit.destroy(error));
+    stream.pipe(limit);
+
+    try {
+      await pipeline(limit, fs.createWriteStream(filePath));
+      return filePath;
+    } catch (error) {
+      await this.removeUpload(filePath);
+      if (tooLarge) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an uploaded archive, e.g. when its import could not be started
+   */
+  async removeUpload(filePath: string): Promise<void> {
+    await fs.promises.rm(filePath, { force: true }).catch(() => {});
+  }
+
+  /**
+   * Record a new import of the archive at `sourcePath`, detecting its format if none is given
+   */
+  async createImport(accountId: number, sourcePath: string, format?: MailboxFormat, sourceName?: string): Promise<MailImport> {
+    const [mailImport] = await db.insert(mailImports)
+      .values({
+        accountId,
+        format: format || await detectMailboxFormat(sourcePath),
+        source: sourceName || sourcePath,
+        totalBytes: await measureMailbox(sourcePath)
+      })
+      .returning();
+
+    return mailImport;
+  }
+
+  /**
+   * Import every message of the archive. Messages already stored for the account are counted
+   * as duplicates; a message that can't be parsed or stored is counted as failed and skipped.
+   */
+  async runImport(mailImport: MailImport, sourcePath: string, options: MailImportOptions = {}): Promise<MailImport> {
+    const progress = {
+      processedBytes: 0,
+      messagesRead: 0,
+      importedCount: 0,
+      duplicateCount: 0,
+      failedCount: 0
+    };
+    const importedIds: number[] = [];
+    let restoredBundle = false;
+
+    let current = await this.updateImport(mailImport.id, { status: 'running', startedAt: new Date() });
+    console.log(`Importing ${mailImport.format} archive ${mailImport.source} into account ${mailImport.accountId}`);
+
+    try {
+      for await (const message of readMailbox(sourcePath, mailImport.format, options.folder)) {
+        progress.messagesRead++;
+        progress.processedBytes += message.raw.length;
+
+        try {
+          const emailId = await this.importMessage(mailImport, message);
+          if (emailId) {
+            importedIds.push(emailId);
+            progress.importedCount++;
+          } else {
+            progress.duplicateCount++;
+          }
+        } catch (messageError) {
+          progress.failedCount++;
+          console.error(`Error importing message ${message.location}:`, messageError);
+        }
+
+        if (progress.messagesRead % PROGRESS_INTERVAL === 0) {
+          current = await this.updateImport(mailImport.id, progress);
+          options.onProgress?.(current);
+        }
+      }
+
+      // An export zip carries the tasks and AI annotations of its emails, which need no extracting again
+      if (mailImport.format === 'zip') {
+        const bundle = await readZipBundle(sourcePath);
+        if (bundle) {
+          await mailExportService.restoreBundle(mailImport.accountId, bundle);
+          restoredBundle = true;
+        }
+      }
+
+      current = await this.updateImport(mailImport.id, {
+        ...progress,
+        // The byte count of mbox messages leaves out their "From " lines
+        processedBytes: current.totalBytes,
+        status: 'completed',
+        finishedAt: new Date()
+      });
+      console.log(`Import ${mailImport.id} completed: ${progress.importedCount} imported, ${progress.duplicateCount} duplicates, ${progress.failedCount} failed`);
+    } catch (error) {
+      console.error(`Import ${mailImport.id} failed:`, error);
+      current = await this.updateImport(mailImport.id, {
+        ...progress,
+        status: 'failed',
+        error: (error as Error).message,
+        finishedAt: new Date()
+      });
+    } finally {
+      if (options.removeSource) {
+        await fs.promises.rm(sourcePath, { recursive: true, force: true }).catch(() => {});
+      }
+    }
+
+    options.onProgress?.(current);
+
+    if (options.process !== false && importedIds.length > 0) {
+      try {
+        await jobQueueService.enqueueEmailProcessing(importedIds, options.extractTasks !== false && !restoredBundle);
+      } catch (error) {
+        console.error(`Error queueing processing of imported emails for account ${mailImport.accountId}:`, error);
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Parse and store one message; returns the new email's id, or null when the account already has it
+   */
+  async importMessage(mailImport: MailImport, message: MailboxMessage): Promise<number | null> {
+    const parsed = await simpleParser(message.raw);
+    // Messages without a Message-ID get one derived from their content, so a re-import still deduplicates
+    const messageId = parsed.messageId ||
+      `<${crypto.createHash('sha256').update(message.raw).digest('hex')}@import.local>`;
+    const flags = flagStateFromImap(message.flags);
+
+    const newEmail: InsertEmail = {
+      accountId: mailImport.accountId,
+      messageId,
+      sender: parsed.from?.text || '',
+      recipients: imapService.formatAddresses(parsed.to),
+      subject: parsed.subject || '(No Subject)',
+      body: parsed.text || '',
+      // Store empty HTML to prevent rendering images and logos
+      bodyHtml: null,
+      inReplyTo: parseMessageIds(parsed.inReplyTo)[0] || null,
+      messageReferences: parseMessageIds(parsed.references),
+      folder: message.folder,
+      labels: message.labels.length > 0 ? message.labels : [message.folder],
+      timestamp: parsed.date || message.receivedAt || new Date(),
+      metadata: {
+        importId: mailImport.id,
+        importedFrom: message.location,
+        attachments: parsed.attachments.length,
+        hasAttachments: parsed.attachments.length > 0,
+        subject: parsed.subject,
+        from: parsed.from,
+        to: parsed.to,
+        date: parsed.date
+      },
+      processed: false,
+      isRead: flags.read!,
+      isStarred: flags.starred!,
+      isArchived: false,
+      isDeleted: flags.deleted!
+    };
+
+    // account_message_id_idx makes a message the account already has a no-op
+    const [inserted] = await db.insert(emails)
+      .values(newEmail)
+      .onConflictDoNothing({ target: [emails.accountId, emails.messageId] })
+      .returning({ id: emails.id });
+
+    if (!inserted) {
+      return null;
+    }
+
+    if (parsed.attachments.length > 0) {
+      try {
+        await attachmentService.saveAttachments(inserted.id, parsed.attachments.map(attachment => ({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          content: attachment.content,
+          contentId: attachment.contentId,
+          isInline: attachment.contentDisposition === 'inline'
+        })));
+      } catch (attachmentError) {
+        // The message itself is stored; a broken attachment shouldn't fail the import
+        console.error(`Error saving attachments for email ${inserted.id}:`, attachmentError);
+      }
+    }
+
+    await threadService.assignThread(inserted.id);
+
+    return inserted.id;
+  }
+
+  async getImport(importId: number): Promise<MailImport | undefined> {
+    const [mailImport] = await db.select().from(mailImports).where(eq(mailImports.id, importId));
+    return mailImport;
+  }
+
+  async listImports(accountId: number): Promise<MailImport[]> {
+    return db.select()
+      .from(mailImports)
+      .where(eq(mailImports.accountId, accountId))
+      .orderBy(desc(mailImports.createdAt));
+  }
+
+  private async updateImport(importId: number, values: Partial<MailImport>): Promise<MailImport> {
+    const [mailImport] = await db.update(mailImports)
+      .set(values)
+      .where(eq(mailImports.id, importId))
+      .returning();
+
+    return mailImport;
+  }
+}
+
+export const mailImportService = new MailImportService();
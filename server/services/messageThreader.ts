@@ -0,0 +1,224 @@
+/**
+ * Message Threader
+ * JWZ threading (https://www.jwz.org/doc/threading.html) over Message-ID,
+ * In-Reply-To and References. Works on plain objects and has no database access.
+ *
+ * Subject grouping (step 5 of the algorithm) is deliberately left out: threads
+ * are built from headers only, so unrelated mail with the same subject stays apart.
+ */
+
+export interface ThreadableMessage {
+  messageId: string;
+  inReplyTo?: string | null;
+  messageReferences?: string[] | null;
+  timestamp: Date | string;
+}
+
+export interface ThreadNode<T> {
+  messageId: string;
+  // null for a message that is referenced but was never stored (a missing parent)
+  message: T | null;
+  children: ThreadNode<T>[];
+}
+
+export interface MessageThread<T> {
+  // Message-ID at the top of the reference chain, whether or not that message is stored.
+  // It stays the same when a missing parent arrives later.
+  rootKey: string;
+  root: ThreadNode<T>;
+  // Every stored message in the thread, oldest first
+  messages: T[];
+}
+
+interface Container<T> {
+  id: string;
+  message: T | null;
+  parent: Container<T> | null;
+  children: Container<T>[];
+}
+
+/**
+ * Normalize a Message-ID to its bracketed form, e.g. "abc@host" -> "<abc@host>"
+ */
+export function normalizeMessageId(value: string): string {
+  const trimmed = value.trim();
+  const bracketed = trimmed.match(/<[^<>\s]+>/);
+  return bracketed ? bracketed[0] : `<${trimmed}>`;
+}
+
+/**
+ * Pull the Message-IDs out of an In-Reply-To or References value
+ * (a raw header string or a list of ids), in order
+ */
+export function parseMessageIds(value: string | string[] | null | undefined): string[] {
+  const values = Array.isArray(value) ? value : value ? [value] : [];
+  const ids: string[] = [];
+
+  for (const entry of values) {
+    if (typeof entry !== 'string') continue;
+
+    const matches = entry.match(/<[^<>\s]+>/g);
+    if (matches) {
+      ids.push(...matches);
+    } else if (entry.trim() && !/\s/.test(entry.trim())) {
+      ids.push(`<${entry.trim()}>`);
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * Ancestors of a message, root first: References, with In-Reply-To as the direct parent
+ */
+export function referenceChain(message: ThreadableMessage): string[] {
+  const ownId = normalizeMessageId(message.messageId);
+  const chain = parseMessageIds(message.messageReferences || []);
+  const inReplyTo = parseMessageIds(message.inReplyTo)[0];
+
+  // Some clients only send In-Reply-To, or a References header that stops short of the parent
+  if (inReplyTo && chain[chain.length - 1] !== inReplyTo) {
+    chain.push(inReplyTo);
+  }
+
+  // Drop self-references and repeats, keeping the first occurrence
+  return chain.filter((id, index) => id !== ownId && chain.indexOf(id) === index);
+}
+
+function isAncestor<T>(ancestor: Container<T>, node: Container<T>): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (current === ancestor) return true;
+  }
+  return false;
+}
+
+function unlink<T>(child: Container<T>) {
+  if (!child.parent) return;
+  child.parent.children = child.parent.children.filter(sibling => sibling !== child);
+  child.parent = null;
+}
+
+function link<T>(parent: Container<T>, child: Container<T>) {
+  child.parent = parent;
+  parent.children.push(child);
+}
+
+function timeOf(message: ThreadableMessage): number {
+  return new Date(message.timestamp).getTime() || 0;
+}
+
+/**
+ * Drop empty containers, promoting their children. An empty root keeps its
+ * children unless it has only one, so siblings under a missing root stay together.
+ */
+function prune<T>(container: Container<T>): Container<T>[] {
+  const children = container.children.flatMap(prune);
+  container.children = children;
+  children.forEach(child => { child.parent = container; });
+
+  if (container.message) {
+    return [container];
+  }
+
+  if (children.length === 0) {
+    return [];
+  }
+
+  if (container.parent === null && children.length > 1) {
+    return [container];
+  }
+
+  return children;
+}
+
+/**
+ * Convert a container tree to thread nodes, ordering siblings by their earliest message
+ */
+function toNode<T extends ThreadableMessage>(container: Container<T>): { node: ThreadNode<T>; earliest: number } {
+  const children = container.children
+    .map(child => toNode(child))
+    .sort((a, b) => a.earliest - b.earliest);
+
+  const earliest = Math.min(
+    container.message ? timeOf(container.message) : Infinity,
+    ...children.map(child => child.earliest)
+  );
+
+  return {
+    node: {
+      messageId: container.id,
+      message: container.message,
+      children: children.map(child => child.node)
+    },
+    earliest
+  };
+}
+
+function collectMessages<T>(node: ThreadNode<T>, into: T[]): T[] {
+  if (node.message) into.push(node.message);
+  node.children.forEach(child => collectMessages(child, into));
+  return into;
+}
+
+/**
+ * Group messages into threads, oldest thread first
+ */
+export function threadMessages<T extends ThreadableMessage>(messages: T[]): MessageThread<T>[] {
+  const idTable = new Map<string, Container<T>>();
+  const duplicates: Container<T>[] = [];
+
+  const containerFor = (id: string): Container<T> => {
+    let container = idTable.get(id);
+    if (!container) {
+      container = { id, message: null, parent: null, children: [] };
+      idTable.set(id, container);
+    }
+    return container;
+  };
+
+  for (const message of messages) {
+    const id = normalizeMessageId(message.messageId);
+    let container = containerFor(id);
+
+    // A second message with the same Message-ID gets a container of its own
+    if (container.message) {
+      container = { id, message: null, parent: null, children: [] };
+      duplicates.push(container);
+    }
+    container.message = message;
+
+    // Link the reference chain pairwise, without overriding links made earlier
+    let previous: Container<T> | null = null;
+    for (const referenceId of referenceChain(message)) {
+      const reference = containerFor(referenceId);
+      if (previous && !reference.parent && reference !== previous && !isAncestor(reference, previous)) {
+        link(previous, reference);
+      }
+      previous = reference;
+    }
+
+    // The message's own headers decide its parent, replacing any guess made from other messages.
+    // Without references of its own, a parent inferred from another message's References is kept.
+    if (previous && previous !== container && previous !== container.parent && !isAncestor(container, previous)) {
+      unlink(container);
+      link(previous, container);
+    }
+  }
+
+  const roots = [...Array.from(idTable.values()), ...duplicates].filter(container => !container.parent);
+
+  return roots
+    .map(root => {
+      const rootKey = root.id;
+      const [pruned] = prune(root);
+      if (!pruned) return null;
+      pruned.parent = null;
+
+      const { node, earliest } = toNode(pruned);
+      const ordered = collectMessages(node, []).sort((a, b) => timeOf(a) - timeOf(b));
+      return { thread: { rootKey, root: node, messages: ordered }, earliest };
+    })
+    .filter((entry): entry is { thread: MessageThread<T>; earliest: number } => entry !== null)
+    .sort((a, b) => a.earliest - b.earliest)
+    .map(entry => entry.thread);
+}
@@ -0,0 +1,285 @@
+/**
+ * Mock LLM provider
+ *
+ * A deterministic, offline stand-in for a real provider, for tests, CI and
+ * demos. Embeddings are hashed bag-of-words vectors, so texts that share words
+ * land close together and semantic search still ranks sensibly. Completions
+ * come from scripted rules registered with setMockResponses, or else from
+ * built-in rules that recognise the app's task extraction, summary and
+ * question-answering prompts.
+ */
+import crypto from 'crypto';
+import type { LlmChatRequest, LlmChatResult, LlmMessage, LlmProvider } from './llmProvider';
+import { estimateTokens } from './usagePolicy';
+
+export const MOCK_EMBEDDING_DIMENSIONS = 768;
+
+/**
+ * A scripted completion: the first rule whose pattern matches the conversation
+ * (all messages joined) supplies the reply
+ */
+export interface MockRule {
+  match: RegExp | ((request: LlmChatRequest) => boolean);
+  reply: string | object | ((request: LlmChatRequest) => string | object);
+}
+
+let scriptedRules: MockRule[] = [];
+
+/**
+ * Script the mock's replies, checked before the built-in rules
+ */
+export function setMockResponses(rules: MockRule[]): void {
+  scriptedRules = [...rules];
+}
+
+export function resetMockResponses(): void {
+  scriptedRules = [];
+}
+
+// Words that carry no meaning for similarity
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'her', 'was', 'one', 'our',
+  'out', 'has', 'his', 'how', 'its', 'let', 'who', 'did', 'yes', 'she', 'him', 'too', 'use', 'this',
+  'that', 'with', 'have', 'from', 'they', 'will', 'would', 'there', 'their', 'what', 'about', 'which',
+  'when', 'your', 'been', 'were', 'into', 'than', 'then', 'them', 'these', 'some', 'just', 'also'
+]);
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(t => t.length > 2 && !STOP_WORDS.has(t));
+}
+
+/**
+ * Hash each word of the text into one of `dimensions` buckets with a ±1 sign and
+ * normalise to unit length. The same text always gives the same vector.
+ */
+export function hashEmbedding(text: string, dimensions: number = MOCK_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+
+  for (const token of tokenize(text)) {
+    const digest = crypto.createHash('sha256').update(token).digest();
+    const index = digest.readUInt32BE(0) % dimensions;
+    vector[index] += digest[4] & 1 ? 1 : -1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  // Text without any words still needs a usable, non-zero vector
+  if (norm === 0) {
+    return vector.fill(1 / Math.sqrt(dimensions));
+  }
+  return vector.map(v => v / norm);
+}
+
+// Phrases that make a sentence a request or commitment
+const ACTION_PATTERN = /\b(please|could you|can you|would you|need to|needs to|have to|must|make sure|remember to|don't forget|action required|deadline|due)\b/i;
+const HIGH_PRIORITY_PATTERN = /\b(urgent|asap|immediately|critical|today|eod)\b/i;
+const LOW_PRIORITY_PATTERN = /\b(when you get a chance|no rush|whenever|low priority)\b/i;
+const DEADLINE_PATTERN = /\b(?:by|before|due(?: on| by)?)\s+((?:next |this )?(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday|tomorrow|today|eod|end of (?:day|week|month)|week|\d{4}-\d{2}-\d{2})[^.,;!?\n]*)/i;
+const ISO_DATE_PATTERN = /\d{4}-\d{2}-\d{2}/;
+const MARKETING_PATTERN = /\b(unsubscribe|newsletter|% off|special offer|promotion|sale ends)\b/i;
+
+// Instruction and header lines the app puts in front of an email's body in its prompts
+const HEADER_LINE = /^\s*(from|to|subject|email subject|date|content|body|please analyze this email.*|extract .*|summari[sz]e .*):/i;
+
+function lastUserMessage(messages: LlmMessage[]): string {
+  return [...messages].reverse().find(m => m.role === 'user')?.content || '';
+}
+
+function systemPrompt(messages: LlmMessage[]): string {
+  return messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+}
+
+/**
+ * The email body from an extraction or summary prompt, without the header lines
+ */
+function emailBody(prompt: string): string {
+  return prompt
+    .split('\n')
+    .filter(line => !HEADER_LINE.test(line))
+    .join('\n')
+    .trim();
+}
+
+function sentences(text: string): string[] {
+  return text
+    .replace(/\s+/g, ' ')
+    // Break after sentence punctuation and before numbered list items
+    .replace(/([.!?])\s+/g, '$1\n')
+    .replace(/\s+(?=\d+\.\s)/g, '\n')
+    .split('\n')
+    .map(s => s.replace(/^\d+\.\s*/, '').trim())
+    .filter(s => s.length > 0);
+}
+
+function actionSentences(text: string): string[] {
+  return sentences(text).filter(s => ACTION_PATTERN.test(s) || (/\byou\b/i.test(s) && s.endsWith('?')));
+}
+
+// "Please send the report by Friday." -> "Send the report by Friday"
+function toTitle(sentence: string): string {
+  const words = sentence
+    .replace(/^(please|could you|can you|would you|you need to|we need to|i need you to|make sure to|remember to|don't forget to)\s+/i, '')
+    .replace(/[.!?]+$/, '')
+    .split(/\s+/)
+    .slice(0, 10)
+    .join(' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function priorityOf(sentence: string): 'high' | 'medium' | 'low' {
+  if (HIGH_PRIORITY_PATTERN.test(sentence)) return 'high';
+  if (LOW_PRIORITY_PATTERN.test(sentence)) return 'low';
+  return 'medium';
+}
+
+const ENHANCED_PRIORITIES = { high: 'P2_High', medium: 'P3_Medium', low: 'P4_Low' } as const;
+
+/**
+ * Tasks in the shape asked for by the prompt: the enhanced extraction's
+ * snake_case fields, the basic title/description/priority list, or a plain
+ * bulleted list when JSON wasn't asked for
+ */
+function extractTasks(request: LlmChatRequest): string | object {
+  const prompt = lastUserMessage(request.messages);
+  const body = emailBody(prompt);
+  const found = actionSentences(body);
+  const enhanced = systemPrompt(request.messages).includes('suggested_title');
+
+  if (!request.json && !enhanced) {
+    return found.length > 0 ? found.map(sentence => `- ${toTitle(sentence)}`).join('\n') : 'No tasks found.';
+  }
+
+  if (enhanced) {
+    if (found.length === 0) {
+      return MARKETING_PATTERN.test(body)
+        ? { email_classification: 'marketing_promotional', explanation: 'Promotional content with no requests' }
+        : { email_classification: 'non_actionable', explanation: 'No requests or deadlines found' };
+    }
+
+    return {
+      tasks: found.map(sentence => ({
+        suggested_title: toTitle(sentence),
+        detailed_description: sentence,
+        source_snippet: sentence,
+        actors_involved: [],
+        suggested_priority_level: ENHANCED_PRIORITIES[priorityOf(sentence)],
+        extracted_deadline_text: sentence.match(DEADLINE_PATTERN)?.[1].trim() || null,
+        suggested_category: /\bmeeting|schedule|call\b/i.test(sentence) ? 'Meeting_Coordination_Prep'
+          : /\breview|feedback|approve\b/i.test(sentence) ? 'Review_Approval_Feedback'
+          : /\breport|document|submit\b/i.test(sentence) ? 'Report_Generation_Submission'
+          : 'FollowUp_ResponseNeeded',
+        estimated_effort_minutes: 30,
+        is_recurring_hint: /\b(every|weekly|monthly|daily)\b/i.test(sentence),
+        reminder_suggestion_text: null,
+        confidence_in_task_extraction: 0.8
+      }))
+    };
+  }
+
+  return {
+    tasks: found.map(sentence => ({
+      title: toTitle(sentence),
+      description: sentence,
+      priority: priorityOf(sentence),
+      dueDate: sentence.match(ISO_DATE_PATTERN)?.[0] || null,
+      confidence: 0.8
+    }))
+  };
+}
+
+// The first two sentences of the email
+function summarize(request: LlmChatRequest): string {
+  const body = emailBody(lastUserMessage(request.messages));
+  return sentences(body).slice(0, 2).join(' ') || 'The email has no content to summarize.';
+}
+
+// The question in the app's email question-answering prompts
+function questionIn(prompt: string): string | undefined {
+  return prompt.match(/\n\s*Question:\s*([\s\S]*)$/)?.[1] ?? prompt.match(/answer this question:\s*"([^"]*)"/i)?.[1];
+}
+
+// Name the emails in the context that share the most words with the question
+function answer(request: LlmChatRequest, question: string): string {
+  const prompt = lastUserMessage(request.messages);
+  const questionWords = new Set(tokenize(question));
+  const subjects = (prompt.match(/^Subject: .*$/gm) || []).map(line => line.slice('Subject: '.length));
+  const relevant = subjects
+    .map(subject => ({ subject, score: tokenize(subject).filter(w => questionWords.has(w)).length }))
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  if (relevant.length === 0) {
+    return `I found ${subjects.length} emails but none that clearly answer the question.`;
+  }
+  return `The most relevant emails are: ${relevant.map(r => `"${r.subject}"`).join(', ')}.`;
+}
+
+// For other JSON prompts, return the list fields named in the example structure, empty
+function emptyJsonFor(request: LlmChatRequest): object {
+  const prompt = request.messages.map(m => m.content).join('\n');
+  const fields: Record<string, unknown[]> = {};
+  for (const field of prompt.match(/"\w+":\s*\[/g) || []) {
+    fields[field.slice(1, field.indexOf('"', 1))] = [];
+  }
+  return fields;
+}
+
+function builtInReply(request: LlmChatRequest): string | object {
+  const instructions = systemPrompt(request.messages) + '\n' + lastUserMessage(request.messages);
+
+  if (/extract[^.\n]*tasks|task extraction/i.test(instructions)) {
+    return extractTasks(request);
+  }
+  if (request.json) {
+    return emptyJsonFor(request);
+  }
+  if (/summari[sz]e/i.test(instructions)) {
+    return summarize(request);
+  }
+  const question = questionIn(lastUserMessage(request.messages));
+  if (question !== undefined) {
+    return answer(request, question);
+  }
+  return `Mock response to: ${lastUserMessage(request.messages).slice(0, 200)}`;
+}
+
+function matches(rule: MockRule, request: LlmChatRequest): boolean {
+  if (typeof rule.match === 'function') {
+    return rule.match(request);
+  }
+  return rule.match.test(request.messages.map(m => m.content).join('\n'));
+}
+
+export class MockProvider implements LlmProvider {
+  readonly name = 'mock' as const;
+
+  constructor(private dimensions: number = MOCK_EMBEDDING_DIMENSIONS) {}
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResult> {
+    const rule = scriptedRules.find(r => matches(r, request));
+    const reply = rule
+      ? typeof rule.reply === 'function' ? rule.reply(request) : rule.reply
+      : builtInReply(request);
+    const content = typeof reply === 'string' ? reply : JSON.stringify(reply);
+
+    return {
+      content,
+      provider: this.name,
+      model: request.model,
+      usage: {
+        promptTokens: estimateTokens(request.messages.map(m => m.content).join('')),
+        completionTokens: estimateTokens(content)
+      }
+    };
+  }
+
+  async *stream(request: LlmChatRequest): AsyncIterable<string> {
+    const { content } = await this.chat(request);
+    for (const piece of content.match(/\S+\s*/g) || []) {
+      yield piece;
+    }
+  }
+
+  async embed(model: string, input: string): Promise<number[]> {
+    return hashEmbedding(input, this.dimensions);
+  }
+}
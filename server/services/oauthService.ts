@@ -1,10 +1,12 @@
 import { google } from 'googleapis';
 import { db } from '../db';
 import { emailAccounts } from '@shared/schema';
-import { eq } from 'drizzle-orm';
-import CryptoJS from 'crypto-js';
+import { eq, and } from 'drizzle-orm';
+import axios from 'axios';
+import { decryptJson, encryptJson } from '../utils/encryption';
 
-const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'default-encryption-key';
+// Delegated Graph scopes for reading mail; offline_access returns a refresh token
+const MICROSOFT_SCOPES = ['offline_access', 'User.Read', 'Mail.ReadWrite'];
 
 /**
  * Service for handling OAuth authentication for email accounts
@@ -12,6 +14,7 @@ const ENCRYPTION_KEY = process.env.ENCRYPTION_KEY || 'default-encryption-key';
 export class OAuthService {
   // Redirect URL for OAuth flow
   private redirectUrl = process.env.OAUTH_REDIRECT_URL || 'http://localhost:5000/api/oauth/callback';
+  private microsoftRedirectUrl = process.env.MICROSOFT_OAUTH_REDIRECT_URL || 'http://localhost:5000/api/oauth/microsoft/callback';
   
   /**
    * Get OAuth URL for Gmail
@@ -41,7 +44,7 @@ export class OAuthService {
   /**
    * Handle Gmail OAuth callback
    */
-  async handleGmailOAuthCallback(code: string, state: string): Promise<any> {
+  async handleGmailOAuthCallback(code: string, state: string, userId: number): Promise<any> {
     try {
       // Verify and decode state
       const stateData = JSON.parse(Buffer.from(state, 'base64').toString());
@@ -51,6 +54,11 @@ export class OAuthService {
         throw new Error('Invalid OAuth state');
       }
       
+      // The state isn't signed, so it must belong to the user finishing the flow
+      if (stateData.userId !== userId) {
+        throw new Error('OAuth state belongs to a different user');
+      }
+      
       // Verify timestamp is not too old (prevent replay attacks)
       const stateAge = Date.now() - stateData.timestamp;
       if (stateAge > 3600000) { // 1 hour max
@@ -83,6 +91,7 @@ export class OAuthService {
           .set({
             authMethod: 'oauth',
             credentials: encryptedTokens,
+            needsReconsent: false,
             updatedAt: new Date()
           })
           .where(eq(emailAccounts.id, account.id));
@@ -114,6 +123,146 @@ export class OAuthService {
     }
   }
   
+  /**
+   * Get OAuth URL for Microsoft 365 (Graph)
+   */
+  getMicrosoftOAuthUrl(userId: number, emailAddress: string): string {
+    const { clientId } = this.getMicrosoftConfig();
+    
+    // Generate state token to verify callback
+    const state = Buffer.from(JSON.stringify({ 
+      userId, 
+      emailAddress, 
+      provider: 'microsoft',
+      timestamp: Date.now()
+    })).toString('base64');
+    
+    const params = new URLSearchParams({
+      client_id: clientId,
+      response_type: 'code',
+      redirect_uri: this.microsoftRedirectUrl,
+      response_mode: 'query',
+      scope: MICROSOFT_SCOPES.join(' '),
+      login_hint: emailAddress,
+      prompt: 'select_account',
+      state
+    });
+    
+    return `${this.getMicrosoftAuthority()}/oauth2/v2.0/authorize?${params.toString()}`;
+  }
+  
+  /**
+   * Handle Microsoft OAuth callback and create or update the outlook_graph account
+   */
+  async handleMicrosoftOAuthCallback(code: string, state: string, userId: number): Promise<any> {
+    try {
+      // Verify and decode state
+      const stateData = JSON.parse(Buffer.from(state, 'base64').toString());
+      
+      if (!stateData.userId || !stateData.emailAddress || stateData.provider !== 'microsoft') {
+        throw new Error('Invalid OAuth state');
+      }
+      
+      // The state isn't signed, so it must belong to the user finishing the flow
+      if (stateData.userId !== userId) {
+        throw new Error('OAuth state belongs to a different user');
+      }
+      
+      // Verify timestamp is not too old (prevent replay attacks)
+      const stateAge = Date.now() - stateData.timestamp;
+      if (stateAge > 3600000) { // 1 hour max
+        throw new Error('OAuth state expired');
+      }
+      
+      const tokens = await this.requestMicrosoftTokens({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.microsoftRedirectUrl
+      });
+      
+      const encryptedTokens = this.encryptOAuthTokens(tokens);
+      
+      const existingAccounts = await db
+        .select()
+        .from(emailAccounts)
+        .where(and(
+          eq(emailAccounts.emailAddress, stateData.emailAddress),
+          eq(emailAccounts.accountType, 'outlook_graph')
+        ));
+      
+      if (existingAccounts.length > 0) {
+        const account = existingAccounts[0];
+        
+        await db
+          .update(emailAccounts)
+          .set({
+            authMethod: 'oauth',
+            credentials: encryptedTokens,
+            needsReconsent: false,
+            updatedAt: new Date()
+          })
+          .where(eq(emailAccounts.id, account.id));
+          
+        return { accountId: account.id, email: stateData.emailAddress };
+      } else {
+        const displayName = `Microsoft 365 (${stateData.emailAddress})`;
+        
+        const [newAccount] = await db
+          .insert(emailAccounts)
+          .values({
+            userId: stateData.userId,
+            accountType: 'outlook_graph',
+            authMethod: 'oauth',
+            emailAddress: stateData.emailAddress,
+            displayName,
+            credentials: encryptedTokens,
+            isActive: true,
+            syncEnabled: true
+          })
+          .returning();
+          
+        return { accountId: newAccount.id, email: stateData.emailAddress };
+      }
+    } catch (error) {
+      console.error('Error handling Microsoft OAuth callback:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Get a usable access token for an OAuth account, refreshing it first if it has expired
+   */
+  async getAccessToken(accountId: number): Promise<string> {
+    const [account] = await db
+      .select()
+      .from(emailAccounts)
+      .where(eq(emailAccounts.id, accountId));
+    
+    if (!account) {
+      throw new Error(`Account with ID ${accountId} not found`);
+    }
+    
+    // Don't keep asking the provider for tokens it has already refused
+    if (account.needsReconsent) {
+      throw new Error(`Account ${accountId} needs to be reconnected: its OAuth consent has expired or been revoked`);
+    }
+    
+    const tokens = this.decryptOAuthTokens(account.credentials);
+    
+    // Treat tokens that expire within the next minute as already expired
+    const expired = !tokens.expiry_date || tokens.expiry_date - 60000 < Date.now();
+    if (tokens.access_token && !expired) {
+      return tokens.access_token;
+    }
+    
+    const refreshed = await this.refreshAccessToken(accountId);
+    if (!refreshed) {
+      throw new Error(`Could not refresh the access token for account ${accountId}`);
+    }
+    
+    return refreshed;
+  }
+  
   /**
    * Refresh OAuth access token
    */
@@ -139,7 +288,30 @@ export class OAuthService {
       const decryptedTokens = this.decryptOAuthTokens(account.credentials);
       
       if (!decryptedTokens.refresh_token) {
-        throw new Error('No refresh token available');
+        await this.markNeedsReconsent(accountId, 'no refresh token is stored');
+        return null;
+      }
+      
+      // Microsoft may rotate the refresh token, so keep whichever one it returns
+      if (account.accountType === 'outlook_graph') {
+        const tokens = await this.requestMicrosoftTokens({
+          grant_type: 'refresh_token',
+          refresh_token: decryptedTokens.refresh_token
+        });
+        
+        await db
+          .update(emailAccounts)
+          .set({
+            credentials: this.encryptOAuthTokens({
+              ...tokens,
+              refresh_token: tokens.refresh_token || decryptedTokens.refresh_token
+            }),
+            needsReconsent: false,
+            updatedAt: new Date()
+          })
+          .where(eq(emailAccounts.id, accountId));
+        
+        return tokens.access_token || null;
       }
       
       // Create OAuth client and refresh token
@@ -163,6 +335,7 @@ export class OAuthService {
         .update(emailAccounts)
         .set({
           credentials: encryptedTokens,
+          needsReconsent: false,
           updatedAt: new Date()
         })
         .where(eq(emailAccounts.id, accountId));
@@ -170,10 +343,29 @@ export class OAuthService {
       return credentials.access_token || null;
     } catch (error) {
       console.error('Error refreshing access token:', error);
+      
+      // A revoked or expired refresh token won't work again until the user signs in again;
+      // network errors and outages are left to the next attempt
+      if ((error as any)?.response?.data?.error === 'invalid_grant') {
+        await this.markNeedsReconsent(accountId, 'the provider rejected its refresh token');
+      }
+      
       return null;
     }
   }
   
+  /**
+   * Flag an account whose OAuth consent has to be given again
+   */
+  private async markNeedsReconsent(accountId: number, reason: string): Promise<void> {
+    console.log(`Account ${accountId} needs to be reconnected: ${reason}`);
+    
+    await db
+      .update(emailAccounts)
+      .set({ needsReconsent: true, updatedAt: new Date() })
+      .where(eq(emailAccounts.id, accountId));
+  }
+  
   /**
    * Create OAuth2 client for Google API
    */
@@ -188,12 +380,60 @@ export class OAuthService {
     return new google.auth.OAuth2(clientId, clientSecret, this.redirectUrl);
   }
   
+  /**
+   * Microsoft identity platform authority, e.g. https://login.microsoftonline.com/common
+   */
+  private getMicrosoftAuthority(): string {
+    const tenant = process.env.MICROSOFT_TENANT_ID || 'common';
+    return `${process.env.MICROSOFT_AUTHORITY_URL || 'https://login.microsoftonline.com'}/${tenant}`;
+  }
+  
+  private getMicrosoftConfig(): { clientId: string; clientSecret: string } {
+    const clientId = process.env.MICROSOFT_CLIENT_ID;
+    const clientSecret = process.env.MICROSOFT_CLIENT_SECRET;
+    
+    if (!clientId || !clientSecret) {
+      throw new Error('Microsoft OAuth credentials not configured');
+    }
+    
+    return { clientId, clientSecret };
+  }
+  
+  /**
+   * Exchange an authorization code or refresh token at the Microsoft token endpoint.
+   * Returns tokens in the same shape as the Google client (access_token, refresh_token, expiry_date).
+   */
+  private async requestMicrosoftTokens(grant: Record<string, string>): Promise<any> {
+    const { clientId, clientSecret } = this.getMicrosoftConfig();
+    
+    const response = await axios.post(
+      `${this.getMicrosoftAuthority()}/oauth2/v2.0/token`,
+      new URLSearchParams({
+        client_id: clientId,
+        client_secret: clientSecret,
+        scope: MICROSOFT_SCOPES.join(' '),
+        ...grant
+      }).toString(),
+      { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+    );
+    
+    const { access_token, refresh_token, expires_in } = response.data;
+    if (!access_token) {
+      throw new Error('No access token received');
+    }
+    
+    return {
+      access_token,
+      refresh_token,
+      expiry_date: Date.now() + (expires_in || 3600) * 1000
+    };
+  }
+  
   /**
    * Encrypt OAuth tokens for storage
    */
   private encryptOAuthTokens(tokens: any): string {
-    const tokenStr = JSON.stringify(tokens);
-    return CryptoJS.AES.encrypt(tokenStr, ENCRYPTION_KEY).toString();
+    return encryptJson(tokens);
   }
   
   /**
@@ -201,9 +441,7 @@ export class OAuthService {
    */
   private decryptOAuthTokens(encryptedTokens: any): any {
     try {
-      const bytes = CryptoJS.AES.decrypt(encryptedTokens, ENCRYPTION_KEY);
-      const decryptedStr = bytes.toString(CryptoJS.enc.Utf8);
-      return JSON.parse(decryptedStr);
+      return decryptJson(encryptedTokens);
     } catch (error) {
       console.error('Error decrypting OAuth tokens:', error);
       return {};
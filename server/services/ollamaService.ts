@@ -3,6 +3,8 @@
  * Provides integration with locally-hosted Ollama LLM server
  */
 import axios from 'axios';
+import { OllamaProvider } from './llmProvider';
+import { llmService } from './llmService';
 
 class OllamaService {
   private endpoint: string = 'http://localhost:11434';
@@ -134,15 +136,16 @@ class OllamaService {
   /**
    * Generate text completion with Ollama
    */
-  async generateCompletion(model: string, prompt: string, options: any = {}): Promise<string> {
+  async generateCompletion(model: string, prompt: string, options: { temperature?: number; max_tokens?: number } = {}): Promise<string> {
     try {
-      const response = await axios.post(`${this.endpoint}/api/generate`, {
+      const response = await new OllamaProvider(this.endpoint).chat({
         model,
-        prompt,
-        ...options
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature,
+        maxTokens: options.max_tokens
       });
       
-      return response.data.response || '';
+      return response.content;
     } catch (error) {
       console.error('Error generating completion with Ollama:', error);
       throw new Error('Failed to generate completion with Ollama');
@@ -150,16 +153,12 @@ class OllamaService {
   }
 
   /**
-   * Generate embedding vector for text using Ollama
+   * Generate embedding vector for text using Ollama, at the Ollama endpoint in the
+   * user's AI Settings and recorded in their usage
    */
-  async generateEmbedding(model: string, text: string): Promise<number[]> {
+  async generateEmbedding(userId: number, model: string, text: string, feature = 'embedding'): Promise<number[]> {
     try {
-      const response = await axios.post(`${this.endpoint}/api/embeddings`, {
-        model,
-        prompt: text
-      });
-      
-      return response.data.embedding || [];
+      return await llmService.embedWithModel(userId, { provider: 'ollama', modelId: model }, text, feature);
     } catch (error) {
       console.error('Error generating embedding with Ollama:', error);
       throw new Error('Failed to generate embedding with Ollama');
@@ -0,0 +1,232 @@
+/**
+ * Prompt Service
+ * The registry of versioned prompt templates used by the AI features, with
+ * per-user overrides from AI Settings
+ */
+import { db } from '../db';
+import { promptTemplates, promptTemplateVersions, PromptTemplate, PromptTemplateVersion } from '@shared/schema';
+import { and, desc, eq, isNull, max, or } from 'drizzle-orm';
+import type { LlmMessage } from './llmProvider';
+import { DEFAULT_PROMPTS } from './defaultPrompts';
+import { PromptValues, renderTemplate, templateProblems, unusedRequiredVariables, valueProblems } from './promptTemplates';
+
+export interface RenderedPrompt {
+  messages: LlmMessage[];
+  // Recorded with whatever the prompt produces
+  promptVersionId: number;
+  version: number;
+  isOverride: boolean;
+}
+
+export interface PromptTemplateSummary extends PromptTemplate {
+  defaultVersion: PromptTemplateVersion;
+  // The user's override, if they have one
+  override: PromptTemplateVersion | null;
+}
+
+export interface PromptOverrideInput {
+  systemTemplate: string | null;
+  userTemplate: string;
+  notes?: string | null;
+}
+
+class PromptService {
+  /**
+   * Add the built-in prompts that aren't in the registry yet
+   * @returns How many templates were added
+   */
+  async seedDefaults(): Promise<number> {
+    let seeded = 0;
+
+    for (const prompt of DEFAULT_PROMPTS) {
+      const [template] = await db
+        .insert(promptTemplates)
+        .values({ name: prompt.name, description: prompt.description, variables: prompt.variables })
+        .onConflictDoNothing({ target: promptTemplates.name })
+        .returning();
+
+      if (template) {
+        await db.insert(promptTemplateVersions).values({
+          templateId: template.id,
+          version: 1,
+          systemTemplate: prompt.system,
+          userTemplate: prompt.user,
+          notes: 'Built-in prompt'
+        });
+        seeded++;
+      }
+    }
+
+    return seeded;
+  }
+
+  private async getTemplate(name: string): Promise<PromptTemplate | undefined> {
+    const [template] = await db.select().from(promptTemplates).where(eq(promptTemplates.name, name));
+    return template;
+  }
+
+  private async latestVersion(templateId: number, userId: number | null): Promise<PromptTemplateVersion | undefined> {
+    const [version] = await db
+      .select()
+      .from(promptTemplateVersions)
+      .where(and(
+        eq(promptTemplateVersions.templateId, templateId),
+        userId === null ? isNull(promptTemplateVersions.userId) : eq(promptTemplateVersions.userId, userId),
+        isNull(promptTemplateVersions.retiredAt)
+      ))
+      .orderBy(desc(promptTemplateVersions.version))
+      .limit(1);
+    return version;
+  }
+
+  /**
+   * The version of a prompt a user gets: their override, or else the latest default
+   */
+  async getActiveVersion(userId: number, name: string): Promise<{ template: PromptTemplate; version: PromptTemplateVersion }> {
+    const template = await this.getTemplate(name);
+    if (!template) {
+      throw new Error(`Unknown prompt template: ${name}`);
+    }
+
+    const version = await this.latestVersion(template.id, userId) ?? await this.latestVersion(template.id, null);
+    if (!version) {
+      throw new Error(`Prompt template ${name} has no versions`);
+    }
+
+    return { template, version };
+  }
+
+  /**
+   * Fill in the user's version of a prompt, ready to send to their model
+   */
+  async render(userId: number, name: string, values: PromptValues): Promise<RenderedPrompt> {
+    const { template, version } = await this.getActiveVersion(userId, name);
+
+    const problems = valueProblems(values, template.variables);
+    if (problems.length > 0) {
+      throw new Error(`Invalid values for prompt ${name}: ${problems.join('; ')}`);
+    }
+
+    const messages: LlmMessage[] = [];
+    if (version.systemTemplate) {
+      messages.push({ role: 'system', content: renderTemplate(version.systemTemplate, values) });
+    }
+    messages.push({ role: 'user', content: renderTemplate(version.userTemplate, values) });
+
+    return {
+      messages,
+      promptVersionId: version.id,
+      version: version.version,
+      isOverride: version.userId !== null
+    };
+  }
+
+  /**
+   * Every template with its default and the user's override
+   */
+  async list(userId: number): Promise<PromptTemplateSummary[]> {
+    const templates = await db.select().from(promptTemplates).orderBy(promptTemplates.name);
+    const summaries: PromptTemplateSummary[] = [];
+
+    for (const template of templates) {
+      const defaultVersion = await this.latestVersion(template.id, null);
+      if (defaultVersion) {
+        summaries.push({ ...template, defaultVersion, override: await this.latestVersion(template.id, userId) ?? null });
+      }
+    }
+
+    return summaries;
+  }
+
+  /**
+   * The default versions of a prompt and the user's own, newest first
+   */
+  async history(userId: number, name: string): Promise<PromptTemplateVersion[] | undefined> {
+    const template = await this.getTemplate(name);
+    if (!template) {
+      return undefined;
+    }
+
+    return db
+      .select()
+      .from(promptTemplateVersions)
+      .where(and(
+        eq(promptTemplateVersions.templateId, template.id),
+        or(isNull(promptTemplateVersions.userId), eq(promptTemplateVersions.userId, userId))
+      ))
+      .orderBy(desc(promptTemplateVersions.version));
+  }
+
+  /**
+   * Save a new version of a prompt for the user. Templates that refer to unknown
+   * variables, are malformed or leave out a required variable aren't saved.
+   * @returns The new version, or the problems found; undefined for an unknown template
+   */
+  async saveOverride(
+    userId: number,
+    name: string,
+    input: PromptOverrideInput
+  ): Promise<{ version?: PromptTemplateVersion; problems: string[] } | undefined> {
+    const template = await this.getTemplate(name);
+    if (!template) {
+      return undefined;
+    }
+
+    const problems = [
+      ...templateProblems(input.systemTemplate || '', template.variables).map(p => `System prompt: ${p}`),
+      ...templateProblems(input.userTemplate, template.variables).map(p => `User prompt: ${p}`),
+      ...unusedRequiredVariables([input.systemTemplate, input.userTemplate], template.variables)
+        .map(v => `The prompt doesn't use {{${v}}}`)
+    ];
+    if (problems.length > 0) {
+      return { problems };
+    }
+
+    const [{ latest }] = await db
+      .select({ latest: max(promptTemplateVersions.version) })
+      .from(promptTemplateVersions)
+      .where(eq(promptTemplateVersions.templateId, template.id));
+
+    const [version] = await db
+      .insert(promptTemplateVersions)
+      .values({
+        templateId: template.id,
+        version: (latest ?? 0) + 1,
+        userId,
+        systemTemplate: input.systemTemplate || null,
+        userTemplate: input.userTemplate,
+        notes: input.notes || null
+      })
+      .returning();
+
+    console.log(`Saved version ${version.version} of prompt ${name} for user ${userId}`);
+    return { version, problems: [] };
+  }
+
+  /**
+   * Go back to the default prompt. The user's versions are kept so that what
+   * they produced still points at them.
+   * @returns Whether the user had an override
+   */
+  async resetOverride(userId: number, name: string): Promise<boolean> {
+    const template = await this.getTemplate(name);
+    if (!template) {
+      return false;
+    }
+
+    const retired = await db
+      .update(promptTemplateVersions)
+      .set({ retiredAt: new Date() })
+      .where(and(
+        eq(promptTemplateVersions.templateId, template.id),
+        eq(promptTemplateVersions.userId, userId),
+        isNull(promptTemplateVersions.retiredAt)
+      ))
+      .returning({ id: promptTemplateVersions.id });
+
+    return retired.length > 0;
+  }
+}
+
+// Create and export the service instance
+export const promptService = new PromptService();
@@ -0,0 +1,105 @@
+/**
+ * Prompt templates
+ *
+ * Prompts are stored as templates with declared, typed variables. A template
+ * uses {{name}} to insert a variable and {{#if name}}...{{else}}...{{/if}} to
+ * include text only when a variable is set; blocks can't be nested. Templates
+ * are checked against their declared variables before they are saved, and
+ * values are checked against the declared types before rendering.
+ */
+import type { PromptVariable } from '@shared/schema';
+
+export type PromptValue = string | number | boolean | null | undefined;
+export type PromptValues = Record<string, PromptValue>;
+
+const TAG = /\{\{([^{}]*)\}\}/g;
+const IF_BLOCK = /\{\{#if (\w+)\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g;
+const PLACEHOLDER = /\{\{(\w+)\}\}/g;
+
+/**
+ * Problems with a template: unknown variables, malformed tags and unbalanced
+ * blocks. An empty list means it can be saved.
+ */
+export function templateProblems(template: string, variables: PromptVariable[]): string[] {
+  const declared = new Set(variables.map(v => v.name));
+  const problems: string[] = [];
+  let inBlock = false;
+  let sawElse = false;
+
+  TAG.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG.exec(template)) !== null) {
+    const tag = match[1].trim();
+    const ifMatch = tag.match(/^#if (\w+)$/);
+
+    if (ifMatch) {
+      if (inBlock) problems.push('{{#if}} blocks can\'t be nested');
+      if (!declared.has(ifMatch[1])) problems.push(`Unknown variable "${ifMatch[1]}"`);
+      inBlock = true;
+      sawElse = false;
+    } else if (tag === 'else') {
+      if (!inBlock || sawElse) problems.push('{{else}} outside an {{#if}} block');
+      sawElse = true;
+    } else if (tag === '/if') {
+      if (!inBlock) problems.push('{{/if}} without a matching {{#if}}');
+      inBlock = false;
+    } else if (/^\w+$/.test(tag)) {
+      if (!declared.has(tag)) problems.push(`Unknown variable "${tag}"`);
+    } else {
+      problems.push(`Malformed tag "{{${match[1]}}}"`);
+    }
+  }
+
+  if (inBlock) {
+    problems.push('{{#if}} block is never closed');
+  }
+  return Array.from(new Set(problems));
+}
+
+/**
+ * Required variables that none of a prompt's templates use
+ */
+export function unusedRequiredVariables(templates: (string | null | undefined)[], variables: PromptVariable[]): string[] {
+  const text = templates.filter(Boolean).join('\n');
+  return variables
+    .filter(v => v.required && !new RegExp(`\\{\\{(#if )?${v.name}\\}\\}`).test(text))
+    .map(v => v.name);
+}
+
+/**
+ * Problems with the values given for a prompt's variables
+ */
+export function valueProblems(values: PromptValues, variables: PromptVariable[]): string[] {
+  const problems: string[] = [];
+
+  for (const variable of variables) {
+    const value = values[variable.name];
+    if (value === null || value === undefined) {
+      if (variable.required) problems.push(`Missing value for "${variable.name}"`);
+    } else if (typeof value !== variable.type) {
+      problems.push(`"${variable.name}" should be a ${variable.type}, got a ${typeof value}`);
+    }
+  }
+
+  Object.keys(values).forEach(name => {
+    if (!variables.some(v => v.name === name)) {
+      problems.push(`Unknown variable "${name}"`);
+    }
+  });
+  return problems;
+}
+
+/**
+ * Fill in a template. Values are assumed to have been checked with valueProblems.
+ */
+export function renderTemplate(template: string, values: PromptValues): string {
+  return template
+    .replace(IF_BLOCK, (_block, name: string, then: string, otherwise?: string) => values[name] ? then : otherwise ?? '')
+    .replace(PLACEHOLDER, (_tag, name: string) => {
+      const value = values[name];
+      return value === null || value === undefined ? '' : String(value);
+    })
+    // Blocks that were left out leave blank lines behind
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -1,70 +1,141 @@
-import { WebSocketServer } from 'ws';
-import { Server } from 'http';
+import { WebSocketServer, WebSocket } from 'ws';
+import { Server, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import type { Request, RequestHandler, Response } from 'express';
+import type Imap from 'node-imap';
 import { db } from '../db';
-import { emailAccounts } from '@shared/schema';
-import { eq } from 'drizzle-orm';
-import { gmailService } from './index';
+import { emailAccounts, EmailAccount } from '@shared/schema';
+import { and, eq } from 'drizzle-orm';
+import { emailService } from './emailService';
+import { imapService } from './imapService';
+import { IMAP_ACCOUNT_TYPES } from './accountSync';
+import { jobQueueService } from './jobQueueService';
 
-// Check for new emails every 2 minutes
-const CHECK_INTERVAL = 2 * 60 * 1000;
+// Poll interval for accounts that cannot hold an IDLE connection
+const POLL_INTERVAL = 2 * 60 * 1000;
 
+// Reconnect backoff: 5s doubling up to 5 minutes
+const RECONNECT_BASE_DELAY = 5 * 1000;
+const RECONNECT_MAX_DELAY = 5 * 60 * 1000;
+
+// How often the watched accounts are reconciled with the database
+const RECONCILE_INTERVAL = 5 * 60 * 1000;
+
+// Messages fetched per sync triggered by a push or poll
+const SYNC_LIMIT = 50;
+
+type WatchMode = 'connecting' | 'idle' | 'polling' | 'reconnecting' | 'stopped';
+
+interface AccountWatcher {
+  account: EmailAccount;
+  configKey: string;
+  mode: WatchMode;
+  imap: Imap | null;
+  timer: NodeJS.Timeout | null;
+  attempts: number;
+  lastSyncAt: Date | null;
+  lastError: string | null;
+}
+
+/**
+ * Delay before reconnect attempt `attempt` (0-based), with jitter so accounts
+ * on the same server do not reconnect in lockstep
+ */
+export function reconnectDelay(attempt: number): number {
+  const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** attempt, RECONNECT_MAX_DELAY);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Real-time email service
+ *
+ * Holds one IMAP IDLE connection per active Gmail/IMAP account and syncs the
+ * account as soon as the server announces new mail. Servers without IDLE and
+ * non-IMAP providers (EWS, Graph, JMAP) are polled instead. Syncs run as sync-account
+ * jobs on the job queue; every sync that stores new mail is pushed to clients on the
+ * /ws-mail WebSocket. Clients must be signed in and only hear about their own accounts.
+ */
 export class RealTimeEmailService {
   private wss: WebSocketServer | null = null;
-  private checkInterval: NodeJS.Timeout | null = null;
-  private isCheckingEmails = false;
+  private watchers = new Map<number, AccountWatcher>();
+  // Signed-in user of each connected client
+  private clientUsers = new Map<WebSocket, number>();
+  private reconcileInterval: NodeJS.Timeout | null = null;
 
   /**
    * Initialize the real-time email service with a WebSocket server
    * @param httpServer The HTTP server to attach the WebSocket server to
+   * @param sessionMiddleware The app's session middleware, used to find the signed-in user of an upgrade
    */
-  initialize(httpServer: Server) {
-    // Create WebSocket server for real-time updates
-    this.wss = new WebSocketServer({ 
-      server: httpServer, 
-      path: '/ws-mail' // Distinct path for email WebSocket
+  initialize(httpServer: Server, sessionMiddleware: RequestHandler) {
+    // Handle upgrades ourselves so other WebSocket servers on this HTTP server (e.g. Vite HMR) keep working
+    this.wss = new WebSocketServer({ noServer: true });
+
+    httpServer.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const { pathname } = new URL(req.url || '/', 'http://localhost');
+      if (pathname !== '/ws-mail' || !this.wss) return;
+
+      // Load the session from the upgrade request's cookie; nothing is written back
+      const request = req as Request;
+      sessionMiddleware(request, {} as Response, () => {
+        const userId = request.session?.user?.id;
+        if (!userId || !this.wss) {
+          socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+
+        this.wss.handleUpgrade(req, socket, head, (ws) => {
+          this.clientUsers.set(ws, userId);
+          this.wss?.emit('connection', ws, req);
+        });
+      });
     });
-    
+
     console.log('Real-time email monitoring service initialized');
-    
+
     // Set up WebSocket event handlers
     this.setupWebSocketHandlers();
-    
-    // Start periodic email checking
-    this.startEmailChecking();
-    
+
+    // Start watching accounts
+    this.start();
+
     return this.wss;
   }
-  
+
   /**
    * Set up WebSocket connection handlers
    */
   private setupWebSocketHandlers() {
     if (!this.wss) return;
-    
-    this.wss.on('connection', (ws) => {
-      console.log('Client connected to real-time email updates');
-      
-      // Send connection confirmation
+
+    this.wss.on('connection', (ws: WebSocket) => {
+      const userId = this.clientUsers.get(ws)!;
+      console.log(`Client connected to real-time email updates for user ${userId}`);
+
+      // Send connection confirmation along with the current state of the user's accounts
       ws.send(JSON.stringify({
         type: 'connected',
         message: 'Connected to real-time email updates',
+        accounts: this.getStatus(userId),
         timestamp: new Date().toISOString()
       }));
-      
+
       // Handle disconnection
       ws.on('close', () => {
+        this.clientUsers.delete(ws);
         console.log('Client disconnected from real-time email updates');
       });
-      
+
       // Handle incoming messages
       ws.on('message', (data) => {
         try {
           const message = JSON.parse(data.toString());
-          
+
           // Handle manual check request
           if (message.type === 'check_now') {
-            console.log('Manual email check requested by client');
-            this.checkForNewEmails();
+            console.log(`Manual email check requested by user ${userId}`);
+            this.checkAll(userId);
           }
         } catch (error) {
           console.error('Error processing WebSocket message:', error);
@@ -72,128 +143,334 @@ export class RealTimeEmailService {
       });
     });
   }
-  
+
   /**
-   * Start periodic email checking
+   * Start watching every active account and keep the set in step with the database
    */
-  private startEmailChecking() {
-    console.log(`Starting real-time email monitoring (every ${CHECK_INTERVAL/60000} minutes)`);
-    
-    // Initial check after 30 seconds
-    setTimeout(() => {
-      this.checkForNewEmails();
-      
-      // Then check periodically
-      this.checkInterval = setInterval(() => {
-        this.checkForNewEmails();
-      }, CHECK_INTERVAL);
-    }, 30 * 1000);
-  }
-  
+  start() {
+    if (this.reconcileInterval) {
+      clearInterval(this.reconcileInterval);
+    }
+
+    this.refreshAccounts();
+    this.reconcileInterval = setInterval(() => this.refreshAccounts(), RECONCILE_INTERVAL);
+  }
+
   /**
-   * Check all accounts for new emails
+   * Reconcile watchers with the active accounts in the database: watch new accounts,
+   * drop removed or disabled ones and reconnect accounts whose settings changed.
+   * Accounts waiting for the user to sign in again are not watched until they have.
    */
-  private async checkForNewEmails() {
-    // Prevent concurrent checks
-    if (this.isCheckingEmails) {
-      console.log('Email check already in progress, skipping');
-      return;
-    }
-    
-    this.isCheckingEmails = true;
-    console.log('Checking for new emails...');
-    
+  async refreshAccounts() {
     try {
-      // Get all active email accounts
-      const accounts = await db.select().from(emailAccounts)
-        .where(eq(emailAccounts.isActive, true));
-      
-      if (accounts.length === 0) {
-        console.log('No active email accounts for real-time monitoring');
-        return;
+      const accounts = await db
+        .select()
+        .from(emailAccounts)
+        .where(and(
+          eq(emailAccounts.isActive, true),
+          eq(emailAccounts.syncEnabled, true),
+          eq(emailAccounts.needsReconsent, false)
+        ));
+
+      const activeIds = new Set(accounts.map(account => account.id));
+
+      for (const accountId of Array.from(this.watchers.keys())) {
+        if (!activeIds.has(accountId)) {
+          this.unwatch(accountId);
+        }
       }
-      
-      let totalNewEmails = 0;
-      
-      // Check each account for new emails
+
       for (const account of accounts) {
-        try {
-          console.log(`Checking for new emails from ${account.emailAddress}`);
-          
-          // Use our existing service to fetch new emails
-          const result = await gmailService.fetchAndStoreEmails(
-            account.emailAddress,
-            account.userId,
-            25 // Limit to recent emails for real-time checks
-          );
-          
-          if (result.count > 0) {
-            totalNewEmails += result.count;
-            console.log(`Found ${result.count} new emails from ${account.emailAddress}`);
-            
-            // Broadcast update to all connected clients
-            this.broadcastUpdate({
-              type: 'new_emails',
-              count: result.count,
-              accountEmail: account.emailAddress,
-              accountId: account.id,
-              timestamp: new Date().toISOString()
-            });
-          }
-        } catch (error: any) {
-          console.error(`Error checking emails for ${account.emailAddress}:`, 
-            error?.message || 'Unknown error');
+        const existing = this.watchers.get(account.id);
+
+        if (existing && existing.configKey === this.configKey(account)) {
+          existing.account = account;
+          continue;
         }
+
+        if (existing) {
+          console.log(`Settings changed for ${account.emailAddress}, reconnecting`);
+          this.unwatch(account.id);
+        }
+
+        this.watch(account);
       }
-      
-      // Broadcast summary update
-      if (totalNewEmails > 0) {
-        console.log(`Real-time check complete: Found ${totalNewEmails} new emails`);
-        this.broadcastUpdate({
-          type: 'check_complete',
-          totalNewEmails,
-          timestamp: new Date().toISOString()
-        });
-      } else {
-        console.log('Real-time check complete: No new emails found');
+    } catch (error: any) {
+      console.error('Error refreshing watched email accounts:', error?.message || 'Unknown error');
+    }
+  }
+
+  /**
+   * Fields that require a new connection when they change
+   */
+  private configKey(account: EmailAccount): string {
+    return JSON.stringify([account.accountType, account.authMethod, account.credentials, account.serverSettings]);
+  }
+
+  private watch(account: EmailAccount) {
+    const watcher: AccountWatcher = {
+      account,
+      configKey: this.configKey(account),
+      mode: 'connecting',
+      imap: null,
+      timer: null,
+      attempts: 0,
+      lastSyncAt: null,
+      lastError: null
+    };
+
+    this.watchers.set(account.id, watcher);
+
+    if (IMAP_ACCOUNT_TYPES.includes(account.accountType)) {
+      this.connectIdle(watcher);
+    } else {
+      this.startPolling(watcher);
+    }
+  }
+
+  private unwatch(accountId: number) {
+    const watcher = this.watchers.get(accountId);
+    if (!watcher) return;
+
+    watcher.mode = 'stopped';
+    if (watcher.timer) {
+      clearTimeout(watcher.timer);
+      watcher.timer = null;
+    }
+
+    const imap = watcher.imap;
+    watcher.imap = null;
+    imap?.end();
+
+    this.watchers.delete(accountId);
+  }
+
+  /**
+   * Open an IDLE connection on the account's INBOX. openConnection hands back a
+   * connection that is already logged in; node-imap re-issues IDLE periodically on
+   * its own and emits 'mail' when the server reports new messages.
+   */
+  private async connectIdle(watcher: AccountWatcher) {
+    const { account } = watcher;
+    let imap: Imap;
+
+    this.setMode(watcher, 'connecting');
+
+    try {
+      const settings = imapService.resolveServerSettings(account);
+      // OAuth accounts get a fresh access token here, and another one if the login is rejected
+      imap = await imapService.openConnection(settings, await emailService.getImapCredentials(account));
+    } catch (error: any) {
+      watcher.lastError = error?.message || 'Unknown error';
+      console.error(`Cannot open IDLE connection for ${account.emailAddress}: ${watcher.lastError}`);
+      this.scheduleReconnect(watcher);
+      return;
+    }
+
+    // The account may have been unwatched while we were logging in
+    if (watcher.mode === 'stopped') {
+      imap.end();
+      return;
+    }
+
+    watcher.imap = imap;
+
+    if (!imap.serverSupports('IDLE')) {
+      console.log(`${account.emailAddress}: server does not support IDLE, falling back to polling`);
+      watcher.imap = null;
+      imap.end();
+      this.startPolling(watcher);
+      return;
+    }
+
+    imap.openBox('INBOX', true, (err) => {
+      if (err) {
+        watcher.lastError = err.message;
+        imap.end();
+        return;
+      }
+
+      console.log(`IDLE connection open for ${account.emailAddress}`);
+      watcher.attempts = 0;
+      watcher.lastError = null;
+      this.setMode(watcher, 'idle');
+
+      // Catch up on anything that arrived while we were disconnected
+      this.queueSync(watcher);
+    });
+
+    imap.on('mail', () => {
+      if (watcher.mode === 'idle') {
+        this.queueSync(watcher);
+      }
+    });
+
+    imap.on('error', (err: Error) => {
+      watcher.lastError = err.message;
+      console.error(`IDLE connection error for ${account.emailAddress}: ${err.message}`);
+    });
+
+    imap.once('close', () => {
+      // Ignore connections we closed on purpose or have already replaced
+      if (watcher.imap !== imap) return;
+      watcher.imap = null;
+
+      if (watcher.mode !== 'stopped' && watcher.mode !== 'polling') {
+        this.scheduleReconnect(watcher);
+      }
+    });
+  }
+
+  private scheduleReconnect(watcher: AccountWatcher) {
+    if (watcher.mode === 'stopped') return;
+
+    const delay = reconnectDelay(watcher.attempts);
+    watcher.attempts++;
+
+    console.log(`Reconnecting ${watcher.account.emailAddress} in ${Math.round(delay / 1000)}s (attempt ${watcher.attempts})`);
+    this.setMode(watcher, 'reconnecting');
+
+    watcher.timer = setTimeout(() => {
+      watcher.timer = null;
+      if (watcher.mode !== 'stopped') {
+        this.connectIdle(watcher);
       }
+    }, delay);
+  }
+
+  private startPolling(watcher: AccountWatcher) {
+    this.setMode(watcher, 'polling');
+    this.queueSync(watcher);
+
+    watcher.timer = setInterval(() => this.queueSync(watcher), POLL_INTERVAL);
+  }
+
+  /**
+   * Queue a sync of the account. Notifications that arrive while a sync is queued share it;
+   * one that arrives while a sync is running queues the next.
+   */
+  private async queueSync(watcher: AccountWatcher) {
+    const { account } = watcher;
+
+    try {
+      await jobQueueService.enqueue('sync-account', { accountId: account.id, limit: SYNC_LIMIT }, {
+        dedupeKey: `sync-account:${account.id}`
+      });
     } catch (error: any) {
-      console.error('Error in real-time email check:', error?.message || 'Unknown error');
-    } finally {
-      this.isCheckingEmails = false;
+      watcher.lastError = error?.message || 'Unknown error';
+      console.error(`Error queueing sync for ${account.emailAddress}:`, watcher.lastError);
+    }
+  }
+
+  /**
+   * Record a finished sync-account job and tell clients about any new mail
+   */
+  recordSync(account: EmailAccount, count: number) {
+    const watcher = this.watchers.get(account.id);
+    if (watcher) {
+      watcher.lastSyncAt = new Date();
+    }
+
+    if (count > 0) {
+      console.log(`Found ${count} new emails from ${account.emailAddress}`);
+
+      // Tell the account owner's connected clients
+      this.broadcastUpdate(account.userId, {
+        type: 'new_emails',
+        count,
+        accountEmail: account.emailAddress,
+        accountId: account.id,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Record a failed sync-account job; the queue retries it
+   */
+  recordSyncError(account: EmailAccount, error: unknown) {
+    const watcher = this.watchers.get(account.id);
+    const message = (error as Error)?.message || 'Unknown error';
+
+    if (watcher) {
+      watcher.lastError = message;
     }
+
+    console.error(`Error syncing emails for ${account.emailAddress}:`, message);
+  }
+
+  /**
+   * Sync every watched account of the user now
+   */
+  checkAll(userId: number) {
+    this.watchers.forEach(watcher => {
+      if (watcher.account.userId === userId) {
+        this.queueSync(watcher);
+      }
+    });
+  }
+
+  private setMode(watcher: AccountWatcher, mode: WatchMode) {
+    if (watcher.mode === mode || watcher.mode === 'stopped') return;
+    watcher.mode = mode;
+
+    this.broadcastUpdate(watcher.account.userId, {
+      type: 'sync_status',
+      accountId: watcher.account.id,
+      accountEmail: watcher.account.emailAddress,
+      mode,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Current connection state of the user's watched accounts
+   */
+  getStatus(userId: number) {
+    return Array.from(this.watchers.values())
+      .filter(watcher => watcher.account.userId === userId)
+      .map(watcher => ({
+        accountId: watcher.account.id,
+        accountEmail: watcher.account.emailAddress,
+        mode: watcher.mode,
+        lastSyncAt: watcher.lastSyncAt?.toISOString() || null,
+        lastError: watcher.lastError
+      }));
   }
-  
+
   /**
-   * Broadcast an update to all connected WebSocket clients
+   * Send an update to the user's connected WebSocket clients
    */
-  private broadcastUpdate(data: any) {
+  private broadcastUpdate(userId: number, data: any) {
     if (!this.wss) return;
-    
+
     this.wss.clients.forEach((client) => {
-      if (client.readyState === 1) { // WebSocket.OPEN
+      if (client.readyState === WebSocket.OPEN && this.clientUsers.get(client) === userId) {
         client.send(JSON.stringify(data));
       }
     });
   }
-  
+
   /**
-   * Stop the email checking service
+   * Stop watching all accounts and close the WebSocket server
    */
   stop() {
-    if (this.checkInterval) {
-      clearInterval(this.checkInterval);
-      this.checkInterval = null;
+    if (this.reconcileInterval) {
+      clearInterval(this.reconcileInterval);
+      this.reconcileInterval = null;
     }
-    
+
+    Array.from(this.watchers.keys()).forEach(accountId => this.unwatch(accountId));
+
     if (this.wss) {
       this.wss.close();
       this.wss = null;
     }
-    
+    this.clientUsers.clear();
+
     console.log('Real-time email monitoring service stopped');
   }
 }
 
 // Create and export a singleton instance
-export const realTimeEmailService = new RealTimeEmailService();
\ No newline at end of file
+export const realTimeEmailService = new RealTimeEmailService();
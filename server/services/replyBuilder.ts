@@ -0,0 +1,101 @@
+/**
+ * Reply Builder
+ * Builds the recipients, subject, quoted text and threading headers of a reply,
+ * reply-all or forward from a stored email. Works on plain objects and has no database access.
+ */
+import type { Email } from '@shared/schema';
+import { normalizeMessageId, referenceChain } from './messageThreader';
+
+export type ReplyMode = 'reply' | 'reply_all' | 'forward';
+
+export interface ReplyFields {
+  to: string[];
+  cc: string[] | null;
+  subject: string;
+  body: string;
+  inReplyTo: string | null;
+  messageReferences: string[];
+}
+
+type SourceEmail = Pick<Email, 'messageId' | 'inReplyTo' | 'messageReferences' | 'sender' | 'recipients' | 'subject' | 'body' | 'timestamp' | 'metadata'>;
+
+/**
+ * Bare address of a recipient, e.g. "Ann <ann@example.com>" -> "ann@example.com"
+ */
+function addressOf(recipient: string): string {
+  const match = recipient.match(/<([^>]+)>/);
+  return (match ? match[1] : recipient).trim().toLowerCase();
+}
+
+/**
+ * Drop empty entries, the account's own address and repeats (by address)
+ */
+function uniqueRecipients(recipients: string[], exclude: string[]): string[] {
+  const seen = new Set(exclude.map(addressOf));
+  const result: string[] = [];
+
+  for (const recipient of recipients) {
+    const address = addressOf(recipient);
+    if (!address || seen.has(address)) continue;
+    seen.add(address);
+    result.push(recipient.trim());
+  }
+
+  return result;
+}
+
+function prefixSubject(prefix: 'Re' | 'Fwd', subject: string): string {
+  const pattern = prefix === 'Re' ? /^re:/i : /^(fwd?|fw):/i;
+  return pattern.test(subject.trim()) ? subject.trim() : `${prefix}: ${subject.trim()}`;
+}
+
+function quoteBody(email: SourceEmail): string {
+  const quoted = (email.body || '').split('\n').map(line => `> ${line}`).join('\n');
+  return `\n\nOn ${new Date(email.timestamp).toUTCString()}, ${email.sender} wrote:\n${quoted}`;
+}
+
+function forwardedBody(email: SourceEmail): string {
+  return [
+    '',
+    '',
+    '---------- Forwarded message ---------',
+    `From: ${email.sender}`,
+    `Date: ${new Date(email.timestamp).toUTCString()}`,
+    `Subject: ${email.subject}`,
+    `To: ${email.recipients.join(', ')}`,
+    '',
+    email.body || ''
+  ].join('\n');
+}
+
+/**
+ * Fill in a reply to `email` as seen from the account with address `selfAddress`
+ */
+export function buildReply(email: SourceEmail, selfAddress: string, mode: ReplyMode): ReplyFields {
+  const metadata = (email.metadata || {}) as any;
+  const sentBySelf = addressOf(email.sender) === addressOf(selfAddress);
+
+  let to: string[] = [];
+  let cc: string[] = [];
+
+  if (mode !== 'forward') {
+    // Replying to a message we sent goes back to its recipients
+    to = sentBySelf ? uniqueRecipients(email.recipients, [selfAddress]) : [email.sender];
+
+    if (mode === 'reply_all') {
+      const originalCc: string[] = Array.isArray(metadata.cc) ? metadata.cc : [];
+      cc = uniqueRecipients([...email.recipients, ...originalCc], [selfAddress, ...to]);
+    }
+  }
+
+  return {
+    to,
+    cc: cc.length > 0 ? cc : null,
+    subject: prefixSubject(mode === 'forward' ? 'Fwd' : 'Re', email.subject),
+    body: mode === 'forward' ? forwardedBody(email) : quoteBody(email),
+    // Forwards start a new message but keep References so they stay in the conversation
+    inReplyTo: mode === 'forward' ? null : normalizeMessageId(email.messageId),
+    // A reply's References are the original's References plus the original itself
+    messageReferences: [...referenceChain(email), normalizeMessageId(email.messageId)]
+  };
+}
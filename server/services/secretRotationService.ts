@@ -0,0 +1,117 @@
+import { db } from '../db';
+import { aiSettings, emailAccounts, users } from '@shared/schema';
+import { eq, isNotNull } from 'drizzle-orm';
+import { encryptData, isEncrypted, needsReEncryption, reEncrypt } from '../utils/encryption';
+import { AI_API_KEY_FIELDS } from '../utils/aiApiKeys';
+
+// Fields that Exchange and JMAP accounts encrypt one by one inside a credentials object
+const CREDENTIAL_SECRET_FIELDS = ['password', 'accessToken', 'refreshToken'];
+
+export interface ReEncryptionResult {
+  table: string;
+  scanned: number;
+  updated: number;
+}
+
+/**
+ * Service for rewriting stored secrets with the active encryption key: two-factor
+ * secrets, email account credentials and AI provider API keys. Values in the old
+ * formats or sealed with a retired key are re-encrypted, plain-text API keys are
+ * encrypted, and anything already current is left alone, so it is safe to re-run.
+ */
+class SecretRotationService {
+  async reEncryptAll(): Promise<ReEncryptionResult[]> {
+    return [
+      await this.reEncryptTotpSecrets(),
+      await this.reEncryptAccountCredentials(),
+      await this.reEncryptAiApiKeys()
+    ];
+  }
+
+  private async reEncryptTotpSecrets(): Promise<ReEncryptionResult> {
+    const rows = await db
+      .select({ id: users.id, totpSecret: users.totpSecret })
+      .from(users)
+      .where(isNotNull(users.totpSecret));
+
+    let updated = 0;
+    for (const row of rows) {
+      if (needsReEncryption(row.totpSecret!)) {
+        await db.update(users).set({ totpSecret: reEncrypt(row.totpSecret!) }).where(eq(users.id, row.id));
+        updated++;
+      }
+    }
+
+    return { table: 'users', scanned: rows.length, updated };
+  }
+
+  private async reEncryptAccountCredentials(): Promise<ReEncryptionResult> {
+    const rows = await db
+      .select({ id: emailAccounts.id, credentials: emailAccounts.credentials })
+      .from(emailAccounts);
+
+    let updated = 0;
+    for (const row of rows) {
+      const credentials = this.reEncryptCredentials(row.credentials);
+      if (credentials !== row.credentials) {
+        await db.update(emailAccounts).set({ credentials }).where(eq(emailAccounts.id, row.id));
+        updated++;
+      }
+    }
+
+    return { table: 'email_accounts', scanned: rows.length, updated };
+  }
+
+  // Returns the same value when nothing needed rewriting
+  private reEncryptCredentials(credentials: unknown): unknown {
+    if (typeof credentials === 'string') {
+      return isEncrypted(credentials) && needsReEncryption(credentials) ? reEncrypt(credentials) : credentials;
+    }
+
+    if (!credentials || typeof credentials !== 'object') {
+      return credentials;
+    }
+
+    const fields = { ...credentials as Record<string, unknown> };
+    let changed = false;
+    for (const field of CREDENTIAL_SECRET_FIELDS) {
+      const value = fields[field];
+      if (typeof value === 'string' && isEncrypted(value) && needsReEncryption(value)) {
+        fields[field] = reEncrypt(value);
+        changed = true;
+      }
+    }
+
+    return changed ? fields : credentials;
+  }
+
+  private async reEncryptAiApiKeys(): Promise<ReEncryptionResult> {
+    const rows = await db.select().from(aiSettings);
+
+    let updated = 0;
+    for (const row of rows) {
+      const changes: Partial<Record<typeof AI_API_KEY_FIELDS[number], string>> = {};
+      for (const field of AI_API_KEY_FIELDS) {
+        const value = row[field];
+        if (!value) continue;
+
+        if (!isEncrypted(value)) {
+          // Stored before API keys were encrypted
+          changes[field] = encryptData(value);
+        } else if (needsReEncryption(value)) {
+          changes[field] = reEncrypt(value);
+        }
+      }
+
+      if (Object.keys(changes).length > 0) {
+        await db.update(aiSettings).set(changes).where(eq(aiSettings.id, row.id));
+        updated++;
+      }
+    }
+
+    return { table: 'ai_settings', scanned: rows.length, updated };
+  }
+}
+
+// Create and export the service instance
+export const secretRotationService = new SecretRotationService();
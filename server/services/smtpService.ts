@@ -0,0 +1,165 @@
+/**
+ * SMTP Service
+ * Sends mail over SMTP with nodemailer, using the same credentials as the account's mailbox
+ */
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import type { EmailAccount } from '@shared/schema';
+import type { ImapCredentials } from './imapService';
+
+export type SmtpTlsMode = 'tls' | 'starttls' | 'none';
+
+export interface SmtpServerSettings {
+  host: string;
+  port: number;
+  tlsMode: SmtpTlsMode;
+  username?: string;
+  // Certificates are verified unless the account opts out, e.g. for a self-signed server
+  rejectUnauthorized?: boolean;
+}
+
+export interface OutgoingMessage {
+  from: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  text: string;
+  inReplyTo?: string | null;
+  references?: string[] | null;
+}
+
+export interface SentMessage {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+}
+
+// Gmail accounts don't carry server settings, so they use this preset
+const GMAIL_SMTP_SETTINGS: SmtpServerSettings = {
+  host: 'smtp.gmail.com',
+  port: 465,
+  tlsMode: 'tls'
+};
+
+const TLS_MODES: SmtpTlsMode[] = ['tls', 'starttls', 'none'];
+
+function addressOf(recipient: string | { address?: string }): string {
+  return typeof recipient === 'string' ? recipient : recipient.address || '';
+}
+
+class SmtpService {
+  /**
+   * Validate and normalize raw SMTP settings submitted with an account
+   */
+  normalizeSmtpSettings(raw: any): SmtpServerSettings {
+    if (!raw || typeof raw !== 'object' || !raw.host) {
+      throw new Error('SMTP host is required');
+    }
+
+    const tlsMode: SmtpTlsMode = TLS_MODES.includes(raw.tlsMode) ? raw.tlsMode : 'starttls';
+    const port = raw.port ? parseInt(raw.port, 10) : (tlsMode === 'tls' ? 465 : 587);
+
+    if (isNaN(port) || port <= 0 || port > 65535) {
+      throw new Error(`Invalid SMTP port: ${raw.port}`);
+    }
+
+    return {
+      host: String(raw.host).trim(),
+      port,
+      tlsMode,
+      username: raw.username ? String(raw.username).trim() : undefined,
+      rejectUnauthorized: raw.rejectUnauthorized !== false
+    };
+  }
+
+  /**
+   * Resolve the SMTP server for an account: the `smtp` block of its server settings,
+   * Gmail's submission server, or for generic IMAP the smtp.* host next to the imap.* host
+   */
+  resolveSmtpSettings(account: Pick<EmailAccount, 'accountType' | 'serverSettings'>): SmtpServerSettings {
+    const stored = (account.serverSettings || {}) as any;
+
+    if (stored.smtp?.host) {
+      return this.normalizeSmtpSettings(stored.smtp);
+    }
+
+    switch (account.accountType) {
+      case 'gmail':
+        return GMAIL_SMTP_SETTINGS;
+      case 'imap':
+        if (typeof stored.host === 'string' && stored.host.startsWith('imap.')) {
+          return {
+            host: `smtp.${stored.host.slice('imap.'.length)}`,
+            port: 587,
+            tlsMode: 'starttls',
+            username: stored.username,
+            rejectUnauthorized: stored.rejectUnauthorized !== false
+          };
+        }
+        throw new Error('No SMTP server is configured for this account');
+      case 'exchange':
+        throw new Error('No SMTP server is configured for this Exchange account');
+      default:
+        throw new Error(`Sending mail is not supported for ${account.accountType} accounts`);
+    }
+  }
+
+  /**
+   * Generate a Message-ID in the sender's domain, so the sent copy can be recorded under it
+   */
+  generateMessageId(from: string): string {
+    const domain = from.match(/@([^>\s]+)/)?.[1] || 'localhost';
+    return `<${crypto.randomUUID()}@${domain}>`;
+  }
+
+  /**
+   * Send a message. In-Reply-To and References are set from the message so replies thread in every client.
+   */
+  async send(settings: SmtpServerSettings, credentials: ImapCredentials, message: OutgoingMessage): Promise<SentMessage> {
+    const user = settings.username || credentials.user;
+
+    const transport = nodemailer.createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.tlsMode === 'tls',
+      requireTLS: settings.tlsMode === 'starttls',
+      ignoreTLS: settings.tlsMode === 'none',
+      tls: { rejectUnauthorized: settings.rejectUnauthorized ?? true },
+      auth: credentials.accessToken
+        ? { type: 'OAuth2', user, accessToken: credentials.accessToken }
+        : credentials.password
+          ? { user, pass: credentials.password }
+          : undefined,
+      connectionTimeout: 30000
+    });
+
+    try {
+      const messageId = this.generateMessageId(message.from);
+
+      const info = await transport.sendMail({
+        messageId,
+        from: message.from,
+        to: message.to,
+        cc: message.cc?.length ? message.cc : undefined,
+        bcc: message.bcc?.length ? message.bcc : undefined,
+        subject: message.subject,
+        text: message.text,
+        inReplyTo: message.inReplyTo || undefined,
+        references: message.references?.length ? message.references : undefined
+      });
+
+      console.log(`Sent message ${messageId} via ${settings.host}:${settings.port}`);
+
+      return {
+        messageId,
+        accepted: (info.accepted || []).map(addressOf),
+        rejected: (info.rejected || []).map(addressOf)
+      };
+    } finally {
+      transport.close();
+    }
+  }
+}
+
+export const smtpService = new SmtpService();
@@ -0,0 +1,134 @@
+import { db } from '../db';
+import { emailSyncState, EmailSyncState } from '@shared/schema';
+import { and, eq } from 'drizzle-orm';
+import type { ImapSyncCursor } from './imapService';
+
+/**
+ * Service for reading and persisting per-folder sync cursors
+ */
+class SyncStateService {
+  /**
+   * Get the stored sync cursor for an account folder, or null if it was never synced
+   */
+  async getCursor(accountId: number, folder: string): Promise<ImapSyncCursor | null> {
+    const [state] = await db
+      .select()
+      .from(emailSyncState)
+      .where(and(eq(emailSyncState.accountId, accountId), eq(emailSyncState.folder, folder)));
+
+    if (!state) {
+      return null;
+    }
+
+    return {
+      uidValidity: state.uidValidity,
+      lastUid: state.lastUid,
+      highestModseq: state.highestModseq,
+      failedUids: state.failedUids
+    };
+  }
+
+  /**
+   * Persist the sync cursor for an account folder after a successful sync
+   */
+  async saveCursor(accountId: number, folder: string, cursor: ImapSyncCursor, backfillCompleted = false): Promise<void> {
+    const now = new Date();
+
+    await db
+      .insert(emailSyncState)
+      .values({
+        accountId,
+        folder,
+        uidValidity: cursor.uidValidity,
+        lastUid: cursor.lastUid,
+        highestModseq: cursor.highestModseq,
+        failedUids: cursor.failedUids,
+        lastSyncedAt: now,
+        backfillCompletedAt: backfillCompleted ? now : null
+      })
+      .onConflictDoUpdate({
+        target: [emailSyncState.accountId, emailSyncState.folder],
+        set: {
+          uidValidity: cursor.uidValidity,
+          lastUid: cursor.lastUid,
+          highestModseq: cursor.highestModseq,
+          failedUids: cursor.failedUids,
+          lastSyncedAt: now,
+          ...(backfillCompleted ? { backfillCompletedAt: now } : {}),
+          updatedAt: now
+        }
+      });
+  }
+
+  /**
+   * Get the opaque provider sync token (EWS SyncState or Graph delta link) for an account folder
+   */
+  async getSyncToken(accountId: number, folder: string): Promise<string | null> {
+    const [state] = await db
+      .select({ syncToken: emailSyncState.syncToken })
+      .from(emailSyncState)
+      .where(and(eq(emailSyncState.accountId, accountId), eq(emailSyncState.folder, folder)));
+
+    return state?.syncToken || null;
+  }
+
+  /**
+   * Persist the opaque provider sync token for an account folder after a successful sync
+   */
+  async saveSyncToken(accountId: number, folder: string, syncToken: string, backfillCompleted = false): Promise<void> {
+    const now = new Date();
+
+    await db
+      .insert(emailSyncState)
+      .values({
+        accountId,
+        folder,
+        syncToken,
+        lastSyncedAt: now,
+        backfillCompletedAt: backfillCompleted ? now : null
+      })
+      .onConflictDoUpdate({
+        target: [emailSyncState.accountId, emailSyncState.folder],
+        set: {
+          syncToken,
+          lastSyncedAt: now,
+          ...(backfillCompleted ? { backfillCompletedAt: now } : {}),
+          updatedAt: now
+        }
+      });
+  }
+
+  /**
+   * When an account folder was last synced, or null if it never was
+   */
+  async getLastSyncedAt(accountId: number, folder: string): Promise<Date | null> {
+    const [state] = await db
+      .select({ lastSyncedAt: emailSyncState.lastSyncedAt })
+      .from(emailSyncState)
+      .where(and(eq(emailSyncState.accountId, accountId), eq(emailSyncState.folder, folder)));
+
+    return state?.lastSyncedAt || null;
+  }
+
+  /**
+   * Get the sync state of every folder of an account
+   */
+  async getAccountState(accountId: number): Promise<EmailSyncState[]> {
+    return db
+      .select()
+      .from(emailSyncState)
+      .where(eq(emailSyncState.accountId, accountId));
+  }
+
+  /**
+   * Forget all sync cursors for an account so the next sync starts from scratch
+   */
+  async resetAccount(accountId: number): Promise<void> {
+    await db
+      .delete(emailSyncState)
+      .where(eq(emailSyncState.accountId, accountId));
+  }
+}
+
+// Create and export the service instance
+export const syncStateService = new SyncStateService();
@@ -42,7 +42,7 @@ export class TaskEmbeddingService {
       }
 
       // Generate the embedding
-      const embedding = await aiService.generateEmbedding(taskText);
+      const embedding = await aiService.generateEmbedding(taskText, { userId: task.userId, feature: "task-embedding" });
       
       // Format the vector string properly for pgvector with 768 dimensions
       const vectorString = `[${embedding.join(',')}]`;
@@ -105,7 +105,7 @@ export class TaskEmbeddingService {
           }
 
           // Generate the embedding
-          const embedding = await aiService.generateEmbedding(taskText);
+          const embedding = await aiService.generateEmbedding(taskText, { userId: task.userId, feature: "task-embedding" });
           
           // Format the vector string properly for pgvector with 768 dimensions
           const vectorString = `[${embedding.join(',')}]`;
@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { emails } from '@shared/schema';
+import { and, asc, eq, inArray, isNotNull, isNull, ne, or, sql } from 'drizzle-orm';
+import { threadMessages, referenceChain, normalizeMessageId } from './messageThreader';
+import { inUserAccounts } from '../storage';
+
+// Prefix of thread ids assigned from headers, so they are never confused with provider conversation ids
+const HEADER_THREAD_PREFIX = 'hdr-';
+
+// Columns returned for each message of a thread
+const threadMessageColumns = {
+  id: emails.id,
+  accountId: emails.accountId,
+  messageId: emails.messageId,
+  inReplyTo: emails.inReplyTo,
+  messageReferences: emails.messageReferences,
+  threadId: emails.threadId,
+  sender: emails.sender,
+  recipients: emails.recipients,
+  subject: emails.subject,
+  body: emails.body,
+  bodyHtml: emails.bodyHtml,
+  folder: emails.folder,
+  labels: emails.labels,
+  timestamp: emails.timestamp,
+  isRead: emails.isRead
+};
+
+/**
+ * Thread id for a conversation whose top message has the given Message-ID
+ */
+export function headerThreadId(accountId: number, rootMessageId: string): string {
+  const hash = crypto.createHash('sha1').update(`${accountId}:${rootMessageId}`).digest('hex');
+  return `${HEADER_THREAD_PREFIX}${hash.slice(0, 24)}`;
+}
+
+/**
+ * Service that groups emails into conversations
+ *
+ * Gmail, EWS and Graph messages carry the provider's conversation id. Everything else
+ * (generic IMAP, imported mail) is threaded from its Message-ID, In-Reply-To and
+ * References headers, so replies land in the same thread as the message they answer.
+ */
+export class ThreadService {
+  /**
+   * Give a newly stored email without a provider thread id the thread of the messages it
+   * replies to or that reply to it. When it connects threads that were apart so far
+   * (a missing parent arriving), those threads are merged into one.
+   */
+  async assignThread(emailId: number): Promise<string | null> {
+    const [email] = await db.select(threadMessageColumns).from(emails).where(eq(emails.id, emailId));
+    if (!email) return null;
+    if (email.threadId) return email.threadId;
+
+    const ownId = normalizeMessageId(email.messageId);
+    const ancestors = referenceChain(email);
+
+    // Stored messages this one refers to, and stored replies that refer to this one
+    const related = await db
+      .select({ threadId: emails.threadId })
+      .from(emails)
+      .where(and(
+        eq(emails.accountId, email.accountId),
+        ne(emails.id, email.id),
+        isNotNull(emails.threadId),
+        or(
+          ancestors.length > 0 ? inArray(emails.messageId, ancestors) : undefined,
+          eq(emails.inReplyTo, ownId),
+          sql`${emails.messageReferences} @> ARRAY[${ownId}]::text[]`
+        )
+      ))
+      .orderBy(asc(emails.timestamp));
+
+    const relatedThreadIds = Array.from(new Set(related.map(row => row.threadId as string)));
+    const threadId = relatedThreadIds[0] || headerThreadId(email.accountId, ancestors[0] || ownId);
+
+    await db.update(emails).set({ threadId }).where(eq(emails.id, email.id));
+
+    // Only header-based threads are merged; provider conversation ids are left as they are
+    const mergedThreadIds = relatedThreadIds.filter(id => id !== threadId && id.startsWith(HEADER_THREAD_PREFIX));
+    if (mergedThreadIds.length > 0) {
+      await db.update(emails)
+        .set({ threadId })
+        .where(and(eq(emails.accountId, email.accountId), inArray(emails.threadId, mergedThreadIds)));
+      console.log(`Merged threads ${mergedThreadIds.join(', ')} into ${threadId}`);
+    }
+
+    return threadId;
+  }
+
+  /**
+   * Thread every email that has no thread id yet, one account at a time.
+   * Messages in a thread that already has an id (from the provider or an earlier run) join it.
+   */
+  async backfillThreads(accountId?: number): Promise<number> {
+    const accounts = await db
+      .selectDistinct({ accountId: emails.accountId })
+      .from(emails)
+      .where(and(isNull(emails.threadId), accountId ? eq(emails.accountId, accountId) : undefined));
+
+    let updatedCount = 0;
+
+    for (const { accountId: currentAccountId } of accounts) {
+      const rows = await db
+        .select({
+          id: emails.id,
+          messageId: emails.messageId,
+          inReplyTo: emails.inReplyTo,
+          messageReferences: emails.messageReferences,
+          threadId: emails.threadId,
+          timestamp: emails.timestamp
+        })
+        .from(emails)
+        .where(eq(emails.accountId, currentAccountId));
+
+      const threads = threadMessages(rows);
+
+      for (const thread of threads) {
+        const unthreaded = thread.messages.filter(message => !message.threadId).map(message => message.id);
+        if (unthreaded.length === 0) continue;
+
+        const existing = thread.messages.find(message => message.threadId);
+        const threadId = existing?.threadId || headerThreadId(currentAccountId, thread.rootKey);
+
+        await db.update(emails).set({ threadId }).where(inArray(emails.id, unthreaded));
+        updatedCount += unthreaded.length;
+      }
+
+      console.log(`Threaded ${rows.length} emails for account ${currentAccountId}`);
+    }
+
+    return updatedCount;
+  }
+
+  /**
+   * Get a thread as an ordered message tree, from the user's accounts only. Messages that
+   * were referenced but never stored appear as nodes without a message, so the shape of
+   * the conversation is kept.
+   */
+  async getThread(userId: number, threadId: string) {
+    const rows = await db
+      .select(threadMessageColumns)
+      .from(emails)
+      .where(and(eq(emails.threadId, threadId), inUserAccounts(userId)))
+      .orderBy(asc(emails.timestamp));
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    // Usually one tree; more when some messages have no headers linking them to the rest
+    const tree = threadMessages(rows).map(thread => thread.root);
+
+    return {
+      threadId,
+      subject: rows[0].subject,
+      messageCount: rows.length,
+      participants: Array.from(new Set(rows.map(row => row.sender))),
+      firstMessageAt: rows[0].timestamp,
+      lastMessageAt: rows[rows.length - 1].timestamp,
+      tree
+    };
+  }
+}
+
+export const threadService = new ThreadService();
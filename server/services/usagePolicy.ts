@@ -0,0 +1,70 @@
+/**
+ * Usage Policy
+ * Token estimates, call costs and monthly budgets for LLM usage accounting.
+ * Works on plain values and has no database access.
+ */
+
+// How often paused background jobs check whether the budget allows them again
+export const BUDGET_RECHECK_MS = 60 * 60 * 1000;
+
+export interface ModelPrice {
+  // USD per million tokens; null when the price isn't known
+  inputPricePerMillion: number | null;
+  outputPricePerMillion: number | null;
+}
+
+export interface BudgetStatus {
+  // Null when the user hasn't set a budget
+  budgetUsd: number | null;
+  spentUsd: number;
+  remainingUsd: number | null;
+  exceeded: boolean;
+  // When this month's spending starts over
+  resetsAt: Date;
+}
+
+/**
+ * Roughly four characters per token, for providers that don't report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * What a call cost in USD, or null when the model has no price
+ */
+export function callCost(promptTokens: number, completionTokens: number, price: ModelPrice | undefined): number | null {
+  if (!price || price.inputPricePerMillion === null) {
+    return null;
+  }
+
+  const output = completionTokens > 0 ? completionTokens * (price.outputPricePerMillion ?? price.inputPricePerMillion) : 0;
+  return (promptTokens * price.inputPricePerMillion + output) / 1_000_000;
+}
+
+// Budgets run per calendar month in UTC
+export function monthStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export function nextMonthStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+}
+
+export function budgetStatus(budgetUsd: number | null, spentUsd: number, now: Date = new Date()): BudgetStatus {
+  return {
+    budgetUsd,
+    spentUsd,
+    remainingUsd: budgetUsd === null ? null : Math.max(budgetUsd - spentUsd, 0),
+    exceeded: budgetUsd !== null && spentUsd >= budgetUsd,
+    resetsAt: nextMonthStart(now)
+  };
+}
+
+/**
+ * When a job paused by the budget should look again: in an hour, in case the
+ * budget was raised, or when the month starts over if that's sooner
+ */
+export function budgetRecheckAt(status: BudgetStatus, now: Date = new Date()): Date {
+  return new Date(Math.min(now.getTime() + BUDGET_RECHECK_MS, status.resetsAt.getTime()));
+}
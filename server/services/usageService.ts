@@ -0,0 +1,157 @@
+/**
+ * Usage Service
+ * Records every LLM and embedding call with its tokens, latency and cost, and
+ * reports usage and monthly budgets per user
+ */
+import { db } from '../db';
+import { aiModels, llmUsage } from '@shared/schema';
+import { and, desc, eq, gte, sql } from 'drizzle-orm';
+import { storage } from '../storage';
+import type { LlmProviderName } from './llmProvider';
+import { BudgetStatus, ModelPrice, budgetStatus, callCost, monthStart } from './usagePolicy';
+
+// Prices change rarely; look them up again after this long
+const PRICE_CACHE_MS = 5 * 60 * 1000;
+
+// Providers that run locally or offline and so cost nothing per call
+const FREE_PROVIDERS: LlmProviderName[] = ['ollama', 'mock'];
+
+export interface UsageEntry {
+  userId: number | null;
+  feature: string;
+  kind: 'chat' | 'embedding';
+  provider: LlmProviderName;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  tokensEstimated: boolean;
+  latencyMs: number;
+  success: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  failedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  averageLatencyMs: number;
+}
+
+export interface UsageReport {
+  from: string;
+  totals: UsageTotals;
+  byFeature: (UsageTotals & { feature: string })[];
+  byModel: (UsageTotals & { provider: LlmProviderName; model: string })[];
+  byDay: (UsageTotals & { day: string })[];
+  budget: BudgetStatus;
+}
+
+// Aggregates shared by every breakdown of the usage report
+const totalsColumns = {
+  calls: sql`count(*)`.mapWith(Number),
+  failedCalls: sql`count(*) FILTER (WHERE NOT ${llmUsage.success})`.mapWith(Number),
+  promptTokens: sql`coalesce(sum(${llmUsage.promptTokens}), 0)`.mapWith(Number),
+  completionTokens: sql`coalesce(sum(${llmUsage.completionTokens}), 0)`.mapWith(Number),
+  costUsd: sql`coalesce(sum(${llmUsage.costUsd}), 0)`.mapWith(Number),
+  averageLatencyMs: sql`coalesce(round(avg(${llmUsage.latencyMs})), 0)`.mapWith(Number)
+};
+
+class UsageService {
+  private prices = new Map<string, { price: ModelPrice | undefined; expiresAt: number }>();
+
+  /**
+   * The price of a model from the ai_models table
+   */
+  async getPrice(provider: LlmProviderName, model: string): Promise<ModelPrice | undefined> {
+    const key = `${provider}:${model}`;
+    const cached = this.prices.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.price;
+    }
+
+    const [row] = await db
+      .select({ inputPricePerMillion: aiModels.inputPricePerMillion, outputPricePerMillion: aiModels.outputPricePerMillion })
+      .from(aiModels)
+      .where(and(eq(aiModels.provider, provider), eq(aiModels.modelId, model)))
+      .limit(1);
+
+    const price = row?.inputPricePerMillion != null
+      ? row
+      : FREE_PROVIDERS.includes(provider) ? { inputPricePerMillion: 0, outputPricePerMillion: 0 } : undefined;
+
+    this.prices.set(key, { price, expiresAt: Date.now() + PRICE_CACHE_MS });
+    return price;
+  }
+
+  /**
+   * Record a call. Accounting never gets in the way of the call itself, so
+   * failures here are only logged.
+   */
+  async record(entry: UsageEntry): Promise<void> {
+    try {
+      const price = await this.getPrice(entry.provider, entry.model);
+
+      await db.insert(llmUsage).values({
+        ...entry,
+        costUsd: callCost(entry.promptTokens, entry.completionTokens, price)
+      });
+    } catch (error) {
+      console.error(`Error recording LLM usage for ${entry.feature}:`, error);
+    }
+  }
+
+  /**
+   * What the user's calls have cost so far this month, in USD
+   */
+  async getMonthlySpend(userId: number, now: Date = new Date()): Promise<number> {
+    const [row] = await db
+      .select({ costUsd: totalsColumns.costUsd })
+      .from(llmUsage)
+      .where(and(eq(llmUsage.userId, userId), gte(llmUsage.createdAt, monthStart(now))));
+
+    return row?.costUsd ?? 0;
+  }
+
+  async getBudgetStatus(userId: number, now: Date = new Date()): Promise<BudgetStatus> {
+    const settings = await storage.getAiSettings(userId);
+    const budgetUsd = settings?.monthlyBudgetUsd ?? null;
+
+    return budgetStatus(budgetUsd, await this.getMonthlySpend(userId, now), now);
+  }
+
+  /**
+   * The user's usage over the last `days` days: totals, and broken down by
+   * feature, model and day
+   */
+  async getReport(userId: number, days: number = 30): Promise<UsageReport> {
+    const from = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const inRange = and(eq(llmUsage.userId, userId), gte(llmUsage.createdAt, from));
+    const day = sql<string>`to_char(${llmUsage.createdAt}, 'YYYY-MM-DD')`;
+
+    const [[totals], byFeature, byModel, byDay, budget] = await Promise.all([
+      db.select(totalsColumns).from(llmUsage).where(inRange),
+      db.select({ feature: llmUsage.feature, ...totalsColumns })
+        .from(llmUsage)
+        .where(inRange)
+        .groupBy(llmUsage.feature)
+        .orderBy(desc(totalsColumns.costUsd), desc(totalsColumns.calls)),
+      db.select({ provider: llmUsage.provider, model: llmUsage.model, ...totalsColumns })
+        .from(llmUsage)
+        .where(inRange)
+        .groupBy(llmUsage.provider, llmUsage.model)
+        .orderBy(desc(totalsColumns.costUsd), desc(totalsColumns.calls)),
+      db.select({ day, ...totalsColumns })
+        .from(llmUsage)
+        .where(inRange)
+        .groupBy(day)
+        .orderBy(day),
+      this.getBudgetStatus(userId)
+    ]);
+
+    return { from: from.toISOString(), totals, byFeature, byModel, byDay, budget };
+  }
+}
+
+// Create and export the service instance
+export const usageService = new UsageService();
@@ -4,46 +4,94 @@ import {
   emails, type Email, type InsertEmail,
   tasks, type Task, type InsertTask,
   aiSettings, type AiSettings, type InsertAiSettings,
-  feedback, type Feedback, type InsertFeedback
+  feedback, type Feedback, type InsertFeedback,
+  userTaskInteractions, type UserTaskInteraction, type InsertUserTaskInteraction,
+  emailSemanticLinks, type EmailSemanticLink
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, like, desc, asc, sql, inArray } from "drizzle-orm";
+import { eq, and, or, ne, like, desc, asc, sql, type SQL, type AnyColumn } from "drizzle-orm";
+import { decryptAiApiKeys, encryptAiApiKeys } from "./utils/aiApiKeys";
 
-// IStorage interface for CRUD operations
+/**
+ * Condition limiting an email account id column to the user's own accounts.
+ * Emails, and everything hanging off them, belong to whoever owns the account
+ * (email_accounts.user_id); queries outside this file that read emails use this
+ * rather than their own user filter.
+ */
+export function inUserAccounts(userId: number, accountIdColumn: AnyColumn | SQL = emails.accountId): SQL {
+  return sql`${accountIdColumn} IN (SELECT ${emailAccounts.id} FROM ${emailAccounts} WHERE ${emailAccounts.userId} = ${userId})`;
+}
+
+// Condition limiting an email id column to emails in the user's accounts
+function isUserEmail(userId: number, emailIdColumn: AnyColumn): SQL {
+  return sql`${emailIdColumn} IN (SELECT ${emails.id} FROM ${emails} WHERE ${inUserAccounts(userId)})`;
+}
+
+export interface EmailFilter {
+  accountId?: number;
+  cleaned?: boolean;
+  ragProcessed?: boolean;
+  folder?: string;
+  label?: string;
+  // Deleted emails are left out unless this asks for them alone
+  deleted?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface TaskFeedback {
+  feedback: Feedback[];
+  interactions: UserTaskInteraction[];
+}
+
+// IStorage interface for CRUD operations.
+// Everything below the user operations takes the signed-in user's id and only
+// sees that user's rows: reads of another user's rows come back empty and
+// writes to them do nothing, so routes answer 404 rather than leak them.
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
   // Email account operations
   getEmailAccounts(userId: number): Promise<EmailAccount[]>;
-  getEmailAccount(id: number): Promise<EmailAccount | undefined>;
+  getEmailAccount(userId: number, id: number): Promise<EmailAccount | undefined>;
   createEmailAccount(account: InsertEmailAccount): Promise<EmailAccount>;
-  updateEmailAccount(id: number, data: Partial<InsertEmailAccount>): Promise<EmailAccount>;
-  deleteEmailAccount(id: number): Promise<boolean>;
+  updateEmailAccount(userId: number, id: number, data: Partial<InsertEmailAccount>): Promise<EmailAccount | undefined>;
+  deleteEmailAccount(userId: number, id: number): Promise<boolean>;
   
   // Email operations
-  getEmails(accountId: number, limit?: number, offset?: number): Promise<Email[]>;
-  getEmail(id: number): Promise<Email | undefined>;
-  createEmail(email: InsertEmail): Promise<Email>;
-  updateEmail(id: number, data: Partial<InsertEmail>): Promise<Email>;
+  getEmails(userId: number, filter?: EmailFilter): Promise<Email[]>;
+  getEmailLabels(userId: number, accountId?: number): Promise<{ label: string; count: number }[]>;
+  getEmail(userId: number, id: number): Promise<Email | undefined>;
+  getRelatedEmails(userId: number, emailId: number, limit?: number): Promise<Email[]>;
+  createEmail(userId: number, email: InsertEmail): Promise<Email | undefined>;
+  updateEmail(userId: number, id: number, data: Partial<InsertEmail>): Promise<Email | undefined>;
   
   // Task operations
   getTasks(userId: number, limit?: number, offset?: number): Promise<Task[]>;
   getTasksByPriority(userId: number, priority: string): Promise<Task[]>;
   getTasksRequiringReview(userId: number): Promise<Task[]>;
-  getTask(id: number): Promise<Task | undefined>;
-  createTask(task: InsertTask): Promise<Task>;
-  updateTask(id: number, data: Partial<InsertTask>): Promise<Task>;
-  deleteTask(id: number): Promise<boolean>;
+  getTask(userId: number, id: number): Promise<Task | undefined>;
+  createTask(userId: number, task: Omit<InsertTask, 'userId'>): Promise<Task | undefined>;
+  updateTask(userId: number, id: number, data: Partial<InsertTask>): Promise<Task | undefined>;
+  deleteTask(userId: number, id: number): Promise<boolean>;
   
   // AI settings operations
   getAiSettings(userId: number): Promise<AiSettings | undefined>;
   updateAiSettings(userId: number, data: Partial<InsertAiSettings>): Promise<AiSettings>;
   
   // Feedback operations
-  createFeedback(feedback: InsertFeedback): Promise<Feedback>;
+  createFeedback(userId: number, feedback: Omit<InsertFeedback, 'userId'>): Promise<Feedback | undefined>;
+  createTaskInteraction(userId: number, interaction: Omit<InsertUserTaskInteraction, 'userId'>): Promise<UserTaskInteraction | undefined>;
+  getFeedback(userId: number, limit?: number): Promise<Feedback[]>;
+  getTaskInteractions(userId: number, limit?: number): Promise<UserTaskInteraction[]>;
+  getTaskFeedback(userId: number, taskId: number): Promise<TaskFeedback | undefined>;
+  
+  // Email link operations
+  getEmailLinks(userId: number, emailId: number): Promise<EmailSemanticLink[]>;
   
   // Search operations 
   searchTasks(userId: number, query: string): Promise<Task[]>;
@@ -66,6 +114,11 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
+    return user || undefined;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -79,8 +132,11 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(emailAccounts).where(eq(emailAccounts.userId, userId));
   }
   
-  async getEmailAccount(id: number): Promise<EmailAccount | undefined> {
-    const [account] = await db.select().from(emailAccounts).where(eq(emailAccounts.id, id));
+  async getEmailAccount(userId: number, id: number): Promise<EmailAccount | undefined> {
+    const [account] = await db
+      .select()
+      .from(emailAccounts)
+      .where(and(eq(emailAccounts.id, id), eq(emailAccounts.userId, userId)));
     return account || undefined;
   }
   
@@ -89,48 +145,102 @@ export class DatabaseStorage implements IStorage {
     return newAccount;
   }
   
-  async updateEmailAccount(id: number, data: Partial<InsertEmailAccount>): Promise<EmailAccount> {
+  async updateEmailAccount(userId: number, id: number, data: Partial<InsertEmailAccount>): Promise<EmailAccount | undefined> {
+    const { userId: _owner, ...changes } = data;
     const [updatedAccount] = await db
       .update(emailAccounts)
-      .set({ ...data })
-      .where(eq(emailAccounts.id, id))
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(emailAccounts.id, id), eq(emailAccounts.userId, userId)))
       .returning();
-    return updatedAccount;
+    return updatedAccount || undefined;
   }
   
-  async deleteEmailAccount(id: number): Promise<boolean> {
-    const result = await db.delete(emailAccounts).where(eq(emailAccounts.id, id));
-    return true;
+  async deleteEmailAccount(userId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(emailAccounts)
+      .where(and(eq(emailAccounts.id, id), eq(emailAccounts.userId, userId)))
+      .returning({ id: emailAccounts.id });
+    return deleted.length > 0;
   }
   
   // Email operations
-  async getEmails(accountId: number, limit = 50, offset = 0): Promise<Email[]> {
+  async getEmails(userId: number, filter: EmailFilter = {}): Promise<Email[]> {
+    const { accountId, cleaned, ragProcessed, folder, label, deleted = false, limit = 50, offset = 0 } = filter;
+    
     return db
       .select()
       .from(emails)
-      .where(eq(emails.accountId, accountId))
+      .where(and(
+        inUserAccounts(userId),
+        accountId ? eq(emails.accountId, accountId) : undefined,
+        cleaned ? eq(emails.is_cleaned, true) : undefined,
+        ragProcessed ? eq(emails.is_rag_processed, true) : undefined,
+        folder ? eq(emails.folder, folder) : undefined,
+        label ? sql`${emails.labels} @> ARRAY[${label}]::text[]` : undefined,
+        eq(emails.isDeleted, deleted)
+      ))
       .orderBy(desc(emails.timestamp))
       .limit(limit)
       .offset(offset);
   }
   
-  async getEmail(id: number): Promise<Email | undefined> {
-    const [email] = await db.select().from(emails).where(eq(emails.id, id));
+  async getEmailLabels(userId: number, accountId?: number): Promise<{ label: string; count: number }[]> {
+    const result = await db.execute(sql`
+      SELECT label, COUNT(*)::int AS count
+      FROM ${emails}, unnest(${emails.labels}) AS label
+      WHERE ${inUserAccounts(userId)}
+        ${accountId ? sql`AND ${emails.accountId} = ${accountId}` : sql``}
+      GROUP BY label
+      ORDER BY count DESC, label
+    `);
+    return result.rows as { label: string; count: number }[];
+  }
+  
+  async getEmail(userId: number, id: number): Promise<Email | undefined> {
+    const [email] = await db
+      .select()
+      .from(emails)
+      .where(and(eq(emails.id, id), inUserAccounts(userId)));
     return email || undefined;
   }
   
-  async createEmail(email: any): Promise<Email> {
+  // Emails in the same thread or with a similar subject, from the user's accounts only
+  async getRelatedEmails(userId: number, emailId: number, limit = 10): Promise<Email[]> {
+    const target = await this.getEmail(userId, emailId);
+    if (!target) return [];
+    
+    return db
+      .select()
+      .from(emails)
+      .where(
+        and(
+          inUserAccounts(userId),
+          ne(emails.id, emailId),
+          or(
+            target.threadId ? eq(emails.threadId, target.threadId) : undefined,
+            like(emails.subject, `%${target.subject.replace(/^(re:|fwd:)\s*/i, '')}%`)
+          )
+        )
+      )
+      .limit(limit);
+  }
+  
+  async createEmail(userId: number, email: InsertEmail): Promise<Email | undefined> {
+    if (!(await this.getEmailAccount(userId, email.accountId))) return undefined;
+    
     const [newEmail] = await db.insert(emails).values(email).returning();
     return newEmail;
   }
   
-  async updateEmail(id: number, data: Partial<InsertEmail>): Promise<Email> {
+  async updateEmail(userId: number, id: number, data: Partial<InsertEmail>): Promise<Email | undefined> {
+    // An email can't be moved into another account
+    const { accountId: _account, ...changes } = data;
     const [updatedEmail] = await db
       .update(emails)
-      .set(data)
-      .where(eq(emails.id, id))
+      .set({ ...changes, updatedAt: new Date() })
+      .where(and(eq(emails.id, id), inUserAccounts(userId)))
       .returning();
-    return updatedEmail;
+    return updatedEmail || undefined;
   }
   
   // Task operations
@@ -160,14 +270,22 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(tasks.createdAt));
   }
   
-  async getTask(id: number): Promise<Task | undefined> {
-    const [task] = await db.select().from(tasks).where(eq(tasks.id, id));
+  async getTask(userId: number, id: number): Promise<Task | undefined> {
+    const [task] = await db
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.id, id), eq(tasks.userId, userId)));
     return task || undefined;
   }
   
-  async createTask(task: any): Promise<Task> {
+  async createTask(userId: number, task: Omit<InsertTask, 'userId'>): Promise<Task | undefined> {
+    // A task can only point at one of the user's own emails
+    if (task.emailId && !(await this.getEmail(userId, task.emailId))) {
+      return undefined;
+    }
+    
     // Create the task in the database
-    const [newTask] = await db.insert(tasks).values(task).returning();
+    const [newTask] = await db.insert(tasks).values({ ...task, userId }).returning();
     
     // Task embedding will be generated asynchronously via the taskEmbeddingService,
     // but we return immediately to not block the API
@@ -188,18 +306,28 @@ export class DatabaseStorage implements IStorage {
     return newTask;
   }
   
-  async updateTask(id: number, data: any): Promise<Task> {
+  async updateTask(userId: number, id: number, data: Partial<InsertTask>): Promise<Task | undefined> {
+    // Tasks can't be handed to another user or pointed at another user's email
+    const { userId: _owner, ...changes } = data;
+    if (changes.emailId && !(await this.getEmail(userId, changes.emailId))) {
+      return undefined;
+    }
+    
     // Update the task in the database
     const [updatedTask] = await db
       .update(tasks)
       .set({ 
-        ...data, 
+        ...changes, 
         updatedAt: new Date(),
-        completedAt: data.isCompleted ? new Date() : null
+        completedAt: changes.isCompleted ? new Date() : null
       })
-      .where(eq(tasks.id, id))
+      .where(and(eq(tasks.id, id), eq(tasks.userId, userId)))
       .returning();
     
+    if (!updatedTask) {
+      return undefined;
+    }
+    
     // Regenerate embedding if title or description is updated
     // as these fields are important for semantic search
     if (data.title || data.description) {
@@ -221,42 +349,117 @@ export class DatabaseStorage implements IStorage {
     return updatedTask;
   }
   
-  async deleteTask(id: number): Promise<boolean> {
-    await db.delete(tasks).where(eq(tasks.id, id));
-    return true;
+  async deleteTask(userId: number, id: number): Promise<boolean> {
+    const deleted = await db
+      .delete(tasks)
+      .where(and(eq(tasks.id, id), eq(tasks.userId, userId)))
+      .returning({ id: tasks.id });
+    return deleted.length > 0;
   }
   
   // AI settings operations
+  // API keys are encrypted at rest; settings are returned with them decrypted
   async getAiSettings(userId: number): Promise<AiSettings | undefined> {
     const [settings] = await db.select().from(aiSettings).where(eq(aiSettings.userId, userId));
-    return settings || undefined;
+    return settings ? decryptAiApiKeys(settings) : undefined;
   }
   
   async updateAiSettings(userId: number, data: Partial<InsertAiSettings>): Promise<AiSettings> {
-    const existingSettings = await this.getAiSettings(userId);
+    const [existingSettings] = await db.select({ id: aiSettings.id }).from(aiSettings).where(eq(aiSettings.userId, userId));
+    const encrypted = encryptAiApiKeys(data);
     
     if (existingSettings) {
       const [updatedSettings] = await db
         .update(aiSettings)
-        .set({ ...data, updatedAt: new Date() })
+        .set({ ...encrypted, updatedAt: new Date() })
         .where(eq(aiSettings.userId, userId))
         .returning();
-      return updatedSettings;
+      return decryptAiApiKeys(updatedSettings);
     } else {
       const [newSettings] = await db
         .insert(aiSettings)
-        .values({ ...data, userId } as InsertAiSettings)
+        .values({ ...encrypted, userId } as InsertAiSettings)
         .returning();
-      return newSettings;
+      return decryptAiApiKeys(newSettings);
     }
   }
   
   // Feedback operations
-  async createFeedback(feedbackData: InsertFeedback): Promise<Feedback> {
-    const [newFeedback] = await db.insert(feedback).values(feedbackData).returning();
+  // Feedback and interactions can only refer to the user's own tasks and emails
+  private async ownsTaskAndEmail(userId: number, taskId?: number | null, emailId?: number | null): Promise<boolean> {
+    if (taskId && !(await this.getTask(userId, taskId))) return false;
+    if (emailId && !(await this.getEmail(userId, emailId))) return false;
+    return true;
+  }
+  
+  async createFeedback(userId: number, feedbackData: Omit<InsertFeedback, 'userId'>): Promise<Feedback | undefined> {
+    if (!(await this.ownsTaskAndEmail(userId, feedbackData.taskId, feedbackData.relatedEmailId))) {
+      return undefined;
+    }
+    
+    const [newFeedback] = await db.insert(feedback).values({ ...feedbackData, userId }).returning();
     return newFeedback;
   }
   
+  async createTaskInteraction(userId: number, interaction: Omit<InsertUserTaskInteraction, 'userId'>): Promise<UserTaskInteraction | undefined> {
+    if (!(await this.ownsTaskAndEmail(userId, interaction.taskId, interaction.sourceEmailId))) {
+      return undefined;
+    }
+    
+    const [newInteraction] = await db.insert(userTaskInteractions).values({ ...interaction, userId }).returning();
+    return newInteraction;
+  }
+  
+  async getFeedback(userId: number, limit = 100): Promise<Feedback[]> {
+    return db
+      .select()
+      .from(feedback)
+      .where(eq(feedback.userId, userId))
+      .orderBy(feedback.timestamp)
+      .limit(limit);
+  }
+  
+  async getTaskInteractions(userId: number, limit = 100): Promise<UserTaskInteraction[]> {
+    return db
+      .select()
+      .from(userTaskInteractions)
+      .where(eq(userTaskInteractions.userId, userId))
+      .orderBy(userTaskInteractions.createdAt)
+      .limit(limit);
+  }
+  
+  async getTaskFeedback(userId: number, taskId: number): Promise<TaskFeedback | undefined> {
+    if (!(await this.getTask(userId, taskId))) return undefined;
+    
+    const taskFeedback = await db
+      .select()
+      .from(feedback)
+      .where(eq(feedback.taskId, taskId))
+      .orderBy(feedback.timestamp);
+    
+    const interactions = await db
+      .select()
+      .from(userTaskInteractions)
+      .where(eq(userTaskInteractions.taskId, taskId))
+      .orderBy(userTaskInteractions.createdAt);
+    
+    return { feedback: taskFeedback, interactions };
+  }
+  
+  // Email link operations
+  // Links of one of the user's emails, leaving out any to emails outside the user's accounts
+  async getEmailLinks(userId: number, emailId: number): Promise<EmailSemanticLink[]> {
+    return db
+      .select()
+      .from(emailSemanticLinks)
+      .where(and(
+        or(eq(emailSemanticLinks.emailIdA, emailId), eq(emailSemanticLinks.emailIdB, emailId)),
+        isUserEmail(userId, emailSemanticLinks.emailIdA),
+        isUserEmail(userId, emailSemanticLinks.emailIdB)
+      ))
+      .orderBy(desc(emailSemanticLinks.similarityScore));
+  }
+  
   // Search operations
   async searchTasks(userId: number, query: string): Promise<Task[]> {
     return db
@@ -273,18 +476,12 @@ export class DatabaseStorage implements IStorage {
   }
   
   async searchEmails(userId: number, query: string): Promise<Email[]> {
-    // First get user's email accounts
-    const userAccounts = await this.getEmailAccounts(userId);
-    const accountIds = userAccounts.map(account => account.id);
-    
-    if (accountIds.length === 0) return [];
-    
     return db
       .select()
       .from(emails)
       .where(
         and(
-          inArray(emails.accountId, accountIds),
+          inUserAccounts(userId),
           sql`to_tsvector('english', ${emails.subject} || ' ' || ${emails.body}) @@ to_tsquery('english', ${query.replace(/ /g, ' & ')})`
         )
       )
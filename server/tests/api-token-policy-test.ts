@@ -0,0 +1,106 @@
+/**
+ * API token policy test
+ *
+ * Checks which scopes each /api endpoint needs, how granted scopes cover them
+ * and the per-token rate limit, without a database.
+ *
+ * Run with: npx tsx server/tests/api-token-policy-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import {
+  API_TOKEN_SCOPE_NAMES,
+  TokenRateLimiter,
+  hasScope,
+  isApiToken,
+  isApiTokenScope,
+  isSessionOnlyPath,
+  missingScopes,
+  requiredScopes
+} from '../services/apiTokenPolicy';
+
+async function testApiTokenPolicy() {
+  console.log('🧪 Starting API token policy tests...');
+
+  console.log('1️⃣ Only our own bearer tokens are treated as API tokens...');
+  assert.equal(isApiToken('eta_abc123'), true);
+  assert.equal(isApiToken('eyJhbGciOiJSUzI1NiJ9.payload.signature'), false);
+  assert.equal(isApiTokenScope('read:emails'), true);
+  assert.equal(isApiTokenScope('read:everything'), false);
+  assert.ok(API_TOKEN_SCOPE_NAMES.includes('admin'));
+  console.log('✅ Token and scope recognition');
+
+  console.log('2️⃣ Endpoints map to read or write scopes by method...');
+  assert.deepEqual(requiredScopes('GET', '/emails/42'), ['read:emails']);
+  assert.deepEqual(requiredScopes('POST', '/drafts'), ['write:emails']);
+  assert.deepEqual(requiredScopes('get', '/tasks'), ['read:tasks']);
+  assert.deepEqual(requiredScopes('PATCH', '/tasks/7'), ['write:tasks']);
+  assert.deepEqual(requiredScopes('POST', '/find-tasks'), ['write:tasks']);
+  assert.deepEqual(requiredScopes('GET', '/email-accounts'), ['read:accounts']);
+  assert.deepEqual(requiredScopes('DELETE', '/email-accounts/3'), ['write:accounts']);
+  // Exports and imports move the account's mail and tasks, not just its settings
+  assert.deepEqual(requiredScopes('GET', '/email-accounts/3/export'), ['read:accounts', 'read:emails', 'read:tasks']);
+  assert.deepEqual(requiredScopes('POST', '/email-accounts/3/import'), ['write:accounts', 'write:emails', 'write:tasks']);
+  assert.deepEqual(missingScopes(['read:accounts'], 'GET', '/Email-Accounts/3/EXPORT'), ['read:emails', 'read:tasks']);
+  assert.deepEqual(missingScopes(['write:accounts', 'write:tasks'], 'POST', '/email-accounts/3/import'), ['write:emails']);
+  assert.deepEqual(requiredScopes('GET', '/analytics/overview'), ['read:analytics']);
+  assert.deepEqual(requiredScopes('GET', '/search/tasks'), ['read:tasks']);
+  assert.deepEqual(requiredScopes('GET', '/search/emails'), ['read:emails']);
+  assert.deepEqual(requiredScopes('GET', '/search/all'), ['read:emails', 'read:tasks']);
+  console.log('✅ Resource scopes');
+
+  console.log('3️⃣ Anything unlisted needs admin...');
+  assert.deepEqual(requiredScopes('GET', '/jobs'), ['admin']);
+  assert.deepEqual(requiredScopes('POST', '/ai-settings'), ['admin']);
+  // A prefix of a known resource is not that resource
+  assert.deepEqual(requiredScopes('GET', '/emailsx'), ['admin']);
+  console.log('✅ Admin fallback');
+
+  console.log('4️⃣ Admin covers everything and write implies read...');
+  assert.equal(hasScope(['admin'], 'write:accounts'), true);
+  assert.equal(hasScope(['write:tasks'], 'read:tasks'), true);
+  assert.equal(hasScope(['read:tasks'], 'write:tasks'), false);
+  assert.equal(hasScope(['write:emails'], 'read:tasks'), false);
+  assert.deepEqual(missingScopes(['read:emails'], 'GET', '/search/all'), ['read:tasks']);
+  assert.deepEqual(missingScopes(['read:emails', 'write:tasks'], 'GET', '/search/all'), []);
+  assert.deepEqual(missingScopes(['write:tasks'], 'GET', '/jobs'), ['admin']);
+  console.log('✅ Scope coverage');
+
+  console.log('5️⃣ Sign-in and token management need a session...');
+  assert.equal(isSessionOnlyPath('/auth/login'), true);
+  assert.equal(isSessionOnlyPath('/tokens'), true);
+  assert.equal(isSessionOnlyPath('/tokens/5'), true);
+  assert.equal(isSessionOnlyPath('/tokensmith'), false);
+  assert.equal(isSessionOnlyPath('/tasks'), false);
+  // Express routes /TOKENS to the same handler as /tokens
+  assert.equal(isSessionOnlyPath('/TOKENS'), true);
+  assert.equal(isSessionOnlyPath('/Tokens/5'), true);
+  assert.equal(isSessionOnlyPath('/AUTH/login'), true);
+  assert.deepEqual(missingScopes(['read:tasks'], 'GET', '/EMAILS'), ['read:emails']);
+  assert.deepEqual(missingScopes(['read:emails'], 'POST', '/Emails/3/labels'), ['write:emails']);
+  console.log('✅ Session-only paths');
+
+  console.log('6️⃣ Each token gets its own one-minute window...');
+  const limiter = new TokenRateLimiter();
+  const start = 1_000_000;
+  assert.deepEqual(limiter.hit(1, 2, start), { allowed: true, limit: 2, remaining: 1, resetAt: start + 60_000 });
+  assert.equal(limiter.hit(1, 2, start + 1000).remaining, 0);
+  const blocked = limiter.hit(1, 2, start + 2000);
+  assert.equal(blocked.allowed, false);
+  assert.equal(blocked.resetAt, start + 60_000);
+  // Other tokens are counted separately
+  assert.equal(limiter.hit(2, 2, start + 2000).allowed, true);
+  // A new window starts once the minute is up
+  const next = limiter.hit(1, 2, start + 60_000);
+  assert.equal(next.allowed, true);
+  assert.equal(next.remaining, 1);
+  assert.equal(next.resetAt, start + 120_000);
+  console.log('✅ Rate limiting');
+
+  console.log('🎉 All API token policy tests passed');
+}
+
+testApiTokenPolicy().catch(error => {
+  console.error('❌ API token policy test failed:', error);
+  process.exit(1);
+});
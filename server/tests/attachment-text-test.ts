@@ -0,0 +1,73 @@
+/**
+ * Attachment text extraction test
+ *
+ * Runs the extractor over the fixture files in fixtures/attachments and over
+ * inline text, CSV and HTML content.
+ *
+ * Run with: npx tsx server/tests/attachment-text-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { detectAttachmentKind, extractAttachmentText } from '../utils/attachmentText';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'attachments');
+
+function fixture(name: string): Buffer {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name));
+}
+
+async function testAttachmentText() {
+  console.log('1️⃣ Attachment kinds come from the content type, then the extension...');
+  assert.equal(detectAttachmentKind('application/pdf', 'scan'), 'pdf');
+  assert.equal(detectAttachmentKind('application/octet-stream', 'Report.DOCX'), 'docx');
+  assert.equal(detectAttachmentKind('text/csv; charset=utf-8', 'data'), 'csv');
+  assert.equal(detectAttachmentKind('image/png', 'logo.png'), null);
+  console.log('✅ Attachment kinds detected');
+
+  console.log('2️⃣ PDF text is extracted...');
+  const pdfText = await extractAttachmentText(fixture('invoice.pdf'), 'application/pdf', 'invoice.pdf');
+  assert.match(pdfText || '', /Invoice 4711 due on 30 June/);
+  console.log('✅ PDF text extracted');
+
+  console.log('3️⃣ DOCX text is extracted...');
+  const docxText = await extractAttachmentText(
+    fixture('budget.docx'),
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'budget.docx'
+  );
+  assert.match(docxText || '', /Quarterly budget review/);
+  assert.match(docxText || '', /revised forecast by Friday/);
+  console.log('✅ DOCX text extracted');
+
+  console.log('4️⃣ Plain text, CSV and HTML are extracted...');
+  const plainText = await extractAttachmentText(Buffer.from('Line one\r\n\r\n\r\n\r\nLine two  \n'), 'text/plain', 'notes.txt');
+  assert.equal(plainText, 'Line one\n\nLine two');
+
+  const csvText = await extractAttachmentText(Buffer.from('name,amount\nAcme,100\n'), 'text/csv', 'totals.csv');
+  assert.equal(csvText, 'name,amount\nAcme,100');
+
+  const htmlText = await extractAttachmentText(
+    Buffer.from('<html><head><title>x</title><style>p{}</style></head><body><h1>Agenda</h1><p>Review the roadmap</p><script>alert(1)</script></body></html>'),
+    'text/html',
+    'agenda.html'
+  );
+  assert.match(htmlText || '', /Agenda/);
+  assert.match(htmlText || '', /Review the roadmap/);
+  assert.doesNotMatch(htmlText || '', /alert|p\{\}/);
+  console.log('✅ Plain text, CSV and HTML extracted');
+
+  console.log('5️⃣ Unsupported types return null and broken files throw...');
+  assert.equal(await extractAttachmentText(Buffer.from([0x89, 0x50, 0x4e, 0x47]), 'image/png', 'logo.png'), null);
+  await assert.rejects(() => extractAttachmentText(Buffer.from('not a zip'), 'application/octet-stream', 'broken.docx'));
+  console.log('✅ Unsupported and broken attachments handled');
+
+  console.log('🎉 All attachment text tests passed');
+}
+
+testAttachmentText().catch(error => {
+  console.error('❌ Attachment text tests failed:', error);
+  process.exit(1);
+});
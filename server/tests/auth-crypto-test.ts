@@ -0,0 +1,91 @@
+/**
+ * Authentication crypto test
+ *
+ * Checks password hashing, reset token digests and TOTP codes against the
+ * RFC 6238 test vectors, without a database.
+ *
+ * Run with: npx tsx server/tests/auth-crypto-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { generateToken, hashPassword, hashToken, verifyPassword } from '../utils/passwords';
+import { base32Decode, base32Encode, generateTotpSecret, matchTotpStep, totpCode, totpUri, verifyTotp } from '../utils/totp';
+
+// The RFC 6238 SHA-1 test secret, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+async function testAuthCrypto() {
+  console.log('🧪 Starting authentication crypto tests...');
+
+  console.log('1️⃣ Passwords verify against their hash and nothing else...');
+  const hash = await hashPassword('correct horse battery staple');
+  assert.match(hash, /^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+  assert.equal(await verifyPassword('correct horse battery staple', hash), true);
+  assert.equal(await verifyPassword('correct horse battery stapler', hash), false);
+  assert.notEqual(await hashPassword('correct horse battery staple'), hash);
+  // Placeholder passwords stored before sign-in existed never match
+  assert.equal(await verifyPassword('password', 'password'), false);
+  console.log('✅ Salted scrypt hashes');
+
+  console.log('2️⃣ Reset tokens are random and stored as a digest...');
+  const token = generateToken();
+  assert.match(token, /^[A-Za-z0-9_-]{43}$/);
+  assert.notEqual(generateToken(), token);
+  assert.equal(hashToken(token), hashToken(token));
+  assert.notEqual(hashToken(token), token);
+  console.log('✅ Tokens and digests');
+
+  console.log('3️⃣ Base32 round-trips...');
+  assert.equal(RFC_SECRET, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  assert.equal(base32Decode(RFC_SECRET).toString(), '12345678901234567890');
+  assert.equal(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq').toString(), '12345678901234567890');
+  assert.equal(base32Decode(generateTotpSecret()).length, 20);
+  assert.throws(() => base32Decode('not base32!'));
+  console.log('✅ Base32 encoding');
+
+  console.log('4️⃣ TOTP codes match the RFC 6238 vectors...');
+  assert.equal(totpCode(RFC_SECRET, 59 * 1000, 8), '94287082');
+  assert.equal(totpCode(RFC_SECRET, 1111111109 * 1000, 8), '07081804');
+  assert.equal(totpCode(RFC_SECRET, 1234567890 * 1000, 8), '89005924');
+  assert.equal(totpCode(RFC_SECRET, 2000000000 * 1000, 8), '69279037');
+  assert.equal(totpCode(RFC_SECRET, 59 * 1000), '287082');
+  console.log('✅ RFC 6238 codes');
+
+  console.log('5️⃣ Codes are accepted one step either side and no further...');
+  const now = 1111111109 * 1000;
+  assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, now), now), true);
+  assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, now - 30000), now), true);
+  assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, now + 30000), now), true);
+  assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, now - 90000), now), false);
+  // Apps often show the code as two groups of three
+  assert.equal(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, now).replace(/^(\d{3})/, '$1 '), now), true);
+  assert.equal(verifyTotp(RFC_SECRET, '12345', now), false);
+  assert.equal(verifyTotp(RFC_SECRET, 'abcdef', now), false);
+  console.log('✅ Clock drift window');
+
+  console.log('6️⃣ Setup URIs carry the secret and issuer...');
+  const uri = new URL(totpUri(RFC_SECRET, 'ada@example.com', 'Email Task Manager'));
+  assert.equal(uri.protocol, 'otpauth:');
+  assert.equal(uri.host, 'totp');
+  assert.equal(decodeURIComponent(uri.pathname), '/Email Task Manager:ada@example.com');
+  assert.equal(uri.searchParams.get('secret'), RFC_SECRET);
+  assert.equal(uri.searchParams.get('issuer'), 'Email Task Manager');
+  console.log('✅ otpauth URIs');
+
+  console.log('7️⃣ Matched codes report their time step, so a used code can be refused...');
+  const step = Math.floor(now / 30000);
+  assert.equal(matchTotpStep(RFC_SECRET, totpCode(RFC_SECRET, now), now), step);
+  assert.equal(matchTotpStep(RFC_SECRET, totpCode(RFC_SECRET, now - 30000), now), step - 1);
+  assert.equal(matchTotpStep(RFC_SECRET, totpCode(RFC_SECRET, now + 30000), now), step + 1);
+  // The same code entered again 30 seconds later still matches the step it was used in
+  assert.equal(matchTotpStep(RFC_SECRET, totpCode(RFC_SECRET, now), now + 30000), step);
+  assert.equal(matchTotpStep(RFC_SECRET, '12345', now), null);
+  console.log('✅ Time steps');
+
+  console.log('🎉 All authentication crypto tests passed');
+}
+
+testAuthCrypto().catch(error => {
+  console.error('❌ Authentication crypto test failed:', error);
+  process.exit(1);
+});
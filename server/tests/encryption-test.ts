@@ -0,0 +1,110 @@
+/**
+ * Encryption test
+ *
+ * Checks AES-GCM sealing with key ids, key rotation, reading the older crypto-js
+ * and AES-CBC formats, and masking of AI provider API keys, without a database.
+ *
+ * Run with: npx tsx server/tests/encryption-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import CryptoJS from 'crypto-js';
+import { SecretBox, isEncrypted, isMaskedSecret, maskSecret } from '../utils/encryption';
+import { decryptAiApiKeys, encryptAiApiKeys, maskAiApiKeys } from '../utils/aiApiKeys';
+
+const key = (seed: string) => crypto.createHash('sha256').update(seed).digest();
+
+async function testEncryption() {
+  console.log('🧪 Starting encryption tests...');
+
+  console.log('1️⃣ Secrets round-trip and are tagged with the key id...');
+  const box = new SecretBox(new Map([['k1', key('one')]]), 'k1');
+  const sealed = box.encrypt('app-password');
+  assert.match(sealed, /^v1:k1:/);
+  assert.notEqual(box.encrypt('app-password'), sealed);
+  assert.equal(box.decrypt(sealed), 'app-password');
+  assert.equal(box.decrypt(box.encrypt('')), '');
+  assert.equal(isEncrypted(sealed), true);
+  assert.equal(isEncrypted('sk-plain-text-key'), false);
+  console.log('✅ Round-trip');
+
+  console.log('2️⃣ Tampered or foreign ciphertext is rejected...');
+  const parts = sealed.split(':');
+  const flipped = Buffer.from(parts[4], 'base64url');
+  flipped[0] ^= 1;
+  assert.throws(() => box.decrypt([...parts.slice(0, 4), flipped.toString('base64url')].join(':')));
+  assert.throws(() => box.decrypt(sealed.replace('v1:k1:', 'v1:k9:')), /Unknown encryption key/);
+  const stranger = new SecretBox(new Map([['k1', key('other')]]), 'k1');
+  assert.throws(() => stranger.decrypt(sealed));
+  assert.throws(() => box.decrypt('not encrypted'), /Invalid encrypted data format/);
+  assert.throws(() => new SecretBox(new Map([['k1', key('one')]]), 'k2'), /not in the keyring/);
+  assert.throws(() => new SecretBox(new Map([['k1', Buffer.alloc(16)]]), 'k1'), /32 bytes/);
+  console.log('✅ Authentication');
+
+  console.log('3️⃣ Rotating re-seals old values with the new key...');
+  const rotated = new SecretBox(new Map([['k1', key('one')], ['k2', key('two')]]), 'k2');
+  assert.equal(rotated.needsReEncryption(sealed), true);
+  const resealed = rotated.reEncrypt(sealed);
+  assert.match(resealed, /^v1:k2:/);
+  assert.equal(rotated.decrypt(resealed), 'app-password');
+  assert.equal(rotated.needsReEncryption(resealed), false);
+  assert.equal(rotated.reEncrypt(resealed), resealed);
+  console.log('✅ Rotation');
+
+  console.log('4️⃣ The keyring is read from the environment...');
+  const fromEnv = SecretBox.fromEnv({
+    ENCRYPTION_KEYS: `k2:${key('two').toString('base64')}, k1:${key('one').toString('base64')}`,
+    ENCRYPTION_KEY: 'old-passphrase'
+  });
+  assert.equal(fromEnv.currentKeyId, 'k2');
+  assert.equal(fromEnv.decrypt(sealed), 'app-password');
+  // The passphrase key stays available as "default" so its data can be re-encrypted
+  const passphraseBox = SecretBox.fromEnv({ ENCRYPTION_KEY: 'old-passphrase' });
+  assert.equal(passphraseBox.currentKeyId, 'default');
+  assert.equal(fromEnv.decrypt(passphraseBox.encrypt('totp')), 'totp');
+  assert.equal(SecretBox.fromEnv({ ENCRYPTION_KEYS: `k1:${key('one').toString('base64')}`, ENCRYPTION_KEY_ID: 'k1' }).currentKeyId, 'k1');
+  assert.throws(() => SecretBox.fromEnv({ NODE_ENV: 'production' }), /must be set in production/);
+  assert.throws(() => SecretBox.fromEnv({ ENCRYPTION_KEYS: 'missing-separator' }), /<id>:<base64 key>/);
+  console.log('✅ Environment');
+
+  console.log('5️⃣ Values written by the older schemes still decrypt...');
+  const legacyBox = SecretBox.fromEnv({ ENCRYPTION_KEY: 'old-passphrase' });
+  const cryptoJs = CryptoJS.AES.encrypt(JSON.stringify({ password: 'hunter2' }), 'old-passphrase').toString();
+  assert.equal(isEncrypted(cryptoJs), true);
+  assert.deepEqual(JSON.parse(legacyBox.decrypt(cryptoJs)), { password: 'hunter2' });
+  assert.equal(legacyBox.needsReEncryption(cryptoJs), true);
+  assert.match(legacyBox.reEncrypt(cryptoJs), /^v1:default:/);
+  assert.throws(() => SecretBox.fromEnv({ ENCRYPTION_KEY: 'wrong-passphrase' }).decrypt(cryptoJs));
+
+  const cbcKey = 'a-32-character-passphrase-for-it';
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', Buffer.from(cbcKey), iv);
+  const cbc = `${iv.toString('hex')}:${cipher.update('JBSWY3DPEHPK3PXP', 'utf8', 'hex')}${cipher.final('hex')}`;
+  assert.equal(SecretBox.fromEnv({ ENCRYPTION_KEY: cbcKey }).decrypt(cbc), 'JBSWY3DPEHPK3PXP');
+  console.log('✅ Legacy formats');
+
+  console.log('6️⃣ API keys are masked and masks are never stored...');
+  assert.equal(maskSecret('sk-proj-1234567890abcd'), '••••••••abcd');
+  assert.equal(maskSecret('short'), '••••••••');
+  assert.equal(maskSecret(null), '');
+  assert.equal(isMaskedSecret(maskSecret('sk-proj-1234567890abcd')), true);
+  assert.equal(isMaskedSecret('sk-proj-1234567890abcd'), false);
+
+  const stored = encryptAiApiKeys({ openaiApiKey: 'sk-proj-1234567890abcd', anthropicApiKey: '••••••••wxyz', perplexityApiKey: '' });
+  assert.equal(isEncrypted(stored.openaiApiKey!), true);
+  assert.equal('anthropicApiKey' in stored, false);
+  assert.equal(stored.perplexityApiKey, '');
+  assert.equal(decryptAiApiKeys(stored).openaiApiKey, 'sk-proj-1234567890abcd');
+  // Keys saved before encryption was added are read as they are
+  assert.equal(decryptAiApiKeys({ openaiApiKey: 'sk-plain-text-key-1234' }).openaiApiKey, 'sk-plain-text-key-1234');
+  assert.deepEqual(maskAiApiKeys({ id: 1, ...stored }), { id: 1, openaiApiKey: '••••••••abcd', perplexityApiKey: '' });
+  console.log('✅ Masking');
+
+  console.log('🎉 All encryption tests passed');
+}
+
+testEncryption().catch(error => {
+  console.error('❌ Encryption test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,207 @@
+/**
+ * EWS client test against a recorded-fixture stand-in server
+ *
+ * Starts a local HTTP server that answers FindItem, GetItem, SyncFolderItems, UpdateItem
+ * and MoveItem with recorded Exchange responses from fixtures/ews and checks that the client
+ * performs initial, incremental and recovery syncs and flag changes correctly.
+ *
+ * Run with: npx tsx server/tests/ews-client-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { AddressInfo } from 'node:net';
+import { EwsClient } from '../services/ewsClient';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'ews');
+
+const INITIAL_STATE = 'H4sIAAAAAAAEAO29-STATE-0A';
+const BASELINE_STATE = 'H4sIAAAAAAAEAO29-STATE-1';
+const LATEST_STATE = 'H4sIAAAAAAAEAO29-STATE-2';
+const EXPIRED_STATE = 'H4sIAAAAAAAEAO29-STATE-EXPIRED';
+
+function fixture(name: string): string {
+  return fs.readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+}
+
+/**
+ * Keep only the GetItem response messages for the requested item ids,
+ * the way Exchange answers a GetItem call
+ */
+function filterGetItemResponse(requestXml: string): string {
+  const requested = new Set(Array.from(requestXml.matchAll(/<t:ItemId Id="([^"]+)"/g), match => match[1]));
+  const recorded = fixture('get-item.xml');
+
+  return recorded.replace(
+    /\s*<m:GetItemResponseMessage[\s\S]*?<\/m:GetItemResponseMessage>/g,
+    (message) => {
+      const id = message.match(/<t:ItemId Id="([^"]+)"/)?.[1];
+      return id && requested.has(id) ? message : '';
+    }
+  );
+}
+
+/**
+ * Pick the recorded response for an incoming SOAP request
+ */
+function respond(operation: string, requestXml: string): { status: number; body: string } {
+  const syncState = requestXml.match(/<m:SyncState>([^<]*)<\/m:SyncState>/)?.[1];
+  const offset = requestXml.match(/Offset="(\d+)"/)?.[1];
+
+  switch (operation) {
+    case 'FindItem':
+      return { status: 200, body: fixture(offset === '0' ? 'find-item-page1.xml' : 'find-item-page2.xml') };
+    case 'GetItem':
+      return { status: 200, body: filterGetItemResponse(requestXml) };
+    case 'UpdateItem':
+      return { status: 200, body: fixture('update-item.xml') };
+    case 'MoveItem':
+      return { status: 200, body: fixture('move-item.xml') };
+    case 'SyncFolderItems':
+      if (!syncState) return { status: 200, body: fixture('sync-folder-items-initial-1.xml') };
+      if (syncState === INITIAL_STATE) return { status: 200, body: fixture('sync-folder-items-initial-2.xml') };
+      if (syncState === BASELINE_STATE) return { status: 200, body: fixture('sync-folder-items-incremental.xml') };
+      return { status: 200, body: fixture('sync-folder-items-invalid-state.xml') };
+    default:
+      return { status: 500, body: fixture('soap-fault.xml') };
+  }
+}
+
+async function startStandInServer(): Promise<{ url: string; requests: string[]; bodies: string[]; close: () => Promise<void> }> {
+  const requests: string[] = [];
+  const bodies: string[] = [];
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      if (req.headers.authorization !== 'Basic dGVzdDp0ZXN0') {
+        res.writeHead(500, { 'Content-Type': 'text/xml; charset=utf-8' });
+        res.end(fixture('soap-fault.xml'));
+        return;
+      }
+
+      const operation = String(req.headers.soapaction || '').split('/').pop() || '';
+      requests.push(operation);
+      bodies.push(body);
+
+      const { status, body: responseBody } = respond(operation, body);
+      res.writeHead(status, { 'Content-Type': 'text/xml; charset=utf-8' });
+      res.end(responseBody);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/EWS/Exchange.asmx`,
+    requests,
+    bodies,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+async function testEwsClient() {
+  console.log('🧪 Starting EWS client tests...');
+
+  const server = await startStandInServer();
+  const client = new EwsClient({
+    url: server.url,
+    headers: { Authorization: 'Basic dGVzdDp0ZXN0' },
+    timeout: 5000
+  });
+
+  try {
+    console.log('1️⃣ Initial sync establishes a sync state and pages through FindItem...');
+    server.requests.length = 0;
+    const initial = await client.syncFolder('inbox', null, { limit: 10, pageSize: 2 });
+    assert.equal(initial.mode, 'initial');
+    assert.equal(initial.syncState, BASELINE_STATE);
+    assert.deepEqual(server.requests, ['SyncFolderItems', 'SyncFolderItems', 'FindItem', 'FindItem', 'GetItem']);
+    assert.deepEqual(
+      initial.emails.map(email => email.messageId),
+      ['<meeting-001@contoso.com>', '<budget-002@contoso.com>', '<budget-003@contoso.com>']
+    );
+    console.log('✅ Initial sync fetched', initial.emails.length, 'emails');
+
+    console.log('2️⃣ Messages are mapped into the stored email shape...');
+    const budget = initial.emails.find(email => email.metadata.ewsItemId === 'AAMkAGI2-item-002');
+    assert.ok(budget);
+    assert.equal(budget.subject, 'Budget review & approvals');
+    assert.equal(budget.sender, 'Bob Finance <bob@contoso.com>');
+    assert.deepEqual(budget.recipients, ['Dana Reviewer <dana@contoso.com>', 'team@contoso.com']);
+    assert.equal(budget.threadId, 'AAQkAGI2-conv-002');
+    assert.equal(budget.body, 'Can you approve the attached budget by Friday?');
+    assert.deepEqual(budget.flags, []);
+    assert.equal(budget.timestamp.toISOString(), '2024-05-02T14:30:00.000Z');
+    const meeting = initial.emails.find(email => email.metadata.ewsItemId === 'AAMkAGI2-item-001');
+    assert.deepEqual(meeting?.flags, ['\\Seen']);
+    console.log('✅ Sender, recipients, thread and read state mapped correctly');
+
+    console.log('3️⃣ Incremental sync only fetches new items and reports changes...');
+    server.requests.length = 0;
+    const incremental = await client.syncFolder('inbox', BASELINE_STATE);
+    assert.equal(incremental.mode, 'incremental');
+    assert.equal(incremental.syncState, LATEST_STATE);
+    assert.deepEqual(server.requests, ['SyncFolderItems', 'GetItem']);
+    assert.deepEqual(incremental.emails.map(email => email.messageId), ['<contract-004@contoso.com>']);
+    assert.deepEqual(incremental.readFlagChanges, [
+      { itemId: { id: 'AAMkAGI2-item-002', changeKey: 'CQAAABYAAAC5' }, isRead: true }
+    ]);
+    assert.deepEqual(incremental.deleted.map(itemId => itemId.id), ['AAMkAGI2-item-001']);
+    console.log('✅ Incremental sync fetched 1 new email with 1 read change and 1 deletion');
+
+    console.log('4️⃣ An invalid sync state falls back to a fresh sync...');
+    server.requests.length = 0;
+    const recovered = await client.syncFolder('inbox', EXPIRED_STATE, { limit: 2, pageSize: 2 });
+    assert.equal(recovered.mode, 'initial');
+    assert.equal(recovered.syncState, BASELINE_STATE);
+    assert.deepEqual(server.requests, ['SyncFolderItems', 'SyncFolderItems', 'SyncFolderItems', 'FindItem', 'GetItem']);
+    assert.equal(recovered.emails.length, 2);
+    console.log('✅ Recovered with a fresh sync state');
+
+    console.log('5️⃣ Backfill walks every page in the folder...');
+    const backfill = await client.syncFolder('inbox', BASELINE_STATE, { mode: 'backfill', pageSize: 2 });
+    assert.equal(backfill.mode, 'backfill');
+    assert.equal(backfill.emails.length, 3);
+    console.log('✅ Backfill fetched', backfill.emails.length, 'emails');
+
+    console.log('6️⃣ SOAP faults surface as errors...');
+    const unauthorized = new EwsClient({ url: server.url, headers: {}, timeout: 5000 });
+    await assert.rejects(
+      () => unauthorized.findItems('inbox'),
+      /EWS FindItem SOAP fault: Access is denied/
+    );
+    console.log('✅ SOAP fault reported');
+
+    console.log('7️⃣ Flag changes are written back with UpdateItem and MoveItem...');
+    server.requests.length = 0;
+    server.bodies.length = 0;
+    const itemId = { id: 'AAMkAGI2-item-002', changeKey: 'CQAAABYAAAC5' };
+    const read = await client.updateItem(itemId, { isRead: true });
+    assert.deepEqual(read, { id: 'AAMkAGI2-item-002', changeKey: 'CQAAABYAAAC9' });
+    assert.ok(server.bodies[0].includes('<t:FieldURI FieldURI="message:IsRead" />'));
+    assert.ok(server.bodies[0].includes('<t:IsRead>true</t:IsRead>'));
+    assert.ok(server.bodies[0].includes('ChangeKey="CQAAABYAAAC5"'));
+    await client.updateItem(read, { isFlagged: true });
+    assert.ok(server.bodies[1].includes('<t:FlagStatus>Flagged</t:FlagStatus>'));
+    const moved = await client.moveItem(read, 'archive');
+    assert.deepEqual(moved, { id: 'AAMkAGI2-item-002-archived', changeKey: 'CQAAABYAAAD1' });
+    assert.ok(server.bodies[2].includes('<t:DistinguishedFolderId Id="archive" />'));
+    assert.deepEqual(server.requests, ['UpdateItem', 'UpdateItem', 'MoveItem']);
+    console.log('✅ Item updated and moved');
+
+    console.log('🎉 All EWS client tests passed');
+  } finally {
+    await server.close();
+  }
+}
+
+testEwsClient().catch(error => {
+  console.error('❌ EWS client tests failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,105 @@
+/**
+ * Flag reconciler test
+ *
+ * Checks how flags read from the server combine with local changes waiting to be pushed:
+ * unchanged server flags, server-only changes, last-writer-wins conflicts and converged edits.
+ *
+ * Run with: npx tsx server/tests/flag-reconciler-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { reconcileServerFlags, flagStateFromImap, flagUpdatesOf, FlagState } from '../services/flagReconciler';
+
+const LAST_SYNC = new Date(Date.UTC(2025, 4, 1, 9, 0));
+
+function at(minute: number): Date {
+  return new Date(LAST_SYNC.getTime() + minute * 60 * 1000);
+}
+
+function state(overrides: Partial<FlagState> = {}): FlagState {
+  return { read: false, starred: false, archived: false, deleted: false, ...overrides };
+}
+
+async function testFlagReconciler() {
+  console.log('1️⃣ Flags are read from IMAP flags, Gmail labels and update bodies...');
+  assert.deepEqual(flagStateFromImap(['\\Seen', '\\Flagged']), { read: true, starred: true, deleted: false });
+  assert.deepEqual(flagStateFromImap(['\\Deleted'], ['\\Starred']), { read: false, starred: true, deleted: true });
+  assert.deepEqual(flagUpdatesOf({ isRead: true, isArchived: false, subject: 'x', isStarred: 'yes' }), { read: true, archived: false });
+  console.log('✅ Flags read');
+
+  console.log('2️⃣ Unchanged server flags leave pending local changes alone...');
+  // Marked read locally; the server still has it unread, as it did at the last sync
+  const untouched = reconcileServerFlags(
+    state({ read: true }),
+    state(),
+    { read: false, starred: false },
+    [{ flag: 'read', value: true, changedAt: at(5) }],
+    LAST_SYNC
+  );
+  assert.deepEqual(untouched, []);
+
+  // Without a snapshot, the pending change tells what the server had before
+  assert.deepEqual(
+    reconcileServerFlags(state({ read: true }), null, { read: false }, [{ flag: 'read', value: true, changedAt: at(5) }], LAST_SYNC),
+    []
+  );
+  console.log('✅ Pending local changes kept');
+
+  console.log('3️⃣ Server-only changes are applied...');
+  const serverOnly = reconcileServerFlags(state(), state(), { read: true, starred: true, deleted: false }, [], LAST_SYNC);
+  assert.deepEqual(serverOnly, [
+    { flag: 'read', serverValue: true, winner: 'server' },
+    { flag: 'starred', serverValue: true, winner: 'server' }
+  ]);
+  console.log('✅ Server changes applied');
+
+  console.log('4️⃣ Conflicts go to the last writer...');
+  // Starred and unstarred again locally (last at 9:25) while it was starred on the server at 9:30
+  const serverNewer = reconcileServerFlags(
+    state({ starred: false }),
+    state({ starred: false }),
+    { starred: true },
+    [{ flag: 'starred', value: false, changedAt: at(25) }],
+    at(30)
+  );
+  assert.deepEqual(serverNewer, [{ flag: 'starred', serverValue: true, winner: 'server' }]);
+
+  // Same, but the local unstar came last
+  const localNewer = reconcileServerFlags(
+    state({ starred: false }),
+    state({ starred: false }),
+    { starred: true },
+    [{ flag: 'starred', value: true, changedAt: at(20) }, { flag: 'starred', value: false, changedAt: at(45) }],
+    at(30)
+  );
+  assert.deepEqual(localNewer, [{ flag: 'starred', serverValue: true, winner: 'local' }]);
+
+  // A tie goes to the server
+  const tie = reconcileServerFlags(
+    state({ deleted: false }),
+    state({ deleted: false }),
+    { deleted: true },
+    [{ flag: 'deleted', value: false, changedAt: at(30) }],
+    at(30)
+  );
+  assert.deepEqual(tie, [{ flag: 'deleted', serverValue: true, winner: 'server' }]);
+  console.log('✅ Last writer wins');
+
+  console.log('5️⃣ The same change on both sides converges...');
+  const converged = reconcileServerFlags(
+    state({ archived: true }),
+    state(),
+    { archived: true },
+    [{ flag: 'archived', value: true, changedAt: at(10) }],
+    LAST_SYNC
+  );
+  assert.deepEqual(converged, [{ flag: 'archived', serverValue: true, winner: 'converged' }]);
+  console.log('✅ Converged');
+
+  console.log('🎉 All flag reconciler tests passed');
+}
+
+testFlagReconciler().catch(error => {
+  console.error('❌ Flag reconciler tests failed:', error);
+  process.exit(1);
+});
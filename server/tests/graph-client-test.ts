@@ -0,0 +1,241 @@
+/**
+ * Microsoft Graph client test against a local mock Graph server
+ *
+ * Starts an HTTP server that implements /me/mailFolders/{folder}/messages/delta
+ * with paging, delta links, removals, expired delta links, token expiry and
+ * throttling, and checks that the client syncs a folder correctly. Message updates
+ * and moves are checked against /me/messages/{id}.
+ *
+ * Run with: npx tsx server/tests/graph-client-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { GraphClient } from '../services/graphClient';
+
+const VALID_TOKEN = 'token-2';
+
+function message(id: string, subject: string, receivedDateTime: string, conversationId: string, isRead = false, flagged = false) {
+  return {
+    '@odata.etag': `W/"${id}-etag"`,
+    id,
+    changeKey: `${id}-ck`,
+    internetMessageId: `<${id}@contoso.onmicrosoft.com>`,
+    conversationId,
+    parentFolderId: 'AAMkAGInbox',
+    subject,
+    bodyPreview: `${subject} preview`,
+    body: { contentType: 'text', content: `${subject} body` },
+    from: { emailAddress: { name: 'Alice Example', address: 'alice@contoso.com' } },
+    toRecipients: [
+      { emailAddress: { name: 'Dana Reviewer', address: 'dana@contoso.com' } },
+      { emailAddress: { name: 'team@contoso.com', address: 'team@contoso.com' } }
+    ],
+    ccRecipients: [],
+    receivedDateTime,
+    lastModifiedDateTime: receivedDateTime,
+    isRead,
+    flag: { flagStatus: flagged ? 'flagged' : 'notFlagged' },
+    hasAttachments: false
+  };
+}
+
+// Mailbox contents seen by the first delta round, split over two pages
+const INITIAL_PAGES = [
+  [
+    message('msg-1', 'Kickoff notes', '2024-06-01T09:00:00Z', 'conv-A', true),
+    message('msg-2', 'Budget question', '2024-06-02T10:00:00Z', 'conv-B')
+  ],
+  [
+    message('msg-3', 'RE: Budget question', '2024-06-03T11:00:00Z', 'conv-B')
+  ]
+];
+
+// Changes returned for the stored delta link: one new message, one read and flagged, one removed
+const DELTA_CHANGES = [
+  message('msg-4', 'Launch checklist', '2024-06-04T12:00:00Z', 'conv-C'),
+  { ...message('msg-2', 'Budget question', '2024-06-02T10:00:00Z', 'conv-B', true, true), lastModifiedDateTime: '2024-06-05T08:00:00Z' },
+  { '@odata.type': '#microsoft.graph.message', id: 'msg-1', '@removed': { reason: 'deleted' } }
+];
+
+interface MockGraphServer {
+  baseUrl: string;
+  requests: { method: string; path: string; auth: string; prefer: string; body: any }[];
+  throttleNext: number;
+  close: () => Promise<void>;
+}
+
+async function startMockGraphServer(): Promise<MockGraphServer> {
+  const state: MockGraphServer = { baseUrl: '', requests: [], throttleNext: 0, close: async () => {} };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', state.baseUrl);
+    const auth = req.headers.authorization || '';
+    let rawBody = '';
+    for await (const chunk of req) rawBody += chunk;
+    state.requests.push({
+      method: req.method || 'GET',
+      path: url.pathname + url.search,
+      auth,
+      prefer: String(req.headers.prefer || ''),
+      body: rawBody ? JSON.parse(rawBody) : null
+    });
+
+    const send = (status: number, body: any, headers: Record<string, string> = {}) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    };
+
+    if (auth !== `Bearer ${VALID_TOKEN}`) {
+      return send(401, { error: { code: 'InvalidAuthenticationToken', message: 'Access token has expired or is not yet valid.' } });
+    }
+
+    if (state.throttleNext > 0) {
+      state.throttleNext--;
+      return send(429, { error: { code: 'ApplicationThrottled', message: 'Too many requests' } }, { 'Retry-After': '0' });
+    }
+
+    if (req.method === 'PATCH' && url.pathname === '/v1.0/me/messages/msg-2') {
+      return send(200, { id: 'msg-2', ...state.requests[state.requests.length - 1].body });
+    }
+    if (req.method === 'POST' && url.pathname === '/v1.0/me/messages/msg-2/move') {
+      return send(201, { id: 'msg-2-archived' });
+    }
+
+    if (url.pathname !== '/v1.0/me/mailFolders/inbox/messages/delta') {
+      return send(404, { error: { code: 'ErrorItemNotFound', message: 'The specified object was not found in the store.' } });
+    }
+
+    const deltaBase = `${state.baseUrl}/v1.0/me/mailFolders/inbox/messages/delta`;
+    const skipToken = url.searchParams.get('$skiptoken');
+    const deltaToken = url.searchParams.get('$deltatoken');
+
+    if (deltaToken === 'expired') {
+      return send(410, { error: { code: 'SyncStateNotFound', message: 'The sync state generation is not found.' } });
+    }
+    if (deltaToken === 'round-1') {
+      return send(200, { value: DELTA_CHANGES, '@odata.deltaLink': `${deltaBase}?$deltatoken=round-2` });
+    }
+    if (skipToken === 'page-2') {
+      return send(200, { value: INITIAL_PAGES[1], '@odata.deltaLink': `${deltaBase}?$deltatoken=round-1` });
+    }
+    if (!skipToken && !deltaToken) {
+      return send(200, { value: INITIAL_PAGES[0], '@odata.nextLink': `${deltaBase}?$skiptoken=page-2` });
+    }
+
+    return send(400, { error: { code: 'BadRequest', message: 'Unexpected delta token' } });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  state.baseUrl = `http://127.0.0.1:${port}`;
+  state.close = () => new Promise<void>(resolve => server.close(() => resolve()));
+
+  return state;
+}
+
+async function testGraphClient() {
+  console.log('🧪 Starting Microsoft Graph client tests...');
+
+  const server = await startMockGraphServer();
+  let currentToken = 'token-1';
+  let refreshCount = 0;
+
+  const client = new GraphClient({
+    baseUrl: `${server.baseUrl}/v1.0`,
+    getAccessToken: async () => currentToken,
+    refreshAccessToken: async () => {
+      refreshCount++;
+      currentToken = VALID_TOKEN;
+      return currentToken;
+    },
+    timeout: 5000
+  });
+
+  try {
+    console.log('1️⃣ Initial sync refreshes an expired token and follows nextLink to the deltaLink...');
+    const initial = await client.syncFolder('inbox', null, { limit: 2, pageSize: 2 });
+    assert.equal(refreshCount, 1);
+    assert.equal(initial.mode, 'initial');
+    assert.equal(initial.deltaLink, `${server.baseUrl}/v1.0/me/mailFolders/inbox/messages/delta?$deltatoken=round-1`);
+    assert.deepEqual(initial.emails.map(email => email.metadata.graphMessageId), ['msg-3', 'msg-2']);
+    const firstRequest = server.requests[0].path;
+    assert.ok(firstRequest.startsWith('/v1.0/me/mailFolders/inbox/messages/delta?%24select='));
+    assert.ok(server.requests[0].prefer.includes('odata.maxpagesize=2'));
+    assert.ok(server.requests[0].prefer.includes('outlook.body-content-type="text"'));
+    console.log('✅ Initial sync kept the newest', initial.emails.length, 'of 3 messages');
+
+    console.log('2️⃣ Messages are mapped into the stored email shape...');
+    const reply = initial.emails[0];
+    assert.equal(reply.messageId, '<msg-3@contoso.onmicrosoft.com>');
+    assert.equal(reply.threadId, 'conv-B');
+    assert.equal(reply.sender, 'Alice Example <alice@contoso.com>');
+    assert.deepEqual(reply.recipients, ['Dana Reviewer <dana@contoso.com>', 'team@contoso.com']);
+    assert.equal(reply.body, 'RE: Budget question body');
+    assert.equal(reply.bodyHtml, null);
+    assert.deepEqual(reply.flags, []);
+    assert.equal(reply.timestamp.toISOString(), '2024-06-03T11:00:00.000Z');
+    console.log('✅ conversationId mapped to threadId, recipients and body mapped');
+
+    console.log('3️⃣ Incremental sync resumes from the stored delta link...');
+    server.requests.length = 0;
+    const incremental = await client.syncFolder('inbox', initial.deltaLink);
+    assert.equal(incremental.mode, 'incremental');
+    assert.equal(server.requests.length, 1);
+    assert.ok(server.requests[0].path.endsWith('$deltatoken=round-1'));
+    assert.equal(incremental.deltaLink, `${server.baseUrl}/v1.0/me/mailFolders/inbox/messages/delta?$deltatoken=round-2`);
+    assert.deepEqual(incremental.emails.map(email => email.metadata.graphMessageId), ['msg-4', 'msg-2']);
+    assert.deepEqual(incremental.deleted, ['msg-1']);
+    assert.deepEqual(incremental.flagChanges, [
+      { id: 'msg-4', isRead: false, isStarred: false, changedAt: new Date('2024-06-04T12:00:00Z') },
+      { id: 'msg-2', isRead: true, isStarred: true, changedAt: new Date('2024-06-05T08:00:00Z') }
+    ]);
+    assert.deepEqual(incremental.emails[1].flags, ['\\Seen', '\\Flagged']);
+    console.log('✅ Incremental sync returned 2 changed messages and 1 removal');
+
+    console.log('4️⃣ An expired delta link (410 Gone) falls back to a fresh sync...');
+    const recovered = await client.syncFolder('inbox', `${server.baseUrl}/v1.0/me/mailFolders/inbox/messages/delta?$deltatoken=expired`, { limit: 10 });
+    assert.equal(recovered.mode, 'initial');
+    assert.equal(recovered.emails.length, 3);
+    assert.ok(recovered.deltaLink.endsWith('$deltatoken=round-1'));
+    console.log('✅ Recovered with a fresh delta link');
+
+    console.log('5️⃣ Throttled requests are retried...');
+    server.throttleNext = 2;
+    const backfill = await client.syncFolder('inbox', initial.deltaLink, { mode: 'backfill' });
+    assert.equal(backfill.mode, 'backfill');
+    assert.equal(backfill.emails.length, 3);
+    assert.equal(server.throttleNext, 0);
+    console.log('✅ Backfill succeeded after throttling');
+
+    console.log('6️⃣ Graph errors surface with their code...');
+    await assert.rejects(
+      () => client.syncFolder('archive', null),
+      /Graph request failed with HTTP 404: ErrorItemNotFound/
+    );
+    console.log('✅ Graph error reported');
+
+    console.log('7️⃣ Flag changes are written back to the message...');
+    server.requests.length = 0;
+    await client.updateMessage('msg-2', { isRead: false });
+    await client.updateMessage('msg-2', { flag: { flagStatus: 'flagged' } });
+    const movedId = await client.moveMessage('msg-2', 'archive');
+    assert.equal(movedId, 'msg-2-archived');
+    assert.deepEqual(server.requests.map(request => [request.method, request.path, request.body]), [
+      ['PATCH', '/v1.0/me/messages/msg-2', { isRead: false }],
+      ['PATCH', '/v1.0/me/messages/msg-2', { flag: { flagStatus: 'flagged' } }],
+      ['POST', '/v1.0/me/messages/msg-2/move', { destinationId: 'archive' }]
+    ]);
+    console.log('✅ Message updated and moved');
+
+    console.log('🎉 All Microsoft Graph client tests passed');
+  } finally {
+    await server.close();
+  }
+}
+
+testGraphClient().catch(error => {
+  console.error('❌ Microsoft Graph client tests failed:', error);
+  process.exit(1);
+});
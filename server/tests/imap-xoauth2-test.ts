@@ -0,0 +1,170 @@
+/**
+ * IMAP XOAUTH2 login test against a local IMAP stub server
+ *
+ * Starts a TCP server that speaks enough IMAP for a login and a LIST, and only
+ * accepts AUTHENTICATE XOAUTH2 with the current access token. Checks that a
+ * rejected token is refreshed once and the login retried, and that rejections
+ * without a way to refresh are reported as authentication errors, and that
+ * server certificates are verified by default.
+ *
+ * Run with: npx tsx server/tests/imap-xoauth2-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import { AddressInfo } from 'node:net';
+import { imapService, ImapServerSettings } from '../services/imapService';
+
+const USER = 'dana@example.com';
+const VALID_TOKEN = 'fresh-token';
+
+interface ImapStub {
+  port: number;
+  // Decoded XOAUTH2 initial client responses, in the order they were sent
+  logins: string[];
+  close: () => Promise<void>;
+}
+
+async function startImapStub(): Promise<ImapStub> {
+  const stub: ImapStub = { port: 0, logins: [], close: async () => {} };
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.write('* OK IMAP stub ready\r\n');
+
+    let buffer = '';
+    socket.on('data', chunk => {
+      buffer += chunk.toString();
+      let newline: number;
+
+      while ((newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+
+        const [tag, command = '', ...args] = line.split(' ');
+        switch (command.toUpperCase()) {
+          case 'CAPABILITY':
+            socket.write(`* CAPABILITY IMAP4rev1 AUTH=XOAUTH2\r\n${tag} OK CAPABILITY completed\r\n`);
+            break;
+          case 'AUTHENTICATE': {
+            const response = Buffer.from(args[1] || '', 'base64').toString();
+            stub.logins.push(response);
+            socket.write(response === `user=${USER}\x01auth=Bearer ${VALID_TOKEN}\x01\x01`
+              ? `${tag} OK Success\r\n`
+              : `${tag} NO [AUTHENTICATIONFAILED] Invalid credentials (Failure)\r\n`);
+            break;
+          }
+          case 'LOGIN':
+            socket.write(`${tag} NO [AUTHENTICATIONFAILED] Invalid credentials (Failure)\r\n`);
+            break;
+          case 'LIST':
+            socket.write(`* LIST (\\HasNoChildren) "/" "INBOX"\r\n* LIST (\\HasNoChildren \\Sent) "/" "Sent"\r\n${tag} OK LIST completed\r\n`);
+            break;
+          case 'LOGOUT':
+            socket.end(`* BYE Logging out\r\n${tag} OK LOGOUT completed\r\n`);
+            break;
+          default:
+            socket.write(`${tag} OK ${command} completed\r\n`);
+        }
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  stub.port = (server.address() as AddressInfo).port;
+  stub.close = () => new Promise<void>(resolve => {
+    sockets.forEach(socket => socket.destroy());
+    server.close(() => resolve());
+  });
+
+  return stub;
+}
+
+async function testImapXOAuth2() {
+  console.log('🧪 Starting IMAP XOAUTH2 tests...');
+
+  const stub = await startImapStub();
+  const settings: ImapServerSettings = { host: '127.0.0.1', port: stub.port, tlsMode: 'none', authMethod: 'xoauth2' };
+
+  try {
+    console.log('1️⃣ A rejected access token is refreshed and the login retried...');
+    let refreshCount = 0;
+    const credentials = {
+      user: USER,
+      accessToken: 'expired-token',
+      refreshAccessToken: async () => {
+        refreshCount++;
+        return VALID_TOKEN;
+      }
+    };
+
+    const mailboxes = await imapService.listMailboxes(settings, credentials);
+    assert.deepEqual(mailboxes.map(mailbox => mailbox.path), ['INBOX', 'Sent']);
+    assert.equal(refreshCount, 1);
+    assert.deepEqual(stub.logins, [
+      `user=${USER}\x01auth=Bearer expired-token\x01\x01`,
+      `user=${USER}\x01auth=Bearer ${VALID_TOKEN}\x01\x01`
+    ]);
+    console.log('✅ Logged in with the refreshed token');
+
+    console.log('2️⃣ The refreshed token is kept for the next connection...');
+    stub.logins.length = 0;
+    await imapService.listMailboxes(settings, credentials);
+    assert.equal(refreshCount, 1);
+    assert.equal(stub.logins.length, 1);
+    assert.equal(credentials.accessToken, VALID_TOKEN);
+    console.log('✅ No second refresh needed');
+
+    console.log('3️⃣ A failed refresh surfaces its error...');
+    await assert.rejects(
+      () => imapService.listMailboxes(settings, {
+        user: USER,
+        accessToken: 'revoked-token',
+        refreshAccessToken: async () => { throw new Error('Could not refresh the access token for account 7'); }
+      }),
+      /Could not refresh the access token for account 7/
+    );
+    console.log('✅ Refresh failure reported');
+
+    console.log('4️⃣ Without a refresh callback the rejection is an authentication error...');
+    await assert.rejects(
+      () => imapService.listMailboxes(settings, { user: USER, accessToken: 'expired-token' }),
+      (error: unknown) => imapService.isAuthenticationError(error)
+    );
+    console.log('✅ Authentication error reported');
+
+    console.log('5️⃣ Password logins are not retried...');
+    let passwordRefreshes = 0;
+    await assert.rejects(
+      () => imapService.listMailboxes({ ...settings, authMethod: 'password' }, {
+        user: USER,
+        password: 'wrong',
+        refreshAccessToken: async () => {
+          passwordRefreshes++;
+          return VALID_TOKEN;
+        }
+      }),
+      (error: unknown) => imapService.isAuthenticationError(error)
+    );
+    assert.equal(passwordRefreshes, 0);
+    console.log('✅ Password rejection reported without a retry');
+
+    console.log('6️⃣ Server certificates are verified unless the account opts out...');
+    assert.equal(imapService.normalizeServerSettings({ host: 'mail.example.org' }).rejectUnauthorized, true);
+    assert.equal(imapService.normalizeServerSettings({ host: 'mail.example.org', rejectUnauthorized: 'no' }).rejectUnauthorized, true);
+    assert.equal(imapService.normalizeServerSettings({ host: 'mail.example.org', rejectUnauthorized: false }).rejectUnauthorized, false);
+    assert.equal(imapService.resolveServerSettings({ accountType: 'imap', authMethod: 'basic', serverSettings: { host: 'mail.example.org' } }).rejectUnauthorized, true);
+    console.log('✅ Certificates verified by default');
+
+    console.log('🎉 All IMAP XOAUTH2 tests passed');
+  } finally {
+    await stub.close();
+  }
+}
+
+testImapXOAuth2().catch(error => {
+  console.error('❌ IMAP XOAUTH2 tests failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,359 @@
+/**
+ * JMAP client test against a local JMAP stub server
+ *
+ * Starts an HTTP server with a session resource and an API endpoint implementing
+ * Mailbox/get, Email/query (with collapseThreads), Email/get, Thread/get,
+ * Email/changes (paged, and cannotCalculateChanges for states it no longer has)
+ * and Email/set, and checks that the client syncs the account and writes flags back.
+ *
+ * Run with: npx tsx server/tests/jmap-client-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { JmapClient } from '../services/jmapClient';
+
+const AUTHORIZATION = 'Basic ' + Buffer.from('dana@example.com:app-password').toString('base64');
+const ACCOUNT_ID = 'u1';
+
+// Email/changes hands out at most this many changes per call, to exercise hasMoreChanges
+const STUB_MAX_CHANGES = 2;
+
+const MAILBOXES = [
+  { id: 'mb-inbox', name: 'Inbox', role: 'inbox', parentId: null },
+  { id: 'mb-archive', name: 'Archive', role: 'archive', parentId: null },
+  { id: 'mb-trash', name: 'Trash', role: 'trash', parentId: null },
+  { id: 'mb-projects', name: 'Projects', role: null, parentId: null }
+];
+
+function email(id: string, threadId: string, subject: string, receivedAt: string, extra: Record<string, any> = {}) {
+  return {
+    id,
+    threadId,
+    mailboxIds: { 'mb-inbox': true },
+    keywords: {} as Record<string, boolean>,
+    messageId: [`${id}@example.com`],
+    inReplyTo: null,
+    references: null,
+    from: [{ name: 'Alice Example', email: 'alice@example.com' }],
+    to: [{ name: 'Dana Reviewer', email: 'dana@example.com' }, { name: null, email: 'team@example.com' }],
+    cc: [],
+    subject,
+    receivedAt,
+    preview: `${subject} preview`,
+    textBody: [{ partId: '1', type: 'text/plain' }],
+    htmlBody: [{ partId: '1', type: 'text/plain' }],
+    bodyValues: { '1': { value: `${subject} body` } },
+    hasAttachment: false,
+    ...extra
+  };
+}
+
+interface JmapStub {
+  sessionUrl: string;
+  calls: { name: string; args: any }[];
+  emails: Map<string, any>;
+  state: number;
+  // States older than this can't be calculated from any more
+  minState: number;
+  change: (type: 'created' | 'updated' | 'destroyed', id: string) => void;
+  close: () => Promise<void>;
+}
+
+async function startJmapStub(): Promise<JmapStub> {
+  const log: { state: number; type: 'created' | 'updated' | 'destroyed'; id: string }[] = [];
+  const stub: JmapStub = {
+    sessionUrl: '',
+    calls: [],
+    emails: new Map(),
+    state: 10,
+    minState: 10,
+    change: (type, id) => {
+      stub.state++;
+      log.push({ state: stub.state, type, id });
+    },
+    close: async () => {}
+  };
+
+  for (const fixture of [
+    email('e1', 'T1', 'Budget question', '2024-06-01T09:00:00Z'),
+    email('e3', 'T2', 'Offsite venue', '2024-06-02T10:00:00Z', { mailboxIds: { 'mb-inbox': true, 'mb-projects': true } }),
+    email('e2', 'T1', 'Re: Budget question', '2024-06-03T11:00:00Z', {
+      inReplyTo: ['e1@example.com'],
+      references: ['e1@example.com'],
+      keywords: { $seen: true }
+    }),
+    email('e4', 'T3', 'Launch checklist', '2024-06-04T12:00:00Z', {
+      htmlBody: [{ partId: '2', type: 'text/html' }],
+      bodyValues: { '1': { value: 'Launch checklist body' }, '2': { value: '<p>Launch checklist body</p>' } }
+    })
+  ]) {
+    stub.emails.set(fixture.id, fixture);
+  }
+
+  const newestFirst = () => Array.from(stub.emails.values())
+    .sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+
+  const methods: Record<string, (args: any) => [string, any]> = {
+    'Mailbox/get': () => ['Mailbox/get', { accountId: ACCOUNT_ID, state: 'mb-1', list: MAILBOXES, notFound: [] }],
+
+    'Email/get': (args) => {
+      const ids: string[] = args.ids ?? Array.from(stub.emails.keys());
+      return ['Email/get', {
+        accountId: ACCOUNT_ID,
+        state: String(stub.state),
+        list: ids.filter(id => stub.emails.has(id)).map(id => stub.emails.get(id)),
+        notFound: ids.filter(id => !stub.emails.has(id))
+      }];
+    },
+
+    'Email/query': (args) => {
+      let sorted = newestFirst();
+      if (args.collapseThreads) {
+        const seen = new Set<string>();
+        sorted = sorted.filter(item => !seen.has(item.threadId) && seen.add(item.threadId));
+      }
+      const position = args.position || 0;
+      return ['Email/query', {
+        accountId: ACCOUNT_ID,
+        queryState: String(stub.state),
+        position,
+        ids: sorted.slice(position, position + (args.limit ?? sorted.length)).map(item => item.id),
+        ...(args.calculateTotal ? { total: sorted.length } : {})
+      }];
+    },
+
+    'Thread/get': (args) => ['Thread/get', {
+      accountId: ACCOUNT_ID,
+      state: String(stub.state),
+      list: args.ids.map((threadId: string) => ({
+        id: threadId,
+        emailIds: newestFirst().reverse().filter(item => item.threadId === threadId).map(item => item.id)
+      })),
+      notFound: []
+    }],
+
+    'Email/changes': (args) => {
+      const since = parseInt(args.sinceState, 10);
+      if (Number.isNaN(since) || since < stub.minState) {
+        return ['error', { type: 'cannotCalculateChanges' }];
+      }
+
+      const pending = log.filter(entry => entry.state > since);
+      const page = pending.slice(0, Math.min(args.maxChanges || STUB_MAX_CHANGES, STUB_MAX_CHANGES));
+      const ofType = (type: string) => page.filter(entry => entry.type === type).map(entry => entry.id);
+
+      return ['Email/changes', {
+        accountId: ACCOUNT_ID,
+        oldState: args.sinceState,
+        newState: String(page.length > 0 ? page[page.length - 1].state : stub.state),
+        hasMoreChanges: pending.length > page.length,
+        created: ofType('created'),
+        updated: ofType('updated'),
+        destroyed: ofType('destroyed')
+      }];
+    },
+
+    'Email/set': (args) => {
+      const updated: Record<string, null> = {};
+      const notUpdated: Record<string, any> = {};
+
+      for (const [id, patch] of Object.entries<Record<string, any>>(args.update || {})) {
+        const target = stub.emails.get(id);
+        if (!target) {
+          notUpdated[id] = { type: 'notFound' };
+          continue;
+        }
+        for (const [path, value] of Object.entries(patch)) {
+          const [property, key] = path.split('/');
+          if (key === undefined) {
+            target[property] = value;
+          } else if (value === null) {
+            delete target[property][key];
+          } else {
+            target[property][key] = value;
+          }
+        }
+        updated[id] = null;
+        stub.change('updated', id);
+      }
+
+      return ['Email/set', { accountId: ACCOUNT_ID, newState: String(stub.state), updated, notUpdated }];
+    }
+  };
+
+  const server = http.createServer(async (req, res) => {
+    let rawBody = '';
+    for await (const chunk of req) rawBody += chunk;
+
+    const send = (status: number, body: any) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.headers.authorization !== AUTHORIZATION) {
+      return send(401, { type: 'about:blank', detail: 'Authentication required' });
+    }
+
+    if (req.method === 'GET' && req.url === '/.well-known/jmap') {
+      return send(200, {
+        capabilities: {
+          'urn:ietf:params:jmap:core': { maxObjectsInGet: 2, maxCallsInRequest: 16 },
+          'urn:ietf:params:jmap:mail': {}
+        },
+        accounts: { [ACCOUNT_ID]: { name: 'dana@example.com', isPersonal: true } },
+        primaryAccounts: { 'urn:ietf:params:jmap:mail': ACCOUNT_ID },
+        username: 'dana@example.com',
+        // Relative on purpose: the client resolves it against the session URL
+        apiUrl: '/jmap/api/',
+        state: 'session-1'
+      });
+    }
+
+    if (req.method !== 'POST' || req.url !== '/jmap/api/') {
+      return send(404, { type: 'about:blank', detail: 'Not found' });
+    }
+
+    const request = JSON.parse(rawBody);
+    if (!request.using?.includes('urn:ietf:params:jmap:mail')) {
+      return send(400, { type: 'urn:ietf:params:jmap:error:unknownCapability', detail: 'mail capability missing' });
+    }
+
+    const methodResponses = request.methodCalls.map(([name, args, callId]: [string, any, string]) => {
+      stub.calls.push({ name, args });
+      if (args.accountId !== ACCOUNT_ID) {
+        return ['error', { type: 'accountNotFound' }, callId];
+      }
+      const method = methods[name];
+      const [responseName, responseArgs] = method ? method(args) : ['error', { type: 'unknownMethod' }];
+      return [responseName, responseArgs, callId];
+    });
+
+    send(200, { methodResponses, sessionState: 'session-1' });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  stub.sessionUrl = `http://127.0.0.1:${port}/.well-known/jmap`;
+  stub.close = () => new Promise<void>(resolve => server.close(() => resolve()));
+
+  return stub;
+}
+
+async function testJmapClient() {
+  console.log('🧪 Starting JMAP client tests...');
+
+  const stub = await startJmapStub();
+  const client = new JmapClient({ sessionUrl: stub.sessionUrl, headers: { Authorization: AUTHORIZATION }, timeout: 5000 });
+
+  try {
+    console.log('1️⃣ Initial sync reads the newest threads whole through Thread/get...');
+    const initial = await client.syncMailbox(null, { limit: 2 });
+    assert.equal(initial.mode, 'initial');
+    assert.equal(initial.state, '10');
+    // The two newest threads are T3 (e4) and T1 (e2, which brings its parent e1 along)
+    assert.deepEqual(initial.emails.map(item => item.metadata.jmapEmailId).sort(), ['e1', 'e2', 'e4']);
+    assert.deepEqual(
+      stub.calls.map(call => call.name),
+      ['Mailbox/get', 'Email/get', 'Email/query', 'Email/get', 'Thread/get', 'Email/get', 'Email/get']
+    );
+    assert.equal(stub.calls.find(call => call.name === 'Email/query')?.args.collapseThreads, true);
+    assert.deepEqual(stub.calls.find(call => call.name === 'Thread/get')?.args.ids, ['T3', 'T1']);
+    console.log('✅ Initial sync kept 3 emails from the 2 newest threads');
+
+    console.log('2️⃣ JMAP emails are mapped into the stored email shape...');
+    const reply = initial.emails.find(item => item.metadata.jmapEmailId === 'e2');
+    assert.equal(reply.messageId, '<e2@example.com>');
+    assert.equal(reply.threadId, 'T1');
+    assert.equal(reply.inReplyTo, '<e1@example.com>');
+    assert.deepEqual(reply.messageReferences, ['<e1@example.com>']);
+    assert.equal(reply.sender, 'Alice Example <alice@example.com>');
+    assert.deepEqual(reply.recipients, ['Dana Reviewer <dana@example.com>', 'team@example.com']);
+    assert.equal(reply.body, 'Re: Budget question body');
+    assert.equal(reply.bodyHtml, null);
+    assert.equal(reply.folder, 'INBOX');
+    assert.deepEqual(reply.flags, ['\\Seen']);
+    assert.equal(reply.timestamp.toISOString(), '2024-06-03T11:00:00.000Z');
+
+    const launch = initial.emails.find(item => item.metadata.jmapEmailId === 'e4');
+    assert.equal(launch.body, 'Launch checklist body');
+    assert.equal(launch.bodyHtml, '<p>Launch checklist body</p>');
+    console.log('✅ Thread ids, headers, flags and bodies mapped');
+
+    console.log('3️⃣ Incremental sync follows Email/changes from the stored state...');
+    stub.emails.get('e3').keywords = { $seen: true, $flagged: true };
+    stub.change('updated', 'e3');
+    stub.emails.get('e1').mailboxIds = { 'mb-archive': true };
+    stub.change('updated', 'e1');
+    stub.emails.set('e5', email('e5', 'T2', 'Re: Offsite venue', '2024-06-05T08:00:00Z', {
+      inReplyTo: ['e3@example.com'],
+      references: ['e3@example.com']
+    }));
+    stub.change('created', 'e5');
+    stub.emails.delete('e4');
+    stub.change('destroyed', 'e4');
+
+    stub.calls.length = 0;
+    const incremental = await client.syncMailbox(initial.state);
+    assert.equal(incremental.mode, 'incremental');
+    assert.equal(incremental.state, '14');
+    assert.equal(stub.calls.filter(call => call.name === 'Email/changes').length, 2);
+    assert.deepEqual(incremental.emails.map(item => item.metadata.jmapEmailId), ['e5', 'e3', 'e1']);
+    assert.equal(incremental.emails[0].threadId, 'T2');
+    assert.deepEqual(incremental.destroyed, ['e4']);
+    assert.deepEqual(incremental.flagChanges, [
+      { id: 'e3', isRead: true, isStarred: true, isArchived: false, isDeleted: false },
+      { id: 'e1', isRead: false, isStarred: false, isArchived: true, isDeleted: false }
+    ]);
+    assert.equal(incremental.emails[2].folder, 'Archive');
+    assert.deepEqual(incremental.emails[1].labels, ['INBOX', 'Projects']);
+    console.log('✅ Incremental sync returned 1 new email, 2 updates and 1 destroyed email');
+
+    console.log('4️⃣ A state the server can no longer calculate from falls back to a fresh sync...');
+    stub.minState = 12;
+    const recovered = await client.syncMailbox('11', { limit: 10 });
+    assert.equal(recovered.mode, 'initial');
+    assert.equal(recovered.state, '14');
+    assert.equal(recovered.emails.length, 4);
+    console.log('✅ Recovered with a fresh state');
+
+    console.log('5️⃣ Backfill pages through Email/query...');
+    stub.calls.length = 0;
+    const backfill = await client.syncMailbox(incremental.state, { mode: 'backfill', pageSize: 3 });
+    assert.equal(backfill.mode, 'backfill');
+    assert.deepEqual(backfill.emails.map(item => item.metadata.jmapEmailId), ['e5', 'e2', 'e3', 'e1']);
+    assert.equal(stub.calls.filter(call => call.name === 'Email/query').length, 2);
+    console.log('✅ Backfill read all 4 emails');
+
+    console.log('6️⃣ Flag changes are written back with Email/set...');
+    await client.updateEmail('e5', { 'keywords/$seen': true });
+    await client.updateEmail('e3', { 'keywords/$flagged': null });
+    const archive = await client.moveEmail('e5', 'archive');
+    assert.equal(archive.id, 'mb-archive');
+    assert.deepEqual(stub.emails.get('e5').keywords, { $seen: true });
+    assert.deepEqual(stub.emails.get('e5').mailboxIds, { 'mb-archive': true });
+    assert.deepEqual(stub.emails.get('e3').keywords, { $seen: true });
+
+    const afterPush = await client.syncMailbox(backfill.state);
+    assert.deepEqual(afterPush.flagChanges.map(change => change.id), ['e5', 'e3']);
+    assert.equal(afterPush.flagChanges[0].isArchived, true);
+    console.log('✅ Keywords and mailboxes updated on the server');
+
+    console.log('7️⃣ JMAP errors surface with their type...');
+    await assert.rejects(() => client.updateEmail('missing', { 'keywords/$seen': true }), /could not update email missing: notFound/);
+    await assert.rejects(() => client.moveEmail('e5', 'junk'), /has no junk mailbox/);
+    const unauthorized = new JmapClient({ sessionUrl: stub.sessionUrl, headers: { Authorization: 'Basic bm9wZQ==' } });
+    await assert.rejects(() => unauthorized.syncMailbox(null), /JMAP request failed with HTTP 401/);
+    console.log('✅ JMAP errors reported');
+
+    console.log('🎉 All JMAP client tests passed');
+  } finally {
+    await stub.close();
+  }
+}
+
+testJmapClient().catch(error => {
+  console.error('❌ JMAP client tests failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,58 @@
+/**
+ * Job queue policy test
+ *
+ * Checks the retry backoff, dead-lettering after the last attempt and the
+ * per-kind concurrency slots, without a database.
+ *
+ * Run with: npx tsx server/tests/job-policy-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { JOB_KINDS, JOB_KIND_CONFIG, retryDelay, failureOutcome, freeSlots } from '../services/jobPolicy';
+
+const noJitter = () => 0.5;
+
+async function testJobPolicy() {
+  console.log('🧪 Starting job policy tests...');
+
+  console.log('1️⃣ Retry delays double from 30 seconds up to an hour...');
+  assert.deepEqual([1, 2, 3, 4].map(attempts => retryDelay(attempts, noJitter)), [30000, 60000, 120000, 240000]);
+  assert.equal(retryDelay(20, noJitter), 60 * 60 * 1000);
+  console.log('✅ Exponential backoff with a cap');
+
+  console.log('2️⃣ Jitter stays within 20% of the delay...');
+  assert.equal(retryDelay(1, () => 0), 24000);
+  assert.equal(retryDelay(1, () => 0.999999), 36000);
+  console.log('✅ Jitter bounded');
+
+  console.log('3️⃣ Failed jobs are retried until their last attempt, then dead-lettered...');
+  const now = new Date('2026-03-01T12:00:00Z');
+  assert.deepEqual(failureOutcome(1, 3, now, noJitter), { status: 'pending', runAt: new Date('2026-03-01T12:00:30Z') });
+  assert.deepEqual(failureOutcome(2, 3, now, noJitter), { status: 'pending', runAt: new Date('2026-03-01T12:01:00Z') });
+  assert.deepEqual(failureOutcome(3, 3, now, noJitter), { status: 'dead' });
+  assert.deepEqual(failureOutcome(4, 3, now, noJitter), { status: 'dead' });
+  console.log('✅ Retries and dead letters');
+
+  console.log('4️⃣ Claims never exceed the concurrency limit...');
+  assert.equal(freeSlots(3, 0), 3);
+  assert.equal(freeSlots(3, 2), 1);
+  assert.equal(freeSlots(3, 3), 0);
+  // More running than allowed, e.g. after the limit was lowered
+  assert.equal(freeSlots(1, 4), 0);
+  console.log('✅ Free slots computed');
+
+  console.log('5️⃣ Every job kind has a usable configuration...');
+  assert.deepEqual(JOB_KINDS, ['sync-account', 'clean-email', 'embed-email', 'extract-tasks', 'update-relationships']);
+  for (const kind of JOB_KINDS) {
+    assert.ok(JOB_KIND_CONFIG[kind].concurrency >= 1, `${kind} concurrency`);
+    assert.ok(JOB_KIND_CONFIG[kind].maxAttempts >= 1, `${kind} max attempts`);
+  }
+  console.log('✅ Job kinds configured');
+
+  console.log('🎉 All job policy tests passed');
+}
+
+testJobPolicy().catch(error => {
+  console.error('❌ Job policy tests failed:', error);
+  process.exit(1);
+});
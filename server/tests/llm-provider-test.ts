@@ -0,0 +1,168 @@
+/**
+ * LLM provider test
+ *
+ * Checks how AI Settings map to a provider, model and credentials, how the
+ * shared embedding model is chosen, JSON parsing of model output and the
+ * offline mock provider, without calling any real provider.
+ *
+ * Run with: npx tsx server/tests/llm-provider-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import {
+  AnthropicProvider,
+  OllamaProvider,
+  OpenAiCompatibleProvider,
+  createLlmProvider,
+  parseJsonContent,
+  resolveChatConfig,
+  resolveEmbeddingConfig
+} from '../services/llmProvider';
+import { MockProvider, hashEmbedding, resetMockResponses, setMockResponses } from '../services/mockLlmProvider';
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+const settings = {
+  selectedProvider: 'anthropic' as const,
+  openaiApiKey: 'sk-openai',
+  anthropicApiKey: 'sk-ant',
+  perplexityApiKey: null,
+  ollamaEndpoint: 'http://ollama.internal:11434'
+};
+
+async function testLlmProvider() {
+  console.log('🧪 Starting LLM provider tests...');
+
+  console.log('1️⃣ The selected provider and model come from AI Settings...');
+  assert.deepEqual(
+    resolveChatConfig(settings, { provider: 'anthropic', modelId: 'claude-3-5-haiku-20241022', isEmbeddingModel: false }, {}),
+    { provider: 'anthropic', model: 'claude-3-5-haiku-20241022', apiKey: 'sk-ant' }
+  );
+  // A model from another provider, or an embedding model, falls back to the provider default
+  assert.equal(resolveChatConfig(settings, { provider: 'openai', modelId: 'gpt-4o-mini', isEmbeddingModel: false }, {}).model, 'claude-3-7-sonnet-20250219');
+  assert.equal(resolveChatConfig({ ...settings, selectedProvider: 'openai' }, { provider: 'openai', modelId: 'text-embedding-3-small', isEmbeddingModel: true }, {}).model, 'gpt-4o');
+  console.log('✅ Selection');
+
+  console.log('2️⃣ Credentials fall back to the environment...');
+  assert.deepEqual(resolveChatConfig(undefined, undefined, { OPENAI_API_KEY: 'sk-env' }), { provider: 'openai', model: 'gpt-4o', apiKey: 'sk-env' });
+  assert.equal(resolveChatConfig({ ...settings, selectedProvider: 'openai' }, undefined, { OPENAI_API_KEY: 'sk-env' }).apiKey, 'sk-openai');
+  assert.equal(resolveChatConfig({ ...settings, selectedProvider: 'perplexity' }, undefined, {}).apiKey, undefined);
+  assert.equal(resolveChatConfig({ ...settings, selectedProvider: 'ollama' }, undefined, {}).endpoint, 'http://ollama.internal:11434');
+  assert.equal(resolveChatConfig({ selectedProvider: 'ollama' }, undefined, { OLLAMA_ENDPOINT: 'http://gpu:11434' }).endpoint, 'http://gpu:11434');
+  assert.equal(resolveChatConfig({ selectedProvider: 'ollama' }, undefined, {}).endpoint, 'http://localhost:11434');
+  console.log('✅ Credentials');
+
+  console.log('3️⃣ The shared embedding model is read from the environment...');
+  assert.deepEqual(resolveEmbeddingConfig({ OPENAI_API_KEY: 'sk-env' }), { provider: 'openai', model: 'text-embedding-3-small', apiKey: 'sk-env' });
+  assert.deepEqual(
+    resolveEmbeddingConfig({ EMBEDDING_PROVIDER: 'ollama', OLLAMA_ENDPOINT: 'http://gpu:11434' }),
+    { provider: 'ollama', model: 'nomic-embed-text', endpoint: 'http://gpu:11434' }
+  );
+  assert.equal(resolveEmbeddingConfig({ EMBEDDING_PROVIDER: 'ollama', EMBEDDING_MODEL: 'mxbai-embed-large' }).model, 'mxbai-embed-large');
+  // Providers without embeddings aren't accepted
+  assert.equal(resolveEmbeddingConfig({ EMBEDDING_PROVIDER: 'anthropic' }).provider, 'openai');
+  console.log('✅ Embedding model');
+
+  console.log('4️⃣ Providers are built from a config...');
+  assert.ok(createLlmProvider({ provider: 'openai', model: 'gpt-4o', apiKey: 'sk' }) instanceof OpenAiCompatibleProvider);
+  assert.equal(createLlmProvider({ provider: 'perplexity', model: 'sonar', apiKey: 'pplx' }).name, 'perplexity');
+  assert.ok(createLlmProvider({ provider: 'anthropic', model: 'claude', apiKey: 'sk-ant' }) instanceof AnthropicProvider);
+  assert.ok(createLlmProvider({ provider: 'ollama', model: 'llama3' }) instanceof OllamaProvider);
+  assert.throws(() => createLlmProvider({ provider: 'anthropic', model: 'claude' }), /No API key configured for anthropic/);
+  await assert.rejects(createLlmProvider({ provider: 'anthropic', model: 'claude', apiKey: 'sk-ant' }).embed('x', 'text'), /does not provide embeddings/);
+  await assert.rejects(createLlmProvider({ provider: 'perplexity', model: 'sonar', apiKey: 'pplx' }).embed('x', 'text'), /does not provide embeddings/);
+  console.log('✅ Providers');
+
+  console.log('5️⃣ JSON answers are parsed leniently...');
+  assert.deepEqual(parseJsonContent('{"tasks": []}'), { tasks: [] });
+  assert.deepEqual(parseJsonContent('```json\n{"tasks": [1]}\n```'), { tasks: [1] });
+  assert.deepEqual(parseJsonContent('Here you go: {"summary": "ok"} Let me know!'), { summary: 'ok' });
+  assert.throws(() => parseJsonContent('no json here'), /did not return valid JSON/);
+  console.log('✅ JSON parsing');
+
+  console.log('6️⃣ The mock embeds deterministically and offline...');
+  assert.deepEqual(resolveEmbeddingConfig({ EMBEDDING_PROVIDER: 'mock', EMBEDDING_DIMENSIONS: '384' }), { provider: 'mock', model: 'mock-embedding', dimensions: 384 });
+  assert.deepEqual(resolveChatConfig({ selectedProvider: 'mock' }, undefined, {}), { provider: 'mock', model: 'mock-chat' });
+  const mock = createLlmProvider({ provider: 'mock', model: 'mock-chat' });
+  assert.ok(mock instanceof MockProvider);
+  const budget = await mock.embed('mock-embedding', 'Send the quarterly budget report');
+  assert.equal(budget.length, 768);
+  assert.deepEqual(await mock.embed('mock-embedding', 'Send the quarterly budget report'), budget);
+  assert.ok(Math.abs(cosine(budget, budget) - 1) < 1e-9);
+  // Texts sharing words are closer than unrelated ones
+  assert.ok(cosine(budget, hashEmbedding('quarterly budget numbers')) > cosine(budget, hashEmbedding('flight to Lisbon confirmed')));
+  assert.equal(hashEmbedding('...', 16).length, 16);
+  assert.ok(hashEmbedding('...', 16).every(v => v > 0));
+  console.log('✅ Mock embeddings');
+
+  console.log('7️⃣ The mock answers the app\'s prompts with rules...');
+  const email = 'From: boss@example.com\nSubject: Budget\n\nPlease send the budget report by Friday. The office is closed Monday. Can you review the slides ASAP?';
+  const basic = await mock.chat({
+    model: 'mock-chat',
+    json: true,
+    messages: [{ role: 'system', content: 'You are a task extraction assistant.' }, { role: 'user', content: email }]
+  });
+  assert.equal(basic.provider, 'mock');
+  assert.deepEqual(parseJsonContent(basic.content).tasks.map((t: any) => [t.title, t.priority]), [
+    ['Send the budget report by Friday', 'medium'],
+    ['Review the slides ASAP', 'high']
+  ]);
+  assert.ok(basic.usage!.promptTokens > 0);
+
+  const enhanced = parseJsonContent((await mock.chat({
+    model: 'mock-chat',
+    json: true,
+    messages: [{ role: 'system', content: 'Extract actionable tasks as {"suggested_title": ...}' }, { role: 'user', content: email }]
+  })).content);
+  assert.equal(enhanced.tasks[0].suggested_title, 'Send the budget report by Friday');
+  assert.equal(enhanced.tasks[0].extracted_deadline_text, 'Friday');
+  assert.equal(enhanced.tasks[1].suggested_priority_level, 'P2_High');
+
+  const newsletter = parseJsonContent((await mock.chat({
+    model: 'mock-chat',
+    json: true,
+    messages: [{ role: 'system', content: 'Extract actionable tasks as {"suggested_title": ...}' }, { role: 'user', content: 'Subject: Sale\n\nEverything is 30% off. Unsubscribe here.' }]
+  })).content);
+  assert.equal(newsletter.email_classification, 'marketing_promotional');
+
+  const summary = await mock.chat({
+    model: 'mock-chat',
+    messages: [{ role: 'user', content: `Summarize this email in 2-3 sentences:\n\n${email}` }]
+  });
+  assert.equal(summary.content, 'Please send the budget report by Friday. The office is closed Monday.');
+
+  const answer = await mock.chat({
+    model: 'mock-chat',
+    messages: [{ role: 'user', content: 'Subject: Budget report\nSubject: Lunch plans\n\nQuestion: Where is the budget?' }]
+  });
+  assert.equal(answer.content, 'The most relevant emails are: "Budget report".');
+
+  // Other JSON prompts get the lists their example structure names, empty
+  const analytics = await mock.chat({ model: 'mock-chat', json: true, messages: [{ role: 'user', content: '{"trendingPhrases": [{"name": "x"}], "requestTypes": []}' }] });
+  assert.deepEqual(parseJsonContent(analytics.content), { trendingPhrases: [], requestTypes: [] });
+
+  let streamed = '';
+  for await (const piece of mock.stream({ model: 'mock-chat', messages: [{ role: 'user', content: 'Subject: Budget report\n\nQuestion: budget?' }] })) {
+    streamed += piece;
+  }
+  assert.equal(streamed, 'The most relevant emails are: "Budget report".');
+  console.log('✅ Mock completions');
+
+  console.log('8️⃣ Scripted replies take precedence...');
+  setMockResponses([
+    { match: /budget/i, reply: { tasks: [{ title: 'Scripted' }] } },
+    { match: request => request.messages.length > 1, reply: request => `${request.messages.length} messages` }
+  ]);
+  assert.equal((await mock.chat({ model: 'mock-chat', messages: [{ role: 'user', content: email }] })).content, '{"tasks":[{"title":"Scripted"}]}');
+  assert.equal((await mock.chat({ model: 'mock-chat', messages: [{ role: 'system', content: 'x' }, { role: 'user', content: 'y' }] })).content, '2 messages');
+  resetMockResponses();
+  assert.notEqual((await mock.chat({ model: 'mock-chat', messages: [{ role: 'user', content: email }] })).content, '{"tasks":[{"title":"Scripted"}]}');
+  console.log('✅ Scripted replies');
+
+  console.log('🎉 All LLM provider tests passed');
+}
+
+testLlmProvider().catch(error => {
+  console.error('❌ LLM provider test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,83 @@
+/**
+ * LLM output schema test
+ *
+ * Checks the schemas structured model output is validated against, how their
+ * problems are reported and the repair prompt sent back to the model.
+ *
+ * Run with: npx tsx server/tests/llm-schemas-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import {
+  buildRepairPrompt,
+  describeIssues,
+  emailTrendsSchema,
+  enhancedExtractionSchema,
+  enhancedTaskSuggestionSchema,
+  taskExtractionSchema,
+  toTaskPriority,
+  validationIssues
+} from '../services/llmSchemas';
+
+const suggestion = {
+  suggested_title: 'Send the quarterly budget report',
+  detailed_description: 'Finance needs the report before the review.',
+  suggested_priority_level: 'P2_High',
+  extracted_deadline_text: 'by Friday',
+  suggested_category: 'Report_Generation_Submission',
+  confidence_in_task_extraction: 0.9
+};
+
+async function testLlmSchemas() {
+  console.log('🧪 Starting LLM output schema tests...');
+
+  console.log('1️⃣ Valid suggestions are accepted with defaults filled in...');
+  const parsed = enhancedTaskSuggestionSchema.parse(suggestion);
+  assert.equal(parsed.source_snippet, '');
+  assert.deepEqual(parsed.actors_involved, []);
+  assert.equal(parsed.is_recurring_hint, false);
+  assert.equal(toTaskPriority(parsed.suggested_priority_level), 'high');
+  assert.equal(toTaskPriority('P4_Low'), 'low');
+  assert.ok(enhancedExtractionSchema.safeParse({ tasks: [suggestion] }).success);
+  assert.ok(enhancedExtractionSchema.safeParse({ email_classification: 'non_actionable', explanation: 'FYI only' }).success);
+  assert.ok(taskExtractionSchema.safeParse({ tasks: [{ title: 'Review slides', priority: 'high', dueDate: '2026-03-01' }] }).success);
+  console.log('✅ Valid output');
+
+  console.log('2️⃣ Invalid output is reported field by field...');
+  const invalid = enhancedExtractionSchema.safeParse({
+    tasks: [suggestion, { ...suggestion, suggested_category: 'Marketing_Promotional_Content', confidence_in_task_extraction: 1.5 }]
+  });
+  assert.equal(invalid.success, false);
+  const issues = validationIssues(invalid.error!);
+  assert.deepEqual(issues.map(issue => issue.path), ['tasks[1].suggested_category', 'tasks[1].confidence_in_task_extraction']);
+
+  // Unknown priorities and overlong titles are rejected rather than guessed at
+  assert.equal(enhancedTaskSuggestionSchema.safeParse({ ...suggestion, suggested_priority_level: 'Urgent' }).success, false);
+  assert.equal(enhancedTaskSuggestionSchema.safeParse({ ...suggestion, suggested_title: 'x'.repeat(101) }).success, false);
+  assert.equal(taskExtractionSchema.safeParse({ tasks: [{ title: 'Call', dueDate: 'next Friday' }] }).success, false);
+
+  // An answer with neither tasks nor a classification is a whole-output problem
+  const empty = enhancedExtractionSchema.safeParse({ explanation: 'Nothing here' });
+  assert.equal(empty.success, false);
+  assert.deepEqual(validationIssues(empty.error!), [{ path: '', message: 'Expected either a "tasks" array or an "email_classification"' }]);
+
+  const missing = emailTrendsSchema.safeParse({ trendingPhrases: [] });
+  assert.equal(describeIssues(validationIssues(missing.error!)), 'requestTypes: Required');
+  console.log('✅ Issues');
+
+  console.log('3️⃣ The repair prompt lists every problem...');
+  const prompt = buildRepairPrompt([...issues, { path: '', message: 'Not valid JSON' }]);
+  assert.match(prompt, /^Your previous answer did not match the required JSON format/);
+  assert.match(prompt, /- tasks\[1\]\.suggested_category: Invalid enum value/);
+  assert.match(prompt, /- tasks\[1\]\.confidence_in_task_extraction: Number must be less than or equal to 1/);
+  assert.match(prompt, /- \(output\): Not valid JSON/);
+  assert.match(prompt, /corrected JSON object only/);
+  console.log('✅ Repair prompt');
+
+  console.log('🎉 All LLM output schema tests passed');
+}
+
+testLlmSchemas().catch(error => {
+  console.error('❌ LLM output schema test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,51 @@
+/**
+ * Login policy test
+ *
+ * Checks that failed sign-in attempts are counted per key and refused past the
+ * limit until the window ends, without a database.
+ *
+ * Run with: npx tsx server/tests/login-policy-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { LOGIN_FAILURE_LIMITS, LoginAttemptLimiter } from '../services/loginPolicy';
+
+const WINDOW_MS = 15 * 60 * 1000;
+
+async function testLoginPolicy() {
+  console.log('🧪 Starting login policy tests...');
+
+  console.log('1️⃣ Attempts are refused once a key reaches its limit...');
+  const limiter = new LoginAttemptLimiter();
+  const start = 1_000_000;
+  for (let i = 0; i < LOGIN_FAILURE_LIMITS.account - 1; i++) {
+    limiter.recordFailure('login:ada', start);
+  }
+  assert.deepEqual(limiter.check('login:ada', LOGIN_FAILURE_LIMITS.account, start), { blocked: false, retryAfterSeconds: 0 });
+  limiter.recordFailure('login:ada', start);
+  assert.deepEqual(limiter.check('login:ada', LOGIN_FAILURE_LIMITS.account, start + 60_000), { blocked: true, retryAfterSeconds: 14 * 60 });
+  // Other keys keep their own counts
+  assert.equal(limiter.check('login:grace', LOGIN_FAILURE_LIMITS.account, start).blocked, false);
+  console.log('✅ Limits');
+
+  console.log('2️⃣ The window ends fifteen minutes after the first failure...');
+  assert.equal(limiter.check('login:ada', LOGIN_FAILURE_LIMITS.account, start + WINDOW_MS - 1).blocked, true);
+  assert.equal(limiter.check('login:ada', LOGIN_FAILURE_LIMITS.account, start + WINDOW_MS).blocked, false);
+  limiter.recordFailure('login:ada', start + WINDOW_MS);
+  assert.equal(limiter.check('login:ada', 2, start + WINDOW_MS).blocked, false);
+  console.log('✅ Windows');
+
+  console.log('3️⃣ A successful sign-in clears the count...');
+  limiter.recordFailure('login:ada', start + WINDOW_MS);
+  assert.equal(limiter.check('login:ada', 2, start + WINDOW_MS).blocked, true);
+  limiter.reset('login:ada');
+  assert.equal(limiter.check('login:ada', 2, start + WINDOW_MS).blocked, false);
+  console.log('✅ Resets');
+
+  console.log('🎉 All login policy tests passed');
+}
+
+testLoginPolicy().catch(error => {
+  console.error('❌ Login policy test failed:', error);
+  process.exit(1);
+});
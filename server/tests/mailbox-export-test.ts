@@ -0,0 +1,186 @@
+/**
+ * Mailbox export round-trip test
+ *
+ * Composes stored emails into messages, writes them as mbox entries and into an
+ * export zip, and reads them back with the mailbox reader used by the import.
+ *
+ * Run with: npx tsx server/tests/mailbox-export-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import JSZip from 'jszip';
+import { simpleParser } from 'mailparser';
+import { ComposableEmail, composeMessage, mboxEntry } from '../utils/mailboxWriter';
+import { MailboxMessage, detectMailboxFormat, readMailbox, readMbox, readZipBundle } from '../utils/mailboxReader';
+import { parseBundle } from '../services/mailBundleSchema';
+
+function storedEmail(overrides: Partial<ComposableEmail> = {}): ComposableEmail {
+  return {
+    messageId: '<budget-1@example.com>',
+    sender: 'Alice Example <alice@example.com>',
+    recipients: ['Bob <bob@example.com>', 'carol@example.com'],
+    subject: 'Budget for Q3',
+    body: 'Hi Bob,\n\nFrom what I can see we are on track.\n>From the archive: last year was tighter.\n',
+    bodyHtml: null,
+    timestamp: new Date('2024-07-01T09:30:00Z'),
+    inReplyTo: null,
+    messageReferences: null,
+    isRead: true,
+    isStarred: false,
+    isDeleted: false,
+    ...overrides
+  };
+}
+
+async function collect(messages: AsyncIterable<MailboxMessage>): Promise<MailboxMessage[]> {
+  const collected: MailboxMessage[] = [];
+  for await (const message of messages) {
+    collected.push(message);
+  }
+  return collected;
+}
+
+async function testMailboxExport() {
+  console.log('1️⃣ A stored email is composed into a message with its flags...');
+  const raw = await composeMessage(storedEmail(), [{
+    filename: 'notes.txt',
+    contentType: 'text/plain',
+    content: Buffer.from('Remember the offsite.'),
+    contentId: null,
+    isInline: false
+  }]);
+  const parsed = await simpleParser(raw);
+  assert.equal(parsed.messageId, '<budget-1@example.com>');
+  assert.equal(parsed.subject, 'Budget for Q3');
+  assert.equal(parsed.from?.value[0].address, 'alice@example.com');
+  assert.equal(parsed.date?.toISOString(), '2024-07-01T09:30:00.000Z');
+  assert.equal(parsed.headers.get('status'), 'RO');
+  assert.equal(parsed.attachments.length, 1);
+  assert.equal(parsed.attachments[0].content.toString(), 'Remember the offsite.');
+  console.log('✅ Message composed');
+
+  console.log('2️⃣ mbox entries read back as the same messages...');
+  const reply = await composeMessage(storedEmail({
+    messageId: '<budget-2@example.com>',
+    sender: 'bob@example.com',
+    subject: 'Re: Budget for Q3',
+    body: 'Agreed.',
+    inReplyTo: '<budget-1@example.com>',
+    messageReferences: ['<budget-1@example.com>'],
+    isRead: false,
+    isStarred: true
+  }));
+  const mbox = Buffer.concat([
+    mboxEntry(raw, 'Alice Example <alice@example.com>', new Date('2024-07-01T09:30:00Z')),
+    mboxEntry(reply, 'bob@example.com', new Date('2024-07-02T10:00:00Z'))
+  ]);
+  assert.match(mbox.toString(), /^From alice@example\.com Mon Jul  1 09:30:00 2024\n/);
+
+  const messages = await collect(readMbox([mbox]));
+  assert.equal(messages.length, 2);
+
+  const first = await simpleParser(messages[0].raw);
+  assert.equal(first.messageId, '<budget-1@example.com>');
+  assert.equal(first.text, storedEmail().body);
+  assert.deepEqual(messages[0].flags, ['\\Seen']);
+
+  const second = await simpleParser(messages[1].raw);
+  assert.equal(second.inReplyTo, '<budget-1@example.com>');
+  assert.deepEqual(messages[1].flags, ['\\Flagged']);
+  console.log('✅ mbox round trip kept bodies, headers and flags');
+
+  console.log('3️⃣ An export zip is read as messages plus its bundle...');
+  const zip = new JSZip();
+  zip.file('messages/INBOX/1.eml', raw);
+  zip.file('messages/[Gmail]/Sent Mail/2.eml', reply);
+  zip.file('bundle.json', JSON.stringify({ version: 1, emails: [], tasks: [], feedback: [], semanticLinks: [] }));
+
+  const zipPath = path.join(os.tmpdir(), `mailbox-export-test-${process.pid}.zip`);
+  fs.writeFileSync(zipPath, await zip.generateAsync({ type: 'nodebuffer' }));
+
+  try {
+    assert.equal(await detectMailboxFormat(zipPath), 'zip');
+
+    const zipped = await collect(readMailbox(zipPath, 'zip'));
+    assert.deepEqual(zipped.map(message => message.folder), ['INBOX', '[Gmail]/Sent Mail']);
+    assert.equal((await simpleParser(zipped[1].raw)).subject, 'Re: Budget for Q3');
+
+    const bundle = await readZipBundle(zipPath) as { version: number };
+    assert.equal(bundle.version, 1);
+  } finally {
+    fs.rmSync(zipPath, { force: true });
+  }
+  console.log('✅ Export zip read');
+
+  console.log('4️⃣ An mbox export inside a zip is split into its messages...');
+  const mboxZip = new JSZip();
+  mboxZip.file('mailbox.mbox', mbox);
+  const mboxZipPath = path.join(os.tmpdir(), `mailbox-export-test-mbox-${process.pid}.zip`);
+  fs.writeFileSync(mboxZipPath, await mboxZip.generateAsync({ type: 'nodebuffer' }));
+
+  try {
+    const zipped = await collect(readMailbox(mboxZipPath, 'zip', 'Archive'));
+    assert.equal(zipped.length, 2);
+    assert.deepEqual(zipped.map(message => message.folder), ['Archive', 'Archive']);
+    assert.equal(await readZipBundle(mboxZipPath), null);
+  } finally {
+    fs.rmSync(mboxZipPath, { force: true });
+  }
+  console.log('✅ Zipped mbox read');
+
+  console.log('5️⃣ Uploaded bundles only carry the fields a restore applies...');
+  const exported = {
+    version: 1,
+    emails: [{
+      messageId: '<budget@example.test>', folder: 'INBOX', labels: ['INBOX'], threadId: null,
+      isRead: true, isArchived: false, isStarred: true, isDeleted: false, isCleaned: true,
+      aiExtractedSummary: 'Budget due Friday', aiSuggestedTasksJson: null, aiExtractedDeadlinesJson: null,
+      aiExtractedEntitiesJson: null, aiSentiment: null, aiSuggestedCategory: null, aiProcessingConfidence: 80,
+      aiClassificationDetailsJson: null, aiFeaturesExtractedAt: '2026-05-01T09:00:00.000Z', tasksGeneratedAt: null,
+      // Columns a crafted file might try to set
+      accountId: 999, body: 'Replaced body', id: 1
+    }],
+    tasks: [{
+      id: 7, emailMessageId: '<budget@example.test>', title: 'Send the budget', description: null,
+      detailedDescription: null, sourceSnippet: null, dueDate: '2026-05-08T17:00:00.000Z', priority: 'high',
+      category: null, actorsInvolved: null, isCompleted: false, completedAt: null, estimatedEffortMinutes: null,
+      aiGenerated: true, aiConfidence: 90, aiModel: 'mock-chat', originalAiSuggestionJson: null, needsReview: false,
+      isRecurringSuggestion: false, aiSuggestedReminderText: null, reminderSettingsJson: null, nextReminderAt: null,
+      entities: null, createdAt: '2026-05-01T09:00:00.000Z', updatedAt: '2026-05-01T09:00:00.000Z',
+      userId: 999, emailId: 5, promptVersionId: 3
+    }],
+    feedback: [{
+      taskId: 7, relatedEmailMessageId: null, feedbackType: 'confirmed', sourceType: null, originalTask: null,
+      correctedTask: null, metadata: {}, timestamp: '2026-05-02T10:00:00.000Z', userId: 999, id: 4
+    }],
+    semanticLinks: []
+  };
+
+  const restorable = parseBundle(exported);
+  assert.equal('accountId' in restorable.emails[0], false);
+  assert.equal('body' in restorable.emails[0], false);
+  assert.equal('id' in restorable.emails[0], false);
+  assert.deepEqual(restorable.emails[0].aiFeaturesExtractedAt, new Date('2026-05-01T09:00:00Z'));
+  assert.equal('userId' in restorable.tasks[0], false);
+  assert.equal('emailId' in restorable.tasks[0], false);
+  assert.equal('promptVersionId' in restorable.tasks[0], false);
+  assert.equal(restorable.tasks[0].id, 7);
+  assert.equal('userId' in restorable.feedback[0], false);
+  assert.equal('id' in restorable.feedback[0], false);
+
+  assert.throws(() => parseBundle({ ...exported, tasks: [{ ...exported.tasks[0], priority: 'urgent' }] }), /tasks\.0\.priority/);
+  assert.throws(() => parseBundle({ ...exported, emails: [{ ...exported.emails[0], isRead: 'yes' }] }), /emails\.0\.isRead/);
+  assert.throws(() => parseBundle({ ...exported, version: 2 }), /newer than this version/);
+  assert.throws(() => parseBundle([]), /Not an export bundle/);
+  console.log('✅ Bundle parsing');
+
+  console.log('\n🎉 All mailbox export tests passed!');
+}
+
+testMailboxExport().catch((error) => {
+  console.error('❌ Mailbox export test failed:', error);
+  process.exit(1);
+});
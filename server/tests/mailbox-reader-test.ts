@@ -0,0 +1,115 @@
+/**
+ * Mailbox archive reader test
+ *
+ * Reads the mbox, EML and Maildir fixtures in fixtures/mailbox and checks how they
+ * are split into messages, and which folders and flags the messages get.
+ *
+ * Run with: npx tsx server/tests/mailbox-reader-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { fileURLToPath } from 'node:url';
+import { simpleParser } from 'mailparser';
+import {
+  MailboxMessage,
+  detectMailboxFormat,
+  maildirFlags,
+  measureMailbox,
+  readMailbox,
+  readMbox
+} from '../utils/mailboxReader';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'mailbox');
+
+async function collect(messages: AsyncIterable<MailboxMessage>): Promise<MailboxMessage[]> {
+  const collected: MailboxMessage[] = [];
+  for await (const message of messages) {
+    collected.push(message);
+  }
+  return collected;
+}
+
+async function testMailboxReader() {
+  console.log('1️⃣ Archive formats are detected...');
+  assert.equal(await detectMailboxFormat(path.join(FIXTURES_DIR, 'archive.mbox')), 'mbox');
+  assert.equal(await detectMailboxFormat(path.join(FIXTURES_DIR, 'single.eml')), 'eml');
+  assert.equal(await detectMailboxFormat(path.join(FIXTURES_DIR, 'maildir')), 'maildir');
+  console.log('✅ Formats detected');
+
+  console.log('2️⃣ An mbox file is split at "From " lines that follow a blank line...');
+  const mbox = await collect(readMailbox(path.join(FIXTURES_DIR, 'archive.mbox'), 'mbox', 'Archive'));
+  assert.equal(mbox.length, 3);
+  assert.deepEqual(mbox.map(message => message.folder), ['Archive', 'Archive', 'Archive']);
+
+  const first = await simpleParser(mbox[0].raw);
+  assert.equal(first.messageId, '<q1-numbers@example.com>');
+  assert.equal(first.subject, 'Quarterly numbers');
+  assert.match(first.text || '', /^From the spreadsheet, revenue is up 4%\.$/m);
+  assert.match(first.text || '', /^>From here it only gets better\.$/m);
+  assert.match(first.text || '', /^From the desk of Alice/m);
+  // The blank line before the next "From " line isn't part of the message
+  assert.ok(mbox[0].raw.toString().endsWith('separator.\n'));
+  assert.equal(mbox[0].receivedAt?.getUTCDate(), 4);
+  assert.equal(mbox[0].location.endsWith('archive.mbox#1'), true);
+  console.log('✅ mbox split and unescaped');
+
+  console.log('3️⃣ Status, X-Status and X-Gmail-Labels headers become flags and labels...');
+  assert.deepEqual(mbox[0].flags, ['\\Seen']);
+  assert.deepEqual(mbox[0].labels, []);
+  assert.deepEqual(mbox[1].flags, ['\\Flagged']);
+  assert.deepEqual(mbox[1].labels, ['Inbox', 'Finance']);
+  assert.deepEqual(mbox[2].flags, ['\\Flagged']);
+  assert.equal((await simpleParser(mbox[2].raw)).messageId, undefined);
+  console.log('✅ Header flags read');
+
+  console.log('4️⃣ mbox messages split across stream chunks are reassembled...');
+  const content = fs.readFileSync(path.join(FIXTURES_DIR, 'archive.mbox'));
+  const chunks: Buffer[] = [];
+  for (let offset = 0; offset < content.length; offset += 7) {
+    chunks.push(content.subarray(offset, offset + 7));
+  }
+  const chunked = await collect(readMbox(Readable.from(chunks)));
+  assert.deepEqual(chunked.map(message => message.raw), mbox.map(message => message.raw));
+  console.log('✅ Chunked stream read the same');
+
+  console.log('5️⃣ A single EML file is one message...');
+  const eml = await collect(readMailbox(path.join(FIXTURES_DIR, 'single.eml'), 'eml'));
+  assert.equal(eml.length, 1);
+  assert.equal(eml[0].folder, 'INBOX');
+  assert.equal((await simpleParser(eml[0].raw)).subject, 'Lunch on Friday?');
+  console.log('✅ EML read');
+
+  console.log('6️⃣ Maildir folders and file name flags are read...');
+  assert.deepEqual(maildirFlags('1552000000.M1P1.host:2,FS'), ['\\Flagged', '\\Seen']);
+  assert.deepEqual(maildirFlags('1552000000.M1P1.host!2,RT'), ['\\Answered', '\\Deleted']);
+  assert.deepEqual(maildirFlags('1552000100.M2P1.host'), []);
+
+  const maildir = await collect(readMailbox(path.join(FIXTURES_DIR, 'maildir'), 'maildir'));
+  const summary = await Promise.all(maildir.map(async message => ({
+    folder: message.folder,
+    subject: (await simpleParser(message.raw)).subject,
+    flags: message.flags
+  })));
+  assert.deepEqual(summary, [
+    { folder: 'INBOX', subject: 'Brand new', flags: [] },
+    { folder: 'INBOX', subject: 'Seen and flagged', flags: ['\\Flagged', '\\Seen'] },
+    { folder: 'Sent', subject: 'Sent reply', flags: ['\\Seen'] }
+  ]);
+  console.log('✅ Maildir read');
+
+  console.log('7️⃣ Archive sizes are measured for progress...');
+  assert.equal(await measureMailbox(path.join(FIXTURES_DIR, 'archive.mbox')), content.length);
+  const maildirBytes = maildir.reduce((total, message) => total + message.raw.length, 0);
+  assert.equal(await measureMailbox(path.join(FIXTURES_DIR, 'maildir')), maildirBytes);
+  console.log('✅ Sizes measured');
+
+  console.log('\n🎉 All mailbox reader tests passed!');
+}
+
+testMailboxReader().catch((error) => {
+  console.error('❌ Mailbox reader test failed:', error);
+  process.exit(1);
+});
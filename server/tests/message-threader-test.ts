@@ -0,0 +1,110 @@
+/**
+ * Message threader test
+ *
+ * Checks the JWZ threading of messages by Message-ID, In-Reply-To and References:
+ * reply trees, missing parents, header quirks, reference loops and duplicate ids.
+ *
+ * Run with: npx tsx server/tests/message-threader-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { threadMessages, parseMessageIds, referenceChain, ThreadNode } from '../services/messageThreader';
+
+interface TestMessage {
+  messageId: string;
+  inReplyTo?: string | null;
+  messageReferences?: string[] | null;
+  timestamp: Date;
+  subject: string;
+}
+
+function message(id: string, minute: number, references: string[] = [], inReplyTo?: string): TestMessage {
+  return {
+    messageId: `<${id}@example.com>`,
+    messageReferences: references.map(reference => `<${reference}@example.com>`),
+    inReplyTo: inReplyTo ? `<${inReplyTo}@example.com>` : null,
+    timestamp: new Date(Date.UTC(2025, 0, 1, 9, minute)),
+    subject: id
+  };
+}
+
+// Render a tree as "a(b,c(d))", with "?" for a missing message
+function shape(node: ThreadNode<TestMessage>): string {
+  const label = node.message ? node.message.subject : '?';
+  return node.children.length > 0 ? `${label}(${node.children.map(shape).join(',')})` : label;
+}
+
+async function testMessageThreader() {
+  console.log('1️⃣ Message-IDs are parsed from headers...');
+  assert.deepEqual(parseMessageIds('<a@x> <b@x>\r\n <c@x>'), ['<a@x>', '<b@x>', '<c@x>']);
+  assert.deepEqual(parseMessageIds('bare-id@x'), ['<bare-id@x>']);
+  assert.deepEqual(parseMessageIds(null), []);
+  assert.deepEqual(
+    referenceChain(message('d', 0, ['a', 'b'], 'c')),
+    ['<a@example.com>', '<b@example.com>', '<c@example.com>']
+  );
+  console.log('✅ Message-IDs parsed');
+
+  console.log('2️⃣ Replies form an ordered tree...');
+  const conversation = threadMessages([
+    message('reply-2', 20, ['root'], 'root'),
+    message('root', 0),
+    message('reply-1-1', 15, ['root', 'reply-1'], 'reply-1'),
+    message('reply-1', 10, ['root'], 'root'),
+    message('other', 5)
+  ]);
+  assert.equal(conversation.length, 2);
+  assert.equal(shape(conversation[0].root), 'root(reply-1(reply-1-1),reply-2)');
+  assert.equal(conversation[0].rootKey, '<root@example.com>');
+  assert.deepEqual(conversation[0].messages.map(m => m.subject), ['root', 'reply-1', 'reply-1-1', 'reply-2']);
+  assert.equal(shape(conversation[1].root), 'other');
+  console.log('✅ Reply tree built');
+
+  console.log('3️⃣ Missing parents keep siblings together...');
+  const orphans = threadMessages([
+    message('answer-a', 10, ['lost-root'], 'lost-root'),
+    message('answer-b', 5, ['lost-root'], 'lost-root')
+  ]);
+  assert.equal(orphans.length, 1);
+  assert.equal(shape(orphans[0].root), '?(answer-b,answer-a)');
+  assert.equal(orphans[0].rootKey, '<lost-root@example.com>');
+
+  // A single reply to a missing parent is promoted, but keeps the missing root as its key
+  const single = threadMessages([message('lone-reply', 0, ['gone', 'also-gone'])]);
+  assert.equal(shape(single[0].root), 'lone-reply');
+  assert.equal(single[0].rootKey, '<gone@example.com>');
+  console.log('✅ Missing parents handled');
+
+  console.log('4️⃣ In-Reply-To without References, and truncated References...');
+  const quirks = threadMessages([
+    message('start', 0),
+    message('no-references', 5, [], 'start'),
+    message('truncated', 10, ['start'], 'no-references')
+  ]);
+  assert.equal(quirks.length, 1);
+  assert.equal(shape(quirks[0].root), 'start(no-references(truncated))');
+  console.log('✅ Header quirks handled');
+
+  console.log('5️⃣ Reference loops and duplicate Message-IDs do not break threading...');
+  const loop = threadMessages([
+    message('x', 0, ['y']),
+    message('y', 5, ['x'])
+  ]);
+  assert.equal(loop.reduce((count, thread) => count + thread.messages.length, 0), 2);
+
+  const duplicates = threadMessages([
+    message('dup', 0),
+    message('dup', 5),
+    message('dup-reply', 10, ['dup'])
+  ]);
+  assert.equal(duplicates.reduce((count, thread) => count + thread.messages.length, 0), 3);
+  assert.equal(shape(duplicates[0].root), 'dup(dup-reply)');
+  console.log('✅ Loops and duplicates handled');
+
+  console.log('🎉 All message threader tests passed');
+}
+
+testMessageThreader().catch(error => {
+  console.error('❌ Message threader tests failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,228 @@
+/**
+ * Offline AI pipeline test
+ *
+ * Runs the ingestion -> embedding -> task extraction -> search pipeline end to
+ * end with the mock LLM provider, so it needs no network access or API keys.
+ * Seeds a user whose AI Settings select the mock, an email account and three
+ * emails, and removes them afterwards.
+ *
+ * Needs a migrated database in DATABASE_URL.
+ * Run with: npx tsx server/tests/offline-ai-pipeline-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { eq, inArray, sql } from 'drizzle-orm';
+import { db, pool } from '../db';
+import { aiSettings, emailAccounts, emails, llmRejectedOutputs, llmUsage, promptTemplateVersions, tasks, users } from '@shared/schema';
+import { cleanEmailById } from '../utils/cleanupEmails';
+import { batchEmbeddingService } from '../services/batchEmbeddingService';
+import { enhancedTaskExtractionService } from '../services/enhancedTaskExtraction';
+import { aiService } from '../services/aiService';
+import { hybridSearchService } from '../services/hybridSearchService';
+import { llmService } from '../services/llmService';
+import { promptService } from '../services/promptService';
+import { usageService } from '../services/usageService';
+import { resetMockResponses, setMockResponses } from '../services/mockLlmProvider';
+
+// Embeddings come from the shared embedding config, so point it at the mock too
+process.env.EMBEDDING_PROVIDER = 'mock';
+
+const RUN_ID = `offline-ai-${Date.now()}`;
+
+const MESSAGES = {
+  report: {
+    subject: `Quarterly budget report ${RUN_ID}`,
+    body: 'Please send the quarterly budget report by Friday. Could you also schedule a review meeting with finance next week? Thanks.'
+  },
+  newsletter: {
+    subject: `Spring sale ${RUN_ID}`,
+    body: 'Our spring sale is here with 30% off everything. Unsubscribe at any time.'
+  },
+  travel: {
+    subject: `Flight itinerary ${RUN_ID}`,
+    body: 'Your flight to Lisbon departs at 09:40 from terminal 2. Seat 14C has been confirmed.'
+  }
+};
+
+async function testOfflineAiPipeline() {
+  console.log('🧪 Starting offline AI pipeline tests...');
+
+  const [user] = await db.insert(users).values({
+    username: RUN_ID,
+    password: 'not-a-password-hash',
+    email: `${RUN_ID}@example.test`
+  }).returning();
+
+  try {
+    await db.insert(aiSettings).values({ userId: user.id, selectedProvider: 'mock' });
+
+    const [account] = await db.insert(emailAccounts).values({
+      userId: user.id,
+      accountType: 'imap',
+      authMethod: 'app_password',
+      emailAddress: `${RUN_ID}@example.test`,
+      credentials: {}
+    }).returning();
+
+    console.log('1️⃣ Ingested emails are cleaned and embedded...');
+    const seeded = await db.insert(emails).values(Object.entries(MESSAGES).map(([name, message]) => ({
+      accountId: account.id,
+      messageId: `<${name}@${RUN_ID}.test>`,
+      sender: `${name}@example.test`,
+      recipients: [`${RUN_ID}@example.test`],
+      subject: message.subject,
+      body: message.body,
+      timestamp: new Date()
+    }))).returning();
+    const [report, newsletter, travel] = seeded;
+
+    for (const email of seeded) {
+      await cleanEmailById(email.id);
+      assert.equal(await batchEmbeddingService.generateEmbeddingForEmail(email.id), true);
+    }
+
+    const dimensions = await db.execute(sql`
+      SELECT vector_dims(embedding_vector) AS dims FROM emails WHERE account_id = ${account.id}
+    `);
+    assert.deepEqual(dimensions.rows.map(r => Number(r.dims)), [768, 768, 768]);
+    // The same text always gets the same vector
+    assert.deepEqual(await aiService.generateEmbedding('budget report'), await aiService.generateEmbedding('budget report'));
+    console.log('✅ Embedding');
+
+    console.log('2️⃣ Tasks are extracted with the user\'s mock model...');
+    const analysis = await enhancedTaskExtractionService.extractEnhancedTasksFromEmail(report.id);
+    assert.equal(analysis.tasks!.length, 2);
+    assert.equal(analysis.tasks![0].suggested_title, 'Send the quarterly budget report by Friday');
+    assert.equal(analysis.tasks![0].extracted_deadline_text, 'Friday');
+    assert.equal(analysis.tasks![1].suggested_category, 'Meeting_Coordination_Prep');
+
+    assert.equal(await enhancedTaskExtractionService.createTasksFromEnhancedExtraction(report.id), 2);
+    const created = await db.select().from(tasks).where(eq(tasks.userId, user.id));
+    assert.equal(created.length, 2);
+    assert.ok(created.every(t => t.emailId === report.id && t.aiModel === 'mock-chat'));
+    const { version: enhancedPrompt } = await promptService.getActiveVersion(user.id, 'enhanced-task-extraction');
+    assert.ok(created.every(t => t.promptVersionId === enhancedPrompt.id));
+
+    const promotional = await enhancedTaskExtractionService.extractEnhancedTasksFromEmail(newsletter.id);
+    assert.equal(promotional.email_classification, 'marketing_promotional');
+    console.log('✅ Extraction');
+
+    console.log('3️⃣ Semantic search finds the email a question is about...');
+    const question = await aiService.generateEmbedding('When is the quarterly budget report due?');
+    const ranked = await db.execute(sql`
+      SELECT e.id FROM emails e
+      JOIN email_accounts ea ON ea.id = e.account_id
+      WHERE ea.user_id = ${user.id} AND e.embedding_vector IS NOT NULL
+      ORDER BY e.embedding_vector <=> ${`[${question.join(',')}]`}::vector
+    `);
+    assert.equal(ranked.rows[0].id, report.id);
+    assert.notEqual(ranked.rows[0].id, travel.id);
+    await hybridSearchService.search(user.id, 'quarterly budget report', { includeFullText: false });
+
+    const answer = await llmService.chat(user.id, {
+      messages: [{ role: 'user', content: `Subject: ${report.subject}\nSubject: ${travel.subject}\n\nQuestion: Where is the budget report?` }]
+    });
+    assert.equal(answer.provider, 'mock');
+    assert.match(answer.content, new RegExp(`Quarterly budget report ${RUN_ID}`));
+    console.log('✅ Search');
+
+    console.log('4️⃣ Scripted replies take precedence over the built-in rules...');
+    setMockResponses([{ match: /lisbon/i, reply: { tasks: [] } }]);
+    const scripted = await enhancedTaskExtractionService.extractEnhancedTasksFromEmail(travel.id);
+    assert.deepEqual(scripted, { tasks: [] });
+    resetMockResponses();
+    console.log('✅ Scripted replies');
+
+    console.log('5️⃣ Invalid answers are recorded and repaired...');
+    const checkIn = {
+      suggested_title: 'Check in for the Lisbon flight',
+      detailed_description: 'Online check-in opens a day before departure.',
+      suggested_priority_level: 'P3_Medium',
+      suggested_category: 'Personal_Reminder_Appt',
+      confidence_in_task_extraction: 0.7
+    };
+    // The first answer uses a priority that doesn't exist; the repair request fixes it
+    setMockResponses([{
+      match: /lisbon/i,
+      reply: request => request.messages.some(m => m.role === 'assistant')
+        ? { tasks: [checkIn] }
+        : { tasks: [{ ...checkIn, suggested_priority_level: 'Normal' }] }
+    }]);
+    const repaired = await enhancedTaskExtractionService.extractEnhancedTasksFromEmail(travel.id);
+    assert.equal(repaired.tasks![0].suggested_priority_level, 'P3_Medium');
+
+    const rejected = await llmService.getRejectedOutputs(user.id);
+    assert.equal(rejected.length, 1);
+    assert.equal(rejected[0].feature, 'enhanced-task-extraction');
+    assert.equal(rejected[0].repaired, true);
+    assert.deepEqual((rejected[0].errors as any[]).map(e => e.path), ['tasks[0].suggested_priority_level']);
+
+    // An answer that never validates fails the extraction
+    setMockResponses([{ match: /lisbon/i, reply: 'Sorry, I cannot help with that.' }]);
+    await assert.rejects(enhancedTaskExtractionService.extractEnhancedTasksFromEmail(travel.id), /failed validation after 3 attempts/);
+    assert.equal((await llmService.getRejectedOutputs(user.id)).filter(r => !r.repaired).length, 3);
+    resetMockResponses();
+    console.log('✅ Repair');
+
+    console.log('6️⃣ Summaries and overrides record the prompt version...');
+    const { summary, promptVersionId } = await aiService.summarizeEmail(report.id);
+    assert.equal(summary, 'Please send the quarterly budget report by Friday. Could you also schedule a review meeting with finance next week?');
+    const [summarized] = await db.select().from(emails).where(eq(emails.id, report.id));
+    assert.equal(summarized.aiExtractedSummary, summary);
+    assert.equal(summarized.aiSummaryPromptVersionId, promptVersionId);
+
+    const rejectedOverride = await promptService.saveOverride(user.id, 'email-summary', { systemTemplate: null, userTemplate: 'Summarize {{sender}}' });
+    assert.deepEqual(rejectedOverride!.problems, ["The prompt doesn't use {{subject}}", "The prompt doesn't use {{body}}"]);
+
+    const saved = await promptService.saveOverride(user.id, 'email-summary', {
+      systemTemplate: null,
+      userTemplate: 'Summarize this email in one sentence:\n\nSubject: {{subject}}\n\n{{body}}'
+    });
+    assert.ok(saved!.version!.version > 1);
+    assert.equal((await aiService.summarizeEmail(report.id)).promptVersionId, saved!.version!.id);
+    assert.equal(await promptService.resetOverride(user.id, 'email-summary'), true);
+    assert.equal((await aiService.summarizeEmail(report.id)).promptVersionId, promptVersionId);
+    console.log('✅ Prompt versions');
+
+    console.log('7️⃣ Calls are recorded against the user, feature and model...');
+    const usage = await usageService.getReport(user.id);
+    const byFeature = new Map(usage.byFeature.map(row => [row.feature, row]));
+    assert.equal(byFeature.get('email-embedding')!.calls, 3);
+    assert.equal(byFeature.get('email-summary')!.calls, 3);
+    assert.equal(byFeature.get('hybrid-search')!.calls, 1);
+    // Every attempt counts, including the ones that failed validation
+    assert.ok(byFeature.get('enhanced-task-extraction')!.calls >= 7);
+    assert.ok(usage.byModel.every(row => row.provider === 'mock' && row.costUsd === 0));
+    assert.ok(usage.totals.promptTokens > 0 && usage.totals.completionTokens > 0);
+
+    const [usageRow] = await db.select().from(llmUsage).where(eq(llmUsage.userId, user.id)).limit(1);
+    assert.equal(usageRow.success, true);
+    assert.equal(usageRow.costUsd, 0);
+
+    assert.equal(usage.budget.budgetUsd, null);
+    assert.equal(usage.budget.exceeded, false);
+    await db.update(aiSettings).set({ monthlyBudgetUsd: 0 }).where(eq(aiSettings.userId, user.id));
+    assert.equal((await usageService.getBudgetStatus(user.id)).exceeded, true);
+    console.log('✅ Usage');
+
+    console.log('🎉 All offline AI pipeline tests passed');
+  } finally {
+    const accountIds = (await db.select({ id: emailAccounts.id }).from(emailAccounts).where(eq(emailAccounts.userId, user.id))).map(a => a.id);
+    await db.delete(tasks).where(eq(tasks.userId, user.id));
+    await db.delete(llmRejectedOutputs).where(eq(llmRejectedOutputs.userId, user.id));
+    await db.delete(promptTemplateVersions).where(eq(promptTemplateVersions.userId, user.id));
+    await db.delete(llmUsage).where(eq(llmUsage.userId, user.id));
+    if (accountIds.length > 0) {
+      await db.delete(emails).where(inArray(emails.accountId, accountIds));
+    }
+    await db.delete(emailAccounts).where(eq(emailAccounts.userId, user.id));
+    await db.delete(aiSettings).where(eq(aiSettings.userId, user.id));
+    await db.delete(users).where(eq(users.id, user.id));
+    await pool.end();
+  }
+}
+
+testOfflineAiPipeline().catch(error => {
+  console.error('❌ Offline AI pipeline test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+/**
+ * Prompt template test
+ *
+ * Checks template rendering, the checks run before a template is saved or
+ * rendered, and that the built-in prompts pass them, without a database.
+ *
+ * Run with: npx tsx server/tests/prompt-templates-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import type { PromptVariable } from '@shared/schema';
+import { renderTemplate, templateProblems, unusedRequiredVariables, valueProblems } from '../services/promptTemplates';
+import { DEFAULT_PROMPTS, emailPromptValues } from '../services/defaultPrompts';
+
+const variables: PromptVariable[] = [
+  { name: 'subject', type: 'string', required: true, description: 'Subject' },
+  { name: 'count', type: 'number', required: false, description: 'How many' },
+  { name: 'urgent', type: 'boolean', required: false, description: 'Urgent?' }
+];
+
+async function testPromptTemplates() {
+  console.log('🧪 Starting prompt template tests...');
+
+  console.log('1️⃣ Templates are rendered with their variables...');
+  assert.equal(renderTemplate('Subject: {{subject}} ({{count}})', { subject: 'Budget', count: 3 }), 'Subject: Budget (3)');
+  assert.equal(renderTemplate('{{#if urgent}}Urgent: {{/if}}{{subject}}', { subject: 'Budget', urgent: true }), 'Urgent: Budget');
+  assert.equal(renderTemplate('{{#if urgent}}Now{{else}}Later{{/if}}', { urgent: false }), 'Later');
+  // Missing optional values are left empty, and skipped blocks don't leave gaps
+  assert.equal(renderTemplate('A\n\n{{#if urgent}}B{{/if}}\n\nC {{count}}', {}), 'A\n\nC');
+  // Values are inserted as they are, even when they look like tags
+  assert.equal(renderTemplate('{{subject}}', { subject: 'Re: {{count}}' }), 'Re: {{count}}');
+  console.log('✅ Rendering');
+
+  console.log('2️⃣ Templates are checked before they are saved...');
+  assert.deepEqual(templateProblems('{{subject}} {{#if urgent}}!{{else}}.{{/if}}', variables), []);
+  assert.deepEqual(templateProblems('{{sender}}', variables), ['Unknown variable "sender"']);
+  assert.deepEqual(templateProblems('{{#if urgent}}open', variables), ['{{#if}} block is never closed']);
+  assert.deepEqual(templateProblems('{{/if}}', variables), ['{{/if}} without a matching {{#if}}']);
+  assert.deepEqual(templateProblems('{{#if urgent}}{{#if urgent}}{{/if}}', variables), ['{{#if}} blocks can\'t be nested']);
+  assert.deepEqual(templateProblems('{{ subject.name }}', variables), ['Malformed tag "{{ subject.name }}"']);
+  assert.deepEqual(unusedRequiredVariables(['{{count}}', null], variables), ['subject']);
+  assert.deepEqual(unusedRequiredVariables([null, '{{#if subject}}x{{/if}}'], variables), []);
+  console.log('✅ Template checks');
+
+  console.log('3️⃣ Values are checked against the declared types...');
+  assert.deepEqual(valueProblems({ subject: 'Budget', count: 2, urgent: false }, variables), []);
+  assert.deepEqual(valueProblems({ count: '2' }, variables), ['Missing value for "subject"', '"count" should be a number, got a string']);
+  assert.deepEqual(valueProblems({ subject: 'x', sender: 'y' }, variables), ['Unknown variable "sender"']);
+  console.log('✅ Value checks');
+
+  console.log('4️⃣ The built-in prompts are valid...');
+  assert.deepEqual(DEFAULT_PROMPTS.map(p => p.name), ['task-extraction', 'enhanced-task-extraction', 'email-summary', 'email-question']);
+  for (const prompt of DEFAULT_PROMPTS) {
+    assert.deepEqual([...templateProblems(prompt.system || '', prompt.variables), ...templateProblems(prompt.user, prompt.variables)], [], prompt.name);
+    assert.deepEqual(unusedRequiredVariables([prompt.system, prompt.user], prompt.variables), [], prompt.name);
+  }
+
+  const email = emailPromptValues({ subject: null, sender: 'boss@example.com', timestamp: null, body: 'Send the report.', attachmentText: 'Q3 figures' });
+  assert.deepEqual(valueProblems(email, DEFAULT_PROMPTS[1].variables), []);
+  const enhanced = renderTemplate(DEFAULT_PROMPTS[1].user, email);
+  assert.match(enhanced, /^Please analyze this email/);
+  assert.match(enhanced, /Email Subject: No Subject\nFrom: boss@example.com\nDate: Unknown Date/);
+  assert.match(enhanced, /Send the report\.\n\nAttachments:\nQ3 figures$/);
+
+  const basic = DEFAULT_PROMPTS[0];
+  assert.match(renderTemplate(basic.system!, { ...email, isNonActionable: true }), /Be very selective/);
+  assert.doesNotMatch(renderTemplate(basic.system!, { ...email, isNonActionable: false }), /Be very selective|- category:/);
+  assert.match(renderTemplate(basic.system!, { ...email, isWorkEmail: true }), /- category: work-related/);
+  console.log('✅ Built-in prompts');
+
+  console.log('🎉 All prompt template tests passed');
+}
+
+testPromptTemplates().catch(error => {
+  console.error('❌ Prompt template test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,246 @@
+/**
+ * SMTP sending test
+ *
+ * Sends a reply through smtpService to a local SMTP sink and checks the envelope and
+ * the threading headers, then checks how reply, reply-all and forward drafts are filled in.
+ *
+ * Run with: npx tsx server/tests/smtp-send-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import net from 'node:net';
+import { AddressInfo } from 'node:net';
+import { smtpService } from '../services/smtpService';
+import { buildReply } from '../services/replyBuilder';
+
+interface ReceivedMessage {
+  auth: string | null;
+  from: string;
+  recipients: string[];
+  data: string;
+}
+
+/**
+ * Minimal SMTP server that accepts one AUTH PLAIN login and records every message
+ */
+function startSmtpSink(): Promise<{ port: number; messages: ReceivedMessage[]; close: () => void }> {
+  const messages: ReceivedMessage[] = [];
+
+  const server = net.createServer(socket => {
+    let buffer = '';
+    let inData = false;
+    let current: ReceivedMessage = { auth: null, from: '', recipients: [], data: '' };
+    let pendingLoginUser: string | null = null;
+    let awaiting: 'user' | 'pass' | null = null;
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    reply('220 sink.test ESMTP');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+
+      while (true) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          current.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          messages.push(current);
+          current = { auth: current.auth, from: '', recipients: [], data: '' };
+          reply('250 OK queued');
+          continue;
+        }
+
+        const lineEnd = buffer.indexOf('\r\n');
+        if (lineEnd === -1) return;
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+
+        if (awaiting === 'user') {
+          pendingLoginUser = Buffer.from(line, 'base64').toString('utf8');
+          awaiting = 'pass';
+          reply('334 UGFzc3dvcmQ6');
+          continue;
+        }
+        if (awaiting === 'pass') {
+          current.auth = `${pendingLoginUser}:${Buffer.from(line, 'base64').toString('utf8')}`;
+          awaiting = null;
+          reply('235 Authenticated');
+          continue;
+        }
+
+        const command = line.split(' ')[0].toUpperCase();
+        switch (command) {
+          case 'EHLO':
+            reply('250-sink.test');
+            reply('250-AUTH PLAIN LOGIN');
+            reply('250 8BITMIME');
+            break;
+          case 'AUTH': {
+            const [, mechanism, initial] = line.split(' ');
+            if (mechanism.toUpperCase() === 'PLAIN' && initial) {
+              const [, user, pass] = Buffer.from(initial, 'base64').toString('utf8').split('\0');
+              current.auth = `${user}:${pass}`;
+              reply('235 Authenticated');
+            } else {
+              awaiting = 'user';
+              reply('334 VXNlcm5hbWU6');
+            }
+            break;
+          }
+          case 'MAIL':
+            current.from = line.match(/<([^>]*)>/)?.[1] || '';
+            reply('250 OK');
+            break;
+          case 'RCPT': {
+            const address = line.match(/<([^>]*)>/)?.[1] || '';
+            if (address.endsWith('@rejected.test')) {
+              reply('550 No such user');
+            } else {
+              current.recipients.push(address);
+              reply('250 OK');
+            }
+            break;
+          }
+          case 'DATA':
+            inData = true;
+            reply('354 End data with <CR><LF>.<CR><LF>');
+            break;
+          case 'QUIT':
+            reply('221 Bye');
+            socket.end();
+            return;
+          default:
+            reply('250 OK');
+        }
+      }
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        port: (server.address() as AddressInfo).port,
+        messages,
+        close: () => server.close()
+      });
+    });
+  });
+}
+
+function header(data: string, name: string): string | undefined {
+  // Unfold continuation lines before matching
+  const unfolded = data.split('\r\n\r\n')[0].replace(/\r\n[ \t]+/g, ' ');
+  const match = unfolded.match(new RegExp(`^${name}: (.*)$`, 'im'));
+  return match?.[1];
+}
+
+const original = {
+  messageId: '<question@example.com>',
+  inReplyTo: '<start@example.com>',
+  messageReferences: ['<start@example.com>'],
+  sender: 'Ann <ann@example.com>',
+  recipients: ['me@example.com', 'Bob <bob@example.com>'],
+  subject: 'Budget review',
+  body: 'Can we meet on Friday?\nThanks',
+  timestamp: new Date(Date.UTC(2025, 2, 14, 9, 30)),
+  metadata: { cc: ['carol@example.com', 'ME@example.com'] }
+};
+
+async function testSmtpSending() {
+  console.log('1️⃣ Reply drafts are filled in from the original...');
+  const reply = buildReply(original, 'me@example.com', 'reply');
+  assert.deepEqual(reply.to, ['Ann <ann@example.com>']);
+  assert.equal(reply.cc, null);
+  assert.equal(reply.subject, 'Re: Budget review');
+  assert.equal(reply.inReplyTo, '<question@example.com>');
+  assert.deepEqual(reply.messageReferences, ['<start@example.com>', '<question@example.com>']);
+  assert.ok(reply.body.includes('> Can we meet on Friday?\n> Thanks'));
+
+  const replyAll = buildReply(original, 'me@example.com', 'reply_all');
+  assert.deepEqual(replyAll.to, ['Ann <ann@example.com>']);
+  assert.deepEqual(replyAll.cc, ['Bob <bob@example.com>', 'carol@example.com']);
+
+  const forward = buildReply({ ...original, subject: 'Re: Budget review' }, 'me@example.com', 'forward');
+  assert.deepEqual(forward.to, []);
+  assert.equal(forward.subject, 'Fwd: Re: Budget review');
+  assert.equal(forward.inReplyTo, null);
+  assert.ok(forward.body.includes('---------- Forwarded message ---------'));
+  assert.ok(forward.body.includes('From: Ann <ann@example.com>'));
+
+  // Replying to our own sent message goes back to its recipients
+  const followUp = buildReply({ ...original, sender: 'me@example.com' }, 'me@example.com', 'reply');
+  assert.deepEqual(followUp.to, ['Bob <bob@example.com>']);
+  assert.equal(buildReply({ ...original, subject: 'RE: Budget review' }, 'me@example.com', 'reply').subject, 'RE: Budget review');
+  console.log('✅ Reply drafts filled in');
+
+  console.log('2️⃣ SMTP servers are resolved per account...');
+  assert.deepEqual(
+    smtpService.resolveSmtpSettings({ accountType: 'gmail', serverSettings: null }),
+    { host: 'smtp.gmail.com', port: 465, tlsMode: 'tls' }
+  );
+  assert.equal(
+    smtpService.resolveSmtpSettings({ accountType: 'imap', serverSettings: { host: 'imap.example.org', port: 993 } }).host,
+    'smtp.example.org'
+  );
+  assert.deepEqual(
+    smtpService.resolveSmtpSettings({ accountType: 'imap', serverSettings: { host: 'mail.example.org', smtp: { host: 'out.example.org', port: '465', tlsMode: 'tls' } } }),
+    { host: 'out.example.org', port: 465, tlsMode: 'tls', username: undefined, rejectUnauthorized: true }
+  );
+  assert.equal(
+    smtpService.resolveSmtpSettings({ accountType: 'imap', serverSettings: { host: 'imap.example.org', rejectUnauthorized: false } }).rejectUnauthorized,
+    false
+  );
+  assert.throws(() => smtpService.resolveSmtpSettings({ accountType: 'imap', serverSettings: { host: 'mail.example.org' } }));
+  assert.throws(() => smtpService.resolveSmtpSettings({ accountType: 'exchange', serverSettings: {} }));
+  assert.throws(() => smtpService.normalizeSmtpSettings({ host: 'out.example.org', port: 'abc' }));
+  console.log('✅ SMTP servers resolved');
+
+  console.log('3️⃣ A reply is delivered with threading headers...');
+  const sink = await startSmtpSink();
+  try {
+    const sent = await smtpService.send(
+      { host: '127.0.0.1', port: sink.port, tlsMode: 'none' },
+      { user: 'me@example.com', password: 'secret' } as any,
+      {
+        from: 'me@example.com',
+        to: replyAll.to,
+        cc: [...(replyAll.cc || []), 'nobody@rejected.test'],
+        bcc: ['archive@example.com'],
+        subject: replyAll.subject,
+        text: `Friday works.${replyAll.body}`,
+        inReplyTo: replyAll.inReplyTo,
+        references: replyAll.messageReferences
+      }
+    );
+
+    assert.match(sent.messageId, /^<[^@]+@example\.com>$/);
+    assert.deepEqual(sent.accepted.sort(), ['ann@example.com', 'archive@example.com', 'bob@example.com', 'carol@example.com']);
+    assert.deepEqual(sent.rejected, ['nobody@rejected.test']);
+
+    assert.equal(sink.messages.length, 1);
+    const [received] = sink.messages;
+    assert.equal(received.auth, 'me@example.com:secret');
+    assert.equal(received.from, 'me@example.com');
+    assert.ok(received.recipients.includes('archive@example.com'));
+
+    assert.equal(header(received.data, 'Message-ID'), sent.messageId);
+    assert.equal(header(received.data, 'In-Reply-To'), '<question@example.com>');
+    assert.equal(header(received.data, 'References'), '<start@example.com> <question@example.com>');
+    assert.equal(header(received.data, 'Subject'), 'Re: Budget review');
+    assert.equal(header(received.data, 'To'), 'Ann <ann@example.com>');
+    assert.equal(header(received.data, 'Bcc'), undefined);
+    assert.ok(received.data.includes('Friday works.'));
+  } finally {
+    sink.close();
+  }
+  console.log('✅ Reply delivered');
+
+  console.log('🎉 All SMTP sending tests passed');
+}
+
+testSmtpSending().catch(error => {
+  console.error('❌ SMTP sending tests failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,307 @@
+/**
+ * Tenant isolation test
+ *
+ * Seeds two users, each with an email account, emails, a task, feedback and a
+ * semantic link, then checks that the storage layer, the services built on it
+ * and the routes that query emails directly never let one user read or change
+ * the other's rows. The seeded rows are removed afterwards.
+ *
+ * Needs a migrated database in DATABASE_URL.
+ * Run with: npx tsx server/tests/tenant-isolation-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import type { AddressInfo } from 'node:net';
+import express, { Router } from 'express';
+import { inArray, or, sql } from 'drizzle-orm';
+import { db, pool } from '../db';
+import {
+  users, emailAccounts, emails, tasks, feedback, userTaskInteractions, emailSemanticLinks, jobs,
+  User, EmailAccount, Email, InsertEmail, Task
+} from '@shared/schema';
+import { storage } from '../storage';
+import { emailChainService } from '../services/emailChainService';
+import { threadService } from '../services/threadService';
+import { emailService } from '../services/emailService';
+import { jobQueueService } from '../services/jobQueueService';
+import { adaptationLearningService } from '../services/adaptationLearningService';
+import taskAnalysisRoutes from '../routes/task-analysis';
+import adaptationLearningRoutes from '../routes/adaptationLearning';
+import cleanEmailsApiRoutes from '../routes/clean-emails-api';
+import testEmailRelationshipsRoutes from '../routes/test-email-relationships';
+import testRoutes from '../routes/test';
+
+interface Tenant {
+  user: User;
+  account: EmailAccount;
+  emails: Email[];
+  task: Task;
+}
+
+const RUN_ID = `isolation-${Date.now()}`;
+
+async function seedTenant(name: string): Promise<Tenant> {
+  const [user] = await db.insert(users).values({
+    username: `${RUN_ID}-${name}`,
+    password: 'not-a-password-hash',
+    email: `${name}@${RUN_ID}.test`
+  }).returning();
+
+  const [account] = await db.insert(emailAccounts).values({
+    userId: user.id,
+    accountType: 'imap',
+    authMethod: 'app_password',
+    emailAddress: `${name}@${RUN_ID}.test`,
+    credentials: {}
+  }).returning();
+
+  // Both users get a message in a thread with the same id and subject, so any
+  // lookup by thread or subject that forgets the owner would find the other's
+  const seeded = await db.insert(emails).values([1, 2].map(n => ({
+    accountId: account.id,
+    messageId: `<${name}-${n}@${RUN_ID}.test>`,
+    sender: `someone@${RUN_ID}.test`,
+    recipients: [`${name}@${RUN_ID}.test`],
+    subject: `Quarterly report ${RUN_ID}`,
+    body: `Private note for ${name}`,
+    threadId: `${RUN_ID}-thread`,
+    labels: [`${RUN_ID}-label`],
+    timestamp: new Date()
+  }))).returning();
+
+  const [task] = await db.insert(tasks).values({
+    userId: user.id,
+    emailId: seeded[0].id,
+    title: `Task for ${name}`
+  }).returning();
+
+  await db.insert(feedback).values({
+    userId: user.id,
+    taskId: task.id,
+    relatedEmailId: seeded[0].id,
+    feedbackType: 'confirmed'
+  });
+
+  await db.insert(emailSemanticLinks).values({
+    emailIdA: seeded[0].id,
+    emailIdB: seeded[1].id,
+    similarityScore: 95,
+    linkType: 'thread'
+  });
+
+  return { user, account, emails: seeded, task };
+}
+
+/**
+ * Call a router as a signed-in user, the way routes.ts mounts it behind the session
+ */
+async function callAs(user: User, router: Router, method: 'GET' | 'POST' | 'PUT', path: string, body?: unknown) {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    (req as any).session = { user: { id: user.id, username: user.username, email: user.email } };
+    next();
+  });
+  app.use(router);
+
+  const server = app.listen(0);
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    return { status: response.status, body: await response.json() };
+  } finally {
+    server.close();
+  }
+}
+
+async function removeTenants(tenants: Tenant[]) {
+  const userIds = tenants.map(t => t.user.id);
+  const accountIds = tenants.map(t => t.account.id);
+  // Seeded emails, and any the tests stored through the sync pipeline
+  const emailIds = (await db.select({ id: emails.id }).from(emails).where(inArray(emails.accountId, accountIds))).map(e => e.id);
+
+  await db.delete(emailSemanticLinks).where(or(
+    inArray(emailSemanticLinks.emailIdA, emailIds),
+    inArray(emailSemanticLinks.emailIdB, emailIds)
+  ));
+  await db.delete(userTaskInteractions).where(inArray(userTaskInteractions.userId, userIds));
+  await db.delete(feedback).where(inArray(feedback.userId, userIds));
+  await db.delete(tasks).where(inArray(tasks.userId, userIds));
+  if (emailIds.length > 0) {
+    await db.delete(jobs).where(inArray(sql`(${jobs.payload}->>'emailId')::int`, emailIds));
+    await db.delete(emails).where(inArray(emails.id, emailIds));
+  }
+  await db.delete(jobs).where(inArray(sql`(${jobs.payload}->>'accountId')::int`, accountIds));
+  await db.delete(emailAccounts).where(inArray(emailAccounts.userId, userIds));
+  await db.delete(users).where(inArray(users.id, userIds));
+}
+
+async function testTenantIsolation() {
+  console.log('🧪 Starting tenant isolation tests...');
+
+  const tenants: Tenant[] = [];
+
+  try {
+    tenants.push(await seedTenant('alice'));
+    tenants.push(await seedTenant('bob'));
+    const [alice, bob] = tenants;
+
+    console.log('1️⃣ Email accounts belong to their owner...');
+    assert.deepEqual((await storage.getEmailAccounts(alice.user.id)).map(a => a.id), [alice.account.id]);
+    assert.equal(await storage.getEmailAccount(alice.user.id, bob.account.id), undefined);
+    assert.equal(await storage.updateEmailAccount(alice.user.id, bob.account.id, { displayName: 'taken' }), undefined);
+    assert.equal(await storage.deleteEmailAccount(alice.user.id, bob.account.id), false);
+    assert.ok(await storage.getEmailAccount(bob.user.id, bob.account.id));
+    console.log('✅ Accounts');
+
+    console.log('2️⃣ Emails are only read and changed by the account owner...');
+    const aliceEmails = await storage.getEmails(alice.user.id, { limit: 100 });
+    assert.ok(aliceEmails.every(e => e.accountId === alice.account.id));
+    assert.deepEqual(await storage.getEmails(alice.user.id, { accountId: bob.account.id }), []);
+    assert.equal(await storage.getEmail(alice.user.id, bob.emails[0].id), undefined);
+    assert.equal(await storage.updateEmail(alice.user.id, bob.emails[0].id, { isRead: true }), undefined);
+    assert.equal((await storage.getEmail(bob.user.id, bob.emails[0].id))!.isRead, false);
+    // Moving an email into another user's account is ignored
+    const moved = await storage.updateEmail(alice.user.id, alice.emails[0].id, { accountId: bob.account.id });
+    assert.equal(moved!.accountId, alice.account.id);
+    const { id: _id, createdAt: _created, updatedAt: _updated, ...copy } = alice.emails[0];
+    assert.equal(await storage.createEmail(alice.user.id, {
+      ...copy,
+      accountId: bob.account.id,
+      messageId: `<planted@${RUN_ID}.test>`
+    } as InsertEmail), undefined);
+    const labels = await storage.getEmailLabels(alice.user.id);
+    assert.equal(labels.find(l => l.label === `${RUN_ID}-label`)?.count, 2);
+    console.log('✅ Emails');
+
+    console.log('3️⃣ Related emails, threads and links stay within the user...');
+    const related = await storage.getRelatedEmails(alice.user.id, alice.emails[0].id);
+    assert.deepEqual(related.map(e => e.id), [alice.emails[1].id]);
+    assert.deepEqual(await storage.getRelatedEmails(alice.user.id, bob.emails[0].id), []);
+    const chained = await emailChainService.findRelatedEmails(alice.user.id, alice.emails[0].id);
+    assert.ok(chained.every(e => alice.emails.some(own => own.id === e.id)));
+    assert.deepEqual(await emailChainService.findRelatedEmails(alice.user.id, bob.emails[0].id), []);
+    const thread = await threadService.getThread(alice.user.id, `${RUN_ID}-thread`);
+    assert.equal(thread!.messageCount, 2);
+    assert.equal((await storage.getEmailLinks(alice.user.id, alice.emails[0].id)).length, 1);
+    assert.deepEqual(await storage.getEmailLinks(alice.user.id, bob.emails[0].id), []);
+    console.log('✅ Relations');
+
+    console.log('4️⃣ Tasks are only read and changed by their owner...');
+    assert.equal(await storage.getTask(alice.user.id, bob.task.id), undefined);
+    assert.equal(await storage.updateTask(alice.user.id, bob.task.id, { title: 'taken' }), undefined);
+    assert.equal(await storage.deleteTask(alice.user.id, bob.task.id), false);
+    assert.equal((await storage.getTask(bob.user.id, bob.task.id))!.title, 'Task for bob');
+    // Tasks can't be pointed at, or created for, another user's email
+    assert.equal(await storage.updateTask(alice.user.id, alice.task.id, { emailId: bob.emails[0].id }), undefined);
+    assert.equal(await storage.createTask(alice.user.id, {
+      title: 'Planted',
+      emailId: bob.emails[0].id,
+      isCompleted: false,
+      aiGenerated: false,
+      needsReview: false,
+      isRecurringSuggestion: false
+    }), undefined);
+    // Nor handed to another user
+    const kept = await storage.updateTask(alice.user.id, alice.task.id, { userId: bob.user.id });
+    assert.equal(kept!.userId, alice.user.id);
+    assert.ok((await storage.getTasks(alice.user.id)).every(t => t.userId === alice.user.id));
+    console.log('✅ Tasks');
+
+    console.log('5️⃣ Feedback only refers to the user\'s own tasks and emails...');
+    assert.equal(await storage.createFeedback(alice.user.id, { taskId: bob.task.id, feedbackType: 'rejected' }), undefined);
+    assert.equal(await storage.createFeedback(alice.user.id, { relatedEmailId: bob.emails[0].id, feedbackType: 'rejected' }), undefined);
+    assert.equal(await storage.createTaskInteraction(alice.user.id, { taskId: bob.task.id, interactionType: 'task_completed' }), undefined);
+    assert.equal(await storage.getTaskFeedback(alice.user.id, bob.task.id), undefined);
+    const own = await storage.getTaskFeedback(alice.user.id, alice.task.id);
+    assert.equal(own!.feedback.length, 1);
+    assert.ok((await storage.getFeedback(alice.user.id)).every(f => f.userId === alice.user.id));
+    assert.ok(await storage.createTaskInteraction(alice.user.id, { taskId: alice.task.id, interactionType: 'task_completed' }));
+    console.log('✅ Feedback');
+
+    console.log('6️⃣ Synced mail is matched within the account it arrives in...');
+    // Bob receives a message Alice already has; he gets his own copy and hers is left alone
+    const shared = alice.emails[0];
+    const stored = await emailService.saveEmails(bob.account.id, [{
+      messageId: shared.messageId,
+      sender: shared.sender,
+      recipients: [`bob@${RUN_ID}.test`],
+      subject: shared.subject,
+      body: 'Copy for bob',
+      folder: 'INBOX',
+      labels: ['INBOX', `${RUN_ID}-bob-only`],
+      timestamp: new Date(),
+      metadata: {}
+    }]);
+    assert.equal(stored, 1);
+    const bobCopy = (await storage.getEmails(bob.user.id, { limit: 100 })).find(e => e.messageId === shared.messageId);
+    assert.equal(bobCopy!.accountId, bob.account.id);
+    assert.deepEqual((await storage.getEmail(alice.user.id, shared.id))!.labels, [`${RUN_ID}-label`]);
+    console.log('✅ Sync');
+
+    console.log('7️⃣ Background jobs are only seen and managed by the account owner...');
+    const bobSync = (await jobQueueService.enqueue('sync-account', { accountId: bob.account.id }))!;
+    const bobEmbed = (await jobQueueService.enqueue('embed-email', { emailId: bob.emails[0].id }))!;
+    const aliceEmbed = (await jobQueueService.enqueue('embed-email', { emailId: alice.emails[0].id }))!;
+    const aliceJobs = await jobQueueService.listJobs(alice.user.id, { limit: 200 });
+    assert.ok(aliceJobs.jobs.some(job => job.id === aliceEmbed.id));
+    assert.ok(aliceJobs.jobs.every(job => job.id !== bobSync.id && job.id !== bobEmbed.id));
+    assert.deepEqual((await jobQueueService.listJobs(alice.user.id, { accountId: bob.account.id })).jobs, []);
+    assert.equal(await jobQueueService.getJob(alice.user.id, bobEmbed.id), undefined);
+    assert.equal(await jobQueueService.cancel(alice.user.id, bobSync.id), undefined);
+    assert.equal((await jobQueueService.getJob(bob.user.id, bobSync.id))!.status, 'pending');
+    assert.ok(await jobQueueService.cancel(bob.user.id, bobSync.id));
+    assert.equal(await jobQueueService.retry(alice.user.id, bobSync.id), undefined);
+    const syncStats = await jobQueueService.getAccountSyncStats(alice.user.id);
+    assert.deepEqual(syncStats.map(stats => stats.accountId), [alice.account.id]);
+    const queueStats = await jobQueueService.getStats(alice.user.id);
+    assert.equal(queueStats.kinds.find(stats => stats.kind === 'sync-account')!.due, 0);
+    console.log('✅ Jobs');
+
+    console.log('8️⃣ Analysis routes and suggested rules stay within the user...');
+    const analysis = await callAs(alice.user, taskAnalysisRoutes, 'POST', '/task-extraction', { count: 20 });
+    assert.equal(analysis.status, 200);
+    const bobEmailIds = bob.emails.map(email => email.id);
+    assert.ok(analysis.body.results.some((result: { emailId: number }) => result.emailId === alice.emails[0].id || result.emailId === alice.emails[1].id));
+    assert.ok(analysis.body.results.every((result: { emailId: number }) => !bobEmailIds.includes(result.emailId)));
+
+    assert.equal((await callAs(alice.user, testEmailRelationshipsRoutes, 'GET', `/related/${bob.emails[0].id}`)).status, 404);
+    assert.equal((await callAs(alice.user, testRoutes, 'GET', `/vector-similarity/${bob.emails[0].id}`)).status, 404);
+    const vectorStats = await callAs(alice.user, testRoutes, 'GET', '/vector-stats');
+    assert.equal(vectorStats.body.counts.total, alice.emails.length);
+    const cleaningStatus = await callAs(alice.user, cleanEmailsApiRoutes, 'GET', '/status');
+    assert.equal(cleaningStatus.body.total, alice.emails.length);
+    // Cleaning Alice's mail leaves Bob's untouched
+    await callAs(alice.user, cleanEmailsApiRoutes, 'POST', '/batch', { limit: 1000 });
+    assert.ok((await storage.getEmails(bob.user.id)).every(email => !email.is_cleaned));
+
+    await adaptationLearningService.initialize();
+    const ruleRows = await db.execute(sql`
+      INSERT INTO suggested_rules (user_id, rule_type, pattern, action, confidence)
+      VALUES (${bob.user.id}, 'priority', ${`sender:${RUN_ID}.test`}, 'set_priority:high', 80)
+      RETURNING id
+    `);
+    const bobRuleId = (ruleRows.rows[0] as { id: number }).id;
+    const declined = await callAs(alice.user, adaptationLearningRoutes, 'PUT', `/rule/${bobRuleId}`, { status: 'declined' });
+    assert.equal(declined.status, 404);
+    assert.equal(await adaptationLearningService.updateRuleStatus(alice.user.id, bobRuleId, 'accepted'), false);
+    const [bobRule] = await adaptationLearningService.getSuggestedRules(bob.user.id);
+    assert.equal(bobRule.status, 'suggested');
+    assert.equal(await adaptationLearningService.updateRuleStatus(bob.user.id, bobRuleId, 'accepted'), true);
+    console.log('✅ Analysis and rules');
+
+    console.log('🎉 All tenant isolation tests passed');
+  } finally {
+    await removeTenants(tenants);
+    await pool.end();
+  }
+}
+
+testTenantIsolation().catch(error => {
+  console.error('❌ Tenant isolation test failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,66 @@
+/**
+ * Usage policy test
+ *
+ * Checks token estimates, call costs and monthly budgets used for LLM usage
+ * accounting, without a database.
+ *
+ * Run with: npx tsx server/tests/usage-policy-test.ts
+ */
+
+import assert from 'node:assert/strict';
+import { BUDGET_RECHECK_MS, budgetRecheckAt, budgetStatus, callCost, estimateTokens, monthStart, nextMonthStart } from '../services/usagePolicy';
+
+async function testUsagePolicy() {
+  console.log('🧪 Starting usage policy tests...');
+
+  console.log('1️⃣ Tokens are estimated from the text length...');
+  assert.equal(estimateTokens(''), 0);
+  assert.equal(estimateTokens('abcd'), 1);
+  assert.equal(estimateTokens('abcde'), 2);
+  console.log('✅ Token estimates');
+
+  console.log('2️⃣ Calls are priced per million tokens...');
+  const price = { inputPricePerMillion: 2.5, outputPricePerMillion: 10 };
+  assert.equal(callCost(1_000_000, 0, price), 2.5);
+  assert.equal(callCost(2000, 500, price), (2000 * 2.5 + 500 * 10) / 1_000_000);
+  // Unknown prices are left unpriced rather than counted as free
+  assert.equal(callCost(1000, 1000, undefined), null);
+  assert.equal(callCost(1000, 1000, { inputPricePerMillion: null, outputPricePerMillion: null }), null);
+  // Without an output price, output tokens cost the same as input tokens
+  assert.equal(callCost(0, 1_000_000, { inputPricePerMillion: 1, outputPricePerMillion: null }), 1);
+  assert.equal(callCost(1000, 1000, { inputPricePerMillion: 0, outputPricePerMillion: 0 }), 0);
+  console.log('✅ Call costs');
+
+  console.log('3️⃣ Budgets run per calendar month...');
+  const now = new Date('2026-12-31T23:30:00Z');
+  assert.equal(monthStart(now).toISOString(), '2026-12-01T00:00:00.000Z');
+  assert.equal(nextMonthStart(now).toISOString(), '2027-01-01T00:00:00.000Z');
+
+  assert.deepEqual(budgetStatus(null, 12.5, now), {
+    budgetUsd: null,
+    spentUsd: 12.5,
+    remainingUsd: null,
+    exceeded: false,
+    resetsAt: new Date('2027-01-01T00:00:00Z')
+  });
+  assert.equal(budgetStatus(10, 4, now).remainingUsd, 6);
+  assert.equal(budgetStatus(10, 4, now).exceeded, false);
+  assert.equal(budgetStatus(10, 10, now).exceeded, true);
+  assert.equal(budgetStatus(10, 12, now).remainingUsd, 0);
+  // A budget of zero stops paid work altogether
+  assert.equal(budgetStatus(0, 0, now).exceeded, true);
+  console.log('✅ Budget status');
+
+  console.log('4️⃣ Paused jobs check again in an hour, or when the month starts over...');
+  const midMonth = new Date('2026-12-15T12:00:00Z');
+  assert.equal(budgetRecheckAt(budgetStatus(10, 12, midMonth), midMonth).getTime(), midMonth.getTime() + BUDGET_RECHECK_MS);
+  assert.equal(budgetRecheckAt(budgetStatus(10, 12, now), now).toISOString(), '2027-01-01T00:00:00.000Z');
+  console.log('✅ Budget rechecks');
+
+  console.log('🎉 All usage policy tests passed');
+}
+
+testUsagePolicy().catch(error => {
+  console.error('❌ Usage policy test failed:', error);
+  process.exit(1);
+});
@@ -7,5 +7,24 @@ declare module 'express-session' {
       username: string;
       email: string;
     };
+    // Set after a correct password when the user still has to enter a TOTP code
+    pendingTwoFactor?: {
+      userId: number;
+      expiresAt: number;
+      // Wrong codes entered so far; the pending sign-in is dropped after a few
+      failedAttempts: number;
+    };
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request was authenticated with a personal API token
+      apiToken?: {
+        id: number;
+        scopes: string[];
+      };
+    }
   }
-}
\ No newline at end of file
+}
@@ -3,7 +3,8 @@ declare module 'node-imap' {
   
   interface ImapOptions {
     user: string;
-    password: string;
+    password?: string;
+    xoauth2?: string;
     host: string;
     port: number;
     tls: boolean;
@@ -14,7 +15,11 @@ declare module 'node-imap' {
     authTimeout?: number;
     debug?: (info: string) => void;
     autotls?: 'always' | 'required' | 'never';
-    keepalive?: boolean;
+    keepalive?: boolean | {
+      interval?: number;
+      idleInterval?: number;
+      forceNoop?: boolean;
+    };
     socketTimeout?: number;
   }
 
@@ -30,24 +35,46 @@ declare module 'node-imap' {
     once(event: 'end', listener: () => void): this;
   }
 
-  interface ImapMailbox {
+  export interface ImapMailbox {
     flags: string[];
     exists: number;
     newMessages: number;
     uidnext: number;
     uidvalidity: number;
+    highestmodseq?: string;
+  }
+
+  export interface ImapBoxes {
+    [name: string]: {
+      attribs: string[];
+      delimiter: string;
+      children: ImapBoxes | null;
+      parent: any;
+    };
   }
 
   class Connection extends EventEmitter {
     constructor(options: ImapOptions);
     connect(): void;
     openBox(mailboxName: string, readOnly: boolean, callback: (err: Error | null, mailbox: ImapMailbox) => void): void;
+    getBoxes(callback: (err: Error | null, boxes: ImapBoxes) => void): void;
     search(criteria: any[], callback: (err: Error | null, results: number[]) => void): void;
     fetch(source: any, options: any): ImapFetch;
+    addFlags(source: any, flags: string | string[], callback: (err: Error | null) => void): void;
+    delFlags(source: any, flags: string | string[], callback: (err: Error | null) => void): void;
+    addLabels(source: any, labels: string | string[], callback: (err: Error | null) => void): void;
+    delLabels(source: any, labels: string | string[], callback: (err: Error | null) => void): void;
+    move(source: any, mailboxName: string, callback: (err: Error | null) => void): void;
     end(): void;
+    destroy(): void;
+    serverSupports(capability: string): boolean;
+    on(event: 'mail', listener: (numNewMsgs: number) => void): this;
+    on(event: 'error', listener: (err: Error) => void): this;
+    on(event: 'close', listener: (hadError: boolean) => void): this;
     once(event: 'ready', listener: () => void): this;
     once(event: 'error', listener: (err: Error) => void): this;
     once(event: 'end', listener: () => void): this;
+    once(event: 'close', listener: (hadError: boolean) => void): this;
     
     static parseHeader(headerText: string): {[key: string]: string | string[]};
   }
@@ -0,0 +1,57 @@
+/**
+ * AI provider API keys in ai_settings
+ *
+ * Keys are encrypted before they are written and decrypted when settings are read
+ * for use. Keys stored in plain text before encryption was added are still
+ * returned as they are until the secrets migration rewrites them. API responses
+ * only ever carry masked keys.
+ */
+import { decryptData, encryptData, isEncrypted, isMaskedSecret, maskSecret } from './encryption';
+
+export const AI_API_KEY_FIELDS = ['openaiApiKey', 'anthropicApiKey', 'perplexityApiKey'] as const;
+
+export type AiApiKeyField = typeof AI_API_KEY_FIELDS[number];
+
+type WithApiKeys = Partial<Record<AiApiKeyField, string | null>>;
+
+/**
+ * Encrypt the keys in an update. A masked key sent back by the client means
+ * "unchanged", so it is dropped rather than stored.
+ */
+export function encryptAiApiKeys<T extends WithApiKeys>(data: T): T {
+  const result = { ...data };
+  for (const field of AI_API_KEY_FIELDS) {
+    const value = result[field];
+    if (isMaskedSecret(value)) {
+      delete result[field];
+    } else if (value) {
+      result[field] = encryptData(value) as T[AiApiKeyField];
+    }
+  }
+  return result;
+}
+
+export function decryptAiApiKeys<T extends WithApiKeys>(settings: T): T {
+  const result = { ...settings };
+  for (const field of AI_API_KEY_FIELDS) {
+    const value = result[field];
+    if (value && isEncrypted(value)) {
+      result[field] = decryptData(value) as T[AiApiKeyField];
+    }
+  }
+  return result;
+}
+
+/**
+ * Settings as they may be sent to a client. Works on encrypted or decrypted settings.
+ */
+export function maskAiApiKeys<T extends WithApiKeys>(settings: T): T {
+  const result = { ...settings };
+  for (const field of AI_API_KEY_FIELDS) {
+    if (result[field]) {
+      const value = result[field]!;
+      result[field] = maskSecret(isEncrypted(value) ? decryptData(value) : value) as T[AiApiKeyField];
+    }
+  }
+  return result;
+}
@@ -0,0 +1,110 @@
+/**
+ * Attachment text extraction
+ *
+ * Pulls plain text out of the attachment types worth indexing: PDF, DOCX,
+ * plain text, CSV and HTML. Anything else is reported as unsupported.
+ */
+import path from 'path';
+import mammoth from 'mammoth';
+import { PDFParse } from 'pdf-parse';
+import { parse } from 'node-html-parser';
+
+export type AttachmentKind = 'pdf' | 'docx' | 'text' | 'csv' | 'html';
+
+// Extracted text beyond this length is cut off; it only feeds search and prompts
+export const MAX_EXTRACTED_TEXT_LENGTH = 100000;
+
+const KIND_BY_CONTENT_TYPE: Record<string, AttachmentKind> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'text/plain': 'text',
+  'text/csv': 'csv',
+  'application/csv': 'csv',
+  'text/html': 'html'
+};
+
+const KIND_BY_EXTENSION: Record<string, AttachmentKind> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.txt': 'text',
+  '.text': 'text',
+  '.md': 'text',
+  '.log': 'text',
+  '.csv': 'csv',
+  '.html': 'html',
+  '.htm': 'html'
+};
+
+/**
+ * Work out which extractor applies. Mail clients often send application/octet-stream,
+ * so the file extension is checked when the content type says nothing useful.
+ */
+export function detectAttachmentKind(contentType: string, filename: string): AttachmentKind | null {
+  const mimeType = (contentType || '').split(';')[0].trim().toLowerCase();
+  return KIND_BY_CONTENT_TYPE[mimeType] || KIND_BY_EXTENSION[path.extname(filename || '').toLowerCase()] || null;
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .slice(0, MAX_EXTRACTED_TEXT_LENGTH);
+}
+
+async function extractPdf(content: Buffer): Promise<string> {
+  const parser = new PDFParse({ data: new Uint8Array(content) });
+  try {
+    const result = await parser.getText();
+    return result.text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+async function extractDocx(content: Buffer): Promise<string> {
+  const result = await mammoth.extractRawText({ buffer: content });
+  return result.value;
+}
+
+function extractHtml(content: Buffer): string {
+  const root = parse(content.toString('utf8'));
+  root.querySelectorAll('script, style, head').forEach(element => element.remove());
+  return root.structuredText;
+}
+
+/**
+ * Extract the text of an attachment.
+ * Returns null when the type is not one we extract from; throws if extraction fails.
+ */
+export async function extractAttachmentText(content: Buffer, contentType: string, filename: string): Promise<string | null> {
+  const kind = detectAttachmentKind(contentType, filename);
+
+  switch (kind) {
+    case 'pdf':
+      return normalizeText(await extractPdf(content));
+    case 'docx':
+      return normalizeText(await extractDocx(content));
+    case 'text':
+    case 'csv':
+      return normalizeText(content.toString('utf8'));
+    case 'html':
+      return normalizeText(extractHtml(content));
+    default:
+      return null;
+  }
+}
+
+/**
+ * Format an email's combined attachment text for appending to an embedding input or prompt
+ */
+export function formatAttachmentSection(attachmentText: string | null | undefined, maxLength = 10000): string {
+  if (!attachmentText) return '';
+
+  const text = attachmentText.length > maxLength
+    ? attachmentText.substring(0, maxLength) + '... [attachment text truncated]'
+    : attachmentText;
+
+  return `\n\nAttachments:\n${text}`;
+}
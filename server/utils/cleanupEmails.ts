@@ -1,5 +1,5 @@
 import { db } from '../db';
-import { emails } from '@shared/schema';
+import { emails, Email } from '@shared/schema';
 import { eq, isNull, or } from 'drizzle-orm';
 import { parse } from 'node-html-parser';
 
@@ -45,32 +45,7 @@ export async function cleanAllEmailContent(limit = 100): Promise<{ processedCoun
     // Process each email
     for (const email of emailsToClean) {
       try {
-        // Start with the HTML content if available, otherwise use plain text
-        const rawContent = email.bodyHtml || email.body;
-        
-        // Clean the content
-        const cleanedContent = cleanEmailContent(rawContent);
-        
-        // Extract structured data
-        const { 
-          cleanedBody,
-          extractedSender, 
-          extractedRecipients, 
-          structuredData
-        } = parseEmailComponents(cleanedContent, email.sender, email.recipients);
-        
-        // Update the email in the database with cleaned content and structured data
-        await db
-          .update(emails)
-          .set({
-            body: cleanedBody,
-            sender: extractedSender || email.sender,
-            recipients: extractedRecipients || email.recipients,
-            metadata: structuredData ? JSON.stringify(structuredData).replace(/\\/g, '') : email.metadata,
-            is_cleaned: true,
-            updatedAt: new Date()
-          })
-          .where(eq(emails.id, email.id));
+        await cleanStoredEmail(email);
         
         processedCount++;
         
@@ -92,6 +67,51 @@ export async function cleanAllEmailContent(limit = 100): Promise<{ processedCoun
   }
 }
 
+/**
+ * Clean one email by id; throws when the email does not exist
+ */
+export async function cleanEmailById(emailId: number): Promise<void> {
+  const [email] = await db.select().from(emails).where(eq(emails.id, emailId));
+  
+  if (!email) {
+    throw new Error(`Email with ID ${emailId} not found`);
+  }
+  
+  await cleanStoredEmail(email);
+}
+
+/**
+ * Replace a stored email's body with its cleaned text and mark it as cleaned
+ */
+async function cleanStoredEmail(email: Email): Promise<void> {
+  // Start with the HTML content if available, otherwise use plain text
+  const rawContent = email.bodyHtml || email.body;
+  
+  // Clean the content
+  const cleanedContent = cleanEmailContent(rawContent);
+  
+  // Extract structured data
+  const { 
+    cleanedBody,
+    extractedSender, 
+    extractedRecipients, 
+    structuredData
+  } = parseEmailComponents(cleanedContent, email.sender, email.recipients);
+  
+  // Update the email in the database with cleaned content and structured data
+  await db
+    .update(emails)
+    .set({
+      body: cleanedBody,
+      sender: extractedSender || email.sender,
+      recipients: extractedRecipients || email.recipients,
+      metadata: structuredData ? JSON.stringify(structuredData).replace(/\\/g, '') : email.metadata,
+      is_cleaned: true,
+      updatedAt: new Date()
+    })
+    .where(eq(emails.id, email.id));
+}
+
 /**
  * Clean email content by removing unwanted HTML, trackers, etc.
  */
@@ -1,22 +1,176 @@
 import crypto from 'crypto';
+import CryptoJS from 'crypto-js';
 
-// In a production environment, you would store this in environment variables or a secure key management system
-const SECRET_KEY = process.env.ENCRYPTION_KEY || 'your-secret-encryption-key';
-const ALGORITHM = 'aes-256-cbc';
+// Secrets are sealed with AES-256-GCM as `v1:<keyId>:<iv>:<tag>:<ciphertext>` (base64url parts).
+// The key id says which key in the keyring opened it, so keys can be rotated:
+// add the new key to ENCRYPTION_KEYS, point ENCRYPTION_KEY_ID at it and run `npm run secrets:reencrypt`.
+const FORMAT_VERSION = 'v1';
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+
+// Key id used when the key comes from the single ENCRYPTION_KEY passphrase
+const PASSPHRASE_KEY_ID = 'default';
+
+// Older builds fell back to these when ENCRYPTION_KEY was unset
+const DEV_PASSPHRASE = 'default-encryption-key';
+const LEGACY_CBC_FALLBACK = 'your-secret-encryption-key';
+
+// Shown instead of a secret in API responses; the last characters help tell keys apart
+const MASK = '••••••••';
+
+/**
+ * A keyring of AES-256 keys plus the id of the one new secrets are sealed with.
+ * Also opens the two formats written before the keyring existed: crypto-js passphrase
+ * ciphertext (`U2FsdGVkX1…`) and AES-256-CBC `ivhex:cipherhex`.
+ */
+export class SecretBox {
+  constructor(
+    private keys: Map<string, Buffer>,
+    private activeKeyId: string,
+    private legacyPassphrase?: string
+  ) {
+    keys.forEach((key, id) => {
+      if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+        throw new Error(`Invalid encryption key id "${id}"`);
+      }
+      if (key.length !== KEY_LENGTH) {
+        throw new Error(`Encryption key "${id}" must be ${KEY_LENGTH} bytes`);
+      }
+    });
+    if (!keys.has(activeKeyId)) {
+      throw new Error(`Active encryption key "${activeKeyId}" is not in the keyring`);
+    }
+  }
+
+  /**
+   * Build the keyring from the environment:
+   * - ENCRYPTION_KEYS: comma-separated `id:base64key` pairs of 32-byte keys
+   * - ENCRYPTION_KEY_ID: the key to encrypt with (defaults to the first listed)
+   * - ENCRYPTION_KEY: passphrase that older data was encrypted with; its SHA-256 is also
+   *   the key with id "default", which is the only key when ENCRYPTION_KEYS is unset
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): SecretBox {
+    const passphrase = env.ENCRYPTION_KEY;
+    const keys = new Map<string, Buffer>();
+
+    for (const entry of (env.ENCRYPTION_KEYS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) {
+        throw new Error('ENCRYPTION_KEYS entries must look like <id>:<base64 key>');
+      }
+      keys.set(entry.slice(0, separator), Buffer.from(entry.slice(separator + 1), 'base64'));
+    }
+
+    const activeKeyId = env.ENCRYPTION_KEY_ID || keys.keys().next().value || PASSPHRASE_KEY_ID;
+
+    // Keep the passphrase key around after moving to ENCRYPTION_KEYS so its data can still be re-encrypted
+    if (!keys.has(PASSPHRASE_KEY_ID) && (passphrase || keys.size === 0)) {
+      if (!passphrase && env.NODE_ENV === 'production') {
+        throw new Error('ENCRYPTION_KEYS or ENCRYPTION_KEY must be set in production');
+      }
+      keys.set(PASSPHRASE_KEY_ID, crypto.createHash('sha256').update(passphrase || DEV_PASSPHRASE).digest());
+    }
+
+    return new SecretBox(keys, activeKeyId, passphrase);
+  }
+
+  get currentKeyId(): string {
+    return this.activeKeyId;
+  }
+
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.keys.get(this.activeKeyId)!, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return [
+      FORMAT_VERSION,
+      this.activeKeyId,
+      iv.toString('base64url'),
+      cipher.getAuthTag().toString('base64url'),
+      ciphertext.toString('base64url')
+    ].join(':');
+  }
+
+  decrypt(value: string): string {
+    if (value.startsWith(`${FORMAT_VERSION}:`)) {
+      const [, keyId, iv, tag, ciphertext] = value.split(':');
+      const key = this.keys.get(keyId);
+      if (!key) {
+        throw new Error(`Unknown encryption key "${keyId}"`);
+      }
+
+      const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64url'));
+      decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+      return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+    }
+
+    if (isLegacyCryptoJs(value)) {
+      const plaintext = CryptoJS.AES.decrypt(value, this.legacyPassphrase ?? DEV_PASSPHRASE).toString(CryptoJS.enc.Utf8);
+      if (!plaintext) {
+        throw new Error('Legacy ciphertext did not decrypt with ENCRYPTION_KEY');
+      }
+      return plaintext;
+    }
+
+    if (isLegacyCbc(value)) {
+      // The old module used the raw passphrase as the key, so this only works with 32 characters
+      const key = Buffer.from(this.legacyPassphrase ?? LEGACY_CBC_FALLBACK);
+      const [iv, ciphertext] = value.split(':');
+      const decipher = crypto.createDecipheriv('aes-256-cbc', key, Buffer.from(iv, 'hex'));
+      return decipher.update(ciphertext, 'hex', 'utf8') + decipher.final('utf8');
+    }
+
+    throw new Error('Invalid encrypted data format');
+  }
+
+  /**
+   * Whether a stored value should be rewritten: it's in a legacy format or sealed
+   * with a key other than the active one
+   */
+  needsReEncryption(value: string): boolean {
+    return !value.startsWith(`${FORMAT_VERSION}:${this.activeKeyId}:`);
+  }
+
+  reEncrypt(value: string): string {
+    return this.needsReEncryption(value) ? this.encrypt(this.decrypt(value)) : value;
+  }
+}
+
+function isLegacyCryptoJs(value: string): boolean {
+  // Base64 of "Salted__", the OpenSSL header crypto-js writes
+  return value.startsWith('U2FsdGVkX1');
+}
+
+function isLegacyCbc(value: string): boolean {
+  return /^[0-9a-f]{32}:[0-9a-f]+$/.test(value);
+}
+
+let defaultBox: SecretBox | null = null;
+
+// Built on first use so scripts that never touch secrets don't need the keys
+function secretBox(): SecretBox {
+  if (!defaultBox) {
+    defaultBox = SecretBox.fromEnv();
+  }
+  return defaultBox;
+}
+
+/**
+ * Whether a value is ciphertext in any format this module can open, as opposed to
+ * a secret that was stored in plain text
+ */
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(`${FORMAT_VERSION}:`) || isLegacyCryptoJs(value) || isLegacyCbc(value);
+}
 
 /**
  * Encrypt sensitive data like passwords and auth tokens
  */
 export function encryptData(data: string): string {
   try {
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv(ALGORITHM, Buffer.from(SECRET_KEY), iv);
-    
-    let encrypted = cipher.update(data, 'utf8', 'hex');
-    encrypted += cipher.final('hex');
-    
-    // Return IV + encrypted data
-    return iv.toString('hex') + ':' + encrypted;
+    return secretBox().encrypt(data);
   } catch (error) {
     console.error('Encryption error:', error);
     throw new Error('Failed to encrypt data');
@@ -24,26 +178,50 @@ export function encryptData(data: string): string {
 }
 
 /**
- * Decrypt sensitive data
+ * Decrypt sensitive data written by encryptData, or by the older schemes
  */
 export function decryptData(encryptedData: string): string {
   try {
-    const parts = encryptedData.split(':');
-    if (parts.length !== 2) {
-      throw new Error('Invalid encrypted data format');
-    }
-    
-    const iv = Buffer.from(parts[0], 'hex');
-    const encrypted = parts[1];
-    
-    const decipher = crypto.createDecipheriv(ALGORITHM, Buffer.from(SECRET_KEY), iv);
-    
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-    
-    return decrypted;
+    return secretBox().decrypt(encryptedData);
   } catch (error) {
     console.error('Decryption error:', error);
     throw new Error('Failed to decrypt data');
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Encrypt a value as JSON, e.g. a credentials object
+ */
+export function encryptJson(value: unknown): string {
+  return encryptData(JSON.stringify(value));
+}
+
+export function decryptJson<T = any>(encryptedData: string): T {
+  return JSON.parse(decryptData(encryptedData));
+}
+
+export function needsReEncryption(value: string): boolean {
+  return secretBox().needsReEncryption(value);
+}
+
+/**
+ * Re-seal a value with the active key; values already sealed with it are returned as they are
+ */
+export function reEncrypt(value: string): string {
+  return secretBox().reEncrypt(value);
+}
+
+/**
+ * Hide a secret for display, keeping only its last four characters
+ */
+export function maskSecret(secret: string | null | undefined): string {
+  if (!secret) return '';
+  return secret.length > 12 ? `${MASK}${secret.slice(-4)}` : MASK;
+}
+
+/**
+ * Whether a value is a mask sent back by a client rather than a new secret
+ */
+export function isMaskedSecret(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(MASK);
+}
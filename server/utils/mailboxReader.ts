@@ -0,0 +1,385 @@
+/**
+ * Mailbox archive reader
+ *
+ * Reads the raw messages out of mbox files, single EML files (or directories of them)
+ * and Maildir trees one at a time, so archives of any size can be imported without
+ * holding them in memory. Flags are reported the way IMAP reports them (\Seen, \Flagged, ...).
+ * Zip archives as written by the export (an mbox file or EML files, plus bundle.json) are
+ * read as well; those are loaded whole.
+ */
+import fs from 'fs';
+import path from 'path';
+import JSZip from 'jszip';
+
+export type MailboxFormat = 'mbox' | 'eml' | 'maildir' | 'zip';
+
+export const MAILBOX_FORMATS: MailboxFormat[] = ['mbox', 'eml', 'maildir', 'zip'];
+
+// Name of the JSON bundle of tasks and AI annotations inside an export zip
+export const BUNDLE_FILE_NAME = 'bundle.json';
+
+export interface MailboxMessage {
+  raw: Buffer;
+  folder: string;
+  flags: string[];
+  labels: string[];
+  // Delivery time from the mbox "From " line or the Maildir file, used when there is no Date header
+  receivedAt: Date | null;
+  // Where the message came from: file path, or mbox path and message number
+  location: string;
+}
+
+// Maildir info flags (the part after ":2,") and their IMAP equivalents
+const MAILDIR_FLAGS: Record<string, string> = {
+  S: '\\Seen',
+  F: '\\Flagged',
+  R: '\\Answered',
+  T: '\\Deleted',
+  D: '\\Draft'
+};
+
+// Gmail Takeout writes a message's labels to X-Gmail-Labels; these carry flags rather than folders
+const GMAIL_FLAG_LABELS = ['Unread', 'Opened', 'Starred', 'Trash'];
+
+const NEWLINE = 0x0a;
+
+/**
+ * Work out an archive's format: directories with cur/new are Maildir, other directories hold
+ * EML files, zip files are exports, and other files starting with a "From " line are mbox
+ */
+export async function detectMailboxFormat(sourcePath: string): Promise<MailboxFormat> {
+  const stats = await fs.promises.stat(sourcePath);
+
+  if (stats.isDirectory()) {
+    const maildir = await isMaildir(sourcePath) || (await listMaildirs(sourcePath)).length > 0;
+    return maildir ? 'maildir' : 'eml';
+  }
+
+  const extension = path.extname(sourcePath).toLowerCase();
+  if (extension === '.eml') return 'eml';
+  if (extension === '.mbox' || extension === '.mbx') return 'mbox';
+  if (extension === '.zip') return 'zip';
+
+  const handle = await fs.promises.open(sourcePath, 'r');
+  try {
+    const head = Buffer.alloc(5);
+    await handle.read(head, 0, 5, 0);
+    if (head.toString('latin1', 0, 4) === 'PK\x03\x04') return 'zip';
+    return head.toString('latin1') === 'From ' ? 'mbox' : 'eml';
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Total size of an archive's files, for progress reporting
+ */
+export async function measureMailbox(sourcePath: string): Promise<number> {
+  const stats = await fs.promises.stat(sourcePath);
+  if (!stats.isDirectory()) return stats.size;
+
+  let total = 0;
+  for (const entry of await fs.promises.readdir(sourcePath, { withFileTypes: true })) {
+    if (entry.isDirectory() || entry.isFile()) {
+      total += await measureMailbox(path.join(sourcePath, entry.name));
+    }
+  }
+  return total;
+}
+
+/**
+ * Read every message of an archive in the given format
+ */
+export function readMailbox(sourcePath: string, format: MailboxFormat, folder = 'INBOX'): AsyncGenerator<MailboxMessage> {
+  switch (format) {
+    case 'mbox':
+      return readMbox(fs.createReadStream(sourcePath), folder, sourcePath);
+    case 'eml':
+      return readEml(sourcePath, folder);
+    case 'maildir':
+      return readMaildir(sourcePath);
+    case 'zip':
+      return readZip(sourcePath, folder);
+  }
+}
+
+/**
+ * Split an mbox stream into messages. A message starts at a "From " line at the top of the
+ * file or after a blank line; ">From " escapes in bodies are undone (mboxrd).
+ */
+export async function* readMbox(input: AsyncIterable<Buffer | string> | Iterable<Buffer | string>, folder = 'INBOX', source = 'mbox'): AsyncGenerator<MailboxMessage> {
+  let pending = Buffer.alloc(0);
+  let lines: Buffer[] = [];
+  let envelope: string | null = null;
+  let previousBlank = true;
+  let count = 0;
+
+  const finish = (): MailboxMessage | null => {
+    if (envelope === null) return null;
+
+    // The blank line before the next "From " line separates messages and isn't part of this one
+    if (lines.length > 0 && isBlankLine(lines[lines.length - 1])) {
+      lines.pop();
+    }
+
+    count++;
+    return mboxMessage(Buffer.concat(lines), envelope, folder, `${source}#${count}`);
+  };
+
+  const takeLine = (line: Buffer): MailboxMessage | null => {
+    let message: MailboxMessage | null = null;
+
+    if (previousBlank && startsWith(line, 'From ')) {
+      message = finish();
+      envelope = line.toString('latin1').trim();
+      lines = [];
+    } else if (envelope !== null) {
+      lines.push(/^>+From /.test(line.subarray(0, 64).toString('latin1')) ? line.subarray(1) : line);
+    }
+
+    previousBlank = isBlankLine(line);
+    return message;
+  };
+
+  for await (const chunk of input) {
+    pending = Buffer.concat([pending, typeof chunk === 'string' ? Buffer.from(chunk) : chunk]);
+
+    let newline: number;
+    while ((newline = pending.indexOf(NEWLINE)) !== -1) {
+      const message = takeLine(pending.subarray(0, newline + 1));
+      pending = pending.subarray(newline + 1);
+      if (message) yield message;
+    }
+  }
+
+  if (pending.length > 0) {
+    const message = takeLine(pending);
+    if (message) yield message;
+  }
+
+  const last = finish();
+  if (last) yield last;
+}
+
+/**
+ * Read a single EML file, or every .eml file below a directory. Messages in subdirectories
+ * go to a folder named after the subdirectory.
+ */
+export async function* readEml(sourcePath: string, folder = 'INBOX'): AsyncGenerator<MailboxMessage> {
+  const stats = await fs.promises.stat(sourcePath);
+
+  if (!stats.isDirectory()) {
+    const raw = await fs.promises.readFile(sourcePath);
+    yield { raw, folder, ...headerFlags(raw), receivedAt: stats.mtime, location: sourcePath };
+    return;
+  }
+
+  const entries = (await fs.promises.readdir(sourcePath, { withFileTypes: true }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    const entryPath = path.join(sourcePath, entry.name);
+
+    if (entry.isDirectory()) {
+      yield* readEml(entryPath, folder === 'INBOX' ? entry.name : `${folder}/${entry.name}`);
+    } else if (entry.isFile() && path.extname(entry.name).toLowerCase() === '.eml') {
+      yield* readEml(entryPath, folder);
+    }
+  }
+}
+
+/**
+ * Read every message of a Maildir tree: the root maildir is INBOX, and Maildir++ folders
+ * (".Sent", ".Archive.2019") or nested maildirs become folders of their own
+ */
+export async function* readMaildir(root: string): AsyncGenerator<MailboxMessage> {
+  const maildirs = await listMaildirs(root);
+
+  if (await isMaildir(root)) {
+    maildirs.unshift({ dir: root, folder: 'INBOX' });
+  }
+
+  for (const { dir, folder } of maildirs) {
+    for (const subdir of ['new', 'cur']) {
+      let names: string[];
+      try {
+        names = (await fs.promises.readdir(path.join(dir, subdir))).sort();
+      } catch {
+        continue;
+      }
+
+      for (const name of names) {
+        if (name.startsWith('.')) continue;
+
+        const filePath = path.join(dir, subdir, name);
+        const stats = await fs.promises.stat(filePath);
+        if (!stats.isFile()) continue;
+
+        const raw = await fs.promises.readFile(filePath);
+        yield {
+          raw,
+          folder,
+          flags: subdir === 'new' ? [] : maildirFlags(name),
+          labels: [],
+          receivedAt: stats.mtime,
+          location: filePath
+        };
+      }
+    }
+  }
+}
+
+/**
+ * Read the messages of an export zip: .mbox files, and .eml files whose folder is their
+ * directory below messages/
+ */
+export async function* readZip(sourcePath: string, folder = 'INBOX'): AsyncGenerator<MailboxMessage> {
+  const zip = await JSZip.loadAsync(await fs.promises.readFile(sourcePath));
+  const names = Object.keys(zip.files).filter(name => !zip.files[name].dir).sort();
+
+  for (const name of names) {
+    const extension = path.posix.extname(name).toLowerCase();
+    const location = `${sourcePath}#${name}`;
+
+    if (extension === '.mbox') {
+      yield* readMbox([await zip.files[name].async('nodebuffer')], folder, location);
+    } else if (extension === '.eml') {
+      const raw = await zip.files[name].async('nodebuffer');
+      const directory = path.posix.dirname(name).split('/').filter(segment => segment !== '.');
+      if (directory[0] === 'messages') directory.shift();
+
+      yield {
+        raw,
+        folder: directory.length > 0 ? directory.join('/') : folder,
+        ...headerFlags(raw),
+        receivedAt: zip.files[name].date,
+        location
+      };
+    }
+  }
+}
+
+/**
+ * The JSON bundle inside an export zip, or null when there is none
+ */
+export async function readZipBundle(sourcePath: string): Promise<unknown | null> {
+  const zip = await JSZip.loadAsync(await fs.promises.readFile(sourcePath));
+  const bundle = zip.file(BUNDLE_FILE_NAME);
+
+  return bundle ? JSON.parse(await bundle.async('string')) : null;
+}
+
+/**
+ * IMAP flags from a Maildir file name ("1700000000.M1P2.host:2,FS" is flagged and seen)
+ */
+export function maildirFlags(fileName: string): string[] {
+  const match = fileName.match(/[:!]2,([A-Za-z]*)$/);
+  if (!match) return [];
+
+  return match[1].split('').map(letter => MAILDIR_FLAGS[letter]).filter(Boolean);
+}
+
+async function isMaildir(dir: string): Promise<boolean> {
+  for (const subdir of ['cur', 'new']) {
+    try {
+      if ((await fs.promises.stat(path.join(dir, subdir))).isDirectory()) return true;
+    } catch {
+      // Not there
+    }
+  }
+  return false;
+}
+
+async function listMaildirs(root: string, parent = ''): Promise<{ dir: string; folder: string }[]> {
+  const found: { dir: string; folder: string }[] = [];
+  const entries = (await fs.promises.readdir(root, { withFileTypes: true }))
+    .filter(entry => entry.isDirectory() && !['cur', 'new', 'tmp'].includes(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    const dir = path.join(root, entry.name);
+    // Maildir++ keeps every folder at the top level, with dots separating the hierarchy
+    const name = entry.name.startsWith('.') ? entry.name.slice(1).split('.').join('/') : entry.name;
+    const folder = parent ? `${parent}/${name}` : name;
+
+    if (await isMaildir(dir)) {
+      found.push({ dir, folder });
+    }
+    if (!entry.name.startsWith('.')) {
+      found.push(...await listMaildirs(dir, folder));
+    }
+  }
+
+  return found;
+}
+
+function mboxMessage(raw: Buffer, envelope: string, folder: string, location: string): MailboxMessage {
+  // "From sender@example.com Thu Jan  1 00:00:00 2015": the date follows the sender
+  const envelopeDate = new Date(envelope.replace(/^From\s+\S+\s+/, ''));
+
+  return {
+    raw,
+    folder,
+    ...headerFlags(raw),
+    receivedAt: isNaN(envelopeDate.getTime()) ? null : envelopeDate,
+    location
+  };
+}
+
+/**
+ * Flags and labels recorded in a message's own headers: Status/X-Status as written by mbox
+ * clients, and X-Gmail-Labels from Gmail Takeout
+ */
+export function headerFlags(raw: Buffer): { flags: string[]; labels: string[] } {
+  const headers = readHeaders(raw);
+  const flags = new Set<string>();
+  let labels: string[] = [];
+
+  const status = (headers.get('status') || '') + (headers.get('x-status') || '');
+  if (status.includes('R')) flags.add('\\Seen');
+  if (status.includes('F')) flags.add('\\Flagged');
+  if (status.includes('A')) flags.add('\\Answered');
+  if (status.includes('D')) flags.add('\\Deleted');
+
+  const gmailLabels = headers.get('x-gmail-labels');
+  if (gmailLabels !== undefined) {
+    const all = gmailLabels.split(',').map(label => label.trim()).filter(Boolean);
+
+    if (!all.includes('Unread')) flags.add('\\Seen');
+    if (all.includes('Starred')) flags.add('\\Flagged');
+    if (all.includes('Trash')) flags.add('\\Deleted');
+
+    labels = all.filter(label => !GMAIL_FLAG_LABELS.includes(label));
+  }
+
+  return { flags: Array.from(flags), labels };
+}
+
+// Unfolded header fields of a raw message, keyed by lower-case name (first occurrence wins)
+function readHeaders(raw: Buffer): Map<string, string> {
+  const head = raw.subarray(0, 64 * 1024).toString('latin1');
+  const end = head.search(/\r?\n\r?\n/);
+  const text = end === -1 ? head : head.slice(0, end);
+  const headers = new Map<string, string>();
+
+  for (const line of text.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) {
+      headers.set(name, line.slice(colon + 1).trim());
+    }
+  }
+
+  return headers;
+}
+
+function isBlankLine(line: Buffer): boolean {
+  return line.length === 0 || (line.length === 1 && line[0] === NEWLINE) ||
+    (line.length === 2 && line[0] === 0x0d && line[1] === NEWLINE);
+}
+
+function startsWith(line: Buffer, prefix: string): boolean {
+  return line.length >= prefix.length && line.subarray(0, prefix.length).toString('latin1') === prefix;
+}
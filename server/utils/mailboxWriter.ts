@@ -0,0 +1,89 @@
+/**
+ * Mailbox archive writer
+ *
+ * Turns stored emails back into RFC 822 messages and mbox entries for export.
+ * Flags go into Status/X-Status headers, which the mailbox reader picks up again on import.
+ */
+import MailComposer from 'nodemailer/lib/mail-composer';
+
+export interface ComposableEmail {
+  messageId: string;
+  sender: string;
+  recipients: string[];
+  subject: string;
+  body: string;
+  bodyHtml: string | null;
+  timestamp: Date;
+  inReplyTo: string | null;
+  messageReferences: string[] | null;
+  isRead: boolean;
+  isStarred: boolean;
+  isDeleted: boolean;
+}
+
+export interface ComposableAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  contentId: string | null;
+  isInline: boolean;
+}
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Build the raw message for a stored email
+ */
+export function composeMessage(email: ComposableEmail, attachments: ComposableAttachment[] = []): Promise<Buffer> {
+  const extendedStatus = (email.isStarred ? 'F' : '') + (email.isDeleted ? 'D' : '');
+
+  const composer = new MailComposer({
+    from: email.sender,
+    to: email.recipients,
+    subject: email.subject,
+    date: email.timestamp,
+    messageId: email.messageId,
+    inReplyTo: email.inReplyTo || undefined,
+    references: email.messageReferences?.length ? email.messageReferences : undefined,
+    text: email.body,
+    html: email.bodyHtml || undefined,
+    headers: {
+      Status: email.isRead ? 'RO' : 'O',
+      ...(extendedStatus ? { 'X-Status': extendedStatus } : {})
+    },
+    attachments: attachments.map(attachment => ({
+      filename: attachment.filename,
+      contentType: attachment.contentType,
+      content: attachment.content,
+      cid: attachment.contentId?.replace(/^<|>$/g, '') || undefined,
+      contentDisposition: attachment.isInline ? 'inline' as const : 'attachment' as const
+    }))
+  });
+
+  return composer.compile().build();
+}
+
+/**
+ * Wrap a raw message as an mbox entry: a "From " line, the message with LF line endings
+ * and ">From " escapes (mboxrd), and a blank line before the next entry
+ */
+export function mboxEntry(raw: Buffer, sender: string, date: Date): Buffer {
+  const address = sender.match(/<([^>]+)>/)?.[1] || sender.trim().split(/\s+/)[0] || 'MAILER-DAEMON';
+  // latin1 maps bytes to characters one to one, so 8bit content survives the round trip
+  let text = raw.toString('latin1').replace(/\r\n/g, '\n').replace(/^(>*From )/gm, '>$1');
+
+  if (!text.endsWith('\n')) {
+    text += '\n';
+  }
+
+  return Buffer.from(`From ${address} ${asctime(date)}\n${text}\n`, 'latin1');
+}
+
+// Date in the asctime() form mbox "From " lines use: "Mon Mar  4 09:15:00 2019" (UTC)
+function asctime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+
+  return `${DAYS[date.getUTCDay()]} ${MONTHS[date.getUTCMonth()]} ${String(date.getUTCDate()).padStart(2, ' ')} ${time} ${date.getUTCFullYear()}`;
+}
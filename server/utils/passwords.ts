@@ -0,0 +1,49 @@
+/**
+ * Password hashing and one-time tokens
+ *
+ * Passwords are hashed with scrypt and a random salt, stored as
+ * `scrypt$<salt>$<hash>` in hex. Tokens handed out by email (password resets)
+ * are random and only their SHA-256 digest is stored.
+ */
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+const TOKEN_BYTES = 32;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const hash = await scrypt(password, salt, KEY_BYTES);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+/**
+ * Check a password against a stored hash in constant time. Anything that is not a
+ * scrypt hash (e.g. a placeholder password from before sign-in existed) never matches.
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, saltHex, hashHex] = stored.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/**
+ * A random URL-safe token for links sent by email
+ */
+export function generateToken(): string {
+  return crypto.randomBytes(TOKEN_BYTES).toString('base64url');
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
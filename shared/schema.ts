@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp, uniqueIndex, pgEnum, foreignKey, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, integer, bigint, boolean, doublePrecision, json, jsonb, timestamp, uniqueIndex, index, pgEnum, foreignKey, uuid } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { sql } from "drizzle-orm";
@@ -11,6 +11,11 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   email: text("email").notNull(),
   fullName: text("full_name"),
+  // Base32 TOTP secret, encrypted; only checked at login once totpEnabled is set
+  totpSecret: text("totp_secret"),
+  totpEnabled: boolean("totp_enabled").default(false).notNull(),
+  // Time step of the last code accepted, so a code can't be used a second time
+  totpLastStep: bigint("totp_last_step", { mode: "number" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -24,8 +29,57 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Single-use password reset tokens; only the SHA-256 of the emailed token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index("password_reset_tokens_user_idx").on(table.userId),
+  };
+});
+
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+// Personal access tokens for scripts and integrations; only the SHA-256 of the token is stored
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(), // Start of the token, shown to tell tokens apart
+  scopes: text("scopes").array().notNull(),
+  rateLimitPerMinute: integer("rate_limit_per_minute").default(60).notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index("api_tokens_user_idx").on(table.userId),
+  };
+});
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+
+// Login sessions, in the layout connect-pg-simple reads and writes
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => {
+  return {
+    expireIdx: index("IDX_session_expire").on(table.expire),
+  };
+});
+
 // Email account related schemas
-export const accountTypeEnum = pgEnum("account_type", ["gmail", "exchange"]);
+export const accountTypeEnum = pgEnum("account_type", ["gmail", "exchange", "imap", "outlook_graph", "jmap"]);
 export const authMethodEnum = pgEnum("auth_method", ["app_password", "oauth", "basic"]);
 
 export const emailAccounts = pgTable("email_accounts", {
@@ -36,10 +90,12 @@ export const emailAccounts = pgTable("email_accounts", {
   emailAddress: text("email_address").notNull(),
   credentials: jsonb("credentials").notNull(), // Store encrypted credentials including tokens for OAuth
   displayName: text("display_name"), // User-friendly name for the account
-  serverSettings: jsonb("server_settings"), // Store server settings, especially for Exchange/EWS accounts
+  serverSettings: jsonb("server_settings"), // Store server settings: EWS URL for Exchange, host/port/TLS mode/auth method for IMAP
   lastSynced: timestamp("last_synced"),
   isActive: boolean("is_active").default(true).notNull(),
   syncEnabled: boolean("sync_enabled").default(true).notNull(), // Allow users to disable sync for specific accounts
+  syncFolders: text("sync_folders").array(), // Folders to ingest; null means the provider defaults (Inbox, Sent, All Mail/Archive)
+  needsReconsent: boolean("needs_reconsent").default(false).notNull(), // OAuth refresh token was rejected; the user has to sign in again
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -54,6 +110,35 @@ export const insertEmailAccountSchema = createInsertSchema(emailAccounts).omit({
 export type InsertEmailAccount = z.infer<typeof insertEmailAccountSchema>;
 export type EmailAccount = typeof emailAccounts.$inferSelect;
 
+// Per-folder sync cursor for incremental sync
+export const emailSyncState = pgTable("email_sync_state", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").references(() => emailAccounts.id, { onDelete: "cascade" }).notNull(),
+  folder: text("folder").notNull(),
+  uidValidity: bigint("uid_validity", { mode: "number" }), // Cursor is only valid while UIDVALIDITY is unchanged
+  lastUid: bigint("last_uid", { mode: "number" }).default(0).notNull(), // Highest UID ingested so far
+  highestModseq: text("highest_modseq"), // CONDSTORE HIGHESTMODSEQ (64-bit, kept as text)
+  failedUids: jsonb("failed_uids").$type<number[]>().default([]).notNull(), // UIDs at or below lastUid that couldn't be parsed, retried on the next sync
+  syncToken: text("sync_token"), // Opaque provider cursor for non-IMAP accounts (EWS SyncState, Graph delta link)
+  lastSyncedAt: timestamp("last_synced_at"),
+  backfillCompletedAt: timestamp("backfill_completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    accountFolderIdx: uniqueIndex("email_sync_state_account_folder_idx").on(table.accountId, table.folder),
+  };
+});
+
+export const insertEmailSyncStateSchema = createInsertSchema(emailSyncState).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertEmailSyncState = z.infer<typeof insertEmailSyncStateSchema>;
+export type EmailSyncState = typeof emailSyncState.$inferSelect;
+
 // Email schema
 export const emails = pgTable("emails", {
   id: serial("id").primaryKey(),
@@ -64,7 +149,11 @@ export const emails = pgTable("emails", {
   subject: text("subject").notNull(),
   body: text("body").notNull(),
   bodyHtml: text("body_html"),
-  threadId: text("thread_id"),
+  threadId: text("thread_id"), // Provider conversation id (Gmail, EWS, Graph) or one assigned by header threading
+  inReplyTo: text("in_reply_to"),
+  messageReferences: text("message_references").array(), // Message-IDs from the References header, root first
+  folder: text("folder"), // Folder the message was first ingested from
+  labels: text("labels").array(), // Gmail labels (X-GM-LABELS), or the folders the message was seen in for other providers
   timestamp: timestamp("timestamp").notNull(),
   processed: boolean("processed").default(false).notNull(),
   is_cleaned: boolean("is_cleaned").default(false).notNull(),
@@ -72,9 +161,13 @@ export const emails = pgTable("emails", {
   metadata: jsonb("metadata"),
   isRead: boolean("is_read").default(false).notNull(),
   isArchived: boolean("is_archived").default(false).notNull(),
+  isStarred: boolean("is_starred").default(false).notNull(),
+  isDeleted: boolean("is_deleted").default(false).notNull(), // Moved to the provider's trash
+  serverFlags: jsonb("server_flags"), // Flags as last seen on the provider, to tell server-side changes from pending local ones
   // AI processing fields - using text for schema definition, proper pgvector handled in migrations
   embeddingVector: text("embedding_vector"),
   aiExtractedSummary: text("ai_extracted_summary"),
+  aiSummaryPromptVersionId: integer("ai_summary_prompt_version_id").references(() => promptTemplateVersions.id, { onDelete: "set null" }), // The prompt that produced the summary
   aiSuggestedTasksJson: jsonb("ai_suggested_tasks_json"),
   aiExtractedDeadlinesJson: jsonb("ai_extracted_deadlines_json"),
   aiExtractedEntitiesJson: jsonb("ai_extracted_entities_json"),
@@ -85,6 +178,7 @@ export const emails = pgTable("emails", {
   embeddingGeneratedAt: timestamp("embedding_generated_at"),
   aiFeaturesExtractedAt: timestamp("ai_features_extracted_at"),
   tasksGeneratedAt: timestamp("tasks_generated_at"),
+  attachmentText: text("attachment_text"), // Text extracted from the email's attachments, for search, embeddings and task extraction
   // Full-text search vector
   searchVector: text("search_vector"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -98,6 +192,8 @@ export const emails = pgTable("emails", {
 export const insertEmailSchema = createInsertSchema(emails, {
   isRead: z.boolean().default(false),
   isArchived: z.boolean().default(false),
+  isStarred: z.boolean().default(false),
+  isDeleted: z.boolean().default(false),
   processed: z.boolean().default(false),
 }).omit({
   id: true,
@@ -112,6 +208,158 @@ export const insertEmailSchema = createInsertSchema(emails, {
 export type InsertEmail = z.infer<typeof insertEmailSchema>;
 export type Email = typeof emails.$inferSelect;
 
+// Flags kept in sync with the provider
+export const emailFlagEnum = pgEnum("email_flag", ["read", "starred", "archived", "deleted"]);
+export const flagChangeSourceEnum = pgEnum("flag_change_source", ["local", "server"]);
+// pending: local change waiting to be pushed; superseded: lost to a later change (last writer wins)
+export const flagChangeStatusEnum = pgEnum("flag_change_status", ["pending", "applied", "superseded", "failed"]);
+
+// Change log of email flags. Pending local rows are the queue of changes to push to the provider.
+export const emailFlagChanges = pgTable("email_flag_changes", {
+  id: serial("id").primaryKey(),
+  emailId: integer("email_id").references(() => emails.id, { onDelete: "cascade" }).notNull(),
+  accountId: integer("account_id").references(() => emailAccounts.id, { onDelete: "cascade" }).notNull(),
+  flag: emailFlagEnum("flag").notNull(),
+  value: boolean("value").notNull(),
+  source: flagChangeSourceEnum("source").notNull(),
+  status: flagChangeStatusEnum("status").default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  detail: text("detail"), // How a conflict was resolved
+  changedAt: timestamp("changed_at").notNull(), // When the change was made, compared for last-writer-wins
+  appliedAt: timestamp("applied_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    emailIdx: index("email_flag_changes_email_idx").on(table.emailId),
+    statusIdx: index("email_flag_changes_status_idx").on(table.status, table.accountId),
+  };
+});
+
+export type EmailFlagChange = typeof emailFlagChanges.$inferSelect;
+
+// Archive formats that can be imported into an account; zip is an export of this app
+export const mailImportFormatEnum = pgEnum("mail_import_format", ["mbox", "eml", "maildir", "zip"]);
+export const mailImportStatusEnum = pgEnum("mail_import_status", ["pending", "running", "completed", "failed"]);
+
+// Imports of exported mail archives and their progress
+export const mailImports = pgTable("mail_imports", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").references(() => emailAccounts.id, { onDelete: "cascade" }).notNull(),
+  format: mailImportFormatEnum("format").notNull(),
+  source: text("source").notNull(), // Uploaded file name or path of the archive
+  status: mailImportStatusEnum("status").default("pending").notNull(),
+  totalBytes: integer("total_bytes").default(0).notNull(),
+  processedBytes: integer("processed_bytes").default(0).notNull(),
+  messagesRead: integer("messages_read").default(0).notNull(),
+  importedCount: integer("imported_count").default(0).notNull(),
+  duplicateCount: integer("duplicate_count").default(0).notNull(),
+  failedCount: integer("failed_count").default(0).notNull(),
+  error: text("error"),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    accountIdx: index("mail_imports_account_idx").on(table.accountId),
+  };
+});
+
+export type MailImport = typeof mailImports.$inferSelect;
+
+// Kinds of background work run by the job queue, and where each job is in its lifecycle;
+// dead jobs failed every attempt and are kept for inspection, cancelled ones were stopped before running
+export const jobKindEnum = pgEnum("job_kind", ["sync-account", "clean-email", "embed-email", "extract-tasks", "update-relationships"]);
+export const jobStatusEnum = pgEnum("job_status", ["pending", "running", "completed", "dead", "cancelled"]);
+
+// Durable background jobs, claimed by workers with SELECT ... FOR UPDATE SKIP LOCKED
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  kind: jobKindEnum("kind").notNull(),
+  payload: jsonb("payload").default({}).notNull(),
+  status: jobStatusEnum("status").default("pending").notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(5).notNull(),
+  dedupeKey: text("dedupe_key"), // At most one pending and one running job per key, e.g. one queued sync per account
+  runAt: timestamp("run_at").defaultNow().notNull(), // Not claimed before this time; pushed back on each retry
+  lockedAt: timestamp("locked_at"),
+  lockedBy: text("locked_by"), // Worker that claimed the job
+  lastError: text("last_error"),
+  errorTrace: text("error_trace"), // Stack trace of the last failure
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+}, (table) => {
+  return {
+    claimIdx: index("jobs_claim_idx").on(table.status, table.kind, table.runAt),
+    dedupeKeyIdx: index("jobs_dedupe_key_idx").on(table.dedupeKey),
+    pendingDedupeIdx: uniqueIndex("jobs_pending_dedupe_idx").on(table.dedupeKey).where(sql`status = 'pending'`),
+  };
+});
+
+export type Job = typeof jobs.$inferSelect;
+
+// How a draft was started
+export const draftModeEnum = pgEnum("draft_mode", ["new", "reply", "reply_all", "forward"]);
+
+// Outgoing messages being composed; a draft is removed once it has been sent
+export const drafts = pgTable("drafts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  accountId: integer("account_id").references(() => emailAccounts.id, { onDelete: "cascade" }).notNull(),
+  mode: draftModeEnum("mode").default("new").notNull(),
+  sourceEmailId: integer("source_email_id").references(() => emails.id, { onDelete: "set null" }), // Email being replied to or forwarded
+  to: text("to").array().notNull(),
+  cc: text("cc").array(),
+  bcc: text("bcc").array(),
+  subject: text("subject").notNull(),
+  body: text("body").notNull(),
+  inReplyTo: text("in_reply_to"),
+  messageReferences: text("message_references").array(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertDraftSchema = createInsertSchema(drafts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertDraft = z.infer<typeof insertDraftSchema>;
+export type Draft = typeof drafts.$inferSelect;
+
+// Attachment text extraction outcome
+export const attachmentExtractionStatusEnum = pgEnum("attachment_extraction_status", ["pending", "extracted", "unsupported", "failed"]);
+
+// Email attachments; the content itself lives on disk, addressed by its SHA-256 hash
+export const emailAttachments = pgTable("email_attachments", {
+  id: serial("id").primaryKey(),
+  emailId: integer("email_id").references(() => emails.id, { onDelete: "cascade" }).notNull(),
+  filename: text("filename").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  contentHash: text("content_hash").notNull(),
+  contentId: text("content_id"), // Content-ID of inline parts (cid: references in HTML bodies)
+  isInline: boolean("is_inline").default(false).notNull(),
+  extractedText: text("extracted_text"),
+  extractionStatus: attachmentExtractionStatusEnum("extraction_status").default("pending").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    emailIdx: index("email_attachments_email_idx").on(table.emailId),
+    contentHashIdx: index("email_attachments_content_hash_idx").on(table.contentHash),
+  };
+});
+
+export const insertEmailAttachmentSchema = createInsertSchema(emailAttachments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertEmailAttachment = z.infer<typeof insertEmailAttachmentSchema>;
+export type EmailAttachment = typeof emailAttachments.$inferSelect;
+
 // Priority enum
 export const priorityEnum = pgEnum("priority", ["high", "medium", "low"]);
 
@@ -153,6 +401,7 @@ export const tasks = pgTable("tasks", {
   aiConfidence: integer("ai_confidence"),
   aiModel: text("ai_model"),
   originalAiSuggestionJson: jsonb("original_ai_suggestion_json"), // Store the entire AI task suggestion
+  promptVersionId: integer("prompt_version_id").references(() => promptTemplateVersions.id, { onDelete: "set null" }), // The prompt that produced the suggestion
   needsReview: boolean("needs_review").default(false).notNull(),
   
   // Reminder and recurrence fields
@@ -186,13 +435,14 @@ export const insertTaskSchema = createInsertSchema(tasks, {
   embeddingVector: true,
   searchVector: true,
   nextReminderAt: true,
+  promptVersionId: true,
 });
 
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type Task = typeof tasks.$inferSelect;
 
 // AI Settings
-export const llmProviderEnum = pgEnum("llm_provider", ["ollama", "openai", "anthropic", "perplexity"]);
+export const llmProviderEnum = pgEnum("llm_provider", ["ollama", "openai", "anthropic", "perplexity", "mock"]);
 
 // AI Models table to store available models
 export const aiModels = pgTable("ai_models", {
@@ -205,6 +455,9 @@ export const aiModels = pgTable("ai_models", {
   contextLength: integer("context_length"), // Max tokens the model can handle
   isEmbeddingModel: boolean("is_embedding_model").default(false).notNull(),
   isDefault: boolean("is_default").default(false).notNull(),
+  // USD per million tokens, for usage accounting; null when unknown
+  inputPricePerMillion: doublePrecision("input_price_per_million"),
+  outputPricePerMillion: doublePrecision("output_price_per_million"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -225,7 +478,7 @@ export const aiSettings = pgTable("ai_settings", {
   selectedProvider: llmProviderEnum("selected_provider").default("openai").notNull(),
   selectedModelId: integer("selected_model_id").references(() => aiModels.id),
   embeddingModelId: integer("embedding_model_id").references(() => aiModels.id),
-  // Store API keys as plain text (as requested)
+  // Provider API keys, encrypted with server/utils/encryption (see server/utils/aiApiKeys)
   openaiApiKey: text("openai_api_key"),
   anthropicApiKey: text("anthropic_api_key"),
   perplexityApiKey: text("perplexity_api_key"),
@@ -234,6 +487,8 @@ export const aiSettings = pgTable("ai_settings", {
   // Other settings
   confidenceThreshold: integer("confidence_threshold").default(70).notNull(),
   autoExtractTasks: boolean("auto_extract_tasks").default(false).notNull(),
+  // Background AI jobs pause once this month's usage costs this much (USD); null for no limit
+  monthlyBudgetUsd: doublePrecision("monthly_budget_usd"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -247,6 +502,91 @@ export const insertAiSettingsSchema = createInsertSchema(aiSettings).omit({
 export type InsertAiSettings = z.infer<typeof insertAiSettingsSchema>;
 export type AiSettings = typeof aiSettings.$inferSelect;
 
+// Model outputs that failed schema validation, kept for inspection. A row is marked
+// repaired when a later attempt in the same call produced valid output.
+export const llmRejectedOutputs = pgTable("llm_rejected_outputs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  feature: text("feature").notNull(), // What the output was for, e.g. "enhanced-task-extraction"
+  provider: llmProviderEnum("provider").notNull(),
+  model: text("model").notNull(),
+  attempt: integer("attempt").notNull(), // 1 for the first answer, then one more per repair prompt
+  output: text("output").notNull(),
+  errors: jsonb("errors").notNull(), // Field-level issues: [{ path, message }]
+  repaired: boolean("repaired").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdx: index("llm_rejected_outputs_user_idx").on(table.userId, table.createdAt),
+  };
+});
+
+export type LlmRejectedOutput = typeof llmRejectedOutputs.$inferSelect;
+
+// One LLM or embedding call, for usage and cost accounting
+export const llmUsage = pgTable("llm_usage", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }), // Null for calls made for no particular user
+  feature: text("feature").notNull(), // What the call was for, e.g. "enhanced-task-extraction"
+  kind: text("kind").notNull(), // chat or embedding
+  provider: llmProviderEnum("provider").notNull(),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").default(0).notNull(),
+  completionTokens: integer("completion_tokens").default(0).notNull(),
+  tokensEstimated: boolean("tokens_estimated").default(false).notNull(), // The provider didn't report usage
+  latencyMs: integer("latency_ms").notNull(),
+  costUsd: doublePrecision("cost_usd"), // Null when the model has no price
+  success: boolean("success").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userCreatedIdx: index("llm_usage_user_created_idx").on(table.userId, table.createdAt),
+  };
+});
+
+export type LlmUsageRecord = typeof llmUsage.$inferSelect;
+
+// A value a prompt template can refer to as {{name}}
+export interface PromptVariable {
+  name: string;
+  type: "string" | "number" | "boolean";
+  required: boolean;
+  description: string;
+}
+
+// Named prompts used by the AI features, e.g. "enhanced-task-extraction"
+export const promptTemplates = pgTable("prompt_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description").notNull(),
+  variables: jsonb("variables").$type<PromptVariable[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+
+// Versions are never edited, so tasks and summaries can point at the exact prompt
+// that produced them. Versions without a user are the defaults; a user's latest
+// version that hasn't been retired overrides the defaults for them.
+export const promptTemplateVersions = pgTable("prompt_template_versions", {
+  id: serial("id").primaryKey(),
+  templateId: integer("template_id").references(() => promptTemplates.id, { onDelete: "cascade" }).notNull(),
+  version: integer("version").notNull(), // Numbered per template, across defaults and overrides
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  systemTemplate: text("system_template"),
+  userTemplate: text("user_template").notNull(),
+  notes: text("notes"),
+  retiredAt: timestamp("retired_at"), // Set when a user goes back to the default
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    templateVersionIdx: uniqueIndex("prompt_template_versions_template_version_idx").on(table.templateId, table.version),
+    userIdx: index("prompt_template_versions_user_idx").on(table.userId, table.templateId),
+  };
+});
+
+export type PromptTemplateVersion = typeof promptTemplateVersions.$inferSelect;
+
 // Comprehensive Feedback for AI learning
 export const feedback = pgTable("feedback", {
   id: serial("id").primaryKey(),